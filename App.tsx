@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { NavigationContainer, DefaultTheme } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import {
@@ -13,6 +13,7 @@ import {
   View,
   Text,
   TouchableOpacity,
+  Alert,
 } from 'react-native';
 import {
   RootStackParamList,
@@ -22,8 +23,13 @@ import { CharacterListScreen } from './src/screens/character/CharacterListScreen
 import { CharacterDetailScreen } from './src/screens/character/CharacterDetailScreen';
 import { CharacterFormScreen } from './src/screens/character/CharacterFormScreen';
 import { CharacterStatsScreen } from './src/screens/CharacterStatsScreen';
+import { IllegalBuildsScreen } from './src/screens/IllegalBuildsScreen';
+import { RelationshipCheckScreen } from './src/screens/RelationshipCheckScreen';
+import { RelationshipNetworkScreen } from './src/screens/RelationshipNetworkScreen';
+import { FactionMatrixScreen } from './src/screens/faction/FactionMatrixScreen';
 import { FactionStatsScreen } from './src/screens/FactionStatsScreen';
 import { CharacterSearchScreen } from './src/screens/character/CharacterSearchScreen';
+import { CharacterComparisonScreen } from './src/screens/character/CharacterComparisonScreen';
 import { DataManagementScreen } from './src/screens/DataManagementScreen';
 import { FactionListScreen } from './src/screens/faction/FactionListScreen';
 import { FactionDetailsScreen } from './src/screens/faction/FactionDetailScreen';
@@ -36,15 +42,40 @@ import { EventsTimelineScreen } from './src/screens/events/EventsListScreen';
 import { EventsFormScreen } from './src/screens/events/EventsFormScreen';
 import { EventsDetailScreen } from './src/screens/events/EventsDetailScreen';
 import { InfluenceReportScreen } from './src/screens/InfluenceReportScreen';
+import { CraftingPlannerScreen } from './src/screens/CraftingPlannerScreen';
+import { SessionDashboardScreen } from './src/screens/SessionDashboardScreen';
 import { DiscordConfigScreen } from './src/screens/discord/DiscordConfigScreen';
 import { DiscordServerListScreen } from './src/screens/discord/DiscordServerListScreen';
 import { DiscordServerFormScreen } from './src/screens/discord/DiscordServerFormScreen';
 import { DiscordCharacterMappingScreen } from './src/screens/discord/DiscordCharacterMappingScreen';
 import { DiscordMessagesScreen } from './src/screens/discord/DiscordMessagesScreen';
 import { DiscordMessageContextScreen } from './src/screens/discord/DiscordMessageContextScreen';
+import { CampaignManagementScreen } from './src/screens/CampaignManagementScreen';
+import { RulesPacksScreen } from './src/screens/RulesPacksScreen';
+import { TrashScreen } from './src/screens/TrashScreen';
+import { MergeReviewScreen } from './src/screens/MergeReviewScreen';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { ErrorBoundary } from './src/components';
+import { ErrorBoundary, StorageRecoveryBanner } from './src/components';
+import {
+  Campaign,
+  getActiveCampaign,
+  initializeCampaigns,
+  loadCampaigns,
+  setActiveCampaign,
+  subscribeToCampaignChanges,
+} from './src/utils/campaignStorage';
+import {
+  ChangeJournalEntry,
+  getUndoRedoState,
+  subscribeToJournalChanges,
+} from './src/utils/changeJournal';
+import { redoLastChange, undoLastChange } from './src/utils/undoRedo';
+import { ensureDailySnapshot } from './src/utils/snapshotStorage';
+import {
+  initializeRulesPack,
+  subscribeToRulesPackChanges,
+} from './src/utils/rulesPackStorage';
 
 // Dark theme for navigation
 const DarkTheme = {
@@ -63,18 +94,160 @@ const DarkTheme = {
 const Drawer = createDrawerNavigator<RootDrawerParamList>();
 const Stack = createStackNavigator<RootStackParamList>();
 
-// Custom drawer content with collapsible Discord section
+// Custom drawer content with campaign switcher and collapsible Discord section
 function CustomDrawerContent(props: DrawerContentComponentProps) {
   const [discordExpanded, setDiscordExpanded] = useState(false);
+  const [campaignExpanded, setCampaignExpanded] = useState(false);
+  const [activeCampaign, setActiveCampaignState] =
+    useState<Campaign>(getActiveCampaign());
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [undoRedo, setUndoRedo] = useState<{
+    undo: ChangeJournalEntry | null;
+    redo: ChangeJournalEntry | null;
+  }>({ undo: null, redo: null });
   const { state, navigation } = props;
 
+  useEffect(() => subscribeToCampaignChanges(setActiveCampaignState), []);
+
+  // The journal is per campaign, so refresh on campaign switches as well
+  useEffect(() => {
+    const refreshUndoRedo = () => getUndoRedoState().then(setUndoRedo);
+    refreshUndoRedo();
+    const unsubscribeJournal = subscribeToJournalChanges(refreshUndoRedo);
+    const unsubscribeCampaign = subscribeToCampaignChanges(refreshUndoRedo);
+    return () => {
+      unsubscribeJournal();
+      unsubscribeCampaign();
+    };
+  }, []);
+
   const isActive = (routeName: string) => {
     const currentRoute = state.routes[state.index];
     return currentRoute.name === routeName;
   };
 
+  const handleToggleCampaigns = async () => {
+    if (!campaignExpanded) {
+      setCampaigns(await loadCampaigns());
+    }
+    setCampaignExpanded(!campaignExpanded);
+  };
+
+  const handleSwitchCampaign = async (campaignId: string) => {
+    setCampaignExpanded(false);
+    if (campaignId !== activeCampaign.id) {
+      await setActiveCampaign(campaignId);
+    }
+  };
+
+  const handleUndo = async () => {
+    const entry = await undoLastChange();
+    if (entry) {
+      Alert.alert('Undone', entry.description, [{ text: 'OK' }]);
+    }
+  };
+
+  const handleRedo = async () => {
+    const entry = await redoLastChange();
+    if (entry) {
+      Alert.alert('Redone', entry.description, [{ text: 'OK' }]);
+    }
+  };
+
   return (
     <DrawerContentScrollView {...props} style={{ backgroundColor: '#262647' }}>
+      {/* Campaign Switcher */}
+      <TouchableOpacity
+        style={drawerStyles.campaignHeader}
+        onPress={handleToggleCampaigns}
+      >
+        <View style={drawerStyles.campaignHeaderContent}>
+          <Text style={drawerStyles.campaignHeaderLabel}>Campaign</Text>
+          <Text style={drawerStyles.campaignHeaderName} numberOfLines={1}>
+            {activeCampaign.name}
+          </Text>
+        </View>
+        <Text style={drawerStyles.sectionHeaderArrow}>
+          {campaignExpanded ? '▼' : '▶'}
+        </Text>
+      </TouchableOpacity>
+
+      {campaignExpanded && (
+        <View style={drawerStyles.sectionContent}>
+          {campaigns.map(campaign => (
+            <DrawerItem
+              key={campaign.id}
+              label={campaign.name}
+              onPress={() => handleSwitchCampaign(campaign.id)}
+              focused={campaign.id === activeCampaign.id}
+              activeTintColor="#6C5CE7"
+              inactiveTintColor="#B8B8CC"
+              activeBackgroundColor="rgba(108, 92, 231, 0.1)"
+              labelStyle={drawerStyles.drawerLabelIndented}
+            />
+          ))}
+          <DrawerItem
+            label="Manage Campaigns"
+            onPress={() => {
+              setCampaignExpanded(false);
+              navigation.navigate('Campaigns');
+            }}
+            focused={isActive('Campaigns')}
+            activeTintColor="#6C5CE7"
+            inactiveTintColor="#B8B8CC"
+            activeBackgroundColor="rgba(108, 92, 231, 0.1)"
+            labelStyle={drawerStyles.drawerLabelIndented}
+          />
+          <DrawerItem
+            label="Rules Pack"
+            onPress={() => {
+              setCampaignExpanded(false);
+              navigation.navigate('RulesPacks');
+            }}
+            focused={isActive('RulesPacks')}
+            activeTintColor="#6C5CE7"
+            inactiveTintColor="#B8B8CC"
+            activeBackgroundColor="rgba(108, 92, 231, 0.1)"
+            labelStyle={drawerStyles.drawerLabelIndented}
+          />
+        </View>
+      )}
+
+      {/* Undo / Redo */}
+      <View style={drawerStyles.undoRedoRow}>
+        <TouchableOpacity
+          style={[
+            drawerStyles.undoRedoButton,
+            !undoRedo.undo && drawerStyles.undoRedoButtonDisabled,
+          ]}
+          onPress={handleUndo}
+          disabled={!undoRedo.undo}
+          accessibilityLabel={
+            undoRedo.undo ? `Undo ${undoRedo.undo.description}` : 'Undo'
+          }
+        >
+          <Text style={drawerStyles.undoRedoText}>↶ Undo</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            drawerStyles.undoRedoButton,
+            !undoRedo.redo && drawerStyles.undoRedoButtonDisabled,
+          ]}
+          onPress={handleRedo}
+          disabled={!undoRedo.redo}
+          accessibilityLabel={
+            undoRedo.redo ? `Redo ${undoRedo.redo.description}` : 'Redo'
+          }
+        >
+          <Text style={drawerStyles.undoRedoText}>Redo ↷</Text>
+        </TouchableOpacity>
+      </View>
+      {undoRedo.undo && (
+        <Text style={drawerStyles.undoRedoHint} numberOfLines={1}>
+          Last change: {undoRedo.undo.description}
+        </Text>
+      )}
+
       <DrawerItem
         label="Characters"
         onPress={() => navigation.navigate('CharacterList')}
@@ -84,6 +257,15 @@ function CustomDrawerContent(props: DrawerContentComponentProps) {
         activeBackgroundColor="rgba(108, 92, 231, 0.1)"
         labelStyle={drawerStyles.drawerLabel}
       />
+      <DrawerItem
+        label="Session Dashboard"
+        onPress={() => navigation.navigate('SessionDashboard')}
+        focused={isActive('SessionDashboard')}
+        activeTintColor="#6C5CE7"
+        inactiveTintColor="#B8B8CC"
+        activeBackgroundColor="rgba(108, 92, 231, 0.1)"
+        labelStyle={drawerStyles.drawerLabel}
+      />
       <DrawerItem
         label="Factions"
         onPress={() => navigation.navigate('Factions')}
@@ -111,6 +293,15 @@ function CustomDrawerContent(props: DrawerContentComponentProps) {
         activeBackgroundColor="rgba(108, 92, 231, 0.1)"
         labelStyle={drawerStyles.drawerLabel}
       />
+      <DrawerItem
+        label="Crafting Planner"
+        onPress={() => navigation.navigate('CraftingPlanner')}
+        focused={isActive('CraftingPlanner')}
+        activeTintColor="#6C5CE7"
+        inactiveTintColor="#B8B8CC"
+        activeBackgroundColor="rgba(108, 92, 231, 0.1)"
+        labelStyle={drawerStyles.drawerLabel}
+      />
       <DrawerItem
         label="Influence Report"
         onPress={() => navigation.navigate('InfluenceReport')}
@@ -223,6 +414,62 @@ const drawerStyles = StyleSheet.create({
   sectionContent: {
     backgroundColor: 'rgba(0, 0, 0, 0.1)',
   },
+  campaignHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+    borderColor: '#404066',
+  },
+  campaignHeaderContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  campaignHeaderLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    color: '#8E8EA0',
+    textTransform: 'uppercase',
+  },
+  campaignHeaderName: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginTop: 2,
+  },
+  undoRedoRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    marginBottom: 4,
+  },
+  undoRedoButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#404066',
+    backgroundColor: 'rgba(108, 92, 231, 0.1)',
+  },
+  undoRedoButtonDisabled: {
+    opacity: 0.4,
+  },
+  undoRedoText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#B8B8CC',
+  },
+  undoRedoHint: {
+    fontSize: 12,
+    color: '#8E8EA0',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
 });
 
 // Main drawer navigator for primary screens
@@ -257,6 +504,14 @@ function MainDrawer() {
           drawerLabel: 'Characters',
         }}
       />
+      <Drawer.Screen
+        name="SessionDashboard"
+        component={SessionDashboardScreen}
+        options={{
+          title: 'Session Dashboard',
+          drawerLabel: 'Session Dashboard',
+        }}
+      />
       <Drawer.Screen
         name="Factions"
         component={FactionListScreen}
@@ -281,6 +536,14 @@ function MainDrawer() {
           drawerLabel: 'Events',
         }}
       />
+      <Drawer.Screen
+        name="CraftingPlanner"
+        component={CraftingPlannerScreen}
+        options={{
+          title: 'Crafting Planner',
+          drawerLabel: 'Crafting Planner',
+        }}
+      />
       <Drawer.Screen
         name="InfluenceReport"
         component={InfluenceReportScreen}
@@ -297,6 +560,22 @@ function MainDrawer() {
           drawerLabel: 'Data Management',
         }}
       />
+      <Drawer.Screen
+        name="Campaigns"
+        component={CampaignManagementScreen}
+        options={{
+          title: 'Campaigns',
+          drawerLabel: 'Campaigns',
+        }}
+      />
+      <Drawer.Screen
+        name="RulesPacks"
+        component={RulesPacksScreen}
+        options={{
+          title: 'Rules Packs',
+          drawerLabel: 'Rules Packs',
+        }}
+      />
       <Drawer.Screen
         name="DiscordConfig"
         component={DiscordConfigScreen}
@@ -342,6 +621,29 @@ const appStyles = StyleSheet.create({
 // Root stack navigator for the entire app
 export default function App() {
   const { width: screenWidth } = useWindowDimensions();
+  const [activeCampaignId, setActiveCampaignId] = useState<string | null>(null);
+  // Bumped when recovered data or a different rules pack replaced what
+  // screens had loaded
+  const [dataVersion, setDataVersion] = useState(0);
+
+  // Restore the active campaign and its rules pack before any screen loads
+  // data, and remount the navigation tree on every switch so no screen keeps
+  // stale data
+  useEffect(() => {
+    const unsubscribe = subscribeToCampaignChanges(campaign => {
+      initializeRulesPack().then(() => setActiveCampaignId(campaign.id));
+      // Each campaign keeps its own snapshots
+      ensureDailySnapshot();
+    });
+    initializeCampaigns();
+    return unsubscribe;
+  }, []);
+
+  useEffect(
+    () =>
+      subscribeToRulesPackChanges(() => setDataVersion(version => version + 1)),
+    []
+  );
 
   // Calculate max title width dynamically based on screen size
   // Reserve space for: back button (~44px), right buttons (~90px), padding (~40px)
@@ -355,11 +657,21 @@ export default function App() {
     return screenWidth - reservedSpace;
   }, [screenWidth]);
 
+  if (!activeCampaignId) {
+    return <View style={appStyles.root} />;
+  }
+
   return (
     <ErrorBoundary>
       <SafeAreaProvider>
         <GestureHandlerRootView style={appStyles.root}>
-          <NavigationContainer theme={DarkTheme}>
+          <StorageRecoveryBanner
+            onRecovered={() => setDataVersion(version => version + 1)}
+          />
+          <NavigationContainer
+            key={`${activeCampaignId}-${dataVersion}`}
+            theme={DarkTheme}
+          >
             <Stack.Navigator
               initialRouteName="Main"
               screenOptions={{
@@ -403,16 +715,41 @@ export default function App() {
                 component={CharacterSearchScreen}
                 options={{ title: 'Search Characters' }}
               />
+              <Stack.Screen
+                name="CharacterComparison"
+                component={CharacterComparisonScreen}
+                options={{ title: 'Compare Characters' }}
+              />
               <Stack.Screen
                 name="CharacterStats"
                 component={CharacterStatsScreen}
                 options={{ title: 'Character Statistics' }}
               />
+              <Stack.Screen
+                name="IllegalBuilds"
+                component={IllegalBuildsScreen}
+                options={{ title: 'Illegal Builds' }}
+              />
+              <Stack.Screen
+                name="RelationshipCheck"
+                component={RelationshipCheckScreen}
+                options={{ title: 'Relationship Check' }}
+              />
+              <Stack.Screen
+                name="RelationshipNetwork"
+                component={RelationshipNetworkScreen}
+                options={{ title: 'Relationship Network' }}
+              />
               <Stack.Screen
                 name="FactionStats"
                 component={FactionStatsScreen}
                 options={{ title: 'Faction Statistics' }}
               />
+              <Stack.Screen
+                name="FactionMatrix"
+                component={FactionMatrixScreen}
+                options={{ title: 'Faction Matrix' }}
+              />
               <Stack.Screen
                 name="FactionDetails"
                 component={FactionDetailsScreen}
@@ -465,6 +802,16 @@ export default function App() {
                 component={DiscordServerFormScreen}
                 options={{ title: 'Server Configuration' }}
               />
+              <Stack.Screen
+                name="Trash"
+                component={TrashScreen}
+                options={{ title: 'Trash' }}
+              />
+              <Stack.Screen
+                name="MergeReview"
+                component={MergeReviewScreen}
+                options={{ title: 'Review Merge' }}
+              />
             </Stack.Navigator>
           </NavigationContainer>
         </GestureHandlerRootView>
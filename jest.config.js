@@ -2,7 +2,7 @@ module.exports = {
   preset: 'react-native',
   testEnvironment: 'node',
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|@react-navigation|expo|@expo|@unimodules|react-native-.*)/)',
+    'node_modules/(?!(react-native|@react-native|@react-navigation|expo|@expo|@unimodules|react-native-.*|uuid)/)',
   ],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   moduleNameMapper: {
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { commonStyles } from '@/styles/commonStyles';
+import { colors as themeColors } from '@/styles/theme';
+import {
+  ChangeJournalEntry,
+  JournalEntityType,
+  getChangedFields,
+  getEntityHistory,
+  subscribeToJournalChanges,
+} from '@/utils/changeJournal';
+import { CollapsibleSection } from './CollapsibleSection';
+
+interface ChangeHistorySectionProps {
+  entityType: JournalEntityType;
+  entityId: string;
+  title?: string;
+}
+
+// Summarize what an entry did to this particular entity
+const describeEntityChange = (
+  entry: ChangeJournalEntry,
+  entityType: JournalEntityType,
+  entityId: string
+): string | null => {
+  const change = entry.changes.find(
+    c => c.entityType === entityType && c.entityId === entityId
+  );
+  if (!change) return null;
+  if (!change.before) return 'Created';
+  if (!change.after) return 'Deleted';
+
+  const fields = getChangedFields(change);
+  return fields.length > 0 ? `Changed: ${fields.join(', ')}` : null;
+};
+
+export const ChangeHistorySection: React.FC<ChangeHistorySectionProps> = ({
+  entityType,
+  entityId,
+  title = 'History',
+}) => {
+  const [entries, setEntries] = useState<ChangeJournalEntry[]>([]);
+
+  useEffect(() => {
+    const loadHistory = () =>
+      getEntityHistory(entityType, entityId).then(setEntries);
+    loadHistory();
+    return subscribeToJournalChanges(loadHistory);
+  }, [entityType, entityId]);
+
+  return (
+    <CollapsibleSection title={title} defaultCollapsed={true}>
+      {entries.length === 0 ? (
+        <Text style={styles.emptyText}>No recorded changes yet</Text>
+      ) : (
+        entries.map(entry => {
+          const summary = describeEntityChange(entry, entityType, entityId);
+          return (
+            <View key={entry.id} style={styles.entry}>
+              <Text style={styles.entryDescription}>{entry.description}</Text>
+              {summary && <Text style={styles.entrySummary}>{summary}</Text>}
+              <Text style={styles.entryMeta}>
+                {entry.author} · {new Date(entry.timestamp).toLocaleString()}
+              </Text>
+            </View>
+          );
+        })
+      )}
+    </CollapsibleSection>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyText: {
+    ...commonStyles.text.caption,
+    fontStyle: 'italic',
+  },
+  entry: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: themeColors.border,
+  },
+  entryDescription: commonStyles.text.body,
+  entrySummary: {
+    ...commonStyles.text.caption,
+    marginTop: 2,
+  },
+  entryMeta: {
+    ...commonStyles.text.caption,
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,383 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { commonStyles } from '@/styles/commonStyles';
+import { colors as themeColors } from '@/styles/theme';
+import { StatModifiers } from '@/models/gameData';
+import { InventoryItem, InventoryOwner } from '@/models/types';
+import {
+  loadCharacters,
+  loadEvents,
+  loadFactions,
+  transferInventoryItem,
+} from '@/utils/characterStorage';
+import {
+  addInventoryItem,
+  deleteInventoryItem,
+  loadInventoryFor,
+  subscribeToInventoryChanges,
+  updateInventoryItem,
+} from '@/utils/inventoryStorage';
+import { CollapsibleSection } from './CollapsibleSection';
+
+interface InventorySectionProps {
+  owner: InventoryOwner;
+}
+
+// Picker values identify an owner as "type:id"
+const toOwnerKey = (owner: InventoryOwner) => `${owner.type}:${owner.id}`;
+
+const describeModifiers = (modifiers: StatModifiers): string => {
+  const parts: string[] = [];
+  const add = (value: number | undefined, label: string) => {
+    if (value) parts.push(`${value > 0 ? '+' : ''}${value} ${label}`);
+  };
+  add(modifiers.health, 'health');
+  add(modifiers.limit, 'limit');
+  add(modifiers.healthCap, 'health cap');
+  add(modifiers.limitCap, 'limit cap');
+  Object.entries(modifiers.tagModifiers ?? {}).forEach(([tag, value]) =>
+    add(value, tag)
+  );
+  return parts.join(', ');
+};
+
+export const InventorySection: React.FC<InventorySectionProps> = ({
+  owner,
+}) => {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [owners, setOwners] = useState<InventoryOwner[]>([]);
+  const [dateInput, setDateInput] = useState<string>('');
+  const [nameInput, setNameInput] = useState<string>('');
+  const [quantityInput, setQuantityInput] = useState<string>('1');
+  const [notesInput, setNotesInput] = useState<string>('');
+  const [healthInput, setHealthInput] = useState<string>('');
+  const [limitInput, setLimitInput] = useState<string>('');
+  const [transferItemId, setTransferItemId] = useState<string | null>(null);
+  const [transferTo, setTransferTo] = useState<string>('');
+  const [transferQuantity, setTransferQuantity] = useState<string>('');
+
+  useEffect(() => {
+    const loadItems = () =>
+      loadInventoryFor(owner.type, owner.id).then(setItems);
+    loadItems();
+
+    Promise.all([loadCharacters(), loadFactions(), loadEvents()]).then(
+      ([characters, factions, events]) => {
+        setOwners([
+          ...characters
+            .filter(c => !c.retired)
+            .map(c => ({ type: 'character' as const, id: c.id, name: c.name })),
+          ...factions
+            .filter(f => !f.retired)
+            .map(f => ({ type: 'faction' as const, id: f.id, name: f.name })),
+        ]);
+        // Items usually change hands during the latest session
+        const latest = [...events].sort((a, b) =>
+          b.date.localeCompare(a.date)
+        )[0];
+        if (latest) setDateInput(latest.date);
+      }
+    );
+
+    return subscribeToInventoryChanges(loadItems);
+  }, [owner.type, owner.id]);
+
+  const handleAddItem = async () => {
+    const health = Number(healthInput) || 0;
+    const limit = Number(limitInput) || 0;
+    const item = await addInventoryItem({
+      name: nameInput,
+      quantity: Number(quantityInput),
+      notes: notesInput,
+      ...((health || limit) && {
+        statModifiers: {
+          ...(health && { health }),
+          ...(limit && { limit }),
+        },
+      }),
+      owner,
+      date: dateInput.trim(),
+    });
+    if (!item) {
+      Alert.alert(
+        'Invalid Item',
+        'Enter a name, a positive whole quantity and a date in YYYY-MM-DD format.'
+      );
+      return;
+    }
+    setNameInput('');
+    setQuantityInput('1');
+    setNotesInput('');
+    setHealthInput('');
+    setLimitInput('');
+  };
+
+  const startTransfer = (item: InventoryItem) => {
+    setTransferItemId(item.id);
+    setTransferTo('');
+    setTransferQuantity(String(item.quantity));
+  };
+
+  const handleTransfer = async () => {
+    const to = owners.find(o => toOwnerKey(o) === transferTo);
+    if (!transferItemId || !to) return;
+    const result = await transferInventoryItem(
+      transferItemId,
+      to,
+      Number(transferQuantity),
+      dateInput.trim()
+    );
+    if (result.errors.length > 0) {
+      Alert.alert('Cannot Transfer', result.errors.join('\n'));
+      return;
+    }
+    setTransferItemId(null);
+  };
+
+  const renderTransfer = (item: InventoryItem) => (
+    <View style={styles.transfer}>
+      <Picker
+        selectedValue={transferTo}
+        style={styles.picker}
+        onValueChange={(value: string) => setTransferTo(value)}
+      >
+        <Picker.Item label="(Give To)" value="" />
+        {owners
+          .filter(o => toOwnerKey(o) !== toOwnerKey(item.owner))
+          .map(o => (
+            <Picker.Item
+              key={toOwnerKey(o)}
+              label={o.type === 'faction' ? `${o.name} (faction)` : o.name}
+              value={toOwnerKey(o)}
+            />
+          ))}
+      </Picker>
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={transferQuantity}
+          onChangeText={setTransferQuantity}
+          placeholder="Quantity"
+          keyboardType="number-pad"
+        />
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={dateInput}
+          onChangeText={setDateInput}
+          placeholder="Date (YYYY-MM-DD)"
+        />
+      </View>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.smallButton, styles.primaryButton]}
+          onPress={handleTransfer}
+        >
+          <Text style={styles.smallButtonText}>Transfer</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.smallButton, styles.neutralButton]}
+          onPress={() => setTransferItemId(null)}
+        >
+          <Text style={styles.smallButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderItem = (item: InventoryItem) => (
+    <View key={item.id} style={styles.item}>
+      <View style={styles.row}>
+        <Text style={styles.itemName}>
+          {item.name} × {item.quantity}
+        </Text>
+        <TouchableOpacity
+          style={styles.counterButton}
+          onPress={() =>
+            updateInventoryItem(item.id, { quantity: item.quantity - 1 })
+          }
+        >
+          <Text style={styles.counterButtonText}>−</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.counterButton}
+          onPress={() =>
+            updateInventoryItem(item.id, { quantity: item.quantity + 1 })
+          }
+        >
+          <Text style={styles.counterButtonText}>+</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => deleteInventoryItem(item.id)}>
+          <Text style={styles.deleteText}>×</Text>
+        </TouchableOpacity>
+      </View>
+      {item.notes && <Text style={styles.itemMeta}>{item.notes}</Text>}
+      {item.statModifiers && (
+        <Text style={styles.itemMeta}>
+          {describeModifiers(item.statModifiers)}
+        </Text>
+      )}
+      <Text style={styles.itemMeta}>
+        {item.history
+          .map(record => `${record.owner.name} (${record.date})`)
+          .join(' → ')}
+      </Text>
+      {transferItemId === item.id ? (
+        renderTransfer(item)
+      ) : (
+        <TouchableOpacity onPress={() => startTransfer(item)}>
+          <Text style={styles.linkText}>Give to…</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <CollapsibleSection title="Inventory" defaultCollapsed={true}>
+      {items.length === 0 ? (
+        <Text style={styles.emptyText}>No items</Text>
+      ) : (
+        items.map(renderItem)
+      )}
+
+      <Text style={styles.label}>Add Item</Text>
+      <TextInput
+        style={styles.input}
+        value={nameInput}
+        onChangeText={setNameInput}
+        placeholder="Name, e.g. Caps or Rusty Pipe"
+      />
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={quantityInput}
+          onChangeText={setQuantityInput}
+          placeholder="Quantity"
+          keyboardType="number-pad"
+        />
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={dateInput}
+          onChangeText={setDateInput}
+          placeholder="Date (YYYY-MM-DD)"
+        />
+      </View>
+      <TextInput
+        style={styles.input}
+        value={notesInput}
+        onChangeText={setNotesInput}
+        placeholder="Notes (optional)"
+      />
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={healthInput}
+          onChangeText={setHealthInput}
+          placeholder="Health modifier"
+          keyboardType="numbers-and-punctuation"
+        />
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={limitInput}
+          onChangeText={setLimitInput}
+          placeholder="Limit modifier"
+          keyboardType="numbers-and-punctuation"
+        />
+      </View>
+      <TouchableOpacity
+        style={[styles.smallButton, styles.primaryButton, styles.addButton]}
+        onPress={handleAddItem}
+      >
+        <Text style={styles.smallButtonText}>Add Item</Text>
+      </TouchableOpacity>
+    </CollapsibleSection>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    ...commonStyles.text.label,
+    marginTop: 12,
+  },
+  picker: commonStyles.input.picker,
+  input: {
+    ...commonStyles.input.base,
+    marginVertical: 6,
+  },
+  emptyText: {
+    ...commonStyles.text.caption,
+    fontStyle: 'italic',
+  },
+  item: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: themeColors.border,
+  },
+  itemName: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    flex: 1,
+  },
+  itemMeta: {
+    ...commonStyles.text.caption,
+    marginTop: 2,
+  },
+  counterButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: themeColors.elevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  counterButtonText: commonStyles.text.h3,
+  deleteText: {
+    ...commonStyles.text.h3,
+    color: themeColors.accent.danger,
+    paddingHorizontal: 8,
+  },
+  linkText: {
+    ...commonStyles.text.body,
+    color: themeColors.accent.primary,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  transfer: {
+    marginTop: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  neutralButton: {
+    backgroundColor: themeColors.elevated,
+  },
+});
@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { commonStyles } from '@/styles/commonStyles';
+import { colors as themeColors } from '@/styles/theme';
+import { GameCharacter, GameEvent } from '@/models/types';
+import { loadEvents } from '@/utils/characterStorage';
+import { getActiveRulesPack } from '@/utils/rulesPackStorage';
+import {
+  ProgressionEntry,
+  ProgressionResult,
+  deleteProgressionEntry,
+  getBuildAtDate,
+  getPerkCost,
+  loadProgression,
+  purchasePerk,
+  recordXp,
+  refundPerk,
+  subscribeToProgressionChanges,
+} from '@/utils/progressionLedger';
+import { CollapsibleSection } from './CollapsibleSection';
+
+interface ProgressionSectionProps {
+  character: GameCharacter;
+  // Called with the character after a purchase or refund changed its perks
+  onCharacterChange: (character: GameCharacter) => void;
+}
+
+export const ProgressionSection: React.FC<ProgressionSectionProps> = ({
+  character,
+  onCharacterChange,
+}) => {
+  const rulesPack = getActiveRulesPack();
+  const [entries, setEntries] = useState<ProgressionEntry[]>([]);
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [asOfEventId, setAsOfEventId] = useState<string>('');
+  const [xpInput, setXpInput] = useState<string>('');
+  const [dateInput, setDateInput] = useState<string>('');
+  const [eventId, setEventId] = useState<string>('');
+  const [perkId, setPerkId] = useState<string>('');
+
+  useEffect(() => {
+    const loadLedger = () => loadProgression(character.id).then(setEntries);
+    loadLedger();
+    loadEvents().then(allEvents => {
+      const sorted = [...allEvents].sort((a, b) =>
+        a.date.localeCompare(b.date)
+      );
+      setEvents(sorted);
+      // Most XP is awarded for the latest session
+      if (sorted.length > 0) {
+        setEventId(sorted[sorted.length - 1].id);
+        setDateInput(sorted[sorted.length - 1].date);
+      }
+    });
+    return subscribeToProgressionChanges(loadLedger);
+  }, [character.id]);
+
+  const getPerkName = (id: string) =>
+    rulesPack.perks.find(perk => perk.id === id)?.name ?? id;
+
+  const describeEntry = (entry: ProgressionEntry): string => {
+    if (entry.type === 'xp') {
+      const event = events.find(e => e.id === entry.eventId);
+      return event
+        ? `Earned ${entry.xp} XP at ${event.title}`
+        : `Earned ${entry.xp} XP`;
+    }
+    const perkName = getPerkName(entry.perkId ?? '');
+    return entry.type === 'perk-purchase'
+      ? `Bought ${perkName} (${entry.xp} XP)`
+      : `Refunded ${perkName} (+${entry.xp} XP)`;
+  };
+
+  const handleEventChange = (id: string) => {
+    setEventId(id);
+    const event = events.find(e => e.id === id);
+    if (event) setDateInput(event.date);
+  };
+
+  const handleAddXp = async () => {
+    const entry = await recordXp(
+      character.id,
+      Number(xpInput),
+      dateInput.trim(),
+      eventId ? { eventId } : {}
+    );
+    if (!entry) {
+      Alert.alert(
+        'Invalid XP',
+        'Enter a positive whole number of XP and a date in YYYY-MM-DD format.'
+      );
+      return;
+    }
+    setXpInput('');
+  };
+
+  const handlePerkChange = async (
+    change: (
+      character: GameCharacter,
+      perkId: string,
+      date: string
+    ) => Promise<ProgressionResult>,
+    title: string
+  ) => {
+    if (!perkId) return;
+    const result = await change(character, perkId, dateInput.trim());
+    if (result.errors.length > 0) {
+      Alert.alert(title, result.errors.join('\n'));
+      return;
+    }
+    if (result.character) onCharacterChange(result.character);
+  };
+
+  const asOfEvent = events.find(e => e.id === asOfEventId);
+  const build = getBuildAtDate(
+    character,
+    entries,
+    // Without an event, show the build after every recorded entry
+    asOfEvent?.date ?? entries[entries.length - 1]?.date ?? ''
+  );
+
+  const perkOptions = rulesPack.perks.filter(
+    perk =>
+      !perk.allowedSpecies ||
+      perk.allowedSpecies.includes(character.species) ||
+      character.perkIds.includes(perk.id)
+  );
+
+  return (
+    <CollapsibleSection title="Progression" defaultCollapsed={true}>
+      <Text style={styles.summary}>
+        XP earned {build.xpEarned} · spent {build.xpSpent} · available{' '}
+        {build.xpBalance}
+      </Text>
+
+      <Text style={styles.label}>Build as of</Text>
+      <Picker
+        selectedValue={asOfEventId}
+        style={styles.picker}
+        onValueChange={(value: string) => setAsOfEventId(value)}
+      >
+        <Picker.Item label="Now" value="" />
+        {events.map(event => (
+          <Picker.Item
+            key={event.id}
+            label={`${event.date} · ${event.title}`}
+            value={event.id}
+          />
+        ))}
+      </Picker>
+      {build.perkIds.length === 0 ? (
+        <Text style={styles.emptyText}>No perks</Text>
+      ) : (
+        build.perkIds.map(id => (
+          <Text key={id} style={styles.perkText}>
+            • {getPerkName(id)}
+          </Text>
+        ))
+      )}
+
+      <Text style={styles.label}>Timeline</Text>
+      {entries.length === 0 ? (
+        <Text style={styles.emptyText}>No progression recorded yet</Text>
+      ) : (
+        entries.map(entry => (
+          <View key={entry.id} style={styles.entry}>
+            <View style={styles.entryText}>
+              <Text style={styles.entryDescription}>
+                {describeEntry(entry)}
+              </Text>
+              <Text style={styles.entryMeta}>
+                {entry.date}
+                {entry.note ? ` · ${entry.note}` : ''}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => deleteProgressionEntry(entry.id)}>
+              <Text style={styles.deleteText}>×</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <Text style={styles.label}>Record</Text>
+      <Picker
+        selectedValue={eventId}
+        style={styles.picker}
+        onValueChange={handleEventChange}
+      >
+        <Picker.Item label="(No Event)" value="" />
+        {events.map(event => (
+          <Picker.Item
+            key={event.id}
+            label={`${event.date} · ${event.title}`}
+            value={event.id}
+          />
+        ))}
+      </Picker>
+      <TextInput
+        style={styles.input}
+        value={dateInput}
+        onChangeText={setDateInput}
+        placeholder="Date (YYYY-MM-DD)"
+      />
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={xpInput}
+          onChangeText={setXpInput}
+          placeholder="XP"
+          keyboardType="number-pad"
+        />
+        <TouchableOpacity
+          style={[styles.smallButton, styles.primaryButton]}
+          onPress={handleAddXp}
+        >
+          <Text style={styles.smallButtonText}>Add XP</Text>
+        </TouchableOpacity>
+      </View>
+      <Picker
+        selectedValue={perkId}
+        style={styles.picker}
+        onValueChange={(value: string) => setPerkId(value)}
+      >
+        <Picker.Item label="(Select Perk)" value="" />
+        {perkOptions.map(perk => (
+          <Picker.Item
+            key={perk.id}
+            label={`${perk.name} · ${getPerkCost(perk, rulesPack)} XP`}
+            value={perk.id}
+          />
+        ))}
+      </Picker>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.smallButton, styles.primaryButton]}
+          onPress={() => handlePerkChange(purchasePerk, 'Cannot Buy Perk')}
+        >
+          <Text style={styles.smallButtonText}>Buy Perk</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.smallButton, styles.neutralButton]}
+          onPress={() => handlePerkChange(refundPerk, 'Cannot Refund Perk')}
+        >
+          <Text style={styles.smallButtonText}>Refund Perk</Text>
+        </TouchableOpacity>
+      </View>
+    </CollapsibleSection>
+  );
+};
+
+const styles = StyleSheet.create({
+  summary: {
+    ...commonStyles.text.body,
+    marginBottom: 12,
+  },
+  label: {
+    ...commonStyles.text.label,
+    marginTop: 12,
+  },
+  picker: commonStyles.input.picker,
+  input: {
+    ...commonStyles.input.base,
+    marginVertical: 6,
+  },
+  emptyText: {
+    ...commonStyles.text.caption,
+    fontStyle: 'italic',
+  },
+  perkText: commonStyles.text.body,
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: themeColors.border,
+  },
+  entryText: {
+    flex: 1,
+  },
+  entryDescription: commonStyles.text.body,
+  entryMeta: {
+    ...commonStyles.text.caption,
+    marginTop: 2,
+  },
+  deleteText: {
+    ...commonStyles.text.h3,
+    color: themeColors.accent.danger,
+    paddingHorizontal: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginVertical: 6,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  neutralButton: {
+    backgroundColor: themeColors.elevated,
+  },
+});
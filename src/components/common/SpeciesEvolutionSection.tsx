@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { commonStyles } from '@/styles/commonStyles';
+import { colors as themeColors } from '@/styles/theme';
+import { GameCharacter } from '@/models/types';
+import { Species } from '@/models/speciesTypes';
+import { loadEvents } from '@/utils/characterStorage';
+import { getActiveRulesPack } from '@/utils/rulesPackStorage';
+import { evolveCharacter, getEvolutionOptions } from '@/utils/speciesEvolution';
+import { CollapsibleSection } from './CollapsibleSection';
+
+interface SpeciesEvolutionSectionProps {
+  character: GameCharacter;
+  // Called with the character after it evolved
+  onCharacterChange: (character: GameCharacter) => void;
+}
+
+export const SpeciesEvolutionSection: React.FC<
+  SpeciesEvolutionSectionProps
+> = ({ character, onCharacterChange }) => {
+  const rulesPack = getActiveRulesPack();
+  const [dateInput, setDateInput] = useState<string>('');
+
+  useEffect(() => {
+    // Evolutions usually happen during the latest session
+    loadEvents().then(events => {
+      const latest = [...events].sort((a, b) =>
+        b.date.localeCompare(a.date)
+      )[0];
+      if (latest) setDateInput(latest.date);
+    });
+  }, []);
+
+  const options = getEvolutionOptions(character, rulesPack);
+  const history = character.speciesHistory ?? [];
+  if (options.length === 0 && history.length === 0) return null;
+
+  const handleEvolve = (species: Species) => {
+    Alert.alert(
+      `Evolve into ${species}`,
+      `${character.name} becomes ${species} on ${dateInput.trim()}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Evolve',
+          onPress: async () => {
+            const result = await evolveCharacter(
+              character,
+              species,
+              dateInput.trim(),
+              rulesPack
+            );
+            if (result.errors.length > 0) {
+              Alert.alert('Cannot Evolve', result.errors.join('\n'));
+              return;
+            }
+            if (result.character) onCharacterChange(result.character);
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <CollapsibleSection title="Evolution" defaultCollapsed={true}>
+      {history.map((transition, index) => (
+        <Text key={index} style={styles.historyText}>
+          {transition.from} → {transition.to} · {transition.date}
+        </Text>
+      ))}
+
+      {options.length > 0 && (
+        <>
+          <Text style={styles.label}>Can Evolve Into</Text>
+          <TextInput
+            style={styles.input}
+            value={dateInput}
+            onChangeText={setDateInput}
+            placeholder="Date (YYYY-MM-DD)"
+          />
+          {options.map(option => (
+            <View key={option.species} style={styles.option}>
+              <View style={styles.optionText}>
+                <Text style={styles.optionName}>{option.species}</Text>
+                {option.errors.map((error, index) => (
+                  <Text key={index} style={styles.errorText}>
+                    ⚠ {error}
+                  </Text>
+                ))}
+              </View>
+              {option.errors.length === 0 && (
+                <TouchableOpacity
+                  style={[styles.smallButton, styles.primaryButton]}
+                  onPress={() => handleEvolve(option.species)}
+                >
+                  <Text style={styles.smallButtonText}>Evolve</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </>
+      )}
+    </CollapsibleSection>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    ...commonStyles.text.label,
+    marginTop: 12,
+  },
+  input: {
+    ...commonStyles.input.base,
+    marginVertical: 6,
+  },
+  historyText: commonStyles.text.body,
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: themeColors.border,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionName: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+  },
+  errorText: {
+    ...commonStyles.text.caption,
+    color: themeColors.accent.danger,
+    marginTop: 2,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+});
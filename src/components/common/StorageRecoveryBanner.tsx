@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import {
+  QuarantinedItem,
+  SafeAsyncStorageJSONParser,
+} from '@/utils/safeAsyncStorageJSONParser';
+import { loadSnapshots, restoreSnapshot } from '@/utils/snapshotStorage';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+interface StorageRecoveryBannerProps {
+  onRecovered: () => void; // Called after data was replaced, to reload it
+}
+
+const CAMPAIGN_KEY_SEPARATOR = '@campaign:';
+
+// "gameCharacterManager_discord_messages@campaign:x" -> "discord messages"
+const describeStorageKey = (key: string): string => {
+  const baseKey = key.split(CAMPAIGN_KEY_SEPARATOR)[0];
+  const name = baseKey
+    .replace(/^gameCharacterManager_?/, '')
+    .replace(/_/g, ' ');
+  return name || 'characters';
+};
+
+const confirmAction = (title: string, message: string, action: string) => {
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.confirm(message));
+  }
+  return new Promise<boolean>(resolve => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: action, style: 'destructive', onPress: () => resolve(true) },
+    ]);
+  });
+};
+
+/**
+ * Shown while stored data couldn't be read. Writes to that data are blocked
+ * until the user salvages what is readable, restores the latest snapshot or
+ * discards it.
+ */
+export const StorageRecoveryBanner: React.FC<StorageRecoveryBannerProps> = ({
+  onRecovered,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [items, setItems] = useState<QuarantinedItem[]>(() =>
+    SafeAsyncStorageJSONParser.getQuarantinedItems()
+  );
+
+  useEffect(
+    () =>
+      SafeAsyncStorageJSONParser.subscribeToQuarantine(() =>
+        setItems(SafeAsyncStorageJSONParser.getQuarantinedItems())
+      ),
+    []
+  );
+
+  if (items.length === 0) return null;
+
+  const handleSalvage = async (item: QuarantinedItem) => {
+    const confirmed = await confirmAction(
+      'Salvage Data',
+      `Keep the ${item.salvageableRecords} record(s) of ${describeStorageKey(item.key)} that could be read? Anything else in it is lost.`,
+      'Salvage'
+    );
+    if (!confirmed) return;
+
+    if (await SafeAsyncStorageJSONParser.salvageQuarantinedItem(item.key)) {
+      onRecovered();
+    } else {
+      Alert.alert('Salvage Failed', 'The data could not be salvaged.', [
+        { text: 'OK' },
+      ]);
+    }
+  };
+
+  const handleRestore = async () => {
+    const [latest] = await loadSnapshots();
+    if (!latest) {
+      Alert.alert('No Snapshots', 'There is no snapshot to restore.', [
+        { text: 'OK' },
+      ]);
+      return;
+    }
+
+    const confirmed = await confirmAction(
+      'Restore Snapshot',
+      `Replace all data of this campaign with the snapshot from ${new Date(
+        latest.createdAt
+      ).toLocaleString()}? The unreadable data is kept aside.`,
+      'Restore'
+    );
+    if (!confirmed) return;
+
+    for (const item of items) {
+      await SafeAsyncStorageJSONParser.releaseQuarantinedItem(item.key);
+    }
+    if (await restoreSnapshot(latest.id)) {
+      onRecovered();
+    } else {
+      Alert.alert('Restore Failed', 'The snapshot could not be restored.', [
+        { text: 'OK' },
+      ]);
+    }
+  };
+
+  const handleDiscard = async (item: QuarantinedItem) => {
+    const confirmed = await confirmAction(
+      'Discard Data',
+      `Permanently delete the unreadable ${describeStorageKey(item.key)} data? This action cannot be undone.`,
+      'Discard'
+    );
+    if (!confirmed) return;
+
+    if (await SafeAsyncStorageJSONParser.discardQuarantinedItem(item.key)) {
+      onRecovered();
+    }
+  };
+
+  return (
+    <View style={[styles.banner, { paddingTop: insets.top + 12 }]}>
+      <Text style={styles.title}>Some saved data could not be read</Text>
+      <Text style={styles.description}>
+        Changes to it are not saved until you choose what to do.
+      </Text>
+
+      {items.map(item => (
+        <View key={item.key} style={styles.item}>
+          <Text style={styles.itemName}>{describeStorageKey(item.key)}</Text>
+          <View style={styles.buttonRow}>
+            {item.salvageableRecords > 0 && (
+              <TouchableOpacity
+                style={[styles.button, styles.primaryButton]}
+                onPress={() => handleSalvage(item)}
+              >
+                <Text style={styles.buttonText}>
+                  Salvage {item.salvageableRecords}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.button, styles.neutralButton]}
+              onPress={handleRestore}
+            >
+              <Text style={styles.buttonText}>Restore Snapshot</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.dangerButton]}
+              onPress={() => handleDiscard(item)}
+            >
+              <Text style={styles.buttonText}>Discard</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: themeColors.surface,
+    borderBottomWidth: 2,
+    borderBottomColor: themeColors.accent.warning,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  title: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.accent.warning,
+  },
+  description: {
+    ...commonStyles.text.caption,
+    marginBottom: 8,
+  },
+  item: {
+    marginTop: 8,
+  },
+  itemName: {
+    ...commonStyles.text.body,
+    marginBottom: 6,
+    textTransform: 'capitalize',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  button: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  buttonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  neutralButton: {
+    backgroundColor: themeColors.elevated,
+    borderWidth: 1,
+    borderColor: themeColors.border,
+  },
+  dangerButton: {
+    backgroundColor: themeColors.accent.danger,
+  },
+});
@@ -10,3 +10,8 @@ export { Section } from './common/Section';
 export { CollapsibleSection } from './common/CollapsibleSection';
 export { Card } from './common/Card';
 export { InfoButton } from './common/InfoButton';
+export { ChangeHistorySection } from './common/ChangeHistorySection';
+export { ProgressionSection } from './common/ProgressionSection';
+export { InventorySection } from './common/InventorySection';
+export { SpeciesEvolutionSection } from './common/SpeciesEvolutionSection';
+export { StorageRecoveryBanner } from './common/StorageRecoveryBanner';
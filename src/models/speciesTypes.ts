@@ -1,28 +1,11 @@
 /**
- * Species-specific types and constants for the game.
- * These types are game-specific and would be abstracted for other games.
+ * Species-specific types for the game.
+ * The species themselves and their stats are defined by the active rules
+ * pack (see gameData.ts).
  */
 
-type BaseSpecies =
-  | 'Android'
-  | 'Drone'
-  | 'Human'
-  | 'Mutant'
-  | 'Nomad'
-  | 'Stray'
-  | 'Unturned'
-  | 'Unknown';
-
-type PrestigeSpecies =
-  | 'Cyborg'
-  | 'Mook'
-  | 'Mutoid'
-  | 'Perfect Mutant'
-  | 'Rad-Titan'
-  | 'Roadkill'
-  | 'Tech-Mutant';
-
-export type Species = BaseSpecies | PrestigeSpecies;
+// Name of a species defined by the active rules pack, e.g. "Human"
+export type Species = string;
 
 export interface SpeciesStats {
   baseHealth: number;
@@ -33,120 +16,17 @@ export interface SpeciesStats {
   canUseChems: boolean;
   canTakeInjuries: boolean;
   canTakeMalfunctions: boolean;
+  // Perks restricted to exactly one of these species groups don't raise
+  // this species' tag scores
+  tagScoreExcludedGroups?: string[];
+  // Set for species a character can only become by evolving, e.g. prestige
+  // species
+  prerequisites?: SpeciesPrerequisites;
 }
 
-export const ORGANIC_SPECIES: Species[] = [
-  'Human',
-  'Mutant',
-  'Nomad',
-  'Stray',
-  'Unturned',
-  'Cyborg',
-  'Mook',
-  'Mutoid',
-  'Perfect Mutant',
-  'Rad-Titan',
-  'Roadkill',
-  'Tech-Mutant',
-];
-
-export const ROBOTIC_SPECIES: Species[] = ['Android', 'Drone'];
-
-export const MUTANT_SPECIES: Species[] = [
-  'Mutant',
-  'Perfect Mutant',
-  'Tech-Mutant',
-];
-
-export const ANDROID_SPECIES: Species[] = ['Android', 'Tech-Mutant'];
-
-// Internal helper constants for species stat definitions
-const organicDefaultSpeciesStats: SpeciesStats = {
-  baseHealth: 2,
-  baseLimit: 1,
-  healthCap: 5,
-  limitCap: 5,
-  canUseCyberware: true,
-  canUseChems: true,
-  canTakeInjuries: true,
-  canTakeMalfunctions: false,
-};
-
-const roboticDefaultSpeciesStats: SpeciesStats = {
-  baseHealth: 2,
-  baseLimit: 1,
-  healthCap: 5,
-  limitCap: 5,
-  canUseCyberware: false,
-  canUseChems: false,
-  canTakeInjuries: false,
-  canTakeMalfunctions: true,
-};
-
-export const SPECIES_BASE_STATS: Record<Species, SpeciesStats> = {
-  // Base Species
-  Android: {
-    ...roboticDefaultSpeciesStats,
-  },
-  Drone: {
-    ...roboticDefaultSpeciesStats,
-  },
-  Human: {
-    ...organicDefaultSpeciesStats,
-    baseLimit: 2,
-  },
-  Mutant: {
-    ...organicDefaultSpeciesStats,
-  },
-  Nomad: {
-    ...organicDefaultSpeciesStats,
-  },
-  Stray: {
-    ...organicDefaultSpeciesStats,
-  },
-  Unturned: {
-    ...organicDefaultSpeciesStats,
-    baseHealth: 0,
-    baseLimit: 3,
-    healthCap: 0,
-    limitCap: 10,
-  },
-  Unknown: {
-    ...organicDefaultSpeciesStats,
-  },
-
-  // Prestige Species
-  Cyborg: {
-    ...organicDefaultSpeciesStats,
-  },
-  Mook: {
-    ...organicDefaultSpeciesStats,
-  },
-  // TODO: Mutoid is weird
-  Mutoid: {
-    baseHealth: 2,
-    baseLimit: 1,
-    healthCap: 5,
-    limitCap: 5,
-    canUseCyberware: true,
-    canUseChems: true,
-    canTakeInjuries: true,
-    canTakeMalfunctions: false,
-  },
-  'Perfect Mutant': {
-    ...organicDefaultSpeciesStats,
-  },
-  'Rad-Titan': {
-    ...organicDefaultSpeciesStats,
-    baseHealth: 3,
-    baseLimit: 0,
-    healthCap: 10,
-    limitCap: 0,
-  },
-  Roadkill: {
-    ...organicDefaultSpeciesStats,
-  },
-  'Tech-Mutant': {
-    ...organicDefaultSpeciesStats,
-  },
-};
+export interface SpeciesPrerequisites {
+  fromSpecies: Species[]; // Species a character may evolve from
+  perkIds?: string[]; // Perks the character must have
+  cyberwareIds?: string[]; // Catalog implants that must be installed
+  minCyberware?: number; // Installed implants of any kind
+}
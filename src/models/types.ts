@@ -1,18 +1,14 @@
-import {
-  AVAILABLE_PERKS,
-  AVAILABLE_DISTINCTIONS,
-  type StatModifiers,
-} from './gameData';
+import type { StatModifiers } from './gameData';
 import type { Species } from './speciesTypes';
 
-export type PerkId = (typeof AVAILABLE_PERKS)[number]['id'];
-export type DistinctionId = (typeof AVAILABLE_DISTINCTIONS)[number]['id'];
+// IDs of perks and distinctions defined by the active rules pack
+export type PerkId = string;
+export type DistinctionId = string;
 
 export interface GameLocation {
   id: string;
   name: string;
   description: string;
-  imageUri?: string; // Deprecated: Use imageUris instead
   imageUris?: string[];
   mapCoordinates?: {
     x: number; // Normalized coordinate (0-1) representing position on map
@@ -46,6 +42,14 @@ export const NEGATIVE_RELATIONSHIP_TYPE: RelationshipStanding[] = [
   RelationshipStanding.Enemy,
 ];
 
+// A member's place in a faction, most senior first
+export enum FactionRank {
+  Leader = 'Leader',
+  Officer = 'Officer',
+  Member = 'Member',
+  Recruit = 'Recruit',
+}
+
 export interface Recipe {
   id: string;
   name: string;
@@ -58,25 +62,84 @@ export interface Distinction {
   name: string;
   description: string;
   allowedSpecies?: Species[];
+  statModifiers?: StatModifiers;
+  // Multiplies the duration of injuries and malfunctions, e.g. 2 for Brittle
+  conditionDurationMultiplier?: number;
 }
 
-export interface Faction {
+// Implant in a rules pack's cyberware catalog
+export interface CyberwareDefinition {
+  id: string;
   name: string;
+  description: string;
+  allowedSpecies?: Species[];
+  statModifiers?: StatModifiers;
+}
+
+export interface Faction {
+  factionId?: string; // Reference to StoredFaction.id
+  name: string; // Display copy of the faction name, refreshed from factionId
   standing: RelationshipStanding;
+  rank?: FactionRank;
+  role?: string; // Free-text title within the faction, e.g. "Quartermaster"
   description?: string;
 }
 
 export interface Relationship {
-  characterName: string;
+  characterId?: string; // Reference to GameCharacter.id (unset for custom names)
+  characterName: string; // Display copy of the name, refreshed from characterId
   relationshipType: RelationshipStanding;
   description?: string;
   customName?: string;
 }
 
 export interface Cyberware {
-  name: string;
+  catalogId?: string; // Reference to CyberwareDefinition.id (unset for custom implants)
+  name: string; // Display copy of the catalog name for catalog implants
   description: string;
+  statModifiers?: StatModifiers; // Catalog implants use the catalog's instead
+  installedDate?: string; // In-game date, YYYY-MM-DD
+  removedDate?: string; // In-game date; removed implants are kept as history
+  malfunctioning?: boolean;
+}
+
+export type InventoryOwnerType = 'character' | 'faction';
+
+export interface InventoryOwner {
+  type: InventoryOwnerType;
+  id: string; // GameCharacter.id or StoredFaction.id
+  name: string; // Display copy of the owner's name
+}
+
+export interface InventoryOwnershipRecord {
+  owner: InventoryOwner;
+  date: string; // In-game date the owner got the item, YYYY-MM-DD
+  quantity: number;
+  eventId?: string; // Reference to the GameEvent logging the transfer
+}
+
+export interface InventoryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  notes?: string;
   statModifiers?: StatModifiers;
+  owner: InventoryOwner;
+  history: InventoryOwnershipRecord[]; // Oldest first, ending with the owner
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InventoryDataset {
+  items: InventoryItem[];
+  version: string;
+  lastUpdated: string;
+}
+
+export interface SpeciesTransition {
+  from: Species;
+  to: Species;
+  date: string; // In-game date, YYYY-MM-DD
 }
 
 export interface GameCharacter {
@@ -87,12 +150,12 @@ export interface GameCharacter {
   distinctionIds: DistinctionId[];
   factions: Faction[];
   relationships: Relationship[];
-  imageUri?: string; // Deprecated: Use imageUris instead
   imageUris?: string[];
   notes?: string;
   locationId?: string; // Reference to GameLocation.id
   occupation?: string;
   cyberware?: Cyberware[];
+  speciesHistory?: SpeciesTransition[]; // Evolutions, oldest first
   present?: boolean;
   retired?: boolean;
   createdAt: string;
@@ -120,7 +183,6 @@ export interface GameEvent {
   characterIds?: string[]; // References to GameCharacter.id
   factionNames?: string[]; // Faction names involved in the event
   notes?: string;
-  imageUri?: string; // Deprecated: Use imageUris instead
   imageUris?: string[];
   certaintyLevel?: CertaintyLevel; // Certainty level: unconfirmed, confirmed, or disputed
   createdAt: string;
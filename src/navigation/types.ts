@@ -1,11 +1,16 @@
 import { GameCharacter, GameLocation, GameEvent } from '@models/types';
+import { MergeReview } from '@/utils/mergeReview';
 
 export type RootDrawerParamList = {
   CharacterList: undefined;
+  SessionDashboard: undefined;
   DataManagement: undefined;
+  Campaigns: undefined;
+  RulesPacks: undefined;
   Factions: undefined;
   Locations: undefined;
   Events: undefined;
+  CraftingPlanner: undefined;
   InfluenceReport: undefined;
   DiscordConfig: undefined;
   DiscordServers: undefined;
@@ -16,8 +21,13 @@ export type RootDrawerParamList = {
 export type RootStackParamList = {
   Main: undefined;
   CharacterSearch: undefined;
+  CharacterComparison: { characterIds: string[] };
   CharacterStats: undefined;
+  IllegalBuilds: undefined;
+  RelationshipCheck: undefined;
+  RelationshipNetwork: { focusCharacterId?: string } | undefined;
   FactionStats: undefined;
+  FactionMatrix: undefined;
   FactionDetails: { factionName: string };
   FactionForm: { factionName?: string };
   LocationDetails: { locationId: string };
@@ -33,4 +43,6 @@ export type RootStackParamList = {
   EventsDetail: { eventId: string };
   DiscordMessageContext: { messageId: string; characterId?: string };
   DiscordServerForm: { serverConfigId?: string };
+  Trash: undefined;
+  MergeReview: { review: MergeReview };
 };
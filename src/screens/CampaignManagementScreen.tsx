@@ -0,0 +1,346 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Platform,
+  ScrollView,
+  Text,
+  TextInput,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import {
+  Campaign,
+  DEFAULT_CAMPAIGN_ID,
+  createCampaign,
+  deleteCampaign,
+  getActiveCampaignId,
+  loadCampaigns,
+  renameCampaign,
+  setActiveCampaign,
+} from '@utils/campaignStorage';
+import { exportCharacterData, importCharacterData } from '@utils/exportImport';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+export const CampaignManagementScreen: React.FC = () => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [activeCampaignId, setActiveCampaignId] = useState<string>(
+    getActiveCampaignId()
+  );
+  const [newCampaignName, setNewCampaignName] = useState<string>('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameInput, setRenameInput] = useState<string>('');
+
+  const loadData = useCallback(async () => {
+    const allCampaigns = await loadCampaigns();
+    setCampaigns(allCampaigns);
+    setActiveCampaignId(getActiveCampaignId());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const confirmAction = (title: string, message: string, action: string) => {
+    if (Platform.OS === 'web') {
+      return Promise.resolve(window.confirm(message));
+    }
+    return new Promise<boolean>(resolve => {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: action, style: 'destructive', onPress: () => resolve(true) },
+      ]);
+    });
+  };
+
+  const handleCreate = async () => {
+    const campaign = await createCampaign(newCampaignName);
+    if (!campaign) {
+      Alert.alert(
+        'Error',
+        'Please enter a campaign name that is not already in use.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+    setNewCampaignName('');
+    await loadData();
+  };
+
+  const handleSwitch = async (campaign: Campaign) => {
+    if (campaign.id === activeCampaignId) return;
+    await setActiveCampaign(campaign.id);
+  };
+
+  const handleStartRename = (campaign: Campaign) => {
+    setRenamingId(campaign.id);
+    setRenameInput(campaign.name);
+  };
+
+  const handleSaveRename = async () => {
+    if (!renamingId) return;
+    const updated = await renameCampaign(renamingId, renameInput);
+    if (!updated) {
+      Alert.alert(
+        'Error',
+        'Please enter a campaign name that is not already in use.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+    setRenamingId(null);
+    setRenameInput('');
+    await loadData();
+  };
+
+  const handleDelete = async (campaign: Campaign) => {
+    const shouldDelete = await confirmAction(
+      'Delete Campaign',
+      `Are you sure you want to delete "${campaign.name}" and all of its characters, factions, locations, events and Discord data? This action cannot be undone.`,
+      'Delete'
+    );
+    if (!shouldDelete) return;
+
+    await deleteCampaign(campaign.id);
+    await loadData();
+  };
+
+  const handleExportActive = async () => {
+    await exportCharacterData();
+  };
+
+  const handleImportIntoNew = async () => {
+    const campaign = await createCampaign(newCampaignName);
+    if (!campaign) {
+      Alert.alert(
+        'Error',
+        'Enter a name for the new campaign above before importing.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+    setNewCampaignName('');
+    await setActiveCampaign(campaign.id);
+    await importCharacterData();
+  };
+
+  const renderCampaign = (campaign: Campaign) => {
+    const isActive = campaign.id === activeCampaignId;
+    const isRenaming = campaign.id === renamingId;
+
+    return (
+      <View
+        key={campaign.id}
+        style={[styles.campaignCard, isActive && styles.campaignCardActive]}
+      >
+        {isRenaming ? (
+          <TextInput
+            style={styles.input}
+            value={renameInput}
+            onChangeText={setRenameInput}
+            placeholder="Campaign name"
+            placeholderTextColor={themeColors.text.muted}
+            autoFocus={true}
+          />
+        ) : (
+          <View style={styles.campaignHeader}>
+            <Text style={styles.campaignName}>{campaign.name}</Text>
+            {isActive && <Text style={styles.activeBadge}>Active</Text>}
+          </View>
+        )}
+
+        <View style={styles.campaignActions}>
+          {isRenaming ? (
+            <>
+              <TouchableOpacity
+                style={[styles.smallButton, styles.primaryButton]}
+                onPress={handleSaveRename}
+              >
+                <Text style={styles.smallButtonText}>Save</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.smallButton, styles.neutralButton]}
+                onPress={() => setRenamingId(null)}
+              >
+                <Text style={styles.smallButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              {!isActive && (
+                <TouchableOpacity
+                  style={[styles.smallButton, styles.primaryButton]}
+                  onPress={() => handleSwitch(campaign)}
+                >
+                  <Text style={styles.smallButtonText}>Switch</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.smallButton, styles.neutralButton]}
+                onPress={() => handleStartRename(campaign)}
+              >
+                <Text style={styles.smallButtonText}>Rename</Text>
+              </TouchableOpacity>
+              {campaign.id !== DEFAULT_CAMPAIGN_ID && (
+                <TouchableOpacity
+                  style={[styles.smallButton, styles.dangerButton]}
+                  onPress={() => handleDelete(campaign)}
+                >
+                  <Text style={styles.smallButtonText}>Delete</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Campaigns</Text>
+        <Text style={styles.description}>
+          Each campaign keeps its own characters, factions, locations, events
+          and Discord data. Switching campaigns never mixes them.
+        </Text>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Your Campaigns</Text>
+          {campaigns.map(renderCampaign)}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>New Campaign</Text>
+          <TextInput
+            style={styles.input}
+            value={newCampaignName}
+            onChangeText={setNewCampaignName}
+            placeholder="Campaign name"
+            placeholderTextColor={themeColors.text.muted}
+          />
+          <TouchableOpacity
+            style={[styles.actionButton, styles.createButton]}
+            onPress={handleCreate}
+          >
+            <Text style={styles.buttonText}>Create Empty Campaign</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.importButton]}
+            onPress={handleImportIntoNew}
+          >
+            <Text style={styles.buttonText}>Import File into New Campaign</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Export</Text>
+          <Text style={styles.sectionDescription}>
+            Exports only contain data from the active campaign.
+          </Text>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.exportButton]}
+            onPress={handleExportActive}
+          >
+            <Text style={styles.buttonText}>Export Active Campaign</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  section: commonStyles.layout.section,
+  sectionTitle: {
+    ...commonStyles.text.h2,
+    marginBottom: 12,
+  },
+  sectionDescription: {
+    ...commonStyles.text.description,
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  campaignCard: {
+    ...commonStyles.card.base,
+    marginBottom: 12,
+  },
+  campaignCardActive: {
+    borderColor: themeColors.accent.primary,
+    borderWidth: 2,
+  },
+  campaignHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  campaignName: {
+    ...commonStyles.text.h3,
+    flex: 1,
+  },
+  activeBadge: {
+    ...commonStyles.text.caption,
+    color: themeColors.accent.success,
+    fontWeight: '600',
+  },
+  campaignActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  neutralButton: {
+    backgroundColor: themeColors.elevated,
+    borderWidth: 1,
+    borderColor: themeColors.border,
+  },
+  dangerButton: {
+    backgroundColor: themeColors.accent.danger,
+  },
+  input: {
+    backgroundColor: themeColors.elevated,
+    borderColor: themeColors.border,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: themeColors.text.primary,
+    marginBottom: 12,
+  },
+  actionButton: commonStyles.button.base,
+  createButton: {
+    ...commonStyles.button.primary,
+    marginBottom: 12,
+  },
+  importButton: commonStyles.button.secondary,
+  exportButton: commonStyles.button.warning,
+  buttonText: commonStyles.button.text,
+});
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,21 +7,36 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { PieChart } from 'react-native-gifted-charts';
-import { useFocusEffect } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '@/navigation/types';
 import { loadCharacters } from '../utils/characterStorage';
 import {
   calculateCharacterStats,
   CharacterStats,
 } from '../utils/characterStats';
+import { findIllegalBuilds } from '../utils/buildValidation';
+import { findReciprocityIssues } from '../utils/relationshipReciprocity';
 import { GameCharacter } from '@/models/types';
 import { colors as themeColors } from '@/styles/theme';
 import { commonStyles } from '@/styles/commonStyles';
 
+type CharacterStatsNavigationProp = StackNavigationProp<RootStackParamList>;
+
 export const CharacterStatsScreen = () => {
+  const navigation = useNavigation<CharacterStatsNavigationProp>();
   const [stats, setStats] = useState<CharacterStats | null>(null);
   const [selectedSlice, setSelectedSlice] = useState<string | null>(null);
   const [showOnlyPresent, setShowOnlyPresent] = useState<boolean>(false);
   const [allCharacters, setAllCharacters] = useState<GameCharacter[]>([]);
+  const illegalBuildCount = useMemo(
+    () => findIllegalBuilds(allCharacters).length,
+    [allCharacters]
+  );
+  const relationshipIssueCount = useMemo(
+    () => findReciprocityIssues(allCharacters).length,
+    [allCharacters]
+  );
 
   const calculateStats = useCallback(
     (characters: GameCharacter[]): CharacterStats => {
@@ -180,6 +195,36 @@ export const CharacterStatsScreen = () => {
           </Text>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionHeader}>Build Check</Text>
+          <Text style={styles.listItemText}>
+            {illegalBuildCount === 0
+              ? 'All characters follow the rules pack.'
+              : `${illegalBuildCount} character(s) break the rules pack.`}
+          </Text>
+          <TouchableOpacity
+            style={styles.reportButton}
+            onPress={() => navigation.navigate('IllegalBuilds')}
+          >
+            <Text style={styles.reportButtonText}>View Illegal Builds</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionHeader}>Relationship Check</Text>
+          <Text style={styles.listItemText}>
+            {relationshipIssueCount === 0
+              ? 'All relationships are reciprocal.'
+              : `${relationshipIssueCount} relationship(s) need attention.`}
+          </Text>
+          <TouchableOpacity
+            style={styles.reportButton}
+            onPress={() => navigation.navigate('RelationshipCheck')}
+          >
+            <Text style={styles.reportButtonText}>Check Relationships</Text>
+          </TouchableOpacity>
+        </View>
+
         {!stats ? (
           <View style={styles.noDataContainer}>
             <Text style={styles.noDataText}>
@@ -312,6 +357,31 @@ export const CharacterStatsScreen = () => {
                 </Text>
               ))}
             </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionHeader}>Cyberware</Text>
+              <Text style={styles.listItemText}>
+                {stats.cyberware.charactersWithCyberware} of{' '}
+                {stats.totalCharacters} characters have implants
+              </Text>
+              <Text style={styles.filterInfo}>
+                {stats.cyberware.installed} installed,{' '}
+                {stats.cyberware.malfunctioning} malfunctioning,{' '}
+                {stats.cyberware.removed} removed
+              </Text>
+              {stats.cyberware.usage.map(usage => (
+                <Text
+                  key={usage.catalogId ?? `custom:${usage.name}`}
+                  style={styles.listItemText}
+                >
+                  {usage.name}
+                  {!usage.catalogId && ' (custom)'}: {usage.installed} installed
+                  {usage.malfunctioning > 0 &&
+                    `, ${usage.malfunctioning} malfunctioning`}
+                  {usage.removed > 0 && `, ${usage.removed} removed`}
+                </Text>
+              ))}
+            </View>
           </>
         )}
       </ScrollView>
@@ -478,6 +548,12 @@ const styles = StyleSheet.create({
     marginVertical: 4,
     fontWeight: '500',
   },
+  reportButton: {
+    ...commonStyles.button.base,
+    ...commonStyles.button.secondary,
+    marginTop: 12,
+  },
+  reportButtonText: commonStyles.button.text,
   noDataContainer: {
     backgroundColor: themeColors.surface,
     padding: 24,
@@ -0,0 +1,406 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  Text,
+} from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from '@react-navigation/native';
+import { GameCharacter, InventoryItem } from '@models/types';
+import { loadCharacters } from '@utils/characterStorage';
+import { getActiveRulesPack } from '@utils/rulesPackStorage';
+import {
+  loadInventory,
+  subscribeToInventoryChanges,
+} from '@utils/inventoryStorage';
+import {
+  MaterialCounts,
+  RecipePlan,
+  craftRecipe,
+  findCrafters,
+  getCharacterMaterials,
+  getFactionCraftingCapabilities,
+  getRequiredMaterials,
+  planRecipes,
+} from '@utils/craftingPlanner';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+type PlannerView = 'character' | 'recipe' | 'faction';
+
+const VIEW_LABELS: Record<PlannerView, string> = {
+  character: 'By Character',
+  recipe: 'Who Can Craft',
+  faction: 'By Faction',
+};
+
+const describeMaterials = (materials: MaterialCounts): string =>
+  Object.entries(materials)
+    .map(([material, count]) =>
+      count > 1 ? `${count} × ${material}` : material
+    )
+    .join(', ');
+
+export const CraftingPlannerScreen: React.FC = () => {
+  const rulesPack = getActiveRulesPack();
+  const [view, setView] = useState<PlannerView>('character');
+  const [characters, setCharacters] = useState<GameCharacter[]>([]);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [characterId, setCharacterId] = useState<string>('');
+  const [recipeId, setRecipeId] = useState<string>('');
+
+  const loadData = useCallback(async () => {
+    const active = (await loadCharacters())
+      .filter(c => !c.retired)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    setCharacters(active);
+    setInventory(await loadInventory());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  useEffect(() => subscribeToInventoryChanges(loadData), [loadData]);
+
+  const selectedCharacter = characters.find(c => c.id === characterId);
+  const materials = getCharacterMaterials(inventory, characterId);
+
+  const handleCraft = async (plan: RecipePlan) => {
+    if (!selectedCharacter) return;
+    const result = await craftRecipe(
+      selectedCharacter,
+      plan.recipe.id,
+      rulesPack
+    );
+    if (result.errors.length > 0) {
+      Alert.alert('Cannot Craft', result.errors.join('\n'));
+    }
+  };
+
+  const renderRecipePlan = (plan: RecipePlan) => (
+    <View key={plan.recipe.id} style={styles.card}>
+      <View style={styles.row}>
+        <Text style={styles.title}>{plan.recipe.name}</Text>
+        <Text style={plan.canCraft ? styles.readyText : styles.missingText}>
+          {plan.canCraft ? 'Ready' : 'Missing materials'}
+        </Text>
+      </View>
+      <Text style={styles.caption}>
+        Needs {describeMaterials(getRequiredMaterials(plan.recipe))} · taught by{' '}
+        {plan.taughtBy.join(', ')}
+      </Text>
+      {!plan.canCraft && (
+        <Text style={styles.missingText}>
+          Still needs {describeMaterials(plan.missingMaterials)}
+        </Text>
+      )}
+      {plan.canCraft && (
+        <TouchableOpacity
+          style={[styles.smallButton, styles.primaryButton, styles.craftButton]}
+          onPress={() => handleCraft(plan)}
+        >
+          <Text style={styles.smallButtonText}>Craft</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderCharacterView = () => {
+    const plans = selectedCharacter
+      ? planRecipes(selectedCharacter, materials, rulesPack)
+      : [];
+
+    return (
+      <>
+        <Picker
+          selectedValue={characterId}
+          style={styles.picker}
+          onValueChange={(value: string) => setCharacterId(value)}
+        >
+          <Picker.Item label="(Select Character)" value="" />
+          {characters.map(character => (
+            <Picker.Item
+              key={character.id}
+              label={character.name}
+              value={character.id}
+            />
+          ))}
+        </Picker>
+
+        {selectedCharacter && (
+          <>
+            <Text style={styles.sectionTitle}>Materials</Text>
+            {Object.keys(materials).length === 0 && (
+              <Text style={styles.emptyText}>No items in inventory</Text>
+            )}
+            {Object.entries(materials)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([material, count]) => (
+                <View key={material} style={styles.materialRow}>
+                  <Text style={styles.materialName}>{material}</Text>
+                  <Text style={styles.materialCount}>{count}</Text>
+                </View>
+              ))}
+            <Text style={styles.caption}>
+              Materials are the items in {selectedCharacter.name}'s inventory;
+              add or hand them over from the character's page.
+            </Text>
+
+            <Text style={styles.sectionTitle}>What Can I Craft</Text>
+            {plans.length === 0 ? (
+              <Text style={styles.emptyText}>
+                {selectedCharacter.name} has no perks that teach recipes.
+              </Text>
+            ) : (
+              plans.map(renderRecipePlan)
+            )}
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderRecipeView = () => {
+    const present = characters.filter(c => c.present === true);
+    const crafters = recipeId
+      ? findCrafters(recipeId, present, inventory, rulesPack)
+      : [];
+
+    return (
+      <>
+        <Picker
+          selectedValue={recipeId}
+          style={styles.picker}
+          onValueChange={(value: string) => setRecipeId(value)}
+        >
+          <Picker.Item label="(Select Recipe)" value="" />
+          {rulesPack.recipes.map(recipe => (
+            <Picker.Item
+              key={recipe.id}
+              label={recipe.name}
+              value={recipe.id}
+            />
+          ))}
+        </Picker>
+        {present.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No characters are marked present.
+          </Text>
+        ) : recipeId && crafters.length === 0 ? (
+          <Text style={styles.emptyText}>
+            None of the present characters know this recipe.
+          </Text>
+        ) : (
+          crafters.map(match => (
+            <View key={match.character.id} style={styles.card}>
+              <View style={styles.row}>
+                <Text style={styles.title}>{match.character.name}</Text>
+                <Text
+                  style={match.canCraft ? styles.readyText : styles.missingText}
+                >
+                  {match.canCraft ? 'Ready' : 'Missing materials'}
+                </Text>
+              </View>
+              <Text style={styles.caption}>
+                Taught by {match.taughtBy.join(', ')}
+              </Text>
+              {!match.canCraft && (
+                <Text style={styles.missingText}>
+                  Still needs {describeMaterials(match.missingMaterials)}
+                </Text>
+              )}
+            </View>
+          ))
+        )}
+      </>
+    );
+  };
+
+  const renderFactionView = () => {
+    const capabilities = getFactionCraftingCapabilities(
+      characters,
+      inventory,
+      rulesPack
+    );
+    if (capabilities.length === 0) {
+      return (
+        <Text style={styles.emptyText}>
+          No faction has allied or friendly members yet.
+        </Text>
+      );
+    }
+
+    return capabilities.map(faction => (
+      <View key={faction.factionName} style={styles.card}>
+        <Text style={styles.title}>{faction.factionName}</Text>
+        <Text style={styles.caption}>
+          {faction.memberCount} active{' '}
+          {faction.memberCount === 1 ? 'member' : 'members'} ·{' '}
+          {faction.recipes.length} of {rulesPack.recipes.length} recipes known
+        </Text>
+        {faction.recipes.map(capability => (
+          <View key={capability.recipe.id} style={styles.factionRecipe}>
+            <Text style={styles.materialName}>{capability.recipe.name}</Text>
+            <Text style={styles.caption}>
+              {capability.crafters.join(', ')}
+              {capability.readyCrafters.length > 0
+                ? ` · ready: ${capability.readyCrafters.join(', ')}`
+                : ''}
+            </Text>
+          </View>
+        ))}
+        {Object.keys(faction.materials).length > 0 && (
+          <Text style={styles.caption}>
+            Pooled materials: {describeMaterials(faction.materials)}
+          </Text>
+        )}
+      </View>
+    ));
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Crafting Planner</Text>
+        <Text style={styles.description}>
+          Characters learn recipes from their perks and craft with the items in
+          their inventory. See what each character can craft, who at the table
+          can make something, and what each faction can produce during downtime.
+        </Text>
+
+        <View style={styles.tabs}>
+          {(Object.keys(VIEW_LABELS) as PlannerView[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.smallButton,
+                option === view ? styles.primaryButton : styles.neutralButton,
+              ]}
+              onPress={() => setView(option)}
+            >
+              <Text style={styles.smallButtonText}>{VIEW_LABELS[option]}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {rulesPack.recipes.length === 0 ? (
+          <Text style={styles.emptyText}>
+            The {rulesPack.name} rules pack has no recipes.
+          </Text>
+        ) : view === 'character' ? (
+          renderCharacterView()
+        ) : view === 'recipe' ? (
+          renderRecipeView()
+        ) : (
+          renderFactionView()
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 24,
+    lineHeight: 24,
+  },
+  sectionTitle: {
+    ...commonStyles.text.h3,
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  emptyText: {
+    ...commonStyles.text.body,
+    fontStyle: 'italic',
+    marginVertical: 12,
+  },
+  tabs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  picker: commonStyles.input.picker,
+  card: {
+    ...commonStyles.card.base,
+    marginVertical: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  title: {
+    ...commonStyles.text.h3,
+    flex: 1,
+  },
+  caption: {
+    ...commonStyles.text.caption,
+    marginTop: 4,
+  },
+  readyText: {
+    ...commonStyles.text.caption,
+    color: themeColors.accent.success,
+    fontWeight: '600',
+  },
+  missingText: {
+    ...commonStyles.text.caption,
+    color: themeColors.accent.warning,
+    marginTop: 4,
+  },
+  materialRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    gap: 8,
+  },
+  materialName: {
+    ...commonStyles.text.body,
+    flex: 1,
+  },
+  materialCount: {
+    ...commonStyles.text.h3,
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  factionRecipe: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: themeColors.border,
+  },
+  craftButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  neutralButton: {
+    backgroundColor: themeColors.elevated,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   StyleSheet,
@@ -11,7 +11,14 @@ import {
   ActivityIndicator,
   TextInput,
 } from 'react-native';
-import { clearStorage, importDataset } from '@utils/characterStorage';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '@/navigation/types';
+import {
+  clearStorage,
+  commitMergeReview,
+  importDataset,
+} from '@utils/characterStorage';
 import {
   exportCharacterData,
   importCharacterData,
@@ -26,6 +33,23 @@ import {
   getGitHubConfig,
 } from '@utils/gitIntegration';
 import { clearDiscordData } from '@/utils/discordStorage';
+import {
+  EntityChange,
+  clearChangeJournal,
+  getChangedFields,
+  getJournalAuthor,
+  setJournalAuthor,
+} from '@/utils/changeJournal';
+import {
+  SNAPSHOT_REASON_LABELS,
+  Snapshot,
+  createSnapshot,
+  diffSnapshotWithCurrent,
+  loadSnapshots,
+  restoreSnapshot,
+} from '@/utils/snapshotStorage';
+import { emptyTrash } from '@/utils/trashStorage';
+import { listFieldConflicts } from '@/utils/mergeReview';
 import { colors as themeColors } from '@/styles/theme';
 import { commonStyles } from '@/styles/commonStyles';
 
@@ -35,7 +59,10 @@ interface ProgressState {
   operation: 'export' | 'import' | 'merge' | 'git-export' | 'git-import' | null;
 }
 
+type NavigationProp = StackNavigationProp<RootStackParamList>;
+
 export const DataManagementScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
   const [progress, setProgress] = useState<ProgressState>({
     visible: false,
     message: '',
@@ -45,6 +72,12 @@ export const DataManagementScreen: React.FC = () => {
   const [tokenDialogVisible, setTokenDialogVisible] = useState<boolean>(false);
   const [tokenInput, setTokenInput] = useState<string>('');
   const [tokenValidating, setTokenValidating] = useState<boolean>(false);
+  const [authorName, setAuthorName] = useState<string>('');
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [snapshotDiff, setSnapshotDiff] = useState<{
+    snapshotId: string;
+    changes: EntityChange[];
+  } | null>(null);
 
   // Check GitHub configuration on mount
   React.useEffect(() => {
@@ -55,6 +88,25 @@ export const DataManagementScreen: React.FC = () => {
     checkConfig();
   }, []);
 
+  // Load the name recorded in the change history
+  React.useEffect(() => {
+    const loadAuthor = async () => {
+      setAuthorName(await getJournalAuthor());
+    };
+    loadAuthor();
+  }, []);
+
+  const refreshSnapshots = useCallback(async () => {
+    setSnapshots(await loadSnapshots());
+    setSnapshotDiff(null);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshSnapshots();
+    }, [refreshSnapshots])
+  );
+
   const showProgress = (
     operation: 'export' | 'import' | 'merge' | 'git-export' | 'git-import',
     message: string
@@ -95,8 +147,12 @@ export const DataManagementScreen: React.FC = () => {
 
     const shouldClear = await confirmClear();
     if (shouldClear) {
+      await createSnapshot('clear');
       await clearStorage();
       await clearDiscordData();
+      await clearChangeJournal();
+      await emptyTrash();
+      await refreshSnapshots();
       Alert.alert('Success', 'All game data has been deleted.', [
         { text: 'OK' },
       ]);
@@ -117,6 +173,7 @@ export const DataManagementScreen: React.FC = () => {
     try {
       const success = await importCharacterData();
       hideProgress();
+      await refreshSnapshots();
       if (success) {
         Alert.alert('Success', 'Game data imported successfully.', [
           { text: 'OK' },
@@ -135,10 +192,31 @@ export const DataManagementScreen: React.FC = () => {
   const handleMerge = async () => {
     showProgress('merge', 'Merging data...');
     try {
-      const success = await mergeCharacterData();
+      const review = await mergeCharacterData();
+      if (!review) {
+        hideProgress();
+        return;
+      }
+
+      // Conflicts are resolved on the review screen before anything is saved
+      if (listFieldConflicts(review).length > 0) {
+        hideProgress();
+        navigation.navigate('MergeReview', { review });
+        return;
+      }
+
+      await createSnapshot('merge');
+      const success = await commitMergeReview(review, {});
       hideProgress();
+      await refreshSnapshots();
       if (success) {
-        Alert.alert('Success', 'Game data merged successfully.', [
+        Alert.alert(
+          'Success',
+          `Merged ${review.added.length} new and ${review.entities.length} updated item(s) with no conflicts.`,
+          [{ text: 'OK' }]
+        );
+      } else {
+        Alert.alert('Merge Failed', 'The merged data could not be saved.', [
           { text: 'OK' },
         ]);
       }
@@ -152,6 +230,136 @@ export const DataManagementScreen: React.FC = () => {
     }
   };
 
+  const handleAuthorSave = async () => {
+    if (!authorName.trim()) {
+      Alert.alert('Error', 'Please enter a name.', [{ text: 'OK' }]);
+      return;
+    }
+
+    await setJournalAuthor(authorName);
+    Alert.alert('Success', 'Your name will be shown in the change history.', [
+      { text: 'OK' },
+    ]);
+  };
+
+  const handleTakeSnapshot = async () => {
+    const snapshot = await createSnapshot('manual');
+    if (!snapshot) {
+      Alert.alert('Error', 'Failed to create a snapshot.', [{ text: 'OK' }]);
+      return;
+    }
+    await refreshSnapshots();
+  };
+
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    const message = `Replace all current data with the snapshot from ${new Date(
+      snapshot.createdAt
+    ).toLocaleString()}? A snapshot of the current data is taken first.`;
+    const confirmRestore = () => {
+      if (Platform.OS === 'web') {
+        return window.confirm(message);
+      }
+      return new Promise<boolean>(resolve => {
+        Alert.alert('Restore Snapshot', message, [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          {
+            text: 'Restore',
+            style: 'destructive',
+            onPress: () => resolve(true),
+          },
+        ]);
+      });
+    };
+
+    if (!(await confirmRestore())) return;
+
+    const success = await restoreSnapshot(snapshot.id);
+    await refreshSnapshots();
+    if (success) {
+      Alert.alert('Success', 'The snapshot has been restored.', [
+        { text: 'OK' },
+      ]);
+    } else {
+      Alert.alert('Restore Failed', 'The snapshot could not be restored.', [
+        { text: 'OK' },
+      ]);
+    }
+  };
+
+  const handleCompareSnapshot = async (snapshot: Snapshot) => {
+    if (snapshotDiff?.snapshotId === snapshot.id) {
+      setSnapshotDiff(null);
+      return;
+    }
+
+    const changes = await diffSnapshotWithCurrent(snapshot.id);
+    setSnapshotDiff(changes ? { snapshotId: snapshot.id, changes } : null);
+  };
+
+  const describeSnapshotChange = (change: EntityChange): string => {
+    const label = `${change.entityType} "${change.entityName}"`;
+    if (!change.before) return `Added since: ${label}`;
+    if (!change.after) return `Removed since: ${label}`;
+    return `Changed: ${label} (${getChangedFields(change).join(', ')})`;
+  };
+
+  const renderSnapshot = (snapshot: Snapshot) => {
+    const { counts } = snapshot;
+    const isComparing = snapshotDiff?.snapshotId === snapshot.id;
+
+    return (
+      <View key={snapshot.id} style={styles.snapshotCard}>
+        <Text style={styles.snapshotTitle}>
+          {new Date(snapshot.createdAt).toLocaleString()}
+        </Text>
+        <Text style={styles.snapshotMeta}>
+          {SNAPSHOT_REASON_LABELS[snapshot.reason]} ·{' '}
+          {Math.max(1, Math.round(snapshot.size / 1024))} KB
+        </Text>
+        <Text style={styles.snapshotMeta}>
+          {counts.characters} characters · {counts.factions} factions ·{' '}
+          {counts.locations} locations · {counts.events} events
+        </Text>
+
+        <View style={styles.snapshotActions}>
+          <TouchableOpacity
+            style={[styles.snapshotButton, styles.snapshotRestoreButton]}
+            onPress={() => handleRestoreSnapshot(snapshot)}
+          >
+            <Text style={styles.snapshotButtonText}>Restore</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.snapshotButton, styles.snapshotCompareButton]}
+            onPress={() => handleCompareSnapshot(snapshot)}
+          >
+            <Text style={styles.snapshotButtonText}>
+              {isComparing ? 'Hide Changes' : 'Compare'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isComparing && (
+          <View style={styles.snapshotDiff}>
+            {snapshotDiff.changes.length === 0 ? (
+              <Text style={styles.snapshotMeta}>
+                Identical to the current data
+              </Text>
+            ) : (
+              snapshotDiff.changes.map(change => (
+                <Text
+                  key={`${change.entityType}-${change.entityId}`}
+                  style={styles.snapshotMeta}
+                >
+                  {describeSnapshotChange(change)}
+                </Text>
+              ))
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
   const handleGitHubSetup = () => {
     setTokenInput('');
     setTokenDialogVisible(true);
@@ -250,8 +458,10 @@ export const DataManagementScreen: React.FC = () => {
 
       if (result.success && result.data) {
         // Import the data
+        await createSnapshot('import');
         const importSuccess = await importDataset(result.data);
         hideProgress();
+        await refreshSnapshots();
 
         if (importSuccess) {
           Alert.alert(
@@ -371,6 +581,71 @@ export const DataManagementScreen: React.FC = () => {
           )}
         </View>
 
+        {/* Snapshots Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Snapshots</Text>
+          <Text style={styles.sectionDescription}>
+            A snapshot of all data is taken automatically before every import,
+            merge and clear, and once a day. Restore a snapshot or compare it
+            with the current data.
+          </Text>
+
+          {snapshots.length === 0 ? (
+            <Text style={styles.emptyText}>No snapshots yet</Text>
+          ) : (
+            snapshots.map(renderSnapshot)
+          )}
+
+          <TouchableOpacity
+            style={[styles.actionButton, styles.snapshotTakeButton]}
+            onPress={handleTakeSnapshot}
+          >
+            <Text style={styles.buttonText}>Take Snapshot Now</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Change History Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Change History</Text>
+          <Text style={styles.sectionDescription}>
+            Every edit is recorded in the History section of each character,
+            faction, location and event, and can be undone from the menu. Choose
+            the name shown as the author of your changes.
+          </Text>
+
+          <TextInput
+            style={styles.authorInput}
+            value={authorName}
+            onChangeText={setAuthorName}
+            placeholder="Your name"
+            placeholderTextColor={themeColors.text.muted}
+            autoCorrect={false}
+          />
+
+          <TouchableOpacity
+            style={[styles.actionButton, styles.authorSaveButton]}
+            onPress={handleAuthorSave}
+          >
+            <Text style={styles.buttonText}>Save Name</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Trash Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Trash</Text>
+          <Text style={styles.sectionDescription}>
+            Deleted characters, factions, locations and events can be restored
+            or permanently deleted from the trash.
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.actionButton, styles.trashButton]}
+            onPress={() => navigation.navigate('Trash')}
+          >
+            <Text style={styles.buttonText}>Open Trash</Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Danger Zone */}
         <View style={[styles.section, styles.dangerSection]}>
           <Text style={[styles.sectionTitle, styles.dangerTitle]}>
@@ -514,6 +789,65 @@ const styles = StyleSheet.create({
     backgroundColor: themeColors.accent.info,
     marginBottom: 12,
   },
+  emptyText: {
+    ...commonStyles.text.caption,
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
+  snapshotCard: {
+    ...commonStyles.card.base,
+    marginBottom: 12,
+  },
+  snapshotTitle: {
+    ...commonStyles.text.h3,
+    marginBottom: 4,
+  },
+  snapshotMeta: {
+    ...commonStyles.text.caption,
+    marginBottom: 4,
+  },
+  snapshotActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  snapshotButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  snapshotRestoreButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  snapshotCompareButton: {
+    backgroundColor: themeColors.elevated,
+    borderWidth: 1,
+    borderColor: themeColors.border,
+  },
+  snapshotButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  snapshotDiff: {
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: themeColors.border,
+  },
+  snapshotTakeButton: commonStyles.button.secondary,
+  authorInput: {
+    backgroundColor: themeColors.elevated,
+    borderColor: themeColors.border,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: themeColors.text.primary,
+    marginBottom: 12,
+  },
+  authorSaveButton: commonStyles.button.secondary,
+  trashButton: commonStyles.button.secondary,
   clearButton: commonStyles.button.danger,
   buttonText: commonStyles.button.text,
   modalOverlay: {
@@ -16,6 +16,7 @@ import {
   FactionStats,
   CombinedFactionAnalysis,
 } from '@/utils/factionStats';
+import { getSubFactions } from '@/utils/factionHierarchy';
 import { colors as themeColors } from '@/styles/theme';
 import { commonStyles } from '@/styles/commonStyles';
 import { PerkTag } from '@/models/gameData';
@@ -50,9 +51,10 @@ export const FactionStatsScreen: React.FC = () => {
       // Calculate stats for each faction
       const stats = activeFactions.map(faction =>
         calculateFactionStats(
-          faction.name,
+          faction,
           activeCharacters,
-          faction.relationships || []
+          faction.relationships || [],
+          getSubFactions(faction, activeFactions)
         )
       );
 
@@ -104,7 +106,7 @@ export const FactionStatsScreen: React.FC = () => {
     }
   };
 
-  const renderPerkTagBar = (tag: PerkTag, count: number, maxCount: number) => {
+  const renderPerkTagBar = (tag: string, count: number, maxCount: number) => {
     const percentage = maxCount > 0 ? (count / maxCount) * 100 : 0;
     const widthPercentage = `${Math.max(percentage, 5)}%` as const; // Minimum 5% width for visibility
 
@@ -128,8 +130,9 @@ export const FactionStatsScreen: React.FC = () => {
     );
   };
 
-  const getPerkTagColor = (tag: PerkTag): string => {
-    const colorMap: Record<PerkTag, string> = {
+  // Tags of other rules packs use the accent color
+  const getPerkTagColor = (tag: string): string => {
+    const colorMap: Record<string, string> = {
       [PerkTag.Agility]: '#3498DB',
       [PerkTag.Charisma]: '#E91E63',
       [PerkTag.Crafting]: '#FF9800',
@@ -166,6 +169,11 @@ export const FactionStatsScreen: React.FC = () => {
               <Text style={styles.expandIcon}>{isSelected ? '▼' : '▶'}</Text>
             </View>
           </View>
+          {stats.subFactions.length > 0 && (
+            <Text style={styles.subFactionText}>
+              {stats.directMembers} direct, with {stats.subFactions.join(', ')}
+            </Text>
+          )}
 
           <View style={styles.quickStats}>
             <View style={styles.quickStatItem}>
@@ -409,11 +417,7 @@ export const FactionStatsScreen: React.FC = () => {
                       .map(([tag, count], index, array) => {
                         // Use the highest count from the sorted array, or default to 1
                         const maxCount = array.length > 0 ? array[0][1] : 1;
-                        return renderPerkTagBar(
-                          tag as PerkTag,
-                          count,
-                          maxCount
-                        );
+                        return renderPerkTagBar(tag, count, maxCount);
                       })}
                   </View>
                 </View>
@@ -455,6 +459,12 @@ export const FactionStatsScreen: React.FC = () => {
         contentContainerStyle={styles.contentContainer}
       >
         <Text style={styles.header}>Faction Statistics</Text>
+        <TouchableOpacity
+          style={styles.matrixButton}
+          onPress={() => navigation.navigate('FactionMatrix')}
+        >
+          <Text style={styles.matrixButtonText}>Compare Faction Standings</Text>
+        </TouchableOpacity>
 
         {factionStats.length === 0 ? (
           <View style={styles.emptyStateContainer}>
@@ -489,6 +499,12 @@ const styles = StyleSheet.create({
     ...commonStyles.text.h1,
     marginBottom: 24,
   },
+  matrixButton: {
+    ...commonStyles.button.base,
+    ...commonStyles.button.primary,
+    marginBottom: 24,
+  },
+  matrixButtonText: commonStyles.button.text,
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -527,6 +543,10 @@ const styles = StyleSheet.create({
     ...commonStyles.text.h2,
     flex: 1,
   },
+  subFactionText: {
+    ...commonStyles.text.caption,
+    marginBottom: 12,
+  },
   factionHeaderRight: {
     flexDirection: 'row',
     alignItems: 'center',
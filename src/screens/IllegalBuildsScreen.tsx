@@ -0,0 +1,149 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Text,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '@/navigation/types';
+import { loadCharacters } from '@utils/characterStorage';
+import { findIllegalBuilds, IllegalBuild } from '@utils/buildValidation';
+import { getActiveRulesPack } from '@utils/rulesPackStorage';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+type NavigationProp = StackNavigationProp<RootStackParamList>;
+
+export const IllegalBuildsScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const [builds, setBuilds] = useState<IllegalBuild[]>([]);
+  const [characterCount, setCharacterCount] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+  const rulesPack = getActiveRulesPack();
+
+  const loadData = useCallback(async () => {
+    const characters = await loadCharacters();
+    setCharacterCount(characters.length);
+    setBuilds(
+      findIllegalBuilds(
+        [...characters].sort((a, b) => a.name.localeCompare(b.name))
+      )
+    );
+    setLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const renderBuild = (build: IllegalBuild) => (
+    <TouchableOpacity
+      key={build.character.id}
+      style={styles.buildCard}
+      onPress={() =>
+        navigation.navigate('CharacterForm', { character: build.character })
+      }
+    >
+      <View style={styles.buildHeader}>
+        <Text style={styles.characterName}>{build.character.name}</Text>
+        {build.character.retired && (
+          <Text style={styles.retiredBadge}>Retired</Text>
+        )}
+      </View>
+      <Text style={styles.buildDetails}>
+        {build.character.species} · {build.violations.length}{' '}
+        {build.violations.length === 1 ? 'violation' : 'violations'}
+      </Text>
+      {build.violations.map((violation, index) => (
+        <Text key={index} style={styles.violationText}>
+          ⚠ {violation.message}
+        </Text>
+      ))}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Illegal Builds</Text>
+        <Text style={styles.description}>
+          Characters whose species, perks, distinctions or cyberware break the
+          rules of the {rulesPack.name} rules pack. Tap a character to fix the
+          build.
+        </Text>
+
+        {loading ? null : builds.length === 0 ? (
+          <Text style={styles.emptyText}>
+            All {characterCount} characters follow the rules.
+          </Text>
+        ) : (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {builds.length} of {characterCount} characters
+            </Text>
+            {builds.map(renderBuild)}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  section: commonStyles.layout.section,
+  sectionTitle: {
+    ...commonStyles.text.h2,
+    marginBottom: 12,
+  },
+  emptyText: {
+    ...commonStyles.text.body,
+    color: themeColors.accent.success,
+  },
+  buildCard: {
+    ...commonStyles.card.base,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: themeColors.accent.warning,
+  },
+  buildHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  characterName: {
+    ...commonStyles.text.h3,
+    flex: 1,
+  },
+  retiredBadge: {
+    ...commonStyles.text.caption,
+    color: themeColors.text.muted,
+    fontWeight: '600',
+  },
+  buildDetails: {
+    ...commonStyles.text.caption,
+    marginBottom: 8,
+  },
+  violationText: {
+    ...commonStyles.text.body,
+    color: themeColors.accent.warning,
+    marginBottom: 4,
+  },
+});
@@ -6,30 +6,50 @@ import {
   ScrollView,
   ActivityIndicator,
   RefreshControl,
+  TouchableOpacity,
 } from 'react-native';
-import { useFocusEffect } from '@react-navigation/native';
-import { loadCharacters } from '@utils/characterStorage';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '@/navigation/types';
+import { loadCharacters, loadFactions } from '@utils/characterStorage';
 import { GameCharacter } from '@models/types';
 import {
-  getTopInfluencers,
   analyzeFactionInfluence,
   findKeyConnectors,
   findPowerCenters,
   CharacterInfluence,
   FactionInfluence,
 } from '@utils/influenceAnalysis';
+import {
+  buildRelationshipGraph,
+  calculateCentrality,
+  getMetricValue,
+  rankByMetric,
+  CharacterCentrality,
+  InfluenceMetric,
+  INFLUENCE_METRICS,
+} from '@utils/relationshipGraph';
+import {
+  buildFactionMatrix,
+  detectFactionBlocs,
+  FactionBlocs,
+} from '@utils/factionMatrix';
 import { Card, Section } from '@components/index';
 
 export const InfluenceReportScreen: React.FC = () => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const [characters, setCharacters] = useState<GameCharacter[]>([]);
-  const [topInfluencers, setTopInfluencers] = useState<CharacterInfluence[]>(
-    []
-  );
+  const [centrality, setCentrality] = useState<CharacterCentrality[]>([]);
+  const [metric, setMetric] = useState<InfluenceMetric>('influence');
   const [factionInfluences, setFactionInfluences] = useState<
     FactionInfluence[]
   >([]);
   const [keyConnectors, setKeyConnectors] = useState<CharacterInfluence[]>([]);
   const [powerCenters, setPowerCenters] = useState<CharacterInfluence[]>([]);
+  const [factionBlocs, setFactionBlocs] = useState<FactionBlocs>({
+    blocs: [],
+    rivalries: [],
+  });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -39,15 +59,19 @@ export const InfluenceReportScreen: React.FC = () => {
       setCharacters(loadedCharacters);
 
       // Calculate all analyses
-      const influencers = getTopInfluencers(loadedCharacters, 10);
+      const graph = buildRelationshipGraph(loadedCharacters);
       const factions = await analyzeFactionInfluence(loadedCharacters);
       const connectors = findKeyConnectors(loadedCharacters, 5);
       const centers = findPowerCenters(loadedCharacters, 5);
+      const blocs = detectFactionBlocs(
+        buildFactionMatrix(await loadFactions(), loadedCharacters)
+      );
 
-      setTopInfluencers(influencers);
+      setCentrality(calculateCentrality(loadedCharacters, graph));
       setFactionInfluences(factions);
       setKeyConnectors(connectors);
       setPowerCenters(centers);
+      setFactionBlocs(blocs);
     } catch (error) {
       console.error('Error loading influence data:', error);
     } finally {
@@ -88,6 +112,18 @@ export const InfluenceReportScreen: React.FC = () => {
     return '#B8B8CC';
   };
 
+  const formatMetricValue = (value: number): string => {
+    if (metric === 'degree' || metric === 'betweenness') {
+      return value.toFixed(2);
+    }
+    if (metric === 'pageRank') return `${(value * 100).toFixed(1)}%`;
+    return String(value);
+  };
+
+  const topInfluencers = rankByMetric(centrality, metric, 10);
+  const metricInfo =
+    INFLUENCE_METRICS.find(m => m.metric === metric) ?? INFLUENCE_METRICS[0];
+
   if (loading) {
     return (
       <View style={styles.centered}>
@@ -142,10 +178,31 @@ export const InfluenceReportScreen: React.FC = () => {
             <Text style={styles.statLabel}>Total Relationships</Text>
           </View>
         </View>
+        <TouchableOpacity
+          style={styles.networkButton}
+          onPress={() => navigation.navigate('RelationshipNetwork')}
+        >
+          <Text style={styles.networkButtonText}>View Network Diagram</Text>
+        </TouchableOpacity>
       </Card>
 
       {/* Top Influencers */}
       <Section title="Top Influencers" style={styles.section}>
+        <View style={styles.metricTabs}>
+          {INFLUENCE_METRICS.map(option => (
+            <TouchableOpacity
+              key={option.metric}
+              style={[
+                styles.metricTab,
+                metric === option.metric && styles.metricTabActive,
+              ]}
+              onPress={() => setMetric(option.metric)}
+            >
+              <Text style={styles.metricTabText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.metricDescription}>{metricInfo.description}</Text>
         {topInfluencers.length === 0 ? (
           <Card>
             <Text style={styles.emptySubtext}>
@@ -153,84 +210,100 @@ export const InfluenceReportScreen: React.FC = () => {
             </Text>
           </Card>
         ) : (
-          topInfluencers.map((inf, index) => (
-            <Card key={inf.character.id} style={styles.influencerCard}>
-              <View style={styles.influencerHeader}>
-                <View style={styles.influencerRank}>
-                  <Text style={styles.rankNumber}>#{index + 1}</Text>
-                </View>
-                <View style={styles.influencerInfo}>
-                  <Text style={styles.characterName}>{inf.character.name}</Text>
-                  <Text style={styles.characterSpecies}>
-                    {inf.character.species}
-                    {inf.character.occupation
-                      ? ` • ${inf.character.occupation}`
-                      : ''}
-                  </Text>
-                </View>
-                <View style={styles.influenceScoreContainer}>
-                  <Text
-                    style={[
-                      styles.influenceScore,
-                      { color: getInfluenceColor(inf.influenceScore) },
-                    ]}
-                  >
-                    {inf.influenceScore}
-                  </Text>
-                  <Text style={styles.influenceScoreLabel}>influence</Text>
+          topInfluencers.map((entry, index) => {
+            const inf = entry.influence;
+            return (
+              <Card key={inf.character.id} style={styles.influencerCard}>
+                <View style={styles.influencerHeader}>
+                  <View style={styles.influencerRank}>
+                    <Text style={styles.rankNumber}>#{index + 1}</Text>
+                  </View>
+                  <View style={styles.influencerInfo}>
+                    <Text style={styles.characterName}>
+                      {inf.character.name}
+                    </Text>
+                    <Text style={styles.characterSpecies}>
+                      {inf.character.species}
+                      {inf.character.occupation
+                        ? ` • ${inf.character.occupation}`
+                        : ''}
+                    </Text>
+                  </View>
+                  <View style={styles.influenceScoreContainer}>
+                    <Text
+                      style={[
+                        styles.influenceScore,
+                        {
+                          color:
+                            metric === 'influence'
+                              ? getInfluenceColor(inf.influenceScore)
+                              : '#6C5CE7',
+                        },
+                      ]}
+                    >
+                      {formatMetricValue(getMetricValue(entry, metric))}
+                    </Text>
+                    <Text style={styles.influenceScoreLabel}>
+                      {metricInfo.label.toLowerCase()}
+                    </Text>
+                  </View>
                 </View>
-              </View>
 
-              <View style={styles.influenceDetails}>
-                <Text
-                  style={[
-                    styles.influenceLabel,
-                    { color: getInfluenceColor(inf.influenceScore) },
-                  ]}
-                >
-                  {getInfluenceLabel(inf.influenceScore)}
-                </Text>
-              </View>
+                {metric === 'influence' && (
+                  <View style={styles.influenceDetails}>
+                    <Text
+                      style={[
+                        styles.influenceLabel,
+                        { color: getInfluenceColor(inf.influenceScore) },
+                      ]}
+                    >
+                      {getInfluenceLabel(inf.influenceScore)}
+                    </Text>
+                  </View>
+                )}
 
-              <View style={styles.statsRow}>
-                <View style={styles.statBox}>
-                  <Text style={styles.statBoxValue}>
-                    {inf.relationshipCount}
-                  </Text>
-                  <Text style={styles.statBoxLabel}>Relationships</Text>
-                </View>
-                <View style={styles.statBox}>
-                  <Text style={[styles.statBoxValue, { color: '#00B894' }]}>
-                    {inf.positiveRelationships}
-                  </Text>
-                  <Text style={styles.statBoxLabel}>Allies/Friends</Text>
-                </View>
-                <View style={styles.statBox}>
-                  <Text style={styles.statBoxValue}>{inf.factionCount}</Text>
-                  <Text style={styles.statBoxLabel}>Factions</Text>
-                </View>
-                <View style={styles.statBox}>
-                  <Text style={styles.statBoxValue}>
-                    {inf.connections.length}
-                  </Text>
-                  <Text style={styles.statBoxLabel}>Connections</Text>
+                <View style={styles.statsRow}>
+                  <View style={styles.statBox}>
+                    <Text style={styles.statBoxValue}>
+                      {inf.relationshipCount}
+                    </Text>
+                    <Text style={styles.statBoxLabel}>Relationships</Text>
+                  </View>
+                  <View style={styles.statBox}>
+                    <Text style={[styles.statBoxValue, { color: '#00B894' }]}>
+                      {inf.positiveRelationships}
+                    </Text>
+                    <Text style={styles.statBoxLabel}>Allies/Friends</Text>
+                  </View>
+                  <View style={styles.statBox}>
+                    <Text style={styles.statBoxValue}>{inf.factionCount}</Text>
+                    <Text style={styles.statBoxLabel}>Factions</Text>
+                  </View>
+                  <View style={styles.statBox}>
+                    <Text style={styles.statBoxValue}>
+                      {inf.connections.length}
+                    </Text>
+                    <Text style={styles.statBoxLabel}>Connections</Text>
+                  </View>
                 </View>
-              </View>
 
-              {inf.factions.length > 0 && (
-                <View style={styles.factionsContainer}>
-                  <Text style={styles.factionsLabel}>Faction Memberships:</Text>
-                  <View style={styles.factionTags}>
-                    {inf.factions.map(faction => (
-                      <View key={faction} style={styles.factionTag}>
-                        <Text style={styles.factionTagText}>{faction}</Text>
-                      </View>
-                    ))}
+                {inf.factions.length > 0 && (
+                  <View style={styles.factionsContainer}>
+                    <Text style={styles.factionsLabel}>
+                      Faction Memberships:
+                    </Text>
+                    <View style={styles.factionTags}>
+                      {inf.factions.map(faction => (
+                        <View key={faction} style={styles.factionTag}>
+                          <Text style={styles.factionTagText}>{faction}</Text>
+                        </View>
+                      ))}
+                    </View>
                   </View>
-                </View>
-              )}
-            </Card>
-          ))
+                )}
+              </Card>
+            );
+          })
         )}
       </Section>
 
@@ -320,6 +393,44 @@ export const InfluenceReportScreen: React.FC = () => {
         )}
       </Section>
 
+      {/* Alliance Blocs and Rivalries */}
+      {(factionBlocs.blocs.length > 0 || factionBlocs.rivalries.length > 0) && (
+        <Section title="Blocs & Rivalries" style={styles.section}>
+          <Card>
+            <Text style={styles.sectionDescription}>
+              Factions grouped by the standings they declare or their members
+              hold towards each other
+            </Text>
+          </Card>
+          {factionBlocs.blocs.map(bloc => (
+            <Card key={bloc.join('|')} style={styles.factionCard}>
+              <Text style={styles.relationshipLabel}>Alliance Bloc</Text>
+              <View style={styles.factionTags}>
+                {bloc.map(name => (
+                  <View key={name} style={styles.allyTag}>
+                    <Text style={styles.allyTagText}>{name}</Text>
+                  </View>
+                ))}
+              </View>
+            </Card>
+          ))}
+          {factionBlocs.rivalries.map(rivalry => (
+            <Card
+              key={rivalry.sides.map(side => side.join('|')).join('/')}
+              style={styles.factionCard}
+            >
+              <Text style={styles.relationshipLabel}>
+                Rivalry · {rivalry.hostileTies} hostile{' '}
+                {rivalry.hostileTies === 1 ? 'tie' : 'ties'}
+              </Text>
+              <Text style={styles.membersList}>
+                {rivalry.sides[0].join(', ')} vs {rivalry.sides[1].join(', ')}
+              </Text>
+            </Card>
+          ))}
+        </Section>
+      )}
+
       {/* Key Connectors */}
       {keyConnectors.length > 0 && (
         <Section title="Key Connectors" style={styles.section}>
@@ -492,6 +603,44 @@ const styles = StyleSheet.create({
     color: '#B8B8CC',
     textAlign: 'center',
   },
+  networkButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    backgroundColor: '#6C5CE7',
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  networkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  metricTabs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  metricTab: {
+    backgroundColor: '#1A1A33',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  metricTabActive: {
+    backgroundColor: '#6C5CE7',
+  },
+  metricTabText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  metricDescription: {
+    fontSize: 13,
+    color: '#B8B8CC',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
   influencerCard: {
     marginBottom: 12,
   },
@@ -0,0 +1,341 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  Text,
+  TextInput,
+} from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '@/navigation/types';
+import { commitMergeReview } from '@utils/characterStorage';
+import {
+  FieldConflict,
+  MergeResolutions,
+  getUnresolvedConflicts,
+  listFieldConflicts,
+} from '@utils/mergeReview';
+import { createSnapshot } from '@utils/snapshotStorage';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+type MergeReviewRouteProp = RouteProp<RootStackParamList, 'MergeReview'>;
+type NavigationProp = StackNavigationProp<RootStackParamList>;
+
+const ENTITY_LABELS: Record<FieldConflict['entityType'], string> = {
+  character: 'Character',
+  faction: 'Faction',
+  location: 'Location',
+  event: 'Event',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+// Plain text fields are edited as text, everything else as JSON
+const isTextField = (conflict: FieldConflict): boolean =>
+  [conflict.existing, conflict.imported].every(
+    value => value === undefined || typeof value === 'string'
+  );
+
+export const MergeReviewScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<MergeReviewRouteProp>();
+  const { review } = route.params;
+
+  const conflicts = useMemo(() => listFieldConflicts(review), [review]);
+  const [index, setIndex] = useState<number>(0);
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const [editText, setEditText] = useState<string | null>(null);
+  const [committing, setCommitting] = useState<boolean>(false);
+
+  const conflict = conflicts[index];
+  const unresolvedCount = getUnresolvedConflicts(review, resolutions).length;
+  const isResolved = conflict.key in resolutions;
+
+  const goTo = (nextIndex: number) => {
+    setIndex(Math.max(0, Math.min(conflicts.length - 1, nextIndex)));
+    setEditText(null);
+  };
+
+  const resolve = (value: unknown) => {
+    setResolutions(previous => ({ ...previous, [conflict.key]: value }));
+    if (index < conflicts.length - 1) {
+      goTo(index + 1);
+    } else {
+      setEditText(null);
+    }
+  };
+
+  const handleStartEdit = () => {
+    const value = isResolved ? resolutions[conflict.key] : conflict.existing;
+    setEditText(
+      isTextField(conflict)
+        ? ((value as string | undefined) ?? '')
+        : JSON.stringify(value ?? null, null, 2)
+    );
+  };
+
+  const handleSaveEdit = () => {
+    if (editText === null) return;
+    if (isTextField(conflict)) {
+      resolve(editText);
+      return;
+    }
+
+    try {
+      resolve(JSON.parse(editText));
+    } catch {
+      Alert.alert('Invalid Value', 'Please enter valid JSON for this field.', [
+        { text: 'OK' },
+      ]);
+    }
+  };
+
+  const handleCommit = async () => {
+    setCommitting(true);
+    await createSnapshot('merge');
+    const success = await commitMergeReview(review, resolutions);
+    setCommitting(false);
+
+    if (!success) {
+      Alert.alert('Merge Failed', 'The merged data could not be saved.', [
+        { text: 'OK' },
+      ]);
+      return;
+    }
+
+    Alert.alert(
+      'Merge Complete',
+      `Merged ${review.added.length} new and ${review.entities.length} updated item(s), resolving ${conflicts.length} conflict(s).`,
+      [{ text: 'OK' }]
+    );
+    navigation.goBack();
+  };
+
+  const renderOption = (label: string, value: unknown) => {
+    const isSelected =
+      isResolved &&
+      JSON.stringify(resolutions[conflict.key]) === JSON.stringify(value);
+
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.optionCard, isSelected && styles.optionCardSelected]}
+        onPress={() => resolve(value)}
+      >
+        <Text style={styles.optionLabel}>{label}</Text>
+        <Text style={styles.optionValue}>{formatValue(value)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Review Merge</Text>
+        <Text style={styles.description}>
+          {review.added.length} new and {review.entities.length} changed item(s)
+          will be merged. Choose a value for every conflicting field; nothing is
+          saved until all conflicts are resolved.
+        </Text>
+
+        <View style={styles.section}>
+          <Text style={styles.progressText}>
+            Conflict {index + 1} of {conflicts.length} · {unresolvedCount}{' '}
+            unresolved
+          </Text>
+          <Text style={styles.sectionTitle}>
+            {`${ENTITY_LABELS[conflict.entityType]} "${conflict.entityName}"`}
+          </Text>
+          <Text style={styles.fieldName}>{conflict.field}</Text>
+
+          {renderOption('Existing', conflict.existing)}
+          {renderOption('Imported', conflict.imported)}
+          {conflict.hasAncestor ? (
+            renderOption('Common ancestor', conflict.ancestor)
+          ) : (
+            <Text style={styles.hintText}>
+              No common ancestor is known for this item.
+            </Text>
+          )}
+
+          {editText === null ? (
+            <TouchableOpacity
+              style={[styles.smallButton, styles.neutralButton]}
+              onPress={handleStartEdit}
+            >
+              <Text style={styles.smallButtonText}>Edit Value</Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TextInput
+                style={styles.input}
+                value={editText}
+                onChangeText={setEditText}
+                multiline={true}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.smallButton, styles.primaryButton]}
+                  onPress={handleSaveEdit}
+                >
+                  <Text style={styles.smallButtonText}>Use Edited Value</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.smallButton, styles.neutralButton]}
+                  onPress={() => setEditText(null)}
+                >
+                  <Text style={styles.smallButtonText}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+
+          <View style={[styles.buttonRow, styles.navigationRow]}>
+            <TouchableOpacity
+              style={[styles.smallButton, styles.neutralButton]}
+              onPress={() => goTo(index - 1)}
+              disabled={index === 0}
+            >
+              <Text style={styles.smallButtonText}>Previous</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, styles.neutralButton]}
+              onPress={() => goTo(index + 1)}
+              disabled={index === conflicts.length - 1}
+            >
+              <Text style={styles.smallButtonText}>Next</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[
+            styles.actionButton,
+            styles.commitButton,
+            (unresolvedCount > 0 || committing) && styles.disabledButton,
+          ]}
+          onPress={handleCommit}
+          disabled={unresolvedCount > 0 || committing}
+        >
+          <Text style={styles.buttonText}>
+            {unresolvedCount > 0
+              ? `Resolve ${unresolvedCount} more conflict(s)`
+              : 'Apply Merge'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.cancelButton]}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.buttonText}>Cancel Merge</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  section: commonStyles.layout.section,
+  sectionTitle: {
+    ...commonStyles.text.h2,
+    marginBottom: 4,
+  },
+  progressText: {
+    ...commonStyles.text.caption,
+    marginBottom: 8,
+  },
+  fieldName: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  hintText: {
+    ...commonStyles.text.caption,
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
+  optionCard: {
+    ...commonStyles.card.base,
+    marginBottom: 12,
+  },
+  optionCardSelected: {
+    borderColor: themeColors.accent.primary,
+    borderWidth: 2,
+  },
+  optionLabel: {
+    ...commonStyles.text.caption,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  optionValue: commonStyles.text.body,
+  input: {
+    backgroundColor: themeColors.elevated,
+    borderColor: themeColors.border,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: themeColors.text.primary,
+    marginBottom: 12,
+    minHeight: 80,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  navigationRow: {
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignSelf: 'flex-start',
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  neutralButton: {
+    backgroundColor: themeColors.elevated,
+    borderWidth: 1,
+    borderColor: themeColors.border,
+  },
+  actionButton: commonStyles.button.base,
+  commitButton: {
+    ...commonStyles.button.primary,
+    marginBottom: 12,
+  },
+  cancelButton: commonStyles.button.secondary,
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: commonStyles.button.text,
+});
@@ -0,0 +1,219 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Text,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '@/navigation/types';
+import { fixRelationshipIssues, loadCharacters } from '@utils/characterStorage';
+import {
+  describeReciprocityFix,
+  findReciprocityIssues,
+  ReciprocityIssue,
+  ReciprocityIssueType,
+  RECIPROCITY_ISSUE_LABELS,
+} from '@utils/relationshipReciprocity';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+type NavigationProp = StackNavigationProp<RootStackParamList>;
+
+const ISSUE_TYPES: ReciprocityIssueType[] = [
+  'one-sided',
+  'mismatched',
+  'dangling',
+];
+
+const FIX_ALL_LABELS: Record<ReciprocityIssueType, string> = {
+  'one-sided': 'Add All Reciprocal Entries',
+  mismatched: 'Align All Standings',
+  dangling: 'Clean All References',
+};
+
+export const RelationshipCheckScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const [issues, setIssues] = useState<ReciprocityIssue[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const loadData = useCallback(async () => {
+    const characters = await loadCharacters();
+    setIssues(
+      findReciprocityIssues(
+        [...characters].sort((a, b) => a.name.localeCompare(b.name))
+      )
+    );
+    setLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const confirmFix = (message: string): Promise<boolean> => {
+    if (Platform.OS === 'web') {
+      return Promise.resolve(window.confirm(message));
+    }
+    return new Promise<boolean>(resolve => {
+      Alert.alert('Fix Relationships', message, [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Fix', onPress: () => resolve(true) },
+      ]);
+    });
+  };
+
+  const handleFix = async (toFix: ReciprocityIssue[]) => {
+    const message =
+      toFix.length === 1
+        ? `${describeReciprocityFix(toFix[0])}?`
+        : `Fix ${toFix.length} relationship issues? One undo reverts them all.`;
+    if (!(await confirmFix(message))) return;
+    await fixRelationshipIssues(toFix);
+    await loadData();
+  };
+
+  const renderIssue = (issue: ReciprocityIssue) => (
+    <View key={issue.key} style={styles.issueCard}>
+      <TouchableOpacity
+        onPress={() =>
+          navigation.navigate('CharacterDetail', { character: issue.character })
+        }
+      >
+        <Text style={styles.characterName}>
+          {issue.character.name} → {issue.relationship.characterName}
+        </Text>
+      </TouchableOpacity>
+      <Text style={styles.issueDetails}>
+        {issue.type === 'mismatched'
+          ? `${issue.relationship.relationshipType}, but ${issue.target.name} says ${issue.reverse.relationshipType}`
+          : issue.type === 'one-sided'
+            ? `${issue.relationship.relationshipType}, but ${issue.target.name} has no relationship back`
+            : `${issue.relationship.relationshipType}, but this character no longer exists`}
+      </Text>
+      <View style={styles.fixRow}>
+        <Text style={styles.fixText}>{describeReciprocityFix(issue)}</Text>
+        <TouchableOpacity
+          style={[styles.smallButton, styles.primaryButton]}
+          onPress={() => handleFix([issue])}
+        >
+          <Text style={styles.smallButtonText}>Fix</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Relationship Check</Text>
+        <Text style={styles.description}>
+          Relationships that only one side records, pairs whose standings point
+          opposite ways, and links to characters that no longer exist.
+        </Text>
+
+        {loading ? null : issues.length === 0 ? (
+          <Text style={styles.emptyText}>
+            All relationships are reciprocal.
+          </Text>
+        ) : (
+          ISSUE_TYPES.map(type => {
+            const ofType = issues.filter(issue => issue.type === type);
+            if (ofType.length === 0) return null;
+            return (
+              <View key={type} style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {RECIPROCITY_ISSUE_LABELS[type]} ({ofType.length})
+                </Text>
+                {ofType.length > 1 && (
+                  <TouchableOpacity
+                    style={styles.fixAllButton}
+                    onPress={() => handleFix(ofType)}
+                  >
+                    <Text style={styles.fixAllButtonText}>
+                      {FIX_ALL_LABELS[type]}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                {ofType.map(renderIssue)}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  section: commonStyles.layout.section,
+  sectionTitle: {
+    ...commonStyles.text.h2,
+    marginBottom: 12,
+  },
+  emptyText: {
+    ...commonStyles.text.body,
+    color: themeColors.accent.success,
+  },
+  fixAllButton: {
+    ...commonStyles.button.base,
+    ...commonStyles.button.primary,
+    marginBottom: 12,
+  },
+  fixAllButtonText: commonStyles.button.text,
+  issueCard: {
+    ...commonStyles.card.base,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: themeColors.accent.warning,
+  },
+  characterName: {
+    ...commonStyles.text.h3,
+    marginBottom: 4,
+  },
+  issueDetails: {
+    ...commonStyles.text.body,
+    color: themeColors.accent.warning,
+    marginBottom: 8,
+  },
+  fixRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fixText: {
+    ...commonStyles.text.caption,
+    flex: 1,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+});
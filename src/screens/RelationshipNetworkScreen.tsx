@@ -0,0 +1,441 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Dimensions,
+} from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import {
+  RouteProp,
+  useFocusEffect,
+  useNavigation,
+  useRoute,
+} from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { GestureDetector, Gesture } from 'react-native-gesture-handler';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withTiming,
+} from 'react-native-reanimated';
+import Svg, { Circle, G, Line, Rect, Text as SvgText } from 'react-native-svg';
+import { RootStackParamList } from '@/navigation/types';
+import { GameCharacter, RelationshipStanding } from '@models/types';
+import { loadCharacters, loadFactions } from '@utils/characterStorage';
+import {
+  buildRelationshipGraph,
+  characterNodeId,
+  GraphEdge,
+  GraphNode,
+} from '@utils/relationshipGraph';
+import {
+  DEFAULT_NETWORK_FILTER,
+  filterRelationshipGraph,
+  layoutRelationshipGraph,
+  NetworkFilter,
+  NodePosition,
+} from '@utils/networkLayout';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+type NavigationProp = StackNavigationProp<RootStackParamList>;
+type NetworkRouteProp = RouteProp<RootStackParamList, 'RelationshipNetwork'>;
+
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+const CANVAS_WIDTH = screenWidth;
+const CANVAS_HEIGHT = Math.max(screenHeight - 320, 320);
+const NODE_RADIUS = 10;
+// Shifts each relationship line sideways so both halves of a mutual
+// relationship stay visible
+const EDGE_OFFSET = 2;
+
+const STANDING_COLORS: Record<RelationshipStanding, string> = {
+  [RelationshipStanding.Ally]: themeColors.standing.allied,
+  [RelationshipStanding.Friend]: themeColors.standing.friendly,
+  [RelationshipStanding.Neutral]: themeColors.standing.neutral,
+  [RelationshipStanding.Hostile]: themeColors.standing.hostile,
+  [RelationshipStanding.Enemy]: themeColors.standing.enemy,
+};
+
+export const RelationshipNetworkScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<NetworkRouteProp>();
+  const focusCharacterId = route.params?.focusCharacterId;
+  const [characters, setCharacters] = useState<GameCharacter[]>([]);
+  const [retiredFactionNames, setRetiredFactionNames] = useState<Set<string>>(
+    new Set()
+  );
+  const [filter, setFilter] = useState<NetworkFilter>({
+    ...DEFAULT_NETWORK_FILTER,
+    focusNodeId: focusCharacterId
+      ? characterNodeId({ id: focusCharacterId })
+      : undefined,
+  });
+
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const loadData = useCallback(async () => {
+    const [loadedCharacters, factions] = await Promise.all([
+      loadCharacters(),
+      loadFactions(),
+    ]);
+    setCharacters(loadedCharacters);
+    setRetiredFactionNames(
+      new Set(factions.filter(f => f.retired).map(f => f.name))
+    );
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const fullGraph = useMemo(
+    () => buildRelationshipGraph(characters),
+    [characters]
+  );
+  const graph = useMemo(
+    () => filterRelationshipGraph(fullGraph, filter, retiredFactionNames),
+    [fullGraph, filter, retiredFactionNames]
+  );
+  const positions = useMemo(
+    () =>
+      layoutRelationshipGraph(
+        graph,
+        CANVAS_WIDTH,
+        CANVAS_HEIGHT,
+        filter.focusNodeId
+      ),
+    [graph, filter.focusNodeId]
+  );
+
+  const factionNames = Array.from(fullGraph.nodes.values())
+    .filter(node => node.kind === 'faction')
+    .map(node => node.label)
+    .sort((a, b) => a.localeCompare(b));
+  const sortedCharacters = [...characters].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  const updateFilter = (changes: Partial<NetworkFilter>) =>
+    setFilter(prev => ({ ...prev, ...changes }));
+
+  const pinchGesture = Gesture.Pinch()
+    .onUpdate(e => {
+      scale.value = savedScale.value * e.scale;
+    })
+    .onEnd(() => {
+      // Constrain scale between 0.5 and 4
+      if (scale.value < 0.5) {
+        scale.value = withTiming(0.5);
+      } else if (scale.value > 4) {
+        scale.value = withTiming(4);
+      }
+      savedScale.value = scale.value;
+    });
+
+  const panGesture = Gesture.Pan()
+    .onUpdate(e => {
+      translateX.value = savedTranslateX.value + e.translationX;
+      translateY.value = savedTranslateY.value + e.translationY;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      // Back to the whole diagram
+      scale.value = withTiming(1);
+      savedScale.value = 1;
+      translateX.value = withTiming(0);
+      translateY.value = withTiming(0);
+      savedTranslateX.value = 0;
+      savedTranslateY.value = 0;
+    });
+
+  const composedGesture = Gesture.Simultaneous(
+    doubleTap,
+    Gesture.Simultaneous(pinchGesture, panGesture)
+  );
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  const handleNodePress = (node: GraphNode) => {
+    if (node.character) {
+      navigation.navigate('CharacterDetail', { character: node.character });
+    } else {
+      navigation.navigate('FactionDetails', { factionName: node.label });
+    }
+  };
+
+  const renderEdge = (edge: GraphEdge, index: number) => {
+    const from = positions.get(edge.from);
+    const to = positions.get(edge.to);
+    if (!from || !to) return null;
+
+    if (edge.kind === 'membership') {
+      return (
+        <Line
+          key={index}
+          x1={from.x}
+          y1={from.y}
+          x2={to.x}
+          y2={to.y}
+          stroke={STANDING_COLORS[edge.standing]}
+          strokeWidth={1}
+          strokeDasharray="4,3"
+          strokeOpacity={0.7}
+        />
+      );
+    }
+
+    const length = Math.max(Math.hypot(to.x - from.x, to.y - from.y), 0.01);
+    const offsetX = (-(to.y - from.y) / length) * EDGE_OFFSET;
+    const offsetY = ((to.x - from.x) / length) * EDGE_OFFSET;
+    return (
+      <Line
+        key={index}
+        x1={from.x + offsetX}
+        y1={from.y + offsetY}
+        x2={to.x + offsetX}
+        y2={to.y + offsetY}
+        stroke={STANDING_COLORS[edge.standing]}
+        strokeWidth={2}
+      />
+    );
+  };
+
+  const renderNode = (node: GraphNode, position: NodePosition) => {
+    const isFocus = node.id === filter.focusNodeId;
+    return (
+      <G key={node.id} onPress={() => handleNodePress(node)}>
+        {node.kind === 'faction' ? (
+          <Rect
+            x={position.x - NODE_RADIUS}
+            y={position.y - NODE_RADIUS}
+            width={NODE_RADIUS * 2}
+            height={NODE_RADIUS * 2}
+            rx={4}
+            fill={themeColors.accent.secondary}
+          />
+        ) : (
+          <Circle
+            cx={position.x}
+            cy={position.y}
+            r={isFocus ? NODE_RADIUS + 4 : NODE_RADIUS}
+            fill={
+              node.character?.present
+                ? themeColors.status.present
+                : themeColors.surface
+            }
+            stroke={
+              isFocus ? themeColors.status.warning : themeColors.accent.primary
+            }
+            strokeWidth={2}
+          />
+        )}
+        <SvgText
+          x={position.x}
+          y={position.y + NODE_RADIUS + 12}
+          fontSize={10}
+          fill={themeColors.text.primary}
+          textAnchor="middle"
+        >
+          {node.label}
+        </SvgText>
+      </G>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        <View style={styles.pickerRow}>
+          <Picker
+            selectedValue={filter.factionName ?? ''}
+            style={styles.picker}
+            onValueChange={value =>
+              updateFilter({ factionName: value || undefined })
+            }
+          >
+            <Picker.Item label="All Factions" value="" />
+            {factionNames.map(name => (
+              <Picker.Item key={name} label={name} value={name} />
+            ))}
+          </Picker>
+          <Picker
+            selectedValue={filter.focusNodeId ?? ''}
+            style={styles.picker}
+            onValueChange={value =>
+              updateFilter({ focusNodeId: value || undefined })
+            }
+          >
+            <Picker.Item label="Everyone" value="" />
+            {sortedCharacters.map(character => (
+              <Picker.Item
+                key={character.id}
+                label={`Around ${character.name}`}
+                value={characterNodeId(character)}
+              />
+            ))}
+          </Picker>
+        </View>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[styles.chip, filter.presentOnly && styles.chipActive]}
+            onPress={() => updateFilter({ presentOnly: !filter.presentOnly })}
+          >
+            <Text style={styles.chipText}>Present Only</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.chip, filter.includeRetired && styles.chipActive]}
+            onPress={() =>
+              updateFilter({ includeRetired: !filter.includeRetired })
+            }
+          >
+            <Text style={styles.chipText}>Show Retired</Text>
+          </TouchableOpacity>
+          {filter.focusNodeId &&
+            [1, 2].map(depth => (
+              <TouchableOpacity
+                key={depth}
+                style={[
+                  styles.chip,
+                  filter.egoDepth === depth && styles.chipActive,
+                ]}
+                onPress={() => updateFilter({ egoDepth: depth })}
+              >
+                <Text style={styles.chipText}>
+                  {depth} {depth === 1 ? 'hop' : 'hops'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+        </View>
+      </View>
+
+      <GestureDetector gesture={composedGesture}>
+        <Animated.View style={styles.canvas}>
+          {graph.nodes.size === 0 ? (
+            <Text style={styles.emptyText}>
+              No characters match these filters
+            </Text>
+          ) : (
+            <Animated.View style={animatedStyle}>
+              <Svg width={CANVAS_WIDTH} height={CANVAS_HEIGHT}>
+                {graph.edges.map(renderEdge)}
+                {Array.from(graph.nodes.values()).map(node => {
+                  const position = positions.get(node.id);
+                  return position ? renderNode(node, position) : null;
+                })}
+              </Svg>
+            </Animated.View>
+          )}
+        </Animated.View>
+      </GestureDetector>
+
+      <View style={styles.legend}>
+        {Object.values(RelationshipStanding).map(standing => (
+          <View key={standing} style={styles.legendItem}>
+            <View
+              style={[
+                styles.legendSwatch,
+                { backgroundColor: STANDING_COLORS[standing] },
+              ]}
+            />
+            <Text style={styles.legendText}>{standing}</Text>
+          </View>
+        ))}
+        <Text style={styles.legendText}>
+          ● character · ■ faction · dashed: membership
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: themeColors.primary,
+  },
+  filters: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: themeColors.border,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  picker: {
+    ...commonStyles.input.picker,
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  chip: {
+    backgroundColor: themeColors.elevated,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  chipActive: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  chipText: {
+    ...commonStyles.text.caption,
+    color: themeColors.text.primary,
+    fontWeight: '600',
+  },
+  canvas: {
+    flex: 1,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    ...commonStyles.text.body,
+    color: themeColors.text.secondary,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderTopWidth: 1,
+    borderTopColor: themeColors.border,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 3,
+    borderRadius: 2,
+  },
+  legendText: commonStyles.text.caption,
+});
@@ -0,0 +1,249 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Platform,
+  ScrollView,
+  Text,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { DEFAULT_RULES_PACK, RulesPack } from '@models/gameData';
+import {
+  deleteRulesPack,
+  getActiveRulesPack,
+  loadRulesPacks,
+  setCampaignRulesPack,
+} from '@utils/rulesPackStorage';
+import { getActiveCampaign } from '@utils/campaignStorage';
+import { importRulesPackFile } from '@utils/exportImport';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+export const RulesPacksScreen: React.FC = () => {
+  const [packs, setPacks] = useState<RulesPack[]>([]);
+  const [activePackId, setActivePackId] = useState<string>(
+    getActiveRulesPack().id
+  );
+
+  const loadData = useCallback(async () => {
+    const allPacks = await loadRulesPacks();
+    setPacks(allPacks);
+    setActivePackId(getActiveRulesPack().id);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const confirmAction = (title: string, message: string, action: string) => {
+    if (Platform.OS === 'web') {
+      return Promise.resolve(window.confirm(message));
+    }
+    return new Promise<boolean>(resolve => {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: action, style: 'destructive', onPress: () => resolve(true) },
+      ]);
+    });
+  };
+
+  const handleUse = async (pack: RulesPack) => {
+    if (pack.id === activePackId) return;
+    await setCampaignRulesPack(pack.id);
+  };
+
+  const handleImport = async () => {
+    const result = await importRulesPackFile();
+    if (!result) return;
+
+    if (!result.pack) {
+      // Long packs can have many problems; the first few are enough to act on
+      const shown = result.errors.slice(0, 8);
+      const more = result.errors.length - shown.length;
+      Alert.alert(
+        'Invalid Rules Pack',
+        [...shown, ...(more > 0 ? [`…and ${more} more`] : [])].join('\n'),
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Rules Pack Installed',
+      `${result.pack.name} ${result.pack.version} is now available to all campaigns.`,
+      [{ text: 'OK' }]
+    );
+    await loadData();
+  };
+
+  const handleDelete = async (pack: RulesPack) => {
+    const shouldDelete = await confirmAction(
+      'Delete Rules Pack',
+      `Are you sure you want to delete "${pack.name}"? Campaigns using it switch back to ${DEFAULT_RULES_PACK.name}. Their characters are kept.`,
+      'Delete'
+    );
+    if (!shouldDelete) return;
+
+    await deleteRulesPack(pack.id);
+    await loadData();
+  };
+
+  const renderPack = (pack: RulesPack) => {
+    const isActive = pack.id === activePackId;
+
+    return (
+      <View
+        key={pack.id}
+        style={[styles.packCard, isActive && styles.packCardActive]}
+      >
+        <View style={styles.packHeader}>
+          <Text style={styles.packName}>{pack.name}</Text>
+          {isActive && <Text style={styles.activeBadge}>In Use</Text>}
+        </View>
+        <Text style={styles.packDetails}>
+          Version {pack.version} · {Object.keys(pack.species).length} species ·{' '}
+          {pack.perks.length} perks · {pack.distinctions.length} distinctions ·{' '}
+          {pack.recipes.length} recipes · {pack.cyberware?.length ?? 0}{' '}
+          cyberware
+        </Text>
+        {!!pack.description && (
+          <Text style={styles.packDescription}>{pack.description}</Text>
+        )}
+
+        <View style={styles.packActions}>
+          {!isActive && (
+            <TouchableOpacity
+              style={[styles.smallButton, styles.primaryButton]}
+              onPress={() => handleUse(pack)}
+            >
+              <Text style={styles.smallButtonText}>Use in Campaign</Text>
+            </TouchableOpacity>
+          )}
+          {pack.id !== DEFAULT_RULES_PACK.id && (
+            <TouchableOpacity
+              style={[styles.smallButton, styles.dangerButton]}
+              onPress={() => handleDelete(pack)}
+            >
+              <Text style={styles.smallButtonText}>Delete</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Rules Packs</Text>
+        <Text style={styles.description}>
+          A rules pack defines the species, perks, tags, distinctions and
+          recipes characters are built from. Each campaign uses one pack; choose
+          the one for {getActiveCampaign().name}.
+        </Text>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Available Packs</Text>
+          {packs.map(renderPack)}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Install</Text>
+          <Text style={styles.sectionDescription}>
+            Installing a pack with the ID of an installed pack replaces it, e.g.
+            with a newer version.
+          </Text>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.importButton]}
+            onPress={handleImport}
+          >
+            <Text style={styles.buttonText}>Install Pack from JSON File</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  section: commonStyles.layout.section,
+  sectionTitle: {
+    ...commonStyles.text.h2,
+    marginBottom: 12,
+  },
+  sectionDescription: {
+    ...commonStyles.text.description,
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  packCard: {
+    ...commonStyles.card.base,
+    marginBottom: 12,
+  },
+  packCardActive: {
+    borderColor: themeColors.accent.primary,
+    borderWidth: 2,
+  },
+  packHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  packName: {
+    ...commonStyles.text.h3,
+    flex: 1,
+  },
+  activeBadge: {
+    ...commonStyles.text.caption,
+    color: themeColors.accent.success,
+    fontWeight: '600',
+  },
+  packDetails: {
+    ...commonStyles.text.caption,
+    marginBottom: 8,
+  },
+  packDescription: {
+    ...commonStyles.text.body,
+    marginBottom: 12,
+  },
+  packActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  dangerButton: {
+    backgroundColor: themeColors.accent.danger,
+  },
+  actionButton: commonStyles.button.base,
+  importButton: commonStyles.button.secondary,
+  buttonText: commonStyles.button.text,
+});
@@ -0,0 +1,419 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Platform,
+  ScrollView,
+  Text,
+  TextInput,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { GameCharacter } from '@models/types';
+import { loadCharacters } from '@utils/characterStorage';
+import { getActiveRulesPack } from '@utils/rulesPackStorage';
+import {
+  CharacterLiveState,
+  ConditionType,
+  addCondition,
+  adjustHealth,
+  adjustLimit,
+  getConditionDurationMultiplier,
+  getRemainingMinutes,
+  loadLiveStates,
+  recoverCharacter,
+  removeCondition,
+  restCharacter,
+  startNewSession,
+  subscribeToLiveStateChanges,
+} from '@utils/liveStateStorage';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+// How often remaining condition times are refreshed
+const TICK_MS = 30 * 1000;
+
+interface ConditionDraft {
+  characterId: string;
+  type: ConditionType;
+  name: string;
+  minutes: string;
+}
+
+export const SessionDashboardScreen: React.FC = () => {
+  const rulesPack = getActiveRulesPack();
+  const [characters, setCharacters] = useState<GameCharacter[]>([]);
+  const [states, setStates] = useState<CharacterLiveState[]>([]);
+  const [draft, setDraft] = useState<ConditionDraft | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  const loadData = useCallback(async () => {
+    const present = (await loadCharacters())
+      .filter(c => c.present === true && !c.retired)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    setCharacters(present);
+    setStates(await loadLiveStates(present));
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  useEffect(() => subscribeToLiveStateChanges(loadData), [loadData]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const confirmAction = (title: string, message: string, action: string) => {
+    if (Platform.OS === 'web') {
+      return Promise.resolve(window.confirm(message));
+    }
+    return new Promise<boolean>(resolve => {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: action, style: 'destructive', onPress: () => resolve(true) },
+      ]);
+    });
+  };
+
+  const handleNewSession = async () => {
+    const shouldReset = await confirmAction(
+      'New Session',
+      'Start a new session? Every character returns to full health and limit, and all injuries and malfunctions are cleared.',
+      'Start'
+    );
+    if (shouldReset) await startNewSession();
+  };
+
+  const handleAddCondition = async (character: GameCharacter) => {
+    if (!draft) return;
+    const result = await addCondition(
+      character,
+      draft.type,
+      draft.name,
+      Number(draft.minutes)
+    );
+    if (result.errors.length > 0) {
+      Alert.alert('Cannot Add', result.errors.join('\n'));
+      return;
+    }
+    setDraft(null);
+  };
+
+  const renderCounter = (
+    label: string,
+    value: number,
+    max: number,
+    onChange: (delta: number) => void
+  ) => (
+    <View style={styles.counter}>
+      <Text style={styles.counterLabel}>{label}</Text>
+      <TouchableOpacity
+        style={styles.counterButton}
+        onPress={() => onChange(-1)}
+      >
+        <Text style={styles.counterButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text
+        style={[styles.counterValue, value === 0 && styles.counterValueEmpty]}
+      >
+        {value}/{max}
+      </Text>
+      <TouchableOpacity
+        style={styles.counterButton}
+        onPress={() => onChange(1)}
+      >
+        <Text style={styles.counterButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderDraft = (character: GameCharacter) => {
+    if (!draft || draft.characterId !== character.id) return null;
+    const multiplier = getConditionDurationMultiplier(character, rulesPack);
+
+    return (
+      <View style={styles.draft}>
+        <TextInput
+          style={styles.input}
+          value={draft.name}
+          onChangeText={name => setDraft({ ...draft, name })}
+          placeholder={
+            draft.type === 'injury' ? 'Injury, e.g. Broken Arm' : 'Malfunction'
+          }
+        />
+        <TextInput
+          style={styles.input}
+          value={draft.minutes}
+          onChangeText={minutes => setDraft({ ...draft, minutes })}
+          placeholder="Duration (minutes)"
+          keyboardType="number-pad"
+        />
+        {multiplier !== 1 && (
+          <Text style={styles.hint}>
+            Durations are multiplied by {multiplier} for {character.name}.
+          </Text>
+        )}
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.smallButton, styles.primaryButton]}
+            onPress={() => handleAddCondition(character)}
+          >
+            <Text style={styles.smallButtonText}>Add</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallButton, styles.neutralButton]}
+            onPress={() => setDraft(null)}
+          >
+            <Text style={styles.smallButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderCharacter = (character: GameCharacter) => {
+    const state = states.find(s => s.characterId === character.id);
+    if (!state) return null;
+    const speciesStats = rulesPack.species[character.species];
+
+    return (
+      <View key={character.id} style={styles.card}>
+        <Text style={styles.characterName}>{character.name}</Text>
+        <Text style={styles.characterDetails}>{character.species}</Text>
+
+        {renderCounter('Health', state.health, state.maxHealth, delta =>
+          adjustHealth(character, delta)
+        )}
+        {renderCounter('Limit', state.limit, state.maxLimit, delta =>
+          adjustLimit(character, delta)
+        )}
+
+        {state.conditions.map(condition => {
+          const remaining = getRemainingMinutes(condition, now);
+          return (
+            <View key={condition.id} style={styles.condition}>
+              <Text style={styles.conditionText}>
+                {condition.type === 'injury' ? '🩹' : '⚙️'} {condition.name}
+              </Text>
+              <Text
+                style={[
+                  styles.conditionTime,
+                  remaining === 0 && styles.conditionTimeDone,
+                ]}
+              >
+                {remaining === 0 ? 'Run out' : `${remaining} min left`}
+              </Text>
+              <TouchableOpacity
+                onPress={() => removeCondition(character, condition.id)}
+              >
+                <Text style={styles.clearText}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+
+        {renderDraft(character)}
+
+        <View style={styles.actions}>
+          {speciesStats?.canTakeInjuries && (
+            <TouchableOpacity
+              style={[styles.smallButton, styles.dangerButton]}
+              onPress={() =>
+                setDraft({
+                  characterId: character.id,
+                  type: 'injury',
+                  name: '',
+                  minutes: '',
+                })
+              }
+            >
+              <Text style={styles.smallButtonText}>Injury</Text>
+            </TouchableOpacity>
+          )}
+          {speciesStats?.canTakeMalfunctions && (
+            <TouchableOpacity
+              style={[styles.smallButton, styles.dangerButton]}
+              onPress={() =>
+                setDraft({
+                  characterId: character.id,
+                  type: 'malfunction',
+                  name: '',
+                  minutes: '',
+                })
+              }
+            >
+              <Text style={styles.smallButtonText}>Malfunction</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.smallButton, styles.neutralButton]}
+            onPress={() => restCharacter(character)}
+          >
+            <Text style={styles.smallButtonText}>Rest</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallButton, styles.neutralButton]}
+            onPress={() => recoverCharacter(character)}
+          >
+            <Text style={styles.smallButtonText}>Full Recovery</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Session Dashboard</Text>
+        <Text style={styles.description}>
+          Current health, limit, injuries and malfunctions of the characters
+          marked present. Rest recovers limit and clears conditions that have
+          run out.
+        </Text>
+
+        {characters.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No characters are marked present. Mark characters present in the
+            character list to track them here.
+          </Text>
+        ) : (
+          characters.map(renderCharacter)
+        )}
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.resetButton]}
+          onPress={handleNewSession}
+        >
+          <Text style={styles.buttonText}>Start New Session</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  emptyText: {
+    ...commonStyles.text.body,
+    fontStyle: 'italic',
+    marginBottom: 24,
+  },
+  card: {
+    ...commonStyles.card.base,
+    marginBottom: 12,
+  },
+  characterName: commonStyles.text.h3,
+  characterDetails: {
+    ...commonStyles.text.caption,
+    marginBottom: 8,
+  },
+  counter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 4,
+  },
+  counterLabel: {
+    ...commonStyles.text.body,
+    width: 64,
+  },
+  counterButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: themeColors.elevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  counterButtonText: {
+    ...commonStyles.text.h3,
+  },
+  counterValue: {
+    ...commonStyles.text.h3,
+    minWidth: 64,
+    textAlign: 'center',
+  },
+  counterValueEmpty: {
+    color: themeColors.accent.danger,
+  },
+  condition: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: themeColors.border,
+    gap: 8,
+  },
+  conditionText: {
+    ...commonStyles.text.body,
+    flex: 1,
+  },
+  conditionTime: commonStyles.text.caption,
+  conditionTimeDone: {
+    color: themeColors.accent.success,
+  },
+  clearText: {
+    ...commonStyles.text.body,
+    color: themeColors.accent.primary,
+    fontWeight: '600',
+  },
+  draft: {
+    marginTop: 8,
+  },
+  input: {
+    ...commonStyles.input.base,
+    marginVertical: 4,
+  },
+  hint: {
+    ...commonStyles.text.caption,
+    color: themeColors.accent.warning,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  neutralButton: {
+    backgroundColor: themeColors.elevated,
+  },
+  dangerButton: {
+    backgroundColor: themeColors.accent.danger,
+  },
+  actionButton: {
+    ...commonStyles.button.base,
+    marginTop: 24,
+  },
+  resetButton: commonStyles.button.warning,
+  buttonText: commonStyles.button.text,
+});
@@ -0,0 +1,297 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Platform,
+  ScrollView,
+  Text,
+  TextInput,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { restoreFromTrash } from '@utils/characterStorage';
+import {
+  TrashItem,
+  emptyTrash,
+  getTrashRetentionDays,
+  loadTrashItems,
+  purgeTrashItem,
+  setTrashRetentionDays,
+} from '@utils/trashStorage';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+const ENTITY_LABELS: Record<TrashItem['entityType'], string> = {
+  character: 'Character',
+  faction: 'Faction',
+  location: 'Location',
+  event: 'Event',
+};
+
+export const TrashScreen: React.FC = () => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionInput, setRetentionInput] = useState<string>('');
+
+  const loadData = useCallback(async () => {
+    setItems(await loadTrashItems());
+    setRetentionInput(String(await getTrashRetentionDays()));
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const confirmAction = (title: string, message: string, action: string) => {
+    if (Platform.OS === 'web') {
+      return Promise.resolve(window.confirm(message));
+    }
+    return new Promise<boolean>(resolve => {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: action, style: 'destructive', onPress: () => resolve(true) },
+      ]);
+    });
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    const result = await restoreFromTrash(item.id);
+    if (!result.success) {
+      Alert.alert(
+        'Error',
+        item.entityType === 'faction'
+          ? `Could not restore "${item.entityName}". Another faction may already use that name.`
+          : `Could not restore "${item.entityName}".`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    const message =
+      result.charactersUpdated > 0
+        ? `"${item.entityName}" has been restored and reattached to ${result.charactersUpdated} character(s).`
+        : `"${item.entityName}" has been restored.`;
+    Alert.alert('Restored', message, [{ text: 'OK' }]);
+    await loadData();
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    const shouldPurge = await confirmAction(
+      'Delete Permanently',
+      `Are you sure you want to permanently delete "${item.entityName}"? This action cannot be undone.`,
+      'Delete'
+    );
+    if (!shouldPurge) return;
+
+    await purgeTrashItem(item.id);
+    await loadData();
+  };
+
+  const handleEmpty = async () => {
+    const shouldEmpty = await confirmAction(
+      'Empty Trash',
+      'Are you sure you want to permanently delete everything in the trash? This action cannot be undone.',
+      'Empty'
+    );
+    if (!shouldEmpty) return;
+
+    await emptyTrash();
+    await loadData();
+  };
+
+  const handleRetentionSave = async () => {
+    const saved = await setTrashRetentionDays(Number(retentionInput));
+    if (!saved) {
+      Alert.alert('Error', 'Please enter a whole number of days.', [
+        { text: 'OK' },
+      ]);
+      return;
+    }
+    await loadData();
+  };
+
+  const renderItem = (item: TrashItem) => {
+    const countCascaded = (entityType: TrashItem['entityType']) =>
+      item.cascadedChanges.filter(change => change.entityType === entityType)
+        .length;
+    const cascadedCharacters = countCascaded('character');
+    const cascadedFactions = countCascaded('faction');
+
+    return (
+      <View key={item.id} style={styles.itemCard}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemName}>{item.entityName}</Text>
+          <Text style={styles.itemType}>{ENTITY_LABELS[item.entityType]}</Text>
+        </View>
+        <Text style={styles.itemMeta}>
+          Deleted {new Date(item.deletedAt).toLocaleString()}
+        </Text>
+        {cascadedCharacters > 0 && (
+          <Text style={styles.itemMeta}>
+            Also removed from {cascadedCharacters} character(s)
+          </Text>
+        )}
+        {cascadedFactions > 0 && (
+          <Text style={styles.itemMeta}>
+            Also removed from the relationships of {cascadedFactions} faction(s)
+          </Text>
+        )}
+
+        <View style={styles.itemActions}>
+          <TouchableOpacity
+            style={[styles.smallButton, styles.primaryButton]}
+            onPress={() => handleRestore(item)}
+          >
+            <Text style={styles.smallButtonText}>Restore</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallButton, styles.dangerButton]}
+            onPress={() => handlePurge(item)}
+          >
+            <Text style={styles.smallButtonText}>Delete Permanently</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Trash</Text>
+        <Text style={styles.description}>
+          Deleted characters, factions, locations and events are kept here until
+          they expire. Restoring also puts back the faction memberships and
+          locations that were removed from characters.
+        </Text>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Deleted Items</Text>
+          {items.length === 0 ? (
+            <Text style={styles.emptyText}>The trash is empty</Text>
+          ) : (
+            <>
+              {items.map(renderItem)}
+              <TouchableOpacity
+                style={[styles.actionButton, styles.emptyButton]}
+                onPress={handleEmpty}
+              >
+                <Text style={styles.buttonText}>Empty Trash</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Retention</Text>
+          <Text style={styles.sectionDescription}>
+            Number of days deleted items are kept before they are permanently
+            removed.
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={retentionInput}
+            onChangeText={setRetentionInput}
+            placeholder="Days"
+            placeholderTextColor={themeColors.text.muted}
+            keyboardType="number-pad"
+          />
+          <TouchableOpacity
+            style={[styles.actionButton, styles.saveButton]}
+            onPress={handleRetentionSave}
+          >
+            <Text style={styles.buttonText}>Save Retention</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  section: commonStyles.layout.section,
+  sectionTitle: {
+    ...commonStyles.text.h2,
+    marginBottom: 12,
+  },
+  sectionDescription: {
+    ...commonStyles.text.description,
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  emptyText: {
+    ...commonStyles.text.caption,
+    fontStyle: 'italic',
+  },
+  itemCard: {
+    ...commonStyles.card.base,
+    marginBottom: 12,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  itemName: {
+    ...commonStyles.text.h3,
+    flex: 1,
+  },
+  itemType: {
+    ...commonStyles.text.caption,
+    fontWeight: '600',
+  },
+  itemMeta: {
+    ...commonStyles.text.caption,
+    marginBottom: 4,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  smallButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    color: themeColors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: themeColors.accent.primary,
+  },
+  dangerButton: {
+    backgroundColor: themeColors.accent.danger,
+  },
+  input: {
+    backgroundColor: themeColors.elevated,
+    borderColor: themeColors.border,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: themeColors.text.primary,
+    marginBottom: 12,
+  },
+  actionButton: commonStyles.button.base,
+  emptyButton: commonStyles.button.danger,
+  saveButton: commonStyles.button.secondary,
+  buttonText: commonStyles.button.text,
+});
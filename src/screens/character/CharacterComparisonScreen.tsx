@@ -0,0 +1,186 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, Text } from 'react-native';
+import { RouteProp, useFocusEffect, useRoute } from '@react-navigation/native';
+import { RootStackParamList } from '@/navigation/types';
+import { loadCharacters } from '@utils/characterStorage';
+import { getActiveRulesPack } from '@utils/rulesPackStorage';
+import {
+  CharacterComparison,
+  ComparedCharacter,
+  compareCharacters,
+} from '@utils/characterComparison';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+type ComparisonRouteProp = RouteProp<RootStackParamList, 'CharacterComparison'>;
+
+export const CharacterComparisonScreen: React.FC = () => {
+  const route = useRoute<ComparisonRouteProp>();
+  const { characterIds } = route.params;
+  const [comparison, setComparison] = useState<CharacterComparison | null>(
+    null
+  );
+
+  const loadData = useCallback(async () => {
+    const characters = await loadCharacters();
+    const selected = characterIds
+      .map(id => characters.find(c => c.id === id))
+      .filter(c => c !== undefined);
+    setComparison(compareCharacters(selected, getActiveRulesPack()));
+  }, [characterIds]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  if (!comparison) return null;
+
+  const renderList = (items: string[], emptyText: string) =>
+    items.length === 0 ? (
+      <Text style={styles.emptyText}>{emptyText}</Text>
+    ) : (
+      items.map((item, index) => (
+        <Text key={index} style={styles.value}>
+          {item}
+        </Text>
+      ))
+    );
+
+  const renderColumn = (entry: ComparedCharacter) => (
+    <View key={entry.character.id} style={styles.column}>
+      <Text style={styles.characterName}>{entry.character.name}</Text>
+      <Text style={styles.species}>{entry.character.species}</Text>
+
+      <Text style={styles.label}>Stats</Text>
+      {entry.stats ? (
+        <>
+          <Text style={styles.value}>
+            Health {entry.stats.maxHealth} / {entry.stats.healthCap}
+          </Text>
+          <Text style={styles.value}>
+            Limit {entry.stats.maxLimit} / {entry.stats.limitCap}
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.emptyText}>
+          Unavailable: species not in the rules pack
+        </Text>
+      )}
+
+      {comparison.tags.length > 0 && (
+        <>
+          <Text style={styles.label}>Tag Scores</Text>
+          {comparison.tags.map(tag => {
+            const score = entry.tagScores[tag] ?? 0;
+            const best = Math.max(
+              ...comparison.characters.map(c => c.tagScores[tag] ?? 0)
+            );
+            return (
+              <Text
+                key={tag}
+                style={[
+                  styles.value,
+                  entry.stats && score === best && styles.bestValue,
+                ]}
+              >
+                {tag}: {entry.stats ? score : '—'}
+              </Text>
+            );
+          })}
+        </>
+      )}
+
+      <Text style={styles.label}>Perks</Text>
+      {renderList(entry.perkNames, 'No perks')}
+
+      <Text style={styles.label}>Distinctions</Text>
+      {renderList(entry.distinctionNames, 'No distinctions')}
+
+      <Text style={styles.label}>Cyberware</Text>
+      {renderList(entry.cyberwareNames, 'No cyberware')}
+
+      <Text style={styles.label}>Factions</Text>
+      {renderList(
+        entry.factions.map(f => `${f.name} (${f.standing})`),
+        'No factions'
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Compare Characters</Text>
+
+        <ScrollView horizontal style={styles.columns}>
+          {comparison.characters.map(renderColumn)}
+        </ScrollView>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>In Common</Text>
+          <Text style={styles.label}>Perks</Text>
+          {renderList(comparison.sharedPerkNames, 'No shared perks')}
+          <Text style={styles.label}>Factions</Text>
+          {renderList(comparison.sharedFactionNames, 'No shared factions')}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Mutual Relationships</Text>
+          {renderList(
+            comparison.mutualRelationships.map(
+              mutual =>
+                `${mutual.character1.name} (${mutual.relationship1}) ↔ ${mutual.character2.name} (${mutual.relationship2})`
+            ),
+            'None of these characters know each other.'
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: {
+    ...commonStyles.text.h1,
+    marginBottom: 16,
+  },
+  columns: {
+    marginBottom: 16,
+  },
+  column: {
+    ...commonStyles.card.base,
+    width: 220,
+    marginRight: 12,
+  },
+  characterName: commonStyles.text.h3,
+  species: {
+    ...commonStyles.text.caption,
+    marginBottom: 4,
+  },
+  section: commonStyles.layout.section,
+  sectionTitle: {
+    ...commonStyles.text.h2,
+    marginBottom: 4,
+  },
+  label: {
+    ...commonStyles.text.label,
+    marginTop: 12,
+  },
+  value: commonStyles.text.body,
+  bestValue: {
+    fontWeight: '600',
+    color: themeColors.accent.primary,
+  },
+  emptyText: {
+    ...commonStyles.text.caption,
+    color: themeColors.text.muted,
+  },
+});
@@ -17,11 +17,17 @@ import {
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '@/navigation/types';
 import {
-  AVAILABLE_PERKS,
-  AVAILABLE_DISTINCTIONS,
-  AVAILABLE_RECIPES,
-} from '@models/gameData';
-import { calculateDerivedStats } from '@/utils/derivedStats';
+  CharacterDerivedStats,
+  StatContribution,
+  StatSource,
+  calculateDerivedStats,
+} from '@/utils/derivedStats';
+import { getActiveRulesPack } from '@/utils/rulesPackStorage';
+import {
+  getCyberwareModifiers,
+  getCyberwareName,
+  isCyberwareInstalled,
+} from '@/utils/cyberwareCatalog';
 import { GameCharacter, GameLocation, DiscordMessage } from '@/models/types';
 import {
   loadCharacters,
@@ -31,7 +37,15 @@ import {
 import { getDiscordMessagesForCharacter } from '@/utils/discordStorage';
 import { colors as themeColors } from '@/styles/theme';
 import { commonStyles } from '@/styles/commonStyles';
-import { BaseDetailScreen, Section, CollapsibleSection } from '@/components';
+import {
+  BaseDetailScreen,
+  Section,
+  CollapsibleSection,
+  ChangeHistorySection,
+  ProgressionSection,
+  InventorySection,
+  SpeciesEvolutionSection,
+} from '@/components';
 
 type CharacterDetailRouteProp = RouteProp<
   RootStackParamList,
@@ -39,6 +53,15 @@ type CharacterDetailRouteProp = RouteProp<
 >;
 type CharacterDetailNavigationProp = StackNavigationProp<RootStackParamList>;
 
+const STAT_SOURCE_LABELS: Record<StatSource, string> = {
+  species: 'Species',
+  perk: 'Perk',
+  'tag-bonus': 'Tag bonus',
+  cyberware: 'Cyberware',
+  distinction: 'Distinction',
+  effect: 'Effect',
+};
+
 export const CharacterDetailScreen: React.FC = () => {
   // eslint-disable-next-line no-console
   console.log('[CharacterDetail] Component rendering...');
@@ -168,10 +191,12 @@ export const CharacterDetailScreen: React.FC = () => {
   // eslint-disable-next-line no-console
   console.log(`[CharacterDetail] Rendering character: ${character.name}`);
 
+  const rulesPack = getActiveRulesPack();
+
   // Calculate derived stats with error handling
-  let derivedStats;
+  let derivedStats: CharacterDerivedStats;
   try {
-    derivedStats = calculateDerivedStats(character);
+    derivedStats = calculateDerivedStats(character, rulesPack);
     // eslint-disable-next-line no-console
     console.log('[CharacterDetail] Derived stats calculated successfully');
   } catch (error) {
@@ -182,6 +207,11 @@ export const CharacterDetailScreen: React.FC = () => {
       maxHealth: 0,
       maxLimit: 0,
       tagScores: new Map(),
+      uncappedHealth: 0,
+      uncappedLimit: 0,
+      healthCap: 0,
+      limitCap: 0,
+      breakdown: [],
     };
   }
 
@@ -203,6 +233,54 @@ export const CharacterDetailScreen: React.FC = () => {
     );
   };
 
+  const describeContribution = (contribution: StatContribution): string => {
+    const parts: string[] = [];
+    const add = (value: number, label: string) => {
+      if (value) parts.push(`${value > 0 ? '+' : ''}${value} ${label}`);
+    };
+    add(contribution.health, 'health');
+    add(contribution.limit, 'limit');
+    add(contribution.healthCap, 'health cap');
+    add(contribution.limitCap, 'limit cap');
+    Object.entries(contribution.tagModifiers ?? {}).forEach(([tag, value]) =>
+      add(value, tag)
+    );
+    return parts.join(', ');
+  };
+
+  const renderStatBreakdown = () => {
+    if (derivedStats.breakdown.length === 0) return null;
+
+    return (
+      <CollapsibleSection title="Stat Breakdown" defaultCollapsed={true}>
+        {derivedStats.breakdown.map((contribution, index) => (
+          <View key={index} style={styles.breakdownRow}>
+            <Text style={styles.breakdownName}>
+              {contribution.name}
+              <Text style={styles.breakdownSource}>
+                {' '}
+                · {STAT_SOURCE_LABELS[contribution.source]}
+              </Text>
+            </Text>
+            <Text style={styles.breakdownValue}>
+              {contribution.source === 'species'
+                ? `${contribution.health} health (cap ${contribution.healthCap}), ${contribution.limit} limit (cap ${contribution.limitCap})`
+                : describeContribution(contribution)}
+            </Text>
+          </View>
+        ))}
+        <Text style={styles.breakdownTotal}>
+          Health {derivedStats.uncappedHealth}, capped at{' '}
+          {derivedStats.healthCap} → {derivedStats.maxHealth}
+        </Text>
+        <Text style={styles.breakdownTotal}>
+          Limit {derivedStats.uncappedLimit}, capped at {derivedStats.limitCap}{' '}
+          → {derivedStats.maxLimit}
+        </Text>
+      </CollapsibleSection>
+    );
+  };
+
   const renderPerks = () => {
     if (!character.perkIds || character.perkIds.length === 0) {
       return null;
@@ -210,41 +288,43 @@ export const CharacterDetailScreen: React.FC = () => {
 
     return (
       <CollapsibleSection title="Perks" defaultCollapsed={true}>
-        {AVAILABLE_PERKS.filter(perk =>
-          character.perkIds.includes(perk.id)
-        ).map(perk => (
-          <View key={perk.id} style={styles.itemContainer}>
-            <Text style={styles.titleText}>{perk.name}</Text>
-            <Text style={styles.descriptionText}>{perk.description}</Text>
-            {perk.recipeIds && perk.recipeIds.length > 0 && (
-              <View style={styles.recipesContainer}>
-                <Text style={styles.recipesTitle}>Known Recipes:</Text>
-                {perk.recipeIds.map(recipeId => {
-                  const recipe = AVAILABLE_RECIPES.find(r => r.id === recipeId);
-                  if (!recipe) return null;
-                  return (
-                    <View key={recipe.id} style={styles.recipeItem}>
-                      <View style={styles.recipeHeader}>
-                        <Text style={styles.recipeName}>{recipe.name}</Text>
-                      </View>
-                      <Text style={styles.recipeDescription}>
-                        {recipe.description}
-                      </Text>
-                      <Text style={styles.materialsTitle}>
-                        Materials Needed:
-                      </Text>
-                      {recipe.materials.map((material, index) => (
-                        <Text key={index} style={styles.materialItem}>
-                          • {material}
+        {rulesPack.perks
+          .filter(perk => character.perkIds.includes(perk.id))
+          .map(perk => (
+            <View key={perk.id} style={styles.itemContainer}>
+              <Text style={styles.titleText}>{perk.name}</Text>
+              <Text style={styles.descriptionText}>{perk.description}</Text>
+              {perk.recipeIds && perk.recipeIds.length > 0 && (
+                <View style={styles.recipesContainer}>
+                  <Text style={styles.recipesTitle}>Known Recipes:</Text>
+                  {perk.recipeIds.map(recipeId => {
+                    const recipe = rulesPack.recipes.find(
+                      r => r.id === recipeId
+                    );
+                    if (!recipe) return null;
+                    return (
+                      <View key={recipe.id} style={styles.recipeItem}>
+                        <View style={styles.recipeHeader}>
+                          <Text style={styles.recipeName}>{recipe.name}</Text>
+                        </View>
+                        <Text style={styles.recipeDescription}>
+                          {recipe.description}
                         </Text>
-                      ))}
-                    </View>
-                  );
-                })}
-              </View>
-            )}
-          </View>
-        ))}
+                        <Text style={styles.materialsTitle}>
+                          Materials Needed:
+                        </Text>
+                        {recipe.materials.map((material, index) => (
+                          <Text key={index} style={styles.materialItem}>
+                            • {material}
+                          </Text>
+                        ))}
+                      </View>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+          ))}
       </CollapsibleSection>
     );
   };
@@ -256,16 +336,18 @@ export const CharacterDetailScreen: React.FC = () => {
 
     return (
       <CollapsibleSection title="Distinctions" defaultCollapsed={true}>
-        {AVAILABLE_DISTINCTIONS.filter(distinction =>
-          character.distinctionIds.includes(distinction.id)
-        ).map(distinction => (
-          <View key={distinction.id} style={styles.itemContainer}>
-            <Text style={styles.titleText}>{distinction.name}</Text>
-            <Text style={styles.descriptionText}>
-              {distinction.description}
-            </Text>
-          </View>
-        ))}
+        {rulesPack.distinctions
+          .filter(distinction =>
+            character.distinctionIds.includes(distinction.id)
+          )
+          .map(distinction => (
+            <View key={distinction.id} style={styles.itemContainer}>
+              <Text style={styles.titleText}>{distinction.name}</Text>
+              <Text style={styles.descriptionText}>
+                {distinction.description}
+              </Text>
+            </View>
+          ))}
       </CollapsibleSection>
     );
   };
@@ -283,6 +365,11 @@ export const CharacterDetailScreen: React.FC = () => {
               <Text style={styles.titleText}>{faction.name}</Text>
               <Text style={styles.standingText}>{faction.standing}</Text>
             </View>
+            {(faction.rank || faction.role) && (
+              <Text style={styles.descriptionText}>
+                {[faction.rank, faction.role].filter(Boolean).join(' · ')}
+              </Text>
+            )}
           </View>
         ))}
       </CollapsibleSection>
@@ -342,6 +429,16 @@ export const CharacterDetailScreen: React.FC = () => {
             </TouchableOpacity>
           );
         })}
+        <TouchableOpacity
+          style={styles.viewContextButton}
+          onPress={() =>
+            navigation.navigate('RelationshipNetwork', {
+              focusCharacterId: character.id,
+            })
+          }
+        >
+          <Text style={styles.viewContextButtonText}>View Network</Text>
+        </TouchableOpacity>
       </CollapsibleSection>
     );
   };
@@ -353,52 +450,72 @@ export const CharacterDetailScreen: React.FC = () => {
 
     return (
       <Section title="Cyberware">
-        {character.cyberware.map((cyber, index) => (
-          <View key={index} style={styles.itemContainer}>
-            <Text style={styles.titleText}>{cyber.name}</Text>
-            <Text style={styles.descriptionText}>{cyber.description}</Text>
-            {cyber.statModifiers && (
-              <View style={styles.cyberwareModifiersContainer}>
-                <Text style={styles.cyberwareModifiersTitle}>
-                  Stat Modifiers:
+        {character.cyberware.map((cyber, index) => {
+          const statModifiers = getCyberwareModifiers(cyber, rulesPack);
+          const history = [
+            cyber.installedDate && `Installed ${cyber.installedDate}`,
+            cyber.removedDate && `Removed ${cyber.removedDate}`,
+          ].filter(Boolean);
+          return (
+            <View key={index} style={styles.itemContainer}>
+              <Text style={styles.titleText}>
+                {getCyberwareName(cyber, rulesPack)}
+                {!isCyberwareInstalled(cyber) && ' (removed)'}
+              </Text>
+              <Text style={styles.descriptionText}>{cyber.description}</Text>
+              {history.length > 0 && (
+                <Text style={styles.descriptionText}>
+                  {history.join(' · ')}
                 </Text>
-                {cyber.statModifiers.health !== undefined && (
-                  <Text style={styles.cyberwareModifier}>
-                    • Health: {cyber.statModifiers.health > 0 ? '+' : ''}
-                    {cyber.statModifiers.health}
-                  </Text>
-                )}
-                {cyber.statModifiers.limit !== undefined && (
-                  <Text style={styles.cyberwareModifier}>
-                    • Limit: {cyber.statModifiers.limit > 0 ? '+' : ''}
-                    {cyber.statModifiers.limit}
-                  </Text>
-                )}
-                {cyber.statModifiers.healthCap !== undefined && (
-                  <Text style={styles.cyberwareModifier}>
-                    • Health Cap: {cyber.statModifiers.healthCap > 0 ? '+' : ''}
-                    {cyber.statModifiers.healthCap}
-                  </Text>
-                )}
-                {cyber.statModifiers.limitCap !== undefined && (
-                  <Text style={styles.cyberwareModifier}>
-                    • Limit Cap: {cyber.statModifiers.limitCap > 0 ? '+' : ''}
-                    {cyber.statModifiers.limitCap}
+              )}
+              {cyber.malfunctioning && isCyberwareInstalled(cyber) && (
+                <Text style={styles.cyberwareMalfunction}>
+                  ⚠ Malfunctioning – its modifiers don't apply
+                </Text>
+              )}
+              {Object.keys(statModifiers).length > 0 && (
+                <View style={styles.cyberwareModifiersContainer}>
+                  <Text style={styles.cyberwareModifiersTitle}>
+                    Stat Modifiers:
                   </Text>
-                )}
-                {cyber.statModifiers.tagModifiers &&
-                  Object.entries(cyber.statModifiers.tagModifiers).map(
-                    ([tag, modifier]) => (
-                      <Text key={tag} style={styles.cyberwareModifier}>
-                        • {tag} Tag Score: {modifier > 0 ? '+' : ''}
-                        {modifier}
-                      </Text>
-                    )
+                  {statModifiers.health !== undefined && (
+                    <Text style={styles.cyberwareModifier}>
+                      • Health: {statModifiers.health > 0 ? '+' : ''}
+                      {statModifiers.health}
+                    </Text>
                   )}
-              </View>
-            )}
-          </View>
-        ))}
+                  {statModifiers.limit !== undefined && (
+                    <Text style={styles.cyberwareModifier}>
+                      • Limit: {statModifiers.limit > 0 ? '+' : ''}
+                      {statModifiers.limit}
+                    </Text>
+                  )}
+                  {statModifiers.healthCap !== undefined && (
+                    <Text style={styles.cyberwareModifier}>
+                      • Health Cap: {statModifiers.healthCap > 0 ? '+' : ''}
+                      {statModifiers.healthCap}
+                    </Text>
+                  )}
+                  {statModifiers.limitCap !== undefined && (
+                    <Text style={styles.cyberwareModifier}>
+                      • Limit Cap: {statModifiers.limitCap > 0 ? '+' : ''}
+                      {statModifiers.limitCap}
+                    </Text>
+                  )}
+                  {statModifiers.tagModifiers &&
+                    Object.entries(statModifiers.tagModifiers).map(
+                      ([tag, modifier]) => (
+                        <Text key={tag} style={styles.cyberwareModifier}>
+                          • {tag} Tag Score: {modifier > 0 ? '+' : ''}
+                          {modifier}
+                        </Text>
+                      )
+                    )}
+                </View>
+              )}
+            </View>
+          );
+        })}
       </Section>
     );
   };
@@ -477,20 +594,14 @@ export const CharacterDetailScreen: React.FC = () => {
       }}
     >
       <View style={styles.header}>
-        {((character.imageUris && character.imageUris.length > 0) ||
-          character.imageUri) && (
+        {character.imageUris && character.imageUris.length > 0 && (
           <ScrollView
             horizontal
             showsHorizontalScrollIndicator={false}
             style={styles.imageGallery}
             contentContainerStyle={styles.imageGalleryContent}
           >
-            {(character.imageUris && character.imageUris.length > 0
-              ? character.imageUris
-              : character.imageUri
-                ? [character.imageUri]
-                : []
-            ).map((uri, index) => (
+            {character.imageUris.map((uri, index) => (
               <View key={index} style={styles.imageContainer}>
                 <Image source={{ uri }} style={styles.characterImage} />
               </View>
@@ -526,6 +637,7 @@ export const CharacterDetailScreen: React.FC = () => {
         </View>
       </View>
       {renderTagScores()}
+      {renderStatBreakdown()}
       {renderPerks()}
       {renderDistinctions()}
       {renderCyberware()}
@@ -537,6 +649,22 @@ export const CharacterDetailScreen: React.FC = () => {
           <Text style={styles.notes}>{character.notes}</Text>
         </Section>
       )}
+      <InventorySection
+        owner={{ type: 'character', id: character.id, name: character.name }}
+      />
+      <ProgressionSection
+        character={character}
+        onCharacterChange={updated =>
+          navigation.setParams({ character: updated })
+        }
+      />
+      <SpeciesEvolutionSection
+        character={character}
+        onCharacterChange={updated =>
+          navigation.setParams({ character: updated })
+        }
+      />
+      <ChangeHistorySection entityType="character" entityId={character.id} />
     </BaseDetailScreen>
   );
 };
@@ -703,6 +831,34 @@ const styles = StyleSheet.create({
     ...commonStyles.text.description,
     lineHeight: 22,
   },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: themeColors.border,
+  },
+  breakdownName: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    flex: 1,
+  },
+  breakdownSource: {
+    ...commonStyles.text.caption,
+    fontWeight: 'normal',
+  },
+  breakdownValue: {
+    ...commonStyles.text.body,
+    flex: 1,
+    textAlign: 'right',
+    color: themeColors.text.secondary,
+  },
+  breakdownTotal: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+    marginTop: 8,
+  },
   statsContainer: commonStyles.status.container,
   statItem: commonStyles.status.item,
   statValue: commonStyles.status.value,
@@ -730,6 +886,12 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     color: themeColors.accent.primary,
   },
+  cyberwareMalfunction: {
+    ...commonStyles.text.body,
+    fontSize: 14,
+    marginTop: 6,
+    color: themeColors.status.error,
+  },
   cyberwareModifier: {
     ...commonStyles.text.body,
     fontSize: 14,
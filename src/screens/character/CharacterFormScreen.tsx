@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   StyleSheet,
   Text,
@@ -20,12 +20,13 @@ import {
 import { RootStackParamList } from '@/navigation/types';
 import {
   CharacterFormData,
+  Cyberware,
   GameCharacter,
   GameLocation,
   Relationship,
   RelationshipStanding,
 } from '@models/types';
-import { Species, SPECIES_BASE_STATS } from '@models/speciesTypes';
+import { Species } from '@models/speciesTypes';
 import {
   addCharacter,
   updateCharacter,
@@ -34,11 +35,20 @@ import {
   loadFactions,
   loadLocations,
 } from '@utils/characterStorage';
+import { isRelationshipTo } from '@utils/entityReferences';
+import { diffEntities, recordChange } from '@utils/changeJournal';
+import { getActiveRulesPack } from '@utils/rulesPackStorage';
+import { getEvolutionErrors } from '@utils/speciesEvolution';
 import {
-  AVAILABLE_PERKS,
-  AVAILABLE_DISTINCTIONS,
-  PerkTag,
-} from '@models/gameData';
+  getAvailableCyberware,
+  getCyberwareModifiers,
+  installCyberware,
+} from '@utils/cyberwareCatalog';
+import {
+  BuildViolation,
+  MAX_DISTINCTIONS,
+  validateCharacterBuild,
+} from '@utils/buildValidation';
 import { colors as themeColors } from '@/styles/theme';
 import { commonStyles } from '@/styles/commonStyles';
 import { BaseFormScreen } from '@/components';
@@ -49,6 +59,7 @@ export const CharacterFormScreen: React.FC = () => {
   const navigation = useNavigation();
   const route = useRoute<CharacterFormRouteProp>();
   const editingCharacter = route.params?.character;
+  const rulesPack = getActiveRulesPack();
   const [selectedPerkTag, setSelectedPerkTag] = useState<string>('');
   const [allCharacters, setAllCharacters] = useState<GameCharacter[]>([]);
   const [availableFactions, setAvailableFactions] = useState<string[]>([]);
@@ -73,24 +84,22 @@ export const CharacterFormScreen: React.FC = () => {
           relationships: [...(editingCharacter.relationships || [])],
           notes: editingCharacter.notes || '',
           occupation: editingCharacter.occupation || '',
-          imageUri: editingCharacter.imageUri,
-          imageUris:
-            editingCharacter.imageUris ||
-            (editingCharacter.imageUri ? [editingCharacter.imageUri] : []),
+          imageUris: editingCharacter.imageUris || [],
           locationId: editingCharacter.locationId,
           retired: editingCharacter.retired,
           cyberware: [...(editingCharacter.cyberware || [])],
         }
       : {
           name: '',
-          species: 'Human',
+          species: rulesPack.species.Human
+            ? 'Human'
+            : Object.keys(rulesPack.species)[0],
           perkIds: [],
           distinctionIds: [],
           factions: [],
           relationships: [],
           notes: '',
           occupation: '',
-          imageUri: undefined,
           imageUris: [],
           locationId: undefined,
           retired: false,
@@ -146,10 +155,65 @@ export const CharacterFormScreen: React.FC = () => {
       .sort();
   };
 
+  // Rule violations are shown next to the section they concern; they don't
+  // block saving
+  const violations = useMemo(
+    () => validateCharacterBuild(form, rulesPack),
+    [form, rulesPack]
+  );
+
+  // Species reached by evolving (prestige species) can only be picked when
+  // the character meets their prerequisites. A character keeps the species
+  // it was saved with.
+  const getSpeciesErrors = (species: Species): string[] =>
+    species === editingCharacter?.species
+      ? []
+      : getEvolutionErrors(form, species, editingCharacter?.species, rulesPack);
+  const speciesErrors = getSpeciesErrors(form.species);
+
+  const renderViolations = (fields: BuildViolation['field'][]) =>
+    violations
+      .filter(violation => fields.includes(violation.field))
+      .map((violation, index) => (
+        <Text key={index} style={styles.violationText}>
+          ⚠ {violation.message}
+        </Text>
+      ));
+
+  const availableCyberware = getAvailableCyberware(form.species, rulesPack);
+
+  // Keep the species of a character from another rules pack selectable
+  const speciesOptions = Object.keys(rulesPack.species);
+  if (!speciesOptions.includes(form.species)) {
+    speciesOptions.push(form.species);
+  }
+
   const handleChange = (field: keyof CharacterFormData, value: any) => {
     setForm(prev => ({ ...prev, [field]: value }));
   };
 
+  const updateCyberware = (index: number, changes: Partial<Cyberware>) => {
+    const newCyberware = [...(form.cyberware || [])];
+    newCyberware[index] = { ...newCyberware[index], ...changes };
+    handleChange('cyberware', newCyberware);
+  };
+
+  const describeModifiers = (cyber: Cyberware): string => {
+    const modifiers = getCyberwareModifiers(cyber, rulesPack);
+    const parts: string[] = [];
+    const add = (value: number | undefined, label: string) => {
+      if (value) parts.push(`${value > 0 ? '+' : ''}${value} ${label}`);
+    };
+    add(modifiers.health, 'health');
+    add(modifiers.limit, 'limit');
+    add(modifiers.healthCap, 'health cap');
+    add(modifiers.limitCap, 'limit cap');
+    Object.entries(modifiers.tagModifiers ?? {}).forEach(([tag, value]) =>
+      add(value, tag)
+    );
+    return parts.length > 0 ? parts.join(', ') : 'No stat modifiers';
+  };
+
   // Function to update bidirectional relationships
   const updateBidirectionalRelationships = async (
     currentCharacter: GameCharacter,
@@ -157,7 +221,8 @@ export const CharacterFormScreen: React.FC = () => {
   ): Promise<void> => {
     try {
       const allChars = await loadCharacters();
-      const updatedCharacters = [...allChars];
+      // Reciprocal relationships are written onto the loaded objects
+      const updatedCharacters = allChars.map(char => ({ ...char }));
 
       // Find the current character in the list and update it
       const currentCharIndex = updatedCharacters.findIndex(
@@ -169,29 +234,30 @@ export const CharacterFormScreen: React.FC = () => {
 
       // Remove old relationships that no longer exist
       for (const oldRel of previousRelationships) {
-        const targetChar = updatedCharacters.find(
-          char => char.name === oldRel.characterName
+        const targetChar = updatedCharacters.find(char =>
+          isRelationshipTo(oldRel, char)
         );
         if (targetChar) {
           targetChar.relationships = (targetChar.relationships || []).filter(
-            rel => rel.characterName !== currentCharacter.name
+            rel => !isRelationshipTo(rel, currentCharacter)
           );
         }
       }
 
       // Add new bidirectional relationships
       for (const relationship of currentCharacter.relationships) {
-        const targetChar = updatedCharacters.find(
-          char => char.name === relationship.characterName
+        const targetChar = updatedCharacters.find(char =>
+          isRelationshipTo(relationship, char)
         );
         if (targetChar && targetChar.id !== currentCharacter.id) {
           // Remove any existing relationship to avoid duplicates
           targetChar.relationships = (targetChar.relationships || []).filter(
-            rel => rel.characterName !== currentCharacter.name
+            rel => !isRelationshipTo(rel, currentCharacter)
           );
 
           // Add the reciprocal relationship
           const reciprocalRelationship: Relationship = {
+            characterId: currentCharacter.id,
             characterName: currentCharacter.name,
             relationshipType: relationship.relationshipType,
             description: relationship.description || '',
@@ -203,6 +269,10 @@ export const CharacterFormScreen: React.FC = () => {
       }
 
       await saveCharacters(updatedCharacters);
+      await recordChange(
+        `Updated relationships with "${currentCharacter.name}"`,
+        diffEntities('character', allChars, updatedCharacters)
+      );
     } catch (error) {
       console.error('Failed to update bidirectional relationships:', error);
     }
@@ -226,10 +296,6 @@ export const CharacterFormScreen: React.FC = () => {
       const newImageUri = result.assets[0].uri;
       const currentImages = form.imageUris || [];
       handleChange('imageUris', [...currentImages, newImageUri]);
-      // Keep imageUri for backward compatibility (first image)
-      if (currentImages.length === 0) {
-        handleChange('imageUri', newImageUri);
-      }
     }
   };
 
@@ -237,8 +303,6 @@ export const CharacterFormScreen: React.FC = () => {
     const currentImages = form.imageUris || [];
     const newImages = currentImages.filter((_, i) => i !== index);
     handleChange('imageUris', newImages);
-    // Update imageUri for backward compatibility
-    handleChange('imageUri', newImages.length > 0 ? newImages[0] : undefined);
   };
 
   const handleSubmit = async () => {
@@ -246,10 +310,16 @@ export const CharacterFormScreen: React.FC = () => {
       Alert.alert('Error', 'Name is required');
       return;
     }
+    if (speciesErrors.length > 0) {
+      Alert.alert(`Can't Save as ${form.species}`, speciesErrors.join('\n'));
+      return;
+    }
 
     // Process relationships to use custom names when applicable
     const processedRelationships = form.relationships.map(rel => ({
       ...rel,
+      characterId:
+        rel.characterName === '__CUSTOM__' ? undefined : rel.characterId,
       characterName:
         rel.characterName === '__CUSTOM__'
           ? rel.customName || ''
@@ -344,12 +414,25 @@ export const CharacterFormScreen: React.FC = () => {
         <Picker
           selectedValue={form.species}
           style={[styles.picker, { flex: 1 }]}
-          onValueChange={(value: Species) => handleChange('species', value)}
+          onValueChange={(value: Species) => {
+            const errors = getSpeciesErrors(value);
+            if (errors.length > 0) {
+              Alert.alert(`Can't Pick ${value}`, errors.join('\n'));
+              return;
+            }
+            handleChange('species', value);
+          }}
         >
-          {Object.keys(SPECIES_BASE_STATS).map(species => (
+          {speciesOptions.map(species => (
             <Picker.Item key={species} label={species} value={species} />
           ))}
         </Picker>
+        {speciesErrors.map((error, index) => (
+          <Text key={index} style={styles.violationText}>
+            ⚠ {error}
+          </Text>
+        ))}
+        {renderViolations(['species', 'stats'])}
       </View>
 
       <View style={styles.formSection}>
@@ -380,6 +463,7 @@ export const CharacterFormScreen: React.FC = () => {
           <Text style={styles.label}>Perks</Text>
           <Text style={styles.expandIcon}>{perksExpanded ? '▼' : '▶'}</Text>
         </TouchableOpacity>
+        {renderViolations(['perkIds'])}
         {perksExpanded && (
           <>
             <View style={styles.filterContainer}>
@@ -390,52 +474,56 @@ export const CharacterFormScreen: React.FC = () => {
                 onValueChange={setSelectedPerkTag}
               >
                 <Picker.Item label="All Tags" value="" />
-                {Array.from(new Set(AVAILABLE_PERKS.map(perk => perk.tag)))
+                {Array.from(new Set(rulesPack.perks.map(perk => perk.tag)))
                   .sort()
                   .map(tag => (
                     <Picker.Item key={tag} label={tag} value={tag} />
                   ))}
               </Picker>
             </View>
-            {AVAILABLE_PERKS.filter(
-              perk =>
-                (!selectedPerkTag || perk.tag === selectedPerkTag) &&
-                (!perk.allowedSpecies ||
-                  perk.allowedSpecies.includes(form.species))
-            ).map(perk => (
-              <TouchableOpacity
-                key={perk.id}
-                style={[
-                  styles.selectionItem,
-                  form.perkIds.includes(perk.id) && styles.selectedItem,
-                  perk.allowedSpecies && styles.speciesSpecificItem,
-                ]}
-                onPress={() => {
-                  const newPerkIds = form.perkIds.includes(perk.id)
-                    ? form.perkIds.filter(id => id !== perk.id)
-                    : [...form.perkIds, perk.id];
-                  handleChange('perkIds', newPerkIds);
-                }}
-              >
-                <View style={styles.perkContainer}>
-                  <View style={styles.perkHeaderContainer}>
-                    <Text style={styles.itemName}>{perk.name}</Text>
-                    <View style={styles.perkBadgeContainer}>
-                      {perk.allowedSpecies &&
-                        perk.allowedSpecies.length > 0 && (
-                          <Text style={styles.speciesText}>
-                            {perk.allowedSpecies.length === 1
-                              ? perk.allowedSpecies[0]
-                              : `${perk.allowedSpecies.length} Species`}
-                          </Text>
-                        )}
-                      <Text style={styles.tagText}>{perk.tag}</Text>
+            {rulesPack.perks
+              .filter(
+                perk =>
+                  (!selectedPerkTag || perk.tag === selectedPerkTag) &&
+                  (!perk.allowedSpecies ||
+                    perk.allowedSpecies.includes(form.species) ||
+                    // Keep illegal perks visible so they can be removed
+                    form.perkIds.includes(perk.id))
+              )
+              .map(perk => (
+                <TouchableOpacity
+                  key={perk.id}
+                  style={[
+                    styles.selectionItem,
+                    form.perkIds.includes(perk.id) && styles.selectedItem,
+                    perk.allowedSpecies && styles.speciesSpecificItem,
+                  ]}
+                  onPress={() => {
+                    const newPerkIds = form.perkIds.includes(perk.id)
+                      ? form.perkIds.filter(id => id !== perk.id)
+                      : [...form.perkIds, perk.id];
+                    handleChange('perkIds', newPerkIds);
+                  }}
+                >
+                  <View style={styles.perkContainer}>
+                    <View style={styles.perkHeaderContainer}>
+                      <Text style={styles.itemName}>{perk.name}</Text>
+                      <View style={styles.perkBadgeContainer}>
+                        {perk.allowedSpecies &&
+                          perk.allowedSpecies.length > 0 && (
+                            <Text style={styles.speciesText}>
+                              {perk.allowedSpecies.length === 1
+                                ? perk.allowedSpecies[0]
+                                : `${perk.allowedSpecies.length} Species`}
+                            </Text>
+                          )}
+                        <Text style={styles.tagText}>{perk.tag}</Text>
+                      </View>
                     </View>
                   </View>
-                </View>
-                <Text style={styles.descriptionText}>{perk.description}</Text>
-              </TouchableOpacity>
-            ))}
+                  <Text style={styles.descriptionText}>{perk.description}</Text>
+                </TouchableOpacity>
+              ))}
           </>
         )}
       </View>
@@ -450,9 +538,10 @@ export const CharacterFormScreen: React.FC = () => {
             {distinctionsExpanded ? '▼' : '▶'}
           </Text>
         </TouchableOpacity>
+        {renderViolations(['distinctionIds'])}
         {distinctionsExpanded && (
           <>
-            {AVAILABLE_DISTINCTIONS.map(distinction => (
+            {rulesPack.distinctions.map(distinction => (
               <TouchableOpacity
                 key={distinction.id}
                 style={[
@@ -471,7 +560,7 @@ export const CharacterFormScreen: React.FC = () => {
                       id => id !== distinction.id
                     );
                     handleChange('distinctionIds', newDistinctionIds);
-                  } else if (form.distinctionIds.length < 3) {
+                  } else if (form.distinctionIds.length < MAX_DISTINCTIONS) {
                     // Allow selection if under limit
                     const newDistinctionIds = [
                       ...form.distinctionIds,
@@ -482,7 +571,7 @@ export const CharacterFormScreen: React.FC = () => {
                     // Show alert when limit reached
                     Alert.alert(
                       'Maximum Reached',
-                      'You can only select up to 3 distinctions.'
+                      `You can only select up to ${MAX_DISTINCTIONS} distinctions.`
                     );
                   }
                 }}
@@ -496,20 +585,25 @@ export const CharacterFormScreen: React.FC = () => {
 
       <View style={styles.formSection}>
         <Text style={styles.label}>Cyberware</Text>
+        {renderViolations(['cyberware'])}
         {form.cyberware &&
           form.cyberware.map((cyber, index) => (
             <View key={index} style={styles.cyberwareContainer}>
               <View style={styles.cyberwareHeaderRow}>
-                <TextInput
-                  style={styles.cyberwareName}
-                  value={cyber.name}
-                  onChangeText={value => {
-                    const newCyberware = [...(form.cyberware || [])];
-                    newCyberware[index] = { ...cyber, name: value };
-                    handleChange('cyberware', newCyberware);
-                  }}
-                  placeholder="Cyberware name"
-                />
+                {cyber.catalogId ? (
+                  <Text style={styles.cyberwareCatalogName}>{cyber.name}</Text>
+                ) : (
+                  <TextInput
+                    style={styles.cyberwareName}
+                    value={cyber.name}
+                    onChangeText={value => {
+                      const newCyberware = [...(form.cyberware || [])];
+                      newCyberware[index] = { ...cyber, name: value };
+                      handleChange('cyberware', newCyberware);
+                    }}
+                    placeholder="Cyberware name"
+                  />
+                )}
                 <TouchableOpacity
                   style={styles.removeButton}
                   onPress={() => {
@@ -522,242 +616,332 @@ export const CharacterFormScreen: React.FC = () => {
                   <Text style={styles.removeButtonText}>×</Text>
                 </TouchableOpacity>
               </View>
-              <TextInput
-                style={styles.cyberwareDescription}
-                value={cyber.description}
-                onChangeText={value => {
-                  const newCyberware = [...(form.cyberware || [])];
-                  newCyberware[index] = { ...cyber, description: value };
-                  handleChange('cyberware', newCyberware);
-                }}
-                placeholder="Description"
-                multiline
-              />
-              <View style={styles.cyberwareModifiersSection}>
-                <Text style={styles.cyberwareModifiersLabel}>
-                  Stat Modifiers (optional):
-                </Text>
-                <View style={styles.modifierRow}>
-                  <View style={styles.modifierInput}>
-                    <Text style={styles.modifierLabel}>Health:</Text>
-                    <TextInput
-                      style={styles.modifierField}
-                      value={cyber.statModifiers?.health?.toString() || ''}
-                      onChangeText={value => {
-                        const newCyberware = [...(form.cyberware || [])];
-                        const numValue =
-                          value === '' ? undefined : parseInt(value) || 0;
-                        newCyberware[index] = {
-                          ...cyber,
-                          statModifiers: {
-                            ...cyber.statModifiers,
-                            health: numValue,
-                          },
-                        };
-                        handleChange('cyberware', newCyberware);
-                      }}
-                      placeholder="0"
-                      keyboardType="numeric"
-                    />
-                  </View>
-                  <View style={styles.modifierInput}>
-                    <Text style={styles.modifierLabel}>Limit:</Text>
-                    <TextInput
-                      style={styles.modifierField}
-                      value={cyber.statModifiers?.limit?.toString() || ''}
-                      onChangeText={value => {
-                        const newCyberware = [...(form.cyberware || [])];
-                        const numValue =
-                          value === '' ? undefined : parseInt(value) || 0;
-                        newCyberware[index] = {
-                          ...cyber,
-                          statModifiers: {
-                            ...cyber.statModifiers,
-                            limit: numValue,
-                          },
-                        };
-                        handleChange('cyberware', newCyberware);
-                      }}
-                      placeholder="0"
-                      keyboardType="numeric"
-                    />
-                  </View>
-                </View>
-                <View style={styles.modifierRow}>
-                  <View style={styles.modifierInput}>
-                    <Text style={styles.modifierLabel}>Health Cap:</Text>
-                    <TextInput
-                      style={styles.modifierField}
-                      value={cyber.statModifiers?.healthCap?.toString() || ''}
-                      onChangeText={value => {
-                        const newCyberware = [...(form.cyberware || [])];
-                        const numValue =
-                          value === '' ? undefined : parseInt(value) || 0;
-                        newCyberware[index] = {
-                          ...cyber,
-                          statModifiers: {
-                            ...cyber.statModifiers,
-                            healthCap: numValue,
-                          },
-                        };
-                        handleChange('cyberware', newCyberware);
-                      }}
-                      placeholder="0"
-                      keyboardType="numeric"
-                    />
-                  </View>
-                  <View style={styles.modifierInput}>
-                    <Text style={styles.modifierLabel}>Limit Cap:</Text>
-                    <TextInput
-                      style={styles.modifierField}
-                      value={cyber.statModifiers?.limitCap?.toString() || ''}
-                      onChangeText={value => {
-                        const newCyberware = [...(form.cyberware || [])];
-                        const numValue =
-                          value === '' ? undefined : parseInt(value) || 0;
-                        newCyberware[index] = {
-                          ...cyber,
-                          statModifiers: {
-                            ...cyber.statModifiers,
-                            limitCap: numValue,
-                          },
-                        };
-                        handleChange('cyberware', newCyberware);
-                      }}
-                      placeholder="0"
-                      keyboardType="numeric"
-                    />
-                  </View>
-                </View>
-                <View style={styles.tagModifiersSection}>
-                  <Text style={styles.tagModifiersLabel}>
-                    Tag Score Modifiers (optional):
+              {cyber.catalogId ? (
+                <>
+                  <Text style={styles.descriptionText}>
+                    {cyber.description}
+                  </Text>
+                  <Text style={styles.descriptionText}>
+                    {describeModifiers(cyber)}
                   </Text>
-                  <View style={styles.tagModifiersList}>
-                    {Object.values(PerkTag).map(tag => {
-                      const currentValue =
-                        cyber.statModifiers?.tagModifiers?.[tag];
-                      if (currentValue === undefined && !cyber.statModifiers)
-                        return null;
+                </>
+              ) : (
+                <>
+                  <TextInput
+                    style={styles.cyberwareDescription}
+                    value={cyber.description}
+                    onChangeText={value => {
+                      const newCyberware = [...(form.cyberware || [])];
+                      newCyberware[index] = { ...cyber, description: value };
+                      handleChange('cyberware', newCyberware);
+                    }}
+                    placeholder="Description"
+                    multiline
+                  />
+                  <View style={styles.cyberwareModifiersSection}>
+                    <Text style={styles.cyberwareModifiersLabel}>
+                      Stat Modifiers (optional):
+                    </Text>
+                    <View style={styles.modifierRow}>
+                      <View style={styles.modifierInput}>
+                        <Text style={styles.modifierLabel}>Health:</Text>
+                        <TextInput
+                          style={styles.modifierField}
+                          value={cyber.statModifiers?.health?.toString() || ''}
+                          onChangeText={value => {
+                            const newCyberware = [...(form.cyberware || [])];
+                            const numValue =
+                              value === '' ? undefined : parseInt(value) || 0;
+                            newCyberware[index] = {
+                              ...cyber,
+                              statModifiers: {
+                                ...cyber.statModifiers,
+                                health: numValue,
+                              },
+                            };
+                            handleChange('cyberware', newCyberware);
+                          }}
+                          placeholder="0"
+                          keyboardType="numeric"
+                        />
+                      </View>
+                      <View style={styles.modifierInput}>
+                        <Text style={styles.modifierLabel}>Limit:</Text>
+                        <TextInput
+                          style={styles.modifierField}
+                          value={cyber.statModifiers?.limit?.toString() || ''}
+                          onChangeText={value => {
+                            const newCyberware = [...(form.cyberware || [])];
+                            const numValue =
+                              value === '' ? undefined : parseInt(value) || 0;
+                            newCyberware[index] = {
+                              ...cyber,
+                              statModifiers: {
+                                ...cyber.statModifiers,
+                                limit: numValue,
+                              },
+                            };
+                            handleChange('cyberware', newCyberware);
+                          }}
+                          placeholder="0"
+                          keyboardType="numeric"
+                        />
+                      </View>
+                    </View>
+                    <View style={styles.modifierRow}>
+                      <View style={styles.modifierInput}>
+                        <Text style={styles.modifierLabel}>Health Cap:</Text>
+                        <TextInput
+                          style={styles.modifierField}
+                          value={
+                            cyber.statModifiers?.healthCap?.toString() || ''
+                          }
+                          onChangeText={value => {
+                            const newCyberware = [...(form.cyberware || [])];
+                            const numValue =
+                              value === '' ? undefined : parseInt(value) || 0;
+                            newCyberware[index] = {
+                              ...cyber,
+                              statModifiers: {
+                                ...cyber.statModifiers,
+                                healthCap: numValue,
+                              },
+                            };
+                            handleChange('cyberware', newCyberware);
+                          }}
+                          placeholder="0"
+                          keyboardType="numeric"
+                        />
+                      </View>
+                      <View style={styles.modifierInput}>
+                        <Text style={styles.modifierLabel}>Limit Cap:</Text>
+                        <TextInput
+                          style={styles.modifierField}
+                          value={
+                            cyber.statModifiers?.limitCap?.toString() || ''
+                          }
+                          onChangeText={value => {
+                            const newCyberware = [...(form.cyberware || [])];
+                            const numValue =
+                              value === '' ? undefined : parseInt(value) || 0;
+                            newCyberware[index] = {
+                              ...cyber,
+                              statModifiers: {
+                                ...cyber.statModifiers,
+                                limitCap: numValue,
+                              },
+                            };
+                            handleChange('cyberware', newCyberware);
+                          }}
+                          placeholder="0"
+                          keyboardType="numeric"
+                        />
+                      </View>
+                    </View>
+                    <View style={styles.tagModifiersSection}>
+                      <Text style={styles.tagModifiersLabel}>
+                        Tag Score Modifiers (optional):
+                      </Text>
+                      <View style={styles.tagModifiersList}>
+                        {rulesPack.perkTags.map(tag => {
+                          const currentValue =
+                            cyber.statModifiers?.tagModifiers?.[tag];
+                          if (
+                            currentValue === undefined &&
+                            !cyber.statModifiers
+                          )
+                            return null;
 
-                      return (
-                        <View key={tag} style={styles.tagModifierRow}>
-                          <Text style={styles.tagModifierName}>{tag}:</Text>
-                          <TextInput
-                            style={styles.tagModifierField}
-                            value={currentValue?.toString() || ''}
-                            onChangeText={value => {
-                              const newCyberware = [...(form.cyberware || [])];
-                              const numValue =
-                                value === '' ? undefined : parseInt(value) || 0;
+                          return (
+                            <View key={tag} style={styles.tagModifierRow}>
+                              <Text style={styles.tagModifierName}>{tag}:</Text>
+                              <TextInput
+                                style={styles.tagModifierField}
+                                value={currentValue?.toString() || ''}
+                                onChangeText={value => {
+                                  const newCyberware = [
+                                    ...(form.cyberware || []),
+                                  ];
+                                  const numValue =
+                                    value === ''
+                                      ? undefined
+                                      : parseInt(value) || 0;
 
-                              const currentTagModifiers = {
-                                ...(cyber.statModifiers?.tagModifiers || {}),
-                              };
+                                  const currentTagModifiers = {
+                                    ...(cyber.statModifiers?.tagModifiers ||
+                                      {}),
+                                  };
 
-                              if (numValue === undefined) {
-                                delete currentTagModifiers[tag];
-                              } else {
-                                currentTagModifiers[tag] = numValue;
-                              }
+                                  if (numValue === undefined) {
+                                    delete currentTagModifiers[tag];
+                                  } else {
+                                    currentTagModifiers[tag] = numValue;
+                                  }
 
-                              newCyberware[index] = {
-                                ...cyber,
-                                statModifiers: {
-                                  ...cyber.statModifiers,
-                                  tagModifiers:
-                                    Object.keys(currentTagModifiers).length > 0
-                                      ? (currentTagModifiers as Record<
-                                          PerkTag,
-                                          number
-                                        >)
-                                      : undefined,
-                                },
-                              };
-                              handleChange('cyberware', newCyberware);
-                            }}
-                            placeholder="0"
-                            keyboardType="numeric"
-                          />
-                          {currentValue !== undefined && (
-                            <TouchableOpacity
-                              style={styles.tagModifierRemove}
-                              onPress={() => {
-                                const newCyberware = [
-                                  ...(form.cyberware || []),
-                                ];
-                                const currentTagModifiers = {
-                                  ...(cyber.statModifiers?.tagModifiers || {}),
-                                };
-                                delete currentTagModifiers[tag];
+                                  newCyberware[index] = {
+                                    ...cyber,
+                                    statModifiers: {
+                                      ...cyber.statModifiers,
+                                      tagModifiers:
+                                        Object.keys(currentTagModifiers)
+                                          .length > 0
+                                          ? currentTagModifiers
+                                          : undefined,
+                                    },
+                                  };
+                                  handleChange('cyberware', newCyberware);
+                                }}
+                                placeholder="0"
+                                keyboardType="numeric"
+                              />
+                              {currentValue !== undefined && (
+                                <TouchableOpacity
+                                  style={styles.tagModifierRemove}
+                                  onPress={() => {
+                                    const newCyberware = [
+                                      ...(form.cyberware || []),
+                                    ];
+                                    const currentTagModifiers = {
+                                      ...(cyber.statModifiers?.tagModifiers ||
+                                        {}),
+                                    };
+                                    delete currentTagModifiers[tag];
 
-                                newCyberware[index] = {
-                                  ...cyber,
-                                  statModifiers: {
-                                    ...cyber.statModifiers,
-                                    tagModifiers:
-                                      Object.keys(currentTagModifiers).length >
-                                      0
-                                        ? (currentTagModifiers as Record<
-                                            PerkTag,
-                                            number
-                                          >)
-                                        : undefined,
-                                  },
-                                };
-                                handleChange('cyberware', newCyberware);
-                              }}
-                            >
-                              <Text style={styles.tagModifierRemoveText}>
-                                ×
-                              </Text>
-                            </TouchableOpacity>
-                          )}
-                        </View>
-                      );
-                    })}
-                  </View>
-                  <TouchableOpacity
-                    style={styles.addTagModifierButton}
-                    onPress={() => {
-                      // Find first tag that doesn't have a modifier
-                      const currentTagModifiers =
-                        cyber.statModifiers?.tagModifiers || {};
-                      const availableTags = Object.values(PerkTag).filter(
-                        tag => !(tag in currentTagModifiers)
-                      );
+                                    newCyberware[index] = {
+                                      ...cyber,
+                                      statModifiers: {
+                                        ...cyber.statModifiers,
+                                        tagModifiers:
+                                          Object.keys(currentTagModifiers)
+                                            .length > 0
+                                            ? currentTagModifiers
+                                            : undefined,
+                                      },
+                                    };
+                                    handleChange('cyberware', newCyberware);
+                                  }}
+                                >
+                                  <Text style={styles.tagModifierRemoveText}>
+                                    ×
+                                  </Text>
+                                </TouchableOpacity>
+                              )}
+                            </View>
+                          );
+                        })}
+                      </View>
+                      <TouchableOpacity
+                        style={styles.addTagModifierButton}
+                        onPress={() => {
+                          // Find first tag that doesn't have a modifier
+                          const currentTagModifiers =
+                            cyber.statModifiers?.tagModifiers || {};
+                          const availableTags = rulesPack.perkTags.filter(
+                            tag => !(tag in currentTagModifiers)
+                          );
 
-                      if (availableTags.length > 0) {
-                        const newCyberware = [...(form.cyberware || [])];
-                        const newTagModifiers = {
-                          ...currentTagModifiers,
-                          [availableTags[0]]: 1,
-                        } as Record<PerkTag, number>;
+                          if (availableTags.length > 0) {
+                            const newCyberware = [...(form.cyberware || [])];
+                            const newTagModifiers = {
+                              ...currentTagModifiers,
+                              [availableTags[0]]: 1,
+                            };
 
-                        newCyberware[index] = {
-                          ...cyber,
-                          statModifiers: {
-                            ...cyber.statModifiers,
-                            tagModifiers: newTagModifiers,
-                          },
-                        };
-                        handleChange('cyberware', newCyberware);
-                      } else {
-                        Alert.alert(
-                          'All Tags Added',
-                          'All available tags already have modifiers.'
-                        );
-                      }
-                    }}
-                  >
-                    <Text style={styles.addTagModifierButtonText}>
-                      + Add Tag Modifier
-                    </Text>
-                  </TouchableOpacity>
+                            newCyberware[index] = {
+                              ...cyber,
+                              statModifiers: {
+                                ...cyber.statModifiers,
+                                tagModifiers: newTagModifiers,
+                              },
+                            };
+                            handleChange('cyberware', newCyberware);
+                          } else {
+                            Alert.alert(
+                              'All Tags Added',
+                              'All available tags already have modifiers.'
+                            );
+                          }
+                        }}
+                      >
+                        <Text style={styles.addTagModifierButtonText}>
+                          + Add Tag Modifier
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </>
+              )}
+              <View style={styles.modifierRow}>
+                <View style={styles.modifierInput}>
+                  <Text style={styles.modifierLabel}>Installed:</Text>
+                  <TextInput
+                    style={styles.modifierField}
+                    value={cyber.installedDate || ''}
+                    onChangeText={value =>
+                      updateCyberware(index, {
+                        installedDate: value || undefined,
+                      })
+                    }
+                    placeholder="YYYY-MM-DD"
+                  />
+                </View>
+                <View style={styles.modifierInput}>
+                  <Text style={styles.modifierLabel}>Removed:</Text>
+                  <TextInput
+                    style={styles.modifierField}
+                    value={cyber.removedDate || ''}
+                    onChangeText={value =>
+                      updateCyberware(index, {
+                        removedDate: value || undefined,
+                      })
+                    }
+                    placeholder="YYYY-MM-DD"
+                  />
                 </View>
               </View>
+              <TouchableOpacity
+                style={[
+                  styles.malfunctionToggle,
+                  cyber.malfunctioning && styles.malfunctionToggleActive,
+                ]}
+                onPress={() =>
+                  updateCyberware(index, {
+                    malfunctioning: !cyber.malfunctioning || undefined,
+                  })
+                }
+              >
+                <Text style={styles.malfunctionToggleText}>
+                  {cyber.malfunctioning ? '⚠ Malfunctioning' : '✓ Working'}
+                </Text>
+              </TouchableOpacity>
             </View>
           ))}
+        {availableCyberware.length > 0 && (
+          <Picker
+            selectedValue=""
+            style={styles.picker}
+            onValueChange={(catalogId: string) => {
+              const definition = availableCyberware.find(
+                d => d.id === catalogId
+              );
+              if (definition) {
+                handleChange('cyberware', [
+                  ...(form.cyberware || []),
+                  installCyberware(definition),
+                ]);
+              }
+            }}
+          >
+            <Picker.Item label="(Install From Catalog)" value="" />
+            {availableCyberware.map(definition => (
+              <Picker.Item
+                key={definition.id}
+                label={definition.name}
+                value={definition.id}
+              />
+            ))}
+          </Picker>
+        )}
         <TouchableOpacity
           style={styles.addButton}
           onPress={() => {
@@ -771,7 +955,7 @@ export const CharacterFormScreen: React.FC = () => {
             ]);
           }}
         >
-          <Text style={styles.addButtonText}>Add Cyberware</Text>
+          <Text style={styles.addButtonText}>Add Custom Cyberware</Text>
         </TouchableOpacity>
       </View>
 
@@ -786,7 +970,11 @@ export const CharacterFormScreen: React.FC = () => {
                   value={faction.name}
                   onChangeText={value => {
                     const newFactions = [...form.factions];
-                    newFactions[index] = { ...faction, name: value };
+                    newFactions[index] = {
+                      ...faction,
+                      factionId: undefined,
+                      name: value,
+                    };
                     handleChange('factions', newFactions);
 
                     // Add new faction to available list if it doesn't exist
@@ -834,11 +1022,19 @@ export const CharacterFormScreen: React.FC = () => {
                       [index]: true,
                     }));
                     const newFactions = [...form.factions];
-                    newFactions[index] = { ...faction, name: '' };
+                    newFactions[index] = {
+                      ...faction,
+                      factionId: undefined,
+                      name: '',
+                    };
                     handleChange('factions', newFactions);
                   } else if (value && value !== faction.name) {
                     const newFactions = [...form.factions];
-                    newFactions[index] = { ...faction, name: value };
+                    newFactions[index] = {
+                      ...faction,
+                      factionId: undefined,
+                      name: value,
+                    };
                     handleChange('factions', newFactions);
                   }
                 }}
@@ -904,6 +1100,9 @@ export const CharacterFormScreen: React.FC = () => {
                     const newRelationships = [...form.relationships];
                     newRelationships[index] = {
                       ...relationship,
+                      characterId: allCharacters.find(
+                        char => char.name === value
+                      )?.id,
                       characterName: value,
                     };
                     handleChange('relationships', newRelationships);
@@ -1142,6 +1341,11 @@ const styles = StyleSheet.create({
   },
   formSection: commonStyles.layout.formSection,
   label: commonStyles.text.label,
+  violationText: {
+    ...commonStyles.text.caption,
+    color: themeColors.accent.warning,
+    marginBottom: 6,
+  },
   input: commonStyles.input.base,
   notesInput: {
     ...commonStyles.input.base,
@@ -1307,6 +1511,29 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     fontWeight: '600',
   },
+  cyberwareCatalogName: {
+    ...commonStyles.text.body,
+    flex: 1,
+    fontWeight: '600',
+  },
+  malfunctionToggle: {
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: themeColors.surface,
+    borderWidth: 1,
+    borderColor: themeColors.border,
+  },
+  malfunctionToggleActive: {
+    backgroundColor: themeColors.status.error,
+    borderColor: themeColors.status.error,
+  },
+  malfunctionToggleText: {
+    ...commonStyles.text.label,
+    fontSize: 13,
+    marginBottom: 0,
+  },
   cyberwareDescription: {
     ...commonStyles.input.base,
     padding: 12,
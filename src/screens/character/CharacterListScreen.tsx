@@ -13,6 +13,10 @@ import {
   toggleCharacterPresent,
   resetAllPresentStatus,
 } from '@utils/characterStorage';
+import {
+  MIN_COMPARED_CHARACTERS,
+  toggleComparedCharacter,
+} from '@utils/characterComparison';
 import {
   useNavigation,
   useFocusEffect,
@@ -37,6 +41,8 @@ export const CharacterListScreen: React.FC = () => {
   const [characters, setCharacters] = React.useState<GameCharacter[]>([]);
   const [showOnlyPresent, setShowOnlyPresent] = React.useState<boolean>(false);
   const [searchQuery, setSearchQuery] = React.useState<string>('');
+  // Characters picked for comparison; long-press a card to start picking
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
   const navigation = useNavigation<NavigationProp>();
 
   const loadData = React.useCallback(async () => {
@@ -121,12 +127,27 @@ export const CharacterListScreen: React.FC = () => {
     [getFilteredCharacters]
   );
 
+  const handleToggleSelected = (id: string) =>
+    setSelectedIds(prev => toggleComparedCharacter(prev, id));
+
+  const handleComparePress = () => {
+    navigation.navigate('CharacterComparison', { characterIds: selectedIds });
+    setSelectedIds([]);
+  };
+
   const renderItem = (item: GameCharacter) => (
     <TouchableOpacity
-      style={[styles.card, item.present && styles.cardPresent]}
+      style={[
+        styles.card,
+        item.present && styles.cardPresent,
+        selectedIds.includes(item.id) && styles.cardSelected,
+      ]}
       onPress={() =>
-        navigation.navigate('CharacterDetail', { character: item })
+        selectedIds.length > 0
+          ? handleToggleSelected(item.id)
+          : navigation.navigate('CharacterDetail', { character: item })
       }
+      onLongPress={() => handleToggleSelected(item.id)}
     >
       <View style={styles.cardHeader}>
         <Text style={styles.name} numberOfLines={1} ellipsizeMode="tail">
@@ -155,6 +176,29 @@ export const CharacterListScreen: React.FC = () => {
     </TouchableOpacity>
   );
 
+  const renderSelectionBar = () => (
+    <View style={styles.headerButtons}>
+      <TouchableOpacity
+        style={[
+          styles.actionButton,
+          styles.compareButton,
+          selectedIds.length < MIN_COMPARED_CHARACTERS &&
+            styles.compareButtonDisabled,
+        ]}
+        onPress={handleComparePress}
+        disabled={selectedIds.length < MIN_COMPARED_CHARACTERS}
+      >
+        <Text style={styles.buttonText}>Compare ({selectedIds.length})</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.actionButton, styles.filterButton]}
+        onPress={() => setSelectedIds([])}
+      >
+        <Text style={styles.buttonText}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
   const renderHeaderButtons = () => (
     <View style={styles.headerButtons}>
       <TouchableOpacity
@@ -202,7 +246,9 @@ export const CharacterListScreen: React.FC = () => {
       searchQuery={searchQuery}
       onSearchChange={setSearchQuery}
       searchPlaceholder="Search characters by name..."
-      ListHeaderComponent={renderHeaderButtons()}
+      ListHeaderComponent={
+        selectedIds.length > 0 ? renderSelectionBar() : renderHeaderButtons()
+      }
       headerRight={renderHeaderRight()}
       emptyStateTitle="No characters found"
       emptyStateSubtitle="Create a character to get started"
@@ -228,9 +274,14 @@ const styles = StyleSheet.create({
   filterButton: commonStyles.button.outline,
   filterButtonActive: commonStyles.button.outlineActive,
   resetButton: commonStyles.button.warning,
+  compareButton: commonStyles.button.primary,
+  compareButtonDisabled: {
+    opacity: 0.5,
+  },
   buttonText: commonStyles.button.text,
   card: commonStyles.card.base,
   cardPresent: commonStyles.card.present,
+  cardSelected: commonStyles.card.clickable,
   cardHeader: commonStyles.card.header,
   name: {
     ...commonStyles.text.h3,
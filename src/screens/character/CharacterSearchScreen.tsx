@@ -10,13 +10,7 @@ import {
 import { Picker } from '@react-native-picker/picker';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import {
-  AVAILABLE_PERKS,
-  AVAILABLE_DISTINCTIONS,
-  AVAILABLE_RECIPES,
-  PerkTag,
-  RecipeId,
-} from '@/models/gameData';
+import { RecipeId } from '@/models/gameData';
 import {
   GameCharacter,
   PerkId,
@@ -29,17 +23,18 @@ import { commonStyles } from '@/styles/commonStyles';
 
 type SearchScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
-// Get all unique tags from the PerkTag type
-const getAllTags = (): PerkTag[] => {
-  const tagSet = new Set(AVAILABLE_PERKS.map(perk => perk.tag));
-  return Array.from(tagSet);
-};
 import { loadCharacters } from '@/utils/characterStorage';
+import { getActiveRulesPack } from '@/utils/rulesPackStorage';
+import {
+  MIN_COMPARED_CHARACTERS,
+  MAX_COMPARED_CHARACTERS,
+  toggleComparedCharacter,
+} from '@/utils/characterComparison';
 
 interface SearchCriteria {
   perkId?: PerkId;
   distinctionId?: DistinctionId;
-  tag?: PerkTag;
+  tag?: string;
   minTagScore?: number;
   factionStanding?: RelationshipStanding;
   recipeId?: RecipeId;
@@ -54,12 +49,12 @@ export const CharacterSearchScreen: React.FC = () => {
     retiredStatus: 'active', // Default to searching only active (non-retired) characters
   });
   const [searchResults, setSearchResults] = useState<GameCharacter[]>([]);
+  // Results picked for comparison; long-press a result to start picking
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const rulesPack = getActiveRulesPack();
 
-  const calculateTagScore = (
-    character: GameCharacter,
-    tag: PerkTag
-  ): number => {
-    return AVAILABLE_PERKS.filter(
+  const calculateTagScore = (character: GameCharacter, tag: string): number => {
+    return rulesPack.perks.filter(
       perk => character.perkIds.includes(perk.id) && perk.tag === tag
     ).length;
   };
@@ -85,7 +80,7 @@ export const CharacterSearchScreen: React.FC = () => {
 
       // Check recipes
       if (searchCriteria.recipeId) {
-        const characterPerks = AVAILABLE_PERKS.filter(
+        const characterPerks = rulesPack.perks.filter(
           perk => character.perkIds.includes(perk.id) && perk.recipeIds
         );
 
@@ -138,7 +133,18 @@ export const CharacterSearchScreen: React.FC = () => {
     });
 
     setSearchResults(results);
-  }, [searchCriteria]);
+    setSelectedIds(prev =>
+      prev.filter(id => results.some(character => character.id === id))
+    );
+  }, [searchCriteria, rulesPack]);
+
+  const handleToggleSelected = (id: string) =>
+    setSelectedIds(prev => toggleComparedCharacter(prev, id));
+
+  const handleComparePress = () => {
+    navigation.navigate('CharacterComparison', { characterIds: selectedIds });
+    setSelectedIds([]);
+  };
 
   return (
     <ScrollView style={styles.container}>
@@ -158,7 +164,7 @@ export const CharacterSearchScreen: React.FC = () => {
             }
           >
             <Picker.Item label="Any Perk" value="" />
-            {AVAILABLE_PERKS.map(perk => (
+            {rulesPack.perks.map(perk => (
               <Picker.Item key={perk.id} label={perk.name} value={perk.id} />
             ))}
           </Picker>
@@ -177,7 +183,7 @@ export const CharacterSearchScreen: React.FC = () => {
             }
           >
             <Picker.Item label="Any Distinction" value="" />
-            {AVAILABLE_DISTINCTIONS.map(distinction => (
+            {rulesPack.distinctions.map(distinction => (
               <Picker.Item
                 key={distinction.id}
                 label={distinction.name}
@@ -193,7 +199,7 @@ export const CharacterSearchScreen: React.FC = () => {
             <Picker
               selectedValue={searchCriteria.tag}
               style={[styles.picker, { flex: 2 }]}
-              onValueChange={(value: PerkTag | '') =>
+              onValueChange={(value: string) =>
                 setSearchCriteria(prev => ({
                   ...prev,
                   tag: value || undefined,
@@ -201,7 +207,7 @@ export const CharacterSearchScreen: React.FC = () => {
               }
             >
               <Picker.Item label="Any Tag" value="" />
-              {getAllTags().map(tag => (
+              {rulesPack.perkTags.map(tag => (
                 <Picker.Item key={tag} label={tag} value={tag} />
               ))}
             </Picker>
@@ -233,7 +239,7 @@ export const CharacterSearchScreen: React.FC = () => {
             }
           >
             <Picker.Item label="Any Recipe" value="" />
-            {AVAILABLE_RECIPES.map(recipe => (
+            {rulesPack.recipes.map(recipe => (
               <Picker.Item
                 key={recipe.id}
                 label={recipe.name}
@@ -288,13 +294,49 @@ export const CharacterSearchScreen: React.FC = () => {
         <Text style={styles.sectionTitle}>
           Results ({searchResults.length})
         </Text>
+        {selectedIds.length > 0 ? (
+          <View style={styles.selectionBar}>
+            <TouchableOpacity
+              style={[
+                styles.compareButton,
+                selectedIds.length < MIN_COMPARED_CHARACTERS &&
+                  styles.compareButtonDisabled,
+              ]}
+              onPress={handleComparePress}
+              disabled={selectedIds.length < MIN_COMPARED_CHARACTERS}
+            >
+              <Text style={styles.searchButtonText}>
+                Compare ({selectedIds.length})
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setSelectedIds([])}
+            >
+              <Text style={styles.searchButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          searchResults.length >= MIN_COMPARED_CHARACTERS && (
+            <Text style={styles.hintText}>
+              Long-press up to {MAX_COMPARED_CHARACTERS} results to compare
+              them.
+            </Text>
+          )
+        )}
         {searchResults.map(character => (
           <TouchableOpacity
             key={character.id}
-            style={styles.resultItem}
+            style={[
+              styles.resultItem,
+              selectedIds.includes(character.id) && styles.resultItemSelected,
+            ]}
             onPress={() =>
-              navigation.navigate('CharacterDetail', { character })
+              selectedIds.length > 0
+                ? handleToggleSelected(character.id)
+                : navigation.navigate('CharacterDetail', { character })
             }
+            onLongPress={() => handleToggleSelected(character.id)}
           >
             <View style={styles.resultHeader}>
               <Text style={styles.characterName}>{character.name}</Text>
@@ -369,6 +411,29 @@ const styles = StyleSheet.create({
   },
   searchButtonText: commonStyles.button.text,
   resultItem: commonStyles.card.base,
+  resultItemSelected: commonStyles.card.clickable,
+  selectionBar: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 8,
+  },
+  compareButton: {
+    ...commonStyles.button.base,
+    ...commonStyles.button.primary,
+    flex: 1,
+  },
+  compareButtonDisabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    ...commonStyles.button.base,
+    ...commonStyles.button.outline,
+    flex: 1,
+  },
+  hintText: {
+    ...commonStyles.text.caption,
+    marginVertical: 8,
+  },
   resultHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -16,7 +16,12 @@ import {
 } from '@utils/characterStorage';
 import { GameEvent } from '@models/types';
 import { colors as themeColors } from '@/styles/theme';
-import { BaseDetailScreen, Section, CollapsibleSection } from '@/components';
+import {
+  BaseDetailScreen,
+  Section,
+  CollapsibleSection,
+  ChangeHistorySection,
+} from '@/components';
 import Markdown from 'react-native-markdown-display';
 import { formatEventDate } from '@utils/dateUtils';
 
@@ -96,14 +101,9 @@ export const EventsDetailScreen: React.FC = () => {
       }}
     >
       {/* Event Images */}
-      {((event.imageUris && event.imageUris.length > 0) || event.imageUri) && (
+      {event.imageUris && event.imageUris.length > 0 && (
         <View style={styles.imageGallery}>
-          {(event.imageUris && event.imageUris.length > 0
-            ? event.imageUris
-            : event.imageUri
-              ? [event.imageUri]
-              : []
-          ).map((uri, index) => (
+          {event.imageUris.map((uri, index) => (
             <View key={index} style={styles.imageContainer}>
               <Image source={{ uri }} style={styles.eventImage} />
             </View>
@@ -195,6 +195,9 @@ export const EventsDetailScreen: React.FC = () => {
         </Section>
       )}
 
+      {/* Change History */}
+      <ChangeHistorySection entityType="event" entityId={event.id} />
+
       {/* Metadata */}
       <View style={styles.metadata}>
         <Text style={styles.metadataText}>
@@ -8,10 +8,12 @@ import {
   Text,
   Image,
   Modal,
+  TextInput,
 } from 'react-native';
 import {
   GameCharacter,
   Faction,
+  FactionRank,
   RelationshipStanding,
   POSITIVE_RELATIONSHIP_TYPE,
   NEGATIVE_RELATIONSHIP_TYPE,
@@ -20,10 +22,10 @@ import {
   loadCharacters,
   updateCharacter,
   getFactionDescription,
-  migrateFactionDescriptions,
   loadFactions,
   deleteFactionCompletely,
 } from '@utils/characterStorage';
+import { compareFactionRanks, getParentFaction } from '@utils/factionHierarchy';
 import {
   useNavigation,
   useRoute,
@@ -38,7 +40,9 @@ import {
   BaseDetailScreen,
   Section,
   CollapsibleSection,
+  ChangeHistorySection,
   ErrorBoundary,
+  InventorySection,
 } from '@/components';
 import { Picker } from '@react-native-picker/picker';
 import Markdown from 'react-native-markdown-display';
@@ -51,6 +55,17 @@ interface FactionMemberInfo {
   faction: Faction;
 }
 
+// Leaders first, then by name within each rank
+const sortMembers = (members: FactionMemberInfo[]): FactionMemberInfo[] =>
+  members.sort(
+    (a, b) =>
+      compareFactionRanks(a.faction, b.faction) ||
+      a.character.name.localeCompare(b.character.name)
+  );
+
+const formatRank = (faction: Faction): string =>
+  [faction.rank, faction.role].filter(Boolean).join(' · ');
+
 export const FactionDetailsScreen: React.FC = () => {
   const route = useRoute<FactionDetailsRouteProp>();
   const navigation = useNavigation<FactionDetailsNavigationProp>();
@@ -58,17 +73,26 @@ export const FactionDetailsScreen: React.FC = () => {
 
   const [members, setMembers] = useState<FactionMemberInfo[]>([]);
   const [nonMembers, setNonMembers] = useState<GameCharacter[]>([]);
+  const [factionId, setFactionId] = useState<string | null>(null);
   const [factionDescription, setFactionDescription] = useState<string>('');
   const [factionImageUris, setFactionImageUris] = useState<string[]>([]);
   const [factionRelationships, setFactionRelationships] = useState<
     Array<{ factionName: string; relationshipType: RelationshipStanding }>
   >([]);
+  const [parentFactionName, setParentFactionName] = useState<string | null>(
+    null
+  );
+  const [subFactionNames, setSubFactionNames] = useState<string[]>([]);
   const [showStandingModal, setShowStandingModal] = useState(false);
+  const [showRankModal, setShowRankModal] = useState(false);
+  const [rankDraft, setRankDraft] = useState<FactionRank | undefined>();
+  const [roleDraft, setRoleDraft] = useState<string>('');
   const [selectedMember, setSelectedMember] =
     useState<FactionMemberInfo | null>(null);
   const [selectedCharacter, setSelectedCharacter] = useState<string>('');
   const [selectedStanding, setSelectedStanding] =
     useState<RelationshipStanding>(RelationshipStanding.Neutral);
+  const [selectedRank, setSelectedRank] = useState<FactionRank | ''>('');
 
   // Guard against missing factionName param
   React.useEffect(() => {
@@ -80,9 +104,6 @@ export const FactionDetailsScreen: React.FC = () => {
   }, [factionName, navigation]);
 
   const loadData = useCallback(async () => {
-    // Run migration on first load (idempotent operation)
-    await migrateFactionDescriptions();
-
     const characters = await loadCharacters();
 
     // Find faction members and non-members
@@ -99,11 +120,7 @@ export const FactionDetailsScreen: React.FC = () => {
       }
     });
 
-    setMembers(
-      factionMembers.sort((a, b) =>
-        a.character.name.localeCompare(b.character.name)
-      )
-    );
+    setMembers(sortMembers(factionMembers));
     setNonMembers(
       factionNonMembers.sort((a, b) => a.name.localeCompare(b.name))
     );
@@ -115,12 +132,22 @@ export const FactionDetailsScreen: React.FC = () => {
     // Load faction images, relationships, and retired status
     const factions = await loadFactions();
     const faction = factions.find(f => f.name === factionName);
+    setFactionId(faction?.id ?? null);
     if (faction) {
       setFactionImageUris(faction.imageUris || []);
       setFactionRelationships(faction.relationships || []);
+      setParentFactionName(getParentFaction(faction, factions)?.name ?? null);
+      setSubFactionNames(
+        factions
+          .filter(f => f.parentFactionId === faction.id)
+          .map(f => f.name)
+          .sort((a, b) => a.localeCompare(b))
+      );
     } else {
       setFactionImageUris([]);
       setFactionRelationships([]);
+      setParentFactionName(null);
+      setSubFactionNames([]);
     }
   }, [factionName]);
 
@@ -179,11 +206,13 @@ export const FactionDetailsScreen: React.FC = () => {
 
   const handleAddMember = async (
     character: GameCharacter,
-    standing: RelationshipStanding
+    standing: RelationshipStanding,
+    rank?: FactionRank
   ) => {
     const newFaction: Faction = {
       name: factionName,
       standing,
+      ...(rank && { rank }),
       description: '', // Description is managed centrally now
     };
 
@@ -198,9 +227,10 @@ export const FactionDetailsScreen: React.FC = () => {
         prevNonMembers.filter(c => c.id !== character.id)
       );
       setMembers(prevMembers =>
-        [...prevMembers, { character: result, faction: newFaction }].sort(
-          (a, b) => a.character.name.localeCompare(b.character.name)
-        )
+        sortMembers([
+          ...prevMembers,
+          { character: result, faction: newFaction },
+        ])
       );
     }
 
@@ -226,7 +256,7 @@ export const FactionDetailsScreen: React.FC = () => {
           prevMembers.map(member =>
             member.character.id === character.id
               ? {
-                  ...member,
+                  character: result,
                   faction: { ...member.faction, standing: newStanding },
                 }
               : member
@@ -242,6 +272,55 @@ export const FactionDetailsScreen: React.FC = () => {
     }
   };
 
+  const handleUpdateRank = async (
+    character: GameCharacter,
+    rank: FactionRank | undefined,
+    role: string
+  ) => {
+    try {
+      const membership = {
+        rank,
+        role: role.trim() || undefined,
+      };
+      const updatedFactions = character.factions.map(f =>
+        f.name === factionName ? { ...f, ...membership } : f
+      );
+      const result = await updateCharacter(character.id, {
+        factions: updatedFactions,
+      });
+
+      if (result) {
+        setMembers(prevMembers =>
+          sortMembers(
+            prevMembers.map(member =>
+              member.character.id === character.id
+                ? {
+                    character: result,
+                    faction: { ...member.faction, ...membership },
+                  }
+                : member
+            )
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Error updating rank:', error);
+      Alert.alert('Error', 'Failed to update rank. Please try again.');
+    }
+  };
+
+  const openRankModal = (member: FactionMemberInfo) => {
+    setSelectedMember(member);
+    setRankDraft(member.faction.rank);
+    setRoleDraft(member.faction.role ?? '');
+    setShowRankModal(true);
+  };
+
+  const closeRankModal = () => {
+    setShowRankModal(false);
+    setSelectedMember(null);
+  };
+
   const getStandingStyle = (standing: string) => {
     switch (standing) {
       case RelationshipStanding.Ally:
@@ -322,7 +401,24 @@ export const FactionDetailsScreen: React.FC = () => {
           navigation.navigate('CharacterDetail', { character: item.character })
         }
       >
-        <Text style={styles.memberName}>{item.character.name}</Text>
+        <View style={styles.memberInfo}>
+          <Text style={styles.memberName}>{item.character.name}</Text>
+          <TouchableOpacity
+            onPress={e => {
+              e.stopPropagation();
+              openRankModal(item);
+            }}
+          >
+            <Text
+              style={[
+                styles.memberRank,
+                !item.faction.rank && !item.faction.role && styles.noRank,
+              ]}
+            >
+              {formatRank(item.faction) || 'Set rank'}
+            </Text>
+          </TouchableOpacity>
+        </View>
         <View style={styles.memberActions}>
           <TouchableOpacity
             style={[
@@ -382,10 +478,15 @@ export const FactionDetailsScreen: React.FC = () => {
 
     const character = nonMembers.find(c => c.id === selectedCharacter);
     if (character) {
-      await handleAddMember(character, selectedStanding);
+      await handleAddMember(
+        character,
+        selectedStanding,
+        selectedRank || undefined
+      );
       // Reset form
       setSelectedCharacter('');
       setSelectedStanding(RelationshipStanding.Neutral);
+      setSelectedRank('');
     }
   };
 
@@ -428,7 +529,7 @@ export const FactionDetailsScreen: React.FC = () => {
             throw new Error('Failed to delete faction');
           }
         },
-        confirmMessage: `Are you sure you want to delete "${factionName}"? This will remove it from all characters and cannot be undone.`,
+        confirmMessage: `Are you sure you want to delete "${factionName}"? This will remove it from all characters. It can be restored from the trash in Data Management.`,
       }}
     >
       {/* Faction Header */}
@@ -527,6 +628,49 @@ export const FactionDetailsScreen: React.FC = () => {
         </View>
       </Section>
 
+      {/* Faction Hierarchy */}
+      {(parentFactionName || subFactionNames.length > 0) && (
+        <Section title="Hierarchy">
+          {parentFactionName && (
+            <>
+              <Text style={styles.sectionSubtitle}>Part Of</Text>
+              <TouchableOpacity
+                style={styles.hierarchyLink}
+                onPress={() =>
+                  navigation.navigate('FactionDetails', {
+                    factionName: parentFactionName,
+                  })
+                }
+              >
+                <Text style={styles.hierarchyLinkText}>
+                  {parentFactionName}
+                </Text>
+                <Text style={styles.hierarchyLinkArrow}>→</Text>
+              </TouchableOpacity>
+            </>
+          )}
+          {subFactionNames.length > 0 && (
+            <>
+              <Text style={styles.sectionSubtitle}>
+                Sub-factions ({subFactionNames.length})
+              </Text>
+              {subFactionNames.map(name => (
+                <TouchableOpacity
+                  key={name}
+                  style={styles.hierarchyLink}
+                  onPress={() =>
+                    navigation.navigate('FactionDetails', { factionName: name })
+                  }
+                >
+                  <Text style={styles.hierarchyLinkText}>{name}</Text>
+                  <Text style={styles.hierarchyLinkArrow}>→</Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+        </Section>
+      )}
+
       {/* Faction Relationships */}
       {factionRelationships.length > 0 && (
         <CollapsibleSection
@@ -651,6 +795,21 @@ export const FactionDetailsScreen: React.FC = () => {
               </Picker>
             </View>
 
+            <Text style={styles.formLabel}>Select Rank</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={selectedRank}
+                onValueChange={itemValue => setSelectedRank(itemValue)}
+                style={styles.picker}
+                dropdownIconColor={themeColors.text.primary}
+              >
+                <Picker.Item label="No rank" value="" />
+                {Object.values(FactionRank).map(rank => (
+                  <Picker.Item key={rank} label={rank} value={rank} />
+                ))}
+              </Picker>
+            </View>
+
             <TouchableOpacity
               style={[
                 styles.addButton,
@@ -669,6 +828,18 @@ export const FactionDetailsScreen: React.FC = () => {
         )}
       </Section>
 
+      {/* Inventory */}
+      {factionId && (
+        <InventorySection
+          owner={{ type: 'faction', id: factionId, name: factionName }}
+        />
+      )}
+
+      {/* Change History */}
+      {factionId && (
+        <ChangeHistorySection entityType="faction" entityId={factionId} />
+      )}
+
       {/* Standing Selection Modal */}
       <Modal
         visible={showStandingModal}
@@ -726,6 +897,72 @@ export const FactionDetailsScreen: React.FC = () => {
           </View>
         </View>
       </Modal>
+
+      {/* Rank Selection Modal */}
+      <Modal
+        visible={showRankModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={closeRankModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Change Rank</Text>
+            <Text style={styles.modalSubtitle}>
+              {selectedMember?.character.name}
+            </Text>
+
+            <View style={styles.modalButtons}>
+              {[...Object.values(FactionRank), undefined].map(rank => (
+                <TouchableOpacity
+                  key={rank ?? 'none'}
+                  style={[
+                    styles.modalRankButton,
+                    rankDraft === rank && styles.modalRankButtonSelected,
+                  ]}
+                  onPress={() => setRankDraft(rank)}
+                >
+                  <Text style={styles.modalStandingText}>
+                    {rank ?? 'No rank'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.formLabel}>Role</Text>
+            <TextInput
+              style={styles.roleInput}
+              value={roleDraft}
+              onChangeText={setRoleDraft}
+              placeholder="e.g. Quartermaster"
+              placeholderTextColor={themeColors.text.muted}
+              maxLength={50}
+            />
+
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={async () => {
+                if (selectedMember) {
+                  await handleUpdateRank(
+                    selectedMember.character,
+                    rankDraft,
+                    roleDraft
+                  );
+                }
+                closeRankModal();
+              }}
+            >
+              <Text style={styles.addButtonText}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.modalCancelButton}
+              onPress={closeRankModal}
+            >
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </BaseDetailScreen>
   );
 };
@@ -801,11 +1038,21 @@ const styles = StyleSheet.create({
   memberContainer: {
     padding: 16,
   },
+  memberInfo: {
+    marginBottom: 12,
+  },
   memberName: {
     fontSize: 16,
     fontWeight: '600',
     color: themeColors.text.primary,
-    marginBottom: 12,
+  },
+  memberRank: {
+    fontSize: 13,
+    color: themeColors.accent.primary,
+    marginTop: 2,
+  },
+  noRank: {
+    color: themeColors.text.muted,
   },
   memberActions: {
     flexDirection: 'row',
@@ -910,6 +1157,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  modalRankButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: themeColors.border,
+  },
+  modalRankButtonSelected: {
+    borderColor: themeColors.accent.primary,
+    backgroundColor: themeColors.elevated,
+  },
+  roleInput: commonStyles.input.base,
   modalCancelButton: {
     paddingVertical: 12,
     alignItems: 'center',
@@ -1024,6 +1284,21 @@ const styles = StyleSheet.create({
     marginRight: 12,
     backgroundColor: themeColors.surface,
   },
+  hierarchyLink: {
+    ...commonStyles.card.base,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  hierarchyLinkText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+  },
+  hierarchyLinkArrow: {
+    ...commonStyles.text.body,
+    color: themeColors.text.secondary,
+  },
   relationshipsContainer: {
     gap: 8,
   },
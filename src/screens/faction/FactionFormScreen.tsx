@@ -20,6 +20,7 @@ import {
   loadFactions,
   FactionRelationship,
 } from '@utils/characterStorage';
+import { canSetParentFaction } from '@utils/factionHierarchy';
 import { colors as themeColors } from '@/styles/theme';
 import { commonStyles } from '@/styles/commonStyles';
 import { BaseFormScreen } from '@/components';
@@ -35,9 +36,9 @@ type FactionFormRouteProp = RouteProp<RootStackParamList, 'FactionForm'>;
 interface FactionFormData {
   name: string;
   description: string;
-  imageUri?: string;
   imageUris?: string[];
   relationships?: FactionRelationship[];
+  parentFactionId?: string;
   retired?: boolean;
 }
 
@@ -49,7 +50,6 @@ export const FactionFormScreen: React.FC = () => {
   const [formData, setFormData] = useState<FactionFormData>({
     name: '',
     description: '',
-    imageUri: undefined,
     imageUris: [],
     relationships: [],
     retired: false,
@@ -58,6 +58,9 @@ export const FactionFormScreen: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [availableFactions, setAvailableFactions] = useState<string[]>([]);
+  const [parentOptions, setParentOptions] = useState<
+    { id: string; name: string }[]
+  >([]);
   const [showRelationshipModal, setShowRelationshipModal] = useState(false);
   const [selectedFactionForRelationship, setSelectedFactionForRelationship] =
     useState<string>('');
@@ -75,19 +78,26 @@ export const FactionFormScreen: React.FC = () => {
         .map(f => f.name);
       setAvailableFactions(otherFactions);
 
-      if (factionName) {
-        const faction = factions.find(f => f.name === factionName);
-        if (faction) {
-          setFormData({
-            name: faction.name,
-            description: faction.description,
-            imageUri: faction.imageUri,
-            imageUris:
-              faction.imageUris || (faction.imageUri ? [faction.imageUri] : []),
-            relationships: faction.relationships || [],
-            retired: faction.retired ?? false,
-          });
-        }
+      const faction = factionName
+        ? factions.find(f => f.name === factionName)
+        : undefined;
+      // Leave out the faction itself and its own sub-factions
+      setParentOptions(
+        factions
+          .filter(f => canSetParentFaction(faction?.id, f.id, factions))
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(f => ({ id: f.id, name: f.name }))
+      );
+
+      if (faction) {
+        setFormData({
+          name: faction.name,
+          description: faction.description,
+          imageUris: faction.imageUris || [],
+          relationships: faction.relationships || [],
+          parentFactionId: faction.parentFactionId,
+          retired: faction.retired ?? false,
+        });
       }
     };
     loadFactionData();
@@ -126,7 +136,6 @@ export const FactionFormScreen: React.FC = () => {
       setFormData({
         ...formData,
         imageUris: [...currentImages, newImageUri],
-        imageUri: currentImages.length === 0 ? newImageUri : formData.imageUri,
       });
     }
   };
@@ -137,7 +146,6 @@ export const FactionFormScreen: React.FC = () => {
     setFormData({
       ...formData,
       imageUris: newImages,
-      imageUri: newImages.length > 0 ? newImages[0] : undefined,
     });
   };
 
@@ -248,9 +256,9 @@ export const FactionFormScreen: React.FC = () => {
         const updated = await updateFaction(factionName, {
           name: formData.name.trim(),
           description: formData.description.trim(),
-          imageUri: formData.imageUri,
           imageUris: formData.imageUris,
           relationships: formData.relationships || [],
+          parentFactionId: formData.parentFactionId,
           retired: formData.retired,
         });
 
@@ -273,9 +281,9 @@ export const FactionFormScreen: React.FC = () => {
         const success = await createFaction({
           name: formData.name.trim(),
           description: formData.description.trim(),
-          imageUri: formData.imageUri,
           imageUris: formData.imageUris,
           relationships: formData.relationships || [],
+          parentFactionId: formData.parentFactionId,
           retired: formData.retired,
         });
 
@@ -412,6 +420,35 @@ export const FactionFormScreen: React.FC = () => {
           </Text>
         </View>
 
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Parent Faction</Text>
+          <Text style={styles.helperText}>
+            Make this faction a cell or branch of a larger one
+          </Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={formData.parentFactionId ?? ''}
+              onValueChange={itemValue =>
+                setFormData({
+                  ...formData,
+                  parentFactionId: itemValue || undefined,
+                })
+              }
+              style={styles.picker}
+              dropdownIconColor={themeColors.text.primary}
+            >
+              <Picker.Item label="None (top-level faction)" value="" />
+              {parentOptions.map(option => (
+                <Picker.Item
+                  key={option.id}
+                  label={option.name}
+                  value={option.id}
+                />
+              ))}
+            </Picker>
+          </View>
+        </View>
+
         <View style={styles.inputGroup}>
           <Text style={styles.inputLabel}>Faction Relationships</Text>
           <Text style={styles.helperText}>
@@ -10,9 +10,15 @@ import {
 import {
   loadCharacters,
   getFactionDescription,
-  migrateFactionDescriptions,
   loadFactions,
+  StoredFaction,
 } from '@utils/characterStorage';
+import {
+  buildFactionTree,
+  flattenFactionTree,
+  getParentFaction,
+  getSubFactions,
+} from '@utils/factionHierarchy';
 import {
   useNavigation,
   useFocusEffect,
@@ -28,6 +34,8 @@ import {
   HeaderStatsButton,
 } from '@/components';
 
+const TREE_INDENT = 20;
+
 type FactionNavigationProp = CompositeNavigationProp<
   DrawerNavigationProp<RootDrawerParamList, 'Factions'>,
   StackNavigationProp<RootStackParamList>
@@ -40,18 +48,20 @@ interface FactionInfo {
   presentCount: number;
   standingCounts: Record<string, number>;
   retired?: boolean;
+  parentName?: string;
+  subFactionCount: number;
+  rolledUpCount: number; // Members including those of sub-factions
+  depth: number; // Indent in the faction tree
 }
 
 export const FactionListScreen: React.FC = () => {
   const [factionInfos, setFactionInfos] = useState<FactionInfo[]>([]);
+  const [storedFactions, setStoredFactions] = useState<StoredFaction[]>([]);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [showRetired, setShowRetired] = useState<boolean>(false);
   const navigation = useNavigation<FactionNavigationProp>();
 
   const loadData = useCallback(async () => {
-    // Run migration on first load (idempotent operation)
-    await migrateFactionDescriptions();
-
     const data = await loadCharacters();
 
     // Process factions
@@ -65,9 +75,9 @@ export const FactionListScreen: React.FC = () => {
     >();
 
     // First, load centralized factions to ensure all created factions appear
-    const storedFactions = await loadFactions();
+    const factions = await loadFactions();
     const factionRetiredMap = new Map<string, boolean>();
-    storedFactions.forEach(storedFaction => {
+    factions.forEach(storedFaction => {
       factionRetiredMap.set(storedFaction.name, storedFaction.retired ?? false);
       if (!factionMap.has(storedFaction.name)) {
         factionMap.set(storedFaction.name, {
@@ -117,6 +127,18 @@ export const FactionListScreen: React.FC = () => {
         // Get the centralized faction description
         const centralDescription = await getFactionDescription(name);
 
+        // Members of sub-factions count towards their parents
+        const storedFaction = factions.find(f => f.name === name);
+        const subFactions = storedFaction
+          ? getSubFactions(storedFaction, factions)
+          : [];
+        const rolledUp = new Set(data.characters.map(c => c.id));
+        subFactions.forEach(subFaction =>
+          factionMap
+            .get(subFaction.name)
+            ?.characters.forEach(c => rolledUp.add(c.id))
+        );
+
         return {
           faction: {
             ...data.faction,
@@ -127,6 +149,12 @@ export const FactionListScreen: React.FC = () => {
           presentCount: data.characters.filter(c => c.present === true).length,
           standingCounts: data.standings,
           retired: factionRetiredMap.get(name) ?? false,
+          parentName: storedFaction
+            ? getParentFaction(storedFaction, factions)?.name
+            : undefined,
+          subFactionCount: subFactions.length,
+          rolledUpCount: rolledUp.size,
+          depth: 0,
         };
       })
     );
@@ -137,6 +165,7 @@ export const FactionListScreen: React.FC = () => {
     );
 
     setFactionInfos(factionInfosArray);
+    setStoredFactions(factions);
   }, []);
 
   useFocusEffect(
@@ -166,11 +195,31 @@ export const FactionListScreen: React.FC = () => {
       );
     }
 
-    // Sort alphabetically by faction name
-    return filtered.sort((a, b) =>
-      a.faction.name.localeCompare(b.faction.name)
-    );
-  }, [factionInfos, searchQuery, showRetired]);
+    // Search results are listed flat and alphabetically
+    if (searchQuery.trim()) {
+      return filtered.sort((a, b) =>
+        a.faction.name.localeCompare(b.faction.name)
+      );
+    }
+
+    // Otherwise show sub-factions indented under their parents; factions
+    // only known from characters have no place in the tree and come last
+    const byName = new Map(filtered.map(info => [info.faction.name, info]));
+    const tree = flattenFactionTree(
+      buildFactionTree(storedFactions.filter(f => byName.has(f.name)))
+    ).flatMap(({ faction, depth }) => {
+      const info = byName.get(faction.name);
+      if (!info) return [];
+      byName.delete(faction.name);
+      return [{ ...info, depth }];
+    });
+    return [
+      ...tree,
+      ...Array.from(byName.values()).sort((a, b) =>
+        a.faction.name.localeCompare(b.faction.name)
+      ),
+    ];
+  }, [factionInfos, storedFactions, searchQuery, showRetired]);
 
   const filteredFactions = React.useMemo(
     () => getFilteredFactions(),
@@ -184,17 +233,34 @@ export const FactionListScreen: React.FC = () => {
   };
 
   const renderFactionItem = (item: FactionInfo) => (
-    <View style={styles.factionCard}>
+    <View
+      style={[
+        styles.factionCard,
+        item.depth > 0 && styles.subFactionCard,
+        item.depth > 0 && { marginLeft: item.depth * TREE_INDENT },
+      ]}
+    >
       <TouchableOpacity
         style={styles.factionContent}
         onPress={() => handleFactionSelect(item)}
       >
         <View style={styles.factionHeader}>
-          <Text style={styles.factionName}>{item.faction.name}</Text>
+          <View style={styles.factionTitle}>
+            <Text style={styles.factionName}>{item.faction.name}</Text>
+            {item.parentName && (
+              <Text style={styles.parentText}>Part of {item.parentName}</Text>
+            )}
+          </View>
           <View style={styles.factionCounts}>
             <Text style={styles.countText}>
               {item.totalCount} member{item.totalCount !== 1 ? 's' : ''}
             </Text>
+            {item.subFactionCount > 0 && (
+              <Text style={styles.presentText}>
+                {item.rolledUpCount} with {item.subFactionCount} sub-faction
+                {item.subFactionCount !== 1 ? 's' : ''}
+              </Text>
+            )}
             <Text style={styles.presentText}>{item.presentCount} present</Text>
           </View>
         </View>
@@ -327,10 +393,15 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     marginBottom: 12,
   },
-  factionName: {
-    ...commonStyles.text.h3,
+  subFactionCard: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#6C5CE7',
+  },
+  factionTitle: {
     flex: 1,
   },
+  factionName: commonStyles.text.h3,
+  parentText: commonStyles.text.caption,
   factionCounts: {
     alignItems: 'flex-end',
   },
@@ -0,0 +1,240 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '@/navigation/types';
+import { RelationshipStanding } from '@/models/types';
+import { loadCharacters, loadFactions } from '@/utils/characterStorage';
+import {
+  buildFactionMatrix,
+  findContradictions,
+  FactionMatrix,
+  FactionMatrixCell,
+} from '@/utils/factionMatrix';
+import { colors as themeColors } from '@/styles/theme';
+import { commonStyles } from '@/styles/commonStyles';
+
+type FactionMatrixNavigationProp = StackNavigationProp<RootStackParamList>;
+
+const CELL_WIDTH = 96;
+const LABEL_WIDTH = 110;
+
+const STANDING_COLORS: Record<RelationshipStanding, string> = {
+  [RelationshipStanding.Ally]: themeColors.standing.allied,
+  [RelationshipStanding.Friend]: themeColors.standing.friendly,
+  [RelationshipStanding.Neutral]: themeColors.standing.neutral,
+  [RelationshipStanding.Hostile]: themeColors.standing.hostile,
+  [RelationshipStanding.Enemy]: themeColors.standing.enemy,
+};
+
+export const FactionMatrixScreen: React.FC = () => {
+  const navigation = useNavigation<FactionMatrixNavigationProp>();
+  const [matrix, setMatrix] = useState<FactionMatrix | null>(null);
+
+  const loadData = useCallback(async () => {
+    const [characters, factions] = await Promise.all([
+      loadCharacters(),
+      loadFactions(),
+    ]);
+    setMatrix(
+      buildFactionMatrix(
+        factions,
+        characters.filter(c => !c.retired)
+      )
+    );
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  if (!matrix) return null;
+
+  const contradictions = findContradictions(matrix);
+
+  const renderStanding = (label: string, standing?: RelationshipStanding) => (
+    <Text
+      style={[
+        styles.cellText,
+        standing && { color: STANDING_COLORS[standing] },
+      ]}
+    >
+      {label} {standing ?? '—'}
+    </Text>
+  );
+
+  const renderCell = (cell: FactionMatrixCell, isDiagonal: boolean) => (
+    <View
+      key={cell.to}
+      style={[
+        styles.cell,
+        isDiagonal && styles.diagonalCell,
+        cell.contradiction && styles.contradictionCell,
+      ]}
+    >
+      {!isDiagonal && (
+        <>
+          {renderStanding('D', cell.declared)}
+          {renderStanding('M', cell.inferred)}
+          {cell.contradiction && <Text style={styles.warningIcon}>⚠</Text>}
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.header}>Faction Matrix</Text>
+        <Text style={styles.description}>
+          Each row is how a faction stands towards the faction of each column: D
+          is the standing it declares, M the average standing of its members.
+          Cells marked ⚠ point opposite ways.
+        </Text>
+
+        {matrix.factions.length < 2 ? (
+          <Text style={styles.emptyText}>
+            Add at least two active factions to compare their standings.
+          </Text>
+        ) : (
+          <ScrollView horizontal style={styles.matrix}>
+            <View>
+              <View style={styles.row}>
+                <View style={styles.rowLabel} />
+                {matrix.factions.map(name => (
+                  <Text
+                    key={name}
+                    style={[styles.columnLabel, styles.cell]}
+                    numberOfLines={2}
+                  >
+                    {name}
+                  </Text>
+                ))}
+              </View>
+              {matrix.cells.map((row, i) => (
+                <View key={matrix.factions[i]} style={styles.row}>
+                  <TouchableOpacity
+                    style={styles.rowLabel}
+                    onPress={() =>
+                      navigation.navigate('FactionDetails', {
+                        factionName: matrix.factions[i],
+                      })
+                    }
+                  >
+                    <Text style={styles.rowLabelText} numberOfLines={2}>
+                      {matrix.factions[i]}
+                    </Text>
+                  </TouchableOpacity>
+                  {row.map((cell, j) => renderCell(cell, i === j))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Contradictions ({contradictions.length})
+          </Text>
+          {contradictions.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Declared standings match what the members think.
+            </Text>
+          ) : (
+            contradictions.map(cell => (
+              <Text key={`${cell.from}-${cell.to}`} style={styles.itemText}>
+                ⚠ {cell.from} declares {cell.to} {cell.declared}, but its{' '}
+                {cell.inferredFrom === 1
+                  ? 'member is'
+                  : `${cell.inferredFrom} members are`}{' '}
+                {cell.inferred} on average.
+              </Text>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: commonStyles.layout.container,
+  scrollView: commonStyles.layout.scrollView,
+  contentContainer: commonStyles.layout.contentContainer,
+  header: commonStyles.text.h1,
+  description: {
+    ...commonStyles.text.bodyLarge,
+    marginBottom: 24,
+    lineHeight: 24,
+  },
+  matrix: {
+    marginBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  rowLabel: {
+    width: LABEL_WIDTH,
+    justifyContent: 'center',
+    paddingRight: 8,
+  },
+  rowLabelText: {
+    ...commonStyles.text.body,
+    fontWeight: '600',
+  },
+  columnLabel: {
+    ...commonStyles.text.caption,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  cell: {
+    width: CELL_WIDTH,
+    minHeight: 52,
+    padding: 6,
+    borderWidth: 1,
+    borderColor: themeColors.border,
+    justifyContent: 'center',
+  },
+  diagonalCell: {
+    backgroundColor: themeColors.secondary,
+  },
+  contradictionCell: {
+    borderWidth: 2,
+    borderColor: themeColors.accent.danger,
+  },
+  cellText: {
+    ...commonStyles.text.caption,
+    fontSize: 11,
+  },
+  warningIcon: {
+    position: 'absolute',
+    top: 2,
+    right: 4,
+    color: themeColors.accent.danger,
+  },
+  section: commonStyles.layout.section,
+  sectionTitle: {
+    ...commonStyles.text.h2,
+    marginBottom: 12,
+  },
+  itemText: {
+    ...commonStyles.text.body,
+    color: themeColors.accent.warning,
+    marginBottom: 6,
+  },
+  emptyText: {
+    ...commonStyles.text.body,
+    color: themeColors.text.secondary,
+  },
+});
@@ -10,7 +10,7 @@ import {
 } from 'react-native';
 import { GameCharacter, GameLocation } from '@models/types';
 import {
-  loadCharacters,
+  loadCharactersAtLocation,
   getLocation,
   deleteLocationCompletely,
 } from '@utils/characterStorage';
@@ -24,7 +24,12 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '@/navigation/types';
 import { colors as themeColors } from '@/styles/theme';
 import { commonStyles } from '@/styles/commonStyles';
-import { BaseDetailScreen, Section, CollapsibleSection } from '@/components';
+import {
+  BaseDetailScreen,
+  Section,
+  CollapsibleSection,
+  ChangeHistorySection,
+} from '@/components';
 
 type LocationDetailsRouteProp = RouteProp<
   RootStackParamList,
@@ -65,10 +70,7 @@ export const LocationDetailsScreen: React.FC = () => {
 
     setLocation(locationData);
 
-    const allCharacters = await loadCharacters();
-    const locationCharacters = allCharacters.filter(
-      c => c.locationId === locationId
-    );
+    const locationCharacters = await loadCharactersAtLocation(locationId);
     setCharacters(
       locationCharacters.sort((a, b) => a.name.localeCompare(b.name))
     );
@@ -149,7 +151,7 @@ export const LocationDetailsScreen: React.FC = () => {
             throw new Error('Failed to delete location');
           }
         },
-        confirmMessage: `Are you sure you want to delete "${location.name}"? This will remove it from all characters and cannot be undone.`,
+        confirmMessage: `Are you sure you want to delete "${location.name}"? This will remove it from all characters. It can be restored from the trash in Data Management.`,
       }}
     >
       {/* Location Header */}
@@ -157,20 +159,14 @@ export const LocationDetailsScreen: React.FC = () => {
         <Text style={styles.locationName}>{location.name}</Text>
 
         {/* Location Images */}
-        {((location.imageUris && location.imageUris.length > 0) ||
-          location.imageUri) && (
+        {location.imageUris && location.imageUris.length > 0 && (
           <ScrollView
             horizontal
             showsHorizontalScrollIndicator={false}
             style={styles.imageGallery}
             contentContainerStyle={styles.imageGalleryContent}
           >
-            {(location.imageUris && location.imageUris.length > 0
-              ? location.imageUris
-              : location.imageUri
-                ? [location.imageUri]
-                : []
-            ).map((uri, index) => (
+            {location.imageUris.map((uri, index) => (
               <View key={index} style={styles.imageContainer}>
                 <Image
                   source={{ uri }}
@@ -229,6 +225,9 @@ export const LocationDetailsScreen: React.FC = () => {
           </View>
         )}
       </CollapsibleSection>
+
+      {/* Change History */}
+      <ChangeHistorySection entityType="location" entityId={location.id} />
     </BaseDetailScreen>
   );
 };
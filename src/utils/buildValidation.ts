@@ -0,0 +1,235 @@
+/**
+ * Character build validation.
+ *
+ * Checks a character against the rules of a rules pack and reports every
+ * broken rule as a structured violation. Saving is never blocked by a
+ * violation; the character form shows them inline and the illegal builds
+ * report lists them for the whole campaign, so the GM decides what to fix.
+ */
+
+import type { CharacterFormData, GameCharacter } from '@models/types';
+import type { RulesPack } from '@models/gameData';
+import { calculateDerivedStats } from './derivedStats';
+import {
+  findCyberwareDefinition,
+  isCyberwareInstalled,
+} from './cyberwareCatalog';
+import { getActiveRulesPack } from './rulesPackStorage';
+
+// Number of distinctions a character may have
+export const MAX_DISTINCTIONS = 3;
+
+export type BuildViolationType =
+  | 'unknown-species'
+  | 'unknown-perk'
+  | 'unknown-distinction'
+  | 'perk-not-allowed'
+  | 'distinction-not-allowed'
+  | 'duplicate-perk'
+  | 'duplicate-distinction'
+  | 'too-many-distinctions'
+  | 'cyberware-not-allowed'
+  | 'unknown-cyberware'
+  | 'cyberware-restricted'
+  | 'cyberware-removed-before-install'
+  | 'health-over-cap'
+  | 'limit-over-cap';
+
+export interface BuildViolation {
+  type: BuildViolationType;
+  // Part of the build the violation belongs to; 'stats' covers the totals
+  // of perks, bonuses and cyberware together
+  field: 'species' | 'perkIds' | 'distinctionIds' | 'cyberware' | 'stats';
+  message: string;
+  entityId?: string; // Perk, distinction or catalog cyberware ID it is about
+}
+
+export interface IllegalBuild {
+  character: GameCharacter;
+  violations: BuildViolation[];
+}
+
+const findDuplicates = (ids: string[]): string[] =>
+  Array.from(new Set(ids.filter((id, index) => ids.indexOf(id) !== index)));
+
+/**
+ * Check a character (or unsaved form data) against a rules pack
+ */
+export const validateCharacterBuild = (
+  character: CharacterFormData | GameCharacter,
+  rulesPack: RulesPack = getActiveRulesPack()
+): BuildViolation[] => {
+  const violations: BuildViolation[] = [];
+  const speciesStats = rulesPack.species[character.species];
+
+  if (!speciesStats) {
+    violations.push({
+      type: 'unknown-species',
+      field: 'species',
+      message: `${character.species} is not a species of the ${rulesPack.name} rules pack.`,
+    });
+  }
+
+  findDuplicates(character.perkIds).forEach(perkId => {
+    const perk = rulesPack.perks.find(p => p.id === perkId);
+    violations.push({
+      type: 'duplicate-perk',
+      field: 'perkIds',
+      message: `${perk?.name ?? perkId} is taken more than once.`,
+      entityId: perkId,
+    });
+  });
+
+  Array.from(new Set(character.perkIds)).forEach(perkId => {
+    const perk = rulesPack.perks.find(p => p.id === perkId);
+    if (!perk) {
+      violations.push({
+        type: 'unknown-perk',
+        field: 'perkIds',
+        message: `Perk "${perkId}" is not defined in the ${rulesPack.name} rules pack.`,
+        entityId: perkId,
+      });
+    } else if (
+      perk.allowedSpecies &&
+      !perk.allowedSpecies.includes(character.species)
+    ) {
+      violations.push({
+        type: 'perk-not-allowed',
+        field: 'perkIds',
+        message: `${perk.name} is only available to ${perk.allowedSpecies.join(', ')}.`,
+        entityId: perkId,
+      });
+    }
+  });
+
+  findDuplicates(character.distinctionIds).forEach(distinctionId => {
+    const distinction = rulesPack.distinctions.find(
+      d => d.id === distinctionId
+    );
+    violations.push({
+      type: 'duplicate-distinction',
+      field: 'distinctionIds',
+      message: `${distinction?.name ?? distinctionId} is taken more than once.`,
+      entityId: distinctionId,
+    });
+  });
+
+  const distinctionIds = Array.from(new Set(character.distinctionIds));
+  distinctionIds.forEach(distinctionId => {
+    const distinction = rulesPack.distinctions.find(
+      d => d.id === distinctionId
+    );
+    if (!distinction) {
+      violations.push({
+        type: 'unknown-distinction',
+        field: 'distinctionIds',
+        message: `Distinction "${distinctionId}" is not defined in the ${rulesPack.name} rules pack.`,
+        entityId: distinctionId,
+      });
+    } else if (
+      distinction.allowedSpecies &&
+      !distinction.allowedSpecies.includes(character.species)
+    ) {
+      violations.push({
+        type: 'distinction-not-allowed',
+        field: 'distinctionIds',
+        message: `${distinction.name} is only available to ${distinction.allowedSpecies.join(', ')}.`,
+        entityId: distinctionId,
+      });
+    }
+  });
+
+  if (distinctionIds.length > MAX_DISTINCTIONS) {
+    violations.push({
+      type: 'too-many-distinctions',
+      field: 'distinctionIds',
+      message: `${distinctionIds.length} distinctions taken, but at most ${MAX_DISTINCTIONS} are allowed.`,
+    });
+  }
+
+  (character.cyberware ?? []).forEach(cyber => {
+    const definition = findCyberwareDefinition(cyber, rulesPack);
+    if (cyber.catalogId && !definition) {
+      violations.push({
+        type: 'unknown-cyberware',
+        field: 'cyberware',
+        message: `Cyberware "${cyber.catalogId}" (${cyber.name}) is not in the ${rulesPack.name} catalog.`,
+        entityId: cyber.catalogId,
+      });
+    } else if (
+      definition?.allowedSpecies &&
+      isCyberwareInstalled(cyber) &&
+      !definition.allowedSpecies.includes(character.species)
+    ) {
+      violations.push({
+        type: 'cyberware-restricted',
+        field: 'cyberware',
+        message: `${definition.name} is only available to ${definition.allowedSpecies.join(', ')}.`,
+        entityId: definition.id,
+      });
+    }
+    if (
+      cyber.installedDate &&
+      cyber.removedDate &&
+      cyber.removedDate < cyber.installedDate
+    ) {
+      violations.push({
+        type: 'cyberware-removed-before-install',
+        field: 'cyberware',
+        message: `${cyber.name} is removed on ${cyber.removedDate}, before it was installed on ${cyber.installedDate}.`,
+        ...(cyber.catalogId && { entityId: cyber.catalogId }),
+      });
+    }
+  });
+
+  // Everything below depends on the species' stats
+  if (!speciesStats) return violations;
+
+  // Removed implants are only history
+  const cyberwareCount = (character.cyberware ?? []).filter(
+    isCyberwareInstalled
+  ).length;
+  if (cyberwareCount > 0 && !speciesStats.canUseCyberware) {
+    violations.push({
+      type: 'cyberware-not-allowed',
+      field: 'cyberware',
+      message: `${character.species} characters can't use cyberware, but ${cyberwareCount} ${cyberwareCount === 1 ? 'piece is' : 'pieces are'} installed.`,
+    });
+  }
+
+  const stats = calculateDerivedStats(
+    { id: '', createdAt: '', updatedAt: '', ...character },
+    rulesPack
+  );
+
+  if (stats.uncappedHealth > stats.healthCap) {
+    violations.push({
+      type: 'health-over-cap',
+      field: 'stats',
+      message: `Health adds up to ${stats.uncappedHealth}, above the ${character.species} cap of ${stats.healthCap}.`,
+    });
+  }
+  if (stats.uncappedLimit > stats.limitCap) {
+    violations.push({
+      type: 'limit-over-cap',
+      field: 'stats',
+      message: `Limit adds up to ${stats.uncappedLimit}, above the ${character.species} cap of ${stats.limitCap}.`,
+    });
+  }
+
+  return violations;
+};
+
+/**
+ * Find every character of a campaign that breaks the rules, in the order given
+ */
+export const findIllegalBuilds = (
+  characters: GameCharacter[],
+  rulesPack: RulesPack = getActiveRulesPack()
+): IllegalBuild[] =>
+  characters
+    .map(character => ({
+      character,
+      violations: validateCharacterBuild(character, rulesPack),
+    }))
+    .filter(build => build.violations.length > 0);
@@ -0,0 +1,256 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SafeAsyncStorageJSONParser } from './safeAsyncStorageJSONParser';
+
+/**
+ * Campaign workspaces
+ *
+ * Every campaign owns its own copy of the character, faction, location,
+ * event and Discord data. Storage modules resolve their AsyncStorage keys
+ * through getCampaignStorageKey so that switching campaigns never mixes data.
+ * The default campaign keeps the original un-suffixed keys, which means data
+ * saved before campaigns existed shows up there without any migration.
+ */
+
+export interface Campaign {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CampaignDataset {
+  campaigns: Campaign[];
+  activeCampaignId: string;
+  version: string;
+  lastUpdated: string;
+}
+
+export const DEFAULT_CAMPAIGN_ID = 'default';
+const DEFAULT_CAMPAIGN_NAME = 'Default Campaign';
+
+// Campaign metadata is global and therefore never namespaced
+const CAMPAIGNS_STORAGE_KEY = 'gameCharacterManager_campaigns';
+const CAMPAIGN_KEY_SEPARATOR = '@campaign:';
+
+type CampaignChangeListener = (campaign: Campaign) => void;
+
+const createDefaultCampaign = (): Campaign => {
+  const now = new Date().toISOString();
+  return {
+    id: DEFAULT_CAMPAIGN_ID,
+    name: DEFAULT_CAMPAIGN_NAME,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+let activeCampaign: Campaign = createDefaultCampaign();
+const listeners = new Set<CampaignChangeListener>();
+
+/**
+ * Get the ID of the campaign all storage functions currently operate on
+ */
+export const getActiveCampaignId = (): string => activeCampaign.id;
+
+/**
+ * Get the campaign all storage functions currently operate on
+ */
+export const getActiveCampaign = (): Campaign => activeCampaign;
+
+/**
+ * Resolve the AsyncStorage key for a base key within a campaign.
+ * The default campaign uses the base key unchanged for backward compatibility.
+ */
+export const getCampaignStorageKey = (
+  baseKey: string,
+  campaignId: string = activeCampaign.id
+): string => {
+  if (campaignId === DEFAULT_CAMPAIGN_ID) {
+    return baseKey;
+  }
+  return `${baseKey}${CAMPAIGN_KEY_SEPARATOR}${campaignId}`;
+};
+
+const loadCampaignDataset = async (): Promise<CampaignDataset> => {
+  const dataset = await SafeAsyncStorageJSONParser.getItem<CampaignDataset>(
+    CAMPAIGNS_STORAGE_KEY
+  );
+
+  const campaigns = dataset?.campaigns ?? [];
+  // The default campaign always exists, even on a fresh install
+  if (!campaigns.some(c => c.id === DEFAULT_CAMPAIGN_ID)) {
+    campaigns.unshift(createDefaultCampaign());
+  }
+
+  return {
+    campaigns,
+    activeCampaignId: dataset?.activeCampaignId ?? DEFAULT_CAMPAIGN_ID,
+    version: dataset?.version ?? '1.0',
+    lastUpdated: dataset?.lastUpdated ?? new Date().toISOString(),
+  };
+};
+
+const saveCampaignDataset = async (
+  campaigns: Campaign[],
+  activeCampaignId: string
+): Promise<void> => {
+  const dataset: CampaignDataset = {
+    campaigns,
+    activeCampaignId,
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  };
+  await SafeAsyncStorageJSONParser.setItem(CAMPAIGNS_STORAGE_KEY, dataset);
+};
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener(activeCampaign));
+};
+
+/**
+ * Load all campaigns (the default campaign is always included)
+ */
+export const loadCampaigns = async (): Promise<Campaign[]> => {
+  const dataset = await loadCampaignDataset();
+  return dataset.campaigns;
+};
+
+/**
+ * Restore the persisted active campaign. Call once on app start before any
+ * data is loaded.
+ */
+export const initializeCampaigns = async (): Promise<Campaign> => {
+  const dataset = await loadCampaignDataset();
+  activeCampaign =
+    dataset.campaigns.find(c => c.id === dataset.activeCampaignId) ??
+    dataset.campaigns.find(c => c.id === DEFAULT_CAMPAIGN_ID) ??
+    createDefaultCampaign();
+  notifyListeners();
+  return activeCampaign;
+};
+
+/**
+ * Subscribe to active campaign changes. Returns an unsubscribe function.
+ */
+export const subscribeToCampaignChanges = (
+  listener: CampaignChangeListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Make a campaign the active one and persist the choice
+ */
+export const setActiveCampaign = async (
+  campaignId: string
+): Promise<Campaign | null> => {
+  const dataset = await loadCampaignDataset();
+  const campaign = dataset.campaigns.find(c => c.id === campaignId);
+  if (!campaign) return null;
+
+  await saveCampaignDataset(dataset.campaigns, campaign.id);
+  activeCampaign = campaign;
+  notifyListeners();
+  return campaign;
+};
+
+/**
+ * Create a new, empty campaign. Returns null if the name is already taken.
+ */
+export const createCampaign = async (
+  name: string
+): Promise<Campaign | null> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) return null;
+
+  const dataset = await loadCampaignDataset();
+  const nameExists = dataset.campaigns.some(
+    c => c.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+  if (nameExists) return null;
+
+  const now = new Date().toISOString();
+  const campaign: Campaign = {
+    id: uuidv4(),
+    name: trimmedName,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveCampaignDataset(
+    [...dataset.campaigns, campaign],
+    dataset.activeCampaignId
+  );
+  return campaign;
+};
+
+/**
+ * Rename a campaign. Returns null if it doesn't exist or the name is taken.
+ */
+export const renameCampaign = async (
+  campaignId: string,
+  name: string
+): Promise<Campaign | null> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) return null;
+
+  const dataset = await loadCampaignDataset();
+  const index = dataset.campaigns.findIndex(c => c.id === campaignId);
+  if (index === -1) return null;
+
+  const nameExists = dataset.campaigns.some(
+    c =>
+      c.id !== campaignId && c.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+  if (nameExists) return null;
+
+  const updatedCampaign: Campaign = {
+    ...dataset.campaigns[index],
+    name: trimmedName,
+    updatedAt: new Date().toISOString(),
+  };
+  dataset.campaigns[index] = updatedCampaign;
+
+  await saveCampaignDataset(dataset.campaigns, dataset.activeCampaignId);
+  if (activeCampaign.id === campaignId) {
+    activeCampaign = updatedCampaign;
+    notifyListeners();
+  }
+  return updatedCampaign;
+};
+
+/**
+ * Delete a campaign and every storage key it owns.
+ * The default campaign cannot be deleted. Deleting the active campaign
+ * switches back to the default campaign.
+ */
+export const deleteCampaign = async (campaignId: string): Promise<boolean> => {
+  if (campaignId === DEFAULT_CAMPAIGN_ID) return false;
+
+  const dataset = await loadCampaignDataset();
+  const remaining = dataset.campaigns.filter(c => c.id !== campaignId);
+  if (remaining.length === dataset.campaigns.length) return false;
+
+  const suffix = `${CAMPAIGN_KEY_SEPARATOR}${campaignId}`;
+  const allKeys = await SafeAsyncStorageJSONParser.getAllKeys();
+  for (const key of allKeys.filter(k => k.endsWith(suffix))) {
+    await SafeAsyncStorageJSONParser.removeItem(key);
+  }
+
+  const nextActiveId =
+    dataset.activeCampaignId === campaignId
+      ? DEFAULT_CAMPAIGN_ID
+      : dataset.activeCampaignId;
+  await saveCampaignDataset(remaining, nextActiveId);
+
+  if (activeCampaign.id === campaignId) {
+    activeCampaign =
+      remaining.find(c => c.id === DEFAULT_CAMPAIGN_ID) ??
+      createDefaultCampaign();
+    notifyListeners();
+  }
+  return true;
+};
@@ -0,0 +1,358 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameCharacter, GameEvent, GameLocation } from '@models/types';
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+import type { StoredFaction } from './characterStorage';
+
+/**
+ * Change journal
+ *
+ * Every edit made through the storage functions is recorded as a journal
+ * entry holding, for each entity it touched, the fields the edit changed
+ * before and after it, or the whole entity when it was created or deleted.
+ * Keeping only the changed fields stops every edit from storing another
+ * copy of the entity and its images. The journal drives the app-wide
+ * undo/redo (see undoRedo.ts) and the History section on the detail
+ * screens. Entries are per campaign; the author name is per device.
+ */
+
+export type JournalEntityType = 'character' | 'faction' | 'location' | 'event';
+
+export type JournalEntity =
+  | GameCharacter
+  | StoredFaction
+  | GameLocation
+  | GameEvent;
+
+// The fields of an entity on one side of a change
+export type JournalEntityFields = Partial<JournalEntity>;
+
+export interface EntityChange {
+  entityType: JournalEntityType;
+  entityId: string;
+  entityName: string; // Display name at the time of the change
+  before: JournalEntityFields | null; // null when the entity was created
+  after: JournalEntityFields | null; // null when the entity was deleted
+}
+
+export interface ChangeJournalEntry {
+  id: string;
+  description: string;
+  author: string;
+  timestamp: string;
+  changes: EntityChange[];
+  revertsEntryId?: string; // Set on entries written by undo and redo
+}
+
+interface ChangeJournalDataset {
+  entries: ChangeJournalEntry[];
+  undoStack: string[]; // Entry IDs, most recent last
+  redoStack: string[];
+  version: string;
+  lastUpdated: string;
+}
+
+const JOURNAL_STORAGE_KEY = 'gameCharacterManager_journal';
+// The author is a device setting and therefore never namespaced
+const AUTHOR_STORAGE_KEY = 'gameCharacterManager_journal_author';
+
+export const DEFAULT_JOURNAL_AUTHOR = 'This device';
+export const MAX_UNDO_STEPS = 50;
+const MAX_JOURNAL_ENTRIES = 500;
+
+type JournalChangeListener = () => void;
+const listeners = new Set<JournalChangeListener>();
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Subscribe to journal updates (new changes, undo and redo).
+ * Returns an unsubscribe function.
+ */
+export const subscribeToJournalChanges = (
+  listener: JournalChangeListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const loadJournal = async (): Promise<ChangeJournalDataset> => {
+  const dataset =
+    await SafeAsyncStorageJSONParser.getItem<ChangeJournalDataset>(
+      getCampaignStorageKey(JOURNAL_STORAGE_KEY)
+    );
+
+  return {
+    entries: dataset?.entries ?? [],
+    undoStack: dataset?.undoStack ?? [],
+    redoStack: dataset?.redoStack ?? [],
+    version: dataset?.version ?? '1.0',
+    lastUpdated: dataset?.lastUpdated ?? new Date().toISOString(),
+  };
+};
+
+const saveJournal = async (journal: ChangeJournalDataset): Promise<void> => {
+  const entries = journal.entries.slice(-MAX_JOURNAL_ENTRIES);
+  const entryIds = new Set(entries.map(e => e.id));
+
+  const dataset: ChangeJournalDataset = {
+    entries,
+    undoStack: journal.undoStack
+      .filter(id => entryIds.has(id))
+      .slice(-MAX_UNDO_STEPS),
+    redoStack: journal.redoStack.filter(id => entryIds.has(id)),
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  };
+  const key = getCampaignStorageKey(JOURNAL_STORAGE_KEY);
+  if (!(await SafeAsyncStorageJSONParser.setItem(key, dataset))) {
+    throw new StorageWriteError(key);
+  }
+  notifyListeners();
+};
+
+/**
+ * Get the name recorded as the author of changes made on this device
+ */
+export const getJournalAuthor = async (): Promise<string> => {
+  const author =
+    await SafeAsyncStorageJSONParser.getItem<string>(AUTHOR_STORAGE_KEY);
+  return author || DEFAULT_JOURNAL_AUTHOR;
+};
+
+export const setJournalAuthor = async (author: string): Promise<void> => {
+  await SafeAsyncStorageJSONParser.setItem(AUTHOR_STORAGE_KEY, author.trim());
+};
+
+/**
+ * Get the display name of a journaled entity
+ */
+export const getEntityName = (entity: JournalEntity): string =>
+  'title' in entity ? entity.title : entity.name;
+
+// updatedAt alone changing (e.g. bulk saves touching every record) is not
+// an edit worth journaling
+const withoutTimestamp = (entity: JournalEntity) =>
+  JSON.stringify({ ...entity, updatedAt: undefined });
+
+// The top-level fields that differ between the two sides, timestamp included
+const diffFields = (
+  before: JournalEntityFields,
+  after: JournalEntityFields
+): string[] => {
+  const beforeFields = before as Record<string, unknown>;
+  const afterFields = after as Record<string, unknown>;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...keys].filter(
+    key =>
+      JSON.stringify(beforeFields[key]) !== JSON.stringify(afterFields[key])
+  );
+};
+
+const pickFields = (
+  entity: JournalEntity,
+  keys: string[]
+): JournalEntityFields => {
+  const fields = entity as unknown as Record<string, unknown>;
+  return Object.fromEntries(
+    keys.filter(key => fields[key] !== undefined).map(key => [key, fields[key]])
+  ) as JournalEntityFields;
+};
+
+/**
+ * Build the journal change for a single entity. An update keeps only the
+ * fields that changed.
+ */
+export const createEntityChange = (
+  entityType: JournalEntityType,
+  before: JournalEntity | null,
+  after: JournalEntity | null
+): EntityChange => {
+  const entity = after ?? before;
+  if (!entity) {
+    throw new Error(`A ${entityType} change needs a before or an after side`);
+  }
+
+  const changedKeys = before && after ? diffFields(before, after) : [];
+  return {
+    entityType,
+    entityId: entity.id,
+    entityName: getEntityName(entity),
+    before: before && after ? pickFields(before, changedKeys) : before,
+    after: before && after ? pickFields(after, changedKeys) : after,
+  };
+};
+
+/**
+ * Build the journal changes between two versions of an entity collection
+ */
+export const diffEntities = <T extends JournalEntity>(
+  entityType: JournalEntityType,
+  before: T[],
+  after: T[]
+): EntityChange[] => {
+  const changes: EntityChange[] = [];
+  const beforeById = new Map(before.map(entity => [entity.id, entity]));
+  const afterIds = new Set(after.map(entity => entity.id));
+
+  after.forEach(entity => {
+    const previous = beforeById.get(entity.id) ?? null;
+    if (previous && withoutTimestamp(previous) === withoutTimestamp(entity)) {
+      return;
+    }
+    changes.push(createEntityChange(entityType, previous, entity));
+  });
+
+  before.forEach(entity => {
+    if (!afterIds.has(entity.id)) {
+      changes.push(createEntityChange(entityType, entity, null));
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * List the top-level fields that differ between the two sides of a change
+ */
+export const getChangedFields = (change: EntityChange): string[] => {
+  if (!change.before || !change.after) return [];
+  return diffFields(change.before, change.after).filter(
+    key => key !== 'updatedAt'
+  );
+};
+
+/**
+ * Record an edit in the journal. Recording a new change clears the redo
+ * history. Returns null if there was nothing to record.
+ */
+export const recordChange = async (
+  description: string,
+  changes: EntityChange[]
+): Promise<ChangeJournalEntry | null> => {
+  if (changes.length === 0) return null;
+
+  const journal = await loadJournal();
+  const entry: ChangeJournalEntry = {
+    id: uuidv4(),
+    description,
+    author: await getJournalAuthor(),
+    timestamp: new Date().toISOString(),
+    changes,
+  };
+
+  await saveJournal({
+    ...journal,
+    entries: [...journal.entries, entry],
+    undoStack: [...journal.undoStack, entry.id],
+    redoStack: [],
+  });
+  return entry;
+};
+
+const invertChanges = (changes: EntityChange[]): EntityChange[] =>
+  changes.map(change => ({
+    ...change,
+    before: change.after,
+    after: change.before,
+  }));
+
+/**
+ * Move an entry from the undo to the redo history once its changes have
+ * been reverted, and log the undo itself
+ */
+export const recordUndo = async (entry: ChangeJournalEntry): Promise<void> => {
+  const journal = await loadJournal();
+  await saveJournal({
+    ...journal,
+    entries: [
+      ...journal.entries,
+      {
+        id: uuidv4(),
+        description: `Undo: ${entry.description}`,
+        author: await getJournalAuthor(),
+        timestamp: new Date().toISOString(),
+        changes: invertChanges(entry.changes),
+        revertsEntryId: entry.id,
+      },
+    ],
+    undoStack: journal.undoStack.filter(id => id !== entry.id),
+    redoStack: [...journal.redoStack, entry.id],
+  });
+};
+
+/**
+ * Move an entry from the redo back to the undo history once its changes have
+ * been re-applied, and log the redo itself
+ */
+export const recordRedo = async (entry: ChangeJournalEntry): Promise<void> => {
+  const journal = await loadJournal();
+  await saveJournal({
+    ...journal,
+    entries: [
+      ...journal.entries,
+      {
+        id: uuidv4(),
+        description: `Redo: ${entry.description}`,
+        author: await getJournalAuthor(),
+        timestamp: new Date().toISOString(),
+        changes: entry.changes,
+        revertsEntryId: entry.id,
+      },
+    ],
+    undoStack: [...journal.undoStack, entry.id],
+    redoStack: journal.redoStack.filter(id => id !== entry.id),
+  });
+};
+
+/**
+ * Get the entries the next undo and redo would apply
+ */
+export const getUndoRedoState = async (): Promise<{
+  undo: ChangeJournalEntry | null;
+  redo: ChangeJournalEntry | null;
+}> => {
+  const journal = await loadJournal();
+  const find = (id?: string) => journal.entries.find(e => e.id === id) ?? null;
+
+  return {
+    undo: find(journal.undoStack[journal.undoStack.length - 1]),
+    redo: find(journal.redoStack[journal.redoStack.length - 1]),
+  };
+};
+
+/**
+ * Get the journal entries that touched an entity, newest first
+ */
+export const getEntityHistory = async (
+  entityType: JournalEntityType,
+  entityId: string
+): Promise<ChangeJournalEntry[]> => {
+  const journal = await loadJournal();
+  return journal.entries
+    .filter(entry =>
+      entry.changes.some(
+        change =>
+          change.entityType === entityType && change.entityId === entityId
+      )
+    )
+    .reverse();
+};
+
+/**
+ * Remove the journal of the active campaign
+ */
+export const clearChangeJournal = async (): Promise<void> => {
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(JOURNAL_STORAGE_KEY)
+  );
+  notifyListeners();
+};
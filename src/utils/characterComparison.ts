@@ -0,0 +1,118 @@
+import { GameCharacter, RelationshipStanding } from '@/models/types';
+import { RulesPack } from '@/models/gameData';
+import { getActiveRulesPack } from '@/utils/rulesPackStorage';
+import {
+  CharacterDerivedStats,
+  calculateDerivedStats,
+} from '@/utils/derivedStats';
+import {
+  getCyberwareName,
+  isCyberwareInstalled,
+} from '@/utils/cyberwareCatalog';
+import { findMutualRelationships } from '@/utils/influenceAnalysis';
+
+/**
+ * Character comparison
+ *
+ * Puts two to four characters side by side for casting and encounter
+ * balancing: their builds and stats, what they have in common, and the
+ * relationships they have with each other.
+ */
+
+export const MIN_COMPARED_CHARACTERS = 2;
+export const MAX_COMPARED_CHARACTERS = 4;
+
+export interface ComparedCharacter {
+  character: GameCharacter;
+  stats: CharacterDerivedStats | null; // Unset when the pack lacks the species
+  tagScores: Record<string, number>;
+  perkNames: string[];
+  distinctionNames: string[];
+  cyberwareNames: string[]; // Installed implants only
+  factions: { name: string; standing: RelationshipStanding }[];
+}
+
+export interface CharacterComparison {
+  characters: ComparedCharacter[];
+  tags: string[]; // Tags any of the characters scores in, in pack order
+  sharedPerkNames: string[]; // Perks every character has
+  sharedFactionNames: string[]; // Factions every character belongs to
+  mutualRelationships: ReturnType<typeof findMutualRelationships>;
+}
+
+/**
+ * Add a character to a comparison selection, or remove it when it is
+ * already selected. The selection is left as is when it is full.
+ */
+export const toggleComparedCharacter = (
+  selectedIds: string[],
+  characterId: string
+): string[] => {
+  if (selectedIds.includes(characterId)) {
+    return selectedIds.filter(id => id !== characterId);
+  }
+  if (selectedIds.length >= MAX_COMPARED_CHARACTERS) return selectedIds;
+  return [...selectedIds, characterId];
+};
+
+const intersect = (lists: string[][]): string[] =>
+  lists.length === 0
+    ? []
+    : lists[0].filter(item => lists.every(list => list.includes(item)));
+
+/**
+ * Compare characters in the order given
+ */
+export const compareCharacters = (
+  characters: GameCharacter[],
+  rulesPack: RulesPack = getActiveRulesPack()
+): CharacterComparison => {
+  const compared = characters.map(character => {
+    let stats: CharacterDerivedStats | null;
+    try {
+      stats = calculateDerivedStats(character, rulesPack);
+    } catch {
+      // Species missing from the pack; the screen shows stats as unavailable
+      stats = null;
+    }
+    const perkNames = character.perkIds.map(
+      id => rulesPack.perks.find(perk => perk.id === id)?.name ?? id
+    );
+    const distinctionNames = character.distinctionIds.map(
+      id => rulesPack.distinctions.find(d => d.id === id)?.name ?? id
+    );
+    return {
+      character,
+      stats,
+      tagScores: Object.fromEntries(stats?.tagScores ?? new Map()),
+      perkNames,
+      distinctionNames,
+      cyberwareNames: (character.cyberware ?? [])
+        .filter(isCyberwareInstalled)
+        .map(cyber => getCyberwareName(cyber, rulesPack)),
+      factions: character.factions.map(faction => ({
+        name: faction.name,
+        standing: faction.standing,
+      })),
+    };
+  });
+
+  const scoredTags = new Set(
+    compared.flatMap(entry => Object.keys(entry.tagScores))
+  );
+  const tags = [
+    ...rulesPack.perkTags.filter(tag => scoredTags.has(tag)),
+    // Tags of perks from another pack
+    ...Array.from(scoredTags).filter(tag => !rulesPack.perkTags.includes(tag)),
+  ];
+
+  return {
+    characters: compared,
+    tags,
+    sharedPerkNames: intersect(compared.map(entry => entry.perkNames)),
+    sharedFactionNames: intersect(
+      compared.map(entry => entry.factions.map(faction => faction.name))
+    ),
+    mutualRelationships: findMutualRelationships(characters),
+  };
+};
@@ -1,5 +1,7 @@
 import { GameCharacter } from '../models/types';
-import { AVAILABLE_PERKS, AVAILABLE_DISTINCTIONS } from '../models/gameData';
+import { RulesPack } from '../models/gameData';
+import { getActiveRulesPack } from './rulesPackStorage';
+import { CyberwareStats, calculateCyberwareStats } from './cyberwareCatalog';
 
 export interface CharacterStats {
   totalCharacters: number;
@@ -8,10 +10,12 @@ export interface CharacterStats {
   commonPerks: { name: string; count: number }[];
   commonDistinctions: { name: string; count: number }[];
   factionStandings: Record<string, Record<string, number>>;
+  cyberware: CyberwareStats;
 }
 
 export const calculateCharacterStats = (
-  characters: GameCharacter[]
+  characters: GameCharacter[],
+  rulesPack: RulesPack = getActiveRulesPack()
 ): CharacterStats => {
   if (!characters.length) {
     throw new Error('No characters available for statistics calculation');
@@ -61,7 +65,7 @@ export const calculateCharacterStats = (
 
   const commonPerks = Object.entries(perkCount)
     .map(([id, count]) => ({
-      name: AVAILABLE_PERKS.find(p => p.id === id)?.name || 'Unknown Perk',
+      name: rulesPack.perks.find(p => p.id === id)?.name || 'Unknown Perk',
       count,
     }))
     .sort((a, b) => b.count - a.count)
@@ -79,7 +83,7 @@ export const calculateCharacterStats = (
   const commonDistinctions = Object.entries(distinctionCount)
     .map(([id, count]) => ({
       name:
-        AVAILABLE_DISTINCTIONS.find(d => d.id === id)?.name ||
+        rulesPack.distinctions.find(d => d.id === id)?.name ||
         'Unknown Distinction',
       count,
     }))
@@ -93,5 +97,6 @@ export const calculateCharacterStats = (
     commonPerks,
     commonDistinctions,
     factionStandings,
+    cyberware: calculateCyberwareStats(characters, rulesPack),
   };
 };
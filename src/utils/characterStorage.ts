@@ -1,74 +1,347 @@
 import {
-  CharacterDataset,
   GameCharacter,
   GameLocation,
-  LocationDataset,
   GameEvent,
-  EventDataset,
+  InventoryItem,
+  InventoryOwner,
   RelationshipStanding,
 } from '@models/types';
 import { v4 as uuidv4 } from 'uuid';
 import { SafeAsyncStorageJSONParser } from './safeAsyncStorageJSONParser';
+import { createIndexedCollection } from './indexedStorage';
 import { exportDiscordDataset, importDiscordDataset } from './discordStorage';
+import {
+  clearInventory,
+  exportInventoryDataset,
+  importInventoryDataset,
+  loadInventory,
+  removeInventoryFor,
+  transferItem,
+  validateInventoryTransfer,
+} from './inventoryStorage';
+import {
+  clearProgression,
+  exportProgressionDataset,
+  importProgressionDataset,
+  removeProgression,
+} from './progressionLedger';
+import {
+  clearLiveStates,
+  exportLiveStateDataset,
+  importLiveStateDataset,
+  removeLiveState,
+} from './liveStateStorage';
 import { sortDatasetDeterministically } from './datasetSorting';
+import {
+  ReciprocityIssue,
+  applyReciprocityFixes,
+} from './relationshipReciprocity';
+import { canSetParentFaction } from './factionHierarchy';
+import { getActiveCampaign, getCampaignStorageKey } from './campaignStorage';
+import {
+  isFactionReferenceTo,
+  isFactionRelationshipTo,
+  linkCharacterReferences,
+  linkFactionReferences,
+} from './entityReferences';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  SchemaVersionError,
+  compareSchemaVersions,
+  migrateDataset,
+} from './schemaMigrations';
+import {
+  EntityChange,
+  JournalEntity,
+  JournalEntityType,
+  createEntityChange,
+  diffEntities,
+  recordChange,
+} from './changeJournal';
+import {
+  OwnedRecords,
+  addToTrash,
+  getTrashItem,
+  purgeTrashItem,
+} from './trashStorage';
+import {
+  MergeCollections,
+  MergeResolutions,
+  MergeReview,
+  applyMergeResolutions,
+  buildMergeReview,
+  getUnresolvedConflicts,
+  loadMergeBase,
+  saveMergeBase,
+} from './mergeReview';
 
 export interface FactionRelationship {
-  factionName: string;
+  factionId?: string; // Reference to StoredFaction.id
+  factionName: string; // Display copy of the faction name, refreshed from factionId
   relationshipType: RelationshipStanding;
   description?: string;
 }
 
 export interface StoredFaction {
+  id: string; // Stable ID, survives renames
   name: string;
   description: string;
-  imageUri?: string; // Deprecated: Use imageUris instead
   imageUris?: string[];
   relationships?: FactionRelationship[];
+  parentFactionId?: string; // StoredFaction.id of the faction this is a cell of
   retired?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
-interface FactionDataset {
-  factions: StoredFaction[];
+interface SchemaVersionRecord {
   version: string;
   lastUpdated: string;
 }
 
+interface StoredCollections {
+  characters: GameCharacter[];
+  factions: StoredFaction[];
+  locations: GameLocation[];
+  events: GameEvent[];
+}
+
 const STORAGE_KEY = 'gameCharacterManager';
 const FACTION_STORAGE_KEY = 'gameCharacterManager_factions';
 const LOCATION_STORAGE_KEY = 'gameCharacterManager_locations';
 const EVENT_STORAGE_KEY = 'gameCharacterManager_events';
+const SCHEMA_VERSION_KEY = 'gameCharacterManager_schemaVersion';
+
+// Each collection is stored one record per entity, indexed for the lookups
+// that would otherwise load the whole collection. Before that, each was a
+// single dataset blob under the same key; migrateStoredCollections splits
+// those.
+const characterCollection = createIndexedCollection({
+  baseKey: STORAGE_KEY,
+  getId: (character: GameCharacter) => character.id,
+  indexes: {
+    location: character => character.locationId,
+  },
+  ownerMigratesDatasets: true,
+});
+
+const factionCollection = createIndexedCollection({
+  baseKey: FACTION_STORAGE_KEY,
+  getId: (faction: StoredFaction) => faction.id,
+  indexes: {
+    parentFaction: faction => faction.parentFactionId,
+  },
+  ownerMigratesDatasets: true,
+});
+
+const locationCollection = createIndexedCollection({
+  baseKey: LOCATION_STORAGE_KEY,
+  getId: (location: GameLocation) => location.id,
+  indexes: {},
+  ownerMigratesDatasets: true,
+});
+
+const eventCollection = createIndexedCollection({
+  baseKey: EVENT_STORAGE_KEY,
+  getId: (event: GameEvent) => event.id,
+  indexes: {},
+  ownerMigratesDatasets: true,
+});
+
+// Read a collection still stored as a dataset blob. Returns null once the
+// collection has been split into records.
+const readLegacyDataset = async (
+  baseKey: string,
+  collection: keyof StoredCollections
+): Promise<{ entities: unknown[]; version: string } | null> => {
+  const stored = await SafeAsyncStorageJSONParser.getItem<
+    Record<string, unknown>
+  >(getCampaignStorageKey(baseKey));
+  if (!stored || Array.isArray(stored) || Array.isArray(stored.ids)) {
+    return null;
+  }
+
+  const entities = stored[collection];
+  return {
+    entities: Array.isArray(entities) ? entities : [],
+    version:
+      typeof stored.version === 'string'
+        ? stored.version
+        : LEGACY_SCHEMA_VERSION,
+  };
+};
+
+const isNewerSchema = (version: string): boolean =>
+  compareSchemaVersions(version, CURRENT_SCHEMA_VERSION) > 0;
+
+// Bring the stored collections up to the current schema version, splitting
+// dataset blobs into records on the way. Every load and save starts here;
+// once the store is current this is a single small read. Data from a newer
+// app version is split as-is and left unmigrated. Returns the schema version
+// of the stored data.
+const migrateStoredCollections = async (): Promise<string> => {
+  const versionKey = getCampaignStorageKey(SCHEMA_VERSION_KEY);
+  const stored =
+    await SafeAsyncStorageJSONParser.getItem<SchemaVersionRecord>(versionKey);
+  if (
+    stored &&
+    compareSchemaVersions(stored.version, CURRENT_SCHEMA_VERSION) >= 0
+  ) {
+    return stored.version;
+  }
+
+  const legacy = {
+    characters: await readLegacyDataset(STORAGE_KEY, 'characters'),
+    factions: await readLegacyDataset(FACTION_STORAGE_KEY, 'factions'),
+    locations: await readLegacyDataset(LOCATION_STORAGE_KEY, 'locations'),
+    events: await readLegacyDataset(EVENT_STORAGE_KEY, 'events'),
+  };
+  const versions = [
+    ...(stored ? [stored.version] : []),
+    ...Object.values(legacy).flatMap(dataset =>
+      dataset ? [dataset.version] : []
+    ),
+  ].sort(compareSchemaVersions);
+
+  // Nothing older than the current version is stored; just stamp it
+  let version = CURRENT_SCHEMA_VERSION;
+  if (versions.length > 0) {
+    const collections: StoredCollections = {
+      characters: (legacy.characters?.entities ??
+        (await characterCollection.getAll())) as GameCharacter[],
+      factions: (legacy.factions?.entities ??
+        (await factionCollection.getAll())) as StoredFaction[],
+      locations: (legacy.locations?.entities ??
+        (await locationCollection.getAll())) as GameLocation[],
+      events: (legacy.events?.entities ??
+        (await eventCollection.getAll())) as GameEvent[],
+    };
+
+    const newest = versions[versions.length - 1];
+    let migrated = collections;
+    if (isNewerSchema(newest)) {
+      console.warn(`Not migrating stored data from schema version ${newest}`);
+      version = newest;
+    } else {
+      migrated = migrateDataset({
+        ...collections,
+        version: versions[0],
+      }).dataset;
+    }
+
+    // Records are keyed by ID, so legacy factions get theirs now
+    await characterCollection.replaceAll(migrated.characters);
+    await factionCollection.replaceAll(
+      linkFactionReferences(migrated.factions).factions
+    );
+    await locationCollection.replaceAll(migrated.locations);
+    await eventCollection.replaceAll(migrated.events);
+  }
+
+  await SafeAsyncStorageJSONParser.setItem(versionKey, {
+    version,
+    lastUpdated: new Date().toISOString(),
+  });
+  return version;
+};
+
+// Data from a newer app version can be read but not written: saving it in
+// this version's format would silently drop whatever the newer one added.
+// Every write starts here instead of at migrateStoredCollections.
+const assertStoreWritable = async (): Promise<void> => {
+  const version = await migrateStoredCollections();
+  if (isNewerSchema(version)) {
+    throw new SchemaVersionError(version, CURRENT_SCHEMA_VERSION);
+  }
+};
+
+// Defaults for properties added after characters were first stored
+const withCharacterDefaults = (character: GameCharacter): GameCharacter => ({
+  ...character,
+  present: character.present ?? false,
+  retired: character.retired ?? false,
+  relationships: character.relationships ?? [],
+});
+
+// Record an edit in the change journal. A journal failure must never fail
+// the edit itself.
+const journalChange = async (
+  description: string,
+  changes: EntityChange[]
+): Promise<void> => {
+  try {
+    await recordChange(description, changes);
+  } catch (error) {
+    console.error('Failed to record change:', error);
+  }
+};
+
+// Keep a deleted entity in the trash so it can be restored. Like the
+// journal, a trash failure must never fail the delete itself.
+const trashEntity = async (
+  entityType: JournalEntityType,
+  entity: JournalEntity,
+  cascadedChanges: EntityChange[] = [],
+  ownedRecords?: OwnedRecords
+): Promise<void> => {
+  try {
+    await addToTrash(entityType, entity, cascadedChanges, ownedRecords);
+  } catch (error) {
+    console.error('Failed to move to trash:', error);
+  }
+};
 
 export const saveCharacters = async (
   characters: GameCharacter[]
 ): Promise<void> => {
-  const dataset: CharacterDataset = {
-    characters,
-    version: '1.0',
-    lastUpdated: new Date().toISOString(),
-  };
-  await SafeAsyncStorageJSONParser.setItem(STORAGE_KEY, dataset);
+  await assertStoreWritable();
+  await characterCollection.replaceAll(characters);
+};
+
+// Load a single character, or null if it doesn't exist
+const loadCharacter = async (id: string): Promise<GameCharacter | null> => {
+  await migrateStoredCollections();
+  const [character] = await characterCollection.getMany([id]);
+  return character ? withCharacterDefaults(character) : null;
 };
 
 export const loadCharacters = async (): Promise<GameCharacter[]> => {
-  const dataset =
-    await SafeAsyncStorageJSONParser.getItem<CharacterDataset>(STORAGE_KEY);
-  if (!dataset || !dataset.characters) return [];
+  const version = await migrateStoredCollections();
+  const characters = (await characterCollection.getAll()).map(
+    withCharacterDefaults
+  );
 
-  // Handle backward compatibility - set defaults for missing properties
-  return dataset.characters.map(character => ({
-    ...character,
-    present: character.present ?? false,
-    retired: character.retired ?? false,
-    relationships: character.relationships ?? [],
-  }));
+  // One-time migration from name-based to ID-based references. Factions are
+  // only read while some membership still lacks a faction ID.
+  const needsFactions = characters.some(character =>
+    (character.factions || []).some(faction => !faction.factionId)
+  );
+  const factions = needsFactions ? await loadFactions() : [];
+  const linked = linkCharacterReferences(characters, factions);
+  if (linked.changed && !isNewerSchema(version)) {
+    await saveCharacters(linked.characters);
+  }
+
+  return linked.characters;
+};
+
+/**
+ * Characters currently at the location
+ */
+export const loadCharactersAtLocation = async (
+  locationId: string
+): Promise<GameCharacter[]> => {
+  await migrateStoredCollections();
+  return (await characterCollection.findBy('location', locationId)).map(
+    withCharacterDefaults
+  );
 };
 
 export const addCharacter = async (
   character: Omit<GameCharacter, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<GameCharacter> => {
-  const characters = await loadCharacters();
+  await assertStoreWritable();
   const newCharacter: GameCharacter = {
     ...character,
     id: uuidv4(),
@@ -79,7 +352,10 @@ export const addCharacter = async (
     updatedAt: new Date().toISOString(),
   };
 
-  await saveCharacters([...characters, newCharacter]);
+  await characterCollection.put([newCharacter]);
+  await journalChange(`Created character "${newCharacter.name}"`, [
+    createEntityChange('character', null, newCharacter),
+  ]);
   return newCharacter;
 };
 
@@ -87,73 +363,70 @@ export const updateCharacter = async (
   id: string,
   updates: Partial<GameCharacter>
 ): Promise<GameCharacter | null> => {
-  const characters = await loadCharacters();
-  const index = characters.findIndex(c => c.id === id);
-
-  if (index === -1) return null;
+  await assertStoreWritable();
+  const previousCharacter = await loadCharacter(id);
+  if (!previousCharacter) return null;
 
   const updatedCharacter: GameCharacter = {
-    ...characters[index],
+    ...previousCharacter,
     ...updates,
     updatedAt: new Date().toISOString(),
   };
 
-  characters[index] = updatedCharacter;
-  await saveCharacters(characters);
+  await characterCollection.put([updatedCharacter]);
+  await journalChange(
+    `Updated character "${updatedCharacter.name}"`,
+    diffEntities('character', [previousCharacter], [updatedCharacter])
+  );
   return updatedCharacter;
 };
 
 export const deleteCharacter = async (id: string): Promise<boolean> => {
-  const characters = await loadCharacters();
-  const filtered = characters.filter(c => c.id !== id);
-
-  if (filtered.length === characters.length) return false;
-
-  await saveCharacters(filtered);
+  await assertStoreWritable();
+  const character = await loadCharacter(id);
+  if (!character) return false;
+
+  await characterCollection.remove([id]);
+  // What the character owns goes to the trash with it
+  const ownedRecords: OwnedRecords = {
+    inventory: await removeInventoryFor('character', id),
+    progression: await removeProgression(id),
+    liveStates: await removeLiveState(id),
+  };
+  await trashEntity('character', character, [], ownedRecords);
+  await journalChange(`Deleted character "${character.name}"`, [
+    createEntityChange('character', character, null),
+  ]);
   return true;
 };
 
 export const exportDataset = async (): Promise<string> => {
-  const characterData =
-    await SafeAsyncStorageJSONParser.getItem<CharacterDataset>(STORAGE_KEY);
-  const factionData =
-    await SafeAsyncStorageJSONParser.getItem<FactionDataset>(
-      FACTION_STORAGE_KEY
-    );
-  const locationData =
-    await SafeAsyncStorageJSONParser.getItem<LocationDataset>(
-      LOCATION_STORAGE_KEY
-    );
-  const eventData =
-    await SafeAsyncStorageJSONParser.getItem<EventDataset>(EVENT_STORAGE_KEY);
-
-  const characters = characterData || {
-    characters: [],
-    version: '1.0',
-    lastUpdated: '',
-  };
-  const factions = factionData || {
-    factions: [],
-    version: '1.0',
-    lastUpdated: '',
-  };
-  const locations = locationData || {
-    locations: [],
-    version: '1.0',
-    lastUpdated: '',
-  };
-  const events = eventData || { events: [], version: '1.0', lastUpdated: '' };
+  await migrateStoredCollections();
+  const characters = await characterCollection.getAll();
+  const factions = await factionCollection.getAll();
+  const locations = await locationCollection.getAll();
+  const events = await eventCollection.getAll();
 
   // Export Discord data
   const discordData = await exportDiscordDataset();
+  const inventoryData = await exportInventoryDataset();
+  const progressionData = await exportProgressionDataset();
+  const liveStateData = await exportLiveStateDataset();
+
+  // Record which campaign the data came from so imports can be labelled
+  const campaign = getActiveCampaign();
 
   const combinedDataset = {
-    characters: characters.characters || [],
-    factions: factions.factions || [],
-    locations: locations.locations || [],
-    events: events.events || [],
+    campaign: { id: campaign.id, name: campaign.name },
+    characters,
+    factions,
+    locations,
+    events,
     discord: discordData,
-    version: '1.0',
+    inventory: inventoryData,
+    progression: progressionData,
+    liveState: liveStateData,
+    version: CURRENT_SCHEMA_VERSION,
     lastUpdated: new Date().toISOString(),
   };
 
@@ -163,74 +436,6 @@ export const exportDataset = async (): Promise<string> => {
   return JSON.stringify(sortedDataset);
 };
 
-// Migration helper to convert old location enum to location ID
-const migrateOldLocationData = async (
-  characters: GameCharacter[]
-): Promise<void> => {
-  const existingLocations = await loadLocations();
-  const locationNameToId = new Map<string, string>();
-
-  // Build a map of location names to IDs
-  existingLocations.forEach(loc => {
-    locationNameToId.set(loc.name.toLowerCase(), loc.id);
-  });
-
-  const locationsToCreate = new Map<string, GameLocation>();
-
-  // Process each character
-  for (const char of characters) {
-    const oldLocation = (char as any).location;
-
-    // If character has old location field but no locationId
-    if (oldLocation && !char.locationId) {
-      console.log(
-        `Migrating old location "${oldLocation}" for character ${char.name}`
-      );
-
-      // Check if we already have a location with this name
-      let locationId = locationNameToId.get(oldLocation.toLowerCase());
-
-      if (!locationId) {
-        // Check if we're already creating this location
-        if (locationsToCreate.has(oldLocation)) {
-          locationId = locationsToCreate.get(oldLocation)!.id;
-        } else {
-          // Create a new location
-          const now = new Date().toISOString();
-          locationId = uuidv4();
-          const newLocation: GameLocation = {
-            id: locationId,
-            name: oldLocation,
-            description: `Migrated from old location data: ${oldLocation}`,
-            createdAt: now,
-            updatedAt: now,
-          };
-          locationsToCreate.set(oldLocation, newLocation);
-          locationNameToId.set(oldLocation.toLowerCase(), locationId);
-          console.log(
-            `Creating new location for "${oldLocation}" with ID ${locationId}`
-          );
-        }
-      }
-
-      // Set the locationId on the character
-      char.locationId = locationId;
-      // Remove the old location field
-      delete (char as any).location;
-    }
-  }
-
-  // Save any new locations we created
-  if (locationsToCreate.size > 0) {
-    const newLocationArray = Array.from(locationsToCreate.values());
-    const allLocations = [...existingLocations, ...newLocationArray];
-    await saveLocations(allLocations);
-    console.log(
-      `Migrated and created ${newLocationArray.length} location(s) from old data`
-    );
-  }
-};
-
 // Helper function to ensure all locations referenced by characters exist
 const ensureLocationsExist = async (
   characters: GameCharacter[]
@@ -292,9 +497,11 @@ const ensureLocationsExist = async (
   }
 };
 
+// Throws SchemaVersionError if the data comes from a newer app version, so the
+// caller can tell the user to update instead of reporting a corrupt file
 export const importDataset = async (jsonData: string): Promise<boolean> => {
   try {
-    const dataset = JSON.parse(jsonData);
+    const { dataset } = migrateDataset(JSON.parse(jsonData));
     console.log('Starting import. Dataset contains:', {
       characters: dataset.characters?.length || 0,
       factions: dataset.factions?.length || 0,
@@ -335,12 +542,6 @@ export const importDataset = async (jsonData: string): Promise<boolean> => {
 
     // Auto-create any missing locations referenced by characters
     if (dataset.characters) {
-      console.log(
-        '[importDataset] Checking for old location data to migrate...'
-      );
-      await migrateOldLocationData(dataset.characters);
-      console.log('[importDataset] Old location data migration complete');
-
       console.log(
         '[importDataset] Checking for missing locations referenced by characters...'
       );
@@ -348,42 +549,33 @@ export const importDataset = async (jsonData: string): Promise<boolean> => {
       console.log('[importDataset] Location existence check complete');
     }
 
+    // Link old name-based datasets to stable faction and character IDs
+    const importedFactions: StoredFaction[] = linkFactionReferences(
+      dataset.factions || []
+    ).factions;
+    const importedCharacters: GameCharacter[] = linkCharacterReferences(
+      dataset.characters || [],
+      importedFactions
+    ).characters;
+
     // Handle character data
     console.log('[importDataset] Saving character data...');
-    const characterDataset: CharacterDataset = {
-      characters: dataset.characters || [],
-      version: dataset.version || '1.0',
-      lastUpdated: dataset.lastUpdated || new Date().toISOString(),
-    };
-    await SafeAsyncStorageJSONParser.setItem(STORAGE_KEY, characterDataset);
+    await saveCharacters(importedCharacters);
     console.log(
-      `[importDataset] Saved ${characterDataset.characters.length} characters`
+      `[importDataset] Saved ${importedCharacters.length} characters`
     );
 
     // Handle faction data if present
     if (dataset.factions) {
       console.log('[importDataset] Saving faction data...');
-      const factionDataset: FactionDataset = {
-        factions: dataset.factions,
-        version: dataset.version || '1.0',
-        lastUpdated: dataset.lastUpdated || new Date().toISOString(),
-      };
-      await SafeAsyncStorageJSONParser.setItem(
-        FACTION_STORAGE_KEY,
-        factionDataset
-      );
+      await saveFactions(importedFactions);
       console.log(`[importDataset] Saved ${dataset.factions.length} factions`);
     }
 
     // Handle event data if present
     if (dataset.events) {
       console.log('[importDataset] Saving event data...');
-      const eventDataset: EventDataset = {
-        events: dataset.events,
-        version: dataset.version || '1.0',
-        lastUpdated: dataset.lastUpdated || new Date().toISOString(),
-      };
-      await SafeAsyncStorageJSONParser.setItem(EVENT_STORAGE_KEY, eventDataset);
+      await saveEvents(dataset.events);
       console.log(`[importDataset] Saved ${dataset.events.length} events`);
     }
 
@@ -394,9 +586,26 @@ export const importDataset = async (jsonData: string): Promise<boolean> => {
       console.log('[importDataset] Discord data imported');
     }
 
+    // Replace the inventory if the export has one
+    if (dataset.inventory) {
+      await importInventoryDataset(dataset.inventory, false);
+      console.log(
+        `[importDataset] Saved ${dataset.inventory.items?.length || 0} inventory items`
+      );
+    }
+
+    // Likewise the progression ledger and the live state
+    if (dataset.progression) {
+      await importProgressionDataset(dataset.progression, false);
+    }
+    if (dataset.liveState) {
+      await importLiveStateDataset(dataset.liveState, false);
+    }
+
     console.log('[importDataset] Import completed successfully');
     return true;
   } catch (error) {
+    if (error instanceof SchemaVersionError) throw error;
     console.error('[importDataset] Import failed:', error);
     console.error(
       '[importDataset] Error stack:',
@@ -406,378 +615,142 @@ export const importDataset = async (jsonData: string): Promise<boolean> => {
   }
 };
 
-// Enhanced merge interface for conflict resolution
-export interface MergeConflict {
-  id: string;
-  existing: GameCharacter;
-  imported: GameCharacter;
-  conflicts: string[];
-}
-
-export interface MergeResult {
-  success: boolean;
-  conflicts: MergeConflict[];
-  merged: GameCharacter[];
-  added: GameCharacter[];
-}
-
-// Smart property merger that combines properties intelligently
-const mergeCharacterProperties = (
-  existing: GameCharacter,
-  imported: GameCharacter
-): { merged: GameCharacter; conflicts: string[] } => {
-  const conflicts: string[] = [];
-  const merged: GameCharacter = { ...existing };
-
-  // Always use the most recent updatedAt timestamp
-  if (imported.updatedAt > existing.updatedAt) {
-    merged.updatedAt = imported.updatedAt;
-  }
-
-  // Merge arrays (like perkIds, distinctionIds, factions)
-  if (imported.perkIds && imported.perkIds.length > 0) {
-    const existingPerkIds = new Set(existing.perkIds || []);
-    const newPerks = imported.perkIds.filter(id => !existingPerkIds.has(id));
-    if (newPerks.length > 0) {
-      merged.perkIds = [...(existing.perkIds || []), ...newPerks];
-    }
-  }
-
-  if (imported.distinctionIds && imported.distinctionIds.length > 0) {
-    const existingDistinctionIds = new Set(existing.distinctionIds || []);
-    const newDistinctions = imported.distinctionIds.filter(
-      id => !existingDistinctionIds.has(id)
-    );
-    if (newDistinctions.length > 0) {
-      merged.distinctionIds = [
-        ...(existing.distinctionIds || []),
-        ...newDistinctions,
-      ];
-    }
-  }
-
-  // Merge factions (keep all unique factions)
-  if (imported.factions && imported.factions.length > 0) {
-    const existingFactionNames = new Set(
-      (existing.factions || []).map(f => f.name)
-    );
-    const newFactions = imported.factions.filter(
-      f => !existingFactionNames.has(f.name)
-    );
-    if (newFactions.length > 0) {
-      merged.factions = [...(existing.factions || []), ...newFactions];
-    }
-  }
-
-  // Merge relationships (keep all unique relationships by character name)
-  if (imported.relationships && imported.relationships.length > 0) {
-    const existingRelationshipNames = new Set(
-      (existing.relationships || []).map(r => r.characterName)
-    );
-    const newRelationships = imported.relationships.filter(
-      r => !existingRelationshipNames.has(r.characterName)
-    );
-
-    // Update existing relationships if they exist with different types or descriptions
-    const updatedRelationships = (existing.relationships || []).map(
-      existingRel => {
-        const importedRel = imported.relationships.find(
-          r => r.characterName === existingRel.characterName
-        );
-        if (importedRel) {
-          // If relationship exists in both, prefer the one with more recent timestamp or better description
-          return {
-            ...existingRel,
-            relationshipType:
-              importedRel.relationshipType || existingRel.relationshipType,
-            description: importedRel.description || existingRel.description,
-          };
-        }
-        return existingRel;
-      }
-    );
-
-    merged.relationships = [...updatedRelationships, ...newRelationships];
-  } else if (!existing.relationships) {
-    // Ensure relationships array exists even if empty
-    merged.relationships = [];
-  }
-
-  // Handle conflicting simple properties
-  const simpleProperties: (keyof GameCharacter)[] = [
-    'name',
-    'species',
-    'locationId',
-    'imageUri',
-    'notes',
-  ];
-
-  for (const prop of simpleProperties) {
-    if (imported[prop] !== undefined && existing[prop] !== imported[prop]) {
-      if (
-        existing[prop] === undefined ||
-        existing[prop] === '' ||
-        existing[prop] === null
-      ) {
-        // If existing is empty, use imported
-        (merged as any)[prop] = imported[prop];
-      } else if (imported[prop] !== '' && imported[prop] !== null) {
-        // Both have values and they're different - this is a conflict
-        conflicts.push(prop);
-      }
-    }
-  }
+/**
+ * Compare an imported dataset with the current data without writing
+ * anything. Resolve the conflicts of the returned review, then apply it with
+ * commitMergeReview. Throws SchemaVersionError for data from a newer app.
+ */
+export const prepareMergeReview = async (
+  jsonData: string
+): Promise<MergeReview> => {
+  const { dataset } = migrateDataset(JSON.parse(jsonData));
+
+  const current: MergeCollections = {
+    characters: await loadCharacters(),
+    factions: await loadFactions(),
+    locations: await loadLocations(),
+    events: await loadEvents(),
+  };
+  const imported: MergeCollections = {
+    characters: dataset.characters ?? [],
+    factions: linkFactionReferences(dataset.factions ?? []).factions,
+    locations: dataset.locations ?? [],
+    events: dataset.events ?? [],
+  };
 
-  return { merged, conflicts };
+  return buildMergeReview(
+    current,
+    imported,
+    await loadMergeBase(),
+    JSON.stringify(dataset)
+  );
 };
 
-export const mergeDatasets = async (jsonData: string): Promise<boolean> => {
-  try {
-    const currentData = await loadCharacters();
-    const currentFactions = await loadFactions();
-    const importedData = JSON.parse(jsonData);
-
-    const mergedCharacters = [...currentData];
-    const addedCharacters: GameCharacter[] = [];
-    const conflicts: MergeConflict[] = [];
-
-    // Auto-create any missing locations referenced by imported characters
-    if (importedData.characters) {
-      await migrateOldLocationData(importedData.characters);
-      await ensureLocationsExist(importedData.characters);
-    }
+/**
+ * Apply a merge review. Returns false without writing anything while any
+ * conflict is unresolved.
+ */
+export const commitMergeReview = async (
+  review: MergeReview,
+  resolutions: MergeResolutions
+): Promise<boolean> => {
+  if (getUnresolvedConflicts(review, resolutions).length > 0) return false;
 
-    // Merge characters
-    for (const importedChar of importedData.characters || []) {
-      const existingIndex = currentData.findIndex(
-        current => current.id === importedChar.id
+  try {
+    const reviewed = applyMergeResolutions(review, resolutions);
+    const incoming = (entityType: JournalEntityType): JournalEntity[] => [
+      ...reviewed.filter(e => e.entityType === entityType).map(e => e.merged),
+      ...review.added
+        .filter(a => a.entityType === entityType)
+        .map(a => a.entity),
+    ];
+    const applyIncoming = <T extends JournalEntity>(
+      entities: T[],
+      entityType: JournalEntityType
+    ): T[] => {
+      const incomingById = new Map(
+        incoming(entityType).map(entity => [entity.id, entity as T])
       );
+      const updated = entities.map(e => incomingById.get(e.id) ?? e);
+      const existingIds = new Set(entities.map(e => e.id));
+      return [
+        ...updated,
+        ...[...incomingById.values()].filter(e => !existingIds.has(e.id)),
+      ];
+    };
 
-      if (existingIndex === -1) {
-        // No conflict - add new character
-        addedCharacters.push(importedChar);
-        mergedCharacters.push(importedChar);
-      } else {
-        // Potential conflict - merge properties
-        const existing = currentData[existingIndex];
-        const { merged, conflicts: propConflicts } = mergeCharacterProperties(
-          existing,
-          importedChar
-        );
+    // Auto-create any missing locations referenced by incoming characters
+    const incomingCharacters = incoming('character') as GameCharacter[];
+    await ensureLocationsExist(incomingCharacters);
 
-        if (propConflicts.length > 0) {
-          conflicts.push({
-            id: importedChar.id,
-            existing,
-            imported: importedChar,
-            conflicts: propConflicts,
-          });
-        }
+    const characters = await loadCharacters();
+    const factions = await loadFactions();
+    const locations = await loadLocations();
+    const events = await loadEvents();
 
-        // Use merged version (even if there are conflicts, we still merge non-conflicting properties)
-        mergedCharacters[existingIndex] = merged;
-      }
-    }
+    const mergedCharacters = applyIncoming(characters, 'character');
+    const mergedFactions = applyIncoming(factions, 'faction');
+    const mergedLocations = applyIncoming(locations, 'location');
+    const mergedEvents = applyIncoming(events, 'event');
 
     await saveCharacters(mergedCharacters);
-
-    // Merge factions
-    if (importedData.factions) {
-      const mergedFactions = [...currentFactions];
-      const existingFactionNames = new Set(currentFactions.map(f => f.name));
-
-      for (const importedFaction of importedData.factions) {
-        if (!existingFactionNames.has(importedFaction.name)) {
-          mergedFactions.push(importedFaction);
-        } else {
-          // Update existing faction if imported one has more recent update
-          const existingIndex = mergedFactions.findIndex(
-            f => f.name === importedFaction.name
-          );
-          if (
-            existingIndex >= 0 &&
-            importedFaction.updatedAt > mergedFactions[existingIndex].updatedAt
-          ) {
-            mergedFactions[existingIndex] = importedFaction;
-          }
-        }
-      }
-
-      await saveFactions(mergedFactions);
-    }
-
-    // Merge locations
-    if (importedData.locations) {
-      const currentLocations = await loadLocations();
-      const mergedLocations = [...currentLocations];
-      const existingLocationIds = new Set(currentLocations.map(l => l.id));
-
-      for (const importedLocation of importedData.locations) {
-        if (!existingLocationIds.has(importedLocation.id)) {
-          mergedLocations.push(importedLocation);
-        } else {
-          // Update existing location if imported one has more recent update
-          const existingIndex = mergedLocations.findIndex(
-            l => l.id === importedLocation.id
-          );
-          if (
-            existingIndex >= 0 &&
-            importedLocation.updatedAt >
-              mergedLocations[existingIndex].updatedAt
-          ) {
-            mergedLocations[existingIndex] = importedLocation;
-          }
-        }
-      }
-
-      await saveLocations(mergedLocations);
+    await saveFactions(mergedFactions);
+    await saveLocations(mergedLocations);
+    await saveEvents(mergedEvents);
+
+    // Discord data, inventory, progression and live state aren't reviewed
+    // item by item. Discord messages, mappings and aliases merge as on
+    // import; the newest copy of each inventory item and live state wins, and
+    // ledger entries missing here are added.
+    const { discord, inventory, progression, liveState } = JSON.parse(
+      review.importedPayload
+    );
+    if (discord) {
+      await importDiscordDataset(discord, true);
     }
-
-    return true;
-  } catch (error) {
-    console.error('Error merging datasets:', error);
-    return false;
-  }
-};
-
-// Enhanced merge function that can handle user interaction
-export const mergeDatasetWithConflictResolution = async (
-  jsonData: string
-): Promise<MergeResult> => {
-  try {
-    const currentData = await loadCharacters();
-    const currentFactions = await loadFactions();
-    const importedData = JSON.parse(jsonData);
-
-    const mergedCharacters = [...currentData];
-    const addedCharacters: GameCharacter[] = [];
-    const conflicts: MergeConflict[] = [];
-
-    // Auto-create any missing locations referenced by imported characters
-    if (importedData.characters) {
-      await migrateOldLocationData(importedData.characters);
-      await ensureLocationsExist(importedData.characters);
+    if (inventory) {
+      await importInventoryDataset(inventory, true);
     }
-
-    // Merge characters
-    for (const importedChar of importedData.characters || []) {
-      const existingIndex = currentData.findIndex(
-        current => current.id === importedChar.id
-      );
-
-      if (existingIndex === -1) {
-        // No conflict - add new character
-        addedCharacters.push(importedChar);
-        mergedCharacters.push(importedChar);
-      } else {
-        // Potential conflict - merge properties
-        const existing = currentData[existingIndex];
-        const { merged, conflicts: propConflicts } = mergeCharacterProperties(
-          existing,
-          importedChar
-        );
-
-        if (propConflicts.length > 0) {
-          conflicts.push({
-            id: importedChar.id,
-            existing,
-            imported: importedChar,
-            conflicts: propConflicts,
-          });
-        }
-
-        // Use merged version for now
-        mergedCharacters[existingIndex] = merged;
-      }
+    if (progression) {
+      await importProgressionDataset(progression, true);
     }
-
-    await saveCharacters(mergedCharacters);
-
-    // Merge factions
-    if (importedData.factions) {
-      const mergedFactions = [...currentFactions];
-      const existingFactionNames = new Set(currentFactions.map(f => f.name));
-
-      for (const importedFaction of importedData.factions) {
-        if (!existingFactionNames.has(importedFaction.name)) {
-          mergedFactions.push(importedFaction);
-        } else {
-          // Update existing faction if imported one has more recent update
-          const existingIndex = mergedFactions.findIndex(
-            f => f.name === importedFaction.name
-          );
-          if (
-            existingIndex >= 0 &&
-            importedFaction.updatedAt > mergedFactions[existingIndex].updatedAt
-          ) {
-            mergedFactions[existingIndex] = importedFaction;
-          }
-        }
-      }
-
-      await saveFactions(mergedFactions);
+    if (liveState) {
+      await importLiveStateDataset(liveState, true);
     }
 
-    // Merge locations
-    if (importedData.locations) {
-      const currentLocations = await loadLocations();
-      const mergedLocations = [...currentLocations];
-      const existingLocationIds = new Set(currentLocations.map(l => l.id));
-
-      for (const importedLocation of importedData.locations) {
-        if (!existingLocationIds.has(importedLocation.id)) {
-          mergedLocations.push(importedLocation);
-        } else {
-          // Update existing location if imported one has more recent update
-          const existingIndex = mergedLocations.findIndex(
-            l => l.id === importedLocation.id
-          );
-          if (
-            existingIndex >= 0 &&
-            importedLocation.updatedAt >
-              mergedLocations[existingIndex].updatedAt
-          ) {
-            mergedLocations[existingIndex] = importedLocation;
-          }
-        }
-      }
-
-      await saveLocations(mergedLocations);
-    }
+    await journalChange('Merged imported data', [
+      ...diffEntities('character', characters, mergedCharacters),
+      ...diffEntities('faction', factions, mergedFactions),
+      ...diffEntities('location', locations, mergedLocations),
+      ...diffEntities('event', events, mergedEvents),
+    ]);
+    await saveMergeBase(review.importedPayload);
 
-    return {
-      success: true,
-      conflicts,
-      merged: mergedCharacters,
-      added: addedCharacters,
-    };
+    return true;
   } catch (error) {
-    console.error('Error merging datasets:', error);
-    return {
-      success: false,
-      conflicts: [],
-      merged: [],
-      added: [],
-    };
+    console.error('Error committing merge:', error);
+    return false;
   }
 };
 
 export const toggleCharacterPresent = async (
   id: string
 ): Promise<GameCharacter | null> => {
-  const characters = await loadCharacters();
-  const index = characters.findIndex(c => c.id === id);
-
-  if (index === -1) return null;
+  await assertStoreWritable();
+  const previousCharacter = await loadCharacter(id);
+  if (!previousCharacter) return null;
 
   const updatedCharacter: GameCharacter = {
-    ...characters[index],
-    present: !characters[index].present,
+    ...previousCharacter,
+    present: !previousCharacter.present,
     updatedAt: new Date().toISOString(),
   };
 
-  characters[index] = updatedCharacter;
-  await saveCharacters(characters);
+  await characterCollection.put([updatedCharacter]);
+  await journalChange(
+    `Marked "${updatedCharacter.name}" as ${updatedCharacter.present ? 'present' : 'absent'}`,
+    [createEntityChange('character', previousCharacter, updatedCharacter)]
+  );
   return updatedCharacter;
 };
 
@@ -790,40 +763,51 @@ export const resetAllPresentStatus = async (): Promise<void> => {
   }));
 
   await saveCharacters(updatedCharacters);
+  await journalChange(
+    'Reset present status',
+    diffEntities('character', characters, updatedCharacters)
+  );
 };
 
 export const clearStorage = async (): Promise<void> => {
-  await SafeAsyncStorageJSONParser.removeItem(STORAGE_KEY);
-  await SafeAsyncStorageJSONParser.removeItem(FACTION_STORAGE_KEY);
-  await SafeAsyncStorageJSONParser.removeItem(LOCATION_STORAGE_KEY);
-  await SafeAsyncStorageJSONParser.removeItem(EVENT_STORAGE_KEY);
+  await characterCollection.clear();
+  await factionCollection.clear();
+  await locationCollection.clear();
+  await eventCollection.clear();
+  await clearInventory();
+  await clearProgression();
+  await clearLiveStates();
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(SCHEMA_VERSION_KEY)
+  );
 };
 
 // Faction management functions
 export const saveFactions = async (
   factions: StoredFaction[]
 ): Promise<void> => {
-  const dataset: FactionDataset = {
-    factions,
-    version: '1.0',
-    lastUpdated: new Date().toISOString(),
-  };
-  await SafeAsyncStorageJSONParser.setItem(FACTION_STORAGE_KEY, dataset);
+  await assertStoreWritable();
+  // Records are keyed by ID, so a faction saved without one gets it now
+  await factionCollection.replaceAll(linkFactionReferences(factions).factions);
 };
 
 export const loadFactions = async (): Promise<StoredFaction[]> => {
-  const dataset =
-    await SafeAsyncStorageJSONParser.getItem<FactionDataset>(
-      FACTION_STORAGE_KEY
-    );
-  if (!dataset) return [];
+  const version = await migrateStoredCollections();
 
   // Handle backward compatibility - set defaults for missing properties
-  return (dataset.factions || []).map(faction => ({
+  const factions = (await factionCollection.getAll()).map(faction => ({
     ...faction,
     retired: faction.retired ?? false,
     relationships: faction.relationships ?? [],
   }));
+
+  // One-time migration: give legacy factions a stable ID
+  const linked = linkFactionReferences(factions);
+  if (linked.changed && !isNewerSchema(version)) {
+    await saveFactions(linked.factions);
+  }
+
+  return linked.factions;
 };
 
 export const getFactionDescription = async (
@@ -842,38 +826,95 @@ export const saveFactionDescription = async (
   const existingIndex = factions.findIndex(f => f.name === factionName);
 
   const now = new Date().toISOString();
+  const previousFaction = existingIndex >= 0 ? factions[existingIndex] : null;
+  let savedFaction: StoredFaction;
 
-  if (existingIndex >= 0) {
+  if (previousFaction) {
     // Update existing faction
-    factions[existingIndex] = {
-      ...factions[existingIndex],
+    savedFaction = {
+      ...previousFaction,
       description,
       updatedAt: now,
     };
+    factions[existingIndex] = savedFaction;
   } else {
     // Create new faction
-    factions.push({
+    savedFaction = {
+      id: uuidv4(),
       name: factionName,
       description,
       createdAt: now,
       updatedAt: now,
-    });
+    };
+    factions.push(savedFaction);
   }
 
   await saveFactions(factions);
+  await journalChange(
+    `Updated description of faction "${factionName}"`,
+    diffEntities('faction', previousFaction ? [previousFaction] : [], [
+      savedFaction,
+    ])
+  );
 };
 
 export const getAllStoredFactions = async (): Promise<StoredFaction[]> => {
   return await loadFactions();
 };
 
+// Remove a faction from storage without journaling, together with other
+// factions' relationships to it. Its cells move up to its own parent.
+// Returns the changes made to the other factions.
+const removeFaction = async (
+  faction: StoredFaction
+): Promise<EntityChange[]> => {
+  const remaining = (await loadFactions()).filter(f => f.id !== faction.id);
+  const cellIds = new Set(
+    (await factionCollection.findBy('parentFaction', faction.id)).map(
+      cell => cell.id
+    )
+  );
+
+  const updatedFactions = remaining.map(other => {
+    const relationships = other.relationships ?? [];
+    const kept = relationships.filter(
+      relationship => !isFactionRelationshipTo(relationship, faction)
+    );
+    const relationshipsChanged = kept.length !== relationships.length;
+    const isCell = cellIds.has(other.id);
+    if (!relationshipsChanged && !isCell) return other;
+
+    const updated: StoredFaction = {
+      ...other,
+      ...(relationshipsChanged ? { relationships: kept } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+    if (isCell) {
+      // A loop through the deleted faction leaves the cell top-level
+      if (faction.parentFactionId && faction.parentFactionId !== other.id) {
+        updated.parentFactionId = faction.parentFactionId;
+      } else {
+        delete updated.parentFactionId;
+      }
+    }
+    return updated;
+  });
+
+  await saveFactions(updatedFactions);
+  return diffEntities('faction', remaining, updatedFactions);
+};
+
 export const deleteFaction = async (factionName: string): Promise<boolean> => {
-  const factions = await loadFactions();
-  const filtered = factions.filter(f => f.name !== factionName);
+  const faction = (await loadFactions()).find(f => f.name === factionName);
 
-  if (filtered.length === factions.length) return false;
+  if (!faction) return false;
 
-  await saveFactions(filtered);
+  const cascadedChanges = await removeFaction(faction);
+  await trashEntity('faction', faction, cascadedChanges);
+  await journalChange(`Deleted faction "${factionName}"`, [
+    createEntityChange('faction', faction, null),
+    ...cascadedChanges,
+  ]);
   return true;
 };
 
@@ -881,6 +922,9 @@ export const deleteFactionCompletely = async (
   factionName: string
 ): Promise<{ success: boolean; charactersUpdated: number }> => {
   try {
+    const faction = (await loadFactions()).find(f => f.name === factionName);
+    if (!faction) return { success: false, charactersUpdated: 0 };
+
     // First, remove the faction from all characters
     const characters = await loadCharacters();
     let charactersUpdated = 0;
@@ -888,7 +932,7 @@ export const deleteFactionCompletely = async (
     const updatedCharacters = characters.map(character => {
       const originalFactionCount = character.factions.length;
       const updatedFactions = character.factions.filter(
-        faction => faction.name !== factionName
+        membership => !isFactionReferenceTo(membership, faction)
       );
 
       if (updatedFactions.length !== originalFactionCount) {
@@ -909,7 +953,16 @@ export const deleteFactionCompletely = async (
     }
 
     // Then remove the faction from centralized storage
-    await deleteFaction(factionName);
+    const cascadedChanges = [
+      ...diffEntities('character', characters, updatedCharacters),
+      ...(await removeFaction(faction)),
+    ];
+
+    await trashEntity('faction', faction, cascadedChanges);
+    await journalChange(`Deleted faction "${factionName}"`, [
+      createEntityChange('faction', faction, null),
+      ...cascadedChanges,
+    ]);
 
     return {
       success: true,
@@ -924,14 +977,28 @@ export const deleteFactionCompletely = async (
   }
 };
 
+// Resolve relationships picked by name in the faction form to stable IDs
+const linkRelationshipTargets = (
+  relationships: FactionRelationship[],
+  factions: StoredFaction[]
+): FactionRelationship[] =>
+  relationships.map(relationship => {
+    const target = factions.find(f => isFactionRelationshipTo(relationship, f));
+    return target
+      ? { ...relationship, factionId: target.id, factionName: target.name }
+      : relationship;
+  });
+
 export const createFaction = async (factionData: {
   name: string;
   description: string;
-  imageUri?: string;
   imageUris?: string[];
   relationships?: FactionRelationship[];
+  parentFactionId?: string;
 }): Promise<boolean> => {
   const existingFactions = await loadFactions();
+  // Reciprocal relationships are written onto the loaded objects
+  const previousFactions = existingFactions.map(f => ({ ...f }));
 
   // Check if faction with this name already exists
   const existingFaction = existingFactions.find(
@@ -940,34 +1007,49 @@ export const createFaction = async (factionData: {
   if (existingFaction) {
     return false; // Faction already exists
   }
+  if (
+    factionData.parentFactionId &&
+    !canSetParentFaction(
+      undefined,
+      factionData.parentFactionId,
+      existingFactions
+    )
+  ) {
+    return false; // Parent faction doesn't exist
+  }
 
   const now = new Date().toISOString();
   const newFaction: StoredFaction = {
+    id: uuidv4(),
     name: factionData.name,
     description: factionData.description,
-    imageUri: factionData.imageUri,
     imageUris: factionData.imageUris,
-    relationships: factionData.relationships || [],
+    relationships: linkRelationshipTargets(
+      factionData.relationships || [],
+      existingFactions
+    ),
+    parentFactionId: factionData.parentFactionId,
     createdAt: now,
     updatedAt: now,
   };
 
   // Add bidirectional relationships
   const updatedFactions = [...existingFactions, newFaction];
-  if (factionData.relationships && factionData.relationships.length > 0) {
-    factionData.relationships.forEach(relationship => {
-      const targetFaction = updatedFactions.find(
-        f => f.name === relationship.factionName
+  if (newFaction.relationships && newFaction.relationships.length > 0) {
+    newFaction.relationships.forEach(relationship => {
+      const targetFaction = updatedFactions.find(f =>
+        isFactionRelationshipTo(relationship, f)
       );
       if (targetFaction) {
         // Add reciprocal relationship if it doesn't exist
-        const reciprocalExists = (targetFaction.relationships || []).some(
-          r => r.factionName === factionData.name
+        const reciprocalExists = (targetFaction.relationships || []).some(r =>
+          isFactionRelationshipTo(r, newFaction)
         );
         if (!reciprocalExists) {
           targetFaction.relationships = [
             ...(targetFaction.relationships || []),
             {
+              factionId: newFaction.id,
               factionName: factionData.name,
               relationshipType: relationship.relationshipType,
             },
@@ -979,6 +1061,10 @@ export const createFaction = async (factionData: {
   }
 
   await saveFactions(updatedFactions);
+  await journalChange(
+    `Created faction "${newFaction.name}"`,
+    diffEntities('faction', previousFactions, updatedFactions)
+  );
   return true;
 };
 
@@ -987,9 +1073,9 @@ export const updateFaction = async (
   updates: {
     name?: string;
     description?: string;
-    imageUri?: string;
     imageUris?: string[];
     relationships?: FactionRelationship[];
+    parentFactionId?: string;
   }
 ): Promise<StoredFaction | null> => {
   const factions = await loadFactions();
@@ -997,6 +1083,9 @@ export const updateFaction = async (
 
   if (index === -1) return null;
 
+  // Reciprocal relationships are written onto the loaded objects
+  const previousFactions = factions.map(f => ({ ...f }));
+
   // If name is being changed, check if new name already exists
   if (updates.name && updates.name !== factionName) {
     const nameExists = factions.some(
@@ -1007,71 +1096,83 @@ export const updateFaction = async (
     }
   }
 
+  // A faction can't become a cell of itself or of one of its own cells
+  if (
+    updates.parentFactionId &&
+    !canSetParentFaction(factions[index].id, updates.parentFactionId, factions)
+  ) {
+    return null;
+  }
+
   const now = new Date().toISOString();
-  const oldRelationships = factions[index].relationships || [];
+  const originalFaction = factions[index];
+  const oldRelationships = originalFaction.relationships || [];
 
   const updatedFaction: StoredFaction = {
-    ...factions[index],
+    ...originalFaction,
     ...updates,
     updatedAt: now,
   };
+  if (updates.relationships !== undefined) {
+    updatedFaction.relationships = linkRelationshipTargets(
+      updates.relationships || [],
+      factions
+    );
+  }
 
   factions[index] = updatedFaction;
 
   // Handle bidirectional relationships
   if (updates.relationships !== undefined) {
-    const newRelationships = updates.relationships || [];
+    const newRelationships = updatedFaction.relationships || [];
+    const isSameTarget = (a: FactionRelationship, b: FactionRelationship) =>
+      a.factionId && b.factionId
+        ? a.factionId === b.factionId
+        : a.factionName === b.factionName;
 
     // Find relationships that were removed
     const removedRelationships = oldRelationships.filter(
-      oldRel =>
-        !newRelationships.some(
-          newRel => newRel.factionName === oldRel.factionName
-        )
+      oldRel => !newRelationships.some(newRel => isSameTarget(newRel, oldRel))
     );
 
     // Find relationships that were added
     const addedRelationships = newRelationships.filter(
-      newRel =>
-        !oldRelationships.some(
-          oldRel => oldRel.factionName === newRel.factionName
-        )
+      newRel => !oldRelationships.some(oldRel => isSameTarget(oldRel, newRel))
     );
 
     // Find relationships that changed type
     const changedRelationships = newRelationships.filter(newRel => {
-      const oldRel = oldRelationships.find(
-        oldR => oldR.factionName === newRel.factionName
-      );
+      const oldRel = oldRelationships.find(oldR => isSameTarget(oldR, newRel));
       return oldRel && oldRel.relationshipType !== newRel.relationshipType;
     });
 
     // Remove reciprocal relationships for removed relationships
     removedRelationships.forEach(relationship => {
-      const targetFaction = factions.find(
-        f => f.name === relationship.factionName
+      const targetFaction = factions.find(f =>
+        isFactionRelationshipTo(relationship, f)
       );
       if (targetFaction) {
         targetFaction.relationships = (
           targetFaction.relationships || []
-        ).filter(r => r.factionName !== factionName);
+        ).filter(r => !isFactionRelationshipTo(r, originalFaction));
         targetFaction.updatedAt = now;
       }
     });
 
     // Add reciprocal relationships for added relationships
     addedRelationships.forEach(relationship => {
-      const targetFaction = factions.find(
-        f => f.name === relationship.factionName
+      const targetFaction = factions.find(f =>
+        isFactionRelationshipTo(relationship, f)
       );
       if (targetFaction) {
-        const reciprocalExists = (targetFaction.relationships || []).some(
-          r => r.factionName === factionName
+        const reciprocalExists = (targetFaction.relationships || []).some(r =>
+          isFactionRelationshipTo(r, originalFaction)
         );
         if (!reciprocalExists) {
           targetFaction.relationships = [
             ...(targetFaction.relationships || []),
             {
+              factionId: originalFaction.id,
               factionName: factionName,
               relationshipType: relationship.relationshipType,
             },
@@ -1083,13 +1184,13 @@ export const updateFaction = async (
 
     // Update reciprocal relationships for changed relationships
     changedRelationships.forEach(relationship => {
-      const targetFaction = factions.find(
-        f => f.name === relationship.factionName
+      const targetFaction = factions.find(f =>
+        isFactionRelationshipTo(relationship, f)
       );
       if (targetFaction) {
         targetFaction.relationships = (targetFaction.relationships || []).map(
           r =>
-            r.factionName === factionName
+            isFactionRelationshipTo(r, originalFaction)
               ? { ...r, relationshipType: relationship.relationshipType }
               : r
         );
@@ -1100,14 +1201,24 @@ export const updateFaction = async (
 
   await saveFactions(factions);
 
+  let finalFactions = factions;
+  const journalChanges: EntityChange[] = [];
+
   // If name changed, update all character faction references and faction relationships
   if (updates.name && updates.name !== factionName) {
     // Update character faction references
     const characters = await loadCharacters();
     const updatedCharacters = characters.map(character => {
+      if (
+        !character.factions.some(faction =>
+          isFactionReferenceTo(faction, originalFaction)
+        )
+      ) {
+        return character;
+      }
       const updatedFactions = character.factions.map(faction =>
-        faction.name === factionName
-          ? { ...faction, name: updates.name! }
+        isFactionReferenceTo(faction, originalFaction)
+          ? { ...faction, factionId: originalFaction.id, name: updates.name! }
           : faction
       );
       return {
@@ -1117,22 +1228,29 @@ export const updateFaction = async (
       };
     });
     await saveCharacters(updatedCharacters);
+    journalChanges.push(
+      ...diffEntities('character', characters, updatedCharacters)
+    );
 
-    // Update all faction relationships that reference the old name
+    // Refresh the display name on all faction relationships to this faction
     const updatedFactions = factions.map(faction => {
-      if (faction.name === factionName) {
+      if (faction.id === originalFaction.id) {
         // Skip the faction being renamed (already handled above)
         return faction;
       }
-      const hasRelationship = (faction.relationships || []).some(
-        r => r.factionName === factionName
+      const hasRelationship = (faction.relationships || []).some(r =>
+        isFactionRelationshipTo(r, originalFaction)
       );
       if (hasRelationship) {
         return {
           ...faction,
           relationships: (faction.relationships || []).map(r =>
-            r.factionName === factionName
-              ? { ...r, factionName: updates.name! }
+            isFactionRelationshipTo(r, originalFaction)
+              ? {
+                  ...r,
+                  factionId: originalFaction.id,
+                  factionName: updates.name!,
+                }
               : r
           ),
           updatedAt: now,
@@ -1141,8 +1259,14 @@ export const updateFaction = async (
       return faction;
     });
     await saveFactions(updatedFactions);
+    finalFactions = updatedFactions;
   }
 
+  await journalChange(`Updated faction "${updatedFaction.name}"`, [
+    ...diffEntities('faction', previousFactions, finalFactions),
+    ...journalChanges,
+  ]);
+
   return updatedFaction;
 };
 
@@ -1154,105 +1278,48 @@ export const toggleFactionRetired = async (
 
   if (index === -1) return false;
 
+  const previousFaction = factions[index];
   factions[index] = {
-    ...factions[index],
-    retired: !factions[index].retired,
+    ...previousFaction,
+    retired: !previousFaction.retired,
     updatedAt: new Date().toISOString(),
   };
 
   await saveFactions(factions);
+  await journalChange(
+    `${factions[index].retired ? 'Retired' : 'Reinstated'} faction "${factionName}"`,
+    [createEntityChange('faction', previousFaction, factions[index])]
+  );
   return true;
 };
 
-// Migration function to move faction descriptions from character data to centralized storage
-export const migrateFactionDescriptions = async (): Promise<void> => {
-  try {
-    const characters = await loadCharacters();
-    const existingFactions = await loadFactions();
-    const factionDescriptions = new Map<string, string>();
-
-    // Collect all faction descriptions from characters
-    characters.forEach(character => {
-      character.factions.forEach(faction => {
-        if (faction.description && faction.description.trim() !== '') {
-          // Use the first non-empty description found for each faction
-          if (!factionDescriptions.has(faction.name)) {
-            factionDescriptions.set(faction.name, faction.description);
-          }
-        }
-      });
-    });
-
-    // Create or update centralized faction storage
-    const updatedFactions = [...existingFactions];
-
-    factionDescriptions.forEach((description, factionName) => {
-      const existingIndex = updatedFactions.findIndex(
-        f => f.name === factionName
-      );
-      const now = new Date().toISOString();
-
-      if (existingIndex >= 0) {
-        // Update existing faction if it has no description
-        if (!updatedFactions[existingIndex].description) {
-          updatedFactions[existingIndex] = {
-            ...updatedFactions[existingIndex],
-            description,
-            updatedAt: now,
-          };
-        }
-      } else {
-        // Create new faction entry
-        updatedFactions.push({
-          name: factionName,
-          description,
-          createdAt: now,
-          updatedAt: now,
-        });
-      }
-    });
-
-    await saveFactions(updatedFactions);
-  } catch (error) {
-    console.error('Error migrating faction descriptions:', error);
-  }
-};
-
 // Location management functions
 export const saveLocations = async (
   locations: GameLocation[]
 ): Promise<void> => {
-  const dataset: LocationDataset = {
-    locations,
-    version: '1.0',
-    lastUpdated: new Date().toISOString(),
-  };
-  await SafeAsyncStorageJSONParser.setItem(LOCATION_STORAGE_KEY, dataset);
+  await assertStoreWritable();
+  await locationCollection.replaceAll(locations);
 };
 
 export const loadLocations = async (): Promise<GameLocation[]> => {
-  const dataset =
-    await SafeAsyncStorageJSONParser.getItem<LocationDataset>(
-      LOCATION_STORAGE_KEY
-    );
-  if (!dataset) return [];
-
-  return dataset.locations || [];
+  await migrateStoredCollections();
+  return await locationCollection.getAll();
 };
 
 export const getLocation = async (
   locationId: string
 ): Promise<GameLocation | null> => {
-  const locations = await loadLocations();
-  return locations.find(l => l.id === locationId) || null;
+  await migrateStoredCollections();
+  const [location] = await locationCollection.getMany([locationId]);
+  return location ?? null;
 };
 
 export const createLocation = async (locationData: {
   name: string;
   description: string;
-  imageUri?: string;
   imageUris?: string[];
 }): Promise<GameLocation | null> => {
+  await assertStoreWritable();
   const existingLocations = await loadLocations();
 
   // Check if location with this name already exists
@@ -1268,13 +1335,15 @@ export const createLocation = async (locationData: {
     id: uuidv4(),
     name: locationData.name,
     description: locationData.description,
-    imageUri: locationData.imageUri,
     imageUris: locationData.imageUris,
     createdAt: now,
     updatedAt: now,
   };
 
-  await saveLocations([...existingLocations, newLocation]);
+  await locationCollection.put([newLocation]);
+  await journalChange(`Created location "${newLocation.name}"`, [
+    createEntityChange('location', null, newLocation),
+  ]);
   return newLocation;
 };
 
@@ -1282,29 +1351,46 @@ export const updateLocation = async (
   locationId: string,
   updates: Partial<Omit<GameLocation, 'id' | 'createdAt'>>
 ): Promise<GameLocation | null> => {
-  const locations = await loadLocations();
-  const index = locations.findIndex(l => l.id === locationId);
-
-  if (index === -1) return null;
+  await assertStoreWritable();
+  const previousLocation = await getLocation(locationId);
+  if (!previousLocation) return null;
 
   const updatedLocation: GameLocation = {
-    ...locations[index],
+    ...previousLocation,
     ...updates,
     updatedAt: new Date().toISOString(),
   };
 
-  locations[index] = updatedLocation;
-  await saveLocations(locations);
+  await locationCollection.put([updatedLocation]);
+  await journalChange(
+    `Updated location "${updatedLocation.name}"`,
+    diffEntities('location', [previousLocation], [updatedLocation])
+  );
   return updatedLocation;
 };
 
+// Remove a location from storage without journaling. Returns the removed
+// location, or null if it doesn't exist.
+const removeLocation = async (
+  locationId: string
+): Promise<GameLocation | null> => {
+  await assertStoreWritable();
+  const location = await getLocation(locationId);
+  if (!location) return null;
+
+  await locationCollection.remove([locationId]);
+  return location;
+};
+
 export const deleteLocation = async (locationId: string): Promise<boolean> => {
-  const locations = await loadLocations();
-  const filtered = locations.filter(l => l.id !== locationId);
+  const location = await removeLocation(locationId);
 
-  if (filtered.length === locations.length) return false;
+  if (!location) return false;
 
-  await saveLocations(filtered);
+  await trashEntity('location', location);
+  await journalChange(`Deleted location "${location.name}"`, [
+    createEntityChange('location', location, null),
+  ]);
   return true;
 };
 
@@ -1312,29 +1398,32 @@ export const deleteLocationCompletely = async (
   locationId: string
 ): Promise<{ success: boolean; charactersUpdated: number }> => {
   try {
-    // First, remove the location reference from all characters
-    const characters = await loadCharacters();
-    let charactersUpdated = 0;
+    await assertStoreWritable();
+    // First, remove the location reference from its characters
+    const characters = await loadCharactersAtLocation(locationId);
+    const charactersUpdated = characters.length;
+    const updatedCharacters = characters.map(character => ({
+      ...character,
+      locationId: undefined,
+      updatedAt: new Date().toISOString(),
+    }));
+    await characterCollection.put(updatedCharacters);
 
-    const updatedCharacters = characters.map(character => {
-      if (character.locationId === locationId) {
-        charactersUpdated++;
-        return {
-          ...character,
-          locationId: undefined,
-          updatedAt: new Date().toISOString(),
-        };
-      }
-      return character;
-    });
+    // Then remove the location from centralized storage
+    const location = await removeLocation(locationId);
+    const cascadedChanges = diffEntities(
+      'character',
+      characters,
+      updatedCharacters
+    );
 
-    // Save updated characters if any were modified
-    if (charactersUpdated > 0) {
-      await saveCharacters(updatedCharacters);
+    if (location) {
+      await trashEntity('location', location, cascadedChanges);
     }
-
-    // Then remove the location from centralized storage
-    await deleteLocation(locationId);
+    await journalChange(`Deleted location "${location?.name ?? locationId}"`, [
+      ...(location ? [createEntityChange('location', location, null)] : []),
+      ...cascadedChanges,
+    ]);
 
     return {
       success: true,
@@ -1354,20 +1443,20 @@ export const deleteLocationCompletely = async (
 // ============================================
 
 export const saveEvents = async (events: GameEvent[]): Promise<void> => {
-  const dataset: EventDataset = {
-    events,
-    version: '1.0',
-    lastUpdated: new Date().toISOString(),
-  };
-  await SafeAsyncStorageJSONParser.setItem(EVENT_STORAGE_KEY, dataset);
+  await assertStoreWritable();
+  await eventCollection.replaceAll(events);
 };
 
 export const loadEvents = async (): Promise<GameEvent[]> => {
-  const dataset =
-    await SafeAsyncStorageJSONParser.getItem<EventDataset>(EVENT_STORAGE_KEY);
-  if (!dataset) return [];
+  await migrateStoredCollections();
+  return await eventCollection.getAll();
+};
 
-  return dataset.events || [];
+// Load a single event, or null if it doesn't exist
+const loadEvent = async (id: string): Promise<GameEvent | null> => {
+  await migrateStoredCollections();
+  const [event] = await eventCollection.getMany([id]);
+  return event ?? null;
 };
 
 export const createEvent = async (
@@ -1379,7 +1468,7 @@ export const createEvent = async (
 export const addEvent = async (
   event: Omit<GameEvent, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<GameEvent> => {
-  const events = await loadEvents();
+  await assertStoreWritable();
   const newEvent: GameEvent = {
     ...event,
     id: uuidv4(),
@@ -1387,7 +1476,10 @@ export const addEvent = async (
     updatedAt: new Date().toISOString(),
   };
 
-  await saveEvents([...events, newEvent]);
+  await eventCollection.put([newEvent]);
+  await journalChange(`Created event "${newEvent.title}"`, [
+    createEntityChange('event', null, newEvent),
+  ]);
   return newEvent;
 };
 
@@ -1395,28 +1487,320 @@ export const updateEvent = async (
   id: string,
   updates: Partial<GameEvent>
 ): Promise<GameEvent | null> => {
-  const events = await loadEvents();
-  const index = events.findIndex(e => e.id === id);
-
-  if (index === -1) return null;
+  await assertStoreWritable();
+  const previousEvent = await loadEvent(id);
+  if (!previousEvent) return null;
 
   const updatedEvent: GameEvent = {
-    ...events[index],
+    ...previousEvent,
     ...updates,
     updatedAt: new Date().toISOString(),
   };
 
-  events[index] = updatedEvent;
-  await saveEvents(events);
+  await eventCollection.put([updatedEvent]);
+  await journalChange(
+    `Updated event "${updatedEvent.title}"`,
+    diffEntities('event', [previousEvent], [updatedEvent])
+  );
   return updatedEvent;
 };
 
 export const deleteEvent = async (id: string): Promise<boolean> => {
-  const events = await loadEvents();
-  const filtered = events.filter(e => e.id !== id);
+  await assertStoreWritable();
+  const event = await loadEvent(id);
+  if (!event) return false;
+
+  await eventCollection.remove([id]);
+  await trashEntity('event', event);
+  await journalChange(`Deleted event "${event.title}"`, [
+    createEntityChange('event', event, null),
+  ]);
+  return true;
+};
+
+// ============================================
+// Inventory Transfers
+// ============================================
+
+export interface InventoryTransferResult {
+  item: InventoryItem | null; // The item as held by the new owner
+  event: GameEvent | null; // The event logging the transfer
+  errors: string[];
+}
+
+// Hand some or all of an item to another character or faction, and log the
+// transfer as an event involving both owners
+export const transferInventoryItem = async (
+  itemId: string,
+  to: InventoryOwner,
+  quantity: number,
+  date: string
+): Promise<InventoryTransferResult> => {
+  const item = (await loadInventory()).find(i => i.id === itemId);
+  if (!item) {
+    return { item: null, event: null, errors: ['The item no longer exists.'] };
+  }
+  const errors = validateInventoryTransfer(item, to, quantity, date);
+  if (errors.length > 0) return { item: null, event: null, errors };
+
+  const owners = [item.owner, to];
+  const event = await addEvent({
+    title: `${item.owner.name} gave ${to.name} ${item.name}`,
+    description: `${quantity} × ${item.name} went from ${item.owner.name} to ${to.name}.`,
+    date,
+    characterIds: owners.filter(o => o.type === 'character').map(o => o.id),
+    factionNames: owners.filter(o => o.type === 'faction').map(o => o.name),
+  });
+  const transferred = await transferItem(itemId, to, quantity, date, event.id);
+  return { item: transferred, event, errors: [] };
+};
+
+// ============================================
+// Relationship Reciprocity
+// ============================================
+
+// Fix relationship reciprocity issues in one save, journaled as a single
+// change so one undo reverts the whole batch. Returns the number of
+// characters changed.
+export const fixRelationshipIssues = async (
+  issues: ReciprocityIssue[]
+): Promise<number> => {
+  if (issues.length === 0) return 0;
+  const characters = await loadCharacters();
+  const now = new Date().toISOString();
+  const fixed = applyReciprocityFixes(characters, issues).map(
+    (character, index) =>
+      character === characters[index]
+        ? character
+        : { ...character, updatedAt: now }
+  );
+
+  const changes = diffEntities('character', characters, fixed);
+  if (changes.length === 0) return 0;
+  await saveCharacters(fixed);
+  await journalChange(
+    `Fixed ${issues.length} relationship ${issues.length === 1 ? 'issue' : 'issues'}`,
+    changes
+  );
+  return changes.length;
+};
+
+// ============================================
+// Trash Functions
+// ============================================
+
+// Put back the references a deletion stripped from a character, keeping any
+// edits made to the character since it was deleted
+const reinstateReferences = (
+  cascadedChange: EntityChange,
+  character: GameCharacter,
+  deletedFaction: StoredFaction | null
+): GameCharacter => {
+  // Only the fields the deletion changed are recorded
+  const before = cascadedChange.before as Partial<GameCharacter> | null;
+  const after = cascadedChange.after as Partial<GameCharacter> | null;
+  if (!before || !after) return character;
+
+  const removedFactions =
+    deletedFaction &&
+    !character.factions.some(f => isFactionReferenceTo(f, deletedFaction))
+      ? (before.factions ?? []).filter(f =>
+          isFactionReferenceTo(f, deletedFaction)
+        )
+      : [];
+  const restoreLocation =
+    !!before.locationId && !after.locationId && !character.locationId;
 
-  if (filtered.length === events.length) return false;
+  if (removedFactions.length === 0 && !restoreLocation) return character;
 
-  await saveEvents(filtered);
+  return {
+    ...character,
+    factions: [...character.factions, ...removedFactions],
+    ...(restoreLocation ? { locationId: before.locationId } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+// Put back a faction's relationships to a deleted faction, and its parent if
+// it was a cell of it, keeping any edits made to the faction since
+const reinstateFactionReferences = (
+  cascadedChange: EntityChange,
+  faction: StoredFaction,
+  deletedFaction: StoredFaction
+): StoredFaction => {
+  // Only the fields the deletion changed are recorded
+  const before = cascadedChange.before as Partial<StoredFaction> | null;
+  const after = cascadedChange.after as Partial<StoredFaction> | null;
+  if (!before || !after) return faction;
+
+  const relationships = faction.relationships ?? [];
+  const removedRelationships = relationships.some(r =>
+    isFactionRelationshipTo(r, deletedFaction)
+  )
+    ? []
+    : (before.relationships ?? []).filter(r =>
+        isFactionRelationshipTo(r, deletedFaction)
+      );
+  // Only while the cell still sits where the deletion moved it
+  const restoreParent =
+    before.parentFactionId === deletedFaction.id &&
+    faction.parentFactionId === after.parentFactionId;
+
+  if (removedRelationships.length === 0 && !restoreParent) return faction;
+
+  return {
+    ...faction,
+    ...(removedRelationships.length > 0
+      ? { relationships: [...relationships, ...removedRelationships] }
+      : {}),
+    ...(restoreParent ? { parentFactionId: deletedFaction.id } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+// Add an entity back to its collection. Returns false if it is already
+// there, e.g. because the deletion was undone.
+const reinsertEntity = async <T extends JournalEntity>(
+  entity: T,
+  load: () => Promise<T[]>,
+  save: (entities: T[]) => Promise<void>
+): Promise<boolean> => {
+  const entities = await load();
+  if (entities.some(e => e.id === entity.id)) return false;
+
+  await save([...entities, entity]);
   return true;
 };
+
+/**
+ * Restore an entity from the trash, together with the references its
+ * deletion removed from other entities. A faction is not restored while
+ * another faction uses its name.
+ */
+export const restoreFromTrash = async (
+  trashItemId: string
+): Promise<{ success: boolean; charactersUpdated: number }> => {
+  try {
+    const item = await getTrashItem(trashItemId);
+    if (!item) return { success: false, charactersUpdated: 0 };
+
+    let reinserted = false;
+    switch (item.entityType) {
+      case 'character':
+        reinserted = await reinsertEntity(
+          item.entity as GameCharacter,
+          loadCharacters,
+          saveCharacters
+        );
+        break;
+      case 'faction': {
+        const faction = item.entity as StoredFaction;
+        const factions = await loadFactions();
+        if (
+          factions.some(f => f.name === faction.name && f.id !== faction.id)
+        ) {
+          return { success: false, charactersUpdated: 0 };
+        }
+        reinserted = await reinsertEntity(faction, loadFactions, saveFactions);
+        break;
+      }
+      case 'location':
+        reinserted = await reinsertEntity(
+          item.entity as GameLocation,
+          loadLocations,
+          saveLocations
+        );
+        break;
+      case 'event':
+        reinserted = await reinsertEntity(
+          item.entity as GameEvent,
+          loadEvents,
+          saveEvents
+        );
+        break;
+    }
+
+    // Put back what a character owned
+    if (item.ownedRecords) {
+      const { inventory, progression, liveStates } = item.ownedRecords;
+      const lastUpdated = new Date().toISOString();
+      await importInventoryDataset({
+        items: inventory,
+        version: '1.0',
+        lastUpdated,
+      });
+      await importProgressionDataset({
+        entries: progression,
+        version: '1.0',
+        lastUpdated,
+      });
+      await importLiveStateDataset({
+        states: liveStates,
+        version: '1.0',
+        lastUpdated,
+      });
+    }
+
+    const findCascadedChange = (
+      entityType: EntityChange['entityType'],
+      entityId: string
+    ) =>
+      item.cascadedChanges.find(
+        change =>
+          change.entityType === entityType && change.entityId === entityId
+      );
+    const deletedFaction =
+      item.entityType === 'faction' ? (item.entity as StoredFaction) : null;
+
+    const characters = await loadCharacters();
+    const updatedCharacters = characters.map(character => {
+      const cascadedChange = findCascadedChange('character', character.id);
+      return cascadedChange
+        ? reinstateReferences(cascadedChange, character, deletedFaction)
+        : character;
+    });
+    const charactersUpdated = updatedCharacters.filter(
+      (character, index) => character !== characters[index]
+    ).length;
+
+    if (charactersUpdated > 0) {
+      await saveCharacters(updatedCharacters);
+    }
+
+    const factions = await loadFactions();
+    const updatedFactions = factions.map(faction => {
+      const cascadedChange = findCascadedChange('faction', faction.id);
+      return cascadedChange && deletedFaction
+        ? reinstateFactionReferences(cascadedChange, faction, deletedFaction)
+        : faction;
+    });
+    const factionChanges = diffEntities('faction', factions, updatedFactions);
+
+    if (factionChanges.length > 0) {
+      await saveFactions(updatedFactions);
+    }
+
+    await journalChange(
+      `Restored ${item.entityType} "${item.entityName}" from trash`,
+      [
+        ...(reinserted
+          ? [createEntityChange(item.entityType, null, item.entity)]
+          : []),
+        ...diffEntities('character', characters, updatedCharacters),
+        ...factionChanges,
+      ]
+    );
+    await purgeTrashItem(item.id);
+
+    return {
+      success: true,
+      charactersUpdated,
+    };
+  } catch (error) {
+    console.error('Error restoring from trash:', error);
+    return {
+      success: false,
+      charactersUpdated: 0,
+    };
+  }
+};
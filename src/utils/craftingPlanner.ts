@@ -0,0 +1,279 @@
+import {
+  GameCharacter,
+  InventoryItem,
+  Recipe,
+  RelationshipStanding,
+} from '@models/types';
+import { RulesPack } from '@models/gameData';
+import { consumeInventoryItems, loadInventoryFor } from './inventoryStorage';
+import { getActiveRulesPack } from './rulesPackStorage';
+
+/**
+ * Crafting planner
+ *
+ * Characters learn recipes from their perks (Perk.recipeIds) and craft with
+ * the items in their inventory: each material listed on a recipe uses up
+ * one unit of the item with that name, so a recipe listing "Metal Scraps"
+ * twice needs two. Everything else is worked out from the rules pack.
+ */
+
+export type MaterialCounts = Record<string, number>;
+
+export interface RecipePlan {
+  recipe: Recipe;
+  taughtBy: string[]; // Names of the perks teaching the recipe
+  missingMaterials: MaterialCounts;
+  canCraft: boolean;
+}
+
+export interface CrafterMatch extends RecipePlan {
+  character: GameCharacter;
+}
+
+export interface FactionRecipeCapability {
+  recipe: Recipe;
+  crafters: string[]; // Names of members who know the recipe
+  readyCrafters: string[]; // ...and have the materials for it right now
+}
+
+export interface FactionCraftingCapabilities {
+  factionName: string;
+  memberCount: number;
+  recipes: FactionRecipeCapability[];
+  materials: MaterialCounts; // Pooled across members
+}
+
+export interface CraftResult {
+  materials: MaterialCounts | null; // Null when there are errors
+  errors: string[];
+}
+
+/**
+ * The units of each item a character holds, by item name
+ */
+export const getCharacterMaterials = (
+  inventory: InventoryItem[],
+  characterId: string
+): MaterialCounts => {
+  const materials: MaterialCounts = {};
+  inventory
+    .filter(
+      item => item.owner.type === 'character' && item.owner.id === characterId
+    )
+    .forEach(item => {
+      materials[item.name] = (materials[item.name] ?? 0) + item.quantity;
+    });
+  return materials;
+};
+
+export const loadMaterials = async (
+  characterId: string
+): Promise<MaterialCounts> =>
+  getCharacterMaterials(
+    await loadInventoryFor('character', characterId),
+    characterId
+  );
+
+/**
+ * The units of each material a recipe uses up
+ */
+export const getRequiredMaterials = (recipe: Recipe): MaterialCounts => {
+  const needed: MaterialCounts = {};
+  recipe.materials.forEach(material => {
+    needed[material] = (needed[material] ?? 0) + 1;
+  });
+  return needed;
+};
+
+export const getMissingMaterials = (
+  recipe: Recipe,
+  materials: MaterialCounts
+): MaterialCounts => {
+  const missing: MaterialCounts = {};
+  Object.entries(getRequiredMaterials(recipe)).forEach(([material, count]) => {
+    const shortfall = count - (materials[material] ?? 0);
+    if (shortfall > 0) missing[material] = shortfall;
+  });
+  return missing;
+};
+
+const getTeachingPerks = (
+  character: GameCharacter,
+  recipeId: string,
+  rulesPack: RulesPack
+): string[] =>
+  rulesPack.perks
+    .filter(
+      perk =>
+        character.perkIds.includes(perk.id) &&
+        perk.recipeIds?.includes(recipeId)
+    )
+    .map(perk => perk.name);
+
+const planRecipe = (
+  character: GameCharacter,
+  recipe: Recipe,
+  materials: MaterialCounts,
+  rulesPack: RulesPack
+): RecipePlan => {
+  const missingMaterials = getMissingMaterials(recipe, materials);
+  return {
+    recipe,
+    taughtBy: getTeachingPerks(character, recipe.id, rulesPack),
+    missingMaterials,
+    canCraft: Object.keys(missingMaterials).length === 0,
+  };
+};
+
+const byReadinessThenName =
+  <T extends { canCraft: boolean }>(name: (item: T) => string) =>
+  (a: T, b: T) =>
+    Number(b.canCraft) - Number(a.canCraft) || name(a).localeCompare(name(b));
+
+/**
+ * The recipes a character knows from their perks, craftable ones first
+ */
+export const planRecipes = (
+  character: GameCharacter,
+  materials: MaterialCounts,
+  rulesPack: RulesPack = getActiveRulesPack()
+): RecipePlan[] =>
+  rulesPack.recipes
+    .map(recipe => planRecipe(character, recipe, materials, rulesPack))
+    .filter(plan => plan.taughtBy.length > 0)
+    .sort(byReadinessThenName(plan => plan.recipe.name));
+
+/**
+ * The characters who know a recipe, those with the materials first
+ */
+export const findCrafters = (
+  recipeId: string,
+  characters: GameCharacter[],
+  inventory: InventoryItem[],
+  rulesPack: RulesPack = getActiveRulesPack()
+): CrafterMatch[] => {
+  const recipe = rulesPack.recipes.find(r => r.id === recipeId);
+  if (!recipe) return [];
+
+  return characters
+    .map(character => ({
+      character,
+      ...planRecipe(
+        character,
+        recipe,
+        getCharacterMaterials(inventory, character.id),
+        rulesPack
+      ),
+    }))
+    .filter(match => match.taughtBy.length > 0)
+    .sort(byReadinessThenName(match => match.character.name));
+};
+
+/**
+ * What each faction's active members can craft between them. Members are
+ * characters with an Ally or Friend standing, as in the faction statistics.
+ */
+export const getFactionCraftingCapabilities = (
+  characters: GameCharacter[],
+  inventory: InventoryItem[],
+  rulesPack: RulesPack = getActiveRulesPack()
+): FactionCraftingCapabilities[] => {
+  const membersByFaction = new Map<string, GameCharacter[]>();
+  characters
+    .filter(character => !character.retired)
+    .forEach(character => {
+      character.factions
+        .filter(
+          faction =>
+            faction.standing === RelationshipStanding.Ally ||
+            faction.standing === RelationshipStanding.Friend
+        )
+        .forEach(faction => {
+          const members = membersByFaction.get(faction.name) ?? [];
+          membersByFaction.set(faction.name, [...members, character]);
+        });
+    });
+
+  return Array.from(membersByFaction.entries())
+    .map(([factionName, members]) => {
+      const materials: MaterialCounts = {};
+      members.forEach(member => {
+        Object.entries(getCharacterMaterials(inventory, member.id)).forEach(
+          ([material, count]) => {
+            materials[material] = (materials[material] ?? 0) + count;
+          }
+        );
+      });
+
+      const recipes = rulesPack.recipes
+        .map(recipe => {
+          const matches = findCrafters(
+            recipe.id,
+            members,
+            inventory,
+            rulesPack
+          );
+          return {
+            recipe,
+            crafters: matches.map(match => match.character.name),
+            readyCrafters: matches
+              .filter(match => match.canCraft)
+              .map(match => match.character.name),
+          };
+        })
+        .filter(capability => capability.crafters.length > 0);
+
+      return {
+        factionName,
+        memberCount: members.length,
+        recipes,
+        materials,
+      };
+    })
+    .sort((a, b) => a.factionName.localeCompare(b.factionName));
+};
+
+/**
+ * Craft a recipe, using up the materials from the character's inventory
+ */
+export const craftRecipe = async (
+  character: GameCharacter,
+  recipeId: string,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<CraftResult> => {
+  const recipe = rulesPack.recipes.find(r => r.id === recipeId);
+  if (!recipe) {
+    return { materials: null, errors: [`Unknown recipe "${recipeId}".`] };
+  }
+
+  const plan = planRecipe(
+    character,
+    recipe,
+    await loadMaterials(character.id),
+    rulesPack
+  );
+  const errors: string[] = [];
+  if (plan.taughtBy.length === 0) {
+    errors.push(`${character.name} doesn't know how to make ${recipe.name}.`);
+  }
+  const missing = Object.entries(plan.missingMaterials).map(
+    ([material, count]) => `${count} × ${material}`
+  );
+  if (missing.length > 0) {
+    errors.push(`${character.name} still needs ${missing.join(', ')}.`);
+  }
+  if (errors.length > 0) return { materials: null, errors };
+
+  const consumed = await consumeInventoryItems(
+    'character',
+    character.id,
+    getRequiredMaterials(recipe)
+  );
+  if (!consumed) {
+    return {
+      materials: null,
+      errors: [`${character.name}'s inventory changed; try again.`],
+    };
+  }
+  return { materials: await loadMaterials(character.id), errors: [] };
+};
@@ -0,0 +1,159 @@
+import { Cyberware, CyberwareDefinition, GameCharacter } from '@/models/types';
+import { RulesPack, StatModifiers } from '@/models/gameData';
+import { Species } from '@/models/speciesTypes';
+import { getActiveRulesPack } from '@/utils/rulesPackStorage';
+
+/**
+ * Cyberware catalog
+ *
+ * A rules pack may define a catalog of implants. An implant installed from
+ * the catalog keeps its catalogId, and its name and modifiers are always
+ * read from the pack, so every character with the same implant gets the
+ * same bonuses. Implants without a catalogId are custom ones typed on the
+ * character form.
+ *
+ * Removed implants stay on the character with their removal date to keep
+ * the install history. Only installed implants that aren't malfunctioning
+ * modify stats.
+ */
+
+export interface CyberwareUsage {
+  name: string;
+  catalogId?: string; // Unset for custom implants, which are grouped by name
+  installed: number;
+  removed: number;
+  malfunctioning: number;
+}
+
+export interface CyberwareStats {
+  charactersWithCyberware: number; // Characters with at least one installed
+  installed: number;
+  removed: number;
+  malfunctioning: number;
+  usage: CyberwareUsage[]; // Most installed first
+}
+
+export const getCyberwareCatalog = (
+  rulesPack: RulesPack = getActiveRulesPack()
+): CyberwareDefinition[] => rulesPack.cyberware ?? [];
+
+/**
+ * The catalog implants a species may install, by name
+ */
+export const getAvailableCyberware = (
+  species: Species,
+  rulesPack: RulesPack = getActiveRulesPack()
+): CyberwareDefinition[] =>
+  getCyberwareCatalog(rulesPack)
+    .filter(
+      definition =>
+        !definition.allowedSpecies ||
+        definition.allowedSpecies.includes(species)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export const findCyberwareDefinition = (
+  cyber: Cyberware,
+  rulesPack: RulesPack = getActiveRulesPack()
+): CyberwareDefinition | undefined =>
+  cyber.catalogId
+    ? getCyberwareCatalog(rulesPack).find(d => d.id === cyber.catalogId)
+    : undefined;
+
+/**
+ * Create a character's implant from a catalog entry
+ */
+export const installCyberware = (
+  definition: CyberwareDefinition,
+  installedDate?: string
+): Cyberware => ({
+  catalogId: definition.id,
+  name: definition.name,
+  description: definition.description,
+  ...(definition.statModifiers && {
+    statModifiers: definition.statModifiers,
+  }),
+  ...(installedDate && { installedDate }),
+});
+
+export const getCyberwareName = (
+  cyber: Cyberware,
+  rulesPack: RulesPack = getActiveRulesPack()
+): string => findCyberwareDefinition(cyber, rulesPack)?.name ?? cyber.name;
+
+/**
+ * The modifiers of an implant. Catalog implants use the catalog's
+ * modifiers; the stored copy is only a fallback for entries the pack no
+ * longer has.
+ */
+export const getCyberwareModifiers = (
+  cyber: Cyberware,
+  rulesPack: RulesPack = getActiveRulesPack()
+): StatModifiers => {
+  const definition = findCyberwareDefinition(cyber, rulesPack);
+  return (definition ? definition.statModifiers : cyber.statModifiers) ?? {};
+};
+
+export const isCyberwareInstalled = (cyber: Cyberware): boolean =>
+  !cyber.removedDate;
+
+// Installed and working, i.e. modifying stats
+export const isCyberwareActive = (cyber: Cyberware): boolean =>
+  isCyberwareInstalled(cyber) && !cyber.malfunctioning;
+
+/**
+ * Count how often each implant is installed, removed and malfunctioning
+ * across the given characters
+ */
+export const calculateCyberwareStats = (
+  characters: GameCharacter[],
+  rulesPack: RulesPack = getActiveRulesPack()
+): CyberwareStats => {
+  const usageMap = new Map<string, CyberwareUsage>();
+  let charactersWithCyberware = 0;
+
+  characters.forEach(character => {
+    const cyberware = character.cyberware ?? [];
+    if (cyberware.some(isCyberwareInstalled)) {
+      charactersWithCyberware++;
+    }
+
+    cyberware.forEach(cyber => {
+      const definition = findCyberwareDefinition(cyber, rulesPack);
+      const name = definition?.name ?? (cyber.name.trim() || 'Unnamed');
+      const key = definition ? `catalog:${definition.id}` : `custom:${name}`;
+      const usage = usageMap.get(key) ?? {
+        name,
+        ...(definition && { catalogId: definition.id }),
+        installed: 0,
+        removed: 0,
+        malfunctioning: 0,
+      };
+
+      if (!isCyberwareInstalled(cyber)) {
+        usage.removed++;
+      } else {
+        usage.installed++;
+        if (cyber.malfunctioning) usage.malfunctioning++;
+      }
+      usageMap.set(key, usage);
+    });
+  });
+
+  const usage = Array.from(usageMap.values()).sort(
+    (a, b) =>
+      b.installed - a.installed ||
+      b.removed - a.removed ||
+      a.name.localeCompare(b.name)
+  );
+  const sum = (field: 'installed' | 'removed' | 'malfunctioning') =>
+    usage.reduce((total, entry) => total + entry[field], 0);
+
+  return {
+    charactersWithCyberware,
+    installed: sum('installed'),
+    removed: sum('removed'),
+    malfunctioning: sum('malfunctioning'),
+    usage,
+  };
+};
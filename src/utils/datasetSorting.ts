@@ -3,15 +3,23 @@
  * to minimize diff noise in version control systems.
  */
 
-import type { GameCharacter, GameLocation, GameEvent } from '@models/types';
+import type {
+  GameCharacter,
+  GameLocation,
+  GameEvent,
+  InventoryItem,
+} from '@models/types';
 import type { StoredFaction } from './characterStorage';
+import type { StoredLiveState } from './liveStateStorage';
 
 /**
  * Sort characters by name (case-insensitive), then by id as tiebreaker
  */
 const sortCharacters = (characters: GameCharacter[]): GameCharacter[] => {
   return [...characters].sort((a, b) => {
-    const nameCompare = a.name.toLowerCase().localeCompare(b.name.toLowerCase());
+    const nameCompare = a.name
+      .toLowerCase()
+      .localeCompare(b.name.toLowerCase());
     if (nameCompare !== 0) return nameCompare;
     return a.id.localeCompare(b.id);
   });
@@ -31,7 +39,9 @@ const sortFactions = (factions: StoredFaction[]): StoredFaction[] => {
  */
 const sortLocations = (locations: GameLocation[]): GameLocation[] => {
   return [...locations].sort((a, b) => {
-    const nameCompare = a.name.toLowerCase().localeCompare(b.name.toLowerCase());
+    const nameCompare = a.name
+      .toLowerCase()
+      .localeCompare(b.name.toLowerCase());
     if (nameCompare !== 0) return nameCompare;
     return a.id.localeCompare(b.id);
   });
@@ -49,12 +59,31 @@ const sortEvents = (events: GameEvent[]): GameEvent[] => {
   });
 };
 
+/**
+ * Sort inventory items by name (case-insensitive), then by id as tiebreaker.
+ * Ownership histories stay in chronological order.
+ */
+const sortInventoryItems = (items: InventoryItem[]): InventoryItem[] => {
+  return [...items].sort((a, b) => {
+    const nameCompare = a.name
+      .toLowerCase()
+      .localeCompare(b.name.toLowerCase());
+    if (nameCompare !== 0) return nameCompare;
+    return a.id.localeCompare(b.id);
+  });
+};
+
+/**
+ * Sort live states by character id
+ */
+const sortLiveStates = (states: StoredLiveState[]): StoredLiveState[] => {
+  return [...states].sort((a, b) => a.characterId.localeCompare(b.characterId));
+};
+
 /**
  * Sort nested arrays within a character for consistency
  */
-const sortCharacterNestedArrays = (
-  character: GameCharacter
-): GameCharacter => {
+const sortCharacterNestedArrays = (character: GameCharacter): GameCharacter => {
   const sorted = { ...character };
 
   // Sort factions by name
@@ -195,5 +224,22 @@ export const sortDatasetDeterministically = (dataset: any): any => {
     sorted.events = sortEvents(sorted.events).map(sortEventNestedArrays);
   }
 
+  // Sort inventory items
+  if (sorted.inventory && Array.isArray(sorted.inventory.items)) {
+    sorted.inventory = {
+      ...sorted.inventory,
+      items: sortInventoryItems(sorted.inventory.items),
+    };
+  }
+
+  // Sort live states. The progression ledger is only appended to and keeps
+  // its order, which orders entries on the same date.
+  if (sorted.liveState && Array.isArray(sorted.liveState.states)) {
+    sorted.liveState = {
+      ...sorted.liveState,
+      states: sortLiveStates(sorted.liveState.states),
+    };
+  }
+
   return sorted;
 };
@@ -1,38 +1,133 @@
 import { GameCharacter } from '@/models/types';
-import { SPECIES_BASE_STATS, MUTANT_SPECIES } from '@/models/speciesTypes';
-import { AVAILABLE_PERKS, PerkTag, TAG_SCORE_BONUSES } from '@/models/gameData';
+import { RulesPack, StatModifiers } from '@/models/gameData';
+import { getActiveRulesPack } from '@/utils/rulesPackStorage';
+import {
+  getCyberwareModifiers,
+  getCyberwareName,
+  isCyberwareActive,
+} from '@/utils/cyberwareCatalog';
+
+/**
+ * Derived stats
+ *
+ * Max health, max limit and tag scores are built up in a fixed order:
+ * species base stats, perks, tag score bonuses, working cyberware,
+ * distinctions and temporary effects, after which the (possibly modified)
+ * species caps are applied. Tag score bonuses are unlocked by perks alone,
+ * so tag modifiers from the later steps show in the tag scores but don't
+ * unlock bonuses.
+ *
+ * The calculation never modifies the character or the rules pack, and
+ * returns every contribution so the totals can be explained.
+ */
+
+export type StatSource =
+  | 'species'
+  | 'perk'
+  | 'tag-bonus'
+  | 'cyberware'
+  | 'distinction'
+  | 'effect';
+
+export interface StatContribution {
+  source: StatSource;
+  name: string;
+  health: number;
+  limit: number;
+  healthCap: number;
+  limitCap: number;
+  tagModifiers?: Record<string, number>;
+}
+
+// Something affecting a character for a while, e.g. a drug or a blessing
+export interface TemporaryEffect {
+  name: string;
+  statModifiers: StatModifiers;
+}
 
 export interface CharacterDerivedStats {
   maxHealth: number;
   maxLimit: number;
-  tagScores?: Map<PerkTag, number>;
+  tagScores?: Map<string, number>;
+  // Totals before the species caps are applied, and the caps themselves
+  uncappedHealth: number;
+  uncappedLimit: number;
+  healthCap: number;
+  limitCap: number;
+  breakdown: StatContribution[];
 }
 
+const toContribution = (
+  source: StatSource,
+  name: string,
+  modifiers: StatModifiers
+): StatContribution => ({
+  source,
+  name,
+  health: modifiers.health ?? 0,
+  limit: modifiers.limit ?? 0,
+  healthCap: modifiers.healthCap ?? 0,
+  limitCap: modifiers.limitCap ?? 0,
+  ...(modifiers.tagModifiers &&
+    Object.keys(modifiers.tagModifiers).length > 0 && {
+      tagModifiers: modifiers.tagModifiers,
+    }),
+});
+
+const addTagModifiers = (
+  tagScores: Map<string, number>,
+  contribution: StatContribution
+) => {
+  Object.entries(contribution.tagModifiers ?? {}).forEach(([tag, modifier]) => {
+    tagScores.set(tag, (tagScores.get(tag) || 0) + modifier);
+  });
+};
+
 export const calculateDerivedStats = (
-  character: GameCharacter
+  character: GameCharacter,
+  rulesPack: RulesPack = getActiveRulesPack(),
+  temporaryEffects: TemporaryEffect[] = []
 ): CharacterDerivedStats => {
   // Get base stats from species
-  const baseStats = SPECIES_BASE_STATS[character.species];
+  const baseStats = rulesPack.species[character.species];
+  if (!baseStats) {
+    throw new Error(
+      `Species "${character.species}" is not defined in the ${rulesPack.name} rules pack`
+    );
+  }
 
-  // Initialize with base values
-  let maxHealth = baseStats.baseHealth;
-  let maxLimit = baseStats.baseLimit;
+  const breakdown: StatContribution[] = [
+    {
+      source: 'species',
+      name: character.species,
+      health: baseStats.baseHealth,
+      limit: baseStats.baseLimit,
+      healthCap: baseStats.healthCap,
+      limitCap: baseStats.limitCap,
+    },
+  ];
 
   // Get all perks the character has
-  const characterPerks = AVAILABLE_PERKS.filter(perk =>
+  const characterPerks = rulesPack.perks.filter(perk =>
     character.perkIds.includes(perk.id)
   );
 
+  // Species groups whose restricted perks don't count towards tag scores
+  // (e.g. Perfect Mutants and mutant perks)
+  const excludedGroups = (baseStats.tagScoreExcludedGroups ?? []).map(
+    group => rulesPack.speciesGroups[group] ?? []
+  );
+
   // Calculate tag scores
-  const tagScores = new Map<PerkTag, number>();
+  const tagScores = new Map<string, number>();
   characterPerks.forEach(perk => {
-    // Perfect Mutants don't get tag score bonuses from MUTANT_SPECIES restricted perks
+    const { allowedSpecies } = perk;
     if (
-      character.species !== 'Perfect Mutant' ||
-      !perk.allowedSpecies ||
-      !(
-        perk.allowedSpecies.length === MUTANT_SPECIES.length &&
-        MUTANT_SPECIES.every(species => perk.allowedSpecies!.includes(species))
+      !allowedSpecies ||
+      !excludedGroups.some(
+        group =>
+          allowedSpecies.length === group.length &&
+          group.every(species => allowedSpecies.includes(species))
       )
     ) {
       const currentScore = tagScores.get(perk.tag) || 0;
@@ -41,66 +136,82 @@ export const calculateDerivedStats = (
 
     // Apply perk modifiers
     if (perk.statModifiers) {
-      if (perk.statModifiers.health) {
-        maxHealth += perk.statModifiers.health;
-      }
-      if (perk.statModifiers.limit) {
-        maxLimit += perk.statModifiers.limit;
-      }
+      const contribution = toContribution(
+        'perk',
+        perk.name,
+        perk.statModifiers
+      );
+      addTagModifiers(tagScores, contribution);
+      breakdown.push(contribution);
     }
   });
 
   // Apply tag score bonuses
   tagScores.forEach((score, tag) => {
-    const tagBonuses = TAG_SCORE_BONUSES[tag];
+    const tagBonuses = rulesPack.tagScoreBonuses[tag] ?? [];
     tagBonuses.forEach(bonus => {
-      if (score >= bonus.requiredScore) {
-        if (bonus.health) {
-          maxHealth += bonus.health;
-        }
-        if (bonus.limit) {
-          maxLimit += bonus.limit;
-        }
+      if (score >= bonus.requiredScore && (bonus.health || bonus.limit)) {
+        breakdown.push(
+          toContribution('tag-bonus', `${tag} ${bonus.requiredScore}`, bonus)
+        );
       }
     });
   });
 
-  // Apply cyberware modifiers
-  if (character.cyberware && character.cyberware.length > 0) {
-    character.cyberware.forEach(cyber => {
-      if (cyber.statModifiers) {
-        if (cyber.statModifiers.health) {
-          maxHealth += cyber.statModifiers.health;
-        }
-        if (cyber.statModifiers.limit) {
-          maxLimit += cyber.statModifiers.limit;
-        }
-        if (cyber.statModifiers.healthCap) {
-          baseStats.healthCap += cyber.statModifiers.healthCap;
-        }
-        if (cyber.statModifiers.limitCap) {
-          baseStats.limitCap += cyber.statModifiers.limitCap;
-        }
-        // Tag modifiers can be added to tag scores if needed
-        if (cyber.statModifiers.tagModifiers) {
-          Object.entries(cyber.statModifiers.tagModifiers).forEach(
-            ([tag, modifier]) => {
-              const currentScore = tagScores.get(tag as PerkTag) || 0;
-              tagScores.set(tag as PerkTag, currentScore + modifier);
-            }
-          );
-        }
-      }
-    });
-  }
+  // Apply cyberware, distinction and temporary effect modifiers
+  const laterModifiers: StatContribution[] = [
+    ...(character.cyberware ?? [])
+      .filter(isCyberwareActive)
+      .map(cyber =>
+        toContribution(
+          'cyberware',
+          getCyberwareName(cyber, rulesPack),
+          getCyberwareModifiers(cyber, rulesPack)
+        )
+      ),
+    ...rulesPack.distinctions
+      .filter(distinction => character.distinctionIds.includes(distinction.id))
+      .map(distinction =>
+        toContribution(
+          'distinction',
+          distinction.name,
+          distinction.statModifiers ?? {}
+        )
+      ),
+    ...temporaryEffects.map(effect =>
+      toContribution('effect', effect.name, effect.statModifiers)
+    ),
+  ];
+  laterModifiers.forEach(contribution => {
+    if (
+      contribution.health ||
+      contribution.limit ||
+      contribution.healthCap ||
+      contribution.limitCap ||
+      contribution.tagModifiers
+    ) {
+      addTagModifiers(tagScores, contribution);
+      breakdown.push(contribution);
+    }
+  });
+
+  const sum = (field: 'health' | 'limit' | 'healthCap' | 'limitCap') =>
+    breakdown.reduce((total, contribution) => total + contribution[field], 0);
 
   // Apply species caps
-  maxHealth = Math.min(maxHealth, baseStats.healthCap);
-  maxLimit = Math.min(maxLimit, baseStats.limitCap);
+  const uncappedHealth = sum('health');
+  const uncappedLimit = sum('limit');
+  const healthCap = sum('healthCap');
+  const limitCap = sum('limitCap');
 
   return {
-    maxHealth,
-    maxLimit,
+    maxHealth: Math.min(uncappedHealth, healthCap),
+    maxLimit: Math.min(uncappedLimit, limitCap),
     tagScores,
+    uncappedHealth,
+    uncappedLimit,
+    healthCap,
+    limitCap,
+    breakdown,
   };
 };
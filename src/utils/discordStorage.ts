@@ -7,18 +7,37 @@ import {
   DiscordCharacterAlias,
 } from '@models/types';
 import { SafeAsyncStorageJSONParser } from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+import { migrateLegacyDiscordConfig } from './schemaMigrations';
+import { createIndexedCollection } from './indexedStorage';
 
 const DISCORD_CONFIG_KEY = 'gameCharacterManager_discord_config';
 const DISCORD_MAPPINGS_KEY = 'gameCharacterManager_discord_mappings';
 const DISCORD_MESSAGES_KEY = 'gameCharacterManager_discord_messages';
 const DISCORD_ALIASES_KEY = 'gameCharacterManager_discord_aliases';
 
+// Messages are stored one record per message, indexed for the lookups the
+// screens need, so syncing or tagging a few messages doesn't rewrite them all
+const messageCollection = createIndexedCollection({
+  baseKey: DISCORD_MESSAGES_KEY,
+  getId: (message: DiscordMessage) => message.id,
+  indexes: {
+    channel: message => message.channelId,
+    character: message => message.characterId,
+    serverConfig: message => message.serverConfigId,
+  },
+  // Oldest first
+  compare: (a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+});
+
 /**
  * Get Discord configuration with migration support
  */
 export const getDiscordConfig = async (): Promise<DiscordConfig> => {
-  const config =
-    await SafeAsyncStorageJSONParser.getItem<DiscordConfig>(DISCORD_CONFIG_KEY);
+  const config = await SafeAsyncStorageJSONParser.getItem<DiscordConfig>(
+    getCampaignStorageKey(DISCORD_CONFIG_KEY)
+  );
   
   if (!config) {
     return {
@@ -29,50 +48,28 @@ export const getDiscordConfig = async (): Promise<DiscordConfig> => {
   }
 
   // Migration: Convert legacy single-server config to multi-server format
-  if (!config.serverConfigs && (config.botToken || config.channelId)) {
-    config.serverConfigs = [];
-    if (config.botToken && config.channelId) {
-      const legacyConfig: DiscordServerConfig = {
-        id: 'legacy-default',
-        name: 'Default Server',
-        botToken: config.botToken,
-        guildId: config.guildId,
-        channelId: config.channelId,
-        enabled: config.enabled,
-        lastSync: config.lastSync,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      config.serverConfigs.push(legacyConfig);
-      
-      // Update existing messages to tag them with the legacy server config ID
-      const existingMessages = await SafeAsyncStorageJSONParser.getItem<DiscordMessage[]>(
-        DISCORD_MESSAGES_KEY
+  const migrated = migrateLegacyDiscordConfig(config);
+  if (migrated !== config && migrated.serverConfigs.length > 0) {
+    // Update existing messages to tag them with the legacy server config ID
+    const existingMessages = await messageCollection.getAll();
+    if (existingMessages.length > 0) {
+      const updatedMessages = existingMessages.map(msg => ({
+        ...msg,
+        serverConfigId: msg.serverConfigId || 'legacy-default',
+        guildId: msg.guildId || config.guildId,
+      }));
+      await messageCollection.put(updatedMessages);
+      console.log(
+        `[Discord Storage] Tagged ${updatedMessages.length} existing messages with legacy-default serverConfigId`
       );
-      if (existingMessages && existingMessages.length > 0) {
-        const updatedMessages = existingMessages.map(msg => ({
-          ...msg,
-          serverConfigId: msg.serverConfigId || 'legacy-default',
-          guildId: msg.guildId || config.guildId,
-        }));
-        await SafeAsyncStorageJSONParser.setItem(DISCORD_MESSAGES_KEY, updatedMessages);
-        console.log(
-          `[Discord Storage] Tagged ${updatedMessages.length} existing messages with legacy-default serverConfigId`
-        );
-      }
-      
-      // Save migrated config
-      await saveDiscordConfig(config);
-      console.log('[Discord Storage] Migrated legacy config to multi-server format');
     }
-  }
 
-  // Ensure serverConfigs exists
-  if (!config.serverConfigs) {
-    config.serverConfigs = [];
+    // Save migrated config
+    await saveDiscordConfig(migrated);
+    console.log('[Discord Storage] Migrated legacy config to multi-server format');
   }
 
-  return config;
+  return migrated;
 };
 
 /**
@@ -81,7 +78,10 @@ export const getDiscordConfig = async (): Promise<DiscordConfig> => {
 export const saveDiscordConfig = async (
   config: DiscordConfig
 ): Promise<void> => {
-  await SafeAsyncStorageJSONParser.setItem(DISCORD_CONFIG_KEY, config);
+  await SafeAsyncStorageJSONParser.setItem(
+    getCampaignStorageKey(DISCORD_CONFIG_KEY),
+    config
+  );
 };
 
 /**
@@ -178,10 +178,9 @@ export const getDiscordServerConfig = async (
 export const getDiscordUserMappings = async (): Promise<
   DiscordUserMapping[]
 > => {
-  const mappings =
-    await SafeAsyncStorageJSONParser.getItem<DiscordUserMapping[]>(
-      DISCORD_MAPPINGS_KEY
-    );
+  const mappings = await SafeAsyncStorageJSONParser.getItem<
+    DiscordUserMapping[]
+  >(getCampaignStorageKey(DISCORD_MAPPINGS_KEY));
   return mappings || [];
 };
 
@@ -191,7 +190,10 @@ export const getDiscordUserMappings = async (): Promise<
 export const saveDiscordUserMappings = async (
   mappings: DiscordUserMapping[]
 ): Promise<void> => {
-  await SafeAsyncStorageJSONParser.setItem(DISCORD_MAPPINGS_KEY, mappings);
+  await SafeAsyncStorageJSONParser.setItem(
+    getCampaignStorageKey(DISCORD_MAPPINGS_KEY),
+    mappings
+  );
 };
 
 /**
@@ -256,27 +258,22 @@ export const getCharacterIdForDiscordUser = async (
 export const getDiscordMessages = async (
   serverConfigId?: string
 ): Promise<DiscordMessage[]> => {
-  const messages =
-    await SafeAsyncStorageJSONParser.getItem<DiscordMessage[]>(
-      DISCORD_MESSAGES_KEY
-    );
-  const allMessages = messages || [];
-  
   if (!serverConfigId) {
-    return allMessages;
+    return await messageCollection.getAll();
   }
-  
+
   // Filter by server config ID
-  return allMessages.filter(m => m.serverConfigId === serverConfigId);
+  return await messageCollection.findBy('serverConfig', serverConfigId);
 };
 
 /**
  * Save Discord messages
+ * Replaces the stored messages; only messages that changed are written
  */
 export const saveDiscordMessages = async (
   messages: DiscordMessage[]
 ): Promise<void> => {
-  await SafeAsyncStorageJSONParser.setItem(DISCORD_MESSAGES_KEY, messages);
+  await messageCollection.replaceAll(messages);
 };
 
 /**
@@ -286,11 +283,14 @@ export const saveDiscordMessages = async (
 export const addDiscordMessages = async (
   newMessages: DiscordMessage[]
 ): Promise<void> => {
-  const existingMessages = await getDiscordMessages();
+  const existingMessages = await messageCollection.getMany(
+    newMessages.map(m => m.id)
+  );
   const existingMap = new Map(existingMessages.map(m => [m.id, m]));
+  const updatedMap = new Map<string, DiscordMessage>();
 
   console.log(
-    `[Discord Storage] Adding messages - existing: ${existingMessages.length}, new: ${newMessages.length}`
+    `[Discord Storage] Adding messages - existing: ${await messageCollection.count()}, new: ${newMessages.length}`
   );
   if (newMessages.length > 0) {
     console.log(
@@ -304,12 +304,12 @@ export const addDiscordMessages = async (
 
   // Merge new messages with existing ones
   newMessages.forEach(newMsg => {
-    const existing = existingMap.get(newMsg.id);
+    const existing = updatedMap.get(newMsg.id) ?? existingMap.get(newMsg.id);
     if (existing) {
       // Update existing message - merge fields carefully
       // IMPORTANT: Preserve existing characterId if it exists (user manually mapped it)
       // Only update characterId if new message has one and existing doesn't
-      existingMap.set(newMsg.id, {
+      updatedMap.set(newMsg.id, {
         ...existing,
         ...newMsg,
         // Preserve existing non-empty content if new content is empty
@@ -330,20 +330,15 @@ export const addDiscordMessages = async (
       );
     } else {
       // Add new message
-      existingMap.set(newMsg.id, newMsg);
+      updatedMap.set(newMsg.id, newMsg);
       addedCount++;
     }
   });
 
-  const allMessages = Array.from(existingMap.values());
-  // Sort by timestamp (oldest first)
-  allMessages.sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
-  await saveDiscordMessages(allMessages);
+  // Only the new and updated messages are written
+  await messageCollection.put(Array.from(updatedMap.values()));
   console.log(
-    `[Discord Storage] Updated ${updatedCount} messages, added ${addedCount} messages, total: ${allMessages.length}`
+    `[Discord Storage] Updated ${updatedCount} messages, added ${addedCount} messages, total: ${await messageCollection.count()}`
   );
 };
 
@@ -354,8 +349,10 @@ export const getDiscordMessagesForCharacter = async (
   characterId: string,
   serverConfigId?: string
 ): Promise<DiscordMessage[]> => {
-  const messages = await getDiscordMessages(serverConfigId);
-  return messages.filter(m => m.characterId === characterId);
+  const messages = await messageCollection.findBy('character', characterId);
+  return serverConfigId
+    ? messages.filter(m => m.serverConfigId === serverConfigId)
+    : messages;
 };
 
 /**
@@ -365,15 +362,17 @@ export const getDiscordMessagesForChannel = async (
   channelId: string,
   serverConfigId?: string
 ): Promise<DiscordMessage[]> => {
-  const messages = await getDiscordMessages(serverConfigId);
-  return messages.filter(m => m.channelId === channelId);
+  const messages = await messageCollection.findBy('channel', channelId);
+  return serverConfigId
+    ? messages.filter(m => m.serverConfigId === serverConfigId)
+    : messages;
 };
 
 /**
  * Clear all Discord messages only
  */
 export const clearDiscordMessages = async (): Promise<void> => {
-  await SafeAsyncStorageJSONParser.removeItem(DISCORD_MESSAGES_KEY);
+  await messageCollection.clear();
   console.log('[Discord Storage] Cleared all Discord messages');
 };
 
@@ -381,10 +380,16 @@ export const clearDiscordMessages = async (): Promise<void> => {
  * Clear all Discord data
  */
 export const clearDiscordData = async (): Promise<void> => {
-  await SafeAsyncStorageJSONParser.removeItem(DISCORD_CONFIG_KEY);
-  await SafeAsyncStorageJSONParser.removeItem(DISCORD_MAPPINGS_KEY);
-  await SafeAsyncStorageJSONParser.removeItem(DISCORD_MESSAGES_KEY);
-  await SafeAsyncStorageJSONParser.removeItem(DISCORD_ALIASES_KEY);
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(DISCORD_CONFIG_KEY)
+  );
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(DISCORD_MAPPINGS_KEY)
+  );
+  await messageCollection.clear();
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(DISCORD_ALIASES_KEY)
+  );
 };
 
 /**
@@ -393,10 +398,9 @@ export const clearDiscordData = async (): Promise<void> => {
 export const getDiscordCharacterAliases = async (): Promise<
   DiscordCharacterAlias[]
 > => {
-  const aliases =
-    await SafeAsyncStorageJSONParser.getItem<DiscordCharacterAlias[]>(
-      DISCORD_ALIASES_KEY
-    );
+  const aliases = await SafeAsyncStorageJSONParser.getItem<
+    DiscordCharacterAlias[]
+  >(getCampaignStorageKey(DISCORD_ALIASES_KEY));
   return aliases || [];
 };
 
@@ -406,7 +410,10 @@ export const getDiscordCharacterAliases = async (): Promise<
 export const saveDiscordCharacterAliases = async (
   aliases: DiscordCharacterAlias[]
 ): Promise<void> => {
-  await SafeAsyncStorageJSONParser.setItem(DISCORD_ALIASES_KEY, aliases);
+  await SafeAsyncStorageJSONParser.setItem(
+    getCampaignStorageKey(DISCORD_ALIASES_KEY),
+    aliases
+  );
 };
 
 /**
@@ -508,24 +515,24 @@ export const applyAliasToMessages = async (
   const normalizedAlias = alias.toLowerCase().trim();
   let updateCount = 0;
 
-  const updatedMessages = messages.map(msg => {
+  const updatedMessages = messages
     // Check if this message is from the same user and has matching extracted name
-    if (
-      msg.authorId === discordUserId &&
-      msg.extractedCharacterName &&
-      msg.extractedCharacterName.toLowerCase().trim() === normalizedAlias
-    ) {
+    .filter(
+      msg =>
+        msg.authorId === discordUserId &&
+        msg.extractedCharacterName &&
+        msg.extractedCharacterName.toLowerCase().trim() === normalizedAlias
+    )
+    .map(msg => {
       updateCount++;
       return {
         ...msg,
         characterId,
       };
-    }
-    return msg;
-  });
+    });
 
   if (updateCount > 0) {
-    await saveDiscordMessages(updatedMessages);
+    await messageCollection.put(updatedMessages);
     console.log(
       `[Discord Storage] Applied alias "${alias}" to ${updateCount} messages`
     );
@@ -638,6 +645,118 @@ export const exportDiscordDataset = async (): Promise<DiscordDataset> => {
   };
 };
 
+/**
+ * Merge two lists of user mappings by Discord user ID. When both sides map
+ * the same user, the most recently updated mapping wins.
+ */
+export const mergeDiscordUserMappings = (
+  existing: DiscordUserMapping[],
+  imported: DiscordUserMapping[]
+): DiscordUserMapping[] => {
+  const mappingMap = new Map<string, DiscordUserMapping>();
+  existing.forEach(m => mappingMap.set(m.discordUserId, m));
+  imported.forEach(m => {
+    const current = mappingMap.get(m.discordUserId);
+    if (!current || m.updatedAt > current.updatedAt) {
+      mappingMap.set(m.discordUserId, m);
+    }
+  });
+  return Array.from(mappingMap.values());
+};
+
+/**
+ * Merge two lists of aliases by alias + Discord user ID.
+ * - Both sides agree on the character: keep the higher confidence and usage
+ * - They disagree: keep the mapping with the higher confidence (the most
+ *   recently updated one on a tie), lowered by the rival's confidence so a
+ *   disputed alias is re-confirmed before it is trusted again
+ */
+export const mergeDiscordCharacterAliases = (
+  existing: DiscordCharacterAlias[],
+  imported: DiscordCharacterAlias[]
+): DiscordCharacterAlias[] => {
+  const getKey = (a: DiscordCharacterAlias) =>
+    `${a.alias.toLowerCase().trim()}-${a.discordUserId}`;
+
+  const aliasMap = new Map<string, DiscordCharacterAlias>();
+  existing.forEach(a => aliasMap.set(getKey(a), a));
+  imported.forEach(a => {
+    const current = aliasMap.get(getKey(a));
+    if (!current) {
+      aliasMap.set(getKey(a), a);
+      return;
+    }
+
+    const newer = a.updatedAt > current.updatedAt ? a : current;
+    if (current.characterId === a.characterId) {
+      aliasMap.set(getKey(a), {
+        ...current,
+        confidence: Math.max(current.confidence, a.confidence),
+        usageCount: Math.max(current.usageCount, a.usageCount),
+        createdAt:
+          a.createdAt < current.createdAt ? a.createdAt : current.createdAt,
+        updatedAt: newer.updatedAt,
+      });
+      return;
+    }
+
+    const winner =
+      a.confidence !== current.confidence
+        ? a.confidence > current.confidence
+          ? a
+          : current
+        : newer;
+    const loser = winner === a ? current : a;
+    aliasMap.set(getKey(a), {
+      ...winner,
+      confidence: Math.max(0, winner.confidence - loser.confidence / 2),
+    });
+  });
+  return Array.from(aliasMap.values());
+};
+
+/**
+ * Merge two lists of messages, deduplicated by message ID and sorted oldest
+ * first. Imported values are preferred, but a character mapping or non-empty
+ * content already stored locally is never lost.
+ */
+export const mergeDiscordMessages = (
+  existing: DiscordMessage[],
+  imported: DiscordMessage[]
+): DiscordMessage[] => {
+  const messageMap = new Map<string, DiscordMessage>();
+  existing.forEach(m => messageMap.set(m.id, m));
+  imported.forEach(m => {
+    const current = messageMap.get(m.id);
+    if (!current) {
+      messageMap.set(m.id, m);
+      return;
+    }
+
+    messageMap.set(m.id, {
+      ...current,
+      ...m,
+      content:
+        m.content && m.content.trim() !== '' ? m.content : current.content,
+      characterId: m.characterId || current.characterId,
+      extractedCharacterName:
+        m.extractedCharacterName || current.extractedCharacterName,
+      imageUris: Array.from(
+        new Set([...(current.imageUris || []), ...(m.imageUris || [])])
+      ),
+      // If imported has an explicit 'ignored' value, use it; otherwise
+      // preserve existing
+      ignored: m.ignored !== undefined ? m.ignored : current.ignored,
+    });
+  });
+
+  const mergedMessages = Array.from(messageMap.values());
+  mergedMessages.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  return mergedMessages;
+};
+
 /**
  * Import Discord dataset
  */
@@ -679,46 +798,17 @@ export const importDiscordDataset = async (
     };
     await saveDiscordConfig(mergedConfig);
 
-    // Merge mappings (by Discord user ID)
-    const mappingMap = new Map<string, DiscordUserMapping>();
-    existingMappings.forEach(m => mappingMap.set(m.discordUserId, m));
-    dataset.userMappings.forEach(m => mappingMap.set(m.discordUserId, m));
-    await saveDiscordUserMappings(Array.from(mappingMap.values()));
-
-    // Merge aliases (by alias + user ID)
-    const aliasMap = new Map<string, DiscordCharacterAlias>();
-    existingAliases.forEach(a =>
-      aliasMap.set(`${a.alias}-${a.discordUserId}`, a)
+    await saveDiscordUserMappings(
+      mergeDiscordUserMappings(existingMappings, dataset.userMappings || [])
     );
-    (dataset.characterAliases || []).forEach(a =>
-      aliasMap.set(`${a.alias}-${a.discordUserId}`, a)
+    await saveDiscordCharacterAliases(
+      mergeDiscordCharacterAliases(
+        existingAliases,
+        dataset.characterAliases || []
+      )
     );
-    await saveDiscordCharacterAliases(Array.from(aliasMap.values()));
-
-    // Merge messages (by message ID)
-    // When merging, prefer imported values but preserve local-only fields if not in import
-    const messageMap = new Map<string, DiscordMessage>();
-    existingMessages.forEach(m => messageMap.set(m.id, m));
-    dataset.messages.forEach(m => {
-      const existing = messageMap.get(m.id);
-      if (existing) {
-        // Merge: prefer imported data, but preserve local fields if not in import
-        messageMap.set(m.id, {
-          ...existing, // Start with existing (for any fields not in import)
-          ...m, // Override with imported data
-          // Special handling: if imported has explicit 'ignored' value, use it;
-          // otherwise preserve existing
-          ignored: m.ignored !== undefined ? m.ignored : existing.ignored,
-        });
-      } else {
-        messageMap.set(m.id, m);
-      }
-    });
-    const mergedMessages = Array.from(messageMap.values());
-    mergedMessages.sort(
-      (a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    await saveDiscordMessages(
+      mergeDiscordMessages(existingMessages, dataset.messages || [])
     );
-    await saveDiscordMessages(mergedMessages);
   }
 };
@@ -0,0 +1,189 @@
+/**
+ * Helpers for stable ID-based references between entities.
+ *
+ * Characters reference factions (Faction.factionId) and other characters
+ * (Relationship.characterId) by ID, and factions reference each other
+ * (FactionRelationship.factionId) by ID. The name fields are kept alongside
+ * as a display copy that is refreshed from the referenced entity, so renames
+ * never have to chase string references. Datasets created before IDs existed
+ * are linked by name the first time they are loaded or imported.
+ */
+
+import type { Faction, GameCharacter, Relationship } from '@models/types';
+import type { FactionRelationship, StoredFaction } from './characterStorage';
+
+/**
+ * Build a deterministic ID for a faction that predates faction IDs.
+ * Deriving it from the name means two devices migrating the same legacy
+ * faction agree on its ID, which keeps merges between them clean.
+ */
+export const createLegacyFactionId = (name: string): string => {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `faction-${slug || 'unnamed'}`;
+};
+
+/**
+ * Check whether a character's faction membership points at a stored faction
+ */
+export const isFactionReferenceTo = (
+  reference: Pick<Faction, 'factionId' | 'name'>,
+  faction: Pick<StoredFaction, 'id' | 'name'>
+): boolean =>
+  reference.factionId
+    ? reference.factionId === faction.id
+    : reference.name === faction.name;
+
+/**
+ * Check whether a faction-to-faction relationship points at a stored faction
+ */
+export const isFactionRelationshipTo = (
+  relationship: Pick<FactionRelationship, 'factionId' | 'factionName'>,
+  faction: Pick<StoredFaction, 'id' | 'name'>
+): boolean =>
+  relationship.factionId
+    ? relationship.factionId === faction.id
+    : relationship.factionName === faction.name;
+
+/**
+ * Check whether a relationship points at a character
+ */
+export const isRelationshipTo = (
+  relationship: Pick<Relationship, 'characterId' | 'characterName'>,
+  character: Pick<GameCharacter, 'id' | 'name'>
+): boolean =>
+  relationship.characterId
+    ? relationship.characterId === character.id
+    : relationship.characterName === character.name;
+
+/**
+ * Give every faction a stable ID and link faction-to-faction relationships
+ * by ID. Relationship names are refreshed from the referenced faction.
+ */
+export const linkFactionReferences = (
+  factions: StoredFaction[]
+): { factions: StoredFaction[]; changed: boolean } => {
+  let changed = false;
+  const usedIds = new Set(factions.filter(f => f.id).map(f => f.id));
+
+  const withIds = factions.map(faction => {
+    if (faction.id) return faction;
+
+    // Ensure legacy IDs stay unique even if two names share a slug
+    const baseId = createLegacyFactionId(faction.name);
+    let id = baseId;
+    let suffix = 2;
+    while (usedIds.has(id)) {
+      id = `${baseId}-${suffix++}`;
+    }
+    usedIds.add(id);
+    changed = true;
+    return { ...faction, id };
+  });
+
+  const byId = new Map(withIds.map(f => [f.id, f]));
+  const byName = new Map(withIds.map(f => [f.name, f]));
+
+  const linked = withIds.map(faction => {
+    if (!faction.relationships || faction.relationships.length === 0) {
+      return faction;
+    }
+
+    let relationshipsChanged = false;
+    const relationships = faction.relationships.map(
+      (relationship): FactionRelationship => {
+        const target = relationship.factionId
+          ? byId.get(relationship.factionId)
+          : byName.get(relationship.factionName);
+        if (!target) return relationship;
+        if (
+          relationship.factionId === target.id &&
+          relationship.factionName === target.name
+        ) {
+          return relationship;
+        }
+        relationshipsChanged = true;
+        return {
+          ...relationship,
+          factionId: target.id,
+          factionName: target.name,
+        };
+      }
+    );
+
+    if (!relationshipsChanged) return faction;
+    changed = true;
+    return { ...faction, relationships };
+  });
+
+  return { factions: linked, changed };
+};
+
+/**
+ * Link character faction memberships and relationships by ID. Name fields
+ * are refreshed from the referenced faction or character, so a rename shows
+ * up everywhere on the next load. References that cannot be resolved
+ * (e.g. custom relationship names) are left untouched.
+ */
+export const linkCharacterReferences = (
+  characters: GameCharacter[],
+  factions: StoredFaction[]
+): { characters: GameCharacter[]; changed: boolean } => {
+  let changed = false;
+
+  const factionById = new Map(factions.map(f => [f.id, f]));
+  const factionByName = new Map(factions.map(f => [f.name, f]));
+  const characterById = new Map(characters.map(c => [c.id, c]));
+  const characterByName = new Map(characters.map(c => [c.name, c]));
+
+  const linked = characters.map(character => {
+    let characterChanged = false;
+
+    const characterFactions = (character.factions || []).map(
+      (membership): Faction => {
+        const target = membership.factionId
+          ? factionById.get(membership.factionId)
+          : factionByName.get(membership.name);
+        if (!target) return membership;
+        if (
+          membership.factionId === target.id &&
+          membership.name === target.name
+        ) {
+          return membership;
+        }
+        characterChanged = true;
+        return { ...membership, factionId: target.id, name: target.name };
+      }
+    );
+
+    const relationships = (character.relationships || []).map(
+      (relationship): Relationship => {
+        const target = relationship.characterId
+          ? characterById.get(relationship.characterId)
+          : characterByName.get(relationship.characterName);
+        if (!target || target.id === character.id) return relationship;
+        if (
+          relationship.characterId === target.id &&
+          relationship.characterName === target.name
+        ) {
+          return relationship;
+        }
+        characterChanged = true;
+        return {
+          ...relationship,
+          characterId: target.id,
+          characterName: target.name,
+        };
+      }
+    );
+
+    if (!characterChanged) return character;
+    changed = true;
+    return { ...character, factions: characterFactions, relationships };
+  });
+
+  return { characters: linked, changed };
+};
@@ -7,11 +7,14 @@ import { zip, unzip } from 'react-native-zip-archive';
 import {
   exportDataset,
   importDataset,
-  mergeDatasetWithConflictResolution,
-  MergeConflict,
-  updateCharacter,
+  prepareMergeReview,
 } from './characterStorage';
 import { sortDatasetDeterministically } from './datasetSorting';
+import { DEFAULT_CAMPAIGN_ID, getActiveCampaign } from './campaignStorage';
+import { SchemaVersionError } from './schemaMigrations';
+import { createSnapshot } from './snapshotStorage';
+import { MergeReview, saveMergeBase } from './mergeReview';
+import { RulesPackValidationResult, importRulesPack } from './rulesPackStorage';
 
 /**
  * Extract image data from a data URI
@@ -30,43 +33,15 @@ const extractImageData = (
 };
 
 /**
- * Handle conflicts by asking the user for each conflicting property
+ * Remember the dataset as the ancestor of the next merge. Without one the
+ * next merge only asks about more fields, so a failure is logged rather
+ * than failing the export or import.
  */
-const handleMergeConflicts = async (
-  conflicts: MergeConflict[]
-): Promise<void> => {
-  for (const conflict of conflicts) {
-    for (const property of conflict.conflicts) {
-      const existingValue = (conflict.existing as any)[property];
-      const importedValue = (conflict.imported as any)[property];
-
-      await new Promise<void>(resolve => {
-        Alert.alert(
-          'Merge Conflict',
-          `Character "${conflict.existing.name}" has conflicting ${property}:\n\nExisting: ${existingValue}\nImported: ${importedValue}\n\nWhich value would you like to keep?`,
-          [
-            {
-              text: 'Keep Existing',
-              onPress: () => resolve(), // Do nothing, keep existing
-            },
-            {
-              text: 'Use Imported',
-              onPress: async () => {
-                // Update the character with the imported value
-                const updates = { [property]: importedValue };
-                await updateCharacter(conflict.id, updates);
-                resolve();
-              },
-            },
-            {
-              text: 'Skip This Property',
-              style: 'cancel',
-              onPress: () => resolve(),
-            },
-          ]
-        );
-      });
-    }
+const recordMergeBase = async (payload: string): Promise<void> => {
+  try {
+    await saveMergeBase(payload);
+  } catch (error) {
+    console.error('Failed to save merge base:', error);
   }
 };
 
@@ -154,47 +129,6 @@ const exportCharacterDataNative = async (): Promise<void> => {
           }
           if (processedUris.length > 0) {
             character.imageUris = processedUris;
-            character.imageUri = processedUris[0];
-          }
-        }
-        // Handle legacy single image
-        else if (character.imageUri) {
-          if (character.imageUri.startsWith('data:')) {
-            const imageData = extractImageData(character.imageUri);
-            if (imageData) {
-              const filename = `images/characters/${character.id}.${imageData.extension}`;
-              const filePath = tempDir + filename;
-              await FileSystem.writeAsStringAsync(
-                filePath,
-                imageData.base64Data,
-                {
-                  encoding: FileSystem.EncodingType.Base64,
-                }
-              );
-              character.imageUri = filename;
-              character.imageUris = [filename];
-              imageCounter++;
-            }
-          } else if (
-            character.imageUri.startsWith('file://') ||
-            character.imageUri.startsWith('/')
-          ) {
-            // Handle file URI - copy file directly
-            try {
-              const extension =
-                character.imageUri.split('.').pop()?.toLowerCase() || 'jpg';
-              const filename = `images/characters/${character.id}.${extension}`;
-              const filePath = tempDir + filename;
-              await FileSystem.copyAsync({
-                from: character.imageUri,
-                to: filePath,
-              });
-              character.imageUri = filename;
-              character.imageUris = [filename];
-              imageCounter++;
-            } catch {
-              // Image file not accessible, skip
-            }
           }
         }
       }
@@ -245,47 +179,6 @@ const exportCharacterDataNative = async (): Promise<void> => {
           }
           if (processedUris.length > 0) {
             location.imageUris = processedUris;
-            location.imageUri = processedUris[0];
-          }
-        }
-        // Handle legacy single image
-        else if (location.imageUri) {
-          if (location.imageUri.startsWith('data:')) {
-            const imageData = extractImageData(location.imageUri);
-            if (imageData) {
-              const filename = `images/locations/${location.id}.${imageData.extension}`;
-              const filePath = tempDir + filename;
-              await FileSystem.writeAsStringAsync(
-                filePath,
-                imageData.base64Data,
-                {
-                  encoding: FileSystem.EncodingType.Base64,
-                }
-              );
-              location.imageUri = filename;
-              location.imageUris = [filename];
-              imageCounter++;
-            }
-          } else if (
-            location.imageUri.startsWith('file://') ||
-            location.imageUri.startsWith('/')
-          ) {
-            // Handle file URI - copy file directly
-            try {
-              const extension =
-                location.imageUri.split('.').pop()?.toLowerCase() || 'jpg';
-              const filename = `images/locations/${location.id}.${extension}`;
-              const filePath = tempDir + filename;
-              await FileSystem.copyAsync({
-                from: location.imageUri,
-                to: filePath,
-              });
-              location.imageUri = filename;
-              location.imageUris = [filename];
-              imageCounter++;
-            } catch {
-              // Image file not accessible, skip
-            }
           }
         }
       }
@@ -336,47 +229,6 @@ const exportCharacterDataNative = async (): Promise<void> => {
           }
           if (processedUris.length > 0) {
             event.imageUris = processedUris;
-            event.imageUri = processedUris[0];
-          }
-        }
-        // Handle legacy single image
-        else if (event.imageUri) {
-          if (event.imageUri.startsWith('data:')) {
-            const imageData = extractImageData(event.imageUri);
-            if (imageData) {
-              const filename = `images/events/${event.id}.${imageData.extension}`;
-              const filePath = tempDir + filename;
-              await FileSystem.writeAsStringAsync(
-                filePath,
-                imageData.base64Data,
-                {
-                  encoding: FileSystem.EncodingType.Base64,
-                }
-              );
-              event.imageUri = filename;
-              event.imageUris = [filename];
-              imageCounter++;
-            }
-          } else if (
-            event.imageUri.startsWith('file://') ||
-            event.imageUri.startsWith('/')
-          ) {
-            // Handle file URI - copy file directly
-            try {
-              const extension =
-                event.imageUri.split('.').pop()?.toLowerCase() || 'jpg';
-              const filename = `images/events/${event.id}.${extension}`;
-              const filePath = tempDir + filename;
-              await FileSystem.copyAsync({
-                from: event.imageUri,
-                to: filePath,
-              });
-              event.imageUri = filename;
-              event.imageUris = [filename];
-              imageCounter++;
-            } catch {
-              // Image file not accessible, skip
-            }
           }
         }
       }
@@ -430,49 +282,6 @@ const exportCharacterDataNative = async (): Promise<void> => {
           }
           if (processedUris.length > 0) {
             faction.imageUris = processedUris;
-            faction.imageUri = processedUris[0];
-          }
-        }
-        // Handle legacy single image
-        else if (faction.imageUri) {
-          if (faction.imageUri.startsWith('data:')) {
-            const imageData = extractImageData(faction.imageUri);
-            if (imageData) {
-              const safeName = faction.name.replace(/[^a-zA-Z0-9]/g, '_');
-              const filename = `images/factions/${safeName}.${imageData.extension}`;
-              const filePath = tempDir + filename;
-              await FileSystem.writeAsStringAsync(
-                filePath,
-                imageData.base64Data,
-                {
-                  encoding: FileSystem.EncodingType.Base64,
-                }
-              );
-              faction.imageUri = filename;
-              faction.imageUris = [filename];
-              imageCounter++;
-            }
-          } else if (
-            faction.imageUri.startsWith('file://') ||
-            faction.imageUri.startsWith('/')
-          ) {
-            // Handle file URI - copy file directly
-            try {
-              const extension =
-                faction.imageUri.split('.').pop()?.toLowerCase() || 'jpg';
-              const safeName = faction.name.replace(/[^a-zA-Z0-9]/g, '_');
-              const filename = `images/factions/${safeName}.${extension}`;
-              const filePath = tempDir + filename;
-              await FileSystem.copyAsync({
-                from: faction.imageUri,
-                to: filePath,
-              });
-              faction.imageUri = filename;
-              faction.imageUris = [filename];
-              imageCounter++;
-            } catch {
-              // Image file not accessible, skip
-            }
           }
         }
       }
@@ -521,8 +330,13 @@ const exportCharacterDataNative = async (): Promise<void> => {
       JSON.stringify(sortedDataset, null, 2)
     );
 
-    // Create the zip file from the directory
-    const filename = `character-faction-data-${timestamp}.zip`;
+    // Create the zip file from the directory, labelled with the campaign
+    const campaign = getActiveCampaign();
+    const campaignLabel =
+      campaign.id === DEFAULT_CAMPAIGN_ID
+        ? ''
+        : `${campaign.name.replace(/[^a-zA-Z0-9]/g, '_')}-`;
+    const filename = `character-faction-data-${campaignLabel}${timestamp}.zip`;
     const zipPath =
       (FileSystem.cacheDirectory || FileSystem.documentDirectory || '') +
       filename;
@@ -545,6 +359,9 @@ const exportCharacterDataNative = async (): Promise<void> => {
         [{ text: 'OK' }]
       );
     }
+
+    // Whoever receives this export shares this state with us
+    await recordMergeBase(jsonData);
   } catch (error) {
     console.error('Export error:', error);
     Alert.alert(
@@ -785,10 +602,9 @@ const importCharacterDataNative = async (): Promise<boolean> => {
           );
           if (character) {
             console.log(
-              `[ZIP Import] Found character ${character.name}, updating imageUri from "${character.imageUri}" to "${sortedImages[0]}"`
+              `[ZIP Import] Found character ${character.name}, updating images`
             );
             character.imageUris = sortedImages;
-            character.imageUri = sortedImages[0]; // Backward compatibility
           } else {
             console.warn(
               `[ZIP Import] Character ${entityId} not found in dataset`
@@ -800,10 +616,9 @@ const importCharacterDataNative = async (): Promise<boolean> => {
           );
           if (location) {
             console.log(
-              `[ZIP Import] Found location ${location.name}, updating imageUri`
+              `[ZIP Import] Found location ${location.name}, updating images`
             );
             location.imageUris = sortedImages;
-            location.imageUri = sortedImages[0]; // Backward compatibility
           } else {
             console.warn(
               `[ZIP Import] Location ${entityId} not found in dataset`
@@ -813,10 +628,9 @@ const importCharacterDataNative = async (): Promise<boolean> => {
           const event = dataset.events?.find((e: any) => e.id === entityId);
           if (event) {
             console.log(
-              `[ZIP Import] Found event ${event.title}, updating imageUri`
+              `[ZIP Import] Found event ${event.title}, updating images`
             );
             event.imageUris = sortedImages;
-            event.imageUri = sortedImages[0]; // Backward compatibility
           } else {
             console.warn(`[ZIP Import] Event ${entityId} not found in dataset`);
           }
@@ -827,10 +641,9 @@ const importCharacterDataNative = async (): Promise<boolean> => {
           );
           if (faction) {
             console.log(
-              `[ZIP Import] Found faction ${faction.name}, updating imageUri`
+              `[ZIP Import] Found faction ${faction.name}, updating images`
             );
             faction.imageUris = sortedImages;
-            faction.imageUri = sortedImages[0]; // Backward compatibility
           } else {
             console.warn(
               `[ZIP Import] Faction ${entityId} not found in dataset`
@@ -846,11 +659,13 @@ const importCharacterDataNative = async (): Promise<boolean> => {
 
       // Import the dataset
       console.log('[ZIP Import] Calling importDataset...');
+      await createSnapshot('import');
       const success = await importDataset(JSON.stringify(dataset));
       console.log('[ZIP Import] importDataset result:', success);
 
       if (success) {
         console.log('[ZIP Import] Import completed successfully');
+        await recordMergeBase(JSON.stringify(dataset));
         Alert.alert(
           'Import Successful',
           'Game data has been imported successfully. All existing data has been replaced.',
@@ -885,9 +700,11 @@ const importCharacterDataNative = async (): Promise<boolean> => {
         });
       }
 
+      await createSnapshot('import');
       const success = await importDataset(JSON.stringify(dataset));
 
       if (success) {
+        await recordMergeBase(JSON.stringify(dataset));
         Alert.alert(
           'Import Successful',
           'Game data has been imported successfully (without images). All existing data has been replaced.',
@@ -932,7 +749,7 @@ export const importCharacterData = async (): Promise<boolean> => {
 /**
  * Merge game data for native platforms (supports both JSON and ZIP files)
  */
-const mergeCharacterDataNative = async (): Promise<boolean> => {
+const mergeCharacterDataNative = async (): Promise<MergeReview | null> => {
   try {
     // Pick a document
     const result = await DocumentPicker.getDocumentAsync({
@@ -941,7 +758,7 @@ const mergeCharacterDataNative = async (): Promise<boolean> => {
     });
 
     if (result.canceled) {
-      return false;
+      return null;
     }
 
     const fileUri = result.assets[0].uri;
@@ -967,7 +784,7 @@ const mergeCharacterDataNative = async (): Promise<boolean> => {
           { text: 'OK' },
         ]);
         await FileSystem.deleteAsync(tempDir, { idempotent: true });
-        return false;
+        return null;
       }
 
       const jsonContent = await FileSystem.readAsStringAsync(dataJsonPath);
@@ -1080,7 +897,6 @@ const mergeCharacterDataNative = async (): Promise<boolean> => {
           );
           if (character) {
             character.imageUris = sortedImages;
-            character.imageUri = sortedImages[0];
           }
         } else if (entityType === 'location') {
           const location = dataset.locations?.find(
@@ -1088,13 +904,11 @@ const mergeCharacterDataNative = async (): Promise<boolean> => {
           );
           if (location) {
             location.imageUris = sortedImages;
-            location.imageUri = sortedImages[0];
           }
         } else if (entityType === 'event') {
           const event = dataset.events?.find((e: any) => e.id === entityId);
           if (event) {
             event.imageUris = sortedImages;
-            event.imageUri = sortedImages[0];
           }
         } else if (entityType === 'faction') {
           // For factions, entityId is the sanitized faction name
@@ -1103,7 +917,6 @@ const mergeCharacterDataNative = async (): Promise<boolean> => {
           );
           if (faction) {
             faction.imageUris = sortedImages;
-            faction.imageUri = sortedImages[0];
           }
         }
       }
@@ -1134,73 +947,56 @@ const mergeCharacterDataNative = async (): Promise<boolean> => {
       fileContent = JSON.stringify(dataset);
     }
 
-    // Merge the data with conflict resolution
-    const result_merge = await mergeDatasetWithConflictResolution(fileContent);
-
-    if (result_merge.success) {
-      if (result_merge.conflicts.length > 0) {
-        Alert.alert(
-          'Conflicts Found',
-          `Found ${result_merge.conflicts.length} item(s) with conflicts. You'll be asked to resolve each conflict.`,
-          [
-            {
-              text: 'Resolve Conflicts',
-              onPress: async () => {
-                await handleMergeConflicts(result_merge.conflicts);
-                Alert.alert(
-                  'Merge Complete',
-                  `Successfully merged ${result_merge.added.length} new items, and resolved conflicts for ${result_merge.conflicts.length} existing items.`,
-                  [{ text: 'OK' }]
-                );
-              },
-            },
-            {
-              text: 'Skip Conflicts',
-              style: 'cancel',
-              onPress: () => {
-                Alert.alert(
-                  'Merge Complete',
-                  `Successfully merged ${result_merge.added.length} new items. Conflicts were resolved automatically by merging compatible properties.`,
-                  [{ text: 'OK' }]
-                );
-              },
-            },
-          ]
-        );
-      } else {
-        Alert.alert(
-          'Merge Successful',
-          `Successfully merged ${result_merge.added.length} new items with no conflicts.`,
-          [{ text: 'OK' }]
-        );
-      }
-      return true;
-    } else {
-      Alert.alert(
-        'Merge Failed',
-        'The selected file is not a valid game data file.',
-        [{ text: 'OK' }]
-      );
-      return false;
-    }
+    // Compare with the current data; nothing is written until the
+    // conflicts have been reviewed
+    return await prepareMergeReview(fileContent);
   } catch (error) {
     console.error('Merge error:', error);
     Alert.alert(
       'Merge Failed',
-      'Failed to merge game data. Please check the file format and try again.',
+      error instanceof SchemaVersionError
+        ? error.message
+        : 'Failed to merge game data. Please check the file format and try again.',
       [{ text: 'OK' }]
     );
-    return false;
+    return null;
   }
 };
 
 /**
- * Import and merge game data from a JSON file (keeps existing data)
+ * Pick a file to merge into the existing data and compare it with the
+ * current data. Returns the merge review, or null if nothing was picked or
+ * the file could not be read. Apply the review with commitMergeReview.
  */
-export const mergeCharacterData = async (): Promise<boolean> => {
+export const mergeCharacterData = async (): Promise<MergeReview | null> => {
   return await mergeCharacterDataNative();
 };
 
+/**
+ * Pick a rules pack JSON file and install it. Returns null if no file was
+ * picked; otherwise the installed pack or the reasons it was rejected.
+ */
+export const importRulesPackFile =
+  async (): Promise<RulesPackValidationResult | null> => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/json',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) {
+        return null;
+      }
+
+      const fileContent = await FileSystem.readAsStringAsync(
+        result.assets[0].uri
+      );
+      return await importRulesPack(fileContent);
+    } catch (error) {
+      console.error('Rules pack import error:', error);
+      return { pack: null, errors: ['The file could not be read.'] };
+    }
+  };
+
 /**
  * Show import options dialog
  */
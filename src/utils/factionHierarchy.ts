@@ -0,0 +1,136 @@
+import { Faction, FactionRank } from '../models/types';
+import type { StoredFaction } from './characterStorage';
+
+/**
+ * Faction hierarchy
+ *
+ * A faction can name a parent through StoredFaction.parentFactionId, making
+ * it a cell of a larger one. A parent that no longer exists makes the
+ * faction a top-level one again. Storage refuses parents that would close a
+ * loop, but every walk here also stops at one, so imported data can't hang
+ * the app.
+ */
+
+export interface FactionTreeNode {
+  faction: StoredFaction;
+  children: FactionTreeNode[];
+}
+
+const RANK_ORDER = Object.values(FactionRank);
+
+export const getParentFaction = (
+  faction: StoredFaction,
+  factions: StoredFaction[]
+): StoredFaction | undefined =>
+  faction.parentFactionId
+    ? factions.find(f => f.id === faction.parentFactionId)
+    : undefined;
+
+/**
+ * The factions above this one, nearest first
+ */
+export const getFactionAncestors = (
+  faction: StoredFaction,
+  factions: StoredFaction[]
+): StoredFaction[] => {
+  const ancestors: StoredFaction[] = [];
+  const seen = new Set([faction.id]);
+  let parent = getParentFaction(faction, factions);
+  while (parent && !seen.has(parent.id)) {
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parent = getParentFaction(parent, factions);
+  }
+  return ancestors;
+};
+
+/**
+ * Every faction below this one, nearest first
+ */
+export const getSubFactions = (
+  faction: StoredFaction,
+  factions: StoredFaction[]
+): StoredFaction[] => {
+  const subFactions: StoredFaction[] = [];
+  const seen = new Set([faction.id]);
+  for (let head = -1; head < subFactions.length; head++) {
+    const parentId = head < 0 ? faction.id : subFactions[head].id;
+    factions
+      .filter(f => f.parentFactionId === parentId && !seen.has(f.id))
+      .forEach(child => {
+        seen.add(child.id);
+        subFactions.push(child);
+      });
+  }
+  return subFactions;
+};
+
+/**
+ * Whether the faction can be made a cell of the parent: a faction can't be
+ * its own parent, nor the parent of any faction above it. Factions not yet
+ * saved have no ID and can join any parent.
+ */
+export const canSetParentFaction = (
+  factionId: string | undefined,
+  parentFactionId: string,
+  factions: StoredFaction[]
+): boolean => {
+  const parent = factions.find(f => f.id === parentFactionId);
+  if (!parent) return false;
+  if (!factionId) return true;
+  return (
+    parent.id !== factionId &&
+    !getFactionAncestors(parent, factions).some(f => f.id === factionId)
+  );
+};
+
+/**
+ * Arrange the factions into trees, each level sorted by name. Factions
+ * whose parent isn't in the list are roots.
+ */
+export const buildFactionTree = (
+  factions: StoredFaction[]
+): FactionTreeNode[] => {
+  const sorted = [...factions].sort((a, b) => a.name.localeCompare(b.name));
+  const placed = new Set<string>();
+
+  const buildNode = (faction: StoredFaction): FactionTreeNode => {
+    placed.add(faction.id);
+    return {
+      faction,
+      children: sorted
+        .filter(f => f.parentFactionId === faction.id)
+        .flatMap(child => (placed.has(child.id) ? [] : [buildNode(child)])),
+    };
+  };
+
+  const roots = sorted
+    .filter(f => !getParentFaction(f, factions))
+    .map(buildNode);
+  // Factions caught in a loop have no root above them
+  sorted.forEach(faction => {
+    if (!placed.has(faction.id)) roots.push(buildNode(faction));
+  });
+  return roots;
+};
+
+/**
+ * The trees in display order, each faction with its depth below its root
+ */
+export const flattenFactionTree = (
+  nodes: FactionTreeNode[],
+  depth = 0
+): { faction: StoredFaction; depth: number }[] =>
+  nodes.flatMap(node => [
+    { faction: node.faction, depth },
+    ...flattenFactionTree(node.children, depth + 1),
+  ]);
+
+/**
+ * Order faction entries by rank, most senior first; unranked entries last
+ */
+export const compareFactionRanks = (a: Faction, b: Faction): number => {
+  const order = (rank?: FactionRank) =>
+    rank ? RANK_ORDER.indexOf(rank) : RANK_ORDER.length;
+  return order(a.rank) - order(b.rank);
+};
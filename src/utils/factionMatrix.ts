@@ -0,0 +1,200 @@
+import {
+  GameCharacter,
+  NEGATIVE_RELATIONSHIP_TYPE,
+  POSITIVE_RELATIONSHIP_TYPE,
+  RelationshipStanding,
+} from '../models/types';
+import type { StoredFaction } from './characterStorage';
+import {
+  isFactionReferenceTo,
+  isFactionRelationshipTo,
+} from './entityReferences';
+
+/**
+ * Faction matrix
+ *
+ * Reconciles the two sources of faction-to-faction standing: what a faction
+ * declares in StoredFaction.relationships, and what its members think of
+ * the other faction, read from the standing each member holds towards it.
+ * A member is a character who is Ally or Friend of the faction, as in the
+ * faction statistics.
+ *
+ * Blocs and rivalries are read from the effective standing of each pair:
+ * the declared one where there is one, the inferred one otherwise.
+ */
+
+export interface FactionMatrixCell {
+  from: string;
+  to: string;
+  declared?: RelationshipStanding;
+  inferred?: RelationshipStanding; // Unset when no member has a standing
+  inferredFrom: number; // Members whose standing was averaged
+  contradiction: boolean; // Declared and inferred point opposite ways
+}
+
+export interface FactionMatrix {
+  factions: string[];
+  cells: FactionMatrixCell[][]; // cells[row][column]; the diagonal is unused
+}
+
+export interface FactionRivalry {
+  sides: [string[], string[]]; // Each side is a bloc or a single faction
+  hostileTies: number; // Pairs of factions across the sides at odds
+}
+
+export interface FactionBlocs {
+  blocs: string[][]; // Two or more factions tied by positive standing
+  rivalries: FactionRivalry[];
+}
+
+const STANDING_VALUES: Record<RelationshipStanding, number> = {
+  [RelationshipStanding.Ally]: 2,
+  [RelationshipStanding.Friend]: 1,
+  [RelationshipStanding.Neutral]: 0,
+  [RelationshipStanding.Hostile]: -1,
+  [RelationshipStanding.Enemy]: -2,
+};
+
+// Rounds halves away from Neutral, so a tie between Friend and Ally reads
+// as Ally and one between Hostile and Enemy as Enemy
+const toStanding = (value: number): RelationshipStanding => {
+  const rounded = Math.sign(value) * Math.min(2, Math.round(Math.abs(value)));
+  return (
+    (Object.keys(STANDING_VALUES) as RelationshipStanding[]).find(
+      standing => STANDING_VALUES[standing] === rounded
+    ) ?? RelationshipStanding.Neutral
+  );
+};
+
+const getSign = (standing?: RelationshipStanding): number => {
+  if (!standing) return 0;
+  if (POSITIVE_RELATIONSHIP_TYPE.includes(standing)) return 1;
+  if (NEGATIVE_RELATIONSHIP_TYPE.includes(standing)) return -1;
+  return 0;
+};
+
+export const getEffectiveStanding = (
+  cell: FactionMatrixCell
+): RelationshipStanding | undefined => cell.declared ?? cell.inferred;
+
+/**
+ * Build the matrix for the given factions; retired factions are left out
+ */
+export const buildFactionMatrix = (
+  storedFactions: StoredFaction[],
+  characters: GameCharacter[]
+): FactionMatrix => {
+  const factions = storedFactions
+    .filter(f => !f.retired)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const cells = factions.map(from => {
+    const members = characters.filter(character =>
+      character.factions.some(
+        f =>
+          isFactionReferenceTo(f, from) &&
+          POSITIVE_RELATIONSHIP_TYPE.includes(f.standing)
+      )
+    );
+
+    return factions.map(to => {
+      const declared = from.relationships?.find(rel =>
+        isFactionRelationshipTo(rel, to)
+      )?.relationshipType;
+      const memberStandings = members.flatMap(member =>
+        member.factions
+          .filter(f => isFactionReferenceTo(f, to))
+          .map(f => STANDING_VALUES[f.standing])
+      );
+      const inferred =
+        memberStandings.length > 0
+          ? toStanding(
+              memberStandings.reduce((sum, value) => sum + value, 0) /
+                memberStandings.length
+            )
+          : undefined;
+
+      return {
+        from: from.name,
+        to: to.name,
+        declared,
+        inferred,
+        inferredFrom: memberStandings.length,
+        contradiction: getSign(declared) * getSign(inferred) < 0,
+      };
+    });
+  });
+
+  return { factions: factions.map(f => f.name), cells };
+};
+
+/**
+ * Every contradiction in the matrix, row by row
+ */
+export const findContradictions = (
+  matrix: FactionMatrix
+): FactionMatrixCell[] =>
+  matrix.cells.flatMap((row, i) =>
+    row.filter((cell, j) => i !== j && cell.contradiction)
+  );
+
+/**
+ * Group factions into alliance blocs and find the rivalries between them.
+ * Two factions are allied when either side is positive about the other and
+ * neither is negative; they are at odds when either side is negative.
+ */
+export const detectFactionBlocs = (matrix: FactionMatrix): FactionBlocs => {
+  const count = matrix.factions.length;
+  const pairSigns = (i: number, j: number): number[] => [
+    getSign(getEffectiveStanding(matrix.cells[i][j])),
+    getSign(getEffectiveStanding(matrix.cells[j][i])),
+  ];
+  const isAllied = (i: number, j: number) => {
+    const signs = pairSigns(i, j);
+    return signs.includes(1) && !signs.includes(-1);
+  };
+  const isAtOdds = (i: number, j: number) => pairSigns(i, j).includes(-1);
+
+  // Connected components over allied pairs
+  const groupOf = new Array<number>(count).fill(-1);
+  const groups: number[][] = [];
+  for (let start = 0; start < count; start++) {
+    if (groupOf[start] >= 0) continue;
+    const group = [start];
+    groupOf[start] = groups.length;
+    for (let head = 0; head < group.length; head++) {
+      for (let next = 0; next < count; next++) {
+        if (groupOf[next] < 0 && isAllied(group[head], next)) {
+          groupOf[next] = groups.length;
+          group.push(next);
+        }
+      }
+    }
+    groups.push(group.sort((a, b) => a - b));
+  }
+
+  const rivalries: FactionRivalry[] = [];
+  groups.forEach((groupA, a) => {
+    groups.slice(a + 1).forEach(groupB => {
+      const hostileTies = groupA.reduce(
+        (sum, i) => sum + groupB.filter(j => isAtOdds(i, j)).length,
+        0
+      );
+      if (hostileTies === 0) return;
+      rivalries.push({
+        sides: [
+          groupA.map(i => matrix.factions[i]),
+          groupB.map(j => matrix.factions[j]),
+        ],
+        hostileTies,
+      });
+    });
+  });
+
+  return {
+    blocs: groups
+      .filter(group => group.length > 1)
+      .map(group => group.map(i => matrix.factions[i])),
+    rivalries: rivalries.sort((a, b) => b.hostileTies - a.hostileTies),
+  };
+};
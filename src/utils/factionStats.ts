@@ -1,19 +1,19 @@
 import { GameCharacter, RelationshipStanding } from '../models/types';
-import {
-  AVAILABLE_PERKS,
-  AVAILABLE_DISTINCTIONS,
-  PerkTag,
-} from '../models/gameData';
-import { FactionRelationship } from './characterStorage';
+import { RulesPack } from '../models/gameData';
+import type { FactionRelationship, StoredFaction } from './characterStorage';
+import { isFactionReferenceTo } from './entityReferences';
+import { getActiveRulesPack } from './rulesPackStorage';
 
 export interface FactionStats {
   factionName: string;
-  totalMembers: number;
+  totalMembers: number; // Includes members of sub-factions
   presentMembers: number;
+  directMembers: number; // Members of this faction itself
+  subFactions: string[];
 
   // Perk tag analysis
-  perkTagCounts: Record<PerkTag, number>;
-  topPerkTags: { tag: PerkTag; count: number; percentage: number }[];
+  perkTagCounts: Record<string, number>;
+  topPerkTags: { tag: string; count: number; percentage: number }[];
 
   // Common perks and distinctions
   commonPerks: { name: string; count: number; percentage: number }[];
@@ -29,7 +29,7 @@ export interface FactionStats {
 
   // Combined strength (with allies)
   combinedMemberCount?: number;
-  combinedPerkTags?: Record<PerkTag, number>;
+  combinedPerkTags?: Record<string, number>;
 }
 
 export interface CombinedFactionAnalysis {
@@ -37,27 +37,48 @@ export interface CombinedFactionAnalysis {
   directMembers: number;
   alliedFactions: string[];
   combinedMembers: number;
-  combinedPerkTags: Record<PerkTag, number>;
+  combinedPerkTags: Record<string, number>;
   strengthMultiplier: number; // Combined vs direct member ratio
 }
 
+type FactionTarget = string | Pick<StoredFaction, 'id' | 'name'>;
+
 /**
- * Calculate statistics for a single faction based on its members
+ * Calculate statistics for a single faction based on its members. Members of
+ * the given sub-factions roll up into the parent, each counted once. Stored
+ * factions match memberships by faction ID, so renames don't lose members.
  */
 export const calculateFactionStats = (
-  factionName: string,
+  faction: FactionTarget,
   allCharacters: GameCharacter[],
-  factionRelationships: FactionRelationship[] = []
+  factionRelationships: FactionRelationship[] = [],
+  subFactions: Pick<StoredFaction, 'id' | 'name'>[] = [],
+  rulesPack: RulesPack = getActiveRulesPack()
 ): FactionStats => {
+  const factionName = typeof faction === 'string' ? faction : faction.name;
+  const subFactionNames = subFactions.map(f => f.name);
+
   // Get faction members (only positive relationships count as members)
-  const members = allCharacters.filter(char => {
-    const faction = char.factions.find(f => f.name === factionName);
+  const isMemberOf = (char: GameCharacter, target: FactionTarget) => {
+    const membership = char.factions.find(f =>
+      typeof target === 'string'
+        ? f.name === target
+        : isFactionReferenceTo(f, target)
+    );
     return (
-      faction &&
-      (faction.standing === RelationshipStanding.Ally ||
-        faction.standing === RelationshipStanding.Friend)
+      !!membership &&
+      (membership.standing === RelationshipStanding.Ally ||
+        membership.standing === RelationshipStanding.Friend)
     );
-  });
+  };
+  const members = allCharacters.filter(
+    char =>
+      isMemberOf(char, faction) ||
+      subFactions.some(subFaction => isMemberOf(char, subFaction))
+  );
+  const directMembers = members.filter(char =>
+    isMemberOf(char, faction)
+  ).length;
 
   if (members.length === 0) {
     // Return empty stats for factions with no members
@@ -65,7 +86,9 @@ export const calculateFactionStats = (
       factionName,
       totalMembers: 0,
       presentMembers: 0,
-      perkTagCounts: {} as Record<PerkTag, number>,
+      directMembers: 0,
+      subFactions: subFactionNames,
+      perkTagCounts: {},
       topPerkTags: [],
       commonPerks: [],
       commonDistinctions: [],
@@ -80,13 +103,13 @@ export const calculateFactionStats = (
   const presentMembers = members.filter(m => m.present === true).length;
 
   // Calculate perk tag counts - initialize all tags to 0
-  const perkTagCounts: Record<PerkTag, number> = Object.fromEntries(
-    Object.values(PerkTag).map(tag => [tag, 0])
-  ) as Record<PerkTag, number>;
+  const perkTagCounts: Record<string, number> = Object.fromEntries(
+    rulesPack.perkTags.map(tag => [tag, 0])
+  );
 
   members.forEach(member => {
     member.perkIds.forEach(perkId => {
-      const perk = AVAILABLE_PERKS.find(p => p.id === perkId);
+      const perk = rulesPack.perks.find(p => p.id === perkId);
       if (perk && perk.tag) {
         perkTagCounts[perk.tag] = (perkTagCounts[perk.tag] || 0) + 1;
       }
@@ -96,7 +119,7 @@ export const calculateFactionStats = (
   // Get top perk tags
   const topPerkTags = Object.entries(perkTagCounts)
     .map(([tag, count]) => ({
-      tag: tag as PerkTag,
+      tag,
       count,
       percentage: (count / totalMembers) * 100,
     }))
@@ -114,7 +137,7 @@ export const calculateFactionStats = (
 
   const commonPerks = Object.entries(perkCount)
     .map(([id, count]) => ({
-      name: AVAILABLE_PERKS.find(p => p.id === id)?.name || 'Unknown Perk',
+      name: rulesPack.perks.find(p => p.id === id)?.name || 'Unknown Perk',
       count,
       percentage: (count / totalMembers) * 100,
     }))
@@ -133,7 +156,7 @@ export const calculateFactionStats = (
   const commonDistinctions = Object.entries(distinctionCount)
     .map(([id, count]) => ({
       name:
-        AVAILABLE_DISTINCTIONS.find(d => d.id === id)?.name ||
+        rulesPack.distinctions.find(d => d.id === id)?.name ||
         'Unknown Distinction',
       count,
       percentage: (count / totalMembers) * 100,
@@ -171,6 +194,8 @@ export const calculateFactionStats = (
     factionName,
     totalMembers,
     presentMembers,
+    directMembers,
+    subFactions: subFactionNames,
     perkTagCounts,
     topPerkTags,
     commonPerks,
@@ -204,7 +229,7 @@ export const calculateCombinedFactionStats = (
 
   // Calculate combined member count and perk tags including allies
   let combinedMembers = baseStats.totalMembers;
-  const combinedPerkTags: Record<PerkTag, number> = {
+  const combinedPerkTags: Record<string, number> = {
     ...baseStats.perkTagCounts,
   };
 
@@ -219,8 +244,7 @@ export const calculateCombinedFactionStats = (
 
     // Add ally perk tags to combined totals
     Object.entries(allyStats.perkTagCounts).forEach(([tag, count]) => {
-      combinedPerkTags[tag as PerkTag] =
-        (combinedPerkTags[tag as PerkTag] || 0) + count;
+      combinedPerkTags[tag] = (combinedPerkTags[tag] || 0) + count;
     });
   });
 
@@ -4,6 +4,7 @@ import { Alert } from 'react-native';
 import { Buffer } from 'buffer';
 import { exportDataset } from './characterStorage';
 import { sortDatasetDeterministically } from './datasetSorting';
+import { migrateDataset } from './schemaMigrations';
 
 /**
  * Configuration for the data library repository
@@ -251,41 +252,6 @@ export const exportToGitHub = async (): Promise<{
           }
         }
       }
-      // Handle legacy single image
-      else if (entity.imageUri) {
-        const uri = entity.imageUri;
-        if (uri.startsWith('data:')) {
-          const imageData = extractImageData(uri);
-          if (imageData) {
-            const filename = `images/${entityType}/${entityId}.${imageData.extension}`;
-            imageFiles.push({
-              path: filename,
-              content: imageData.base64Data,
-              entityType,
-              entityId,
-            });
-            images.push(filename);
-          }
-        } else if (uri.startsWith('file://') || uri.startsWith('/')) {
-          try {
-            const fileUri = uri.startsWith('file://') ? uri : `file://${uri}`;
-            const base64Data = await FileSystem.readAsStringAsync(fileUri, {
-              encoding: FileSystem.EncodingType.Base64,
-            });
-            const extension = uri.split('.').pop()?.toLowerCase() || 'jpg';
-            const filename = `images/${entityType}/${entityId}.${extension}`;
-            imageFiles.push({
-              path: filename,
-              content: base64Data,
-              entityType,
-              entityId,
-            });
-            images.push(filename);
-          } catch (error) {
-            console.error(`Failed to read image file: ${uri}`, error);
-          }
-        }
-      }
 
       return images;
     };
@@ -302,7 +268,6 @@ export const exportToGitHub = async (): Promise<{
         );
         if (images.length > 0) {
           character.imageUris = images;
-          character.imageUri = images[0];
           totalImages += images.length;
           console.log(
             `[GitHub Export] Processed ${images.length} images for character: ${character.name}`
@@ -320,7 +285,6 @@ export const exportToGitHub = async (): Promise<{
         );
         if (images.length > 0) {
           location.imageUris = images;
-          location.imageUri = images[0];
           totalImages += images.length;
           console.log(
             `[GitHub Export] Processed ${images.length} images for location: ${location.name}`
@@ -334,7 +298,6 @@ export const exportToGitHub = async (): Promise<{
         const images = await processEntityImages(event, 'events', event.id);
         if (images.length > 0) {
           event.imageUris = images;
-          event.imageUri = images[0];
           totalImages += images.length;
           console.log(
             `[GitHub Export] Processed ${images.length} images for event: ${event.title}`
@@ -349,7 +312,6 @@ export const exportToGitHub = async (): Promise<{
         const images = await processEntityImages(faction, 'factions', safeName);
         if (images.length > 0) {
           faction.imageUris = images;
-          faction.imageUri = images[0];
           totalImages += images.length;
           console.log(
             `[GitHub Export] Processed ${images.length} images for faction: ${faction.name}`
@@ -365,7 +327,7 @@ export const exportToGitHub = async (): Promise<{
 
     // Update data.json with modified paths
     // Note: This happens AFTER image processing because we need to update
-    // the imageUri/imageUris fields in the dataset to point to the
+    // the imageUris fields in the dataset to point to the
     // relative paths in the repository (e.g., "images/characters/id_0.jpg")
     const updatedDataContent = Buffer.from(
       JSON.stringify(sortedDataset, null, 2)
@@ -552,7 +514,8 @@ export const importFromGitHub = async (): Promise<{
 
     if ('content' in file) {
       const content = Buffer.from(file.content, 'base64').toString('utf-8');
-      const dataset = JSON.parse(content);
+      // Refuses data.json written by a newer app version
+      const { dataset } = migrateDataset(JSON.parse(content));
 
       // Create permanent image directories
       const permanentImageDir = FileSystem.documentDirectory + 'images/';
@@ -653,31 +616,12 @@ export const importFromGitHub = async (): Promise<{
             const localPaths = await downloadImages(character.imageUris);
             if (localPaths.length > 0) {
               character.imageUris = localPaths;
-              character.imageUri = localPaths[0];
               totalImagesDownloaded += localPaths.length;
             } else {
               console.warn(
                 `[GitHub Import] No images downloaded for character: ${character.name}`
               );
               // Clear image references if download failed
-              delete character.imageUri;
-              delete character.imageUris;
-            }
-          } else if (character.imageUri) {
-            console.log(
-              `[GitHub Import] Processing single image for character: ${character.name}`
-            );
-            const localPaths = await downloadImages([character.imageUri]);
-            if (localPaths.length > 0) {
-              character.imageUri = localPaths[0];
-              character.imageUris = localPaths;
-              totalImagesDownloaded += localPaths.length;
-            } else {
-              console.warn(
-                `[GitHub Import] No image downloaded for character: ${character.name}`
-              );
-              // Clear image references if download failed
-              delete character.imageUri;
               delete character.imageUris;
             }
           }
@@ -694,31 +638,12 @@ export const importFromGitHub = async (): Promise<{
             const localPaths = await downloadImages(location.imageUris);
             if (localPaths.length > 0) {
               location.imageUris = localPaths;
-              location.imageUri = localPaths[0];
               totalImagesDownloaded += localPaths.length;
             } else {
               console.warn(
                 `[GitHub Import] No images downloaded for location: ${location.name}`
               );
               // Clear image references if download failed
-              delete location.imageUri;
-              delete location.imageUris;
-            }
-          } else if (location.imageUri) {
-            console.log(
-              `[GitHub Import] Processing single image for location: ${location.name}`
-            );
-            const localPaths = await downloadImages([location.imageUri]);
-            if (localPaths.length > 0) {
-              location.imageUri = localPaths[0];
-              location.imageUris = localPaths;
-              totalImagesDownloaded += localPaths.length;
-            } else {
-              console.warn(
-                `[GitHub Import] No image downloaded for location: ${location.name}`
-              );
-              // Clear image references if download failed
-              delete location.imageUri;
               delete location.imageUris;
             }
           }
@@ -735,31 +660,12 @@ export const importFromGitHub = async (): Promise<{
             const localPaths = await downloadImages(event.imageUris);
             if (localPaths.length > 0) {
               event.imageUris = localPaths;
-              event.imageUri = localPaths[0];
               totalImagesDownloaded += localPaths.length;
             } else {
               console.warn(
                 `[GitHub Import] No images downloaded for event: ${event.title}`
               );
               // Clear image references if download failed
-              delete event.imageUri;
-              delete event.imageUris;
-            }
-          } else if (event.imageUri) {
-            console.log(
-              `[GitHub Import] Processing single image for event: ${event.title}`
-            );
-            const localPaths = await downloadImages([event.imageUri]);
-            if (localPaths.length > 0) {
-              event.imageUri = localPaths[0];
-              event.imageUris = localPaths;
-              totalImagesDownloaded += localPaths.length;
-            } else {
-              console.warn(
-                `[GitHub Import] No image downloaded for event: ${event.title}`
-              );
-              // Clear image references if download failed
-              delete event.imageUri;
               delete event.imageUris;
             }
           }
@@ -776,31 +682,12 @@ export const importFromGitHub = async (): Promise<{
             const localPaths = await downloadImages(faction.imageUris);
             if (localPaths.length > 0) {
               faction.imageUris = localPaths;
-              faction.imageUri = localPaths[0];
               totalImagesDownloaded += localPaths.length;
             } else {
               console.warn(
                 `[GitHub Import] No images downloaded for faction: ${faction.name}`
               );
               // Clear image references if download failed
-              delete faction.imageUri;
-              delete faction.imageUris;
-            }
-          } else if (faction.imageUri) {
-            console.log(
-              `[GitHub Import] Processing single image for faction: ${faction.name}`
-            );
-            const localPaths = await downloadImages([faction.imageUri]);
-            if (localPaths.length > 0) {
-              faction.imageUri = localPaths[0];
-              faction.imageUris = localPaths;
-              totalImagesDownloaded += localPaths.length;
-            } else {
-              console.warn(
-                `[GitHub Import] No image downloaded for faction: ${faction.name}`
-              );
-              // Clear image references if download failed
-              delete faction.imageUri;
               delete faction.imageUris;
             }
           }
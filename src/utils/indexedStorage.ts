@@ -0,0 +1,343 @@
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+
+/**
+ * Indexed collections
+ *
+ * A large collection is stored as one storage record per entity plus a small
+ * manifest with the entity IDs and secondary indexes, instead of a single
+ * JSON blob holding the whole array. Index lookups only load the records
+ * they match, and writes only touch the records that actually changed, so
+ * the cost of an edit no longer grows with the size of the collection.
+ *
+ * The manifest lives under the collection's own key. A collection still
+ * stored there as a plain array (the old blob format) is migrated to
+ * per-entity records the first time it is read.
+ *
+ * A refused write throws a StorageWriteError, so callers never report or
+ * journal an edit that wasn't stored. A manifest that isn't recognised
+ * throws an UnreadableCollectionError rather than reading as empty, so the
+ * next write can't replace the collection with nothing.
+ */
+
+// Index name -> indexed value -> IDs of the entities with that value
+type CollectionIndexes = Record<string, Record<string, string[]>>;
+
+// An entity can be listed under several values of one index, e.g. a
+// character under each faction it belongs to
+type IndexValue = string | string[] | undefined;
+
+interface CollectionManifest {
+  ids: string[];
+  indexes: CollectionIndexes;
+  version: string;
+  lastUpdated: string;
+}
+
+export interface IndexedCollectionOptions<T, I extends string> {
+  baseKey: string; // Campaign-namespaced like any other dataset key
+  getId: (entity: T) => string;
+  indexes: Record<I, (entity: T) => IndexValue>;
+  compare?: (a: T, b: T) => number; // Order of loaded entities
+  // The owner migrates a collection still stored as a dataset object (e.g.
+  // {"characters": [...], "version": ...}); until then it reads as empty
+  ownerMigratesDatasets?: boolean;
+}
+
+export interface IndexedCollection<T, I extends string> {
+  getAll: () => Promise<T[]>;
+  getMany: (ids: string[]) => Promise<T[]>;
+  count: () => Promise<number>;
+  findBy: (index: I, value: string) => Promise<T[]>;
+  put: (entities: T[]) => Promise<number>;
+  replaceAll: (entities: T[]) => Promise<number>;
+  remove: (ids: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export class UnreadableCollectionError extends Error {
+  constructor(public readonly key: string) {
+    super(
+      `Your data could not be read (storage key "${key}"). Restore a snapshot or import a backup to recover it.`
+    );
+    this.name = 'UnreadableCollectionError';
+  }
+}
+
+const MANIFEST_VERSION = '1.0';
+
+const isSameEntity = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const toIndexValues = (value: IndexValue): string[] =>
+  (Array.isArray(value) ? value : [value]).filter(
+    (v): v is string => v !== undefined && v !== ''
+  );
+
+export const createIndexedCollection = <T, I extends string>(
+  options: IndexedCollectionOptions<T, I>
+): IndexedCollection<T, I> => {
+  const { baseKey, getId, indexes, compare, ownerMigratesDatasets } = options;
+  const indexNames = Object.keys(indexes) as I[];
+
+  const getManifestKey = (): string => getCampaignStorageKey(baseKey);
+  const getRecordKey = (id: string): string =>
+    getCampaignStorageKey(`${baseKey}_record_${id}`);
+
+  const emptyManifest = (): CollectionManifest => ({
+    ids: [],
+    indexes: {},
+    version: MANIFEST_VERSION,
+    lastUpdated: new Date().toISOString(),
+  });
+
+  const addToIndexes = (
+    manifest: CollectionManifest,
+    id: string,
+    entity: T
+  ): void => {
+    indexNames.forEach(name => {
+      toIndexValues(indexes[name](entity)).forEach(value => {
+        const index = (manifest.indexes[name] ??= {});
+        const ids = (index[value] ??= []);
+        if (!ids.includes(id)) ids.push(id);
+      });
+    });
+  };
+
+  // One pass over the indexes for a whole batch of IDs
+  const dropFromIndexes = (
+    manifest: CollectionManifest,
+    ids: Set<string>
+  ): void => {
+    if (ids.size === 0) return;
+
+    Object.values(manifest.indexes).forEach(index => {
+      Object.keys(index).forEach(value => {
+        const remaining = index[value].filter(id => !ids.has(id));
+        if (remaining.length > 0) {
+          index[value] = remaining;
+        } else {
+          delete index[value];
+        }
+      });
+    });
+  };
+
+  const saveManifest = async (manifest: CollectionManifest): Promise<void> => {
+    const saved = await SafeAsyncStorageJSONParser.setItem(getManifestKey(), {
+      ...manifest,
+      lastUpdated: new Date().toISOString(),
+    });
+    if (!saved) throw new StorageWriteError(getManifestKey());
+  };
+
+  const saveRecords = async (records: Array<[string, T]>): Promise<void> => {
+    const written = await SafeAsyncStorageJSONParser.multiSet(records);
+    // multiSet only reports a count; name the collection
+    if (written < records.length) throw new StorageWriteError(getManifestKey());
+  };
+
+  const migrateBlob = async (entities: T[]): Promise<CollectionManifest> => {
+    const manifest = emptyManifest();
+    const records: Array<[string, T]> = [];
+
+    entities.forEach(entity => {
+      const id = getId(entity);
+      if (!manifest.ids.includes(id)) manifest.ids.push(id);
+      addToIndexes(manifest, id, entity);
+      records.push([getRecordKey(id), entity]);
+    });
+
+    // Records first, so an interrupted migration leaves the blob intact
+    await saveRecords(records);
+    await saveManifest(manifest);
+    return manifest;
+  };
+
+  const readManifest = async (): Promise<CollectionManifest> => {
+    const stored = await SafeAsyncStorageJSONParser.getItem<
+      CollectionManifest | T[]
+    >(getManifestKey());
+    if (!stored) return emptyManifest();
+    if (Array.isArray(stored)) return await migrateBlob(stored);
+    if (Array.isArray(stored.ids)) {
+      // Indexes the collection no longer defines are dropped on next save
+      const indexes: CollectionIndexes = {};
+      indexNames.forEach(name => {
+        if (stored.indexes?.[name]) indexes[name] = stored.indexes[name];
+      });
+      return { ...stored, indexes };
+    }
+    if (ownerMigratesDatasets && typeof stored === 'object') {
+      return emptyManifest();
+    }
+    throw new UnreadableCollectionError(getManifestKey());
+  };
+
+  const loadRecords = async (ids: string[]): Promise<T[]> => {
+    if (ids.length === 0) return [];
+
+    const records = await SafeAsyncStorageJSONParser.multiGet<T>(
+      ids.map(getRecordKey)
+    );
+    const entities = ids
+      .map(id => records[getRecordKey(id)])
+      .filter((entity): entity is T => !!entity);
+    return compare ? entities.sort(compare) : entities;
+  };
+
+  const writeEntities = async (
+    manifest: CollectionManifest,
+    entities: T[]
+  ): Promise<number> => {
+    const known = new Set(manifest.ids);
+    const previous = new Map<string, T>();
+    (
+      await loadRecords(entities.map(getId).filter(id => known.has(id)))
+    ).forEach(entity => previous.set(getId(entity), entity));
+
+    // Later duplicates of an ID win
+    const changed = new Map<string, T>();
+    entities.forEach(entity => {
+      const id = getId(entity);
+      if (isSameEntity(previous.get(id), entity)) {
+        changed.delete(id);
+        return;
+      }
+      changed.set(id, entity);
+    });
+    if (changed.size === 0) return 0;
+
+    // The manifest is only rewritten for new entities and changed index
+    // values; most edits write a single record
+    const reindexed = new Map<string, T>();
+    changed.forEach((entity, id) => {
+      const before = previous.get(id);
+      const sameIndexValues =
+        !!before &&
+        indexNames.every(name =>
+          isSameEntity(
+            toIndexValues(indexes[name](before)),
+            toIndexValues(indexes[name](entity))
+          )
+        );
+      if (!sameIndexValues) reindexed.set(id, entity);
+    });
+
+    dropFromIndexes(manifest, new Set(reindexed.keys()));
+    reindexed.forEach((entity, id) => {
+      if (!known.has(id)) {
+        manifest.ids.push(id);
+        known.add(id);
+      }
+      addToIndexes(manifest, id, entity);
+    });
+
+    await saveRecords(
+      Array.from(changed, ([id, entity]) => [getRecordKey(id), entity])
+    );
+    if (reindexed.size > 0) {
+      await saveManifest(manifest);
+    }
+    return changed.size;
+  };
+
+  const removeIds = async (
+    manifest: CollectionManifest,
+    ids: Set<string>
+  ): Promise<void> => {
+    manifest.ids = manifest.ids.filter(id => !ids.has(id));
+    dropFromIndexes(manifest, ids);
+    for (const id of ids) {
+      const key = getRecordKey(id);
+      if (!(await SafeAsyncStorageJSONParser.removeItem(key))) {
+        throw new StorageWriteError(key);
+      }
+    }
+  };
+
+  return {
+    /**
+     * Load every entity of the collection
+     */
+    getAll: async () => loadRecords((await readManifest()).ids),
+
+    /**
+     * Load the entities with the given IDs, skipping unknown IDs
+     */
+    getMany: async ids => {
+      const known = new Set((await readManifest()).ids);
+      return loadRecords(ids.filter(id => known.has(id)));
+    },
+
+    /**
+     * Count the entities without loading them
+     */
+    count: async () => (await readManifest()).ids.length,
+
+    /**
+     * Load the entities whose indexed value equals the given value
+     */
+    findBy: async (index, value) => {
+      const manifest = await readManifest();
+      return loadRecords(manifest.indexes[index]?.[value] ?? []);
+    },
+
+    /**
+     * Add or update entities. Only entities that differ from the stored
+     * version are written. Returns the number of entities written.
+     */
+    put: async entities => {
+      if (entities.length === 0) return 0;
+      return writeEntities(await readManifest(), entities);
+    },
+
+    /**
+     * Make the collection hold exactly the given entities. Returns the number
+     * of entities written.
+     */
+    replaceAll: async entities => {
+      const manifest = await readManifest();
+      const keep = new Set(entities.map(getId));
+      const removed = new Set(manifest.ids.filter(id => !keep.has(id)));
+
+      if (removed.size > 0) {
+        await removeIds(manifest, removed);
+        await saveManifest(manifest);
+      }
+      return writeEntities(manifest, entities);
+    },
+
+    /**
+     * Remove the entities with the given IDs
+     */
+    remove: async ids => {
+      const manifest = await readManifest();
+      const removed = new Set(ids.filter(id => manifest.ids.includes(id)));
+      if (removed.size === 0) return;
+
+      await removeIds(manifest, removed);
+      await saveManifest(manifest);
+    },
+
+    /**
+     * Remove every entity and the manifest
+     */
+    clear: async () => {
+      // A legacy blob has no records to remove, so don't migrate it first
+      const stored = await SafeAsyncStorageJSONParser.getItem<
+        CollectionManifest | T[]
+      >(getManifestKey());
+      if (stored && !Array.isArray(stored) && Array.isArray(stored.ids)) {
+        await removeIds(stored, new Set(stored.ids));
+      }
+      if (!(await SafeAsyncStorageJSONParser.removeItem(getManifestKey()))) {
+        throw new StorageWriteError(getManifestKey());
+      }
+    },
+  };
+};
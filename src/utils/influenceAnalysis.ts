@@ -341,22 +341,21 @@ export const findPowerCenters = (
   const influences = characters.map(char =>
     calculateCharacterInfluence(char, characters)
   );
+  // Look allies up instead of recomputing their influence for every tie
+  const influenceByName = new Map(
+    influences.map(inf => [inf.character.name, inf.influenceScore])
+  );
 
   // Calculate power center score
   const powerCenters = influences.map(inf => {
     // Count how many of their allies are also influential
     const influentialAllies =
-      inf.character.relationships?.filter(rel => {
-        const allyChar = characters.find(c => c.name === rel.characterName);
-        if (!allyChar) return false;
-
-        const allyInfluence = calculateCharacterInfluence(allyChar, characters);
-        return (
+      inf.character.relationships?.filter(
+        rel =>
           (rel.relationshipType === RelationshipStanding.Ally ||
             rel.relationshipType === RelationshipStanding.Friend) &&
-          allyInfluence.influenceScore > 10
-        );
-      }).length || 0;
+          (influenceByName.get(rel.characterName) ?? 0) > 10
+      ).length || 0;
 
     return {
       ...inf,
@@ -0,0 +1,351 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  InventoryDataset,
+  InventoryItem,
+  InventoryOwner,
+  InventoryOwnerType,
+} from '@models/types';
+import { StatModifiers } from '@models/gameData';
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+
+/**
+ * Inventory
+ *
+ * Items (loot, gear, currency) owned by a character or a faction. Every
+ * item keeps its ownership history, and handing part of a stack to someone
+ * else splits it into two items sharing that history. Transfers that should
+ * show on the timeline go through transferInventoryItem in
+ * characterStorage, which logs an event. Item stat modifiers are shown with
+ * the item but don't change derived stats.
+ */
+
+export interface NewInventoryItem {
+  name: string;
+  quantity: number;
+  notes?: string;
+  statModifiers?: StatModifiers;
+  owner: InventoryOwner;
+  date: string; // In-game date the owner got the item, YYYY-MM-DD
+}
+
+export type InventoryItemUpdates = Partial<
+  Pick<InventoryItem, 'name' | 'quantity' | 'notes' | 'statModifiers'>
+>;
+
+const INVENTORY_STORAGE_KEY = 'gameCharacterManager_inventory';
+
+type InventoryChangeListener = () => void;
+const listeners = new Set<InventoryChangeListener>();
+
+/**
+ * Subscribe to inventory updates. Returns an unsubscribe function.
+ */
+export const subscribeToInventoryChanges = (
+  listener: InventoryChangeListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const loadInventory = async (): Promise<InventoryItem[]> => {
+  const dataset = await SafeAsyncStorageJSONParser.getItem<InventoryDataset>(
+    getCampaignStorageKey(INVENTORY_STORAGE_KEY)
+  );
+  return dataset?.items ?? [];
+};
+
+const saveInventory = async (items: InventoryItem[]): Promise<void> => {
+  const dataset: InventoryDataset = {
+    items,
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  };
+  const key = getCampaignStorageKey(INVENTORY_STORAGE_KEY);
+  if (!(await SafeAsyncStorageJSONParser.setItem(key, dataset))) {
+    throw new StorageWriteError(key);
+  }
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * The items a character or faction owns, by name
+ */
+export const loadInventoryFor = async (
+  ownerType: InventoryOwnerType,
+  ownerId: string
+): Promise<InventoryItem[]> =>
+  (await loadInventory())
+    .filter(item => item.owner.type === ownerType && item.owner.id === ownerId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const isDateString = (date: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date);
+
+const isQuantity = (quantity: number): boolean =>
+  Number.isInteger(quantity) && quantity > 0;
+
+/**
+ * Add an item to an owner's inventory. Returns null for a missing name,
+ * a quantity that isn't a positive whole number or an invalid date.
+ */
+export const addInventoryItem = async (
+  newItem: NewInventoryItem
+): Promise<InventoryItem | null> => {
+  const name = newItem.name.trim();
+  if (!name || !isQuantity(newItem.quantity) || !isDateString(newItem.date)) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const item: InventoryItem = {
+    id: uuidv4(),
+    name,
+    quantity: newItem.quantity,
+    ...(newItem.notes?.trim() && { notes: newItem.notes.trim() }),
+    ...(newItem.statModifiers && { statModifiers: newItem.statModifiers }),
+    owner: newItem.owner,
+    history: [
+      { owner: newItem.owner, date: newItem.date, quantity: newItem.quantity },
+    ],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveInventory([...(await loadInventory()), item]);
+  return item;
+};
+
+/**
+ * Edit an item. Setting the quantity to 0 removes the item.
+ */
+export const updateInventoryItem = async (
+  id: string,
+  updates: InventoryItemUpdates
+): Promise<InventoryItem | null> => {
+  const items = await loadInventory();
+  const existing = items.find(item => item.id === id);
+  if (!existing) return null;
+  if (updates.name !== undefined && !updates.name.trim()) return null;
+  if (
+    updates.quantity !== undefined &&
+    !(updates.quantity === 0 || isQuantity(updates.quantity))
+  ) {
+    return null;
+  }
+
+  if (updates.quantity === 0) {
+    await saveInventory(items.filter(item => item.id !== id));
+    return null;
+  }
+
+  const updated: InventoryItem = {
+    ...existing,
+    ...updates,
+    name: (updates.name ?? existing.name).trim(),
+    updatedAt: new Date().toISOString(),
+  };
+  await saveInventory(items.map(item => (item.id === id ? updated : item)));
+  return updated;
+};
+
+export const deleteInventoryItem = async (id: string): Promise<boolean> => {
+  const items = await loadInventory();
+  if (!items.some(item => item.id === id)) return false;
+  await saveInventory(items.filter(item => item.id !== id));
+  return true;
+};
+
+/**
+ * Use up units of an owner's items by name, e.g. crafting materials. Older
+ * stacks are used first and stacks that run out are removed. Returns false,
+ * changing nothing, if the owner doesn't hold enough of every item.
+ */
+export const consumeInventoryItems = async (
+  ownerType: InventoryOwnerType,
+  ownerId: string,
+  quantities: Record<string, number>
+): Promise<boolean> => {
+  const items = await loadInventory();
+  const owned = items
+    .filter(item => item.owner.type === ownerType && item.owner.id === ownerId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const remaining = new Map(owned.map(item => [item.id, item.quantity]));
+
+  for (const [name, quantity] of Object.entries(quantities)) {
+    let needed = quantity;
+    owned
+      .filter(item => item.name === name)
+      .forEach(item => {
+        const available = remaining.get(item.id) ?? 0;
+        const used = Math.min(needed, available);
+        remaining.set(item.id, available - used);
+        needed -= used;
+      });
+    if (needed > 0) return false;
+  }
+
+  const now = new Date().toISOString();
+  await saveInventory(
+    items
+      .filter(item => remaining.get(item.id) !== 0)
+      .map(item => {
+        const quantity = remaining.get(item.id);
+        return quantity !== undefined && quantity !== item.quantity
+          ? { ...item, quantity, updatedAt: now }
+          : item;
+      })
+  );
+  return true;
+};
+
+/**
+ * Check a transfer before it is made. Returns a list of problems.
+ */
+export const validateInventoryTransfer = (
+  item: InventoryItem,
+  to: InventoryOwner,
+  quantity: number,
+  date: string
+): string[] => {
+  const errors: string[] = [];
+  if (item.owner.type === to.type && item.owner.id === to.id) {
+    errors.push(`${to.name} already owns ${item.name}.`);
+  }
+  if (!isQuantity(quantity) || quantity > item.quantity) {
+    errors.push(
+      `The quantity must be a whole number from 1 to ${item.quantity}.`
+    );
+  }
+  if (!isDateString(date)) {
+    errors.push('The date must be in YYYY-MM-DD format.');
+  }
+  const lastRecord = item.history[item.history.length - 1];
+  if (lastRecord && isDateString(date) && date < lastRecord.date) {
+    errors.push(
+      `${item.owner.name} only got ${item.name} on ${lastRecord.date}.`
+    );
+  }
+  return errors;
+};
+
+/**
+ * Move some or all of an item to a new owner, without logging an event.
+ * Returns the item the new owner holds, or null if the transfer is invalid.
+ */
+export const transferItem = async (
+  itemId: string,
+  to: InventoryOwner,
+  quantity: number,
+  date: string,
+  eventId?: string
+): Promise<InventoryItem | null> => {
+  const items = await loadInventory();
+  const item = items.find(i => i.id === itemId);
+  if (!item || validateInventoryTransfer(item, to, quantity, date).length > 0) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const history = [
+    ...item.history,
+    { owner: to, date, quantity, ...(eventId && { eventId }) },
+  ];
+
+  if (quantity === item.quantity) {
+    const moved: InventoryItem = {
+      ...item,
+      owner: to,
+      history,
+      updatedAt: now,
+    };
+    await saveInventory(items.map(i => (i.id === itemId ? moved : i)));
+    return moved;
+  }
+
+  // Part of a stack: the rest stays with the current owner
+  const split: InventoryItem = {
+    ...item,
+    id: uuidv4(),
+    quantity,
+    owner: to,
+    history,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveInventory([
+    ...items.map(i =>
+      i.id === itemId
+        ? { ...i, quantity: i.quantity - quantity, updatedAt: now }
+        : i
+    ),
+    split,
+  ]);
+  return split;
+};
+
+/**
+ * Remove everything a character or faction owns, e.g. when it's deleted.
+ * Returns the removed items.
+ */
+export const removeInventoryFor = async (
+  ownerType: InventoryOwnerType,
+  ownerId: string
+): Promise<InventoryItem[]> => {
+  const items = await loadInventory();
+  const isOwned = (item: InventoryItem) =>
+    item.owner.type === ownerType && item.owner.id === ownerId;
+  const removed = items.filter(isOwned);
+
+  if (removed.length > 0) {
+    await saveInventory(items.filter(item => !isOwned(item)));
+  }
+  return removed;
+};
+
+/**
+ * Delete every item
+ */
+export const clearInventory = async (): Promise<void> => {
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(INVENTORY_STORAGE_KEY)
+  );
+  listeners.forEach(listener => listener());
+};
+
+export const exportInventoryDataset = async (): Promise<InventoryDataset> => ({
+  items: await loadInventory(),
+  version: '1.0',
+  lastUpdated: new Date().toISOString(),
+});
+
+/**
+ * Import inventory from an export. In merge mode items are matched by ID
+ * and the most recently updated copy wins; otherwise the import replaces
+ * the inventory.
+ */
+export const importInventoryDataset = async (
+  dataset: InventoryDataset,
+  merge: boolean = true
+): Promise<void> => {
+  const imported = Array.isArray(dataset.items) ? dataset.items : [];
+  if (!merge) {
+    await saveInventory(imported);
+    return;
+  }
+
+  const itemMap = new Map<string, InventoryItem>();
+  (await loadInventory()).forEach(item => itemMap.set(item.id, item));
+  imported.forEach(item => {
+    const current = itemMap.get(item.id);
+    if (!current || item.updatedAt > current.updatedAt) {
+      itemMap.set(item.id, item);
+    }
+  });
+  await saveInventory(Array.from(itemMap.values()));
+};
@@ -0,0 +1,394 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameCharacter } from '@models/types';
+import { RulesPack } from '@models/gameData';
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+import { getActiveRulesPack } from './rulesPackStorage';
+import { calculateDerivedStats } from './derivedStats';
+
+/**
+ * Live character state
+ *
+ * Tracks what happens to characters during a session: current health and
+ * limit, and active injuries and malfunctions with their durations. Nothing
+ * is stored for a character until something happens to it, so everyone
+ * starts at full health and limit. Durations run on the real clock and are
+ * scaled by the character's distinctions (e.g. Brittle doubles them). The
+ * state is per campaign.
+ */
+
+export type ConditionType = 'injury' | 'malfunction';
+
+export interface ActiveCondition {
+  id: string;
+  type: ConditionType;
+  name: string;
+  durationMinutes: number; // After distinction multipliers
+  startedAt: string;
+  endsAt: string;
+}
+
+export interface CharacterLiveState {
+  characterId: string;
+  health: number;
+  limit: number;
+  maxHealth: number;
+  maxLimit: number;
+  conditions: ActiveCondition[];
+  updatedAt: string;
+}
+
+export interface ConditionResult {
+  state: CharacterLiveState | null; // Null when there are errors
+  errors: string[];
+}
+
+// Only what changes is stored; the maxima come from the character's build
+export type StoredLiveState = Omit<
+  CharacterLiveState,
+  'maxHealth' | 'maxLimit'
+>;
+
+export interface LiveStateDataset {
+  states: StoredLiveState[];
+  version: string;
+  lastUpdated: string;
+}
+
+const LIVE_STATE_STORAGE_KEY = 'gameCharacterManager_liveState';
+const MINUTE_MS = 60 * 1000;
+
+type LiveStateChangeListener = () => void;
+const listeners = new Set<LiveStateChangeListener>();
+
+/**
+ * Subscribe to live state updates. Returns an unsubscribe function.
+ */
+export const subscribeToLiveStateChanges = (
+  listener: LiveStateChangeListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const loadStoredStates = async (): Promise<StoredLiveState[]> => {
+  const dataset = await SafeAsyncStorageJSONParser.getItem<LiveStateDataset>(
+    getCampaignStorageKey(LIVE_STATE_STORAGE_KEY)
+  );
+  return dataset?.states ?? [];
+};
+
+const saveStoredStates = async (states: StoredLiveState[]): Promise<void> => {
+  const dataset: LiveStateDataset = {
+    states,
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  };
+  const key = getCampaignStorageKey(LIVE_STATE_STORAGE_KEY);
+  if (!(await SafeAsyncStorageJSONParser.setItem(key, dataset))) {
+    throw new StorageWriteError(key);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const getMaxima = (
+  character: GameCharacter,
+  rulesPack: RulesPack
+): { maxHealth: number; maxLimit: number } => {
+  if (!rulesPack.species[character.species]) {
+    return { maxHealth: 0, maxLimit: 0 };
+  }
+  const { maxHealth, maxLimit } = calculateDerivedStats(character, rulesPack);
+  return { maxHealth, maxLimit };
+};
+
+const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+
+/**
+ * Combine a character's stored state with its current maxima. Characters
+ * without a stored state are at full health and limit.
+ */
+export const resolveLiveState = (
+  character: GameCharacter,
+  stored: StoredLiveState | undefined,
+  rulesPack: RulesPack = getActiveRulesPack()
+): CharacterLiveState => {
+  const { maxHealth, maxLimit } = getMaxima(character, rulesPack);
+  return {
+    characterId: character.id,
+    conditions: [],
+    updatedAt: '',
+    ...stored,
+    // The build may have changed since the state was stored
+    health: clamp(stored?.health ?? maxHealth, maxHealth),
+    limit: clamp(stored?.limit ?? maxLimit, maxLimit),
+    maxHealth,
+    maxLimit,
+  };
+};
+
+/**
+ * Load the live state of each of the given characters, in the same order
+ */
+export const loadLiveStates = async (
+  characters: GameCharacter[],
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<CharacterLiveState[]> => {
+  const stored = await loadStoredStates();
+  return characters.map(character =>
+    resolveLiveState(
+      character,
+      stored.find(state => state.characterId === character.id),
+      rulesPack
+    )
+  );
+};
+
+const updateLiveState = async (
+  character: GameCharacter,
+  rulesPack: RulesPack,
+  update: (state: CharacterLiveState) => CharacterLiveState
+): Promise<CharacterLiveState> => {
+  const stored = await loadStoredStates();
+  const current = resolveLiveState(
+    character,
+    stored.find(state => state.characterId === character.id),
+    rulesPack
+  );
+  const updated = update(current);
+  const next: CharacterLiveState = {
+    ...updated,
+    health: clamp(updated.health, updated.maxHealth),
+    limit: clamp(updated.limit, updated.maxLimit),
+    updatedAt: new Date().toISOString(),
+  };
+
+  await saveStoredStates([
+    ...stored.filter(state => state.characterId !== character.id),
+    {
+      characterId: next.characterId,
+      health: next.health,
+      limit: next.limit,
+      conditions: next.conditions,
+      updatedAt: next.updatedAt,
+    },
+  ]);
+  return next;
+};
+
+/**
+ * Change current health by a number of flags, within 0 and the maximum
+ */
+export const adjustHealth = (
+  character: GameCharacter,
+  delta: number,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<CharacterLiveState> =>
+  updateLiveState(character, rulesPack, state => ({
+    ...state,
+    health: state.health + delta,
+  }));
+
+/**
+ * Change current limit by a number of flags, within 0 and the maximum
+ */
+export const adjustLimit = (
+  character: GameCharacter,
+  delta: number,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<CharacterLiveState> =>
+  updateLiveState(character, rulesPack, state => ({
+    ...state,
+    limit: state.limit + delta,
+  }));
+
+/**
+ * Combined duration multiplier of a character's distinctions
+ */
+export const getConditionDurationMultiplier = (
+  character: GameCharacter,
+  rulesPack: RulesPack = getActiveRulesPack()
+): number =>
+  rulesPack.distinctions
+    .filter(distinction => character.distinctionIds.includes(distinction.id))
+    .reduce(
+      (multiplier, distinction) =>
+        multiplier * (distinction.conditionDurationMultiplier ?? 1),
+      1
+    );
+
+/**
+ * Give a character an injury or malfunction lasting the given number of
+ * minutes, before distinctions are applied
+ */
+export const addCondition = async (
+  character: GameCharacter,
+  type: ConditionType,
+  name: string,
+  durationMinutes: number,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<ConditionResult> => {
+  const errors: string[] = [];
+  const speciesStats = rulesPack.species[character.species];
+  const label = type === 'injury' ? 'injuries' : 'malfunctions';
+
+  if (
+    speciesStats &&
+    !(type === 'injury'
+      ? speciesStats.canTakeInjuries
+      : speciesStats.canTakeMalfunctions)
+  ) {
+    errors.push(`${character.species} characters can't take ${label}.`);
+  }
+  if (!name.trim()) {
+    errors.push('A name is required.');
+  }
+  if (!(durationMinutes > 0)) {
+    errors.push('The duration must be more than 0 minutes.');
+  }
+  if (errors.length > 0) return { state: null, errors };
+
+  const scaledMinutes =
+    durationMinutes * getConditionDurationMultiplier(character, rulesPack);
+  const now = Date.now();
+  const condition: ActiveCondition = {
+    id: uuidv4(),
+    type,
+    name: name.trim(),
+    durationMinutes: scaledMinutes,
+    startedAt: new Date(now).toISOString(),
+    endsAt: new Date(now + scaledMinutes * MINUTE_MS).toISOString(),
+  };
+
+  const state = await updateLiveState(character, rulesPack, current => ({
+    ...current,
+    conditions: [...current.conditions, condition],
+  }));
+  return { state, errors: [] };
+};
+
+/**
+ * End an injury or malfunction early, e.g. after surgery or repair
+ */
+export const removeCondition = (
+  character: GameCharacter,
+  conditionId: string,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<CharacterLiveState> =>
+  updateLiveState(character, rulesPack, state => ({
+    ...state,
+    conditions: state.conditions.filter(c => c.id !== conditionId),
+  }));
+
+/**
+ * Minutes left on a condition, rounded up; 0 once it has run out
+ */
+export const getRemainingMinutes = (
+  condition: ActiveCondition,
+  now: number = Date.now()
+): number =>
+  Math.max(0, Math.ceil((Date.parse(condition.endsAt) - now) / MINUTE_MS));
+
+/**
+ * Rest: recover all limit flags and clear conditions that have run out
+ */
+export const restCharacter = (
+  character: GameCharacter,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<CharacterLiveState> => {
+  const now = Date.now();
+  return updateLiveState(character, rulesPack, state => ({
+    ...state,
+    limit: state.maxLimit,
+    conditions: state.conditions.filter(
+      condition => getRemainingMinutes(condition, now) > 0
+    ),
+  }));
+};
+
+/**
+ * Full recovery: back to full health and limit without any conditions
+ */
+export const recoverCharacter = (
+  character: GameCharacter,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<CharacterLiveState> =>
+  updateLiveState(character, rulesPack, state => ({
+    ...state,
+    health: state.maxHealth,
+    limit: state.maxLimit,
+    conditions: [],
+  }));
+
+export const exportLiveStateDataset = async (): Promise<LiveStateDataset> => ({
+  states: await loadStoredStates(),
+  version: '1.0',
+  lastUpdated: new Date().toISOString(),
+});
+
+/**
+ * Import live state from an export. In merge mode the most recently updated
+ * state of each character wins; otherwise the import replaces the state.
+ */
+export const importLiveStateDataset = async (
+  dataset: LiveStateDataset,
+  merge: boolean = true
+): Promise<void> => {
+  const imported = Array.isArray(dataset.states) ? dataset.states : [];
+  if (!merge) {
+    await saveStoredStates(imported);
+    return;
+  }
+
+  const stateMap = new Map<string, StoredLiveState>();
+  (await loadStoredStates()).forEach(state =>
+    stateMap.set(state.characterId, state)
+  );
+  imported.forEach(state => {
+    const current = stateMap.get(state.characterId);
+    if (!current || state.updatedAt > current.updatedAt) {
+      stateMap.set(state.characterId, state);
+    }
+  });
+  await saveStoredStates(Array.from(stateMap.values()));
+};
+
+/**
+ * Remove a character's live state, e.g. when the character is deleted.
+ * Returns the removed state, if there was one.
+ */
+export const removeLiveState = async (
+  characterId: string
+): Promise<StoredLiveState[]> => {
+  const states = await loadStoredStates();
+  const removed = states.filter(state => state.characterId === characterId);
+
+  if (removed.length > 0) {
+    await saveStoredStates(
+      states.filter(state => state.characterId !== characterId)
+    );
+  }
+  return removed;
+};
+
+/**
+ * Delete every character's live state
+ */
+export const clearLiveStates = async (): Promise<void> => {
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(LIVE_STATE_STORAGE_KEY)
+  );
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Start a new session with every character fully recovered
+ */
+export const startNewSession = async (): Promise<void> => {
+  await clearLiveStates();
+};
@@ -0,0 +1,289 @@
+import { GameCharacter, GameEvent, GameLocation } from '@models/types';
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+import {
+  JournalEntity,
+  JournalEntityType,
+  getEntityName,
+} from './changeJournal';
+import type { StoredFaction } from './characterStorage';
+
+/**
+ * Three-way merge review
+ *
+ * Merging an imported dataset compares every entity that exists on both
+ * sides field by field. When the common ancestor is known (the dataset as
+ * it was at the last export, import or merge), a field changed on only one
+ * side is taken from that side; fields changed on both sides to different
+ * values are conflicts the user resolves in the merge review screen.
+ * Without an ancestor, a field that is empty on one side is filled from the
+ * other and every other difference is a conflict. Nothing is written until
+ * all conflicts are resolved (see commitMergeReview in characterStorage).
+ */
+
+export interface MergeCollections {
+  characters: GameCharacter[];
+  factions: StoredFaction[];
+  locations: GameLocation[];
+  events: GameEvent[];
+}
+
+export interface EntityMergeReview {
+  entityType: JournalEntityType;
+  entityId: string; // ID of the existing entity
+  entityName: string;
+  existing: JournalEntity;
+  imported: JournalEntity;
+  ancestor: JournalEntity | null;
+  merged: JournalEntity; // Auto-merged values; conflicting fields keep existing
+  conflicts: string[]; // Fields that need a decision
+}
+
+export interface MergeReview {
+  entities: EntityMergeReview[]; // Entities that differ on both sides
+  added: { entityType: JournalEntityType; entity: JournalEntity }[];
+  importedPayload: string; // Becomes the ancestor of the next merge
+}
+
+export interface FieldConflict {
+  key: string;
+  entityType: JournalEntityType;
+  entityId: string;
+  entityName: string;
+  field: string;
+  existing: unknown;
+  imported: unknown;
+  ancestor: unknown;
+  hasAncestor: boolean;
+}
+
+// Conflict key -> chosen value
+export type MergeResolutions = Record<string, unknown>;
+
+const MERGE_BASE_STORAGE_KEY = 'gameCharacterManager_merge_base';
+
+// Bookkeeping fields that never conflict
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+// Not kept in the merge base
+const IMAGE_FIELDS = new Set(['imageUri', 'imageUris']);
+
+const COLLECTION_TYPES: [keyof MergeCollections, JournalEntityType][] = [
+  ['characters', 'character'],
+  ['factions', 'faction'],
+  ['locations', 'location'],
+  ['events', 'event'],
+];
+
+/**
+ * Remember the dataset both sides agree on, to be used as the common
+ * ancestor of the next merge. Image payloads are left out, so images are
+ * merged as if there were no ancestor.
+ */
+export const saveMergeBase = async (payload: string): Promise<void> => {
+  const dataset = JSON.parse(payload);
+  const base = Object.fromEntries(
+    COLLECTION_TYPES.map(([collection]) => [
+      collection,
+      ((dataset[collection] ?? []) as Record<string, unknown>[]).map(entity =>
+        Object.fromEntries(
+          Object.entries(entity).filter(([field]) => !IMAGE_FIELDS.has(field))
+        )
+      ),
+    ])
+  );
+
+  const key = getCampaignStorageKey(MERGE_BASE_STORAGE_KEY);
+  if (!(await SafeAsyncStorageJSONParser.setItem(key, JSON.stringify(base)))) {
+    throw new StorageWriteError(key);
+  }
+};
+
+export const loadMergeBase = async (): Promise<MergeCollections | null> => {
+  const payload = await SafeAsyncStorageJSONParser.getItem<string>(
+    getCampaignStorageKey(MERGE_BASE_STORAGE_KEY)
+  );
+  if (!payload) return null;
+
+  const dataset = JSON.parse(payload);
+  return {
+    characters: dataset.characters ?? [],
+    factions: dataset.factions ?? [],
+    locations: dataset.locations ?? [],
+    events: dataset.events ?? [],
+  };
+};
+
+const getConflictKey = (
+  entityType: JournalEntityType,
+  entityId: string,
+  field: string
+): string => `${entityType}:${entityId}:${field}`;
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Merge two versions of an entity field by field. Returns the merged entity
+ * (conflicting fields keep the existing value) and the conflicting fields.
+ */
+export const mergeEntityFields = <T extends JournalEntity>(
+  existing: T,
+  imported: T,
+  ancestor: T | null
+): { merged: T; conflicts: string[] } => {
+  const existingFields = existing as unknown as Record<string, unknown>;
+  const importedFields = imported as unknown as Record<string, unknown>;
+  const ancestorFields = ancestor as unknown as Record<string, unknown> | null;
+
+  const merged: Record<string, unknown> = { ...existingFields };
+  const conflicts: string[] = [];
+  const fields = new Set([
+    ...Object.keys(existingFields),
+    ...Object.keys(importedFields),
+  ]);
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+
+    const ours = existingFields[field];
+    const theirs = importedFields[field];
+    if (isSameValue(ours, theirs)) return;
+
+    if (ancestorFields && !IMAGE_FIELDS.has(field)) {
+      const base = ancestorFields[field];
+      if (isSameValue(base, ours)) {
+        merged[field] = theirs;
+      } else if (!isSameValue(base, theirs)) {
+        conflicts.push(field);
+      }
+      return;
+    }
+
+    if (isEmptyValue(ours)) {
+      merged[field] = theirs;
+    } else if (!isEmptyValue(theirs)) {
+      conflicts.push(field);
+    }
+  });
+
+  if (imported.updatedAt > existing.updatedAt) {
+    merged.updatedAt = imported.updatedAt;
+  }
+
+  return { merged: merged as unknown as T, conflicts };
+};
+
+// Factions created separately on two devices are matched by name
+const findMatch = (
+  entities: JournalEntity[],
+  entity: JournalEntity,
+  entityType: JournalEntityType
+): JournalEntity | null =>
+  entities.find(e => e.id === entity.id) ??
+  (entityType === 'faction'
+    ? entities.find(e => getEntityName(e) === getEntityName(entity))
+    : undefined) ??
+  null;
+
+/**
+ * Compare the current data with an imported dataset
+ */
+export const buildMergeReview = (
+  current: MergeCollections,
+  imported: MergeCollections,
+  base: MergeCollections | null,
+  importedPayload: string
+): MergeReview => {
+  const review: MergeReview = { entities: [], added: [], importedPayload };
+
+  COLLECTION_TYPES.forEach(([collection, entityType]) => {
+    const currentEntities = current[collection] as JournalEntity[];
+    const baseEntities = (base?.[collection] ?? []) as JournalEntity[];
+
+    (imported[collection] as JournalEntity[]).forEach(importedEntity => {
+      const existing = findMatch(currentEntities, importedEntity, entityType);
+      if (!existing) {
+        review.added.push({ entityType, entity: importedEntity });
+        return;
+      }
+
+      const ancestor = base
+        ? findMatch(baseEntities, existing, entityType)
+        : null;
+      const { merged, conflicts } = mergeEntityFields(
+        existing,
+        { ...importedEntity, id: existing.id },
+        ancestor
+      );
+      if (isSameValue(merged, existing) && conflicts.length === 0) return;
+
+      review.entities.push({
+        entityType,
+        entityId: existing.id,
+        entityName: getEntityName(existing),
+        existing,
+        imported: importedEntity,
+        ancestor,
+        merged,
+        conflicts,
+      });
+    });
+  });
+
+  return review;
+};
+
+/**
+ * List every conflicting field of a review, in review order
+ */
+export const listFieldConflicts = (review: MergeReview): FieldConflict[] =>
+  review.entities.flatMap(entity =>
+    entity.conflicts.map(field => ({
+      key: getConflictKey(entity.entityType, entity.entityId, field),
+      entityType: entity.entityType,
+      entityId: entity.entityId,
+      entityName: entity.entityName,
+      field,
+      existing: (entity.existing as unknown as Record<string, unknown>)[field],
+      imported: (entity.imported as unknown as Record<string, unknown>)[field],
+      ancestor: entity.ancestor
+        ? (entity.ancestor as unknown as Record<string, unknown>)[field]
+        : undefined,
+      hasAncestor: !!entity.ancestor,
+    }))
+  );
+
+export const getUnresolvedConflicts = (
+  review: MergeReview,
+  resolutions: MergeResolutions
+): FieldConflict[] =>
+  listFieldConflicts(review).filter(conflict => !(conflict.key in resolutions));
+
+/**
+ * Apply the chosen values to the auto-merged entities. Returns one merged
+ * entity per reviewed entity.
+ */
+export const applyMergeResolutions = (
+  review: MergeReview,
+  resolutions: MergeResolutions
+): EntityMergeReview[] =>
+  review.entities.map(entity => {
+    const merged = { ...entity.merged } as unknown as Record<string, unknown>;
+    entity.conflicts.forEach(field => {
+      const key = getConflictKey(entity.entityType, entity.entityId, field);
+      if (key in resolutions) {
+        merged[field] = resolutions[key];
+      }
+    });
+    return { ...entity, merged: merged as unknown as JournalEntity };
+  });
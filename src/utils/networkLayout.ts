@@ -0,0 +1,182 @@
+import {
+  GraphEdge,
+  GraphNode,
+  RelationshipGraph,
+  getNeighbours,
+} from './relationshipGraph';
+
+/**
+ * Network layout
+ *
+ * Narrows the relationship graph down to what the GM wants to look at and
+ * places its nodes for the network diagram. The layout is a
+ * Fruchterman–Reingold force simulation from a fixed starting circle, so
+ * the same graph always lands in the same place.
+ */
+
+export interface NetworkFilter {
+  factionName?: string; // Only members of this faction
+  presentOnly: boolean;
+  includeRetired: boolean; // Retired characters and retired factions
+  focusNodeId?: string; // Ego network around this node
+  egoDepth: number; // Hops from the focus node
+}
+
+export const DEFAULT_NETWORK_FILTER: NetworkFilter = {
+  presentOnly: false,
+  includeRetired: false,
+  egoDepth: 1,
+};
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+const LAYOUT_ITERATIONS = 200;
+const LAYOUT_MARGIN = 24;
+
+const toSubgraph = (
+  graph: RelationshipGraph,
+  keep: Set<string>
+): RelationshipGraph => {
+  const nodes = new Map<string, GraphNode>();
+  const neighbours = new Map<string, Set<string>>();
+  graph.nodes.forEach((node, id) => {
+    if (!keep.has(id)) return;
+    nodes.set(id, node);
+    neighbours.set(
+      id,
+      new Set(Array.from(getNeighbours(graph, id)).filter(n => keep.has(n)))
+    );
+  });
+  const edges: GraphEdge[] = graph.edges.filter(
+    edge => keep.has(edge.from) && keep.has(edge.to)
+  );
+  return { nodes, edges, neighbours };
+};
+
+/**
+ * Apply the diagram filters. Factions stay when at least one of the
+ * remaining characters belongs to them. In ego mode only the nodes within
+ * egoDepth hops of the focus node are left; the focus node itself is never
+ * filtered out.
+ */
+export const filterRelationshipGraph = (
+  graph: RelationshipGraph,
+  filter: NetworkFilter,
+  retiredFactionNames: Set<string> = new Set()
+): RelationshipGraph => {
+  const keepCharacter = (node: GraphNode): boolean => {
+    if (node.id === filter.focusNodeId) return true;
+    const character = node.character;
+    if (!character) return false;
+    if (character.retired && !filter.includeRetired) return false;
+    if (filter.presentOnly && !character.present) return false;
+    return (
+      !filter.factionName ||
+      character.factions.some(f => f.name === filter.factionName)
+    );
+  };
+
+  const characterIds = new Set(
+    Array.from(graph.nodes.values())
+      .filter(node => node.kind === 'character' && keepCharacter(node))
+      .map(node => node.id)
+  );
+  const keep = new Set(characterIds);
+  graph.nodes.forEach(node => {
+    if (node.kind !== 'faction') return;
+    if (!filter.includeRetired && retiredFactionNames.has(node.label)) return;
+    const hasMember = Array.from(getNeighbours(graph, node.id)).some(id =>
+      characterIds.has(id)
+    );
+    if (hasMember || node.id === filter.focusNodeId) keep.add(node.id);
+  });
+  const filtered = toSubgraph(graph, keep);
+
+  if (!filter.focusNodeId || !filtered.nodes.has(filter.focusNodeId)) {
+    return filtered;
+  }
+  const reached = new Set([filter.focusNodeId]);
+  let frontier = [filter.focusNodeId];
+  for (let hop = 0; hop < filter.egoDepth; hop++) {
+    frontier = frontier.flatMap(id =>
+      Array.from(getNeighbours(filtered, id)).filter(next => {
+        if (reached.has(next)) return false;
+        reached.add(next);
+        return true;
+      })
+    );
+  }
+  return toSubgraph(filtered, reached);
+};
+
+/**
+ * Place the nodes inside a width × height canvas. The focus node, when
+ * given, is pinned to the centre.
+ */
+export const layoutRelationshipGraph = (
+  graph: RelationshipGraph,
+  width: number,
+  height: number,
+  focusNodeId?: string
+): Map<string, NodePosition> => {
+  const ids = Array.from(graph.nodes.keys());
+  const centre = { x: width / 2, y: height / 2 };
+  if (ids.length === 0) return new Map();
+
+  const radius = Math.min(width, height) / 3;
+  const positions: NodePosition[] = ids.map((id, index) => {
+    const angle = (2 * Math.PI * index) / ids.length;
+    return id === focusNodeId || ids.length === 1
+      ? { ...centre }
+      : {
+          x: centre.x + radius * Math.cos(angle),
+          y: centre.y + radius * Math.sin(angle),
+        };
+  });
+  const tied = ids.map(a => ids.map(b => getNeighbours(graph, a).has(b)));
+
+  const k = Math.sqrt((width * height) / ids.length) * 0.8;
+  const startTemperature = width / 10;
+  for (let i = 0; i < LAYOUT_ITERATIONS; i++) {
+    const temperature = startTemperature * (1 - i / LAYOUT_ITERATIONS);
+    const displacement = ids.map(() => ({ x: 0, y: 0 }));
+    const push = (a: number, b: number, force: (d: number) => number) => {
+      const dx = positions[a].x - positions[b].x;
+      const dy = positions[a].y - positions[b].y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const f = force(distance) / distance;
+      displacement[a].x += dx * f;
+      displacement[a].y += dy * f;
+      displacement[b].x -= dx * f;
+      displacement[b].y -= dy * f;
+    };
+
+    for (let a = 0; a < ids.length; a++) {
+      for (let b = a + 1; b < ids.length; b++) {
+        // Every pair repels; tied pairs also attract
+        push(a, b, d => (k * k) / d);
+        if (tied[a][b]) push(a, b, d => -(d * d) / k);
+      }
+    }
+
+    positions.forEach((position, index) => {
+      if (ids[index] === focusNodeId) return;
+      const { x, y } = displacement[index];
+      const length = Math.max(Math.sqrt(x * x + y * y), 0.01);
+      const step = Math.min(length, temperature);
+      position.x = Math.min(
+        width - LAYOUT_MARGIN,
+        Math.max(LAYOUT_MARGIN, position.x + (x / length) * step)
+      );
+      position.y = Math.min(
+        height - LAYOUT_MARGIN,
+        Math.max(LAYOUT_MARGIN, position.y + (y / length) * step)
+      );
+    });
+  }
+
+  return new Map(ids.map((id, index) => [id, positions[index]]));
+};
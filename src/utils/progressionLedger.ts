@@ -0,0 +1,452 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameCharacter } from '@models/types';
+import { Perk, RulesPack } from '@models/gameData';
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+import { getActiveRulesPack } from './rulesPackStorage';
+import { updateCharacter } from './characterStorage';
+
+/**
+ * Progression ledger
+ *
+ * Records how characters develop: XP earned (usually at an event) and perks
+ * purchased or refunded, each on an in-game date (YYYY-MM-DD, like
+ * GameEvent.date). Together with the character's current perks the ledger
+ * reconstructs the build at any past date. Perks a character has without a
+ * purchase entry predate the ledger and count as owned from the start.
+ * Purchases and refunds are checked against the rules pack and the XP
+ * available before they are recorded. The ledger is per campaign.
+ */
+
+export type ProgressionEntryType = 'xp' | 'perk-purchase' | 'perk-refund';
+
+export interface ProgressionEntry {
+  id: string;
+  characterId: string;
+  type: ProgressionEntryType;
+  date: string; // In-game date, YYYY-MM-DD
+  xp: number; // Change to the XP balance; purchases are negative
+  perkId?: string; // Set on purchases and refunds
+  eventId?: string; // Reference to GameEvent.id the XP was earned at
+  note?: string;
+  createdAt: string;
+}
+
+export interface CharacterBuildAtDate {
+  perkIds: string[];
+  xpEarned: number;
+  xpSpent: number; // Net of refunds
+  xpBalance: number;
+}
+
+export interface ProgressionResult {
+  entry: ProgressionEntry | null; // Null when there are errors
+  character: GameCharacter | null; // The updated character
+  errors: string[];
+}
+
+export interface ProgressionDataset {
+  entries: ProgressionEntry[];
+  version: string;
+  lastUpdated: string;
+}
+
+const PROGRESSION_STORAGE_KEY = 'gameCharacterManager_progression';
+
+type ProgressionChangeListener = () => void;
+const listeners = new Set<ProgressionChangeListener>();
+
+/**
+ * Subscribe to ledger updates. Returns an unsubscribe function.
+ */
+export const subscribeToProgressionChanges = (
+  listener: ProgressionChangeListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const loadLedger = async (): Promise<ProgressionEntry[]> => {
+  const dataset = await SafeAsyncStorageJSONParser.getItem<ProgressionDataset>(
+    getCampaignStorageKey(PROGRESSION_STORAGE_KEY)
+  );
+  return dataset?.entries ?? [];
+};
+
+const saveLedger = async (entries: ProgressionEntry[]): Promise<void> => {
+  const dataset: ProgressionDataset = {
+    entries,
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  };
+  const key = getCampaignStorageKey(PROGRESSION_STORAGE_KEY);
+  if (!(await SafeAsyncStorageJSONParser.setItem(key, dataset))) {
+    throw new StorageWriteError(key);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Oldest first; entries on the same date keep the order they were recorded in
+const sortEntries = (entries: ProgressionEntry[]): ProgressionEntry[] =>
+  [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+const isDateString = (date: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date);
+
+/**
+ * Load a character's ledger, oldest first
+ */
+export const loadProgression = async (
+  characterId: string
+): Promise<ProgressionEntry[]> => {
+  const entries = await loadLedger();
+  return sortEntries(entries.filter(e => e.characterId === characterId));
+};
+
+/**
+ * XP cost of a perk under a rules pack
+ */
+export const getPerkCost = (perk: Perk, rulesPack: RulesPack): number =>
+  perk.cost ?? rulesPack.progression?.perkCost ?? 0;
+
+/**
+ * Reconstruct a character's perks and XP as of the end of a date, by
+ * undoing every purchase and refund recorded after it
+ */
+export const getBuildAtDate = (
+  character: Pick<GameCharacter, 'id' | 'perkIds'>,
+  entries: ProgressionEntry[],
+  date: string
+): CharacterBuildAtDate => {
+  const ownEntries = sortEntries(
+    entries.filter(e => e.characterId === character.id)
+  );
+  const perkIds = new Set(character.perkIds);
+
+  [...ownEntries]
+    .reverse()
+    .filter(entry => entry.date > date)
+    .forEach(({ type, perkId }) => {
+      if (!perkId) return;
+      if (type === 'perk-purchase') perkIds.delete(perkId);
+      if (type === 'perk-refund') perkIds.add(perkId);
+    });
+
+  const pastEntries = ownEntries.filter(entry => entry.date <= date);
+  const xpEarned = pastEntries
+    .filter(entry => entry.type === 'xp')
+    .reduce((sum, entry) => sum + entry.xp, 0);
+  const xpBalance = pastEntries.reduce((sum, entry) => sum + entry.xp, 0);
+
+  return {
+    // Keep the character's own perk order, with refunded perks at the end
+    perkIds: [
+      ...character.perkIds.filter(id => perkIds.has(id)),
+      ...Array.from(perkIds).filter(id => !character.perkIds.includes(id)),
+    ],
+    xpEarned,
+    xpSpent: xpEarned - xpBalance,
+    xpBalance,
+  };
+};
+
+// Perk checks shared by purchases and refunds
+const validatePerkChange = (
+  character: GameCharacter,
+  entries: ProgressionEntry[],
+  perkId: string,
+  date: string,
+  rulesPack: RulesPack
+): { perk: Perk | null; errors: string[] } => {
+  if (!isDateString(date)) {
+    return { perk: null, errors: ['The date must be in YYYY-MM-DD format.'] };
+  }
+
+  const perk = rulesPack.perks.find(p => p.id === perkId);
+  if (!perk) {
+    return {
+      perk: null,
+      errors: [
+        `Perk "${perkId}" is not defined in the ${rulesPack.name} rules pack.`,
+      ],
+    };
+  }
+
+  const errors: string[] = [];
+  // Reconstructing earlier builds relies on a perk's entries being in order
+  const laterEntry = entries.find(
+    e => e.characterId === character.id && e.perkId === perkId && e.date > date
+  );
+  if (laterEntry) {
+    errors.push(
+      `${perk.name} already has a ledger entry on ${laterEntry.date}. Changes to a perk must be recorded in date order.`
+    );
+  }
+  return { perk, errors };
+};
+
+/**
+ * Check whether a character can buy a perk on a date. Returns every reason
+ * it can't; an empty list means the purchase is allowed.
+ */
+export const validatePerkPurchase = (
+  character: GameCharacter,
+  entries: ProgressionEntry[],
+  perkId: string,
+  date: string,
+  rulesPack: RulesPack = getActiveRulesPack()
+): string[] => {
+  const { perk, errors } = validatePerkChange(
+    character,
+    entries,
+    perkId,
+    date,
+    rulesPack
+  );
+  if (!perk) return errors;
+
+  if (perk.allowedSpecies && !perk.allowedSpecies.includes(character.species)) {
+    errors.push(
+      `${perk.name} is only available to ${perk.allowedSpecies.join(', ')}.`
+    );
+  }
+  const build = getBuildAtDate(character, entries, date);
+  if (build.perkIds.includes(perkId)) {
+    errors.push(`${character.name} already has ${perk.name} on ${date}.`);
+  }
+
+  // The XP must be there on the date and stay unspent afterwards, so later
+  // purchases aren't left without XP
+  const cost = getPerkCost(perk, rulesPack);
+  let balance = 0;
+  let available = build.xpBalance;
+  sortEntries(entries.filter(e => e.characterId === character.id)).forEach(
+    entry => {
+      balance += entry.xp;
+      if (entry.date > date) available = Math.min(available, balance);
+    }
+  );
+  if (cost > available) {
+    errors.push(
+      `${perk.name} costs ${cost} XP, but only ${available} XP is available on ${date}.`
+    );
+  }
+
+  return errors;
+};
+
+/**
+ * Check whether a character can refund a perk on a date. Returns every
+ * reason it can't; an empty list means the refund is allowed.
+ */
+export const validatePerkRefund = (
+  character: GameCharacter,
+  entries: ProgressionEntry[],
+  perkId: string,
+  date: string,
+  rulesPack: RulesPack = getActiveRulesPack()
+): string[] => {
+  const { perk, errors } = validatePerkChange(
+    character,
+    entries,
+    perkId,
+    date,
+    rulesPack
+  );
+  if (!perk) return errors;
+
+  if (!getBuildAtDate(character, entries, date).perkIds.includes(perkId)) {
+    errors.push(`${character.name} doesn't have ${perk.name} on ${date}.`);
+  }
+  return errors;
+};
+
+/**
+ * Record XP a character earned, e.g. at an event. Returns null unless the
+ * amount is a positive whole number and the date is valid.
+ */
+export const recordXp = async (
+  characterId: string,
+  xp: number,
+  date: string,
+  details: { eventId?: string; note?: string } = {}
+): Promise<ProgressionEntry | null> => {
+  if (!Number.isInteger(xp) || xp <= 0 || !isDateString(date)) return null;
+
+  const entries = await loadLedger();
+  const entry: ProgressionEntry = {
+    id: uuidv4(),
+    characterId,
+    type: 'xp',
+    date,
+    xp,
+    ...details,
+    createdAt: new Date().toISOString(),
+  };
+
+  await saveLedger([...entries, entry]);
+  return entry;
+};
+
+/**
+ * Buy a perk for a character: validates the purchase, records its cost and
+ * adds the perk to the character
+ */
+export const purchasePerk = async (
+  character: GameCharacter,
+  perkId: string,
+  date: string,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<ProgressionResult> => {
+  const entries = await loadLedger();
+  const errors = validatePerkPurchase(
+    character,
+    entries,
+    perkId,
+    date,
+    rulesPack
+  );
+  const perk = rulesPack.perks.find(p => p.id === perkId);
+  if (errors.length > 0 || !perk) {
+    return { entry: null, character: null, errors };
+  }
+
+  const entry: ProgressionEntry = {
+    id: uuidv4(),
+    characterId: character.id,
+    type: 'perk-purchase',
+    date,
+    xp: -getPerkCost(perk, rulesPack),
+    perkId,
+    createdAt: new Date().toISOString(),
+  };
+
+  await saveLedger([...entries, entry]);
+  const updated = character.perkIds.includes(perkId)
+    ? character
+    : await updateCharacter(character.id, {
+        perkIds: [...character.perkIds, perkId],
+      });
+  return { entry, character: updated, errors: [] };
+};
+
+/**
+ * Refund a perk: validates the refund, gives back the XP paid for it (none
+ * for perks from before the ledger) and removes the perk from the character
+ */
+export const refundPerk = async (
+  character: GameCharacter,
+  perkId: string,
+  date: string,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<ProgressionResult> => {
+  const entries = await loadLedger();
+  const errors = validatePerkRefund(
+    character,
+    entries,
+    perkId,
+    date,
+    rulesPack
+  );
+  if (errors.length > 0) return { entry: null, character: null, errors };
+
+  const purchase = sortEntries(entries)
+    .reverse()
+    .find(
+      e =>
+        e.characterId === character.id &&
+        e.perkId === perkId &&
+        e.type === 'perk-purchase'
+    );
+  const entry: ProgressionEntry = {
+    id: uuidv4(),
+    characterId: character.id,
+    type: 'perk-refund',
+    date,
+    xp: purchase ? -purchase.xp : 0,
+    perkId,
+    createdAt: new Date().toISOString(),
+  };
+
+  await saveLedger([...entries, entry]);
+  const updated = await updateCharacter(character.id, {
+    perkIds: character.perkIds.filter(id => id !== perkId),
+  });
+  return { entry, character: updated, errors: [] };
+};
+
+/**
+ * Remove a ledger entry. The character's current perks are left alone, so
+ * removing a purchase makes the perk count as owned from the start.
+ */
+export const deleteProgressionEntry = async (id: string): Promise<boolean> => {
+  const entries = await loadLedger();
+  const remaining = entries.filter(entry => entry.id !== id);
+
+  if (remaining.length === entries.length) return false;
+
+  await saveLedger(remaining);
+  return true;
+};
+
+/**
+ * Remove a character's whole ledger, e.g. when the character is deleted.
+ * Returns the removed entries.
+ */
+export const removeProgression = async (
+  characterId: string
+): Promise<ProgressionEntry[]> => {
+  const entries = await loadLedger();
+  const removed = entries.filter(entry => entry.characterId === characterId);
+
+  if (removed.length > 0) {
+    await saveLedger(
+      entries.filter(entry => entry.characterId !== characterId)
+    );
+  }
+  return removed;
+};
+
+/**
+ * Delete every character's ledger
+ */
+export const clearProgression = async (): Promise<void> => {
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(PROGRESSION_STORAGE_KEY)
+  );
+  listeners.forEach(listener => listener());
+};
+
+export const exportProgressionDataset =
+  async (): Promise<ProgressionDataset> => ({
+    entries: await loadLedger(),
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  });
+
+/**
+ * Import the ledger from an export. In merge mode entries the ledger
+ * doesn't have yet are added; otherwise the import replaces the ledger.
+ */
+export const importProgressionDataset = async (
+  dataset: ProgressionDataset,
+  merge: boolean = true
+): Promise<void> => {
+  const imported = Array.isArray(dataset.entries) ? dataset.entries : [];
+  if (!merge) {
+    await saveLedger(imported);
+    return;
+  }
+
+  const entries = await loadLedger();
+  const entryIds = new Set(entries.map(entry => entry.id));
+  await saveLedger([
+    ...entries,
+    ...imported.filter(entry => !entryIds.has(entry.id)),
+  ]);
+};
@@ -0,0 +1,368 @@
+import {
+  Faction,
+  GameCharacter,
+  NEGATIVE_RELATIONSHIP_TYPE,
+  RelationshipStanding,
+} from '@models/types';
+import {
+  CharacterInfluence,
+  calculateCharacterInfluence,
+} from './influenceAnalysis';
+
+/**
+ * Relationship graph
+ *
+ * Characters and factions as one graph: a relationship is an edge from the
+ * character who holds it to the character it names, and a faction
+ * membership is an edge from the character to the faction. The graph is
+ * built once and every centrality metric reads from it.
+ *
+ * Degree, betweenness and brokerage look at the structure only, so hostile
+ * ties count the same as friendly ones: enemies still know each other.
+ * PageRank follows endorsements instead, so it only walks positive
+ * relationships and memberships that aren't hostile.
+ */
+
+export type GraphNodeKind = 'character' | 'faction';
+
+export interface GraphNode {
+  id: string; // 'character:<id>' or 'faction:<id>', by name if unlinked
+  kind: GraphNodeKind;
+  label: string;
+  character?: GameCharacter; // Set for character nodes
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'relationship' | 'membership';
+  standing: RelationshipStanding;
+}
+
+export interface RelationshipGraph {
+  nodes: Map<string, GraphNode>;
+  edges: GraphEdge[];
+  neighbours: Map<string, Set<string>>; // Undirected adjacency
+}
+
+export type InfluenceMetric =
+  | 'influence'
+  | 'degree'
+  | 'betweenness'
+  | 'pageRank'
+  | 'brokerage';
+
+export const INFLUENCE_METRICS: {
+  metric: InfluenceMetric;
+  label: string;
+  description: string;
+}[] = [
+  {
+    metric: 'influence',
+    label: 'Influence Score',
+    description:
+      'The classic score: +3 per ally or friend, −2 per hostile or enemy, +5 per faction',
+  },
+  {
+    metric: 'degree',
+    label: 'Degree',
+    description: 'Share of the network a character is directly tied to',
+  },
+  {
+    metric: 'betweenness',
+    label: 'Betweenness',
+    description:
+      'How often a character lies on the shortest path between two others',
+  },
+  {
+    metric: 'pageRank',
+    label: 'PageRank',
+    description:
+      'Endorsement by allies, friends and factions who are endorsed themselves',
+  },
+  {
+    metric: 'brokerage',
+    label: 'Brokerage',
+    description: 'Pairs of contacts that only reach each other through them',
+  },
+];
+
+export interface CharacterCentrality {
+  character: GameCharacter;
+  influence: CharacterInfluence; // The classic score and the counts behind it
+  degree: number; // 0–1
+  betweenness: number; // 0–1
+  pageRank: number; // Sums to 1 over all nodes
+  brokerage: number; // Open pairs of contacts
+}
+
+const PAGE_RANK_DAMPING = 0.85;
+const PAGE_RANK_ITERATIONS = 100;
+const PAGE_RANK_TOLERANCE = 1e-9;
+
+export const characterNodeId = (character: Pick<GameCharacter, 'id'>): string =>
+  `character:${character.id}`;
+
+// Memberships of factions that were never stored have no faction ID
+export const factionNodeId = (
+  faction: Pick<Faction, 'factionId' | 'name'>
+): string => `faction:${faction.factionId ?? faction.name}`;
+
+export const getNeighbours = (
+  graph: RelationshipGraph,
+  id: string
+): Set<string> => graph.neighbours.get(id) ?? new Set();
+
+/**
+ * Build the character and faction graph. Relationships resolve through
+ * characterId, falling back to the name for older data; relationships to
+ * characters that don't exist are left out.
+ */
+export const buildRelationshipGraph = (
+  characters: GameCharacter[]
+): RelationshipGraph => {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const neighbours = new Map<string, Set<string>>();
+
+  const addNode = (node: GraphNode) => {
+    if (nodes.has(node.id)) return;
+    nodes.set(node.id, node);
+    neighbours.set(node.id, new Set());
+  };
+  const addEdge = (edge: GraphEdge) => {
+    if (edge.from === edge.to) return;
+    edges.push(edge);
+    neighbours.get(edge.from)?.add(edge.to);
+    neighbours.get(edge.to)?.add(edge.from);
+  };
+
+  const byId = new Map(characters.map(c => [c.id, c]));
+  const byName = new Map(characters.map(c => [c.name, c]));
+
+  characters.forEach(character =>
+    addNode({
+      id: characterNodeId(character),
+      kind: 'character',
+      label: character.name,
+      character,
+    })
+  );
+
+  characters.forEach(character => {
+    character.relationships?.forEach(rel => {
+      const target =
+        (rel.characterId && byId.get(rel.characterId)) ||
+        byName.get(rel.characterName);
+      if (!target) return;
+      addEdge({
+        from: characterNodeId(character),
+        to: characterNodeId(target),
+        kind: 'relationship',
+        standing: rel.relationshipType,
+      });
+    });
+
+    character.factions?.forEach(faction => {
+      addNode({
+        id: factionNodeId(faction),
+        kind: 'faction',
+        label: faction.name,
+      });
+      addEdge({
+        from: characterNodeId(character),
+        to: factionNodeId(faction),
+        kind: 'membership',
+        standing: faction.standing,
+      });
+    });
+  });
+
+  return { nodes, edges, neighbours };
+};
+
+// Node IDs in graph order with each node's neighbours as indices into it,
+// so the metrics below can work on plain arrays
+const indexGraph = (
+  graph: RelationshipGraph
+): { ids: string[]; index: Map<string, number>; adjacency: number[][] } => {
+  const ids = Array.from(graph.nodes.keys());
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const adjacency = ids.map(id =>
+    Array.from(getNeighbours(graph, id)).flatMap(next => {
+      const i = index.get(next);
+      return i === undefined ? [] : [i];
+    })
+  );
+  return { ids, index, adjacency };
+};
+
+/**
+ * Betweenness of every node with Brandes' algorithm on the undirected,
+ * unweighted graph, normalised to 0–1
+ */
+const calculateBetweenness = (
+  graph: RelationshipGraph
+): Map<string, number> => {
+  const { ids, adjacency } = indexGraph(graph);
+  const count = ids.length;
+  const betweenness = new Array<number>(count).fill(0);
+
+  for (let source = 0; source < count; source++) {
+    const stack: number[] = [];
+    const predecessors: number[][] = ids.map(() => []);
+    const paths = new Array<number>(count).fill(0);
+    const distance = new Array<number>(count).fill(-1);
+    paths[source] = 1;
+    distance[source] = 0;
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      stack.push(node);
+      adjacency[node].forEach(next => {
+        if (distance[next] < 0) {
+          distance[next] = distance[node] + 1;
+          queue.push(next);
+        }
+        if (distance[next] === distance[node] + 1) {
+          paths[next] += paths[node];
+          predecessors[next].push(node);
+        }
+      });
+    }
+
+    const dependency = new Array<number>(count).fill(0);
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const node = stack[i];
+      predecessors[node].forEach(previous => {
+        dependency[previous] +=
+          (paths[previous] / paths[node]) * (1 + dependency[node]);
+      });
+      if (node !== source) betweenness[node] += dependency[node];
+    }
+  }
+
+  // Every pair was counted from both ends
+  const pairs = ((count - 1) * (count - 2)) / 2;
+  return new Map(
+    ids.map((id, i) => [id, pairs > 0 ? betweenness[i] / 2 / pairs : 0])
+  );
+};
+
+const getEndorsementWeight = (edge: GraphEdge): number => {
+  if (edge.kind === 'membership') {
+    return NEGATIVE_RELATIONSHIP_TYPE.includes(edge.standing) ? 0 : 1;
+  }
+  if (edge.standing === RelationshipStanding.Ally) return 2;
+  if (edge.standing === RelationshipStanding.Friend) return 1;
+  return 0;
+};
+
+/**
+ * PageRank of every node over the endorsement edges. Memberships endorse
+ * both ways: the member lends the faction weight and the faction lends it
+ * back.
+ */
+const calculatePageRank = (graph: RelationshipGraph): Map<string, number> => {
+  const { ids, index } = indexGraph(graph);
+  const count = ids.length;
+  const outgoing: { to: number; weight: number }[][] = ids.map(() => []);
+  graph.edges.forEach(edge => {
+    const weight = getEndorsementWeight(edge);
+    const from = index.get(edge.from);
+    const to = index.get(edge.to);
+    if (weight === 0 || from === undefined || to === undefined) return;
+    outgoing[from].push({ to, weight });
+    if (edge.kind === 'membership') {
+      outgoing[to].push({ to: from, weight });
+    }
+  });
+
+  let rank = new Array<number>(count).fill(1 / count);
+  for (let iteration = 0; iteration < PAGE_RANK_ITERATIONS; iteration++) {
+    const next = new Array<number>(count).fill((1 - PAGE_RANK_DAMPING) / count);
+    // Nodes that endorse no one spread their rank over everyone
+    let danglingRank = 0;
+    outgoing.forEach((targets, i) => {
+      const total = targets.reduce((sum, t) => sum + t.weight, 0);
+      if (total === 0) {
+        danglingRank += rank[i];
+        return;
+      }
+      targets.forEach(target => {
+        next[target.to] +=
+          (PAGE_RANK_DAMPING * rank[i] * target.weight) / total;
+      });
+    });
+    for (let i = 0; i < count; i++) {
+      next[i] += (PAGE_RANK_DAMPING * danglingRank) / count;
+    }
+
+    const change = next.reduce(
+      (sum, value, i) => sum + Math.abs(value - rank[i]),
+      0
+    );
+    rank = next;
+    if (change < PAGE_RANK_TOLERANCE) break;
+  }
+  return new Map(ids.map((id, i) => [id, rank[i]]));
+};
+
+/**
+ * Number of pairs of a node's contacts that have no tie of their own
+ */
+const calculateBrokerage = (graph: RelationshipGraph, id: string): number => {
+  const contacts = Array.from(getNeighbours(graph, id));
+  let openPairs = 0;
+  contacts.forEach((a, index) => {
+    contacts.slice(index + 1).forEach(b => {
+      if (!getNeighbours(graph, a).has(b)) openPairs++;
+    });
+  });
+  return openPairs;
+};
+
+/**
+ * Every centrality metric for every character, from a single graph
+ */
+export const calculateCentrality = (
+  characters: GameCharacter[],
+  graph: RelationshipGraph = buildRelationshipGraph(characters)
+): CharacterCentrality[] => {
+  const betweenness = calculateBetweenness(graph);
+  const pageRank = calculatePageRank(graph);
+  const maxDegree = Math.max(graph.nodes.size - 1, 1);
+
+  return characters.map(character => {
+    const id = characterNodeId(character);
+    return {
+      character,
+      influence: calculateCharacterInfluence(character, characters),
+      degree: getNeighbours(graph, id).size / maxDegree,
+      betweenness: betweenness.get(id) ?? 0,
+      pageRank: pageRank.get(id) ?? 0,
+      brokerage: calculateBrokerage(graph, id),
+    };
+  });
+};
+
+export const getMetricValue = (
+  entry: CharacterCentrality,
+  metric: InfluenceMetric
+): number =>
+  metric === 'influence' ? entry.influence.influenceScore : entry[metric];
+
+/**
+ * Characters that score above zero on one metric, highest first; ties keep
+ * their order
+ */
+export const rankByMetric = (
+  centrality: CharacterCentrality[],
+  metric: InfluenceMetric,
+  limit = 10
+): CharacterCentrality[] =>
+  centrality
+    .filter(entry => getMetricValue(entry, metric) > 0)
+    .sort((a, b) => getMetricValue(b, metric) - getMetricValue(a, metric))
+    .slice(0, limit);
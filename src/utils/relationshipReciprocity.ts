@@ -0,0 +1,185 @@
+import {
+  GameCharacter,
+  NEGATIVE_RELATIONSHIP_TYPE,
+  POSITIVE_RELATIONSHIP_TYPE,
+  Relationship,
+  RelationshipStanding,
+} from '@models/types';
+import { isRelationshipTo } from './entityReferences';
+
+/**
+ * Relationship reciprocity
+ *
+ * Relationships are stored on one side only, so the two halves of a pair
+ * drift apart. This finds the pairs that need attention and works out the
+ * fix for each:
+ * - one-sided: A names B but B doesn't name A; the fix gives B the same
+ *   standing towards A
+ * - mismatched: A and B name each other with standings pointing opposite
+ *   ways; the fix copies the standing of whoever was edited last
+ * - dangling: A's relationship links to a character that no longer exists;
+ *   the fix removes it. Relationships to custom names were never linked to
+ *   a character and are left alone.
+ */
+
+export type ReciprocityIssueType = 'one-sided' | 'mismatched' | 'dangling';
+
+interface ReciprocityIssueBase {
+  key: string;
+  character: GameCharacter; // Holds the relationship the fix starts from
+  relationship: Relationship;
+}
+
+export type ReciprocityIssue = ReciprocityIssueBase &
+  (
+    | { type: 'one-sided'; target: GameCharacter; reverse?: undefined }
+    | { type: 'mismatched'; target: GameCharacter; reverse: Relationship }
+    | { type: 'dangling'; target?: undefined; reverse?: undefined }
+  );
+
+export const RECIPROCITY_ISSUE_LABELS: Record<ReciprocityIssueType, string> = {
+  'one-sided': 'One-Sided',
+  mismatched: 'Mismatched Standings',
+  dangling: 'Dangling References',
+};
+
+const getSign = (standing: RelationshipStanding): number => {
+  if (POSITIVE_RELATIONSHIP_TYPE.includes(standing)) return 1;
+  if (NEGATIVE_RELATIONSHIP_TYPE.includes(standing)) return -1;
+  return 0;
+};
+
+const findTarget = (
+  relationship: Relationship,
+  characters: GameCharacter[]
+): GameCharacter | undefined =>
+  characters.find(c => isRelationshipTo(relationship, c));
+
+/**
+ * Every reciprocity issue among the characters. A mismatched pair is
+ * reported once, from the side that was edited last.
+ */
+export const findReciprocityIssues = (
+  characters: GameCharacter[]
+): ReciprocityIssue[] => {
+  const issues: ReciprocityIssue[] = [];
+
+  characters.forEach(character => {
+    (character.relationships || []).forEach((relationship, index) => {
+      const key = `${character.id}:${index}`;
+      const target = findTarget(relationship, characters);
+      if (!target) {
+        if (relationship.characterId) {
+          issues.push({ key, type: 'dangling', character, relationship });
+        }
+        return;
+      }
+      if (target.id === character.id) return;
+
+      const reverse = (target.relationships || []).find(r =>
+        isRelationshipTo(r, character)
+      );
+      if (!reverse) {
+        issues.push({
+          key,
+          type: 'one-sided',
+          character,
+          relationship,
+          target,
+        });
+        return;
+      }
+
+      const editedLast =
+        character.updatedAt > target.updatedAt ||
+        (character.updatedAt === target.updatedAt && character.id < target.id);
+      if (
+        editedLast &&
+        getSign(relationship.relationshipType) *
+          getSign(reverse.relationshipType) <
+          0
+      ) {
+        issues.push({
+          key,
+          type: 'mismatched',
+          character,
+          relationship,
+          target,
+          reverse,
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Describe what fixing an issue will do
+ */
+export const describeReciprocityFix = (issue: ReciprocityIssue): string => {
+  switch (issue.type) {
+    case 'one-sided':
+      return `Add ${issue.relationship.relationshipType} from ${issue.target.name} to ${issue.character.name}`;
+    case 'mismatched':
+      return `Change ${issue.target.name}'s standing towards ${issue.character.name} from ${issue.reverse.relationshipType} to ${issue.relationship.relationshipType}`;
+    case 'dangling':
+      return `Remove ${issue.character.name}'s relationship with ${issue.relationship.characterName}`;
+  }
+};
+
+/**
+ * Apply the fixes for the given issues. Returns every character with the
+ * changed ones replaced; the caller stamps and saves them.
+ */
+export const applyReciprocityFixes = (
+  characters: GameCharacter[],
+  issues: ReciprocityIssue[]
+): GameCharacter[] => {
+  const relationshipsById = new Map(
+    characters.map(c => [c.id, [...(c.relationships || [])]])
+  );
+  const changed = new Set<string>();
+
+  issues.forEach(issue => {
+    const { character, relationship } = issue;
+    if (issue.type === 'dangling') {
+      relationshipsById.set(
+        character.id,
+        (relationshipsById.get(character.id) ?? []).filter(
+          r =>
+            r.characterId !== relationship.characterId ||
+            r.characterName !== relationship.characterName
+        )
+      );
+      changed.add(character.id);
+      return;
+    }
+
+    const { target } = issue;
+    const targetRelationships = relationshipsById.get(target.id);
+    if (!targetRelationships) return;
+    const reverseIndex = targetRelationships.findIndex(r =>
+      isRelationshipTo(r, character)
+    );
+    if (reverseIndex === -1) {
+      targetRelationships.push({
+        characterId: character.id,
+        characterName: character.name,
+        relationshipType: relationship.relationshipType,
+      });
+    } else {
+      targetRelationships[reverseIndex] = {
+        ...targetRelationships[reverseIndex],
+        relationshipType: relationship.relationshipType,
+      };
+    }
+    changed.add(target.id);
+  });
+
+  return characters.map(c =>
+    changed.has(c.id)
+      ? { ...c, relationships: relationshipsById.get(c.id) ?? c.relationships }
+      : c
+  );
+};
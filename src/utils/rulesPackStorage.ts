@@ -0,0 +1,545 @@
+import { SafeAsyncStorageJSONParser } from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+import {
+  DEFAULT_RULES_PACK,
+  RULES_PACK_FORMAT_VERSION,
+  RulesPack,
+} from '@/models/gameData';
+
+/**
+ * Rules packs
+ *
+ * Species, perks, tags, distinctions, recipes and tag score bonuses are
+ * loaded from versioned rules packs instead of being hardcoded. The built-in
+ * pack is always available; further packs are imported from JSON files,
+ * validated, and stored globally so any campaign can use them. Each
+ * campaign picks its own pack. The pack of the active campaign is kept in
+ * memory so stat calculations and forms can read it synchronously.
+ */
+
+export interface RulesPackValidationResult {
+  pack: RulesPack | null; // Null when there are errors
+  errors: string[];
+}
+
+interface RulesPackDataset {
+  packs: RulesPack[];
+  version: string;
+  lastUpdated: string;
+}
+
+interface RulesPackSelection {
+  packId: string;
+  lastUpdated: string;
+}
+
+// Imported packs are shared by all campaigns and therefore never namespaced
+const RULES_PACKS_STORAGE_KEY = 'gameCharacterManager_rulesPacks';
+const RULES_PACK_SELECTION_STORAGE_KEY =
+  'gameCharacterManager_rulesPackSelection';
+
+type RulesPackChangeListener = (pack: RulesPack) => void;
+
+let activePack: RulesPack = DEFAULT_RULES_PACK;
+const listeners = new Set<RulesPackChangeListener>();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const SPECIES_NUMBER_FIELDS = [
+  'baseHealth',
+  'baseLimit',
+  'healthCap',
+  'limitCap',
+] as const;
+const SPECIES_FLAG_FIELDS = [
+  'canUseCyberware',
+  'canUseChems',
+  'canTakeInjuries',
+  'canTakeMalfunctions',
+] as const;
+const MODIFIER_FIELDS = ['health', 'limit', 'healthCap', 'limitCap'] as const;
+
+/**
+ * Check that a value is a well-formed rules pack whose perks, distinctions,
+ * cyberware, recipes and bonuses only refer to species, tags and recipes
+ * the pack itself defines. Every problem found is reported, not just the
+ * first.
+ */
+export const validateRulesPack = (
+  value: unknown
+): RulesPackValidationResult => {
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    return { pack: null, errors: ['A rules pack must be a JSON object.'] };
+  }
+
+  if (typeof value.formatVersion !== 'number') {
+    errors.push('formatVersion must be a number.');
+  } else if (value.formatVersion > RULES_PACK_FORMAT_VERSION) {
+    errors.push(
+      `This pack uses format ${value.formatVersion}, but this app supports up to format ${RULES_PACK_FORMAT_VERSION}. Please update the app.`
+    );
+  }
+  (['id', 'name', 'version'] as const).forEach(field => {
+    if (!isNonEmptyString(value[field])) {
+      errors.push(`${field} must be a non-empty string.`);
+    }
+  });
+  if (
+    value.description !== undefined &&
+    typeof value.description !== 'string'
+  ) {
+    errors.push('description must be a string.');
+  }
+
+  // Species
+  const speciesNames = new Set<string>();
+  if (!isRecord(value.species) || Object.keys(value.species).length === 0) {
+    errors.push('species must be an object with at least one species.');
+  } else {
+    Object.entries(value.species).forEach(([name, stats]) => {
+      speciesNames.add(name);
+      if (!isRecord(stats)) {
+        errors.push(`species.${name} must be an object.`);
+        return;
+      }
+      SPECIES_NUMBER_FIELDS.forEach(field => {
+        if (typeof stats[field] !== 'number') {
+          errors.push(`species.${name}.${field} must be a number.`);
+        }
+      });
+      SPECIES_FLAG_FIELDS.forEach(field => {
+        if (typeof stats[field] !== 'boolean') {
+          errors.push(`species.${name}.${field} must be true or false.`);
+        }
+      });
+    });
+  }
+
+  const checkSpeciesList = (list: unknown, path: string) => {
+    if (!Array.isArray(list)) {
+      errors.push(`${path} must be a list of species.`);
+      return;
+    }
+    list.forEach(species => {
+      if (!speciesNames.has(species)) {
+        errors.push(`${path} refers to unknown species "${species}".`);
+      }
+    });
+  };
+
+  const groupNames = new Set<string>();
+  if (!isRecord(value.speciesGroups)) {
+    errors.push('speciesGroups must be an object.');
+  } else {
+    Object.entries(value.speciesGroups).forEach(([group, members]) => {
+      groupNames.add(group);
+      checkSpeciesList(members, `speciesGroups.${group}`);
+    });
+  }
+
+  if (isRecord(value.species)) {
+    Object.entries(value.species).forEach(([name, stats]) => {
+      if (!isRecord(stats) || stats.tagScoreExcludedGroups === undefined) {
+        return;
+      }
+      const excluded = stats.tagScoreExcludedGroups;
+      if (!Array.isArray(excluded)) {
+        errors.push(
+          `species.${name}.tagScoreExcludedGroups must be a list of groups.`
+        );
+        return;
+      }
+      excluded.forEach(group => {
+        if (!groupNames.has(group)) {
+          errors.push(
+            `species.${name}.tagScoreExcludedGroups refers to unknown group "${group}".`
+          );
+        }
+      });
+    });
+  }
+
+  // Tags and their bonuses
+  const tags = new Set<string>();
+  if (!Array.isArray(value.perkTags) || value.perkTags.length === 0) {
+    errors.push('perkTags must be a list with at least one tag.');
+  } else {
+    value.perkTags.forEach((tag, index) => {
+      if (!isNonEmptyString(tag)) {
+        errors.push(`perkTags[${index}] must be a non-empty string.`);
+      } else if (tags.has(tag)) {
+        errors.push(`perkTags contains "${tag}" twice.`);
+      } else {
+        tags.add(tag);
+      }
+    });
+  }
+
+  if (!isRecord(value.tagScoreBonuses)) {
+    errors.push('tagScoreBonuses must be an object.');
+  } else {
+    Object.entries(value.tagScoreBonuses).forEach(([tag, bonuses]) => {
+      if (!tags.has(tag)) {
+        errors.push(`tagScoreBonuses refers to unknown tag "${tag}".`);
+      }
+      if (!Array.isArray(bonuses)) {
+        errors.push(`tagScoreBonuses.${tag} must be a list.`);
+        return;
+      }
+      bonuses.forEach((bonus, index) => {
+        if (!isRecord(bonus) || typeof bonus.requiredScore !== 'number') {
+          errors.push(
+            `tagScoreBonuses.${tag}[${index}].requiredScore must be a number.`
+          );
+        }
+      });
+    });
+  }
+
+  const isCost = (cost: unknown) => typeof cost === 'number' && cost >= 0;
+
+  if (value.progression !== undefined) {
+    if (!isRecord(value.progression) || !isCost(value.progression.perkCost)) {
+      errors.push('progression.perkCost must be a number of at least 0.');
+    }
+  }
+
+  // Entries with IDs
+  const collectIds = (list: unknown, path: string): Set<string> => {
+    const ids = new Set<string>();
+    if (!Array.isArray(list)) {
+      errors.push(`${path} must be a list.`);
+      return ids;
+    }
+    list.forEach((entry, index) => {
+      if (!isRecord(entry)) {
+        errors.push(`${path}[${index}] must be an object.`);
+        return;
+      }
+      if (!isNonEmptyString(entry.id)) {
+        errors.push(`${path}[${index}].id must be a non-empty string.`);
+      } else if (ids.has(entry.id)) {
+        errors.push(`${path} contains the ID "${entry.id}" twice.`);
+      } else {
+        ids.add(entry.id);
+      }
+      if (!isNonEmptyString(entry.name)) {
+        errors.push(`${path}[${index}].name must be a non-empty string.`);
+      }
+      if (typeof entry.description !== 'string') {
+        errors.push(`${path}[${index}].description must be a string.`);
+      }
+      if (entry.allowedSpecies !== undefined) {
+        checkSpeciesList(
+          entry.allowedSpecies,
+          `${path}[${index}].allowedSpecies`
+        );
+      }
+    });
+    return ids;
+  };
+
+  const recipeIds = collectIds(value.recipes, 'recipes');
+  collectIds(value.distinctions, 'distinctions');
+  const perkIds = collectIds(value.perks, 'perks');
+
+  const checkStatModifiers = (modifiers: unknown, path: string) => {
+    if (!isRecord(modifiers)) {
+      errors.push(`${path} must be an object.`);
+      return;
+    }
+    MODIFIER_FIELDS.forEach(field => {
+      if (
+        modifiers[field] !== undefined &&
+        typeof modifiers[field] !== 'number'
+      ) {
+        errors.push(`${path}.${field} must be a number.`);
+      }
+    });
+    if (isRecord(modifiers.tagModifiers)) {
+      Object.keys(modifiers.tagModifiers).forEach(tag => {
+        if (!tags.has(tag)) {
+          errors.push(`${path} refers to unknown tag "${tag}".`);
+        }
+      });
+    }
+  };
+
+  if (Array.isArray(value.distinctions)) {
+    value.distinctions.forEach((distinction, index) => {
+      if (!isRecord(distinction)) return;
+      if (distinction.statModifiers !== undefined) {
+        checkStatModifiers(
+          distinction.statModifiers,
+          `distinctions[${index}].statModifiers`
+        );
+      }
+      const multiplier = distinction.conditionDurationMultiplier;
+      if (
+        multiplier !== undefined &&
+        (typeof multiplier !== 'number' || multiplier <= 0)
+      ) {
+        errors.push(
+          `distinctions[${index}].conditionDurationMultiplier must be a number above 0.`
+        );
+      }
+    });
+  }
+
+  const cyberwareIds =
+    value.cyberware !== undefined
+      ? collectIds(value.cyberware, 'cyberware')
+      : new Set<string>();
+  if (value.cyberware !== undefined) {
+    if (Array.isArray(value.cyberware)) {
+      value.cyberware.forEach((implant, index) => {
+        if (isRecord(implant) && implant.statModifiers !== undefined) {
+          checkStatModifiers(
+            implant.statModifiers,
+            `cyberware[${index}].statModifiers`
+          );
+        }
+      });
+    }
+  }
+
+  if (Array.isArray(value.recipes)) {
+    value.recipes.forEach((recipe, index) => {
+      if (
+        isRecord(recipe) &&
+        (!Array.isArray(recipe.materials) ||
+          !recipe.materials.every(m => typeof m === 'string'))
+      ) {
+        errors.push(`recipes[${index}].materials must be a list of strings.`);
+      }
+    });
+  }
+
+  if (Array.isArray(value.perks)) {
+    value.perks.forEach((perk, index) => {
+      if (!isRecord(perk)) return;
+      const path = `perks[${index}]`;
+
+      if (!tags.has(perk.tag as string)) {
+        errors.push(`${path} has unknown tag "${perk.tag}".`);
+      }
+      if (perk.cost !== undefined && !isCost(perk.cost)) {
+        errors.push(`${path}.cost must be a number of at least 0.`);
+      }
+      if (perk.recipeIds !== undefined) {
+        if (!Array.isArray(perk.recipeIds)) {
+          errors.push(`${path}.recipeIds must be a list.`);
+        } else {
+          perk.recipeIds.forEach(recipeId => {
+            if (!recipeIds.has(recipeId)) {
+              errors.push(`${path} refers to unknown recipe "${recipeId}".`);
+            }
+          });
+        }
+      }
+      if (perk.statModifiers !== undefined) {
+        checkStatModifiers(perk.statModifiers, `${path}.statModifiers`);
+      }
+    });
+  }
+
+  // Evolution prerequisites
+  if (isRecord(value.species)) {
+    Object.entries(value.species).forEach(([name, stats]) => {
+      if (!isRecord(stats) || stats.prerequisites === undefined) return;
+      const path = `species.${name}.prerequisites`;
+      const prerequisites = stats.prerequisites;
+      if (!isRecord(prerequisites)) {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      checkSpeciesList(prerequisites.fromSpecies, `${path}.fromSpecies`);
+      const checkIds = (list: unknown, ids: Set<string>, kind: string) => {
+        if (list === undefined) return;
+        if (!Array.isArray(list)) {
+          errors.push(`${path}.${kind}Ids must be a list.`);
+          return;
+        }
+        list.forEach(id => {
+          if (!ids.has(id)) {
+            errors.push(`${path} refers to unknown ${kind} "${id}".`);
+          }
+        });
+      };
+      checkIds(prerequisites.perkIds, perkIds, 'perk');
+      checkIds(prerequisites.cyberwareIds, cyberwareIds, 'cyberware');
+      if (
+        prerequisites.minCyberware !== undefined &&
+        !isCost(prerequisites.minCyberware)
+      ) {
+        errors.push(`${path}.minCyberware must be a number of at least 0.`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { pack: null, errors };
+  }
+  return { pack: value as unknown as RulesPack, errors };
+};
+
+const loadImportedPacks = async (): Promise<RulesPack[]> => {
+  const dataset = await SafeAsyncStorageJSONParser.getItem<RulesPackDataset>(
+    RULES_PACKS_STORAGE_KEY
+  );
+  return dataset?.packs ?? [];
+};
+
+const saveImportedPacks = async (packs: RulesPack[]): Promise<boolean> => {
+  const dataset: RulesPackDataset = {
+    packs,
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  };
+  return await SafeAsyncStorageJSONParser.setItem(
+    RULES_PACKS_STORAGE_KEY,
+    dataset
+  );
+};
+
+const activate = (pack: RulesPack) => {
+  activePack = pack;
+  listeners.forEach(listener => listener(activePack));
+};
+
+/**
+ * Get the rules pack of the active campaign
+ */
+export const getActiveRulesPack = (): RulesPack => activePack;
+
+/**
+ * Subscribe to changes of the active rules pack. Returns an unsubscribe
+ * function.
+ */
+export const subscribeToRulesPackChanges = (
+  listener: RulesPackChangeListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Load all available rules packs, the built-in pack first
+ */
+export const loadRulesPacks = async (): Promise<RulesPack[]> => {
+  return [DEFAULT_RULES_PACK, ...(await loadImportedPacks())];
+};
+
+/**
+ * Validate and store a rules pack from JSON. A pack with the same ID as an
+ * imported pack replaces it; the built-in pack can't be replaced.
+ */
+export const importRulesPack = async (
+  json: string
+): Promise<RulesPackValidationResult> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { pack: null, errors: ['The file is not valid JSON.'] };
+  }
+
+  const result = validateRulesPack(parsed);
+  if (!result.pack) return result;
+
+  const pack = result.pack;
+  if (pack.id === DEFAULT_RULES_PACK.id) {
+    return {
+      pack: null,
+      errors: [`The ID "${pack.id}" is reserved for the built-in pack.`],
+    };
+  }
+
+  const packs = await loadImportedPacks();
+  const existing = packs.find(p => p.id === pack.id);
+  if (existing) {
+    console.log(
+      `[Rules Packs] Replacing ${pack.id} ${existing.version} with ${pack.version}`
+    );
+  }
+  const saved = await saveImportedPacks([
+    ...packs.filter(p => p.id !== pack.id),
+    pack,
+  ]);
+  if (!saved) {
+    return { pack: null, errors: ['The pack could not be saved.'] };
+  }
+
+  // Campaigns using an older version of the pack pick up the new one
+  if (activePack.id === pack.id) {
+    activate(pack);
+  }
+  return result;
+};
+
+/**
+ * Delete an imported rules pack. Campaigns that used it fall back to the
+ * built-in pack. The built-in pack can't be deleted.
+ */
+export const deleteRulesPack = async (packId: string): Promise<boolean> => {
+  if (packId === DEFAULT_RULES_PACK.id) return false;
+
+  const packs = await loadImportedPacks();
+  const remaining = packs.filter(p => p.id !== packId);
+  if (remaining.length === packs.length) return false;
+
+  await saveImportedPacks(remaining);
+  if (activePack.id === packId) {
+    activate(DEFAULT_RULES_PACK);
+  }
+  return true;
+};
+
+/**
+ * Load the rules pack chosen for the active campaign. Call on app start and
+ * after every campaign switch, before any screen reads the pack.
+ */
+export const initializeRulesPack = async (): Promise<RulesPack> => {
+  const selection =
+    await SafeAsyncStorageJSONParser.getItem<RulesPackSelection>(
+      getCampaignStorageKey(RULES_PACK_SELECTION_STORAGE_KEY)
+    );
+  const packs = await loadRulesPacks();
+  const pack = packs.find(p => p.id === selection?.packId);
+  if (selection && !pack) {
+    console.warn(
+      `[Rules Packs] Pack ${selection.packId} is not installed; using ${DEFAULT_RULES_PACK.name}`
+    );
+  }
+
+  activate(pack ?? DEFAULT_RULES_PACK);
+  return activePack;
+};
+
+/**
+ * Choose the rules pack of the active campaign and persist the choice
+ */
+export const setCampaignRulesPack = async (
+  packId: string
+): Promise<RulesPack | null> => {
+  const pack = (await loadRulesPacks()).find(p => p.id === packId);
+  if (!pack) return null;
+
+  const selection: RulesPackSelection = {
+    packId,
+    lastUpdated: new Date().toISOString(),
+  };
+  await SafeAsyncStorageJSONParser.setItem(
+    getCampaignStorageKey(RULES_PACK_SELECTION_STORAGE_KEY),
+    selection
+  );
+  activate(pack);
+  return pack;
+};
@@ -3,9 +3,117 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 /**
  * Safe wrapper around AsyncStorage with error handling and JSON parsing
  * Prevents crashes from corrupted data or storage errors
+ *
+ * A value that can't be parsed is quarantined instead of being treated as
+ * missing: the raw value is copied to a recovery key and writes to the key
+ * are refused, so the next save can't silently replace the corrupted data
+ * with an empty dataset. The quarantine lasts until the user salvages,
+ * discards or releases the value.
  */
 
+export interface QuarantinedItem {
+  key: string;
+  recoveryKey: string; // Holds the raw corrupted value
+  quarantinedAt: string;
+  salvageableRecords: number; // Records salvageCorruptedJSON can recover
+}
+
+export interface SalvageResult {
+  value: unknown;
+  recovered: number;
+}
+
+const RECOVERY_KEY_SUFFIX = '__recovery';
+
+/**
+ * Thrown by a saver whose write was refused, e.g. because the key is
+ * quarantined, so the edit isn't reported or journaled as saved
+ */
+export class StorageWriteError extends Error {
+  constructor(public readonly key: string) {
+    super(
+      `Your changes could not be saved (storage key "${key}"). The stored data may be damaged or the device may be out of space.`
+    );
+    this.name = 'StorageWriteError';
+  }
+}
+
+// Index of the bracket closing the one at start, or -1 if the input ends
+// first. Brackets inside strings are ignored.
+const findClosingBracket = (raw: string, start: number): number => {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < raw.length; i++) {
+    const char = raw[i];
+    if (inString) {
+      if (char === '\\') {
+        i++; // Skip the escaped character
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Recover the intact records of a corrupted JSON value. Datasets are either
+ * an array of records or an object whose first property holds the records
+ * (e.g. {"characters": [...], "version": ...}); every record of that array
+ * that still parses on its own is kept. A single record (e.g. one entity of
+ * an indexed collection) is not a dataset and can't be salvaged. Returns
+ * null if nothing is recoverable.
+ */
+export const salvageCorruptedJSON = (raw: string): SalvageResult | null => {
+  let arrayStart: number;
+  let arrayKey: string | null = null;
+
+  if (raw.trimStart().startsWith('[')) {
+    arrayStart = raw.indexOf('[');
+  } else {
+    const match = /^\s*\{\s*"([^"\\]+)"\s*:\s*\[/.exec(raw);
+    if (!match) return null;
+    arrayKey = match[1];
+    arrayStart = match.index + match[0].length - 1;
+  }
+
+  const records: unknown[] = [];
+  let i = arrayStart + 1;
+  while (i < raw.length && raw[i] !== ']') {
+    if (raw[i] !== '{') {
+      i++;
+      continue;
+    }
+
+    const end = findClosingBracket(raw, i);
+    if (end === -1) break; // Truncated record
+    try {
+      records.push(JSON.parse(raw.slice(i, end + 1)));
+    } catch {
+      // Damaged record; skip it
+    }
+    i = end + 1;
+  }
+
+  if (records.length === 0) return null;
+  return {
+    value: arrayKey ? { [arrayKey]: records } : records,
+    recovered: records.length,
+  };
+};
+
 export class SafeAsyncStorageJSONParser {
+  private static quarantine = new Map<string, QuarantinedItem>();
+  private static quarantineListeners = new Set<() => void>();
+
   /**
    * Safely get an item from AsyncStorage and parse it as JSON
    * Returns null if item doesn't exist, is corrupted, or parsing fails
@@ -28,7 +136,8 @@ export class SafeAsyncStorageJSONParser {
             parseError
           );
         }
-        // Return null for corrupted data
+        // Return null for corrupted data, but keep it from being overwritten
+        await SafeAsyncStorageJSONParser.quarantineItem(key, data);
         return null;
       }
     } catch (error) {
@@ -49,6 +158,14 @@ export class SafeAsyncStorageJSONParser {
    * Returns true on success, false on failure
    */
   static async setItem<T>(key: string, value: T): Promise<boolean> {
+    if (SafeAsyncStorageJSONParser.quarantine.has(key)) {
+      if (__DEV__) {
+        // eslint-disable-next-line no-console
+        console.error(`Refusing to write quarantined key "${key}"`);
+      }
+      return false;
+    }
+
     try {
       const jsonString = JSON.stringify(value);
       await AsyncStorage.setItem(key, jsonString);
@@ -65,9 +182,17 @@ export class SafeAsyncStorageJSONParser {
 
   /**
    * Safely remove an item from AsyncStorage
-   * Returns true on success, false on failure
+   * Returns true on success, false on failure or if the key is quarantined
    */
   static async removeItem(key: string): Promise<boolean> {
+    if (SafeAsyncStorageJSONParser.quarantine.has(key)) {
+      if (__DEV__) {
+        // eslint-disable-next-line no-console
+        console.error(`Refusing to remove quarantined key "${key}"`);
+      }
+      return false;
+    }
+
     try {
       await AsyncStorage.removeItem(key);
       return true;
@@ -102,10 +227,28 @@ export class SafeAsyncStorageJSONParser {
     }
   }
 
+  /**
+   * Safely list every key currently in AsyncStorage
+   * Returns an empty array on failure
+   */
+  static async getAllKeys(): Promise<string[]> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      return [...keys];
+    } catch (error) {
+      // Log error but don't crash
+      if (__DEV__) {
+        // eslint-disable-next-line no-console
+        console.error('Failed to list storage keys:', error);
+      }
+      return [];
+    }
+  }
+
   /**
    * Safely get multiple items from AsyncStorage
    * Returns an object with keys and their parsed values
-   * Skips items that fail to parse
+   * Items that fail to parse read as null and are quarantined like in getItem
    */
   static async multiGet<T = any>(
     keys: string[]
@@ -131,6 +274,7 @@ export class SafeAsyncStorageJSONParser {
               parseError
             );
           }
+          await SafeAsyncStorageJSONParser.quarantineItem(key, value);
           result[key] = null;
         }
       }
@@ -162,4 +306,129 @@ export class SafeAsyncStorageJSONParser {
 
     return successCount;
   }
+
+  /**
+   * Quarantine a corrupted value: keep a raw copy under a recovery key and
+   * refuse writes to the key until the user decides what to do with it
+   */
+  private static async quarantineItem(key: string, raw: string): Promise<void> {
+    if (SafeAsyncStorageJSONParser.quarantine.has(key)) return;
+
+    const recoveryKey = `${key}${RECOVERY_KEY_SUFFIX}`;
+    try {
+      await AsyncStorage.setItem(recoveryKey, raw);
+    } catch (error) {
+      if (__DEV__) {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to keep corrupted data (key: "${key}"):`, error);
+      }
+    }
+
+    SafeAsyncStorageJSONParser.quarantine.set(key, {
+      key,
+      recoveryKey,
+      quarantinedAt: new Date().toISOString(),
+      salvageableRecords: salvageCorruptedJSON(raw)?.recovered ?? 0,
+    });
+    SafeAsyncStorageJSONParser.notifyQuarantineListeners();
+  }
+
+  private static notifyQuarantineListeners(): void {
+    SafeAsyncStorageJSONParser.quarantineListeners.forEach(listener =>
+      listener()
+    );
+  }
+
+  private static release(key: string): void {
+    SafeAsyncStorageJSONParser.quarantine.delete(key);
+    SafeAsyncStorageJSONParser.notifyQuarantineListeners();
+  }
+
+  /**
+   * List the keys whose stored value couldn't be parsed
+   */
+  static getQuarantinedItems(): QuarantinedItem[] {
+    return Array.from(SafeAsyncStorageJSONParser.quarantine.values());
+  }
+
+  /**
+   * Be notified whenever a key is quarantined or released
+   * Returns a function that unsubscribes
+   */
+  static subscribeToQuarantine(listener: () => void): () => void {
+    SafeAsyncStorageJSONParser.quarantineListeners.add(listener);
+    return () => {
+      SafeAsyncStorageJSONParser.quarantineListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replace a quarantined value with the records that could be salvaged
+   * Returns false if the key isn't quarantined or nothing was salvageable
+   */
+  static async salvageQuarantinedItem(key: string): Promise<boolean> {
+    const item = SafeAsyncStorageJSONParser.quarantine.get(key);
+    if (!item) return false;
+
+    try {
+      const raw = await AsyncStorage.getItem(item.recoveryKey);
+      const salvaged = raw ? salvageCorruptedJSON(raw) : null;
+      if (!salvaged) return false;
+
+      await AsyncStorage.setItem(key, JSON.stringify(salvaged.value));
+      await AsyncStorage.removeItem(item.recoveryKey);
+      SafeAsyncStorageJSONParser.release(key);
+      return true;
+    } catch (error) {
+      if (__DEV__) {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to salvage data (key: "${key}"):`, error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Delete a quarantined value and its recovery copy
+   * Returns false if the key isn't quarantined
+   */
+  static async discardQuarantinedItem(key: string): Promise<boolean> {
+    const item = SafeAsyncStorageJSONParser.quarantine.get(key);
+    if (!item) return false;
+
+    try {
+      await AsyncStorage.removeItem(key);
+      await AsyncStorage.removeItem(item.recoveryKey);
+      SafeAsyncStorageJSONParser.release(key);
+      return true;
+    } catch (error) {
+      if (__DEV__) {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to discard data (key: "${key}"):`, error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Allow writes to a quarantined key again, e.g. before restoring a
+   * snapshot over it. The key reads as empty from then on; the raw
+   * corrupted value stays under the recovery key.
+   * Returns false if the key isn't quarantined
+   */
+  static async releaseQuarantinedItem(key: string): Promise<boolean> {
+    if (!SafeAsyncStorageJSONParser.quarantine.has(key)) return false;
+
+    try {
+      await AsyncStorage.removeItem(key);
+      SafeAsyncStorageJSONParser.release(key);
+      return true;
+    } catch (error) {
+      if (__DEV__) {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to release data (key: "${key}"):`, error);
+      }
+      return false;
+    }
+  }
 }
@@ -0,0 +1,307 @@
+/**
+ * Versioned schema migrations for stored and imported datasets.
+ *
+ * Every dataset carries a `version`. When a dataset is loaded from storage or
+ * imported, the ordered steps in SCHEMA_MIGRATIONS newer than its version are
+ * applied and the dataset is stamped with CURRENT_SCHEMA_VERSION. Datasets
+ * written by a newer app version are refused with a SchemaVersionError rather
+ * than being silently downgraded.
+ *
+ * Steps work on any dataset shape. Stored data and exports contain every
+ * collection, but an imported file may leave some of them out.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { DiscordConfig, DiscordServerConfig } from '@models/types';
+
+/**
+ * Version stamped on datasets that predate the migration registry
+ */
+export const LEGACY_SCHEMA_VERSION = '1.0';
+
+/**
+ * Discord config as stored before multi-server support, when serverConfigs
+ * could be missing
+ */
+export type LegacyDiscordConfig = Omit<DiscordConfig, 'serverConfigs'> & {
+  serverConfigs?: DiscordServerConfig[];
+};
+
+export interface VersionedDataset {
+  version?: string;
+  characters?: unknown[];
+  factions?: unknown[];
+  locations?: unknown[];
+  events?: unknown[];
+  discord?: { config?: LegacyDiscordConfig };
+}
+
+export interface SchemaMigration {
+  version: string; // Schema version this step upgrades a dataset to
+  description: string;
+  migrate: (dataset: VersionedDataset) => VersionedDataset;
+}
+
+export class SchemaVersionError extends Error {
+  constructor(
+    public readonly datasetVersion: string,
+    public readonly supportedVersion: string
+  ) {
+    super(
+      `This data was saved by a newer version of the app (data format ${datasetVersion}, this app supports up to ${supportedVersion}). Please update the app and try again.`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+/**
+ * Compare two dotted schema versions numerically ('1.10' is newer than '1.9')
+ */
+export const compareSchemaVersions = (a: string, b: string): number => {
+  const aParts = a.split('.').map(part => parseInt(part, 10) || 0);
+  const bParts = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(aParts.length, bParts.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const ENTITY_COLLECTIONS = [
+  'characters',
+  'factions',
+  'locations',
+  'events',
+] as const;
+
+const mapEntities = (
+  dataset: VersionedDataset,
+  transform: (entity: Record<string, unknown>) => Record<string, unknown>
+): VersionedDataset => {
+  const result: VersionedDataset = { ...dataset };
+  for (const key of ENTITY_COLLECTIONS) {
+    const entities = dataset[key];
+    if (Array.isArray(entities)) {
+      result[key] = entities.map(entity =>
+        transform(entity as Record<string, unknown>)
+      );
+    }
+  }
+  return result;
+};
+
+/**
+ * Convert a legacy single-server Discord config to the multi-server format
+ */
+export const migrateLegacyDiscordConfig = (
+  config: LegacyDiscordConfig
+): DiscordConfig => {
+  if (config.serverConfigs) {
+    return config as DiscordConfig;
+  }
+
+  const serverConfigs: DiscordServerConfig[] = [];
+  if (config.botToken && config.channelId) {
+    const now = new Date().toISOString();
+    serverConfigs.push({
+      id: 'legacy-default',
+      name: 'Default Server',
+      botToken: config.botToken,
+      guildId: config.guildId,
+      channelId: config.channelId,
+      enabled: config.enabled,
+      lastSync: config.lastSync,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  return { ...config, serverConfigs };
+};
+
+/**
+ * Ordered registry of schema migrations. Append new steps with a higher
+ * version; never edit a step that has shipped.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: '2.0',
+    description:
+      'Fold deprecated imageUri into imageUris and move legacy Discord bot settings into serverConfigs',
+    migrate: dataset => {
+      const migrated = mapEntities(dataset, entity => {
+        if (!('imageUri' in entity)) return entity;
+
+        const { imageUri, ...rest } = entity;
+        const imageUris = Array.isArray(rest.imageUris) ? rest.imageUris : [];
+        if (
+          imageUris.length === 0 &&
+          typeof imageUri === 'string' &&
+          imageUri
+        ) {
+          return { ...rest, imageUris: [imageUri] };
+        }
+        return rest;
+      });
+
+      if (migrated.discord?.config) {
+        migrated.discord = {
+          ...migrated.discord,
+          config: migrateLegacyDiscordConfig(migrated.discord.config),
+        };
+      }
+
+      return migrated;
+    },
+  },
+  {
+    version: '2.1',
+    description:
+      'Replace the free-text character location with a link to a location, creating the locations that are missing',
+    migrate: dataset => {
+      if (!Array.isArray(dataset.characters)) return dataset;
+
+      const locations = [...(dataset.locations ?? [])] as Record<
+        string,
+        unknown
+      >[];
+      const locationIds = new Map(
+        locations.map(location => [
+          String(location.name).toLowerCase(),
+          location.id,
+        ])
+      );
+
+      const characters = (dataset.characters as Record<string, unknown>[]).map(
+        character => {
+          if (!('location' in character)) return character;
+
+          const { location, ...rest } = character;
+          if (rest.locationId || typeof location !== 'string' || !location) {
+            return rest;
+          }
+
+          let locationId = locationIds.get(location.toLowerCase());
+          if (!locationId) {
+            const now = new Date().toISOString();
+            locationId = uuidv4();
+            locations.push({
+              id: locationId,
+              name: location,
+              description: `Migrated from old location data: ${location}`,
+              createdAt: now,
+              updatedAt: now,
+            });
+            locationIds.set(location.toLowerCase(), locationId);
+          }
+          return { ...rest, locationId };
+        }
+      );
+
+      return locations.length > (dataset.locations?.length ?? 0)
+        ? { ...dataset, characters, locations }
+        : { ...dataset, characters };
+    },
+  },
+  {
+    version: '2.2',
+    description:
+      'Copy faction descriptions kept on character memberships to the faction, creating the factions that are missing',
+    migrate: dataset => {
+      // Without the faction list there is nothing to copy into, and creating
+      // one would replace the stored factions on import
+      if (
+        !Array.isArray(dataset.characters) ||
+        !Array.isArray(dataset.factions)
+      ) {
+        return dataset;
+      }
+
+      // The first non-empty description of each faction wins
+      const descriptions = new Map<string, string>();
+      (dataset.characters as { factions?: Record<string, unknown>[] }[])
+        .flatMap(character => character.factions ?? [])
+        .forEach(membership => {
+          const { name, description } = membership;
+          if (
+            typeof name === 'string' &&
+            typeof description === 'string' &&
+            description.trim() !== '' &&
+            !descriptions.has(name)
+          ) {
+            descriptions.set(name, description);
+          }
+        });
+      if (descriptions.size === 0) return dataset;
+
+      const now = new Date().toISOString();
+      const factions = (dataset.factions as Record<string, unknown>[]).map(
+        faction => {
+          const description = descriptions.get(String(faction.name));
+          if (description === undefined) return faction;
+
+          descriptions.delete(String(faction.name));
+          return faction.description
+            ? faction
+            : { ...faction, description, updatedAt: now };
+        }
+      );
+      // New factions get their ID when faction references are linked
+      descriptions.forEach((description, name) => {
+        factions.push({ name, description, createdAt: now, updatedAt: now });
+      });
+
+      return { ...dataset, factions };
+    },
+  },
+  {
+    version: '2.3',
+    description:
+      'Include the progression ledger and live character state in exports',
+    // Older datasets have neither, so importing them leaves both as stored
+    migrate: dataset => dataset,
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION =
+  SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a dataset up to the current schema version.
+ * Throws SchemaVersionError if the dataset comes from a newer app version.
+ */
+export const migrateDataset = <T extends VersionedDataset>(
+  dataset: T,
+  migrations: SchemaMigration[] = SCHEMA_MIGRATIONS
+): { dataset: T; migrated: boolean } => {
+  const fromVersion = dataset.version || LEGACY_SCHEMA_VERSION;
+  const ordered = [...migrations].sort((a, b) =>
+    compareSchemaVersions(a.version, b.version)
+  );
+  const targetVersion =
+    ordered.length > 0 ? ordered[ordered.length - 1].version : fromVersion;
+
+  if (compareSchemaVersions(fromVersion, targetVersion) > 0) {
+    throw new SchemaVersionError(fromVersion, targetVersion);
+  }
+
+  const pending = ordered.filter(
+    step => compareSchemaVersions(step.version, fromVersion) > 0
+  );
+
+  if (pending.length === 0 && dataset.version === targetVersion) {
+    return { dataset, migrated: false };
+  }
+
+  let migrated: VersionedDataset = dataset;
+  for (const step of pending) {
+    migrated = { ...step.migrate(migrated), version: step.version };
+  }
+
+  return {
+    dataset: { ...migrated, version: targetVersion } as T,
+    migrated: true,
+  };
+};
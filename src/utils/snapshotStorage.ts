@@ -0,0 +1,201 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+import { clearStorage, exportDataset, importDataset } from './characterStorage';
+import { EntityChange, diffEntities } from './changeJournal';
+
+/**
+ * Local snapshots
+ *
+ * A snapshot is the full exportDataset payload of the active campaign. One
+ * is taken automatically before every import, merge, clear and restore, and
+ * once a day. Only the most recent ones are kept, and embedded images can
+ * make payloads large, so older snapshots are also dropped once the
+ * payloads together exceed a size budget. The index and each payload live
+ * under separate keys so listing snapshots stays cheap.
+ */
+
+export type SnapshotReason =
+  | 'import'
+  | 'merge'
+  | 'clear'
+  | 'restore'
+  | 'daily'
+  | 'manual';
+
+export interface SnapshotCounts {
+  characters: number;
+  factions: number;
+  locations: number;
+  events: number;
+}
+
+export interface Snapshot {
+  id: string;
+  reason: SnapshotReason;
+  createdAt: string;
+  counts: SnapshotCounts;
+  size: number; // Payload length in characters
+}
+
+interface SnapshotIndexDataset {
+  snapshots: Snapshot[];
+  version: string;
+  lastUpdated: string;
+}
+
+const SNAPSHOT_INDEX_STORAGE_KEY = 'gameCharacterManager_snapshots';
+const SNAPSHOT_PAYLOAD_STORAGE_KEY = 'gameCharacterManager_snapshot';
+
+export const MAX_SNAPSHOTS = 10;
+// Total payload length kept across snapshots; the newest is always kept
+export const MAX_SNAPSHOT_STORAGE = 4 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  import: 'Before import',
+  merge: 'Before merge',
+  clear: 'Before clearing data',
+  restore: 'Before restoring a snapshot',
+  daily: 'Daily',
+  manual: 'Manual',
+};
+
+const getPayloadKey = (snapshotId: string): string =>
+  getCampaignStorageKey(`${SNAPSHOT_PAYLOAD_STORAGE_KEY}_${snapshotId}`);
+
+const saveSnapshotIndex = async (snapshots: Snapshot[]): Promise<void> => {
+  const dataset: SnapshotIndexDataset = {
+    snapshots,
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  };
+  const key = getCampaignStorageKey(SNAPSHOT_INDEX_STORAGE_KEY);
+  if (!(await SafeAsyncStorageJSONParser.setItem(key, dataset))) {
+    throw new StorageWriteError(key);
+  }
+};
+
+const countEntities = (payload: string): SnapshotCounts => {
+  const dataset = JSON.parse(payload);
+  return {
+    characters: dataset.characters?.length ?? 0,
+    factions: dataset.factions?.length ?? 0,
+    locations: dataset.locations?.length ?? 0,
+    events: dataset.events?.length ?? 0,
+  };
+};
+
+/**
+ * Load the snapshots of the active campaign, newest first
+ */
+export const loadSnapshots = async (): Promise<Snapshot[]> => {
+  const dataset =
+    await SafeAsyncStorageJSONParser.getItem<SnapshotIndexDataset>(
+      getCampaignStorageKey(SNAPSHOT_INDEX_STORAGE_KEY)
+    );
+  return [...(dataset?.snapshots ?? [])].reverse();
+};
+
+/**
+ * Snapshot the current data. A failed snapshot is logged and returns null so
+ * it never blocks the operation it was meant to protect.
+ */
+export const createSnapshot = async (
+  reason: SnapshotReason
+): Promise<Snapshot | null> => {
+  try {
+    const payload = await exportDataset();
+    const snapshot: Snapshot = {
+      id: uuidv4(),
+      reason,
+      createdAt: new Date().toISOString(),
+      counts: countEntities(payload),
+      size: payload.length,
+    };
+
+    const payloadKey = getPayloadKey(snapshot.id);
+    if (!(await SafeAsyncStorageJSONParser.setItem(payloadKey, payload))) {
+      throw new StorageWriteError(payloadKey);
+    }
+
+    // Oldest first; drop the payloads of snapshots that roll off
+    const snapshots = [...(await loadSnapshots()).reverse(), snapshot];
+    let kept = snapshots.slice(-MAX_SNAPSHOTS);
+    while (
+      kept.length > 1 &&
+      kept.reduce((total, s) => total + s.size, 0) > MAX_SNAPSHOT_STORAGE
+    ) {
+      kept = kept.slice(1);
+    }
+    const expired = snapshots.slice(0, snapshots.length - kept.length);
+    for (const old of expired) {
+      await SafeAsyncStorageJSONParser.removeItem(getPayloadKey(old.id));
+    }
+    await saveSnapshotIndex(kept);
+
+    return snapshot;
+  } catch (error) {
+    console.error('Failed to create snapshot:', error);
+    return null;
+  }
+};
+
+/**
+ * Take the daily snapshot unless one was taken in the last 24 hours
+ */
+export const ensureDailySnapshot = async (): Promise<Snapshot | null> => {
+  const snapshots = await loadSnapshots();
+  const lastDaily = snapshots.find(snapshot => snapshot.reason === 'daily');
+
+  if (lastDaily && Date.now() - Date.parse(lastDaily.createdAt) < DAY_MS) {
+    return null;
+  }
+  return await createSnapshot('daily');
+};
+
+const loadSnapshotPayload = async (
+  snapshotId: string
+): Promise<string | null> =>
+  await SafeAsyncStorageJSONParser.getItem<string>(getPayloadKey(snapshotId));
+
+/**
+ * Replace all data of the active campaign with a snapshot, including the
+ * inventory, progression ledger and live state. The current data is
+ * snapshotted first, so a restore can itself be rolled back; nothing is
+ * touched if that fails. Discord data is merged rather than replaced, as
+ * with any import.
+ */
+export const restoreSnapshot = async (snapshotId: string): Promise<boolean> => {
+  const payload = await loadSnapshotPayload(snapshotId);
+  if (!payload) return false;
+
+  if (!(await createSnapshot('restore'))) return false;
+  await clearStorage();
+  return await importDataset(payload);
+};
+
+/**
+ * Compare a snapshot with the current data. "before" is the snapshot side
+ * and "after" the current side, so a change with no "before" was created
+ * since the snapshot. Returns null if the snapshot doesn't exist.
+ */
+export const diffSnapshotWithCurrent = async (
+  snapshotId: string
+): Promise<EntityChange[] | null> => {
+  const payload = await loadSnapshotPayload(snapshotId);
+  if (!payload) return null;
+
+  const snapshot = JSON.parse(payload);
+  const current = JSON.parse(await exportDataset());
+
+  return [
+    ...diffEntities('character', snapshot.characters, current.characters),
+    ...diffEntities('faction', snapshot.factions, current.factions),
+    ...diffEntities('location', snapshot.locations, current.locations),
+    ...diffEntities('event', snapshot.events, current.events),
+  ];
+};
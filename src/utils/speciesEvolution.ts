@@ -0,0 +1,157 @@
+import {
+  CharacterFormData,
+  GameCharacter,
+  SpeciesTransition,
+} from '@models/types';
+import { RulesPack } from '@models/gameData';
+import { Species } from '@models/speciesTypes';
+import { getActiveRulesPack } from './rulesPackStorage';
+import { updateCharacter } from './characterStorage';
+import { getCyberwareCatalog, isCyberwareInstalled } from './cyberwareCatalog';
+
+/**
+ * Species evolution
+ *
+ * Species with prerequisites in the rules pack (the prestige species of the
+ * built-in pack) can't be picked freely: a character becomes one by
+ * evolving from one of the listed species once it has the required perks
+ * and installed cyberware. Each evolution is recorded on the character with
+ * its in-game date and the species it came from.
+ */
+
+export interface EvolutionOption {
+  species: Species;
+  errors: string[]; // Unmet prerequisites; empty when the character can evolve
+}
+
+export interface EvolutionResult {
+  character: GameCharacter | null; // Null when the evolution was refused
+  errors: string[];
+}
+
+/**
+ * List the prerequisites a character doesn't meet for becoming the target
+ * species. fromSpecies is the species the character evolves from; leave it
+ * unset for a character that doesn't exist yet.
+ */
+export const getEvolutionErrors = (
+  character: CharacterFormData | GameCharacter,
+  targetSpecies: Species,
+  fromSpecies: Species | undefined,
+  rulesPack: RulesPack = getActiveRulesPack()
+): string[] => {
+  const stats = rulesPack.species[targetSpecies];
+  if (!stats) {
+    return [
+      `${targetSpecies} is not a species of the ${rulesPack.name} rules pack.`,
+    ];
+  }
+  const prerequisites = stats.prerequisites;
+  if (!prerequisites) return [];
+
+  const errors: string[] = [];
+  if (!fromSpecies || !prerequisites.fromSpecies.includes(fromSpecies)) {
+    errors.push(
+      `${targetSpecies} characters must evolve from ${prerequisites.fromSpecies.join(', ')}.`
+    );
+  }
+
+  (prerequisites.perkIds ?? []).forEach(perkId => {
+    if (!character.perkIds.includes(perkId)) {
+      const perk = rulesPack.perks.find(p => p.id === perkId);
+      errors.push(
+        `Evolving into ${targetSpecies} requires the ${perk?.name ?? perkId} perk.`
+      );
+    }
+  });
+
+  const installed = (character.cyberware ?? []).filter(isCyberwareInstalled);
+  (prerequisites.cyberwareIds ?? []).forEach(cyberwareId => {
+    if (!installed.some(cyber => cyber.catalogId === cyberwareId)) {
+      const definition = getCyberwareCatalog(rulesPack).find(
+        d => d.id === cyberwareId
+      );
+      const name = definition?.name ?? cyberwareId;
+      errors.push(
+        `Evolving into ${targetSpecies} requires an installed ${name}.`
+      );
+    }
+  });
+
+  const minCyberware = prerequisites.minCyberware ?? 0;
+  if (installed.length < minCyberware) {
+    errors.push(
+      `Evolving into ${targetSpecies} requires ${minCyberware} installed implants, but ${installed.length} ${installed.length === 1 ? 'is' : 'are'} installed.`
+    );
+  }
+
+  return errors;
+};
+
+/**
+ * The species a character could evolve into from its current species, with
+ * the prerequisites it still misses
+ */
+export const getEvolutionOptions = (
+  character: GameCharacter,
+  rulesPack: RulesPack = getActiveRulesPack()
+): EvolutionOption[] =>
+  Object.entries(rulesPack.species)
+    .filter(([, stats]) =>
+      stats.prerequisites?.fromSpecies.includes(character.species)
+    )
+    .map(([species]) => ({
+      species,
+      errors: getEvolutionErrors(
+        character,
+        species,
+        character.species,
+        rulesPack
+      ),
+    }));
+
+/**
+ * Evolve a character into another species on an in-game date, recording
+ * the species it came from. Refused when a prerequisite isn't met or the
+ * date lies before the character's previous evolution.
+ */
+export const evolveCharacter = async (
+  character: GameCharacter,
+  targetSpecies: Species,
+  date: string,
+  rulesPack: RulesPack = getActiveRulesPack()
+): Promise<EvolutionResult> => {
+  const errors = getEvolutionErrors(
+    character,
+    targetSpecies,
+    character.species,
+    rulesPack
+  );
+  if (targetSpecies === character.species) {
+    errors.push(`${character.name} already is ${targetSpecies}.`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    errors.push('The date must be in YYYY-MM-DD format.');
+  }
+  const history = character.speciesHistory ?? [];
+  const previous = history[history.length - 1];
+  if (previous && date < previous.date) {
+    errors.push(
+      `${character.name} only became ${previous.to} on ${previous.date}.`
+    );
+  }
+  if (errors.length > 0) return { character: null, errors };
+
+  const transition: SpeciesTransition = {
+    from: character.species,
+    to: targetSpecies,
+    date,
+  };
+  const updated = await updateCharacter(character.id, {
+    species: targetSpecies,
+    speciesHistory: [...history, transition],
+  });
+  return updated
+    ? { character: updated, errors: [] }
+    : { character: null, errors: ['The character no longer exists.'] };
+};
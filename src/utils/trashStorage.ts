@@ -0,0 +1,165 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from './safeAsyncStorageJSONParser';
+import { getCampaignStorageKey } from './campaignStorage';
+import {
+  EntityChange,
+  JournalEntity,
+  JournalEntityType,
+  getEntityName,
+} from './changeJournal';
+import type { InventoryItem } from '@models/types';
+import type { ProgressionEntry } from './progressionLedger';
+import type { StoredLiveState } from './liveStateStorage';
+
+/**
+ * Trash
+ *
+ * Deleted characters, factions, locations and events are kept here together
+ * with the edits the deletion cascaded into other entities (e.g. faction
+ * memberships stripped from characters), so a restore can put both back.
+ * A deleted character's inventory, ledger and live state are kept with it.
+ * Items are purged automatically once they are older than the retention
+ * period. The trash is per campaign; the retention period is per device.
+ * Restoring lives in characterStorage (restoreFromTrash).
+ */
+
+export interface TrashItem {
+  id: string;
+  entityType: JournalEntityType;
+  entityId: string;
+  entityName: string;
+  entity: JournalEntity; // Snapshot at the time of deletion
+  cascadedChanges: EntityChange[]; // Edits made to other entities
+  ownedRecords?: OwnedRecords; // Set for characters
+  deletedAt: string;
+}
+
+// Data kept outside the character record that belongs to the character
+export interface OwnedRecords {
+  inventory: InventoryItem[];
+  progression: ProgressionEntry[];
+  liveStates: StoredLiveState[];
+}
+
+interface TrashDataset {
+  items: TrashItem[];
+  version: string;
+  lastUpdated: string;
+}
+
+const TRASH_STORAGE_KEY = 'gameCharacterManager_trash';
+// The retention period is a device setting and therefore never namespaced
+const RETENTION_STORAGE_KEY = 'gameCharacterManager_trash_retention';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const loadTrash = async (): Promise<TrashItem[]> => {
+  const dataset = await SafeAsyncStorageJSONParser.getItem<TrashDataset>(
+    getCampaignStorageKey(TRASH_STORAGE_KEY)
+  );
+  return dataset?.items ?? [];
+};
+
+const saveTrash = async (items: TrashItem[]): Promise<void> => {
+  const dataset: TrashDataset = {
+    items,
+    version: '1.0',
+    lastUpdated: new Date().toISOString(),
+  };
+  const key = getCampaignStorageKey(TRASH_STORAGE_KEY);
+  if (!(await SafeAsyncStorageJSONParser.setItem(key, dataset))) {
+    throw new StorageWriteError(key);
+  }
+};
+
+/**
+ * Get how many days deleted entities are kept before they are purged
+ */
+export const getTrashRetentionDays = async (): Promise<number> => {
+  const days = await SafeAsyncStorageJSONParser.getItem<number>(
+    RETENTION_STORAGE_KEY
+  );
+  return typeof days === 'number' && days > 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+/**
+ * Set the retention period. Returns false for anything but a positive
+ * whole number of days.
+ */
+export const setTrashRetentionDays = async (days: number): Promise<boolean> => {
+  if (!Number.isInteger(days) || days <= 0) return false;
+
+  return await SafeAsyncStorageJSONParser.setItem(RETENTION_STORAGE_KEY, days);
+};
+
+/**
+ * Load the trash, newest first. Items past the retention period are purged.
+ */
+export const loadTrashItems = async (): Promise<TrashItem[]> => {
+  const items = await loadTrash();
+  const retentionDays = await getTrashRetentionDays();
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+
+  const kept = items.filter(item => Date.parse(item.deletedAt) >= cutoff);
+  if (kept.length !== items.length) {
+    await saveTrash(kept);
+  }
+
+  return [...kept].reverse();
+};
+
+export const getTrashItem = async (id: string): Promise<TrashItem | null> => {
+  const items = await loadTrash();
+  return items.find(item => item.id === id) ?? null;
+};
+
+/**
+ * Move a deleted entity into the trash along with the edits its deletion
+ * made to other entities
+ */
+export const addToTrash = async (
+  entityType: JournalEntityType,
+  entity: JournalEntity,
+  cascadedChanges: EntityChange[] = [],
+  ownedRecords?: OwnedRecords
+): Promise<TrashItem> => {
+  const items = await loadTrash();
+  const item: TrashItem = {
+    id: uuidv4(),
+    entityType,
+    entityId: entity.id,
+    entityName: getEntityName(entity),
+    entity,
+    cascadedChanges,
+    ...(ownedRecords ? { ownedRecords } : {}),
+    deletedAt: new Date().toISOString(),
+  };
+
+  await saveTrash([...items, item]);
+  return item;
+};
+
+/**
+ * Permanently remove an item from the trash
+ */
+export const purgeTrashItem = async (id: string): Promise<boolean> => {
+  const items = await loadTrash();
+  const remaining = items.filter(item => item.id !== id);
+
+  if (remaining.length === items.length) return false;
+
+  await saveTrash(remaining);
+  return true;
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  await SafeAsyncStorageJSONParser.removeItem(
+    getCampaignStorageKey(TRASH_STORAGE_KEY)
+  );
+};
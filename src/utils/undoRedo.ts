@@ -0,0 +1,135 @@
+import {
+  ChangeJournalEntry,
+  EntityChange,
+  JournalEntity,
+  JournalEntityType,
+  getUndoRedoState,
+  recordRedo,
+  recordUndo,
+} from './changeJournal';
+import {
+  loadCharacters,
+  loadEvents,
+  loadFactions,
+  loadLocations,
+  saveCharacters,
+  saveEvents,
+  saveFactions,
+  saveLocations,
+} from './characterStorage';
+
+/**
+ * App-wide undo/redo on top of the change journal. Undo writes the "before"
+ * side of the last journal entry back to storage, redo the "after" side.
+ * Updates only record the fields they changed, so undoing one keeps edits
+ * made to other fields in between; an entity deleted in between stays
+ * deleted.
+ */
+
+const upsertById = <T extends JournalEntity>(
+  entities: T[],
+  id: string,
+  entity: T | null
+): T[] => {
+  if (!entity) return entities.filter(e => e.id !== id);
+  return entities.some(e => e.id === id)
+    ? entities.map(e => (e.id === id ? entity : e))
+    : [...entities, entity];
+};
+
+// The entity as it is on one side of the change. Fields only the other
+// side has didn't exist on this side and are removed.
+const applyChange = <T extends JournalEntity>(
+  entity: T | undefined,
+  change: EntityChange,
+  side: 'before' | 'after'
+): T | null => {
+  const fields = change[side];
+  const other = change[side === 'before' ? 'after' : 'before'];
+  if (!fields || !other) return fields as T | null;
+  if (!entity) return null;
+
+  const updated: Record<string, unknown> = { ...entity, ...fields };
+  Object.keys(other)
+    .filter(key => !(key in fields))
+    .forEach(key => delete updated[key]);
+  return updated as unknown as T;
+};
+
+const applyToCollection = <T extends JournalEntity>(
+  entities: T[],
+  changes: EntityChange[],
+  side: 'before' | 'after'
+): T[] =>
+  changes.reduce(
+    (result, change) =>
+      upsertById(
+        result,
+        change.entityId,
+        applyChange(
+          result.find(e => e.id === change.entityId),
+          change,
+          side
+        )
+      ),
+    entities
+  );
+
+// Write one side of a set of changes back to storage
+const applyEntityStates = async (
+  changes: EntityChange[],
+  side: 'before' | 'after'
+): Promise<void> => {
+  const ofType = (type: JournalEntityType) =>
+    changes.filter(change => change.entityType === type);
+
+  const characterChanges = ofType('character');
+  if (characterChanges.length > 0) {
+    const characters = await loadCharacters();
+    await saveCharacters(applyToCollection(characters, characterChanges, side));
+  }
+
+  const factionChanges = ofType('faction');
+  if (factionChanges.length > 0) {
+    const factions = await loadFactions();
+    await saveFactions(applyToCollection(factions, factionChanges, side));
+  }
+
+  const locationChanges = ofType('location');
+  if (locationChanges.length > 0) {
+    const locations = await loadLocations();
+    await saveLocations(applyToCollection(locations, locationChanges, side));
+  }
+
+  const eventChanges = ofType('event');
+  if (eventChanges.length > 0) {
+    const events = await loadEvents();
+    await saveEvents(applyToCollection(events, eventChanges, side));
+  }
+};
+
+/**
+ * Undo the most recent change. Returns the entry that was undone, or null if
+ * there is nothing to undo.
+ */
+export const undoLastChange = async (): Promise<ChangeJournalEntry | null> => {
+  const { undo } = await getUndoRedoState();
+  if (!undo) return null;
+
+  await applyEntityStates([...undo.changes].reverse(), 'before');
+  await recordUndo(undo);
+  return undo;
+};
+
+/**
+ * Redo the most recently undone change. Returns the entry that was redone,
+ * or null if there is nothing to redo.
+ */
+export const redoLastChange = async (): Promise<ChangeJournalEntry | null> => {
+  const { redo } = await getUndoRedoState();
+  if (!redo) return null;
+
+  await applyEntityStates(redo.changes, 'after');
+  await recordRedo(redo);
+  return redo;
+};
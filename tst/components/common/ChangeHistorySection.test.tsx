@@ -0,0 +1,101 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { ChangeHistorySection } from '@components/common/ChangeHistorySection';
+import * as changeJournal from '@utils/changeJournal';
+
+jest.mock('@utils/changeJournal', () => ({
+  getEntityHistory: jest.fn(),
+  getChangedFields: jest.requireActual('@utils/changeJournal').getChangedFields,
+  subscribeToJournalChanges: jest.fn(() => jest.fn()),
+}));
+
+describe('ChangeHistorySection', () => {
+  const location = {
+    id: 'loc-1',
+    name: 'Harbor',
+    description: 'Docks',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show an empty state when nothing was recorded', async () => {
+    (changeJournal.getEntityHistory as jest.Mock).mockResolvedValue([]);
+
+    const { getByText } = render(
+      <ChangeHistorySection entityType="location" entityId="loc-1" />
+    );
+    fireEvent.press(getByText('History'));
+
+    await waitFor(() => {
+      expect(getByText('No recorded changes yet')).toBeTruthy();
+    });
+    expect(changeJournal.getEntityHistory).toHaveBeenCalledWith(
+      'location',
+      'loc-1'
+    );
+  });
+
+  it('should list entries with author and changed fields', async () => {
+    (changeJournal.getEntityHistory as jest.Mock).mockResolvedValue([
+      {
+        id: 'entry-2',
+        description: 'Updated location "Harbor"',
+        author: 'Alice',
+        timestamp: '2025-01-02T00:00:00.000Z',
+        changes: [
+          {
+            entityType: 'location',
+            entityId: 'loc-1',
+            entityName: 'Harbor',
+            before: location,
+            after: { ...location, description: 'Market' },
+          },
+        ],
+      },
+      {
+        id: 'entry-1',
+        description: 'Created location "Harbor"',
+        author: 'Bob',
+        timestamp: '2025-01-01T00:00:00.000Z',
+        changes: [
+          {
+            entityType: 'location',
+            entityId: 'loc-1',
+            entityName: 'Harbor',
+            before: null,
+            after: location,
+          },
+        ],
+      },
+    ]);
+
+    const { getByText } = render(
+      <ChangeHistorySection entityType="location" entityId="loc-1" />
+    );
+    fireEvent.press(getByText('History'));
+
+    await waitFor(() => {
+      expect(getByText('Updated location "Harbor"')).toBeTruthy();
+    });
+    expect(getByText('Changed: description')).toBeTruthy();
+    expect(getByText('Created')).toBeTruthy();
+    expect(getByText(/^Alice · /)).toBeTruthy();
+  });
+
+  it('should refresh when the journal changes', async () => {
+    (changeJournal.getEntityHistory as jest.Mock).mockResolvedValue([]);
+
+    const { unmount } = render(
+      <ChangeHistorySection entityType="event" entityId="event-1" />
+    );
+
+    await waitFor(() => {
+      expect(changeJournal.subscribeToJournalChanges).toHaveBeenCalled();
+    });
+    unmount();
+  });
+});
@@ -0,0 +1,20 @@
+import { GameCharacter } from '@/models/types';
+
+/**
+ * A minimal valid character. Pass overrides for the fields the test is
+ * about.
+ */
+export const makeCharacter = (
+  overrides: Partial<GameCharacter> = {}
+): GameCharacter => ({
+  id: 'char-1',
+  name: 'Alice',
+  species: 'Human',
+  perkIds: [],
+  distinctionIds: [],
+  factions: [],
+  relationships: [],
+  createdAt: '2025-01-01',
+  updatedAt: '2025-01-01',
+  ...overrides,
+});
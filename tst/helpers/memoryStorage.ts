@@ -0,0 +1,47 @@
+import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+
+/**
+ * Back the mocked SafeAsyncStorageJSONParser with an in-memory store, so
+ * data persists between calls. Values are copied in and out, like real
+ * storage serialises them. Call from beforeEach in test files that mock
+ * '@/utils/safeAsyncStorageJSONParser'.
+ */
+export const mockMemoryStorage = (): Map<string, unknown> => {
+  const store = new Map<string, unknown>();
+  const read = (key: string) =>
+    store.has(key) ? JSON.parse(JSON.stringify(store.get(key))) : null;
+  const write = (key: string, value: unknown) => {
+    store.set(key, JSON.parse(JSON.stringify(value)));
+  };
+
+  (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockImplementation(
+    async (key: string) => read(key)
+  );
+  (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockImplementation(
+    async (key: string, value: unknown) => {
+      write(key, value);
+      return true;
+    }
+  );
+  (SafeAsyncStorageJSONParser.removeItem as jest.Mock).mockImplementation(
+    async (key: string) => {
+      store.delete(key);
+      return true;
+    }
+  );
+  (SafeAsyncStorageJSONParser.multiGet as jest.Mock).mockImplementation(
+    async (keys: string[]) =>
+      Object.fromEntries(keys.map(key => [key, read(key)]))
+  );
+  (SafeAsyncStorageJSONParser.multiSet as jest.Mock).mockImplementation(
+    async (entries: [string, unknown][]) => {
+      entries.forEach(([key, value]) => write(key, value));
+      return entries.length;
+    }
+  );
+  (SafeAsyncStorageJSONParser.getAllKeys as jest.Mock).mockImplementation(
+    async () => Array.from(store.keys())
+  );
+
+  return store;
+};
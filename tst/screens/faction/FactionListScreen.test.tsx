@@ -7,7 +7,6 @@ import * as characterStorage from '@utils/characterStorage';
 jest.mock('@utils/characterStorage', () => ({
   loadFactions: jest.fn(),
   loadCharacters: jest.fn(),
-  migrateFactionDescriptions: jest.fn(),
   getFactionDescription: jest.fn(),
 }));
 
@@ -0,0 +1,131 @@
+import {
+  findIllegalBuilds,
+  validateCharacterBuild,
+} from '@/utils/buildValidation';
+import { DEFAULT_RULES_PACK } from '@/models/gameData';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('buildValidation', () => {
+  describe('validateCharacterBuild', () => {
+    it('should accept a legal build', () => {
+      const character = makeCharacter({
+        species: 'Nomad',
+        perkIds: ['agility_16', 'endurance_26'],
+        distinctionIds: ['d1', 'd3'],
+      });
+
+      expect(validateCharacterBuild(character, DEFAULT_RULES_PACK)).toEqual([]);
+    });
+
+    it('should report perks and distinctions of other species', () => {
+      const character = makeCharacter({
+        species: 'Android',
+        perkIds: ['agility_16'],
+        distinctionIds: ['d3'],
+      });
+
+      const violations = validateCharacterBuild(character, DEFAULT_RULES_PACK);
+
+      expect(violations.map(v => [v.type, v.entityId])).toEqual([
+        ['perk-not-allowed', 'agility_16'],
+        ['distinction-not-allowed', 'd3'],
+      ]);
+      expect(violations[0].message).toBe(
+        'Tunnel Rat is only available to Nomad.'
+      );
+    });
+
+    it('should report duplicates, unknown IDs and too many distinctions', () => {
+      const character = makeCharacter({
+        perkIds: ['agility_1', 'agility_1', 'missing_perk'],
+        distinctionIds: ['d1', 'd2', 'd4', 'd5'],
+      });
+
+      expect(
+        validateCharacterBuild(character, DEFAULT_RULES_PACK).map(v => v.type)
+      ).toEqual(['duplicate-perk', 'unknown-perk', 'too-many-distinctions']);
+    });
+
+    it('should report cyberware on a species that cannot use it', () => {
+      const character = makeCharacter({
+        species: 'Android',
+        cyberware: [{ name: 'Arm Blade', description: '' }],
+      });
+
+      expect(validateCharacterBuild(character, DEFAULT_RULES_PACK)).toEqual([
+        {
+          type: 'cyberware-not-allowed',
+          field: 'cyberware',
+          message:
+            "Android characters can't use cyberware, but 1 piece is installed.",
+        },
+      ]);
+    });
+
+    it('should report stats that exceed the caps before clamping', () => {
+      const character = makeCharacter({
+        cyberware: [
+          {
+            name: 'Reactor Heart',
+            description: '',
+            statModifiers: { health: 5 },
+          },
+        ],
+      });
+
+      expect(validateCharacterBuild(character, DEFAULT_RULES_PACK)).toEqual([
+        {
+          type: 'health-over-cap',
+          field: 'stats',
+          message: 'Health adds up to 7, above the Human cap of 5.',
+        },
+      ]);
+    });
+
+    it('should count cap raises without changing the rules pack', () => {
+      const character = makeCharacter({
+        cyberware: [
+          {
+            name: 'Reinforced Frame',
+            description: '',
+            statModifiers: { health: 3, healthCap: 3 },
+          },
+        ],
+      });
+
+      expect(validateCharacterBuild(character, DEFAULT_RULES_PACK)).toEqual([]);
+      expect(DEFAULT_RULES_PACK.species.Human.healthCap).toBe(5);
+    });
+
+    it('should report a species the pack does not define', () => {
+      const character = makeCharacter({ species: 'Ghoul' });
+
+      expect(validateCharacterBuild(character, DEFAULT_RULES_PACK)).toEqual([
+        {
+          type: 'unknown-species',
+          field: 'species',
+          message: 'Ghoul is not a species of the Junktown rules pack.',
+        },
+      ]);
+    });
+  });
+
+  describe('findIllegalBuilds', () => {
+    it('should list only the characters that break the rules', () => {
+      const legal = makeCharacter({ id: '1' });
+      const illegal = makeCharacter({
+        id: '2',
+        species: 'Drone',
+        cyberware: [{ name: 'Arm Blade', description: '' }],
+      });
+
+      const builds = findIllegalBuilds([legal, illegal], DEFAULT_RULES_PACK);
+
+      expect(builds).toHaveLength(1);
+      expect(builds[0].character).toBe(illegal);
+      expect(builds[0].violations.map(v => v.type)).toEqual([
+        'cyberware-not-allowed',
+      ]);
+    });
+  });
+});
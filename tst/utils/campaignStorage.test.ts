@@ -0,0 +1,228 @@
+import {
+  DEFAULT_CAMPAIGN_ID,
+  createCampaign,
+  deleteCampaign,
+  getActiveCampaignId,
+  getCampaignStorageKey,
+  initializeCampaigns,
+  loadCampaigns,
+  renameCampaign,
+  setActiveCampaign,
+  subscribeToCampaignChanges,
+} from '@/utils/campaignStorage';
+import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'campaign-uuid'),
+}));
+
+describe('campaignStorage', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+  const sandbox = {
+    id: 'sandbox',
+    name: 'Sandbox',
+    createdAt: mockDate,
+    updatedAt: mockDate,
+  };
+  const defaultCampaign = {
+    id: DEFAULT_CAMPAIGN_ID,
+    name: 'Default Campaign',
+    createdAt: mockDate,
+    updatedAt: mockDate,
+  };
+
+  const mockStoredCampaigns = (activeCampaignId = DEFAULT_CAMPAIGN_ID) => {
+    (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+      campaigns: [defaultCampaign, sandbox],
+      activeCampaignId,
+      version: '1.0',
+      lastUpdated: mockDate,
+    });
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    // Reset the in-memory active campaign to the default
+    mockStoredCampaigns();
+    await setActiveCampaign(DEFAULT_CAMPAIGN_ID);
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getCampaignStorageKey', () => {
+    it('should keep legacy keys for the default campaign', () => {
+      expect(getCampaignStorageKey('gameCharacterManager')).toBe(
+        'gameCharacterManager'
+      );
+    });
+
+    it('should namespace keys for other campaigns', () => {
+      expect(getCampaignStorageKey('gameCharacterManager', 'sandbox')).toBe(
+        'gameCharacterManager@campaign:sandbox'
+      );
+    });
+
+    it('should follow the active campaign', async () => {
+      mockStoredCampaigns();
+
+      await setActiveCampaign('sandbox');
+
+      expect(getCampaignStorageKey('gameCharacterManager_factions')).toBe(
+        'gameCharacterManager_factions@campaign:sandbox'
+      );
+    });
+  });
+
+  describe('loadCampaigns', () => {
+    it('should always include the default campaign', async () => {
+      (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(null);
+
+      const campaigns = await loadCampaigns();
+
+      expect(campaigns).toHaveLength(1);
+      expect(campaigns[0].id).toBe(DEFAULT_CAMPAIGN_ID);
+    });
+  });
+
+  describe('initializeCampaigns', () => {
+    it('should restore the persisted active campaign', async () => {
+      mockStoredCampaigns('sandbox');
+
+      const campaign = await initializeCampaigns();
+
+      expect(campaign.id).toBe('sandbox');
+      expect(getActiveCampaignId()).toBe('sandbox');
+    });
+
+    it('should fall back to the default campaign if the active one is gone', async () => {
+      mockStoredCampaigns('missing');
+
+      const campaign = await initializeCampaigns();
+
+      expect(campaign.id).toBe(DEFAULT_CAMPAIGN_ID);
+    });
+  });
+
+  describe('setActiveCampaign', () => {
+    it('should persist the choice and notify listeners', async () => {
+      mockStoredCampaigns();
+      const listener = jest.fn();
+      const unsubscribe = subscribeToCampaignChanges(listener);
+
+      const result = await setActiveCampaign('sandbox');
+      unsubscribe();
+
+      expect(result).toEqual(sandbox);
+      expect(listener).toHaveBeenCalledWith(sandbox);
+      expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
+        'gameCharacterManager_campaigns',
+        expect.objectContaining({ activeCampaignId: 'sandbox' })
+      );
+    });
+
+    it('should return null for an unknown campaign', async () => {
+      mockStoredCampaigns();
+
+      const result = await setActiveCampaign('missing');
+
+      expect(result).toBeNull();
+      expect(getActiveCampaignId()).toBe(DEFAULT_CAMPAIGN_ID);
+    });
+  });
+
+  describe('createCampaign', () => {
+    it('should create a campaign with a new ID', async () => {
+      mockStoredCampaigns();
+
+      const result = await createCampaign('  Chapter Two  ');
+
+      expect(result).toEqual({
+        id: 'campaign-uuid',
+        name: 'Chapter Two',
+        createdAt: mockDate,
+        updatedAt: mockDate,
+      });
+      expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
+        'gameCharacterManager_campaigns',
+        expect.objectContaining({
+          campaigns: [defaultCampaign, sandbox, result],
+        })
+      );
+    });
+
+    it('should reject duplicate and empty names', async () => {
+      mockStoredCampaigns();
+
+      expect(await createCampaign('sandbox')).toBeNull();
+      expect(await createCampaign('   ')).toBeNull();
+      expect(SafeAsyncStorageJSONParser.setItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameCampaign', () => {
+    it('should rename an existing campaign', async () => {
+      mockStoredCampaigns();
+
+      const result = await renameCampaign('sandbox', 'Test Sandbox');
+
+      expect(result?.name).toBe('Test Sandbox');
+    });
+
+    it('should reject a name used by another campaign', async () => {
+      mockStoredCampaigns();
+
+      const result = await renameCampaign('sandbox', 'Default Campaign');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('deleteCampaign', () => {
+    it('should refuse to delete the default campaign', async () => {
+      const result = await deleteCampaign(DEFAULT_CAMPAIGN_ID);
+
+      expect(result).toBe(false);
+      expect(SafeAsyncStorageJSONParser.removeItem).not.toHaveBeenCalled();
+    });
+
+    it('should remove every key owned by the campaign', async () => {
+      mockStoredCampaigns();
+      (SafeAsyncStorageJSONParser.getAllKeys as jest.Mock).mockResolvedValue([
+        'gameCharacterManager',
+        'gameCharacterManager@campaign:sandbox',
+        'gameCharacterManager_discord_messages@campaign:sandbox',
+        'gameCharacterManager@campaign:other',
+      ]);
+
+      const result = await deleteCampaign('sandbox');
+
+      expect(result).toBe(true);
+      expect(SafeAsyncStorageJSONParser.removeItem).toHaveBeenCalledTimes(2);
+      expect(SafeAsyncStorageJSONParser.removeItem).toHaveBeenCalledWith(
+        'gameCharacterManager@campaign:sandbox'
+      );
+      expect(SafeAsyncStorageJSONParser.removeItem).toHaveBeenCalledWith(
+        'gameCharacterManager_discord_messages@campaign:sandbox'
+      );
+    });
+
+    it('should switch back to the default campaign when deleting the active one', async () => {
+      mockStoredCampaigns();
+      await setActiveCampaign('sandbox');
+      mockStoredCampaigns('sandbox');
+      (SafeAsyncStorageJSONParser.getAllKeys as jest.Mock).mockResolvedValue(
+        []
+      );
+
+      await deleteCampaign('sandbox');
+
+      expect(getActiveCampaignId()).toBe(DEFAULT_CAMPAIGN_ID);
+    });
+  });
+});
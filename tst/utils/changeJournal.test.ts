@@ -0,0 +1,260 @@
+import {
+  DEFAULT_JOURNAL_AUTHOR,
+  MAX_UNDO_STEPS,
+  createEntityChange,
+  diffEntities,
+  getChangedFields,
+  getEntityHistory,
+  getUndoRedoState,
+  recordChange,
+  recordUndo,
+  setJournalAuthor,
+  subscribeToJournalChanges,
+} from '@/utils/changeJournal';
+import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+import { GameLocation } from '@/models/types';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `entry-${++mockUuidCounter}`),
+}));
+
+describe('changeJournal', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+  let store: Map<string, unknown>;
+
+  const makeLocation = (
+    overrides: Partial<GameLocation> = {}
+  ): GameLocation => ({
+    id: 'loc-1',
+    name: 'Harbor',
+    description: 'Docks',
+    createdAt: mockDate,
+    updatedAt: mockDate,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    mockUuidCounter = 0;
+
+    // In-memory storage so entries persist between calls
+    store = new Map();
+    (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockImplementation(
+      async (key: string) => store.get(key) ?? null
+    );
+    (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockImplementation(
+      async (key: string, value: unknown) => {
+        store.set(key, value);
+        return true;
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('diffEntities', () => {
+    it('should detect created, updated and deleted entities', () => {
+      const kept = makeLocation({ id: 'loc-kept', name: 'Kept' });
+      const changed = makeLocation({ id: 'loc-2', name: 'Old' });
+      const removed = makeLocation({ id: 'loc-3', name: 'Removed' });
+      const added = makeLocation({ id: 'loc-4', name: 'Added' });
+
+      const changes = diffEntities(
+        'location',
+        [kept, changed, removed],
+        [kept, { ...changed, name: 'New' }, added]
+      );
+
+      expect(
+        changes.map(c => [c.entityId, !!c.before, !!c.after, c.entityName])
+      ).toEqual([
+        ['loc-2', true, true, 'New'],
+        ['loc-4', false, true, 'Added'],
+        ['loc-3', true, false, 'Removed'],
+      ]);
+    });
+
+    it('should ignore changes to updatedAt alone', () => {
+      const location = makeLocation();
+
+      expect(
+        diffEntities(
+          'location',
+          [location],
+          [{ ...location, updatedAt: '2026-01-01T00:00:00.000Z' }]
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('createEntityChange', () => {
+    it('should keep only the changed fields of an update', () => {
+      const before = makeLocation({ mapCoordinates: { x: 0.5, y: 0.5 } });
+      const after = {
+        ...makeLocation({ imageUris: ['data:image/png;base64,AAAA'] }),
+        description: 'Market',
+        updatedAt: 'later',
+      };
+
+      expect(createEntityChange('location', before, after)).toEqual({
+        entityType: 'location',
+        entityId: 'loc-1',
+        entityName: 'Harbor',
+        before: {
+          description: 'Docks',
+          updatedAt: mockDate,
+          mapCoordinates: { x: 0.5, y: 0.5 },
+        },
+        after: {
+          description: 'Market',
+          updatedAt: 'later',
+          imageUris: ['data:image/png;base64,AAAA'],
+        },
+      });
+    });
+
+    it('should refuse a change with neither side', () => {
+      expect(() => createEntityChange('location', null, null)).toThrow();
+    });
+  });
+
+  describe('getChangedFields', () => {
+    it('should list changed fields except the timestamp', () => {
+      const before = makeLocation();
+      const after = { ...before, description: 'Market', updatedAt: 'later' };
+
+      expect(
+        getChangedFields(createEntityChange('location', before, after))
+      ).toEqual(['description']);
+    });
+  });
+
+  describe('recordChange', () => {
+    it('should store the entry with the configured author', async () => {
+      await setJournalAuthor('  Alice  ');
+      const location = makeLocation();
+
+      const entry = await recordChange('Created location "Harbor"', [
+        createEntityChange('location', null, location),
+      ]);
+
+      expect(entry).toEqual({
+        id: 'entry-1',
+        description: 'Created location "Harbor"',
+        author: 'Alice',
+        timestamp: mockDate,
+        changes: [
+          {
+            entityType: 'location',
+            entityId: 'loc-1',
+            entityName: 'Harbor',
+            before: null,
+            after: location,
+          },
+        ],
+      });
+      expect((await getUndoRedoState()).undo).toEqual(entry);
+    });
+
+    it('should fall back to the default author', async () => {
+      const entry = await recordChange('Created location "Harbor"', [
+        createEntityChange('location', null, makeLocation()),
+      ]);
+
+      expect(entry?.author).toBe(DEFAULT_JOURNAL_AUTHOR);
+    });
+
+    it('should skip empty changes', async () => {
+      const entry = await recordChange('Nothing', []);
+
+      expect(entry).toBeNull();
+      expect(SafeAsyncStorageJSONParser.setItem).not.toHaveBeenCalled();
+    });
+
+    it('should clear the redo history', async () => {
+      const change = createEntityChange('location', null, makeLocation());
+      const first = await recordChange('First', [change]);
+      expect(first).not.toBeNull();
+      if (!first) return;
+      await recordUndo(first);
+      expect((await getUndoRedoState()).redo).toEqual(first);
+
+      await recordChange('Second', [change]);
+
+      expect((await getUndoRedoState()).redo).toBeNull();
+    });
+
+    it('should keep only the last undo steps', async () => {
+      const change = createEntityChange('location', null, makeLocation());
+      for (let i = 0; i <= MAX_UNDO_STEPS; i++) {
+        await recordChange(`Change ${i}`, [change]);
+      }
+
+      const journal = store.get('gameCharacterManager_journal') as {
+        undoStack: string[];
+      };
+      expect(journal.undoStack).toHaveLength(MAX_UNDO_STEPS);
+      expect(journal.undoStack[0]).toBe('entry-2');
+    });
+
+    it('should notify subscribers', async () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToJournalChanges(listener);
+
+      await recordChange('Created', [
+        createEntityChange('location', null, makeLocation()),
+      ]);
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('recordUndo', () => {
+    it('should log the undo with inverted changes', async () => {
+      const before = makeLocation();
+      const after = { ...before, name: 'Port' };
+      const entry = await recordChange('Renamed', [
+        createEntityChange('location', before, after),
+      ]);
+      expect(entry).not.toBeNull();
+      if (!entry) return;
+
+      await recordUndo(entry);
+
+      const history = await getEntityHistory('location', 'loc-1');
+      expect(history.map(e => e.description)).toEqual([
+        'Undo: Renamed',
+        'Renamed',
+      ]);
+      expect(history[0].revertsEntryId).toBe(entry.id);
+      expect(history[0].changes[0].after).toEqual({ name: 'Harbor' });
+      expect((await getUndoRedoState()).undo).toBeNull();
+    });
+  });
+
+  describe('getEntityHistory', () => {
+    it('should only include entries touching the entity', async () => {
+      await recordChange('Harbor edit', [
+        createEntityChange('location', null, makeLocation()),
+      ]);
+      await recordChange('Other edit', [
+        createEntityChange(
+          'location',
+          null,
+          makeLocation({ id: 'loc-2', name: 'Tower' })
+        ),
+      ]);
+
+      const history = await getEntityHistory('location', 'loc-1');
+
+      expect(history.map(e => e.description)).toEqual(['Harbor edit']);
+    });
+  });
+});
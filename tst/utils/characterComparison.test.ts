@@ -0,0 +1,112 @@
+import {
+  MAX_COMPARED_CHARACTERS,
+  compareCharacters,
+  toggleComparedCharacter,
+} from '@/utils/characterComparison';
+import { installCyberware } from '@/utils/cyberwareCatalog';
+import { CyberwareDefinition, RelationshipStanding } from '@/models/types';
+import { DEFAULT_RULES_PACK, RulesPack } from '@/models/gameData';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('characterComparison', () => {
+  const plating: CyberwareDefinition = {
+    id: 'c1',
+    name: 'Subdermal Plating',
+    description: '',
+  };
+  const rulesPack: RulesPack = {
+    ...DEFAULT_RULES_PACK,
+    perkTags: ['Finesse', 'Strength'],
+    perks: [
+      { id: 'p1', name: 'Quick Hands', tag: 'Finesse', description: '' },
+      { id: 'p2', name: 'Brawler', tag: 'Strength', description: '' },
+    ],
+    distinctions: [{ id: 'd1', name: 'Scarred', description: '' }],
+    cyberware: [plating],
+  };
+
+  it('should resolve the names of perks, distinctions and implants', () => {
+    const alice = makeCharacter({
+      perkIds: ['p1', 'gone'],
+      distinctionIds: ['d1'],
+      cyberware: [
+        installCyberware(plating),
+        { name: 'Arm Blade', description: '', removedDate: '2050-01-01' },
+      ],
+      factions: [{ name: 'Scrappers', standing: RelationshipStanding.Ally }],
+    });
+
+    const [compared] = compareCharacters([alice], rulesPack).characters;
+
+    expect(compared).toMatchObject({
+      perkNames: ['Quick Hands', 'gone'],
+      distinctionNames: ['Scarred'],
+      cyberwareNames: ['Subdermal Plating'],
+      factions: [{ name: 'Scrappers', standing: RelationshipStanding.Ally }],
+      tagScores: { Finesse: 1 },
+    });
+  });
+
+  it('should list shared perks, shared factions and mutual relationships', () => {
+    const alice = makeCharacter({
+      perkIds: ['p1', 'p2'],
+      factions: [
+        { name: 'Scrappers', standing: RelationshipStanding.Ally },
+        { name: 'Wardens', standing: RelationshipStanding.Neutral },
+      ],
+      relationships: [
+        { characterName: 'Bob', relationshipType: RelationshipStanding.Friend },
+      ],
+    });
+    const bob = makeCharacter({
+      id: '2',
+      name: 'Bob',
+      perkIds: ['p2'],
+      factions: [{ name: 'Scrappers', standing: RelationshipStanding.Hostile }],
+      relationships: [
+        {
+          characterName: 'Alice',
+          relationshipType: RelationshipStanding.Enemy,
+        },
+      ],
+    });
+
+    const comparison = compareCharacters([alice, bob], rulesPack);
+
+    expect(comparison.tags).toEqual(['Finesse', 'Strength']);
+    expect(comparison.sharedPerkNames).toEqual(['Brawler']);
+    expect(comparison.sharedFactionNames).toEqual(['Scrappers']);
+    expect(comparison.mutualRelationships).toEqual([
+      {
+        character1: alice,
+        character2: bob,
+        relationship1: RelationshipStanding.Friend,
+        relationship2: RelationshipStanding.Enemy,
+      },
+    ]);
+  });
+
+  it('should leave derived stats unset for a species the pack lacks', () => {
+    const alice = makeCharacter({ perkIds: ['p1'] });
+    const bob = makeCharacter({ id: '2', name: 'Bob', species: 'Gnome' });
+
+    const comparison = compareCharacters([alice, bob], rulesPack);
+
+    expect(comparison.characters[0].stats).not.toBeNull();
+    expect(comparison.characters[1]).toMatchObject({
+      stats: null,
+      tagScores: {},
+    });
+    expect(comparison.tags).toEqual(['Finesse']);
+  });
+
+  it('should cap the selection at the maximum', () => {
+    let selected: string[] = [];
+    ['1', '2', '3', '4', '5'].forEach(id => {
+      selected = toggleComparedCharacter(selected, id);
+    });
+
+    expect(selected).toHaveLength(MAX_COMPARED_CHARACTERS);
+    expect(toggleComparedCharacter(selected, '2')).toEqual(['1', '3', '4']);
+  });
+});
@@ -25,10 +25,19 @@ import {
   createEvent,
   updateEvent,
   deleteEvent,
-  type StoredFaction,
 } from '@/utils/characterStorage';
 import * as CharacterStorage from '@/utils/characterStorage';
 import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+import {
+  CURRENT_SCHEMA_VERSION,
+  SchemaVersionError,
+} from '@/utils/schemaMigrations';
+import { makeCharacter } from '../helpers/fixtures';
+import { recordXp } from '@/utils/progressionLedger';
+import { addInventoryItem } from '@/utils/inventoryStorage';
+import { adjustHealth } from '@/utils/liveStateStorage';
+import { DEFAULT_RULES_PACK } from '@/models/gameData';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
 import {
   GameCharacter,
   GameLocation,
@@ -48,8 +57,11 @@ jest.mock('uuid', () => ({
 describe('characterStorage', () => {
   const mockDate = '2025-01-01T00:00:00.000Z';
 
+  let store: Map<string, unknown>;
+
   beforeEach(() => {
     jest.clearAllMocks();
+    store = mockMemoryStorage();
     jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
   });
 
@@ -74,10 +86,6 @@ describe('characterStorage', () => {
 
     describe('loadCharacters', () => {
       it('should return empty array when no data exists', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          null
-        );
-
         const result = await loadCharacters();
 
         expect(result).toEqual([]);
@@ -89,16 +97,11 @@ describe('characterStorage', () => {
           version: '1.0',
           lastUpdated: mockDate,
         };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          mockDataset
-        );
+        store.set('gameCharacterManager', mockDataset);
 
         const result = await loadCharacters();
 
         expect(result).toEqual([mockCharacter]);
-        expect(SafeAsyncStorageJSONParser.getItem).toHaveBeenCalledWith(
-          'gameCharacterManager'
-        );
       });
 
       it('should apply backward compatibility defaults', async () => {
@@ -117,9 +120,7 @@ describe('characterStorage', () => {
           version: '1.0',
           lastUpdated: mockDate,
         };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          mockDataset
-        );
+        store.set('gameCharacterManager', mockDataset);
 
         const result = await loadCharacters();
 
@@ -129,7 +130,7 @@ describe('characterStorage', () => {
       });
 
       it('should return empty array when dataset has no characters property', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           version: '1.0',
           lastUpdated: mockDate,
         });
@@ -140,39 +141,79 @@ describe('characterStorage', () => {
       });
     });
 
+    describe('loadCharacters reference migration', () => {
+      it('should link name-based faction and character references by ID', async () => {
+        const legacyCharacters = [
+          {
+            ...mockCharacter,
+            id: 'char-1',
+            name: 'Alice',
+            factions: [
+              { name: 'Brotherhood', standing: RelationshipStanding.Ally },
+            ],
+            relationships: [
+              {
+                characterName: 'Bob',
+                relationshipType: RelationshipStanding.Friend,
+              },
+            ],
+          },
+          { ...mockCharacter, id: 'char-2', name: 'Bob', factions: [] },
+        ];
+        store.set('gameCharacterManager', {
+          characters: legacyCharacters,
+          version: '1.0',
+        });
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            {
+              id: 'faction-1',
+              name: 'Brotherhood',
+              description: '',
+              createdAt: mockDate,
+              updatedAt: mockDate,
+            },
+          ],
+          version: '1.0',
+        });
+
+        const result = await loadCharacters();
+
+        expect(result[0].factions[0].factionId).toBe('faction-1');
+        expect(result[0].relationships[0].characterId).toBe('char-2');
+        expect(store.get('gameCharacterManager_record_char-1')).toEqual(
+          result[0]
+        );
+      });
+    });
+
     describe('saveCharacters', () => {
       it('should save characters with proper dataset structure', async () => {
         const characters = [mockCharacter];
 
         await saveCharacters(characters);
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager',
-          {
-            characters,
-            version: '1.0',
-            lastUpdated: mockDate,
-          }
+        expect(store.get('gameCharacterManager')).toMatchObject({
+          ids: ['char-1'],
+        });
+        expect(store.get('gameCharacterManager_record_char-1')).toEqual(
+          mockCharacter
         );
+        expect(await loadCharacters()).toEqual(characters);
       });
 
       it('should save empty array', async () => {
+        await saveCharacters([mockCharacter]);
         await saveCharacters([]);
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager',
-          {
-            characters: [],
-            version: '1.0',
-            lastUpdated: mockDate,
-          }
-        );
+        expect(store.has('gameCharacterManager_record_char-1')).toBe(false);
+        expect(await loadCharacters()).toEqual([]);
       });
     });
 
     describe('addCharacter', () => {
       it('should add a new character with generated ID and timestamps', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -198,7 +239,7 @@ describe('characterStorage', () => {
       });
 
       it('should add character to existing list', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [mockCharacter],
           version: '1.0',
           lastUpdated: mockDate,
@@ -215,15 +256,14 @@ describe('characterStorage', () => {
 
         await addCharacter(newCharacterData);
 
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.characters).toHaveLength(2);
-        expect(savedData.characters[0]).toEqual(mockCharacter);
-        expect(savedData.characters[1].name).toBe('Second Character');
+        const saved = await loadCharacters();
+        expect(saved).toHaveLength(2);
+        expect(saved[0]).toEqual(mockCharacter);
+        expect(saved[1].name).toBe('Second Character');
       });
 
       it('should ensure relationships array exists', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -245,7 +285,7 @@ describe('characterStorage', () => {
 
     describe('updateCharacter', () => {
       it('should update existing character', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [mockCharacter],
           version: '1.0',
           lastUpdated: mockDate,
@@ -265,7 +305,7 @@ describe('characterStorage', () => {
       });
 
       it('should return null for non-existent character', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [mockCharacter],
           version: '1.0',
           lastUpdated: mockDate,
@@ -279,7 +319,7 @@ describe('characterStorage', () => {
       });
 
       it('should preserve unchanged properties', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [mockCharacter],
           version: '1.0',
           lastUpdated: mockDate,
@@ -295,7 +335,7 @@ describe('characterStorage', () => {
 
     describe('deleteCharacter', () => {
       it('should delete existing character', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [mockCharacter],
           version: '1.0',
           lastUpdated: mockDate,
@@ -304,13 +344,12 @@ describe('characterStorage', () => {
         const result = await deleteCharacter('char-1');
 
         expect(result).toBe(true);
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.characters).toHaveLength(0);
+        const saved = await loadCharacters();
+        expect(saved).toHaveLength(0);
       });
 
       it('should return false for non-existent character', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [mockCharacter],
           version: '1.0',
           lastUpdated: mockDate,
@@ -323,7 +362,7 @@ describe('characterStorage', () => {
 
       it('should delete only the specified character', async () => {
         const character2 = { ...mockCharacter, id: 'char-2', name: 'Char 2' };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [mockCharacter, character2],
           version: '1.0',
           lastUpdated: mockDate,
@@ -331,16 +370,15 @@ describe('characterStorage', () => {
 
         await deleteCharacter('char-1');
 
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.characters).toHaveLength(1);
-        expect(savedData.characters[0].id).toBe('char-2');
+        const saved = await loadCharacters();
+        expect(saved).toHaveLength(1);
+        expect(saved[0].id).toBe('char-2');
       });
     });
 
     describe('toggleCharacterPresent', () => {
       it('should toggle present status from false to true', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [mockCharacter],
           version: '1.0',
           lastUpdated: mockDate,
@@ -350,14 +388,13 @@ describe('characterStorage', () => {
 
         expect(result).not.toBeNull();
         expect(result?.present).toBe(true);
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.characters[0].present).toBe(true);
+        const saved = await loadCharacters();
+        expect(saved[0].present).toBe(true);
       });
 
       it('should toggle present status from true to false', async () => {
         const presentCharacter = { ...mockCharacter, present: true };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [presentCharacter],
           version: '1.0',
           lastUpdated: mockDate,
@@ -367,13 +404,12 @@ describe('characterStorage', () => {
 
         expect(result).not.toBeNull();
         expect(result?.present).toBe(false);
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.characters[0].present).toBe(false);
+        const saved = await loadCharacters();
+        expect(saved[0].present).toBe(false);
       });
 
       it('should return null for non-existent character', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -389,7 +425,7 @@ describe('characterStorage', () => {
       it('should set all characters present to false', async () => {
         const char1 = { ...mockCharacter, id: 'char-1', present: true };
         const char2 = { ...mockCharacter, id: 'char-2', present: true };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [char1, char2],
           version: '1.0',
           lastUpdated: mockDate,
@@ -397,14 +433,13 @@ describe('characterStorage', () => {
 
         await resetAllPresentStatus();
 
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.characters[0].present).toBe(false);
-        expect(savedData.characters[1].present).toBe(false);
+        const saved = await loadCharacters();
+        expect(saved[0].present).toBe(false);
+        expect(saved[1].present).toBe(false);
       });
 
       it('should handle empty character list', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager', {
           characters: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -412,7 +447,7 @@ describe('characterStorage', () => {
 
         await resetAllPresentStatus();
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalled();
+        expect(await loadCharacters()).toEqual([]);
       });
     });
   });
@@ -477,11 +512,10 @@ describe('characterStorage', () => {
           lastUpdated: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce(mockCharacters)
-          .mockResolvedValueOnce(mockFactions)
-          .mockResolvedValueOnce(mockLocations)
-          .mockResolvedValueOnce(mockEvents);
+        store.set('gameCharacterManager', mockCharacters);
+        store.set('gameCharacterManager_factions', mockFactions);
+        store.set('gameCharacterManager_locations', mockLocations);
+        store.set('gameCharacterManager_events', mockEvents);
 
         const result = await exportDataset();
         const parsed = JSON.parse(result);
@@ -490,14 +524,10 @@ describe('characterStorage', () => {
         expect(parsed.factions).toHaveLength(1);
         expect(parsed.locations).toHaveLength(1);
         expect(parsed.events).toHaveLength(1);
-        expect(parsed.version).toBe('1.0');
+        expect(parsed.version).toBe(CURRENT_SCHEMA_VERSION);
       });
 
       it('should handle missing data gracefully', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          null
-        );
-
         const result = await exportDataset();
         const parsed = JSON.parse(result);
 
@@ -506,6 +536,16 @@ describe('characterStorage', () => {
         expect(parsed.locations).toEqual([]);
         expect(parsed.events).toEqual([]);
       });
+
+      it('should record the campaign the data was exported from', async () => {
+        const result = await exportDataset();
+        const parsed = JSON.parse(result);
+
+        expect(parsed.campaign).toEqual({
+          id: 'default',
+          name: 'Default Campaign',
+        });
+      });
     });
 
     describe('importDataset', () => {
@@ -538,17 +578,13 @@ describe('characterStorage', () => {
           lastUpdated: mockDate,
         };
 
-        // Mock loadLocations to return empty array
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
-          locations: [],
-          version: '1.0',
-          lastUpdated: mockDate,
-        });
-
         const result = await importDataset(JSON.stringify(dataset));
 
         expect(result).toBe(true);
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalled();
+        expect((await loadCharacters()).map(c => c.name)).toEqual(['Imported']);
+        expect((await loadFactions()).map(f => f.name)).toEqual([
+          'ImportedFaction',
+        ]);
       });
 
       it('should return false for invalid JSON', async () => {
@@ -563,21 +599,96 @@ describe('characterStorage', () => {
           version: '1.0',
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
-          locations: [],
+        const result = await importDataset(JSON.stringify(minimalDataset));
+
+        expect(result).toBe(true);
+      });
+
+      it('should migrate legacy data before saving it', async () => {
+        const legacyDataset = {
+          characters: [
+            {
+              id: 'char-1',
+              name: 'Legacy',
+              species: 'Human',
+              imageUri: 'file:///legacy.jpg',
+              perkIds: [],
+              distinctionIds: [],
+              factions: [],
+              relationships: [],
+              createdAt: mockDate,
+              updatedAt: mockDate,
+            },
+          ],
+          version: '1.0',
+        };
+
+        await importDataset(JSON.stringify(legacyDataset));
+
+        const saved = await loadCharacters();
+        expect(saved[0].imageUris).toEqual(['file:///legacy.jpg']);
+        expect(saved[0]).not.toHaveProperty('imageUri');
+      });
+
+      it('should round-trip the progression ledger and live state', async () => {
+        const progression = {
+          entries: [
+            {
+              id: 'entry-1',
+              characterId: 'char-1',
+              type: 'xp',
+              date: '2050-01-01',
+              xp: 5,
+              createdAt: mockDate,
+            },
+          ],
           version: '1.0',
           lastUpdated: mockDate,
-        });
+        };
+        const liveState = {
+          states: [
+            {
+              characterId: 'char-1',
+              health: 2,
+              limit: 1,
+              conditions: [],
+              updatedAt: mockDate,
+            },
+          ],
+          version: '1.0',
+          lastUpdated: mockDate,
+        };
+        store.set('gameCharacterManager_progression', progression);
+        store.set('gameCharacterManager_liveState', liveState);
 
-        const result = await importDataset(JSON.stringify(minimalDataset));
+        const exported = await exportDataset();
+        store.delete('gameCharacterManager_progression');
+        store.delete('gameCharacterManager_liveState');
 
-        expect(result).toBe(true);
+        expect(await importDataset(exported)).toBe(true);
+        expect(store.get('gameCharacterManager_progression')).toEqual(
+          progression
+        );
+        expect(store.get('gameCharacterManager_liveState')).toEqual(liveState);
+      });
+
+      it('should refuse data from a newer app version', async () => {
+        const futureDataset = {
+          characters: [],
+          version: '99.0',
+        };
+
+        await expect(
+          importDataset(JSON.stringify(futureDataset))
+        ).rejects.toThrow(SchemaVersionError);
+        expect(SafeAsyncStorageJSONParser.setItem).not.toHaveBeenCalled();
       });
     });
   });
 
   describe('Faction Operations', () => {
     const mockFaction = {
+      id: 'faction-1',
       name: 'Brotherhood',
       description: 'Test faction',
       createdAt: mockDate,
@@ -586,10 +697,6 @@ describe('characterStorage', () => {
 
     describe('loadFactions', () => {
       it('should return empty array when no factions exist', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          null
-        );
-
         const result = await loadFactions();
 
         expect(result).toEqual([]);
@@ -601,9 +708,7 @@ describe('characterStorage', () => {
           version: '1.0',
           lastUpdated: mockDate,
         };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          mockDataset
-        );
+        store.set('gameCharacterManager_factions', mockDataset);
 
         const result = await loadFactions();
 
@@ -624,14 +729,59 @@ describe('characterStorage', () => {
           version: '1.0',
           lastUpdated: mockDate,
         };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          mockDataset
-        );
+        store.set('gameCharacterManager_factions', mockDataset);
 
         const result = await loadFactions();
 
         expect(result[0].retired).toBe(false);
       });
+
+      it('should assign stable IDs to legacy factions and save them', async () => {
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            {
+              name: 'Iron Guard',
+              description: 'Test',
+              relationships: [
+                {
+                  factionName: 'Brotherhood',
+                  relationshipType: RelationshipStanding.Ally,
+                },
+              ],
+            },
+            mockFaction,
+          ],
+          version: '1.0',
+        });
+
+        const result = await loadFactions();
+
+        expect(result[0].id).toBe('faction-iron-guard');
+        expect(result[0].relationships).toEqual([
+          {
+            factionId: 'faction-1',
+            factionName: 'Brotherhood',
+            relationshipType: RelationshipStanding.Ally,
+          },
+        ]);
+        expect(
+          store.get('gameCharacterManager_factions_record_faction-iron-guard')
+        ).toMatchObject({ relationships: result[0].relationships });
+      });
+
+      it('should not save factions that already have IDs', async () => {
+        store.set('gameCharacterManager_factions', {
+          factions: [mockFaction],
+          version: '1.0',
+        });
+
+        await loadFactions();
+        jest.clearAllMocks();
+        await loadFactions();
+
+        expect(SafeAsyncStorageJSONParser.setItem).not.toHaveBeenCalled();
+        expect(SafeAsyncStorageJSONParser.multiSet).not.toHaveBeenCalled();
+      });
     });
 
     describe('saveFactions', () => {
@@ -640,20 +790,18 @@ describe('characterStorage', () => {
 
         await saveFactions(factions);
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
-          {
-            factions,
-            version: '1.0',
-            lastUpdated: mockDate,
-          }
-        );
+        expect(
+          store.get('gameCharacterManager_factions_record_faction-1')
+        ).toEqual(mockFaction);
+        expect(await loadFactions()).toEqual([
+          { ...mockFaction, retired: false, relationships: [] },
+        ]);
       });
     });
 
     describe('createFaction', () => {
       it('should create a new faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -667,16 +815,13 @@ describe('characterStorage', () => {
         const result = await createFaction(newFactionData);
 
         expect(result).toBe(true);
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.factions[0].name).toBe('New Faction');
-        expect(savedData.factions[0].description).toBe(
-          'New faction description'
-        );
+        const saved = await loadFactions();
+        expect(saved[0].name).toBe('New Faction');
+        expect(saved[0].description).toBe('New faction description');
       });
 
       it('should add faction to existing list', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [mockFaction],
           version: '1.0',
           lastUpdated: mockDate,
@@ -684,15 +829,14 @@ describe('characterStorage', () => {
 
         await createFaction({ name: 'Second Faction', description: 'Test' });
 
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.factions).toHaveLength(2);
+        const saved = await loadFactions();
+        expect(saved).toHaveLength(2);
       });
     });
 
     describe('updateFaction', () => {
       it('should update existing faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [mockFaction],
           version: '1.0',
           lastUpdated: mockDate,
@@ -707,7 +851,7 @@ describe('characterStorage', () => {
       });
 
       it('should return null for non-existent faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [mockFaction],
           version: '1.0',
           lastUpdated: mockDate,
@@ -719,11 +863,35 @@ describe('characterStorage', () => {
 
         expect(result).toBeNull();
       });
+
+      it('should refuse a parent that is one of its own sub-factions', async () => {
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            mockFaction,
+            {
+              ...mockFaction,
+              id: 'faction-2',
+              name: 'Rust Riders',
+              parentFactionId: 'faction-1',
+            },
+          ],
+          version: '1.0',
+          lastUpdated: mockDate,
+        });
+
+        const result = await updateFaction('Brotherhood', {
+          parentFactionId: 'faction-2',
+        });
+
+        expect(result).toBeNull();
+        const [brotherhood] = await loadFactions();
+        expect(brotherhood.parentFactionId).toBeUndefined();
+      });
     });
 
     describe('deleteFaction', () => {
       it('should delete existing faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [mockFaction],
           version: '1.0',
           lastUpdated: mockDate,
@@ -732,13 +900,12 @@ describe('characterStorage', () => {
         const result = await deleteFaction('Brotherhood');
 
         expect(result).toBe(true);
-        const savedData = (SafeAsyncStorageJSONParser.setItem as jest.Mock).mock
-          .calls[0][1];
-        expect(savedData.factions).toHaveLength(0);
+        const saved = await loadFactions();
+        expect(saved).toHaveLength(0);
       });
 
       it('should return false for non-existent faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -762,10 +929,6 @@ describe('characterStorage', () => {
 
     describe('loadLocations', () => {
       it('should return empty array when no locations exist', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          null
-        );
-
         const result = await loadLocations();
 
         expect(result).toEqual([]);
@@ -777,9 +940,7 @@ describe('characterStorage', () => {
           version: '1.0',
           lastUpdated: mockDate,
         };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          mockDataset
-        );
+        store.set('gameCharacterManager_locations', mockDataset);
 
         const result = await loadLocations();
 
@@ -793,20 +954,16 @@ describe('characterStorage', () => {
 
         await saveLocations(locations);
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_locations',
-          {
-            locations,
-            version: '1.0',
-            lastUpdated: mockDate,
-          }
-        );
+        expect(
+          store.get('gameCharacterManager_locations_record_loc-1')
+        ).toEqual(mockLocation);
+        expect(await loadLocations()).toEqual(locations);
       });
     });
 
     describe('createLocation', () => {
       it('should create a new location with generated ID', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_locations', {
           locations: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -829,7 +986,7 @@ describe('characterStorage', () => {
 
     describe('updateLocation', () => {
       it('should update existing location', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_locations', {
           locations: [mockLocation],
           version: '1.0',
           lastUpdated: mockDate,
@@ -844,7 +1001,7 @@ describe('characterStorage', () => {
       });
 
       it('should return null for non-existent location', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_locations', {
           locations: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -858,7 +1015,7 @@ describe('characterStorage', () => {
 
     describe('deleteLocation', () => {
       it('should delete existing location', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_locations', {
           locations: [mockLocation],
           version: '1.0',
           lastUpdated: mockDate,
@@ -870,7 +1027,7 @@ describe('characterStorage', () => {
       });
 
       it('should return false for non-existent location', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_locations', {
           locations: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -895,10 +1052,6 @@ describe('characterStorage', () => {
 
     describe('loadEvents', () => {
       it('should return empty array when no events exist', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          null
-        );
-
         const result = await loadEvents();
 
         expect(result).toEqual([]);
@@ -910,9 +1063,7 @@ describe('characterStorage', () => {
           version: '1.0',
           lastUpdated: mockDate,
         };
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue(
-          mockDataset
-        );
+        store.set('gameCharacterManager_events', mockDataset);
 
         const result = await loadEvents();
 
@@ -926,20 +1077,16 @@ describe('characterStorage', () => {
 
         await saveEvents(events);
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_events',
-          {
-            events,
-            version: '1.0',
-            lastUpdated: mockDate,
-          }
+        expect(store.get('gameCharacterManager_events_record_event-1')).toEqual(
+          mockEvent
         );
+        expect(await loadEvents()).toEqual(events);
       });
     });
 
     describe('createEvent', () => {
       it('should create a new event with generated ID', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_events', {
           events: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -963,7 +1110,7 @@ describe('characterStorage', () => {
 
     describe('updateEvent', () => {
       it('should update existing event', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_events', {
           events: [mockEvent],
           version: '1.0',
           lastUpdated: mockDate,
@@ -976,7 +1123,7 @@ describe('characterStorage', () => {
       });
 
       it('should return null for non-existent event', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_events', {
           events: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -990,7 +1137,7 @@ describe('characterStorage', () => {
 
     describe('deleteEvent', () => {
       it('should delete existing event', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_events', {
           events: [mockEvent],
           version: '1.0',
           lastUpdated: mockDate,
@@ -1002,7 +1149,7 @@ describe('characterStorage', () => {
       });
 
       it('should return false for non-existent event', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_events', {
           events: [],
           version: '1.0',
           lastUpdated: mockDate,
@@ -1017,22 +1164,101 @@ describe('characterStorage', () => {
 
   describe('Storage Management', () => {
     describe('clearStorage', () => {
-      it('should remove all storage keys', async () => {
+      it('should remove every record, the inventory, ledger and live state', async () => {
+        await saveCharacters([
+          {
+            id: 'char-1',
+            name: 'Test',
+            species: 'Human',
+            perkIds: [],
+            distinctionIds: [],
+            factions: [],
+            relationships: [],
+            createdAt: mockDate,
+            updatedAt: mockDate,
+          },
+        ]);
+        await createLocation({ name: 'Vault', description: '' });
+        await addInventoryItem({
+          name: 'Rope',
+          quantity: 1,
+          owner: { type: 'character', id: 'char-1', name: 'Alice' },
+          date: '2025-01-01',
+        });
+        await recordXp('char-1', 10, '2025-01-01');
+        await adjustHealth(makeCharacter(), -1, DEFAULT_RULES_PACK);
+
         await clearStorage();
 
-        expect(SafeAsyncStorageJSONParser.removeItem).toHaveBeenCalledTimes(4);
-        expect(SafeAsyncStorageJSONParser.removeItem).toHaveBeenCalledWith(
-          'gameCharacterManager'
-        );
-        expect(SafeAsyncStorageJSONParser.removeItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions'
-        );
-        expect(SafeAsyncStorageJSONParser.removeItem).toHaveBeenCalledWith(
-          'gameCharacterManager_locations'
+        expect(
+          Array.from(store.keys()).filter(
+            key => !key.startsWith('gameCharacterManager_journal')
+          )
+        ).toEqual([]);
+      });
+    });
+
+    describe('indexed records', () => {
+      it('should split legacy dataset blobs into one record per entity', async () => {
+        store.set('gameCharacterManager', {
+          characters: [
+            makeCharacter(),
+            makeCharacter({ id: 'char-2', name: 'Bob' }),
+          ],
+          version: '1.0',
+        });
+
+        const result = await loadCharacters();
+
+        expect(result.map(c => c.id)).toEqual(['char-1', 'char-2']);
+        expect(store.get('gameCharacterManager')).toMatchObject({
+          ids: ['char-1', 'char-2'],
+        });
+        expect(store.get('gameCharacterManager_record_char-2')).toEqual(
+          makeCharacter({ id: 'char-2', name: 'Bob' })
         );
-        expect(SafeAsyncStorageJSONParser.removeItem).toHaveBeenCalledWith(
-          'gameCharacterManager_events'
+        expect(store.get('gameCharacterManager_schemaVersion')).toEqual({
+          version: CURRENT_SCHEMA_VERSION,
+          lastUpdated: mockDate,
+        });
+      });
+
+      it('should look characters up by location', async () => {
+        await saveCharacters([
+          makeCharacter({ id: 'char-1', locationId: 'loc-1' }),
+          makeCharacter({ id: 'char-2', name: 'Bob', locationId: 'loc-2' }),
+        ]);
+        await updateCharacter('char-1', { locationId: 'loc-2' });
+
+        expect(
+          (await CharacterStorage.loadCharactersAtLocation('loc-2')).map(
+            c => c.id
+          )
+        ).toEqual(['char-2', 'char-1']);
+        expect(
+          await CharacterStorage.loadCharactersAtLocation('loc-1')
+        ).toEqual([]);
+      });
+
+      it('should read data from a newer app version but refuse to write it', async () => {
+        await saveCharacters([makeCharacter()]);
+        store.set('gameCharacterManager_schemaVersion', {
+          version: '99.0',
+          lastUpdated: mockDate,
+        });
+
+        expect((await loadCharacters()).map(c => c.id)).toEqual(['char-1']);
+        await expect(
+          updateCharacter('char-1', { name: 'Renamed' })
+        ).rejects.toThrow(SchemaVersionError);
+        await expect(saveCharacters([])).rejects.toThrow(SchemaVersionError);
+        expect(store.get('gameCharacterManager_record_char-1')).toEqual(
+          makeCharacter()
         );
+        expect(store.get('gameCharacterManager_schemaVersion')).toEqual({
+          version: '99.0',
+          lastUpdated: mockDate,
+        });
       });
     });
   });
@@ -1063,30 +1289,35 @@ describe('characterStorage', () => {
         };
 
         // Mock loadCharacters, loadFactions, loadLocations, loadEvents
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ events: [], version: '1.0' });
+        store.set('gameCharacterManager', {
+          characters: [],
+          version: '1.0',
+          lastUpdated: mockDate,
+        });
+        store.set('gameCharacterManager_factions', {
+          factions: [],
+          version: '1.0',
+        });
+        store.set('gameCharacterManager_locations', {
+          locations: [],
+          version: '1.0',
+        });
+        store.set('gameCharacterManager_events', {
+          events: [],
+          version: '1.0',
+        });
 
         const result = await importDataset(JSON.stringify(oldCharacterData));
 
         expect(result).toBe(true);
         // Should have created a new location during migration
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_locations',
-          expect.objectContaining({
-            locations: expect.arrayContaining([
-              expect.objectContaining({
-                name: 'Old Town',
-                description: expect.stringContaining('Migrated from old'),
-              }),
-            ]),
-          })
+        expect(await loadLocations()).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              name: 'Old Town',
+              description: expect.stringContaining('Migrated from old'),
+            }),
+          ])
         );
       });
 
@@ -1113,15 +1344,23 @@ describe('characterStorage', () => {
           events: [],
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ events: [], version: '1.0' });
+        store.set('gameCharacterManager', {
+          characters: [],
+          version: '1.0',
+          lastUpdated: mockDate,
+        });
+        store.set('gameCharacterManager_factions', {
+          factions: [],
+          version: '1.0',
+        });
+        store.set('gameCharacterManager_locations', {
+          locations: [],
+          version: '1.0',
+        });
+        store.set('gameCharacterManager_events', {
+          events: [],
+          version: '1.0',
+        });
 
         const result = await importDataset(
           JSON.stringify(characterWithMissingLocation)
@@ -1129,23 +1368,20 @@ describe('characterStorage', () => {
 
         expect(result).toBe(true);
         // Should have auto-created placeholder location
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_locations',
-          expect.objectContaining({
-            locations: expect.arrayContaining([
-              expect.objectContaining({
-                id: 'nonexistent-location-id',
-                name: expect.stringContaining('Imported Location'),
-              }),
-            ]),
-          })
+        expect(await loadLocations()).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              id: 'nonexistent-location-id',
+              name: expect.stringContaining('Imported Location'),
+            }),
+          ])
         );
       });
     });
 
     describe('Faction Description Management', () => {
       it('should save faction description for existing faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [{ name: 'Brotherhood', description: 'Old description' }],
           version: '1.0',
         });
@@ -1155,21 +1391,16 @@ describe('characterStorage', () => {
           'New description'
         );
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
+        expect(await loadFactions()).toEqual([
           expect.objectContaining({
-            factions: [
-              expect.objectContaining({
-                name: 'Brotherhood',
-                description: 'New description',
-              }),
-            ],
-          })
-        );
+            name: 'Brotherhood',
+            description: 'New description',
+          }),
+        ]);
       });
 
       it('should create new faction when saving description for non-existent faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [],
           version: '1.0',
         });
@@ -1179,17 +1410,12 @@ describe('characterStorage', () => {
           'New description'
         );
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
+        expect(await loadFactions()).toEqual([
           expect.objectContaining({
-            factions: [
-              expect.objectContaining({
-                name: 'NewFaction',
-                description: 'New description',
-              }),
-            ],
-          })
-        );
+            name: 'NewFaction',
+            description: 'New description',
+          }),
+        ]);
       });
     });
 
@@ -1212,59 +1438,154 @@ describe('characterStorage', () => {
           updatedAt: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [characterWithFaction],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({
-            factions: [
-              { name: 'ToDelete', description: 'Will be deleted' },
-              { name: 'ToKeep', description: 'Will be kept' },
-            ],
-            version: '1.0',
-          });
+        store.set('gameCharacterManager', {
+          characters: [characterWithFaction],
+          version: '1.0',
+          lastUpdated: mockDate,
+        });
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            { name: 'ToDelete', description: 'Will be deleted' },
+            { name: 'ToKeep', description: 'Will be kept' },
+          ],
+          version: '1.0',
+        });
 
         const result =
           await CharacterStorage.deleteFactionCompletely('ToDelete');
 
         expect(result.success).toBe(true);
         expect(result.charactersUpdated).toBe(1);
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager',
+        expect(await loadCharacters()).toEqual([
           expect.objectContaining({
-            characters: [
-              expect.objectContaining({
-                factions: [
-                  { name: 'ToKeep', standing: RelationshipStanding.Neutral },
-                ],
-              }),
+            factions: [
+              {
+                factionId: 'faction-tokeep',
+                name: 'ToKeep',
+                standing: RelationshipStanding.Neutral,
+              },
             ],
-          })
-        );
-      });
-
-      it('should return error on failure', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockRejectedValue(
-          new Error('Storage error')
-        );
-
-        const result =
-          await CharacterStorage.deleteFactionCompletely('ToDelete');
-
-        expect(result.success).toBe(false);
-        expect(result.charactersUpdated).toBe(0);
+          }),
+        ]);
       });
-    });
 
-    describe('Faction Bidirectional Relationships', () => {
-      it('should create bidirectional relationships when creating faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
-          factions: [{ name: 'ExistingFaction', relationships: [] }],
+      it('should match memberships and relationships by faction ID', async () => {
+        store.set('gameCharacterManager', {
+          characters: [
+            makeCharacter({
+              factions: [
+                {
+                  factionId: 'faction-old',
+                  name: 'Stale Name',
+                  standing: RelationshipStanding.Ally,
+                },
+                {
+                  factionId: 'faction-other',
+                  name: 'ToDelete',
+                  standing: RelationshipStanding.Neutral,
+                },
+              ],
+            }),
+          ],
           version: '1.0',
         });
-
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            { id: 'faction-old', name: 'ToDelete', description: '' },
+            {
+              id: 'faction-rival',
+              name: 'Rival',
+              description: '',
+              relationships: [
+                {
+                  factionId: 'faction-old',
+                  factionName: 'ToDelete',
+                  relationshipType: RelationshipStanding.Enemy,
+                },
+              ],
+            },
+          ],
+          version: '1.0',
+        });
+
+        const result = await deleteFactionCompletely('ToDelete');
+
+        expect(result).toEqual({ success: true, charactersUpdated: 1 });
+        expect((await loadCharacters())[0].factions).toEqual([
+          {
+            factionId: 'faction-other',
+            name: 'ToDelete',
+            standing: RelationshipStanding.Neutral,
+          },
+        ]);
+        expect(await loadFactions()).toEqual([
+          expect.objectContaining({ id: 'faction-rival', relationships: [] }),
+        ]);
+      });
+
+      it('should move the cells of the faction up to its parent', async () => {
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            { id: 'faction-empire', name: 'Empire', description: '' },
+            {
+              id: 'faction-legion',
+              name: 'Legion',
+              description: '',
+              parentFactionId: 'faction-empire',
+            },
+            {
+              id: 'faction-cohort',
+              name: 'Cohort',
+              description: '',
+              parentFactionId: 'faction-legion',
+            },
+          ],
+          version: '1.0',
+        });
+
+        await deleteFactionCompletely('Legion');
+        expect(await loadFactions()).toContainEqual(
+          expect.objectContaining({
+            id: 'faction-cohort',
+            parentFactionId: 'faction-empire',
+          })
+        );
+
+        await deleteFactionCompletely('Empire');
+
+        expect(await loadFactions()).toEqual([
+          expect.objectContaining({ id: 'faction-cohort' }),
+        ]);
+        expect((await loadFactions())[0].parentFactionId).toBeUndefined();
+      });
+
+      it('should fail for a faction that does not exist', async () => {
+        expect(await deleteFactionCompletely('Missing')).toEqual({
+          success: false,
+          charactersUpdated: 0,
+        });
+      });
+
+      it('should return error on failure', async () => {
+        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockRejectedValue(
+          new Error('Storage error')
+        );
+
+        const result =
+          await CharacterStorage.deleteFactionCompletely('ToDelete');
+
+        expect(result.success).toBe(false);
+        expect(result.charactersUpdated).toBe(0);
+      });
+    });
+
+    describe('Faction Bidirectional Relationships', () => {
+      it('should create bidirectional relationships when creating faction', async () => {
+        store.set('gameCharacterManager_factions', {
+          factions: [{ name: 'ExistingFaction', relationships: [] }],
+          version: '1.0',
+        });
+
         const newFaction = {
           name: 'NewFaction',
           description: 'Test',
@@ -1278,21 +1599,19 @@ describe('characterStorage', () => {
 
         await createFaction(newFaction);
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
-          expect.objectContaining({
-            factions: expect.arrayContaining([
-              expect.objectContaining({
-                name: 'ExistingFaction',
-                relationships: [
-                  {
-                    factionName: 'NewFaction',
-                    relationshipType: RelationshipStanding.Ally,
-                  },
-                ],
-              }),
-            ]),
-          })
+        expect(await loadFactions()).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              name: 'ExistingFaction',
+              relationships: [
+                {
+                  factionId: 'mock-uuid-1234',
+                  factionName: 'NewFaction',
+                  relationshipType: RelationshipStanding.Ally,
+                },
+              ],
+            }),
+          ])
         );
       });
 
@@ -1327,52 +1646,57 @@ describe('characterStorage', () => {
           updatedAt: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            factions: [faction1, faction2],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({
-            characters: [character],
-            version: '1.0',
-            lastUpdated: mockDate,
-          });
+        store.set('gameCharacterManager_factions', {
+          factions: [faction1, faction2],
+          version: '1.0',
+        });
+        // Not a member, so the rename must leave it untouched
+        const outsider = makeCharacter({
+          id: 'char-2',
+          name: 'Outsider',
+          present: false,
+          retired: false,
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        });
+        store.set('gameCharacterManager', {
+          characters: [character, outsider],
+          version: '1.0',
+          lastUpdated: mockDate,
+        });
 
         const result = await updateFaction('OldName', { name: 'NewName' });
 
         expect(result?.name).toBe('NewName');
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager',
+        expect(await loadCharacters()).toEqual([
           expect.objectContaining({
-            characters: [
-              expect.objectContaining({
-                factions: [
-                  { name: 'NewName', standing: RelationshipStanding.Ally },
-                ],
-              }),
+            factions: [
+              {
+                factionId: 'faction-oldname',
+                name: 'NewName',
+                standing: RelationshipStanding.Ally,
+              },
             ],
-          })
-        );
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
-          expect.objectContaining({
-            factions: expect.arrayContaining([
-              expect.objectContaining({
-                name: 'OtherFaction',
-                relationships: [
-                  {
-                    factionName: 'NewName',
-                    relationshipType: RelationshipStanding.Ally,
-                  },
-                ],
-              }),
-            ]),
-          })
+          }),
+          outsider,
+        ]);
+        expect(await loadFactions()).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              name: 'OtherFaction',
+              relationships: [
+                {
+                  factionId: 'faction-oldname',
+                  factionName: 'NewName',
+                  relationshipType: RelationshipStanding.Ally,
+                },
+              ],
+            }),
+          ])
         );
       });
 
       it('should return null when new faction name already exists', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [
             { name: 'ExistingFaction', description: 'Test' },
             { name: 'AnotherFaction', description: 'Test2' },
@@ -1409,23 +1733,20 @@ describe('characterStorage', () => {
           ],
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [faction1, faction2],
           version: '1.0',
         });
 
         await updateFaction('Faction1', { relationships: [] });
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
-          expect.objectContaining({
-            factions: expect.arrayContaining([
-              expect.objectContaining({
-                name: 'Faction2',
-                relationships: [],
-              }),
-            ]),
-          })
+        expect(await loadFactions()).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              name: 'Faction2',
+              relationships: [],
+            }),
+          ])
         );
       });
 
@@ -1441,7 +1762,7 @@ describe('characterStorage', () => {
           relationships: [],
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [faction1, faction2],
           version: '1.0',
         });
@@ -1455,21 +1776,19 @@ describe('characterStorage', () => {
           ],
         });
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
-          expect.objectContaining({
-            factions: expect.arrayContaining([
-              expect.objectContaining({
-                name: 'Faction2',
-                relationships: [
-                  {
-                    factionName: 'Faction1',
-                    relationshipType: RelationshipStanding.Enemy,
-                  },
-                ],
-              }),
-            ]),
-          })
+        expect(await loadFactions()).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              name: 'Faction2',
+              relationships: [
+                {
+                  factionId: 'faction-faction1',
+                  factionName: 'Faction1',
+                  relationshipType: RelationshipStanding.Enemy,
+                },
+              ],
+            }),
+          ])
         );
       });
 
@@ -1495,7 +1814,7 @@ describe('characterStorage', () => {
           ],
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [faction1, faction2],
           version: '1.0',
         });
@@ -1509,28 +1828,26 @@ describe('characterStorage', () => {
           ],
         });
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
-          expect.objectContaining({
-            factions: expect.arrayContaining([
-              expect.objectContaining({
-                name: 'Faction2',
-                relationships: [
-                  {
-                    factionName: 'Faction1',
-                    relationshipType: RelationshipStanding.Enemy,
-                  },
-                ],
-              }),
-            ]),
-          })
+        expect(await loadFactions()).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              name: 'Faction2',
+              relationships: [
+                {
+                  factionId: 'faction-faction1',
+                  factionName: 'Faction1',
+                  relationshipType: RelationshipStanding.Enemy,
+                },
+              ],
+            }),
+          ])
         );
       });
     });
 
     describe('toggleFactionRetired', () => {
       it('should toggle faction retired status', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [{ name: 'TestFaction', retired: false }],
           version: '1.0',
         });
@@ -1539,21 +1856,16 @@ describe('characterStorage', () => {
           await CharacterStorage.toggleFactionRetired('TestFaction');
 
         expect(result).toBe(true);
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
+        expect(await loadFactions()).toEqual([
           expect.objectContaining({
-            factions: [
-              expect.objectContaining({
-                name: 'TestFaction',
-                retired: true,
-              }),
-            ],
-          })
-        );
+            name: 'TestFaction',
+            retired: true,
+          }),
+        ]);
       });
 
       it('should return false for non-existent faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [],
           version: '1.0',
         });
@@ -1565,8 +1877,8 @@ describe('characterStorage', () => {
       });
     });
 
-    describe('migrateFactionDescriptions', () => {
-      it('should migrate faction descriptions from characters to centralized storage', async () => {
+    describe('stored faction description migration', () => {
+      it('should move faction descriptions from memberships to the stored factions', async () => {
         const character: GameCharacter = {
           id: 'char-1',
           name: 'Test',
@@ -1587,27 +1899,22 @@ describe('characterStorage', () => {
           updatedAt: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [character],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' });
-
-        await CharacterStorage.migrateFactionDescriptions();
+        store.set('gameCharacterManager', {
+          characters: [character],
+          version: '1.0',
+          lastUpdated: mockDate,
+        });
+        store.set('gameCharacterManager_factions', {
+          factions: [],
+          version: '1.0',
+        });
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
+        expect(await loadFactions()).toEqual([
           expect.objectContaining({
-            factions: [
-              expect.objectContaining({
-                name: 'Brotherhood',
-                description: 'A powerful faction from character data',
-              }),
-            ],
-          })
-        );
+            name: 'Brotherhood',
+            description: 'A powerful faction from character data',
+          }),
+        ]);
       });
 
       it('should not overwrite existing faction descriptions', async () => {
@@ -1631,41 +1938,33 @@ describe('characterStorage', () => {
           updatedAt: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [character],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({
-            factions: [
-              {
-                name: 'Brotherhood',
-                description: 'Existing description',
-              },
-            ],
-            version: '1.0',
-          });
-
-        await CharacterStorage.migrateFactionDescriptions();
+        store.set('gameCharacterManager', {
+          characters: [character],
+          version: '1.0',
+          lastUpdated: mockDate,
+        });
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            {
+              name: 'Brotherhood',
+              description: 'Existing description',
+            },
+          ],
+          version: '1.0',
+        });
 
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
+        expect(await loadFactions()).toEqual([
           expect.objectContaining({
-            factions: [
-              expect.objectContaining({
-                name: 'Brotherhood',
-                description: 'Existing description',
-              }),
-            ],
-          })
-        );
+            name: 'Brotherhood',
+            description: 'Existing description',
+          }),
+        ]);
       });
     });
 
     describe('Location Management Advanced', () => {
       it('should return null when creating location with duplicate name', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_locations', {
           locations: [
             { id: 'loc-1', name: 'Existing Location', description: 'Test' },
           ],
@@ -1696,34 +1995,25 @@ describe('characterStorage', () => {
           updatedAt: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [character],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({
-            locations: [
-              { id: 'loc-to-delete', name: 'ToDelete', description: 'Test' },
-            ],
-            version: '1.0',
-          });
+        store.set('gameCharacterManager', {
+          characters: [character],
+          version: '1.0',
+          lastUpdated: mockDate,
+        });
+        store.set('gameCharacterManager_locations', {
+          locations: [
+            { id: 'loc-to-delete', name: 'ToDelete', description: 'Test' },
+          ],
+          version: '1.0',
+        });
 
         const result =
           await CharacterStorage.deleteLocationCompletely('loc-to-delete');
 
         expect(result.success).toBe(true);
         expect(result.charactersUpdated).toBe(1);
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager',
-          expect.objectContaining({
-            characters: [
-              expect.objectContaining({
-                locationId: undefined,
-              }),
-            ],
-          })
-        );
+        const [saved] = await loadCharacters();
+        expect(saved.locationId).toBeUndefined();
       });
 
       it('should return error when deleteLocationCompletely fails', async () => {
@@ -1749,7 +2039,7 @@ describe('characterStorage', () => {
           updatedAt: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_locations', {
           locations: [mockLocation],
           version: '1.0',
         });
@@ -1760,7 +2050,7 @@ describe('characterStorage', () => {
       });
 
       it('should return null for non-existent location ID', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_locations', {
           locations: [],
           version: '1.0',
         });
@@ -1771,152 +2061,9 @@ describe('characterStorage', () => {
       });
     });
 
-    describe('mergeDatasets with location updates', () => {
-      it('should update existing location when imported one is newer', async () => {
-        const oldLocation: GameLocation = {
-          id: 'loc-1',
-          name: 'Old Location Name',
-          description: 'Old description',
-          createdAt: mockDate,
-          updatedAt: '2024-01-01T00:00:00.000Z',
-        };
-
-        const newerLocation: GameLocation = {
-          id: 'loc-1',
-          name: 'New Location Name',
-          description: 'New description',
-          createdAt: mockDate,
-          updatedAt: '2025-12-01T00:00:00.000Z',
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [oldLocation], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [],
-          factions: [],
-          locations: [newerLocation],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-
-        expect(result).toBe(true);
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_locations',
-          expect.objectContaining({
-            locations: [newerLocation],
-          })
-        );
-      });
-
-      it('should add new location when ID does not exist', async () => {
-        const existingLocation: GameLocation = {
-          id: 'loc-1',
-          name: 'Existing',
-          description: 'Existing location',
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const newLocation: GameLocation = {
-          id: 'loc-2',
-          name: 'New',
-          description: 'New location',
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({
-            locations: [existingLocation],
-            version: '1.0',
-          }) // for migrateOldLocationData
-          .mockResolvedValueOnce({
-            locations: [existingLocation],
-            version: '1.0',
-          }) // for ensureLocationsExist
-          .mockResolvedValueOnce({
-            locations: [existingLocation],
-            version: '1.0',
-          }); // for mergeDatasets actual merge logic
-
-        const jsonData = JSON.stringify({
-          characters: [],
-          factions: [],
-          locations: [newLocation],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-
-        expect(result).toBe(true);
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_locations',
-          expect.objectContaining({
-            locations: expect.arrayContaining([existingLocation, newLocation]),
-          })
-        );
-      });
-
-      it('should not update location when existing one is newer', async () => {
-        const newerLocation: GameLocation = {
-          id: 'loc-1',
-          name: 'Current Name',
-          description: 'Current description',
-          createdAt: mockDate,
-          updatedAt: '2025-12-01T00:00:00.000Z',
-        };
-
-        const olderLocation: GameLocation = {
-          id: 'loc-1',
-          name: 'Old Name',
-          description: 'Old description',
-          createdAt: mockDate,
-          updatedAt: '2024-01-01T00:00:00.000Z',
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({
-            locations: [newerLocation],
-            version: '1.0',
-          }) // for migrateOldLocationData
-          .mockResolvedValueOnce({
-            locations: [newerLocation],
-            version: '1.0',
-          }) // for ensureLocationsExist
-          .mockResolvedValueOnce({
-            locations: [newerLocation],
-            version: '1.0',
-          }); // for mergeDatasets actual merge logic
-
-        const jsonData = JSON.stringify({
-          characters: [],
-          factions: [],
-          locations: [olderLocation],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-
-        expect(result).toBe(true);
-        // Should keep the newer version
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_locations',
-          expect.objectContaining({
-            locations: [newerLocation],
-          })
-        );
-      });
-    });
-
     describe('getFactionDescription edge cases', () => {
       it('should return empty string when faction has no description', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [{ name: 'Brotherhood' }],
           version: '1.0',
         });
@@ -1928,7 +2075,7 @@ describe('characterStorage', () => {
       });
 
       it('should return empty string for non-existent faction', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+        store.set('gameCharacterManager_factions', {
           factions: [],
           version: '1.0',
         });
@@ -1940,288 +2087,25 @@ describe('characterStorage', () => {
       });
     });
 
-    describe('mergeDatasetWithConflictResolution', () => {
-      it('should detect conflicts when character properties differ', async () => {
-        const existingChar: GameCharacter = {
-          id: 'char-1',
-          name: 'John',
-          species: 'Human',
-          notes: 'Original notes',
-          perkIds: ['perk1'],
-          distinctionIds: [],
-          factions: [],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const importedChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Jane',
-          species: 'Mutant',
-          notes: 'Different notes',
-          perkIds: ['perk2'],
-          distinctionIds: [],
-          factions: [],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [existingChar],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [importedChar],
-          factions: [],
-          locations: [],
+    describe('createFaction with duplicate detection', () => {
+      it('should return false when faction name already exists', async () => {
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            { name: 'ExistingFaction', description: 'Already exists' },
+          ],
+          version: '1.0',
         });
 
-        const result =
-          await CharacterStorage.mergeDatasetWithConflictResolution(jsonData);
+        const result = await createFaction({
+          name: 'ExistingFaction',
+          description: 'Duplicate',
+        });
 
-        expect(result.success).toBe(true);
-        expect(result.conflicts.length).toBeGreaterThan(0);
-        expect(result.conflicts[0].conflicts).toContain('name');
-        expect(result.conflicts[0].conflicts).toContain('species');
-        expect(result.conflicts[0].conflicts).toContain('notes');
+        expect(result).toBe(false);
       });
 
-      it('should merge perks, distinctions, and factions without conflicts', async () => {
-        const existingChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Test',
-          species: 'Human',
-          perkIds: ['perk1'],
-          distinctionIds: ['dist1'],
-          factions: [{ name: 'Faction1', standing: RelationshipStanding.Ally }],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const importedChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Test',
-          species: 'Human',
-          perkIds: ['perk2'],
-          distinctionIds: ['dist2'],
-          factions: [
-            { name: 'Faction2', standing: RelationshipStanding.Neutral },
-          ],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [existingChar],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [importedChar],
-          factions: [],
-          locations: [],
-        });
-
-        const result =
-          await CharacterStorage.mergeDatasetWithConflictResolution(jsonData);
-
-        expect(result.success).toBe(true);
-        expect(result.conflicts).toHaveLength(0);
-        expect(result.merged[0].perkIds).toEqual(['perk1', 'perk2']);
-        expect(result.merged[0].distinctionIds).toEqual(['dist1', 'dist2']);
-        expect(result.merged[0].factions).toHaveLength(2);
-      });
-
-      it('should use imported value when existing property is empty', async () => {
-        const existingChar: GameCharacter = {
-          id: 'char-1',
-          name: '',
-          species: 'Human',
-          notes: '',
-          imageUri: '',
-          perkIds: [],
-          distinctionIds: [],
-          factions: [],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const importedChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Imported Name',
-          species: 'Human',
-          notes: 'Imported notes',
-          imageUri: 'http://example.com/image.png',
-          perkIds: [],
-          distinctionIds: [],
-          factions: [],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [existingChar],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [importedChar],
-          factions: [],
-          locations: [],
-        });
-
-        const result =
-          await CharacterStorage.mergeDatasetWithConflictResolution(jsonData);
-
-        expect(result.success).toBe(true);
-        expect(result.conflicts).toHaveLength(0);
-        expect(result.merged[0].name).toBe('Imported Name');
-        expect(result.merged[0].notes).toBe('Imported notes');
-        expect(result.merged[0].imageUri).toBe('http://example.com/image.png');
-      });
-
-      it('should merge and update relationships', async () => {
-        const existingChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Test',
-          species: 'Human',
-          perkIds: [],
-          distinctionIds: [],
-          factions: [],
-          relationships: [
-            {
-              characterName: 'Alice',
-              relationshipType: RelationshipStanding.Friend,
-              description: 'Old friend',
-            },
-          ],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const importedChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Test',
-          species: 'Human',
-          perkIds: [],
-          distinctionIds: [],
-          factions: [],
-          relationships: [
-            {
-              characterName: 'Alice',
-              relationshipType: RelationshipStanding.Ally,
-              description: 'Best friend now',
-            },
-            {
-              characterName: 'Bob',
-              relationshipType: RelationshipStanding.Enemy,
-              description: 'New enemy',
-            },
-          ],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [existingChar],
-            version: '1.0',
-            lastUpdated: mockDate,
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [importedChar],
-          factions: [],
-          locations: [],
-        });
-
-        const result =
-          await CharacterStorage.mergeDatasetWithConflictResolution(jsonData);
-
-        expect(result.success).toBe(true);
-        expect(result.merged[0].relationships).toHaveLength(2);
-        expect(result.merged[0].relationships[0].relationshipType).toBe(
-          RelationshipStanding.Ally
-        );
-        expect(result.merged[0].relationships[0].description).toBe(
-          'Best friend now'
-        );
-        expect(result.merged[0].relationships[1].characterName).toBe('Bob');
-      });
-
-      it('should return error result on failure', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockRejectedValue(
-          new Error('Storage error')
-        );
-
-        const result =
-          await CharacterStorage.mergeDatasetWithConflictResolution('{}');
-
-        expect(result.success).toBe(false);
-        expect(result.conflicts).toEqual([]);
-      });
-    });
-
-    describe('createFaction with duplicate detection', () => {
-      it('should return false when faction name already exists', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
-          factions: [
-            { name: 'ExistingFaction', description: 'Already exists' },
-          ],
-          version: '1.0',
-        });
-
-        const result = await createFaction({
-          name: 'ExistingFaction',
-          description: 'Duplicate',
-        });
-
-        expect(result).toBe(false);
-      });
-
-      it('should create faction with bidirectional relationships', async () => {
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockResolvedValue({
+      it('should create faction with bidirectional relationships', async () => {
+        store.set('gameCharacterManager_factions', {
           factions: [
             {
               name: 'TargetFaction',
@@ -2245,392 +2129,23 @@ describe('characterStorage', () => {
 
         expect(result).toBe(true);
         // Check that reciprocal relationship was created
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager_factions',
-          expect.objectContaining({
-            factions: expect.arrayContaining([
-              expect.objectContaining({
-                name: 'TargetFaction',
-                relationships: expect.arrayContaining([
-                  expect.objectContaining({
-                    factionName: 'NewFaction',
-                    relationshipType: RelationshipStanding.Hostile,
-                  }),
-                ]),
-              }),
-            ]),
-          })
-        );
-      });
-    });
-
-    describe('mergeDatasets error handling', () => {
-      beforeEach(() => {
-        jest.clearAllMocks();
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockReset();
-        (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockReset();
-      });
-
-      it('should return false when JSON parsing fails', async () => {
-        const result = await CharacterStorage.mergeDatasets('invalid json');
-        expect(result).toBe(false);
-      });
-
-      it('should return false when storage operations fail', async () => {
-        const testChar: GameCharacter = {
-          id: 'test-1',
-          name: 'Test',
-          species: 'Human',
-          perkIds: [],
-          distinctionIds: [],
-          factions: [],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockRejectedValue(
-          new Error('Storage error')
-        );
-
-        const jsonData = JSON.stringify({
-          characters: [testChar],
-          factions: [],
-          locations: [],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-        expect(result).toBe(false);
-      });
-    });
-
-    describe('mergeDatasets with faction updates', () => {
-      beforeEach(() => {
-        jest.clearAllMocks();
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockReset();
-        (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockReset();
-      });
-
-      it('should add new faction when name does not exist', async () => {
-        const existingFaction: StoredFaction = {
-          name: 'ExistingFaction',
-          description: 'Existing',
-          relationships: [],
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const newFaction: StoredFaction = {
-          name: 'NewFaction',
-          description: 'New',
-          relationships: [],
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({
-            factions: [existingFaction],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [],
-          factions: [newFaction],
-          locations: [],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-
-        expect(result).toBe(true);
-        const factionCalls = (
-          SafeAsyncStorageJSONParser.setItem as jest.Mock
-        ).mock.calls.filter(
-          call => call[0] === 'gameCharacterManager_factions'
-        );
-        expect(factionCalls.length).toBeGreaterThan(0);
-        const savedFactions = factionCalls[0][1].factions;
-        expect(savedFactions).toHaveLength(2);
-        expect(savedFactions).toEqual(
-          expect.arrayContaining([
-            expect.objectContaining({
-              name: 'ExistingFaction',
-              description: 'Existing',
-            }),
-            expect.objectContaining({
-              name: 'NewFaction',
-              description: 'New',
-            }),
-          ])
-        );
-      });
-
-      it('should update faction when imported one is newer', async () => {
-        jest.clearAllMocks();
-
-        const olderFaction: StoredFaction = {
-          name: 'TestFaction',
-          description: 'Old description',
-          relationships: [],
-          createdAt: mockDate,
-          updatedAt: '2024-01-01T00:00:00.000Z',
-        };
-
-        const newerFaction: StoredFaction = {
-          name: 'TestFaction',
-          description: 'New description',
-          relationships: [],
-          createdAt: mockDate,
-          updatedAt: '2025-12-01T00:00:00.000Z',
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({
-            factions: [olderFaction],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [],
-          factions: [newerFaction],
-          locations: [],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-
-        expect(result).toBe(true);
-        const factionCalls = (
-          SafeAsyncStorageJSONParser.setItem as jest.Mock
-        ).mock.calls.filter(
-          call => call[0] === 'gameCharacterManager_factions'
-        );
-        expect(factionCalls.length).toBeGreaterThan(0);
-        const savedFactions = factionCalls[0][1].factions;
-        expect(savedFactions).toHaveLength(1);
-        expect(savedFactions[0]).toEqual(
-          expect.objectContaining({
-            name: 'TestFaction',
-            description: 'New description',
-            updatedAt: '2025-12-01T00:00:00.000Z',
-          })
-        );
-      });
-
-      it('should not update faction when existing one is newer', async () => {
-        jest.clearAllMocks();
-
-        const newerFaction: StoredFaction = {
-          name: 'TestFaction',
-          description: 'Current description',
-          relationships: [],
-          createdAt: mockDate,
-          updatedAt: '2025-12-01T00:00:00.000Z',
-        };
-
-        const olderFaction: StoredFaction = {
-          name: 'TestFaction',
-          description: 'Old description',
-          relationships: [],
-          createdAt: mockDate,
-          updatedAt: '2024-01-01T00:00:00.000Z',
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({
-            factions: [newerFaction],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [],
-          factions: [olderFaction],
-          locations: [],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-
-        expect(result).toBe(true);
-        const factionCalls = (
-          SafeAsyncStorageJSONParser.setItem as jest.Mock
-        ).mock.calls.filter(
-          call => call[0] === 'gameCharacterManager_factions'
-        );
-        expect(factionCalls.length).toBeGreaterThan(0);
-        const savedFactions = factionCalls[0][1].factions;
-        expect(savedFactions).toHaveLength(1);
-        expect(savedFactions[0]).toEqual(
-          expect.objectContaining({
-            name: 'TestFaction',
-            description: 'Current description',
-            updatedAt: '2025-12-01T00:00:00.000Z',
-          })
-        );
-      });
-    });
-
-    describe('mergeDatasetWithConflictResolution with location updates', () => {
-      beforeEach(() => {
-        jest.clearAllMocks();
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockReset();
-        (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockReset();
-      });
-
-      it('should add new location when ID does not exist', async () => {
-        const existingLocation: GameLocation = {
-          id: 'loc-1',
-          name: 'Existing Location',
-          description: 'Existing',
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const newLocation: GameLocation = {
-          id: 'loc-2',
-          name: 'New Location',
-          description: 'New',
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({
-            locations: [existingLocation],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({
-            locations: [existingLocation],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({
-            locations: [existingLocation],
-            version: '1.0',
-          });
-
-        const jsonData = JSON.stringify({
-          characters: [],
-          factions: [],
-          locations: [newLocation],
-        });
-
-        const result =
-          await CharacterStorage.mergeDatasetWithConflictResolution(jsonData);
-
-        expect(result.success).toBe(true);
-        const locationCalls = (
-          SafeAsyncStorageJSONParser.setItem as jest.Mock
-        ).mock.calls.filter(
-          call => call[0] === 'gameCharacterManager_locations'
-        );
-        expect(locationCalls.length).toBeGreaterThan(0);
-        const savedLocations = locationCalls[0][1].locations;
-        expect(savedLocations).toHaveLength(2);
-        expect(savedLocations).toEqual(
+        expect(await loadFactions()).toEqual(
           expect.arrayContaining([
             expect.objectContaining({
-              id: 'loc-1',
-              name: 'Existing Location',
-            }),
-            expect.objectContaining({
-              id: 'loc-2',
-              name: 'New Location',
+              name: 'TargetFaction',
+              relationships: expect.arrayContaining([
+                expect.objectContaining({
+                  factionName: 'NewFaction',
+                  relationshipType: RelationshipStanding.Hostile,
+                }),
+              ]),
             }),
           ])
         );
       });
-
-      it('should update location when imported one is newer', async () => {
-        jest.clearAllMocks();
-
-        const olderLocation: GameLocation = {
-          id: 'loc-1',
-          name: 'Old Name',
-          description: 'Old description',
-          createdAt: mockDate,
-          updatedAt: '2024-01-01T00:00:00.000Z',
-        };
-
-        const newerLocation: GameLocation = {
-          id: 'loc-1',
-          name: 'New Name',
-          description: 'New description',
-          createdAt: mockDate,
-          updatedAt: '2025-12-01T00:00:00.000Z',
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({ characters: [], version: '1.0' })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({
-            locations: [olderLocation],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({
-            locations: [olderLocation],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({
-            locations: [olderLocation],
-            version: '1.0',
-          });
-
-        const jsonData = JSON.stringify({
-          characters: [],
-          factions: [],
-          locations: [newerLocation],
-        });
-
-        const result =
-          await CharacterStorage.mergeDatasetWithConflictResolution(jsonData);
-
-        expect(result.success).toBe(true);
-        const locationCalls = (
-          SafeAsyncStorageJSONParser.setItem as jest.Mock
-        ).mock.calls.filter(
-          call => call[0] === 'gameCharacterManager_locations'
-        );
-        expect(locationCalls.length).toBeGreaterThan(0);
-        const savedLocations = locationCalls[0][1].locations;
-        expect(savedLocations).toHaveLength(1);
-        expect(savedLocations[0]).toEqual(
-          expect.objectContaining({
-            id: 'loc-1',
-            name: 'New Name',
-            updatedAt: '2025-12-01T00:00:00.000Z',
-          })
-        );
-      });
     });
 
     describe('deleteFactionCompletely with character cleanup', () => {
-      beforeEach(() => {
-        jest.clearAllMocks();
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockReset();
-        (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockReset();
-      });
-
       it('should update characters when they have the faction being deleted', async () => {
         const factionToDelete: Faction = {
           name: 'ToDelete',
@@ -2655,37 +2170,31 @@ describe('characterStorage', () => {
           updatedAt: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [characterWithFaction],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({
-            factions: [
-              {
-                name: 'ToDelete',
-                description: 'Will be deleted',
-                relationships: [],
-              },
-            ],
-            version: '1.0',
-          });
+        store.set('gameCharacterManager', {
+          characters: [characterWithFaction],
+          version: '1.0',
+        });
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            {
+              name: 'ToDelete',
+              description: 'Will be deleted',
+              relationships: [],
+            },
+          ],
+          version: '1.0',
+        });
 
         const result = await deleteFactionCompletely('ToDelete');
 
         expect(result.success).toBe(true);
         expect(result.charactersUpdated).toBe(1);
-        expect(SafeAsyncStorageJSONParser.setItem).toHaveBeenCalledWith(
-          'gameCharacterManager',
+        expect(await loadCharacters()).toEqual([
           expect.objectContaining({
-            characters: [
-              expect.objectContaining({
-                id: 'char-1',
-                factions: [factionToKeep],
-              }),
-            ],
-          })
-        );
+            id: 'char-1',
+            factions: [factionToKeep],
+          }),
+        ]);
       });
 
       it('should not save characters if none were updated', async () => {
@@ -2708,180 +2217,37 @@ describe('characterStorage', () => {
           updatedAt: mockDate,
         };
 
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [characterWithoutFaction],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({
-            factions: [
-              {
-                name: 'ToDelete',
-                description: 'Will be deleted',
-                relationships: [],
-              },
-            ],
-            version: '1.0',
-          });
+        store.set('gameCharacterManager', {
+          characters: [characterWithoutFaction],
+          version: '1.0',
+        });
+        store.set('gameCharacterManager_factions', {
+          factions: [
+            {
+              name: 'ToDelete',
+              description: 'Will be deleted',
+              relationships: [],
+            },
+          ],
+          version: '1.0',
+        });
 
-        // Clear previous mock calls
-        (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockClear();
+        // Migrate the stored data before watching the writes
+        await loadCharacters();
+        jest.clearAllMocks();
 
         const result = await deleteFactionCompletely('ToDelete');
 
         expect(result.success).toBe(true);
         expect(result.charactersUpdated).toBe(0);
 
-        // Should only call setItem once for deleting faction, not for characters
-        const calls = (
-          SafeAsyncStorageJSONParser.setItem as jest.Mock
-        ).mock.calls.filter(call => call[0] === 'gameCharacterManager');
-        expect(calls.length).toBe(0);
-      });
-    });
-
-    describe('mergeDatasets with character merging branches', () => {
-      beforeEach(() => {
-        jest.clearAllMocks();
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockReset();
-        (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockReset();
-      });
-
-      it('should add new character when ID does not exist', async () => {
-        const existingChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Existing',
-          species: 'Human',
-          perkIds: [],
-          distinctionIds: [],
-          factions: [],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const newChar: GameCharacter = {
-          id: 'char-2',
-          name: 'New Character',
-          species: 'Mutant',
-          perkIds: [],
-          distinctionIds: [],
-          factions: [],
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [existingChar],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [newChar],
-          factions: [],
-          locations: [],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-
-        expect(result).toBe(true);
-        const charCalls = (
-          SafeAsyncStorageJSONParser.setItem as jest.Mock
-        ).mock.calls.filter(call => call[0] === 'gameCharacterManager');
-        expect(charCalls.length).toBeGreaterThan(0);
-        const savedCharacters = charCalls[0][1].characters;
-        expect(savedCharacters).toHaveLength(2);
-        expect(savedCharacters).toEqual(
-          expect.arrayContaining([
-            expect.objectContaining({ id: 'char-1', name: 'Existing' }),
-            expect.objectContaining({ id: 'char-2', name: 'New Character' }),
-          ])
-        );
-      });
-
-      it('should merge character arrays when ID already exists', async () => {
-        const faction1: Faction = {
-          name: 'Faction1',
-          standing: RelationshipStanding.Ally,
-        };
-        const faction2: Faction = {
-          name: 'Faction2',
-          standing: RelationshipStanding.Neutral,
-        };
-
-        const existingChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Test Character',
-          species: 'Human',
-          perkIds: ['perk1'],
-          distinctionIds: ['dist1'],
-          factions: [faction1],
-          relationships: [],
-          notes: 'Original notes',
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        const importedChar: GameCharacter = {
-          id: 'char-1',
-          name: 'Test Character',
-          species: 'Human',
-          perkIds: ['perk2', 'perk3'], // New perks
-          distinctionIds: ['dist2'], // New distinction
-          factions: [faction2], // New faction
-          relationships: [],
-          present: false,
-          retired: false,
-          createdAt: mockDate,
-          updatedAt: mockDate,
-        };
-
-        (SafeAsyncStorageJSONParser.getItem as jest.Mock)
-          .mockResolvedValueOnce({
-            characters: [existingChar],
-            version: '1.0',
-          })
-          .mockResolvedValueOnce({ factions: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' })
-          .mockResolvedValueOnce({ locations: [], version: '1.0' });
-
-        const jsonData = JSON.stringify({
-          characters: [importedChar],
-          factions: [],
-          locations: [],
-        });
-
-        const result = await CharacterStorage.mergeDatasets(jsonData);
-
-        expect(result).toBe(true);
-        const charCalls = (
-          SafeAsyncStorageJSONParser.setItem as jest.Mock
-        ).mock.calls.filter(call => call[0] === 'gameCharacterManager');
-        expect(charCalls.length).toBeGreaterThan(0);
-        const savedCharacters = charCalls[0][1].characters;
-        expect(savedCharacters).toHaveLength(1);
-        // Should merge arrays - combining perks, distinctions, and factions
-        expect(savedCharacters[0]).toEqual(
-          expect.objectContaining({
-            id: 'char-1',
-            perkIds: ['perk1', 'perk2', 'perk3'],
-            distinctionIds: ['dist1', 'dist2'],
-            factions: [faction1, faction2],
-          })
+        // Only the faction is written, not the characters
+        const writtenKeys = (
+          SafeAsyncStorageJSONParser.multiSet as jest.Mock
+        ).mock.calls.flatMap(([entries]) =>
+          entries.map(([key]: [string]) => key)
         );
+        expect(writtenKeys).not.toContain('gameCharacterManager_record_char-2');
       });
     });
   });
@@ -0,0 +1,225 @@
+import {
+  craftRecipe,
+  findCrafters,
+  getFactionCraftingCapabilities,
+  loadMaterials,
+  planRecipes,
+} from '@/utils/craftingPlanner';
+import { addInventoryItem, loadInventory } from '@/utils/inventoryStorage';
+import { makeCharacter } from '../helpers/fixtures';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
+import { InventoryItem, RelationshipStanding } from '@/models/types';
+import { DEFAULT_RULES_PACK, PerkTag, RulesPack } from '@/models/gameData';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+describe('craftingPlanner', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+
+  const rulesPack: RulesPack = {
+    ...DEFAULT_RULES_PACK,
+    recipes: [
+      {
+        id: 'r1',
+        name: 'Makeshift Battery',
+        description: '',
+        materials: ['Scrap Electronics', 'Copper Wire'],
+      },
+      {
+        id: 'r2',
+        name: 'Scrap Armor',
+        description: '',
+        materials: ['Metal Scraps', 'Metal Scraps', 'Leather'],
+      },
+    ],
+    perks: [
+      {
+        id: 'tinker',
+        name: 'Tinker',
+        description: '',
+        tag: PerkTag.Smarts,
+        recipeIds: ['r1'],
+      },
+      {
+        id: 'armorer',
+        name: 'Armorer',
+        description: '',
+        tag: PerkTag.Defense,
+        recipeIds: ['r1', 'r2'],
+      },
+    ],
+  };
+
+  const giveItem = (characterId: string, name: string, quantity = 1) =>
+    addInventoryItem({
+      name,
+      quantity,
+      owner: { type: 'character', id: characterId, name: characterId },
+      date: '2050-01-01',
+    }) as Promise<InventoryItem>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+
+    mockMemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('planRecipes', () => {
+    it('should list the recipes taught by perks, craftable ones first', () => {
+      const character = makeCharacter({ perkIds: ['tinker', 'armorer'] });
+
+      const plans = planRecipes(
+        character,
+        { 'Metal Scraps': 2, Leather: 1, 'Copper Wire': 1 },
+        rulesPack
+      );
+
+      expect(plans).toEqual([
+        {
+          recipe: rulesPack.recipes[1],
+          taughtBy: ['Armorer'],
+          missingMaterials: {},
+          canCraft: true,
+        },
+        {
+          recipe: rulesPack.recipes[0],
+          taughtBy: ['Tinker', 'Armorer'],
+          missingMaterials: { 'Scrap Electronics': 1 },
+          canCraft: false,
+        },
+      ]);
+    });
+
+    it('should count repeated materials', () => {
+      const [plan] = planRecipes(
+        makeCharacter({ perkIds: ['armorer'] }),
+        { 'Metal Scraps': 1, Leather: 1 },
+        rulesPack
+      ).filter(p => p.recipe.id === 'r2');
+
+      expect(plan.missingMaterials).toEqual({ 'Metal Scraps': 1 });
+    });
+  });
+
+  describe('findCrafters', () => {
+    it('should find the characters who know a recipe', async () => {
+      const alice = makeCharacter({ perkIds: ['tinker'] });
+      const bob = makeCharacter({
+        id: 'char-2',
+        name: 'Bob',
+        perkIds: ['armorer'],
+      });
+      const carol = makeCharacter({ id: 'char-3', name: 'Carol' });
+      await giveItem('char-2', 'Scrap Electronics');
+      await giveItem('char-2', 'Copper Wire');
+      await giveItem('char-1', 'Copper Wire');
+
+      const crafters = findCrafters(
+        'r1',
+        [alice, bob, carol],
+        await loadInventory(),
+        rulesPack
+      );
+
+      expect(crafters.map(c => [c.character.name, c.canCraft])).toEqual([
+        ['Bob', true],
+        ['Alice', false],
+      ]);
+    });
+  });
+
+  describe('getFactionCraftingCapabilities', () => {
+    it('should combine the recipes and materials of active members', async () => {
+      const member = (standing: RelationshipStanding) => [
+        { name: 'Scrappers', standing },
+      ];
+      const characters = [
+        makeCharacter({
+          perkIds: ['tinker'],
+          factions: member(RelationshipStanding.Ally),
+        }),
+        makeCharacter({
+          id: 'char-2',
+          name: 'Bob',
+          perkIds: ['armorer'],
+          factions: member(RelationshipStanding.Friend),
+          retired: true,
+        }),
+        makeCharacter({
+          id: 'char-3',
+          name: 'Carol',
+          perkIds: ['armorer'],
+          factions: member(RelationshipStanding.Enemy),
+        }),
+      ];
+      await giveItem('char-1', 'Scrap Electronics');
+      await giveItem('char-1', 'Copper Wire');
+      await giveItem('char-2', 'Leather');
+
+      expect(
+        getFactionCraftingCapabilities(
+          characters,
+          await loadInventory(),
+          rulesPack
+        )
+      ).toEqual([
+        {
+          factionName: 'Scrappers',
+          memberCount: 1,
+          recipes: [
+            {
+              recipe: rulesPack.recipes[0],
+              crafters: ['Alice'],
+              readyCrafters: ['Alice'],
+            },
+          ],
+          materials: { 'Scrap Electronics': 1, 'Copper Wire': 1 },
+        },
+      ]);
+    });
+  });
+
+  describe('materials', () => {
+    it('should count the items in the inventory', async () => {
+      await giveItem('char-1', 'Leather', 2);
+      await giveItem('char-1', 'Leather');
+      await giveItem('char-2', 'Copper Wire');
+
+      expect(await loadMaterials('char-1')).toEqual({ Leather: 3 });
+      expect(await loadMaterials('char-3')).toEqual({});
+    });
+
+    it('should use up inventory items when crafting', async () => {
+      const character = makeCharacter({ perkIds: ['tinker'] });
+      await giveItem(character.id, 'Scrap Electronics', 2);
+      await giveItem(character.id, 'Copper Wire');
+
+      const result = await craftRecipe(character, 'r1', rulesPack);
+
+      expect(result).toEqual({
+        materials: { 'Scrap Electronics': 1 },
+        errors: [],
+      });
+      expect(
+        (await loadInventory()).map(item => [item.name, item.quantity])
+      ).toEqual([['Scrap Electronics', 1]]);
+    });
+
+    it('should refuse recipes the character cannot make', async () => {
+      const character = makeCharacter({ perkIds: ['tinker'] });
+
+      expect((await craftRecipe(character, 'r2', rulesPack)).errors).toEqual([
+        "Alice doesn't know how to make Scrap Armor.",
+        'Alice still needs 2 × Metal Scraps, 1 × Leather.',
+      ]);
+      expect((await craftRecipe(character, 'r9', rulesPack)).errors).toEqual([
+        'Unknown recipe "r9".',
+      ]);
+    });
+  });
+});
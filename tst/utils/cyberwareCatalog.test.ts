@@ -0,0 +1,133 @@
+import {
+  calculateCyberwareStats,
+  getAvailableCyberware,
+  getCyberwareModifiers,
+  installCyberware,
+} from '@/utils/cyberwareCatalog';
+import { calculateDerivedStats } from '@/utils/derivedStats';
+import { validateCharacterBuild } from '@/utils/buildValidation';
+import { DEFAULT_RULES_PACK, RulesPack } from '@/models/gameData';
+import { CyberwareDefinition } from '@/models/types';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('cyberwareCatalog', () => {
+  const plating: CyberwareDefinition = {
+    id: 'c1',
+    name: 'Subdermal Plating',
+    description: '',
+    statModifiers: { health: 1 },
+  };
+  const radFilter: CyberwareDefinition = {
+    id: 'c2',
+    name: 'Rad Filter',
+    description: '',
+    allowedSpecies: ['Mutant'],
+    statModifiers: { limit: 1 },
+  };
+  const rulesPack: RulesPack = {
+    ...DEFAULT_RULES_PACK,
+    cyberware: [plating, radFilter],
+  };
+
+  it('should only offer implants the species may install', () => {
+    expect(getAvailableCyberware('Human', rulesPack)).toEqual([plating]);
+    expect(getAvailableCyberware('Mutant', rulesPack)).toEqual([
+      radFilter,
+      plating,
+    ]);
+  });
+
+  it('should read the modifiers of catalog implants from the pack', () => {
+    const implant = {
+      ...installCyberware(plating, '2050-01-01'),
+      statModifiers: { health: 5 },
+    };
+
+    expect(implant.installedDate).toBe('2050-01-01');
+    expect(getCyberwareModifiers(implant, rulesPack)).toEqual({ health: 1 });
+    // Catalog entries missing from the pack fall back to the stored copy
+    expect(
+      getCyberwareModifiers(implant, { ...rulesPack, cyberware: [] })
+    ).toEqual({ health: 5 });
+  });
+
+  it('should leave removed and malfunctioning implants out of the stats', () => {
+    const character = makeCharacter({
+      species: 'Mutant',
+      cyberware: [
+        { ...installCyberware(plating), removedDate: '2050-02-01' },
+        { ...installCyberware(radFilter), malfunctioning: true },
+      ],
+    });
+
+    const stats = calculateDerivedStats(character, rulesPack);
+
+    expect(stats.maxHealth).toBe(2);
+    expect(stats.maxLimit).toBe(1);
+    expect(stats.breakdown.some(c => c.source === 'cyberware')).toBe(false);
+  });
+
+  it('should report restricted, unknown and misdated implants', () => {
+    const character = makeCharacter({
+      cyberware: [
+        installCyberware(radFilter),
+        { catalogId: 'c9', name: 'Old Implant', description: '' },
+        {
+          ...installCyberware(plating, '2050-03-01'),
+          removedDate: '2050-01-01',
+        },
+      ],
+    });
+
+    expect(
+      validateCharacterBuild(character, rulesPack).map(v => v.message)
+    ).toEqual([
+      'Rad Filter is only available to Mutant.',
+      'Cyberware "c9" (Old Implant) is not in the Junktown catalog.',
+      'Subdermal Plating is removed on 2050-01-01, before it was installed on 2050-03-01.',
+    ]);
+  });
+
+  it('should count implant usage across characters', () => {
+    const characters = [
+      makeCharacter({
+        cyberware: [
+          installCyberware(plating),
+          { name: 'Arm Blade', description: '' },
+        ],
+      }),
+      makeCharacter({
+        id: '2',
+        cyberware: [
+          { ...installCyberware(plating), malfunctioning: true },
+          { ...installCyberware(radFilter), removedDate: '2050-01-01' },
+        ],
+      }),
+      makeCharacter({ id: '3' }),
+    ];
+
+    expect(calculateCyberwareStats(characters, rulesPack)).toEqual({
+      charactersWithCyberware: 2,
+      installed: 3,
+      removed: 1,
+      malfunctioning: 1,
+      usage: [
+        {
+          name: 'Subdermal Plating',
+          catalogId: 'c1',
+          installed: 2,
+          removed: 0,
+          malfunctioning: 1,
+        },
+        { name: 'Arm Blade', installed: 1, removed: 0, malfunctioning: 0 },
+        {
+          name: 'Rad Filter',
+          catalogId: 'c2',
+          installed: 0,
+          removed: 1,
+          malfunctioning: 0,
+        },
+      ],
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { calculateDerivedStats } from '@/utils/derivedStats';
 import { GameCharacter } from '@/models/types';
-import { PerkTag } from '@/models/gameData';
+import { DEFAULT_RULES_PACK, PerkTag, RulesPack } from '@/models/gameData';
+import { makeCharacter } from '../helpers/fixtures';
 
 describe('derivedStats', () => {
   describe('calculateDerivedStats', () => {
@@ -603,4 +604,198 @@ describe('derivedStats', () => {
       });
     });
   });
+  describe('modifier pipeline', () => {
+    it('should not let cap cyberware leak into other characters', () => {
+      const capCyberware = makeCharacter({
+        cyberware: [
+          {
+            name: 'Reinforced Frame',
+            description: '',
+            statModifiers: { health: 10, healthCap: 10 },
+          },
+        ],
+      });
+      const plainHuman = makeCharacter({
+        cyberware: [
+          { name: 'Armor', description: '', statModifiers: { health: 10 } },
+        ],
+      });
+
+      calculateDerivedStats(capCyberware);
+      calculateDerivedStats(capCyberware);
+      const stats = calculateDerivedStats(plainHuman);
+
+      // Human cap stays at 5
+      expect(stats.maxHealth).toBe(5);
+      expect(DEFAULT_RULES_PACK.species.Human.healthCap).toBe(5);
+    });
+
+    it('should apply perk caps and tag modifiers', () => {
+      const rulesPack: RulesPack = {
+        ...DEFAULT_RULES_PACK,
+        perks: [
+          {
+            id: 'giant_1',
+            name: 'Giant',
+            description: '',
+            tag: PerkTag.Endurance,
+            statModifiers: {
+              health: 5,
+              healthCap: 2,
+              tagModifiers: { [PerkTag.Defense]: 1 },
+            },
+          },
+        ],
+      };
+
+      const stats = calculateDerivedStats(
+        makeCharacter({ perkIds: ['giant_1'] }),
+        rulesPack
+      );
+
+      // Human health 2 + 5 = 7, capped at 5 + 2
+      expect(stats.maxHealth).toBe(7);
+      expect(stats.healthCap).toBe(7);
+      expect(stats.tagScores?.get(PerkTag.Defense)).toBe(1);
+    });
+
+    it('should apply distinctions and temporary effects after cyberware', () => {
+      const rulesPack: RulesPack = {
+        ...DEFAULT_RULES_PACK,
+        distinctions: [
+          {
+            id: 'frail',
+            name: 'Frail',
+            description: '',
+            statModifiers: { health: -1, healthCap: -1 },
+          },
+        ],
+      };
+      const character = makeCharacter({
+        distinctionIds: ['frail'],
+        cyberware: [
+          { name: 'Armor', description: '', statModifiers: { health: 1 } },
+        ],
+      });
+
+      const stats = calculateDerivedStats(character, rulesPack, [
+        { name: 'Stimpak', statModifiers: { limit: 1 } },
+      ]);
+
+      expect(stats.breakdown).toEqual([
+        {
+          source: 'species',
+          name: 'Human',
+          health: 2,
+          limit: 2,
+          healthCap: 5,
+          limitCap: 5,
+        },
+        {
+          source: 'cyberware',
+          name: 'Armor',
+          health: 1,
+          limit: 0,
+          healthCap: 0,
+          limitCap: 0,
+        },
+        {
+          source: 'distinction',
+          name: 'Frail',
+          health: -1,
+          limit: 0,
+          healthCap: -1,
+          limitCap: 0,
+        },
+        {
+          source: 'effect',
+          name: 'Stimpak',
+          health: 0,
+          limit: 1,
+          healthCap: 0,
+          limitCap: 0,
+        },
+      ]);
+      expect(stats.maxHealth).toBe(2);
+      expect(stats.maxLimit).toBe(3);
+      expect(stats.healthCap).toBe(4);
+    });
+
+    it('should list the tag score bonuses that were unlocked', () => {
+      const rulesPack: RulesPack = {
+        ...DEFAULT_RULES_PACK,
+        tagScoreBonuses: {
+          [PerkTag.Agility]: [
+            { requiredScore: 1, limit: 1 },
+            { requiredScore: 3, health: 1 },
+          ],
+        },
+      };
+
+      const stats = calculateDerivedStats(
+        makeCharacter({ perkIds: ['agility_1'] }),
+        rulesPack
+      );
+
+      expect(stats.breakdown.map(c => [c.source, c.name])).toEqual([
+        ['species', 'Human'],
+        ['tag-bonus', 'Agility 1'],
+      ]);
+      expect(stats.maxLimit).toBe(3);
+    });
+  });
+  describe('with another rules pack', () => {
+    const rulesPack: RulesPack = {
+      ...DEFAULT_RULES_PACK,
+      id: 'wasteland',
+      name: 'Wasteland',
+      species: {
+        Ghoul: {
+          ...DEFAULT_RULES_PACK.species.Human,
+          baseHealth: 4,
+          healthCap: 6,
+        },
+      },
+      speciesGroups: {},
+      perkTags: ['Scavenging'],
+      tagScoreBonuses: { Scavenging: [{ requiredScore: 2, health: 1 }] },
+      perks: [
+        {
+          id: 'scav_1',
+          name: 'Dumpster Diver',
+          description: '',
+          tag: 'Scavenging',
+        },
+        { id: 'scav_2', name: 'Junk Eye', description: '', tag: 'Scavenging' },
+      ],
+    };
+
+    const ghoul: GameCharacter = {
+      id: '30',
+      name: 'Test Ghoul',
+      species: 'Ghoul',
+      perkIds: ['scav_1', 'scav_2', 'agility_1'],
+      distinctionIds: [],
+      factions: [],
+      relationships: [],
+      createdAt: '2025-01-01',
+      updatedAt: '2025-01-01',
+    };
+
+    it('should use the species, perks and bonuses of the pack', () => {
+      const stats = calculateDerivedStats(ghoul, rulesPack);
+
+      // Ghoul base health 4 + 1 from the Scavenging bonus
+      expect(stats.maxHealth).toBe(5);
+      expect(Array.from(stats.tagScores?.entries() ?? [])).toEqual([
+        ['Scavenging', 2],
+      ]);
+    });
+
+    it('should reject species the pack does not define', () => {
+      expect(() =>
+        calculateDerivedStats({ ...ghoul, species: 'Human' }, rulesPack)
+      ).toThrow('Species "Human" is not defined in the Wasteland rules pack');
+    });
+  });
 });
@@ -0,0 +1,254 @@
+import {
+  addDiscordMessages,
+  getDiscordMessages,
+  getDiscordMessagesForChannel,
+  getDiscordMessagesForCharacter,
+  mergeDiscordCharacterAliases,
+  mergeDiscordMessages,
+  mergeDiscordUserMappings,
+} from '@/utils/discordStorage';
+import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+import {
+  DiscordCharacterAlias,
+  DiscordMessage,
+  DiscordUserMapping,
+} from '@/models/types';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+describe('discordStorage', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+  const laterDate = '2025-02-01T00:00:00.000Z';
+
+  describe('mergeDiscordMessages', () => {
+    const makeMessage = (
+      overrides: Partial<DiscordMessage> = {}
+    ): DiscordMessage => ({
+      id: 'msg-1',
+      channelId: 'channel-1',
+      authorId: 'user-1',
+      authorUsername: 'gm',
+      content: 'Hello',
+      timestamp: mockDate,
+      createdAt: mockDate,
+      ...overrides,
+    });
+
+    it('should deduplicate by ID and sort oldest first', () => {
+      const merged = mergeDiscordMessages(
+        [makeMessage({ id: 'msg-2', timestamp: laterDate })],
+        [makeMessage(), makeMessage({ id: 'msg-2', timestamp: laterDate })]
+      );
+
+      expect(merged.map(m => m.id)).toEqual(['msg-1', 'msg-2']);
+    });
+
+    it('should keep local character tags and content missing from the import', () => {
+      const [merged] = mergeDiscordMessages(
+        [
+          makeMessage({
+            characterId: 'char-1',
+            imageUris: ['a.png'],
+            ignored: true,
+          }),
+        ],
+        [makeMessage({ content: '', imageUris: ['b.png'] })]
+      );
+
+      expect(merged).toEqual(
+        makeMessage({
+          characterId: 'char-1',
+          imageUris: ['a.png', 'b.png'],
+          ignored: true,
+        })
+      );
+    });
+
+    it('should take character tags added on the other device', () => {
+      const [merged] = mergeDiscordMessages(
+        [makeMessage()],
+        [makeMessage({ characterId: 'char-2' })]
+      );
+
+      expect(merged.characterId).toBe('char-2');
+    });
+  });
+
+  describe('mergeDiscordUserMappings', () => {
+    const makeMapping = (
+      overrides: Partial<DiscordUserMapping> = {}
+    ): DiscordUserMapping => ({
+      discordUserId: 'user-1',
+      discordUsername: 'player',
+      characterId: 'char-1',
+      createdAt: mockDate,
+      updatedAt: mockDate,
+      ...overrides,
+    });
+
+    it('should union mappings and keep the most recently updated one', () => {
+      const merged = mergeDiscordUserMappings(
+        [
+          makeMapping({ characterId: 'char-1', updatedAt: laterDate }),
+          makeMapping({ discordUserId: 'user-2' }),
+        ],
+        [
+          makeMapping({ characterId: 'char-9' }),
+          makeMapping({ discordUserId: 'user-2', characterId: 'char-3' }),
+          makeMapping({ discordUserId: 'user-3' }),
+        ]
+      );
+
+      expect(merged.map(m => [m.discordUserId, m.characterId])).toEqual([
+        ['user-1', 'char-1'],
+        ['user-2', 'char-1'],
+        ['user-3', 'char-1'],
+      ]);
+    });
+  });
+
+  describe('mergeDiscordCharacterAliases', () => {
+    const makeAlias = (
+      overrides: Partial<DiscordCharacterAlias> = {}
+    ): DiscordCharacterAlias => ({
+      alias: 'jo',
+      characterId: 'char-1',
+      discordUserId: 'user-1',
+      confidence: 0.5,
+      usageCount: 2,
+      createdAt: mockDate,
+      updatedAt: mockDate,
+      ...overrides,
+    });
+
+    it('should combine aliases that agree on the character', () => {
+      const merged = mergeDiscordCharacterAliases(
+        [makeAlias({ confidence: 0.9 })],
+        [makeAlias({ alias: 'Jo', usageCount: 5, updatedAt: laterDate })]
+      );
+
+      expect(merged).toEqual([
+        makeAlias({ confidence: 0.9, usageCount: 5, updatedAt: laterDate }),
+      ]);
+    });
+
+    it('should keep the more confident mapping of a disputed alias', () => {
+      const merged = mergeDiscordCharacterAliases(
+        [makeAlias({ confidence: 0.4 })],
+        [makeAlias({ characterId: 'char-2', confidence: 0.8 })]
+      );
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].characterId).toBe('char-2');
+      expect(merged[0].confidence).toBeCloseTo(0.6);
+    });
+
+    it('should prefer the newer mapping when confidence is equal', () => {
+      const [merged] = mergeDiscordCharacterAliases(
+        [makeAlias({ characterId: 'char-1', updatedAt: laterDate })],
+        [makeAlias({ characterId: 'char-2' })]
+      );
+
+      expect(merged.characterId).toBe('char-1');
+      expect(merged.confidence).toBe(0.25);
+    });
+
+    it('should keep aliases of different users apart', () => {
+      const merged = mergeDiscordCharacterAliases(
+        [makeAlias()],
+        [makeAlias({ discordUserId: 'user-2', characterId: 'char-2' })]
+      );
+
+      expect(merged).toHaveLength(2);
+    });
+  });
+
+  describe('message storage', () => {
+    const MESSAGES_KEY = 'gameCharacterManager_discord_messages';
+    let store: Map<string, unknown>;
+
+    const makeMessage = (
+      id: string,
+      overrides: Partial<DiscordMessage> = {}
+    ): DiscordMessage => ({
+      id,
+      channelId: 'channel-1',
+      authorId: 'user-1',
+      authorUsername: 'player',
+      content: `Message ${id}`,
+      timestamp: mockDate,
+      createdAt: mockDate,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      store = new Map();
+      const setItem = async (key: string, value: unknown) => {
+        store.set(key, value);
+        return true;
+      };
+      (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockImplementation(
+        async (key: string) => store.get(key) ?? null
+      );
+      (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockImplementation(
+        setItem
+      );
+      (SafeAsyncStorageJSONParser.multiGet as jest.Mock).mockImplementation(
+        async (keys: string[]) =>
+          Object.fromEntries(keys.map(key => [key, store.get(key) ?? null]))
+      );
+      (SafeAsyncStorageJSONParser.multiSet as jest.Mock).mockImplementation(
+        async (pairs: Array<[string, unknown]>) => {
+          for (const [key, value] of pairs) await setItem(key, value);
+          return pairs.length;
+        }
+      );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should migrate messages stored as one array', async () => {
+      store.set(MESSAGES_KEY, [
+        makeMessage('msg-2', { timestamp: laterDate, characterId: 'char-1' }),
+        makeMessage('msg-1', { channelId: 'channel-2' }),
+      ]);
+
+      expect((await getDiscordMessages()).map(m => m.id)).toEqual([
+        'msg-1',
+        'msg-2',
+      ]);
+      expect(store.has(`${MESSAGES_KEY}_record_msg-1`)).toBe(true);
+      expect(
+        (await getDiscordMessagesForCharacter('char-1')).map(m => m.id)
+      ).toEqual(['msg-2']);
+      expect(
+        (await getDiscordMessagesForChannel('channel-2')).map(m => m.id)
+      ).toEqual(['msg-1']);
+    });
+
+    it('should keep manual character tags when messages are synced again', async () => {
+      await addDiscordMessages([
+        makeMessage('msg-1', { characterId: 'char-1' }),
+      ]);
+      (SafeAsyncStorageJSONParser.multiSet as jest.Mock).mockClear();
+
+      await addDiscordMessages([
+        makeMessage('msg-1', { characterId: 'char-2' }),
+        makeMessage('msg-2'),
+      ]);
+
+      expect(
+        (await getDiscordMessagesForCharacter('char-1')).map(m => m.id)
+      ).toEqual(['msg-1']);
+      // msg-1 is unchanged and not rewritten
+      expect(
+        (SafeAsyncStorageJSONParser.multiSet as jest.Mock).mock.calls[0][0]
+      ).toEqual([[`${MESSAGES_KEY}_record_msg-2`, makeMessage('msg-2')]]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  createLegacyFactionId,
+  isFactionReferenceTo,
+  isRelationshipTo,
+  linkCharacterReferences,
+  linkFactionReferences,
+} from '@/utils/entityReferences';
+import type { StoredFaction } from '@/utils/characterStorage';
+import { RelationshipStanding } from '@/models/types';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('entityReferences', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+
+  const makeFaction = (
+    overrides: Partial<StoredFaction> & { name: string }
+  ): StoredFaction => ({
+    id: '',
+    description: '',
+    relationships: [],
+    createdAt: mockDate,
+    updatedAt: mockDate,
+    ...overrides,
+  });
+
+  describe('createLegacyFactionId', () => {
+    it('should derive a deterministic slug from the name', () => {
+      expect(createLegacyFactionId('The Iron Guard!')).toBe(
+        'faction-the-iron-guard'
+      );
+      expect(createLegacyFactionId('The Iron Guard!')).toBe(
+        createLegacyFactionId('the iron guard')
+      );
+    });
+
+    it('should handle names without usable characters', () => {
+      expect(createLegacyFactionId('???')).toBe('faction-unnamed');
+    });
+  });
+
+  describe('isFactionReferenceTo', () => {
+    const faction = { id: 'faction-1', name: 'Brotherhood' };
+
+    it('should match by ID when the reference has one', () => {
+      expect(
+        isFactionReferenceTo({ factionId: 'faction-1', name: 'Old' }, faction)
+      ).toBe(true);
+      expect(
+        isFactionReferenceTo(
+          { factionId: 'faction-2', name: 'Brotherhood' },
+          faction
+        )
+      ).toBe(false);
+    });
+
+    it('should fall back to the name for legacy references', () => {
+      expect(isFactionReferenceTo({ name: 'Brotherhood' }, faction)).toBe(true);
+    });
+  });
+
+  describe('isRelationshipTo', () => {
+    it('should prefer the character ID over the name', () => {
+      const character = { id: 'char-1', name: 'Alice' };
+
+      expect(
+        isRelationshipTo(
+          { characterId: 'char-1', characterName: 'A' },
+          character
+        )
+      ).toBe(true);
+      expect(isRelationshipTo({ characterName: 'Alice' }, character)).toBe(
+        true
+      );
+    });
+  });
+
+  describe('linkFactionReferences', () => {
+    it('should assign unique legacy IDs to factions without one', () => {
+      const { factions, changed } = linkFactionReferences([
+        makeFaction({ name: 'Iron Guard' }),
+        makeFaction({ name: 'Iron-Guard' }),
+        makeFaction({ id: 'faction-kept', name: 'Kept' }),
+      ]);
+
+      expect(changed).toBe(true);
+      expect(factions.map(f => f.id)).toEqual([
+        'faction-iron-guard',
+        'faction-iron-guard-2',
+        'faction-kept',
+      ]);
+    });
+
+    it('should link relationships by ID and refresh their names', () => {
+      const { factions } = linkFactionReferences([
+        makeFaction({
+          id: 'faction-1',
+          name: 'Faction1',
+          relationships: [
+            {
+              factionId: 'faction-2',
+              factionName: 'Old Name',
+              relationshipType: RelationshipStanding.Enemy,
+            },
+          ],
+        }),
+        makeFaction({ id: 'faction-2', name: 'New Name' }),
+      ]);
+
+      expect(factions[0].relationships).toEqual([
+        {
+          factionId: 'faction-2',
+          factionName: 'New Name',
+          relationshipType: RelationshipStanding.Enemy,
+        },
+      ]);
+    });
+
+    it('should report no changes for already linked factions', () => {
+      const input = [makeFaction({ id: 'faction-1', name: 'Faction1' })];
+
+      const { factions, changed } = linkFactionReferences(input);
+
+      expect(changed).toBe(false);
+      expect(factions[0]).toBe(input[0]);
+    });
+  });
+
+  describe('linkCharacterReferences', () => {
+    const factions = [makeFaction({ id: 'faction-1', name: 'Brotherhood' })];
+
+    it('should link legacy memberships and relationships', () => {
+      const { characters, changed } = linkCharacterReferences(
+        [
+          makeCharacter({
+            id: 'char-1',
+            name: 'Alice',
+            factions: [
+              { name: 'Brotherhood', standing: RelationshipStanding.Ally },
+            ],
+            relationships: [
+              {
+                characterName: 'Bob',
+                relationshipType: RelationshipStanding.Friend,
+              },
+            ],
+          }),
+          makeCharacter({ id: 'char-2', name: 'Bob' }),
+        ],
+        factions
+      );
+
+      expect(changed).toBe(true);
+      expect(characters[0].factions[0].factionId).toBe('faction-1');
+      expect(characters[0].relationships[0].characterId).toBe('char-2');
+    });
+
+    it('should refresh display names after a rename', () => {
+      const { characters } = linkCharacterReferences(
+        [
+          makeCharacter({
+            id: 'char-1',
+            name: 'Alice',
+            relationships: [
+              {
+                characterId: 'char-2',
+                characterName: 'Bob',
+                relationshipType: RelationshipStanding.Friend,
+              },
+            ],
+          }),
+          makeCharacter({ id: 'char-2', name: 'Robert' }),
+        ],
+        factions
+      );
+
+      expect(characters[0].relationships[0].characterName).toBe('Robert');
+    });
+
+    it('should leave unresolved and self references untouched', () => {
+      const input = [
+        makeCharacter({
+          id: 'char-1',
+          name: 'Alice',
+          factions: [{ name: 'Unknown', standing: RelationshipStanding.Ally }],
+          relationships: [
+            {
+              characterName: 'Someone Else',
+              relationshipType: RelationshipStanding.Neutral,
+            },
+            {
+              characterName: 'Alice',
+              relationshipType: RelationshipStanding.Neutral,
+            },
+          ],
+        }),
+      ];
+
+      const { characters, changed } = linkCharacterReferences(input, factions);
+
+      expect(changed).toBe(false);
+      expect(characters[0]).toBe(input[0]);
+    });
+  });
+});
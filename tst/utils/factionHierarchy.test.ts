@@ -0,0 +1,97 @@
+import {
+  buildFactionTree,
+  canSetParentFaction,
+  compareFactionRanks,
+  flattenFactionTree,
+  getFactionAncestors,
+  getSubFactions,
+} from '@/utils/factionHierarchy';
+import { StoredFaction } from '@/utils/characterStorage';
+import { Faction, FactionRank, RelationshipStanding } from '@/models/types';
+
+describe('factionHierarchy', () => {
+  const makeFaction = (
+    id: string,
+    parentFactionId?: string
+  ): StoredFaction => ({
+    id,
+    name: id,
+    description: '',
+    parentFactionId,
+    createdAt: '2025-01-01',
+    updatedAt: '2025-01-01',
+  });
+
+  // Gang > Rust Riders > Night Shift, and a Guild standing alone
+  const nightShift = makeFaction('Night Shift', 'Rust Riders');
+  const guild = makeFaction('Guild');
+  const gang = makeFaction('Gang');
+  const factions = [
+    nightShift,
+    guild,
+    makeFaction('Rust Riders', 'Gang'),
+    gang,
+    makeFaction('Chrome Dogs', 'Gang'),
+  ];
+
+  it('should walk up and down the hierarchy', () => {
+    expect(getFactionAncestors(nightShift, factions).map(f => f.id)).toEqual([
+      'Rust Riders',
+      'Gang',
+    ]);
+    expect(getSubFactions(gang, factions).map(f => f.id)).toEqual([
+      'Rust Riders',
+      'Chrome Dogs',
+      'Night Shift',
+    ]);
+
+    expect(canSetParentFaction('Guild', 'Night Shift', factions)).toBe(true);
+    expect(canSetParentFaction('Gang', 'Night Shift', factions)).toBe(false);
+    expect(canSetParentFaction('Gang', 'Gang', factions)).toBe(false);
+    expect(canSetParentFaction(undefined, 'Gang', factions)).toBe(true);
+    expect(canSetParentFaction(undefined, 'Missing', factions)).toBe(false);
+  });
+
+  it('should flatten the tree in display order, surviving loops', () => {
+    const rows = flattenFactionTree(
+      buildFactionTree([
+        ...factions,
+        makeFaction('Loop A', 'Loop B'),
+        makeFaction('Loop B', 'Loop A'),
+      ])
+    );
+
+    expect(rows.map(row => [row.faction.id, row.depth])).toEqual([
+      ['Gang', 0],
+      ['Chrome Dogs', 1],
+      ['Rust Riders', 1],
+      ['Night Shift', 2],
+      ['Guild', 0],
+      ['Loop A', 0],
+      ['Loop B', 1],
+    ]);
+    expect(getSubFactions(guild, factions)).toEqual([]);
+  });
+
+  it('should order members by rank, unranked last', () => {
+    const member = (rank?: FactionRank): Faction => ({
+      name: 'Gang',
+      standing: RelationshipStanding.Ally,
+      rank,
+    });
+
+    const sorted = [
+      member(),
+      member(FactionRank.Recruit),
+      member(FactionRank.Leader),
+      member(FactionRank.Officer),
+    ].sort(compareFactionRanks);
+
+    expect(sorted.map(f => f.rank)).toEqual([
+      FactionRank.Leader,
+      FactionRank.Officer,
+      FactionRank.Recruit,
+      undefined,
+    ]);
+  });
+});
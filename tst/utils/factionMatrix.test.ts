@@ -0,0 +1,120 @@
+import {
+  buildFactionMatrix,
+  detectFactionBlocs,
+  findContradictions,
+} from '@/utils/factionMatrix';
+import { StoredFaction } from '@/utils/characterStorage';
+import { GameCharacter, RelationshipStanding } from '@/models/types';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('factionMatrix', () => {
+  const makeFaction = (
+    name: string,
+    overrides: Partial<StoredFaction> = {}
+  ): StoredFaction => ({
+    id: `faction-${name.toLowerCase()}`,
+    name,
+    description: '',
+    createdAt: '2025-01-01',
+    updatedAt: '2025-01-01',
+    ...overrides,
+  });
+
+  const withFactions = (
+    id: string,
+    factions: [string, RelationshipStanding][]
+  ): GameCharacter =>
+    makeCharacter({
+      id,
+      name: `Character ${id}`,
+      factions: factions.map(([name, standing]) => ({ name, standing })),
+    });
+
+  const declare = (name: string, relationshipType: RelationshipStanding) => ({
+    factionId: `faction-${name.toLowerCase()}`,
+    factionName: name,
+    relationshipType,
+  });
+
+  const { Ally, Friend, Neutral, Hostile, Enemy } = RelationshipStanding;
+
+  it('should set declared standings against the average member standing', () => {
+    const factions = [
+      makeFaction('Scrappers', {
+        relationships: [declare('Wardens', Ally)],
+      }),
+      makeFaction('Wardens'),
+      makeFaction('Old Guard', { retired: true }),
+    ];
+    const characters = [
+      withFactions('1', [
+        ['Scrappers', Ally],
+        ['Wardens', Hostile],
+      ]),
+      withFactions('2', [
+        ['Scrappers', Friend],
+        ['Wardens', Enemy],
+      ]),
+      // Hostile to the Scrappers, so not a member whose opinion counts
+      withFactions('3', [
+        ['Scrappers', Hostile],
+        ['Wardens', Ally],
+      ]),
+    ];
+
+    const matrix = buildFactionMatrix(factions, characters);
+
+    expect(matrix.factions).toEqual(['Scrappers', 'Wardens']);
+    expect(matrix.cells[0][1]).toEqual({
+      from: 'Scrappers',
+      to: 'Wardens',
+      declared: Ally,
+      inferred: Enemy,
+      inferredFrom: 2,
+      contradiction: true,
+    });
+    expect(matrix.cells[1][0]).toMatchObject({
+      declared: undefined,
+      inferred: Hostile,
+      contradiction: false,
+    });
+    expect(findContradictions(matrix)).toEqual([matrix.cells[0][1]]);
+  });
+
+  it('should group allied factions into blocs and find their rivalries', () => {
+    const factions = [
+      makeFaction('Alpha', { relationships: [declare('Beta', Ally)] }),
+      makeFaction('Beta', { relationships: [declare('Gamma', Hostile)] }),
+      makeFaction('Gamma', {
+        relationships: [declare('Delta', Friend), declare('Alpha', Enemy)],
+      }),
+      makeFaction('Delta'),
+      makeFaction('Epsilon', { relationships: [declare('Alpha', Neutral)] }),
+    ];
+    // Delta's members dislike Beta, though Delta never declared it
+    const characters = [
+      withFactions('1', [
+        ['Delta', Ally],
+        ['Beta', Hostile],
+      ]),
+    ];
+
+    const { blocs, rivalries } = detectFactionBlocs(
+      buildFactionMatrix(factions, characters)
+    );
+
+    expect(blocs).toEqual([
+      ['Alpha', 'Beta'],
+      ['Delta', 'Gamma'],
+    ]);
+    expect(rivalries).toEqual([
+      {
+        sides: [
+          ['Alpha', 'Beta'],
+          ['Delta', 'Gamma'],
+        ],
+        hostileTies: 3,
+      },
+    ]);
+  });
+});
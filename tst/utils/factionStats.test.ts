@@ -0,0 +1,81 @@
+import { calculateFactionStats } from '@/utils/factionStats';
+import { GameCharacter, RelationshipStanding } from '@/models/types';
+import { DEFAULT_RULES_PACK } from '@/models/gameData';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('factionStats', () => {
+  const withFactions = (
+    id: string,
+    factions: [string, RelationshipStanding, string?][],
+    present = false
+  ): GameCharacter =>
+    makeCharacter({
+      id,
+      name: `Character ${id}`,
+      factions: factions.map(([name, standing, factionId]) => ({
+        factionId,
+        name,
+        standing,
+      })),
+      present,
+    });
+
+  const { Ally, Friend, Hostile } = RelationshipStanding;
+  const gang = { id: 'f1', name: 'Gang' };
+  const riders = { id: 'f2', name: 'Rust Riders' };
+  const dogs = { id: 'f3', name: 'Chrome Dogs' };
+
+  it('should roll sub-faction members up into the parent, once each', () => {
+    const characters = [
+      withFactions('1', [['Gang', Ally]]),
+      withFactions(
+        '2',
+        [
+          ['Gang', Friend],
+          ['Rust Riders', Ally],
+        ],
+        true
+      ),
+      withFactions('3', [['Rust Riders', Friend]], true),
+      withFactions('4', [['Chrome Dogs', Hostile]]),
+    ];
+
+    const stats = calculateFactionStats(
+      gang,
+      characters,
+      [],
+      [riders, dogs],
+      DEFAULT_RULES_PACK
+    );
+
+    expect(stats).toMatchObject({
+      totalMembers: 3,
+      directMembers: 2,
+      presentMembers: 2,
+      subFactions: ['Rust Riders', 'Chrome Dogs'],
+      speciesDistribution: { Human: 3 },
+    });
+    expect(
+      calculateFactionStats(gang, characters, [], [], DEFAULT_RULES_PACK)
+        .totalMembers
+    ).toBe(2);
+  });
+
+  it('should match linked memberships by faction ID, not name', () => {
+    const characters = [
+      withFactions('1', [['Old Gang Name', Ally, 'f1']]),
+      withFactions('2', [['Gang', Friend, 'f9']]),
+      withFactions('3', [['Riders', Ally, 'f2']]),
+    ];
+
+    const stats = calculateFactionStats(
+      gang,
+      characters,
+      [],
+      [riders],
+      DEFAULT_RULES_PACK
+    );
+
+    expect(stats).toMatchObject({ totalMembers: 2, directMembers: 1 });
+  });
+});
@@ -0,0 +1,352 @@
+import {
+  UnreadableCollectionError,
+  createIndexedCollection,
+} from '@/utils/indexedStorage';
+import {
+  SafeAsyncStorageJSONParser,
+  StorageWriteError,
+} from '@/utils/safeAsyncStorageJSONParser';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+interface Note {
+  id: string;
+  channel: string;
+  author?: string;
+  text: string;
+  order: number;
+}
+
+describe('indexedStorage', () => {
+  const BASE_KEY = 'test_notes';
+  let store: Map<string, unknown>;
+  let bytesWritten: number;
+  let keysWritten: number;
+
+  const makeNote = (index: number, overrides: Partial<Note> = {}): Note => ({
+    id: `note-${index}`,
+    channel: `channel-${index % 3}`,
+    author: `author-${index % 2}`,
+    text: `Note number ${index}`,
+    order: index,
+    ...overrides,
+  });
+
+  const createCollection = () =>
+    createIndexedCollection({
+      baseKey: BASE_KEY,
+      getId: (note: Note) => note.id,
+      indexes: {
+        channel: note => note.channel,
+        author: note => note.author,
+      },
+      compare: (a, b) => a.order - b.order,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory storage that tracks how much every write costs
+    store = new Map();
+    bytesWritten = 0;
+    keysWritten = 0;
+    const setItem = async (key: string, value: unknown) => {
+      bytesWritten += JSON.stringify(value).length;
+      keysWritten++;
+      store.set(key, JSON.parse(JSON.stringify(value)));
+      return true;
+    };
+    (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockImplementation(
+      async (key: string) => store.get(key) ?? null
+    );
+    (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockImplementation(
+      setItem
+    );
+    (SafeAsyncStorageJSONParser.removeItem as jest.Mock).mockImplementation(
+      async (key: string) => {
+        store.delete(key);
+        return true;
+      }
+    );
+    (SafeAsyncStorageJSONParser.multiGet as jest.Mock).mockImplementation(
+      async (keys: string[]) =>
+        Object.fromEntries(keys.map(key => [key, store.get(key) ?? null]))
+    );
+    (SafeAsyncStorageJSONParser.multiSet as jest.Mock).mockImplementation(
+      async (pairs: Array<[string, unknown]>) => {
+        for (const [key, value] of pairs) await setItem(key, value);
+        return pairs.length;
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('put and getAll', () => {
+    it('should store one record per entity and load them in order', async () => {
+      const collection = createCollection();
+
+      await collection.put([makeNote(2), makeNote(1)]);
+
+      expect(store.has(`${BASE_KEY}_record_note-1`)).toBe(true);
+      expect(store.has(`${BASE_KEY}_record_note-2`)).toBe(true);
+      expect((await collection.getAll()).map(n => n.id)).toEqual([
+        'note-1',
+        'note-2',
+      ]);
+      expect(await collection.count()).toBe(2);
+    });
+
+    it('should only write entities that changed', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(1), makeNote(2)]);
+
+      expect(await collection.put([makeNote(1), makeNote(2)])).toBe(0);
+      expect(
+        await collection.put([makeNote(1), makeNote(2, { text: 'Edited' })])
+      ).toBe(1);
+    });
+
+    it('should load only the requested entities', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(1), makeNote(2)]);
+
+      expect(await collection.getMany(['note-2', 'missing'])).toEqual([
+        makeNote(2),
+      ]);
+    });
+  });
+
+  describe('findBy', () => {
+    it('should look entities up through secondary indexes', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0), makeNote(1), makeNote(3)]);
+
+      expect((await collection.findBy('channel', 'channel-0')).length).toBe(2);
+      expect(
+        (await collection.findBy('author', 'author-1')).map(n => n.id)
+      ).toEqual(['note-1', 'note-3']);
+      expect(await collection.findBy('channel', 'unknown')).toEqual([]);
+    });
+
+    it('should move entities between index values when they change', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0)]);
+
+      await collection.put([makeNote(0, { channel: 'channel-9' })]);
+
+      expect(await collection.findBy('channel', 'channel-0')).toEqual([]);
+      expect(
+        (await collection.findBy('channel', 'channel-9')).map(n => n.id)
+      ).toEqual(['note-0']);
+    });
+
+    it('should not index missing values', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0, { author: undefined })]);
+
+      expect(await collection.findBy('author', 'undefined')).toEqual([]);
+    });
+
+    it('should drop indexes the collection no longer defines', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0)]);
+      store.set(BASE_KEY, {
+        ...(store.get(BASE_KEY) as object),
+        indexes: { retired: { yes: ['note-0'] } },
+      });
+
+      await collection.put([makeNote(1)]);
+
+      expect(store.get(BASE_KEY)).toMatchObject({
+        indexes: { channel: { 'channel-1': ['note-1'] } },
+      });
+      expect(
+        Object.keys((store.get(BASE_KEY) as { indexes: object }).indexes)
+      ).toEqual(['channel', 'author']);
+    });
+  });
+
+  describe('replaceAll, remove and clear', () => {
+    it('should drop entities that are no longer present', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0), makeNote(1), makeNote(2)]);
+
+      await collection.replaceAll([makeNote(0), makeNote(3)]);
+
+      expect((await collection.getAll()).map(n => n.id)).toEqual([
+        'note-0',
+        'note-3',
+      ]);
+      expect(store.has(`${BASE_KEY}_record_note-1`)).toBe(false);
+      expect(await collection.findBy('channel', 'channel-1')).toEqual([]);
+    });
+
+    it('should remove entities by ID', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0), makeNote(1)]);
+
+      await collection.remove(['note-0']);
+
+      expect((await collection.getAll()).map(n => n.id)).toEqual(['note-1']);
+    });
+
+    it('should remove every record and the manifest', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0), makeNote(1)]);
+
+      await collection.clear();
+
+      expect(store.size).toBe(0);
+      expect(await collection.getAll()).toEqual([]);
+    });
+  });
+
+  describe('refused writes', () => {
+    it('should throw when a record write is refused', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0)]);
+      (SafeAsyncStorageJSONParser.multiSet as jest.Mock).mockResolvedValueOnce(
+        0
+      );
+
+      await expect(
+        collection.put([makeNote(0, { text: 'Edited' })])
+      ).rejects.toBeInstanceOf(StorageWriteError);
+      expect((await collection.getAll())[0].text).toBe('Note number 0');
+    });
+
+    it('should throw when the manifest write is refused', async () => {
+      const collection = createCollection();
+      (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockResolvedValueOnce(
+        false
+      );
+
+      await expect(collection.put([makeNote(0)])).rejects.toBeInstanceOf(
+        StorageWriteError
+      );
+    });
+
+    it('should keep a record whose removal is refused', async () => {
+      const collection = createCollection();
+      await collection.put([makeNote(0), makeNote(1)]);
+      (
+        SafeAsyncStorageJSONParser.removeItem as jest.Mock
+      ).mockResolvedValueOnce(false);
+
+      await expect(collection.replaceAll([makeNote(1)])).rejects.toBeInstanceOf(
+        StorageWriteError
+      );
+      expect(await collection.count()).toBe(2);
+    });
+  });
+
+  describe('migration from blobs', () => {
+    it('should migrate an array blob to per-entity records on first read', async () => {
+      store.set(BASE_KEY, [makeNote(1), makeNote(0)]);
+      const collection = createCollection();
+
+      expect((await collection.getAll()).map(n => n.id)).toEqual([
+        'note-0',
+        'note-1',
+      ]);
+      expect(Array.isArray(store.get(BASE_KEY))).toBe(false);
+      expect(store.get(`${BASE_KEY}_record_note-1`)).toEqual(makeNote(1));
+      expect(
+        (await collection.findBy('channel', 'channel-1')).map(n => n.id)
+      ).toEqual(['note-1']);
+    });
+
+    it('should clear a blob without migrating it', async () => {
+      store.set(BASE_KEY, [makeNote(1)]);
+
+      await createCollection().clear();
+
+      expect(store.size).toBe(0);
+    });
+
+    it('should refuse to read a value that is neither', async () => {
+      const unknown = { characters: [makeNote(0)] };
+      store.set(BASE_KEY, unknown);
+      const collection = createCollection();
+
+      await expect(collection.getAll()).rejects.toBeInstanceOf(
+        UnreadableCollectionError
+      );
+      await expect(collection.put([makeNote(1)])).rejects.toBeInstanceOf(
+        UnreadableCollectionError
+      );
+      expect(store.get(BASE_KEY)).toEqual(unknown);
+    });
+  });
+
+  describe('benchmarks', () => {
+    const COLLECTION_SIZE = 2000;
+    const notes = Array.from({ length: COLLECTION_SIZE }, (_, i) =>
+      makeNote(i)
+    );
+
+    it('should write far less than a blob when editing one entity', async () => {
+      const collection = createCollection();
+      await collection.put(notes);
+
+      // Baseline: the blob format rewrites the whole array for any edit
+      bytesWritten = 0;
+      const edited = notes.map(n =>
+        n.id === 'note-42' ? { ...n, text: 'Edited' } : n
+      );
+      await SafeAsyncStorageJSONParser.setItem('blob', edited);
+      const blobBytes = bytesWritten;
+
+      bytesWritten = 0;
+      keysWritten = 0;
+      await collection.put([{ ...notes[42], text: 'Edited' }]);
+
+      // Only the record; no ID or index value changed
+      expect(keysWritten).toBe(1);
+      expect(bytesWritten).toBeLessThan(blobBytes / 100);
+    });
+
+    it('should rewrite the manifest when an indexed value changes', async () => {
+      const collection = createCollection();
+      await collection.put(notes);
+
+      keysWritten = 0;
+      await collection.put([{ ...notes[42], channel: 'channel-9' }]);
+
+      expect(keysWritten).toBe(2);
+      expect(
+        (await collection.findBy('channel', 'channel-9')).map(n => n.id)
+      ).toEqual(['note-42']);
+    });
+
+    it('should only load matching entities for an index lookup', async () => {
+      const collection = createCollection();
+      await collection.put(notes);
+      (SafeAsyncStorageJSONParser.multiGet as jest.Mock).mockClear();
+
+      const found = await collection.findBy('channel', 'channel-1');
+
+      const loadedKeys = (SafeAsyncStorageJSONParser.multiGet as jest.Mock).mock
+        .calls[0][0];
+      expect(found).toHaveLength(
+        notes.filter(n => n.channel === 'channel-1').length
+      );
+      expect(loadedKeys).toHaveLength(found.length);
+    });
+
+    it('should not rewrite unchanged entities when replacing all', async () => {
+      const collection = createCollection();
+      await collection.put(notes);
+
+      keysWritten = 0;
+      await collection.replaceAll(
+        notes.map(n => (n.order < 5 ? { ...n, text: 'Edited' } : n))
+      );
+
+      expect(keysWritten).toBe(5);
+    });
+  });
+});
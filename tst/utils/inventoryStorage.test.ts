@@ -0,0 +1,255 @@
+import {
+  addInventoryItem,
+  consumeInventoryItems,
+  exportInventoryDataset,
+  importInventoryDataset,
+  loadInventory,
+  loadInventoryFor,
+  transferItem,
+  updateInventoryItem,
+} from '@/utils/inventoryStorage';
+import { loadEvents, transferInventoryItem } from '@/utils/characterStorage';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
+import { InventoryItem, InventoryOwner } from '@/models/types';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `uuid-${++mockUuidCounter}`),
+}));
+
+describe('inventoryStorage', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+  const alice: InventoryOwner = {
+    type: 'character',
+    id: 'char-1',
+    name: 'Alice',
+  };
+  const scrappers: InventoryOwner = {
+    type: 'faction',
+    id: 'faction-1',
+    name: 'Scrappers',
+  };
+
+  const addCaps = (quantity = 10) =>
+    addInventoryItem({
+      name: 'Caps',
+      quantity,
+      owner: alice,
+      date: '2050-01-01',
+    }) as Promise<InventoryItem>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockUuidCounter = 0;
+
+    mockMemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('addInventoryItem', () => {
+    it('should start the ownership history with the first owner', async () => {
+      const item = await addInventoryItem({
+        name: ' Rusty Pipe ',
+        quantity: 1,
+        notes: '',
+        statModifiers: { health: 1 },
+        owner: alice,
+        date: '2050-01-01',
+      });
+
+      expect(item).toEqual({
+        id: 'uuid-1',
+        name: 'Rusty Pipe',
+        quantity: 1,
+        statModifiers: { health: 1 },
+        owner: alice,
+        history: [{ owner: alice, date: '2050-01-01', quantity: 1 }],
+        createdAt: mockDate,
+        updatedAt: mockDate,
+      });
+      expect(await loadInventoryFor('character', 'char-1')).toEqual([item]);
+      expect(await loadInventoryFor('faction', 'char-1')).toEqual([]);
+    });
+
+    it('should reject invalid items', async () => {
+      expect(
+        await addInventoryItem({
+          name: '',
+          quantity: 1,
+          owner: alice,
+          date: '2050-01-01',
+        })
+      ).toBeNull();
+      expect(
+        await addInventoryItem({
+          name: 'Caps',
+          quantity: 1.5,
+          owner: alice,
+          date: '2050-01-01',
+        })
+      ).toBeNull();
+      expect(
+        await addInventoryItem({
+          name: 'Caps',
+          quantity: 1,
+          owner: alice,
+          date: 'yesterday',
+        })
+      ).toBeNull();
+    });
+  });
+
+  it('should remove items whose quantity drops to 0', async () => {
+    const item = await addCaps(1);
+
+    expect(await updateInventoryItem(item.id, { quantity: 0 })).toBeNull();
+    expect(await loadInventory()).toEqual([]);
+  });
+
+  describe('consumeInventoryItems', () => {
+    it('should use up the older stacks first', async () => {
+      await addCaps(2);
+      const second = await addCaps(5);
+      await addInventoryItem({
+        name: 'Caps',
+        quantity: 4,
+        owner: scrappers,
+        date: '2050-01-01',
+      });
+
+      expect(
+        await consumeInventoryItems('character', 'char-1', { Caps: 3 })
+      ).toBe(true);
+
+      const items = await loadInventoryFor('character', 'char-1');
+      expect(items.map(item => [item.id, item.quantity])).toEqual([
+        [second.id, 4],
+      ]);
+      expect(await loadInventoryFor('faction', 'faction-1')).toHaveLength(1);
+    });
+
+    it('should change nothing when an item runs short', async () => {
+      await addCaps(2);
+      const before = await loadInventory();
+
+      expect(
+        await consumeInventoryItems('character', 'char-1', {
+          Caps: 1,
+          'Copper Wire': 1,
+        })
+      ).toBe(false);
+      expect(await loadInventory()).toEqual(before);
+    });
+  });
+
+  describe('transferItem', () => {
+    it('should move a whole stack to the new owner', async () => {
+      const item = await addCaps();
+
+      const moved = await transferItem(item.id, scrappers, 10, '2050-02-01');
+
+      expect(moved?.id).toBe(item.id);
+      expect(moved?.owner).toEqual(scrappers);
+      expect(moved?.history).toEqual([
+        { owner: alice, date: '2050-01-01', quantity: 10 },
+        { owner: scrappers, date: '2050-02-01', quantity: 10 },
+      ]);
+    });
+
+    it('should split part of a stack off', async () => {
+      const item = await addCaps();
+
+      const split = await transferItem(item.id, scrappers, 4, '2050-02-01');
+
+      expect(split).toMatchObject({ id: 'uuid-2', quantity: 4 });
+      expect(
+        (await loadInventoryFor('character', 'char-1')).map(i => i.quantity)
+      ).toEqual([6]);
+    });
+
+    it('should refuse transfers that are not possible', async () => {
+      const item = await addCaps();
+
+      expect(await transferItem(item.id, alice, 1, '2050-02-01')).toBeNull();
+      expect(
+        await transferItem(item.id, scrappers, 11, '2050-02-01')
+      ).toBeNull();
+      expect(
+        await transferItem(item.id, scrappers, 1, '2049-12-31')
+      ).toBeNull();
+    });
+  });
+
+  describe('transferInventoryItem', () => {
+    it('should log the transfer as an event', async () => {
+      const item = await addCaps();
+
+      const result = await transferInventoryItem(
+        item.id,
+        scrappers,
+        10,
+        '2050-02-01'
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(await loadEvents()).toEqual([
+        expect.objectContaining({
+          title: 'Alice gave Scrappers Caps',
+          description: '10 × Caps went from Alice to Scrappers.',
+          date: '2050-02-01',
+          characterIds: ['char-1'],
+          factionNames: ['Scrappers'],
+        }),
+      ]);
+      expect(result.item?.history[1].eventId).toBe(result.event?.id);
+    });
+
+    it('should not log anything for an invalid transfer', async () => {
+      const item = await addCaps();
+
+      const result = await transferInventoryItem(
+        item.id,
+        scrappers,
+        0,
+        '2050-02-01'
+      );
+
+      expect(result.errors).toEqual([
+        'The quantity must be a whole number from 1 to 10.',
+      ]);
+      expect(await loadEvents()).toEqual([]);
+    });
+  });
+
+  describe('importInventoryDataset', () => {
+    it('should keep the newest copy of each item when merging', async () => {
+      const item = await addCaps();
+      const exported = await exportInventoryDataset();
+      await updateInventoryItem(item.id, { notes: 'Local edit' });
+
+      await importInventoryDataset(
+        {
+          ...exported,
+          items: [
+            { ...item, quantity: 99, updatedAt: '2024-01-01T00:00:00.000Z' },
+            { ...item, id: 'item-2', name: 'Ammo' },
+          ],
+        },
+        true
+      );
+
+      const items = await loadInventory();
+      expect(items.map(i => [i.name, i.notes])).toEqual([
+        ['Caps', 'Local edit'],
+        ['Ammo', undefined],
+      ]);
+    });
+  });
+});
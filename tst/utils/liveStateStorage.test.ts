@@ -0,0 +1,236 @@
+import {
+  addCondition,
+  adjustHealth,
+  adjustLimit,
+  exportLiveStateDataset,
+  getRemainingMinutes,
+  importLiveStateDataset,
+  loadLiveStates,
+  recoverCharacter,
+  restCharacter,
+  startNewSession,
+} from '@/utils/liveStateStorage';
+import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+import { DEFAULT_RULES_PACK } from '@/models/gameData';
+import { makeCharacter } from '../helpers/fixtures';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `uuid-${++mockUuidCounter}`),
+}));
+
+describe('liveStateStorage', () => {
+  const start = Date.parse('2025-01-01T12:00:00.000Z');
+  const MINUTE_MS = 60 * 1000;
+  let nowSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Durations run on the clock, so only Date.now is frozen here
+    nowSpy = jest.spyOn(Date, 'now').mockReturnValue(start);
+    mockUuidCounter = 0;
+
+    const store = new Map<string, unknown>();
+    (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockImplementation(
+      async (key: string) => store.get(key) ?? null
+    );
+    (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockImplementation(
+      async (key: string, value: unknown) => {
+        store.set(key, value);
+        return true;
+      }
+    );
+    (SafeAsyncStorageJSONParser.removeItem as jest.Mock).mockImplementation(
+      async (key: string) => {
+        store.delete(key);
+        return true;
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should start characters at full health and limit', async () => {
+    const [state] = await loadLiveStates([makeCharacter()], DEFAULT_RULES_PACK);
+
+    // Human base: health 2, limit 2
+    expect(state).toMatchObject({
+      characterId: 'char-1',
+      health: 2,
+      limit: 2,
+      maxHealth: 2,
+      maxLimit: 2,
+      conditions: [],
+    });
+  });
+
+  it('should keep health and limit between 0 and the maximum', async () => {
+    const character = makeCharacter();
+
+    expect((await adjustHealth(character, -5, DEFAULT_RULES_PACK)).health).toBe(
+      0
+    );
+    expect((await adjustLimit(character, -1, DEFAULT_RULES_PACK)).limit).toBe(
+      1
+    );
+    expect((await adjustLimit(character, 3, DEFAULT_RULES_PACK)).limit).toBe(2);
+
+    const [state] = await loadLiveStates([character], DEFAULT_RULES_PACK);
+    expect(state.health).toBe(0);
+    expect(state.limit).toBe(2);
+  });
+
+  describe('addCondition', () => {
+    it('should scale durations by distinctions like Brittle', async () => {
+      const brittle = makeCharacter({ distinctionIds: ['d4'] });
+
+      const result = await addCondition(
+        brittle,
+        'injury',
+        'Broken Arm',
+        10,
+        DEFAULT_RULES_PACK
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.state?.conditions).toEqual([
+        {
+          id: 'uuid-1',
+          type: 'injury',
+          name: 'Broken Arm',
+          durationMinutes: 20,
+          startedAt: new Date(start).toISOString(),
+          endsAt: new Date(start + 20 * MINUTE_MS).toISOString(),
+        },
+      ]);
+      if (!result.state) return;
+      expect(getRemainingMinutes(result.state.conditions[0])).toBe(20);
+    });
+
+    it('should respect what the species can suffer', async () => {
+      const android = makeCharacter({ species: 'Android' });
+
+      const injury = await addCondition(
+        android,
+        'injury',
+        'Broken Arm',
+        10,
+        DEFAULT_RULES_PACK
+      );
+      const malfunction = await addCondition(
+        android,
+        'malfunction',
+        'Glitch',
+        10,
+        DEFAULT_RULES_PACK
+      );
+
+      expect(injury).toEqual({
+        state: null,
+        errors: ["Android characters can't take injuries."],
+      });
+      expect(malfunction.errors).toEqual([]);
+    });
+
+    it('should require a name and a duration', async () => {
+      const result = await addCondition(
+        makeCharacter(),
+        'injury',
+        ' ',
+        0,
+        DEFAULT_RULES_PACK
+      );
+
+      expect(result.errors).toEqual([
+        'A name is required.',
+        'The duration must be more than 0 minutes.',
+      ]);
+    });
+  });
+
+  describe('recovery', () => {
+    it('should recover limit and clear run-out conditions when resting', async () => {
+      const character = makeCharacter();
+      await adjustLimit(character, -2, DEFAULT_RULES_PACK);
+      await addCondition(character, 'injury', 'Cut', 5, DEFAULT_RULES_PACK);
+      await addCondition(
+        character,
+        'injury',
+        'Concussion',
+        30,
+        DEFAULT_RULES_PACK
+      );
+      await adjustHealth(character, -1, DEFAULT_RULES_PACK);
+
+      nowSpy.mockReturnValue(start + 10 * MINUTE_MS);
+      const state = await restCharacter(character, DEFAULT_RULES_PACK);
+
+      expect(state.limit).toBe(2);
+      expect(state.health).toBe(1);
+      expect(state.conditions.map(c => c.name)).toEqual(['Concussion']);
+    });
+
+    it('should reset everything on full recovery and new sessions', async () => {
+      const alice = makeCharacter();
+      const bob = makeCharacter({ id: 'char-2', name: 'Bob' });
+      await adjustHealth(alice, -2, DEFAULT_RULES_PACK);
+      await addCondition(alice, 'injury', 'Cut', 5, DEFAULT_RULES_PACK);
+      await adjustHealth(bob, -1, DEFAULT_RULES_PACK);
+
+      const recovered = await recoverCharacter(alice, DEFAULT_RULES_PACK);
+      expect(recovered).toMatchObject({ health: 2, limit: 2, conditions: [] });
+
+      await startNewSession();
+      const states = await loadLiveStates([alice, bob], DEFAULT_RULES_PACK);
+      expect(states.map(s => s.health)).toEqual([2, 2]);
+    });
+  });
+
+  describe('importLiveStateDataset', () => {
+    it('should keep the newest state of each character when merging', async () => {
+      const state = (
+        characterId: string,
+        health: number,
+        updatedAt: string
+      ) => ({
+        characterId,
+        health,
+        limit: 2,
+        conditions: [],
+        updatedAt,
+      });
+      await importLiveStateDataset(
+        {
+          states: [
+            state('char-1', 1, '2025-01-02'),
+            state('char-2', 1, '2025-01-02'),
+          ],
+          version: '1.0',
+          lastUpdated: '2025-01-02',
+        },
+        false
+      );
+
+      await importLiveStateDataset({
+        states: [
+          state('char-1', 0, '2025-01-01'),
+          state('char-2', 2, '2025-01-03'),
+          state('char-3', 0, '2025-01-01'),
+        ],
+        version: '1.0',
+        lastUpdated: '2025-01-03',
+      });
+
+      const { states } = await exportLiveStateDataset();
+      expect(states.map(s => [s.characterId, s.health])).toEqual([
+        ['char-1', 1],
+        ['char-2', 2],
+        ['char-3', 0],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,694 @@
+import {
+  MergeCollections,
+  applyMergeResolutions,
+  buildMergeReview,
+  getUnresolvedConflicts,
+  listFieldConflicts,
+  loadMergeBase,
+  mergeEntityFields,
+  saveMergeBase,
+} from '@/utils/mergeReview';
+import {
+  StoredFaction,
+  addCharacter,
+  commitMergeReview,
+  exportDataset,
+  loadCharacters,
+  loadEvents,
+  loadFactions,
+  loadLocations,
+  prepareMergeReview,
+  saveCharacters,
+  saveEvents,
+  saveFactions,
+  saveLocations,
+} from '@/utils/characterStorage';
+import {
+  getDiscordMessages,
+  getDiscordUserMappings,
+} from '@/utils/discordStorage';
+import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
+import { makeCharacter } from '../helpers/fixtures';
+import {
+  DiscordMessage,
+  DiscordUserMapping,
+  GameEvent,
+  GameLocation,
+  RelationshipStanding,
+} from '@/models/types';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `uuid-${++mockUuidCounter}`),
+}));
+
+describe('mergeReview', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+
+  const makeLocation = (
+    overrides: Partial<GameLocation> = {}
+  ): GameLocation => ({
+    id: 'loc-1',
+    name: 'Harbor',
+    description: 'Docks',
+    createdAt: mockDate,
+    updatedAt: mockDate,
+    ...overrides,
+  });
+
+  const collections = (
+    overrides: Partial<MergeCollections> = {}
+  ): MergeCollections => ({
+    characters: [],
+    factions: [],
+    locations: [],
+    events: [],
+    ...overrides,
+  });
+
+  describe('mergeEntityFields', () => {
+    it('should take the side that changed when the ancestor is known', () => {
+      const ancestor = makeLocation();
+      const existing = makeLocation({ name: 'Old Harbor' });
+      const imported = makeLocation({ description: 'Market' });
+
+      const { merged, conflicts } = mergeEntityFields(
+        existing,
+        imported,
+        ancestor
+      );
+
+      expect(conflicts).toEqual([]);
+      expect(merged.name).toBe('Old Harbor');
+      expect(merged.description).toBe('Market');
+    });
+
+    it('should report fields changed differently on both sides', () => {
+      const { merged, conflicts } = mergeEntityFields(
+        makeLocation({ description: 'Market' }),
+        makeLocation({ description: 'Ruins' }),
+        makeLocation()
+      );
+
+      expect(conflicts).toEqual(['description']);
+      expect(merged.description).toBe('Market');
+    });
+
+    it('should fill empty fields when the ancestor is unknown', () => {
+      const { merged, conflicts } = mergeEntityFields(
+        makeLocation({ description: '' }),
+        makeLocation({ name: 'Port', description: 'Market' }),
+        null
+      );
+
+      expect(merged.description).toBe('Market');
+      expect(conflicts).toEqual(['name']);
+    });
+
+    it('should merge images as if the ancestor were unknown', () => {
+      const { merged, conflicts } = mergeEntityFields(
+        makeLocation({ imageUris: [] }),
+        makeLocation({ imageUris: ['theirs.jpg'] }),
+        makeLocation({ imageUris: ['base.jpg'] })
+      );
+
+      expect(merged.imageUris).toEqual(['theirs.jpg']);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should keep the most recent timestamp', () => {
+      const { merged } = mergeEntityFields(
+        makeLocation(),
+        makeLocation({ updatedAt: '2025-02-01T00:00:00.000Z' }),
+        null
+      );
+
+      expect(merged.updatedAt).toBe('2025-02-01T00:00:00.000Z');
+    });
+  });
+
+  describe('buildMergeReview', () => {
+    it('should separate new, changed and identical entities', () => {
+      const same = makeLocation({ id: 'loc-same', name: 'Same' });
+      const review = buildMergeReview(
+        collections({ locations: [makeLocation(), same] }),
+        collections({
+          locations: [
+            makeLocation({ name: 'Port' }),
+            same,
+            makeLocation({ id: 'loc-new', name: 'New' }),
+          ],
+        }),
+        null,
+        '{}'
+      );
+
+      expect(review.added.map(a => a.entity.id)).toEqual(['loc-new']);
+      expect(review.entities.map(e => e.entityId)).toEqual(['loc-1']);
+      expect(listFieldConflicts(review)).toEqual([
+        {
+          key: 'location:loc-1:name',
+          entityType: 'location',
+          entityId: 'loc-1',
+          entityName: 'Harbor',
+          field: 'name',
+          existing: 'Harbor',
+          imported: 'Port',
+          ancestor: undefined,
+          hasAncestor: false,
+        },
+      ]);
+    });
+
+    it('should match factions created separately by name', () => {
+      const faction = {
+        id: 'faction-a',
+        name: 'Guild',
+        description: 'Ours',
+        createdAt: mockDate,
+        updatedAt: mockDate,
+      };
+      const review = buildMergeReview(
+        collections({ factions: [faction] }),
+        collections({
+          factions: [{ ...faction, id: 'faction-b', description: 'Theirs' }],
+        }),
+        null,
+        '{}'
+      );
+
+      expect(review.added).toEqual([]);
+      expect(review.entities[0].entityId).toBe('faction-a');
+      expect(review.entities[0].conflicts).toEqual(['description']);
+    });
+  });
+
+  describe('applyMergeResolutions', () => {
+    it('should apply chosen and hand-edited values', () => {
+      const review = buildMergeReview(
+        collections({ locations: [makeLocation()] }),
+        collections({
+          locations: [makeLocation({ name: 'Port', description: 'Market' })],
+        }),
+        null,
+        '{}'
+      );
+      const resolutions = { 'location:loc-1:name': 'Harbor Town' };
+
+      expect(getUnresolvedConflicts(review, {})).toHaveLength(2);
+      expect(getUnresolvedConflicts(review, resolutions)).toHaveLength(1);
+
+      const [merged] = applyMergeResolutions(review, {
+        ...resolutions,
+        'location:loc-1:description': 'Market',
+      });
+
+      expect(merged.merged).toMatchObject({
+        name: 'Harbor Town',
+        description: 'Market',
+      });
+    });
+  });
+
+  describe('prepareMergeReview and commitMergeReview', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      mockUuidCounter = 0;
+
+      mockMemoryStorage();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should not write anything until all conflicts are resolved', async () => {
+      const alice = await addCharacter(makeCharacter({ notes: 'Ours' }));
+      const imported = {
+        characters: [{ ...alice, notes: 'Theirs' }],
+        events: [
+          {
+            id: 'event-1',
+            title: 'Heist',
+            date: '2025-01-01',
+            createdAt: mockDate,
+            updatedAt: mockDate,
+          },
+        ],
+      };
+
+      const review = await prepareMergeReview(JSON.stringify(imported));
+
+      expect(listFieldConflicts(review).map(c => c.key)).toEqual([
+        `character:${alice.id}:notes`,
+      ]);
+      expect(await commitMergeReview(review, {})).toBe(false);
+      expect(await loadEvents()).toEqual([]);
+
+      const committed = await commitMergeReview(review, {
+        [`character:${alice.id}:notes`]: 'Theirs',
+      });
+
+      expect(committed).toBe(true);
+      expect((await loadCharacters())[0].notes).toBe('Theirs');
+      expect((await loadEvents()).map(e => e.title)).toEqual(['Heist']);
+    });
+
+    it('should use the last export as the common ancestor', async () => {
+      const alice = await addCharacter(makeCharacter({ notes: 'Base' }));
+      await saveMergeBase(await exportDataset());
+
+      // We changed the species, they changed the notes
+      await saveCharacters([{ ...alice, species: 'Elf' }]);
+      const imported = { characters: [{ ...alice, notes: 'Theirs' }] };
+
+      const review = await prepareMergeReview(JSON.stringify(imported));
+
+      expect(listFieldConflicts(review)).toEqual([]);
+      expect(review.entities[0].merged).toMatchObject({
+        species: 'Elf',
+        notes: 'Theirs',
+      });
+    });
+
+    it('should leave image payloads out of the common ancestor', async () => {
+      await addCharacter(
+        makeCharacter({ imageUris: ['data:image/png;base64,AAAA'] })
+      );
+
+      await saveMergeBase(await exportDataset());
+
+      const base = await loadMergeBase();
+      expect(base?.characters).toHaveLength(1);
+      expect(base?.characters[0].imageUris).toBeUndefined();
+    });
+
+    it('should merge Discord data from the imported payload', async () => {
+      const mapping: DiscordUserMapping = {
+        discordUserId: 'user-1',
+        discordUsername: 'alice',
+        characterId: 'character-1',
+        createdAt: mockDate,
+        updatedAt: mockDate,
+      };
+      const message: DiscordMessage = {
+        id: 'message-1',
+        channelId: 'channel-1',
+        authorId: 'user-1',
+        authorUsername: 'alice',
+        content: 'Hello',
+        timestamp: mockDate,
+        createdAt: mockDate,
+      };
+      const imported = {
+        characters: [],
+        discord: {
+          config: { enabled: false, autoSync: false, serverConfigs: [] },
+          userMappings: [mapping],
+          messages: [message],
+          characterAliases: [],
+          version: '1.0',
+          lastUpdated: mockDate,
+        },
+      };
+
+      const review = await prepareMergeReview(JSON.stringify(imported));
+
+      expect(await commitMergeReview(review, {})).toBe(true);
+      expect(await getDiscordUserMappings()).toEqual([mapping]);
+      expect(await getDiscordMessages()).toEqual([message]);
+    });
+
+    it('should keep stored Discord messages and skip duplicates', async () => {
+      const message = (id: string, content: string): DiscordMessage => ({
+        id,
+        channelId: 'channel-1',
+        authorId: 'user-1',
+        authorUsername: 'alice',
+        content,
+        timestamp: mockDate,
+        createdAt: mockDate,
+      });
+      const discord = (messages: DiscordMessage[]) => ({
+        config: { enabled: false, autoSync: false, serverConfigs: [] },
+        userMappings: [],
+        messages,
+        characterAliases: [],
+        version: '1.0',
+        lastUpdated: mockDate,
+      });
+
+      let review = await prepareMergeReview(
+        JSON.stringify({ discord: discord([message('message-1', 'Hello')]) })
+      );
+      await commitMergeReview(review, {});
+      review = await prepareMergeReview(
+        JSON.stringify({
+          discord: discord([
+            message('message-1', 'Hello'),
+            message('message-2', 'Bye'),
+          ]),
+        })
+      );
+
+      expect(await commitMergeReview(review, {})).toBe(true);
+      expect((await getDiscordMessages()).map(m => m.id)).toEqual([
+        'message-1',
+        'message-2',
+      ]);
+    });
+
+    it('should throw for data that is not JSON', async () => {
+      await expect(prepareMergeReview('invalid json')).rejects.toThrow();
+    });
+
+    it('should return false when storage refuses the write', async () => {
+      const review = await prepareMergeReview(
+        JSON.stringify({ characters: [makeCharacter({ id: 'char-2' })] })
+      );
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockResolvedValue(
+        false
+      );
+      (SafeAsyncStorageJSONParser.multiSet as jest.Mock).mockResolvedValue(0);
+
+      expect(await commitMergeReview(review, {})).toBe(false);
+    });
+
+    describe('characters', () => {
+      it('should add a character whose ID does not exist', async () => {
+        await saveCharacters([makeCharacter({ name: 'Existing' })]);
+        const imported = makeCharacter({ id: 'char-2', name: 'New' });
+
+        const review = await prepareMergeReview(
+          JSON.stringify({ characters: [imported] })
+        );
+
+        expect(review.added).toEqual([
+          { entityType: 'character', entity: imported },
+        ]);
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect((await loadCharacters()).map(c => c.name)).toEqual([
+          'Existing',
+          'New',
+        ]);
+      });
+
+      it('should report every field both sides set differently', async () => {
+        await saveCharacters([
+          makeCharacter({ name: 'John', notes: 'Ours', perkIds: ['perk1'] }),
+        ]);
+        const imported = makeCharacter({
+          name: 'Jane',
+          species: 'Mutant',
+          notes: 'Theirs',
+          perkIds: ['perk2'],
+        });
+
+        const review = await prepareMergeReview(
+          JSON.stringify({ characters: [imported] })
+        );
+
+        expect(review.entities[0].conflicts).toEqual([
+          'name',
+          'species',
+          'perkIds',
+          'notes',
+        ]);
+      });
+
+      it('should fill empty fields from the imported character', async () => {
+        await saveCharacters([makeCharacter({ notes: '', imageUris: [] })]);
+        const imported = makeCharacter({
+          notes: 'Imported notes',
+          imageUris: ['http://example.com/image.png'],
+        });
+
+        const review = await prepareMergeReview(
+          JSON.stringify({ characters: [imported] })
+        );
+
+        expect(listFieldConflicts(review)).toEqual([]);
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect((await loadCharacters())[0]).toMatchObject({
+          notes: 'Imported notes',
+          imageUris: ['http://example.com/image.png'],
+        });
+      });
+
+      it('should take lists changed on one side only', async () => {
+        await saveCharacters([makeCharacter({ perkIds: ['perk1'] })]);
+        await saveMergeBase(await exportDataset());
+        const imported = makeCharacter({
+          perkIds: ['perk1', 'perk2'],
+          distinctionIds: ['dist1'],
+          factions: [{ name: 'Crows', standing: RelationshipStanding.Ally }],
+          relationships: [
+            {
+              characterName: 'Bob',
+              relationshipType: RelationshipStanding.Enemy,
+              description: 'New enemy',
+            },
+          ],
+        });
+
+        const review = await prepareMergeReview(
+          JSON.stringify({ characters: [imported] })
+        );
+
+        expect(listFieldConflicts(review)).toEqual([]);
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect((await loadCharacters())[0]).toMatchObject({
+          perkIds: ['perk1', 'perk2'],
+          distinctionIds: ['dist1'],
+          factions: [{ name: 'Crows' }],
+          relationships: [{ characterName: 'Bob' }],
+        });
+      });
+
+      it('should apply the chosen side of a relationship conflict', async () => {
+        const friend = {
+          characterName: 'Bob',
+          relationshipType: RelationshipStanding.Friend,
+          description: 'Old friend',
+        };
+        await saveCharacters([makeCharacter({ relationships: [friend] })]);
+        const theirs = [
+          { ...friend, relationshipType: RelationshipStanding.Ally },
+        ];
+
+        const review = await prepareMergeReview(
+          JSON.stringify({
+            characters: [makeCharacter({ relationships: theirs })],
+          })
+        );
+        const committed = await commitMergeReview(review, {
+          'character:char-1:relationships': theirs,
+        });
+
+        expect(committed).toBe(true);
+        expect((await loadCharacters())[0].relationships).toEqual(theirs);
+      });
+    });
+
+    describe('factions', () => {
+      const makeFaction = (
+        overrides: Partial<StoredFaction> = {}
+      ): StoredFaction => ({
+        id: 'faction-1',
+        name: 'Crows',
+        description: 'Smugglers',
+        relationships: [],
+        createdAt: mockDate,
+        updatedAt: mockDate,
+        ...overrides,
+      });
+
+      it('should add a faction whose name does not exist', async () => {
+        await saveFactions([makeFaction()]);
+
+        const review = await prepareMergeReview(
+          JSON.stringify({
+            factions: [makeFaction({ id: 'faction-2', name: 'Wolves' })],
+          })
+        );
+
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect((await loadFactions()).map(f => f.name)).toEqual([
+          'Crows',
+          'Wolves',
+        ]);
+      });
+
+      it('should match a faction created separately by its name', async () => {
+        await saveFactions([makeFaction({ description: '' })]);
+
+        const review = await prepareMergeReview(
+          JSON.stringify({ factions: [makeFaction({ id: 'faction-other' })] })
+        );
+
+        expect(review.added).toEqual([]);
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect(await loadFactions()).toEqual([
+          expect.objectContaining({
+            id: 'faction-1',
+            description: 'Smugglers',
+          }),
+        ]);
+      });
+
+      it('should take a description changed only on the imported side', async () => {
+        await saveFactions([makeFaction()]);
+        await saveMergeBase(await exportDataset());
+        const newer = '2025-12-01T00:00:00.000Z';
+
+        const review = await prepareMergeReview(
+          JSON.stringify({
+            factions: [
+              makeFaction({ description: 'Traders', updatedAt: newer }),
+            ],
+          })
+        );
+
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect((await loadFactions())[0]).toMatchObject({
+          description: 'Traders',
+          updatedAt: newer,
+        });
+      });
+
+      it('should keep a description changed only on this side', async () => {
+        await saveFactions([makeFaction()]);
+        await saveMergeBase(await exportDataset());
+        await saveFactions([makeFaction({ description: 'Traders' })]);
+
+        const review = await prepareMergeReview(
+          JSON.stringify({ factions: [makeFaction()] })
+        );
+
+        expect(review.entities).toEqual([]);
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect((await loadFactions())[0].description).toBe('Traders');
+      });
+    });
+
+    describe('locations', () => {
+      it('should add a location whose ID does not exist', async () => {
+        await saveLocations([makeLocation()]);
+
+        const review = await prepareMergeReview(
+          JSON.stringify({
+            locations: [makeLocation({ id: 'loc-2', name: 'Market' })],
+          })
+        );
+
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect((await loadLocations()).map(l => l.id)).toEqual([
+          'loc-1',
+          'loc-2',
+        ]);
+      });
+
+      it('should take a location changed only on the imported side', async () => {
+        await saveLocations([makeLocation()]);
+        await saveMergeBase(await exportDataset());
+        const newer = '2025-12-01T00:00:00.000Z';
+
+        const review = await prepareMergeReview(
+          JSON.stringify({
+            locations: [
+              makeLocation({ name: 'Harbor Town', updatedAt: newer }),
+            ],
+          })
+        );
+
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect(await loadLocations()).toEqual([
+          makeLocation({ name: 'Harbor Town', updatedAt: newer }),
+        ]);
+      });
+
+      it('should keep a location changed only on this side', async () => {
+        await saveLocations([makeLocation()]);
+        await saveMergeBase(await exportDataset());
+        await saveLocations([makeLocation({ name: 'Harbor Town' })]);
+
+        const review = await prepareMergeReview(
+          JSON.stringify({ locations: [makeLocation()] })
+        );
+
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect((await loadLocations())[0].name).toBe('Harbor Town');
+      });
+    });
+
+    describe('events', () => {
+      const makeEvent = (overrides: Partial<GameEvent> = {}): GameEvent => ({
+        id: 'event-1',
+        title: 'Heist',
+        date: '2025-01-01',
+        characterIds: ['char-1'],
+        createdAt: mockDate,
+        updatedAt: mockDate,
+        ...overrides,
+      });
+
+      it('should add new events and take one-sided changes', async () => {
+        await saveEvents([makeEvent()]);
+        await saveMergeBase(await exportDataset());
+
+        const review = await prepareMergeReview(
+          JSON.stringify({
+            events: [
+              makeEvent({ characterIds: ['char-1', 'char-2'], notes: 'Oops' }),
+              makeEvent({ id: 'event-2', title: 'Escape' }),
+            ],
+          })
+        );
+
+        expect(listFieldConflicts(review)).toEqual([]);
+        expect(review.added.map(a => a.entity.id)).toEqual(['event-2']);
+        expect(await commitMergeReview(review, {})).toBe(true);
+        expect(await loadEvents()).toEqual([
+          makeEvent({ characterIds: ['char-1', 'char-2'], notes: 'Oops' }),
+          makeEvent({ id: 'event-2', title: 'Escape' }),
+        ]);
+      });
+
+      it('should apply the chosen values of conflicting event fields', async () => {
+        await saveEvents([makeEvent({ notes: 'Ours' })]);
+        const newer = '2025-02-01T00:00:00.000Z';
+
+        const review = await prepareMergeReview(
+          JSON.stringify({
+            events: [
+              makeEvent({
+                title: 'Robbery',
+                notes: 'Theirs',
+                updatedAt: newer,
+              }),
+            ],
+          })
+        );
+
+        expect(review.entities[0].conflicts).toEqual(['title', 'notes']);
+        const committed = await commitMergeReview(review, {
+          'event:event-1:title': 'Robbery',
+          'event:event-1:notes': 'Ours',
+        });
+
+        expect(committed).toBe(true);
+        expect((await loadEvents())[0]).toMatchObject({
+          title: 'Robbery',
+          notes: 'Ours',
+          updatedAt: newer,
+        });
+      });
+    });
+  });
+});
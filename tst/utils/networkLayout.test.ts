@@ -0,0 +1,118 @@
+import {
+  DEFAULT_NETWORK_FILTER,
+  filterRelationshipGraph,
+  layoutRelationshipGraph,
+} from '@/utils/networkLayout';
+import { buildRelationshipGraph } from '@/utils/relationshipGraph';
+import { RelationshipStanding } from '@/models/types';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('networkLayout', () => {
+  const ally = (name: string) => ({
+    characterName: name,
+    relationshipType: RelationshipStanding.Ally,
+  });
+  const scrapper = { name: 'Scrappers', standing: RelationshipStanding.Ally };
+  const warden = { name: 'Wardens', standing: RelationshipStanding.Neutral };
+
+  // Alice – Bob – Carol – Dave
+  const graph = buildRelationshipGraph([
+    makeCharacter({
+      id: '1',
+      name: 'Alice',
+      relationships: [ally('Bob')],
+      factions: [scrapper],
+      present: true,
+    }),
+    makeCharacter({
+      id: '2',
+      name: 'Bob',
+      relationships: [ally('Carol')],
+      factions: [scrapper, warden],
+    }),
+    makeCharacter({
+      id: '3',
+      name: 'Carol',
+      relationships: [ally('Dave')],
+      present: true,
+    }),
+    makeCharacter({ id: '4', name: 'Dave', factions: [warden], retired: true }),
+  ]);
+
+  const nodeIds = (filtered: ReturnType<typeof filterRelationshipGraph>) =>
+    Array.from(filtered.nodes.keys());
+
+  it('should filter by presence, faction and retirement', () => {
+    expect(
+      nodeIds(
+        filterRelationshipGraph(graph, {
+          ...DEFAULT_NETWORK_FILTER,
+          presentOnly: true,
+        })
+      )
+    ).toEqual(['character:1', 'character:3', 'faction:Scrappers']);
+
+    const wardens = filterRelationshipGraph(graph, {
+      ...DEFAULT_NETWORK_FILTER,
+      factionName: 'Wardens',
+      includeRetired: true,
+    });
+    expect(nodeIds(wardens)).toEqual([
+      'character:2',
+      'character:4',
+      'faction:Scrappers',
+      'faction:Wardens',
+    ]);
+    expect(wardens.edges).toHaveLength(3);
+
+    expect(
+      nodeIds(
+        filterRelationshipGraph(
+          graph,
+          DEFAULT_NETWORK_FILTER,
+          new Set(['Wardens'])
+        )
+      )
+    ).toEqual([
+      'character:1',
+      'character:2',
+      'character:3',
+      'faction:Scrappers',
+    ]);
+  });
+
+  it('should keep the nodes within reach of the focus character', () => {
+    const ego = (egoDepth: number) =>
+      nodeIds(
+        filterRelationshipGraph(graph, {
+          ...DEFAULT_NETWORK_FILTER,
+          includeRetired: true,
+          focusNodeId: 'character:1',
+          egoDepth,
+        })
+      );
+
+    expect(ego(1)).toEqual(['character:1', 'character:2', 'faction:Scrappers']);
+    expect(ego(2)).toEqual([
+      'character:1',
+      'character:2',
+      'character:3',
+      'faction:Scrappers',
+      'faction:Wardens',
+    ]);
+  });
+
+  it('should lay out the same graph the same way inside the canvas', () => {
+    const first = layoutRelationshipGraph(graph, 400, 300, 'character:2');
+    const second = layoutRelationshipGraph(graph, 400, 300, 'character:2');
+
+    expect(first).toEqual(second);
+    expect(first.get('character:2')).toEqual({ x: 200, y: 150 });
+    first.forEach(({ x, y }) => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(400);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(300);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import {
+  ProgressionEntry,
+  deleteProgressionEntry,
+  exportProgressionDataset,
+  getBuildAtDate,
+  importProgressionDataset,
+  loadProgression,
+  purchasePerk,
+  recordXp,
+  refundPerk,
+  validatePerkPurchase,
+} from '@/utils/progressionLedger';
+import { addCharacter, loadCharacters } from '@/utils/characterStorage';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
+import { GameCharacter } from '@/models/types';
+import { DEFAULT_RULES_PACK } from '@/models/gameData';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `uuid-${++mockUuidCounter}`),
+}));
+
+describe('progressionLedger', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+
+  const makeEntry = (
+    overrides: Partial<ProgressionEntry>
+  ): ProgressionEntry => ({
+    id: `entry-${overrides.date}`,
+    characterId: 'char-1',
+    type: 'xp',
+    date: '2050-01-01',
+    xp: 0,
+    createdAt: mockDate,
+    ...overrides,
+  });
+
+  const createCharacter = (
+    overrides: Partial<GameCharacter> = {}
+  ): Promise<GameCharacter> =>
+    addCharacter({
+      name: 'Alice',
+      species: 'Human',
+      perkIds: [],
+      distinctionIds: [],
+      factions: [],
+      relationships: [],
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockUuidCounter = 0;
+
+    mockMemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getBuildAtDate', () => {
+    const character = { id: 'char-1', perkIds: ['agility_1', 'agility_2'] };
+    const entries = [
+      makeEntry({ date: '2050-01-01', xp: 30 }),
+      makeEntry({
+        type: 'perk-purchase',
+        date: '2050-02-01',
+        xp: -10,
+        perkId: 'agility_2',
+      }),
+      makeEntry({
+        type: 'perk-refund',
+        date: '2050-03-01',
+        xp: 10,
+        perkId: 'agility_3',
+      }),
+    ];
+
+    it('should undo the purchases and refunds after the date', () => {
+      expect(getBuildAtDate(character, entries, '2050-01-15')).toEqual({
+        perkIds: ['agility_1', 'agility_3'],
+        xpEarned: 30,
+        xpSpent: 0,
+        xpBalance: 30,
+      });
+      expect(getBuildAtDate(character, entries, '2050-02-01')).toEqual({
+        perkIds: ['agility_1', 'agility_2', 'agility_3'],
+        xpEarned: 30,
+        xpSpent: 10,
+        xpBalance: 20,
+      });
+    });
+
+    it('should match the current build after the last entry', () => {
+      expect(getBuildAtDate(character, entries, '2050-03-01').perkIds).toEqual(
+        character.perkIds
+      );
+    });
+  });
+
+  describe('purchasePerk', () => {
+    it('should spend the cost from the rules pack and add the perk', async () => {
+      const character = await createCharacter();
+      await recordXp(character.id, 15, '2050-01-01');
+
+      const result = await purchasePerk(
+        character,
+        'agility_1',
+        '2050-01-01',
+        DEFAULT_RULES_PACK
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.entry).toMatchObject({ type: 'perk-purchase', xp: -10 });
+      expect(result.character?.perkIds).toEqual(['agility_1']);
+      expect((await loadCharacters())[0].perkIds).toEqual(['agility_1']);
+    });
+
+    it('should not spend XP that is not available yet', async () => {
+      const character = await createCharacter();
+      await recordXp(character.id, 15, '2050-02-01');
+
+      const result = await purchasePerk(
+        character,
+        'agility_1',
+        '2050-01-01',
+        DEFAULT_RULES_PACK
+      );
+
+      expect(result.errors).toEqual([
+        'Agile Strikes costs 10 XP, but only 0 XP is available on 2050-01-01.',
+      ]);
+      expect(await loadProgression(character.id)).toHaveLength(1);
+    });
+
+    it('should not spend XP a later purchase relies on', async () => {
+      const character = await createCharacter();
+      await recordXp(character.id, 15, '2050-01-01');
+      const { character: updated } = await purchasePerk(
+        character,
+        'agility_2',
+        '2050-03-01',
+        DEFAULT_RULES_PACK
+      );
+      expect(updated).not.toBeNull();
+      if (!updated) return;
+
+      const errors = validatePerkPurchase(
+        updated,
+        await loadProgression(character.id),
+        'agility_1',
+        '2050-02-01',
+        DEFAULT_RULES_PACK
+      );
+
+      expect(errors).toEqual([
+        'Agile Strikes costs 10 XP, but only 5 XP is available on 2050-02-01.',
+      ]);
+    });
+
+    it('should report perks of other species and perks already owned', async () => {
+      const character = await createCharacter({ perkIds: ['agility_1'] });
+
+      expect(
+        validatePerkPurchase(
+          character,
+          [],
+          'agility_16',
+          '2050-01-01',
+          DEFAULT_RULES_PACK
+        )
+      ).toEqual([
+        'Tunnel Rat is only available to Nomad.',
+        'Tunnel Rat costs 10 XP, but only 0 XP is available on 2050-01-01.',
+      ]);
+      expect(
+        validatePerkPurchase(
+          character,
+          [],
+          'agility_1',
+          '2050-01-01',
+          DEFAULT_RULES_PACK
+        )[0]
+      ).toBe('Alice already has Agile Strikes on 2050-01-01.');
+    });
+  });
+
+  describe('refundPerk', () => {
+    it('should give back the XP paid and remove the perk', async () => {
+      const character = await createCharacter();
+      await recordXp(character.id, 10, '2050-01-01');
+      const purchase = await purchasePerk(
+        character,
+        'agility_1',
+        '2050-01-01',
+        DEFAULT_RULES_PACK
+      );
+      expect(purchase.character).not.toBeNull();
+      if (!purchase.character) return;
+
+      const refund = await refundPerk(
+        purchase.character,
+        'agility_1',
+        '2050-02-01',
+        DEFAULT_RULES_PACK
+      );
+
+      expect(refund.entry).toMatchObject({ type: 'perk-refund', xp: 10 });
+      expect(refund.character?.perkIds).toEqual([]);
+      if (!refund.character) return;
+      const entries = await loadProgression(character.id);
+      expect(getBuildAtDate(refund.character, entries, '2050-01-15')).toEqual({
+        perkIds: ['agility_1'],
+        xpEarned: 10,
+        xpSpent: 10,
+        xpBalance: 0,
+      });
+    });
+
+    it('should refund nothing for perks from before the ledger', async () => {
+      const character = await createCharacter({ perkIds: ['agility_1'] });
+
+      const result = await refundPerk(
+        character,
+        'agility_1',
+        '2050-01-01',
+        DEFAULT_RULES_PACK
+      );
+
+      expect(result.entry?.xp).toBe(0);
+    });
+
+    it('should require changes to a perk in date order', async () => {
+      const character = await createCharacter({ perkIds: ['agility_1'] });
+      const { character: updated } = await refundPerk(
+        character,
+        'agility_1',
+        '2050-02-01',
+        DEFAULT_RULES_PACK
+      );
+      expect(updated).not.toBeNull();
+      if (!updated) return;
+
+      const result = await refundPerk(
+        updated,
+        'agility_1',
+        '2050-01-01',
+        DEFAULT_RULES_PACK
+      );
+
+      expect(result.entry).toBeNull();
+      expect(result.errors).toEqual([
+        'Agile Strikes already has a ledger entry on 2050-02-01. Changes to a perk must be recorded in date order.',
+      ]);
+    });
+  });
+
+  describe('recordXp', () => {
+    it('should reject invalid amounts and dates', async () => {
+      expect(await recordXp('char-1', 0, '2050-01-01')).toBeNull();
+      expect(await recordXp('char-1', 2.5, '2050-01-01')).toBeNull();
+      expect(await recordXp('char-1', 5, 'next week')).toBeNull();
+    });
+
+    it('should link XP to the event it was earned at', async () => {
+      const entry = await recordXp('char-1', 5, '2050-01-01', {
+        eventId: 'event-1',
+      });
+
+      expect(await loadProgression('char-1')).toEqual([entry]);
+      expect(entry?.eventId).toBe('event-1');
+      if (!entry) return;
+
+      expect(await deleteProgressionEntry(entry.id)).toBe(true);
+      expect(await loadProgression('char-1')).toEqual([]);
+    });
+  });
+
+  describe('importProgressionDataset', () => {
+    it('should add the entries the ledger is missing when merging', async () => {
+      const kept = await recordXp('char-1', 5, '2050-01-01');
+      expect(kept).not.toBeNull();
+      if (!kept) return;
+      const imported = [
+        makeEntry({ id: kept.id, xp: 99 }),
+        makeEntry({ date: '2050-02-01', xp: 3 }),
+      ];
+
+      await importProgressionDataset({
+        entries: imported,
+        version: '1.0',
+        lastUpdated: mockDate,
+      });
+
+      expect((await loadProgression('char-1')).map(e => e.xp)).toEqual([5, 3]);
+
+      await importProgressionDataset(
+        { entries: imported, version: '1.0', lastUpdated: mockDate },
+        false
+      );
+      expect((await exportProgressionDataset()).entries).toEqual(imported);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  buildRelationshipGraph,
+  calculateCentrality,
+  characterNodeId,
+  factionNodeId,
+  rankByMetric,
+} from '@/utils/relationshipGraph';
+import { findPowerCenters } from '@/utils/influenceAnalysis';
+import { RelationshipStanding } from '@/models/types';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('relationshipGraph', () => {
+  const friend = (name: string) => ({
+    characterName: name,
+    relationshipType: RelationshipStanding.Friend,
+  });
+
+  // A chain Alice – Bob – Carol, with Bob also in the Scrappers
+  const alice = makeCharacter({
+    id: '1',
+    name: 'Alice',
+    relationships: [friend('Bob')],
+  });
+  const bob = makeCharacter({
+    id: '2',
+    name: 'Bob',
+    relationships: [friend('Carol')],
+    factions: [
+      {
+        factionId: 'f1',
+        name: 'Scrappers',
+        standing: RelationshipStanding.Ally,
+      },
+    ],
+  });
+  const carol = makeCharacter({
+    id: '3',
+    name: 'Carol',
+    relationships: [
+      {
+        characterId: '1',
+        characterName: 'Old Name',
+        relationshipType: RelationshipStanding.Enemy,
+      },
+      friend('Nobody'),
+    ],
+  });
+
+  it('should build character and faction nodes with resolved edges', () => {
+    const graph = buildRelationshipGraph([alice, bob, carol]);
+
+    expect(Array.from(graph.nodes.keys())).toEqual([
+      'character:1',
+      'character:2',
+      'character:3',
+      'faction:f1',
+    ]);
+    expect(graph.edges).toHaveLength(4);
+    // Carol's tie to Alice resolves through the id, not the stale name
+    expect(graph.neighbours.get(characterNodeId(carol))).toEqual(
+      new Set(['character:2', 'character:1'])
+    );
+    // Faction nodes are keyed by ID, so a rename keeps the node
+    expect(
+      graph.neighbours.get(factionNodeId({ factionId: 'f1', name: 'Renamed' }))
+    ).toEqual(new Set(['character:2']));
+  });
+
+  it('should compute centrality from the graph', () => {
+    const chain = [
+      alice,
+      bob,
+      makeCharacter({ id: '3', name: 'Carol' }),
+      makeCharacter({
+        id: '4',
+        name: 'Dave',
+        relationships: [friend('Carol')],
+      }),
+    ];
+
+    const centrality = calculateCentrality(chain);
+    const [a, b, c, d] = centrality;
+
+    // Alice – Bob – Carol – Dave, plus the Scrappers hanging off Bob
+    expect(b.degree).toBeCloseTo(3 / 4);
+    expect(a.betweenness).toBe(0);
+    expect(b.betweenness).toBeCloseTo(5 / 6);
+    expect(c.betweenness).toBeCloseTo(3 / 6);
+    expect(b.brokerage).toBe(3);
+    expect(d.brokerage).toBe(0);
+    // Endorsed by Alice and the Scrappers, Bob outranks Carol; nobody
+    // endorses Alice or Dave
+    expect(b.pageRank).toBeGreaterThan(c.pageRank);
+    expect(c.pageRank).toBeGreaterThan(a.pageRank);
+    expect(a.pageRank).toBeCloseTo(d.pageRank);
+    expect(
+      rankByMetric(centrality, 'betweenness').map(e => e.character.name)
+    ).toEqual(['Bob', 'Carol']);
+    expect(rankByMetric(centrality, 'influence', 1)[0].influence).toMatchObject(
+      {
+        character: bob,
+        influenceScore: 8,
+      }
+    );
+  });
+
+  it('should find power centers among influential allies', () => {
+    const member = { name: 'Scrappers', standing: RelationshipStanding.Ally };
+    const hub = makeCharacter({
+      id: '1',
+      name: 'Hub',
+      factions: [member, { ...member, name: 'Wardens' }],
+      relationships: [friend('Boss')],
+    });
+    const boss = makeCharacter({
+      id: '2',
+      name: 'Boss',
+      factions: [member, { ...member, name: 'Wardens' }],
+      relationships: [friend('Hub')],
+    });
+
+    expect(
+      findPowerCenters([hub, boss]).map(center => center.character.name)
+    ).toEqual(['Hub', 'Boss']);
+  });
+});
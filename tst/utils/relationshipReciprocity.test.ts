@@ -0,0 +1,90 @@
+import {
+  applyReciprocityFixes,
+  describeReciprocityFix,
+  findReciprocityIssues,
+} from '@/utils/relationshipReciprocity';
+import {
+  GameCharacter,
+  Relationship,
+  RelationshipStanding,
+} from '@/models/types';
+import { makeCharacter } from '../helpers/fixtures';
+
+describe('relationshipReciprocity', () => {
+  const withRelationships = (
+    id: string,
+    relationships: Relationship[] = [],
+    updatedAt = '2025-01-01'
+  ): GameCharacter =>
+    makeCharacter({
+      id,
+      name: `Character ${id}`,
+      relationships,
+      updatedAt,
+    });
+
+  const linkTo = (
+    id: string,
+    relationshipType: RelationshipStanding
+  ): Relationship => ({
+    characterId: id,
+    characterName: `Character ${id}`,
+    relationshipType,
+  });
+
+  const { Ally, Friend, Neutral, Hostile, Enemy } = RelationshipStanding;
+
+  it('should find one-sided, mismatched and dangling relationships', () => {
+    const characters = [
+      withRelationships('1', [linkTo('2', Ally), linkTo('3', Friend)]),
+      withRelationships('2', [linkTo('1', Enemy)], '2025-02-01'),
+      withRelationships('3', [
+        linkTo('1', Neutral),
+        linkTo('gone', Hostile),
+        { characterName: 'Stranger', relationshipType: Friend },
+      ]),
+    ];
+
+    const issues = findReciprocityIssues(characters);
+
+    expect(
+      issues.map(issue => [issue.type, issue.character.id, issue.target?.id])
+    ).toEqual([
+      ['mismatched', '2', '1'],
+      ['dangling', '3', undefined],
+    ]);
+    expect(describeReciprocityFix(issues[0])).toBe(
+      "Change Character 1's standing towards Character 2 from Ally to Enemy"
+    );
+
+    const oneSided = findReciprocityIssues([
+      withRelationships('1', [linkTo('2', Hostile)]),
+      withRelationships('2'),
+    ]);
+    expect(oneSided).toHaveLength(1);
+    expect(oneSided[0]).toMatchObject({ type: 'one-sided', key: '1:0' });
+  });
+
+  it('should apply every fix and leave untouched characters as they were', () => {
+    const characters = [
+      withRelationships('1', [linkTo('2', Friend), linkTo('gone', Ally)]),
+      withRelationships('2', [linkTo('3', Enemy)]),
+      withRelationships('3', [linkTo('2', Ally)], '2025-02-01'),
+      withRelationships('4'),
+    ];
+
+    const fixed = applyReciprocityFixes(
+      characters,
+      findReciprocityIssues(characters)
+    );
+
+    expect(fixed[0].relationships).toEqual([linkTo('2', Friend)]);
+    expect(fixed[1].relationships).toEqual([
+      linkTo('3', Ally),
+      linkTo('1', Friend),
+    ]);
+    expect(fixed[2]).toBe(characters[2]);
+    expect(fixed[3]).toBe(characters[3]);
+    expect(findReciprocityIssues(fixed)).toEqual([]);
+  });
+});
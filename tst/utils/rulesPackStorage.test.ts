@@ -0,0 +1,266 @@
+import {
+  deleteRulesPack,
+  getActiveRulesPack,
+  importRulesPack,
+  initializeRulesPack,
+  loadRulesPacks,
+  setCampaignRulesPack,
+  subscribeToRulesPackChanges,
+  validateRulesPack,
+} from '@/utils/rulesPackStorage';
+import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+import { DEFAULT_RULES_PACK, RulesPack } from '@/models/gameData';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+describe('rulesPackStorage', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+  let store: Map<string, unknown>;
+
+  const makePack = (overrides: Partial<RulesPack> = {}): RulesPack => ({
+    formatVersion: 1,
+    id: 'wasteland',
+    name: 'Wasteland',
+    version: '1.0.0',
+    species: {
+      Ghoul: { ...DEFAULT_RULES_PACK.species.Human },
+      Robot: { ...DEFAULT_RULES_PACK.species.Android },
+    },
+    speciesGroups: { organic: ['Ghoul'] },
+    perkTags: ['Scavenging'],
+    tagScoreBonuses: { Scavenging: [{ requiredScore: 3, limit: 1 }] },
+    perks: [
+      {
+        id: 'scav_1',
+        name: 'Dumpster Diver',
+        description: '',
+        tag: 'Scavenging',
+        allowedSpecies: ['Ghoul'],
+        recipeIds: ['r1'],
+      },
+    ],
+    distinctions: [{ id: 'd1', name: 'Glowing', description: '' }],
+    recipes: [{ id: 'r1', name: 'Rad Soup', description: '', materials: [] }],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    store = new Map();
+    (SafeAsyncStorageJSONParser.getItem as jest.Mock).mockImplementation(
+      async (key: string) => store.get(key) ?? null
+    );
+    (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockImplementation(
+      async (key: string, value: unknown) => {
+        store.set(key, value);
+        return true;
+      }
+    );
+    // Every test starts on the built-in pack
+    await initializeRulesPack();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('validateRulesPack', () => {
+    it('should accept the built-in pack', () => {
+      expect(validateRulesPack(DEFAULT_RULES_PACK).errors).toEqual([]);
+    });
+
+    it('should report every broken reference', () => {
+      const pack = makePack({
+        speciesGroups: { organic: ['Ghoul', 'Elf'] },
+        perks: [
+          {
+            id: 'scav_1',
+            name: 'Dumpster Diver',
+            description: '',
+            tag: 'Stealth',
+            recipeIds: ['r9'],
+          },
+        ],
+      });
+
+      const result = validateRulesPack(pack);
+
+      expect(result.pack).toBeNull();
+      expect(result.errors).toEqual([
+        'speciesGroups.organic refers to unknown species "Elf".',
+        'perks[0] has unknown tag "Stealth".',
+        'perks[0] refers to unknown recipe "r9".',
+      ]);
+    });
+
+    it('should report missing fields and duplicate IDs', () => {
+      const pack: Partial<RulesPack> = makePack({
+        distinctions: [
+          { id: 'd1', name: 'Glowing', description: '' },
+          { id: 'd1', name: 'Glowing Again', description: '' },
+        ],
+      });
+      delete pack.name;
+
+      expect(validateRulesPack(pack).errors).toEqual([
+        'name must be a non-empty string.',
+        'distinctions contains the ID "d1" twice.',
+      ]);
+    });
+
+    it('should report invalid perk costs', () => {
+      const pack = makePack({
+        progression: { perkCost: -5 },
+        perks: [{ ...makePack().perks[0], cost: -1 }],
+      });
+
+      expect(validateRulesPack(pack).errors).toEqual([
+        'progression.perkCost must be a number of at least 0.',
+        'perks[0].cost must be a number of at least 0.',
+      ]);
+    });
+
+    it('should check the stat modifiers of distinctions', () => {
+      const pack = makePack();
+      const distinction = {
+        ...pack.distinctions[0],
+        statModifiers: { health: 'lots', tagModifiers: { Cooking: 1 } },
+      };
+
+      expect(
+        validateRulesPack({ ...pack, distinctions: [distinction] }).errors
+      ).toEqual([
+        'distinctions[0].statModifiers.health must be a number.',
+        'distinctions[0].statModifiers refers to unknown tag "Cooking".',
+      ]);
+    });
+
+    it('should check the cyberware catalog', () => {
+      const pack = makePack();
+      const cyberware = [
+        {
+          id: 'c1',
+          name: 'Geiger Eye',
+          description: '',
+          allowedSpecies: ['Synth'],
+          statModifiers: { tagModifiers: { Cooking: 1 } },
+        },
+        { id: 'c1', name: '', description: '' },
+      ];
+
+      expect(validateRulesPack({ ...pack, cyberware }).errors).toEqual([
+        'cyberware[0].allowedSpecies refers to unknown species "Synth".',
+        'cyberware contains the ID "c1" twice.',
+        'cyberware[1].name must be a non-empty string.',
+        'cyberware[0].statModifiers refers to unknown tag "Cooking".',
+      ]);
+    });
+
+    it('should check the evolution prerequisites of species', () => {
+      const pack = makePack();
+      const species = {
+        ...pack.species,
+        Ghoul: {
+          ...pack.species.Ghoul,
+          prerequisites: {
+            fromSpecies: ['Human'],
+            perkIds: ['scav_1', 'scav_9'],
+            cyberwareIds: ['c1'],
+            minCyberware: -1,
+          },
+        },
+      };
+
+      expect(validateRulesPack({ ...pack, species }).errors).toEqual([
+        'species.Ghoul.prerequisites.fromSpecies refers to unknown species "Human".',
+        'species.Ghoul.prerequisites refers to unknown perk "scav_9".',
+        'species.Ghoul.prerequisites refers to unknown cyberware "c1".',
+        'species.Ghoul.prerequisites.minCyberware must be a number of at least 0.',
+      ]);
+    });
+
+    it('should refuse packs in a newer format', () => {
+      expect(validateRulesPack(makePack({ formatVersion: 99 })).errors).toEqual(
+        [
+          'This pack uses format 99, but this app supports up to format 1. Please update the app.',
+        ]
+      );
+    });
+  });
+
+  describe('importRulesPack', () => {
+    it('should store a valid pack for every campaign', async () => {
+      const result = await importRulesPack(JSON.stringify(makePack()));
+
+      expect(result.errors).toEqual([]);
+      expect((await loadRulesPacks()).map(p => p.id)).toEqual([
+        DEFAULT_RULES_PACK.id,
+        'wasteland',
+      ]);
+    });
+
+    it('should replace an installed pack with the same ID', async () => {
+      await importRulesPack(JSON.stringify(makePack()));
+      await importRulesPack(JSON.stringify(makePack({ version: '1.1.0' })));
+
+      const packs = await loadRulesPacks();
+      expect(packs).toHaveLength(2);
+      expect(packs[1].version).toBe('1.1.0');
+    });
+
+    it('should reject invalid JSON and the built-in ID', async () => {
+      expect((await importRulesPack('{')).errors).toEqual([
+        'The file is not valid JSON.',
+      ]);
+      expect(
+        (
+          await importRulesPack(
+            JSON.stringify(makePack({ id: DEFAULT_RULES_PACK.id }))
+          )
+        ).pack
+      ).toBeNull();
+      expect(await loadRulesPacks()).toEqual([DEFAULT_RULES_PACK]);
+    });
+  });
+
+  describe('campaign selection', () => {
+    it('should activate and remember the pack of the campaign', async () => {
+      await importRulesPack(JSON.stringify(makePack()));
+      const listener = jest.fn();
+      const unsubscribe = subscribeToRulesPackChanges(listener);
+
+      await setCampaignRulesPack('wasteland');
+      unsubscribe();
+
+      expect(getActiveRulesPack().id).toBe('wasteland');
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'wasteland' })
+      );
+      expect(store.get('gameCharacterManager_rulesPackSelection')).toEqual({
+        packId: 'wasteland',
+        lastUpdated: mockDate,
+      });
+    });
+
+    it('should not select a pack that is not installed', async () => {
+      expect(await setCampaignRulesPack('missing')).toBeNull();
+      expect(getActiveRulesPack()).toBe(DEFAULT_RULES_PACK);
+    });
+
+    it('should fall back to the built-in pack when the pack is deleted', async () => {
+      await importRulesPack(JSON.stringify(makePack()));
+      await setCampaignRulesPack('wasteland');
+
+      expect(await deleteRulesPack('wasteland')).toBe(true);
+      expect(getActiveRulesPack()).toBe(DEFAULT_RULES_PACK);
+
+      // The selection is stale but loads the built-in pack
+      expect(await initializeRulesPack()).toBe(DEFAULT_RULES_PACK);
+      expect(await deleteRulesPack(DEFAULT_RULES_PACK.id)).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+import {
+  SafeAsyncStorageJSONParser,
+  salvageCorruptedJSON,
+} from '@/utils/safeAsyncStorageJSONParser';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage');
@@ -149,6 +152,29 @@ describe('SafeAsyncStorageJSONParser', () => {
     });
   });
 
+  describe('getAllKeys', () => {
+    it('should return all keys from storage', async () => {
+      (AsyncStorage.getAllKeys as jest.Mock).mockResolvedValue([
+        'key1',
+        'key2',
+      ]);
+
+      const result = await SafeAsyncStorageJSONParser.getAllKeys();
+
+      expect(result).toEqual(['key1', 'key2']);
+    });
+
+    it('should return empty array on storage error', async () => {
+      (AsyncStorage.getAllKeys as jest.Mock).mockRejectedValue(
+        new Error('Storage error')
+      );
+
+      const result = await SafeAsyncStorageJSONParser.getAllKeys();
+
+      expect(result).toEqual([]);
+    });
+  });
+
   describe('multiGet', () => {
     it('should return multiple items successfully', async () => {
       const mockData = [
@@ -193,22 +219,23 @@ describe('SafeAsyncStorageJSONParser', () => {
     });
 
     it('should handle corrupted data gracefully', async () => {
+      // Corrupted keys are quarantined, so this one is not reused elsewhere
       const mockData = [
         ['key1', JSON.stringify({ value: 1 })],
-        ['key2', 'invalid-json{'],
+        ['corrupt-multi', 'invalid-json{'],
         ['key3', JSON.stringify({ value: 3 })],
       ];
       (AsyncStorage.multiGet as jest.Mock).mockResolvedValue(mockData);
 
       const result = await SafeAsyncStorageJSONParser.multiGet([
         'key1',
-        'key2',
+        'corrupt-multi',
         'key3',
       ]);
 
       expect(result).toEqual({
         key1: { value: 1 },
-        key2: null,
+        'corrupt-multi': null,
         key3: { value: 3 },
       });
     });
@@ -270,6 +297,175 @@ describe('SafeAsyncStorageJSONParser', () => {
     });
   });
 
+  describe('salvageCorruptedJSON', () => {
+    it('should recover the intact records of a truncated dataset', () => {
+      const raw =
+        '{"characters":[{"id":"1","name":"A [x]"},{"id":"2","name":"B \\"q\\""},{"id":"3","na';
+
+      expect(salvageCorruptedJSON(raw)).toEqual({
+        value: {
+          characters: [
+            { id: '1', name: 'A [x]' },
+            { id: '2', name: 'B "q"' },
+          ],
+        },
+        recovered: 2,
+      });
+    });
+
+    it('should skip damaged records of an array', () => {
+      const raw = '[{"id":"1"},{"id":"2",,},{"id":"3"}]';
+
+      expect(salvageCorruptedJSON(raw)).toEqual({
+        value: [{ id: '1' }, { id: '3' }],
+        recovered: 2,
+      });
+    });
+
+    it('should return null when nothing is recoverable', () => {
+      expect(salvageCorruptedJSON('invalid-json{')).toBeNull();
+      expect(salvageCorruptedJSON('{"characters":[{"id":')).toBeNull();
+    });
+
+    it('should not salvage a single record as a dataset', () => {
+      const raw = '{"id":"1","factions":[{"name":"Crows"}],"notes":"tru';
+
+      expect(salvageCorruptedJSON(raw)).toBeNull();
+    });
+  });
+
+  describe('quarantine', () => {
+    const corrupted = '{"characters":[{"id":"1"},{"id":"2"';
+    let store: Map<string, string>;
+
+    beforeEach(() => {
+      store = new Map();
+      (AsyncStorage.getItem as jest.Mock).mockImplementation(
+        async (key: string) => store.get(key) ?? null
+      );
+      (AsyncStorage.setItem as jest.Mock).mockImplementation(
+        async (key: string, value: string) => {
+          store.set(key, value);
+        }
+      );
+      (AsyncStorage.removeItem as jest.Mock).mockImplementation(
+        async (key: string) => {
+          store.delete(key);
+        }
+      );
+    });
+
+    // Quarantine state is shared, so every test uses its own key
+    const quarantine = async (key: string) => {
+      store.set(key, corrupted);
+      expect(await SafeAsyncStorageJSONParser.getItem(key)).toBeNull();
+    };
+
+    it('should keep the corrupted value and refuse writes and removal', async () => {
+      await quarantine('quarantine-write');
+
+      expect(store.get('quarantine-write__recovery')).toBe(corrupted);
+      expect(
+        await SafeAsyncStorageJSONParser.setItem('quarantine-write', [])
+      ).toBe(false);
+      expect(
+        await SafeAsyncStorageJSONParser.removeItem('quarantine-write')
+      ).toBe(false);
+      expect(store.get('quarantine-write')).toBe(corrupted);
+      expect(SafeAsyncStorageJSONParser.getQuarantinedItems()).toContainEqual(
+        expect.objectContaining({
+          key: 'quarantine-write',
+          recoveryKey: 'quarantine-write__recovery',
+          salvageableRecords: 1,
+        })
+      );
+    });
+
+    it('should quarantine corrupted values read in bulk', async () => {
+      store.set('quarantine-multi', corrupted);
+      (AsyncStorage.multiGet as jest.Mock).mockImplementation(
+        async (keys: string[]) => keys.map(key => [key, store.get(key) ?? null])
+      );
+
+      expect(
+        await SafeAsyncStorageJSONParser.multiGet(['quarantine-multi'])
+      ).toEqual({ 'quarantine-multi': null });
+      expect(store.get('quarantine-multi__recovery')).toBe(corrupted);
+      expect(
+        await SafeAsyncStorageJSONParser.setItem('quarantine-multi', [])
+      ).toBe(false);
+    });
+
+    it('should notify subscribers until they unsubscribe', async () => {
+      const listener = jest.fn();
+      const unsubscribe =
+        SafeAsyncStorageJSONParser.subscribeToQuarantine(listener);
+
+      await quarantine('quarantine-notify');
+      await quarantine('quarantine-notify'); // Already quarantined
+      unsubscribe();
+      await SafeAsyncStorageJSONParser.discardQuarantinedItem(
+        'quarantine-notify'
+      );
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace the value with the salvaged records', async () => {
+      await quarantine('quarantine-salvage');
+
+      expect(
+        await SafeAsyncStorageJSONParser.salvageQuarantinedItem(
+          'quarantine-salvage'
+        )
+      ).toBe(true);
+      expect(
+        await SafeAsyncStorageJSONParser.getItem('quarantine-salvage')
+      ).toEqual({ characters: [{ id: '1' }] });
+      expect(store.has('quarantine-salvage__recovery')).toBe(false);
+      expect(
+        await SafeAsyncStorageJSONParser.setItem('quarantine-salvage', [])
+      ).toBe(true);
+    });
+
+    it('should delete the value and its recovery copy on discard', async () => {
+      await quarantine('quarantine-discard');
+
+      expect(
+        await SafeAsyncStorageJSONParser.discardQuarantinedItem(
+          'quarantine-discard'
+        )
+      ).toBe(true);
+      expect(store.size).toBe(0);
+      expect(
+        SafeAsyncStorageJSONParser.getQuarantinedItems().map(i => i.key)
+      ).not.toContain('quarantine-discard');
+    });
+
+    it('should keep the recovery copy when released', async () => {
+      await quarantine('quarantine-release');
+
+      await SafeAsyncStorageJSONParser.releaseQuarantinedItem(
+        'quarantine-release'
+      );
+
+      expect(store.has('quarantine-release')).toBe(false);
+      expect(store.get('quarantine-release__recovery')).toBe(corrupted);
+      expect(
+        await SafeAsyncStorageJSONParser.setItem('quarantine-release', [])
+      ).toBe(true);
+    });
+
+    it('should not act on keys that are not quarantined', async () => {
+      expect(
+        await SafeAsyncStorageJSONParser.salvageQuarantinedItem('unknown')
+      ).toBe(false);
+      expect(
+        await SafeAsyncStorageJSONParser.discardQuarantinedItem('unknown')
+      ).toBe(false);
+    });
+  });
+
   describe('Development mode logging', () => {
     const originalDev = global.__DEV__;
     let consoleWarnSpy: jest.SpyInstance;
@@ -352,14 +548,14 @@ describe('SafeAsyncStorageJSONParser', () => {
     it('should log warning for corrupted JSON in multiGet', async () => {
       const mockData = [
         ['key1', JSON.stringify({ value: 1 })],
-        ['key2', 'invalid-json{'],
+        ['corrupt-multi-log', 'invalid-json{'],
       ];
       (AsyncStorage.multiGet as jest.Mock).mockResolvedValue(mockData);
 
-      await SafeAsyncStorageJSONParser.multiGet(['key1', 'key2']);
+      await SafeAsyncStorageJSONParser.multiGet(['key1', 'corrupt-multi-log']);
 
       expect(consoleWarnSpy).toHaveBeenCalledWith(
-        'Failed to parse stored data for key "key2":',
+        'Failed to parse stored data for key "corrupt-multi-log":',
         expect.any(Error)
       );
     });
@@ -0,0 +1,230 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  SchemaMigration,
+  SchemaVersionError,
+  VersionedDataset,
+  compareSchemaVersions,
+  migrateDataset,
+  migrateLegacyDiscordConfig,
+} from '@/utils/schemaMigrations';
+
+describe('schemaMigrations', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+
+  beforeEach(() => {
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('compareSchemaVersions', () => {
+    it('should compare versions numerically', () => {
+      expect(compareSchemaVersions('1.10', '1.9')).toBeGreaterThan(0);
+      expect(compareSchemaVersions('1.0', '2.0')).toBeLessThan(0);
+      expect(compareSchemaVersions('2', '2.0')).toBe(0);
+    });
+  });
+
+  describe('migrateDataset', () => {
+    it('should fold legacy imageUri into imageUris', () => {
+      const { dataset, migrated } = migrateDataset({
+        version: '1.0',
+        characters: [
+          { id: 'char-1', imageUri: 'file:///a.jpg' },
+          { id: 'char-2', imageUri: 'file:///b.jpg', imageUris: ['x.jpg'] },
+        ],
+        locations: [{ id: 'loc-1', imageUri: '' }],
+      });
+
+      expect(migrated).toBe(true);
+      expect(dataset.version).toBe(CURRENT_SCHEMA_VERSION);
+      expect(dataset.characters).toEqual([
+        { id: 'char-1', imageUris: ['file:///a.jpg'] },
+        { id: 'char-2', imageUris: ['x.jpg'] },
+      ]);
+      expect(dataset.locations).toEqual([{ id: 'loc-1' }]);
+    });
+
+    it('should treat datasets without a version as legacy', () => {
+      const { dataset, migrated } = migrateDataset({
+        events: [{ id: 'event-1', imageUri: 'file:///e.jpg' }],
+      });
+
+      expect(migrated).toBe(true);
+      expect(dataset.events).toEqual([
+        { id: 'event-1', imageUris: ['file:///e.jpg'] },
+      ]);
+    });
+
+    it('should migrate the Discord config in exports', () => {
+      const { dataset } = migrateDataset<VersionedDataset>({
+        version: '1.0',
+        discord: {
+          config: {
+            enabled: true,
+            autoSync: true,
+            botToken: 'token',
+            channelId: 'channel',
+          },
+        },
+      });
+
+      expect(dataset.discord?.config?.serverConfigs).toEqual([
+        expect.objectContaining({
+          id: 'legacy-default',
+          botToken: 'token',
+          channelId: 'channel',
+        }),
+      ]);
+    });
+
+    it('should link free-text character locations to locations', () => {
+      const { dataset } = migrateDataset({
+        version: '2.0',
+        characters: [
+          { id: 'char-1', location: 'old town' },
+          { id: 'char-2', location: 'Wasteland' },
+          { id: 'char-3', location: 'Wasteland' },
+          { id: 'char-4', location: 'Vault', locationId: 'loc-9' },
+        ],
+        locations: [{ id: 'loc-1', name: 'Old Town' }],
+      });
+
+      const [wasteland] = (dataset.locations ?? []).slice(1) as {
+        id: string;
+      }[];
+      expect(dataset.locations).toEqual([
+        { id: 'loc-1', name: 'Old Town' },
+        {
+          id: expect.any(String),
+          name: 'Wasteland',
+          description: 'Migrated from old location data: Wasteland',
+          createdAt: mockDate,
+          updatedAt: mockDate,
+        },
+      ]);
+      expect(dataset.characters).toEqual([
+        { id: 'char-1', locationId: 'loc-1' },
+        { id: 'char-2', locationId: wasteland.id },
+        { id: 'char-3', locationId: wasteland.id },
+        { id: 'char-4', locationId: 'loc-9' },
+      ]);
+    });
+
+    it('should copy membership descriptions to factions without one', () => {
+      const { dataset } = migrateDataset({
+        version: '2.1',
+        characters: [
+          {
+            id: 'char-1',
+            factions: [
+              { name: 'Brotherhood', description: 'From Alice' },
+              { name: 'Raiders', description: 'From Alice' },
+              { name: 'Tinkers', description: '  ' },
+            ],
+          },
+          {
+            id: 'char-2',
+            factions: [
+              { name: 'Brotherhood', description: 'From Bob' },
+              { name: 'Scavengers', description: 'From Bob' },
+            ],
+          },
+        ],
+        factions: [
+          { id: 'faction-1', name: 'Brotherhood', description: '' },
+          { id: 'faction-2', name: 'Raiders', description: 'Stored' },
+        ],
+      });
+
+      expect(dataset.factions).toEqual([
+        {
+          id: 'faction-1',
+          name: 'Brotherhood',
+          description: 'From Alice',
+          updatedAt: mockDate,
+        },
+        { id: 'faction-2', name: 'Raiders', description: 'Stored' },
+        {
+          name: 'Scavengers',
+          description: 'From Bob',
+          createdAt: mockDate,
+          updatedAt: mockDate,
+        },
+      ]);
+    });
+
+    it('should not create factions for a dataset without any', () => {
+      const input = {
+        version: '2.1',
+        characters: [
+          { id: 'char-1', factions: [{ name: 'Raiders', description: 'A' }] },
+        ],
+      };
+
+      expect(migrateDataset(input).dataset).not.toHaveProperty('factions');
+    });
+
+    it('should leave current datasets untouched', () => {
+      const input = {
+        version: CURRENT_SCHEMA_VERSION,
+        characters: [{ id: 'char-1', imageUris: [] }],
+      };
+
+      const { dataset, migrated } = migrateDataset(input);
+
+      expect(migrated).toBe(false);
+      expect(dataset).toBe(input);
+    });
+
+    it('should refuse datasets from a newer version', () => {
+      expect(() => migrateDataset({ version: '99.0' })).toThrow(
+        SchemaVersionError
+      );
+      expect(() => migrateDataset({ version: '99.0' })).toThrow(
+        /newer version of the app/
+      );
+    });
+
+    it('should apply pending steps in version order', () => {
+      const applied: string[] = [];
+      const step = (version: string): SchemaMigration => ({
+        version,
+        description: `Step ${version}`,
+        migrate: dataset => {
+          applied.push(version);
+          return dataset;
+        },
+      });
+
+      const { dataset } = migrateDataset({ version: '1.1' }, [
+        step('1.5'),
+        step('1.1'),
+        step('1.2'),
+      ]);
+
+      expect(applied).toEqual(['1.2', '1.5']);
+      expect(dataset.version).toBe('1.5');
+    });
+  });
+
+  describe('migrateLegacyDiscordConfig', () => {
+    it('should return multi-server configs unchanged', () => {
+      const config = { enabled: false, autoSync: true, serverConfigs: [] };
+
+      expect(migrateLegacyDiscordConfig(config)).toBe(config);
+    });
+
+    it('should not create a server without both token and channel', () => {
+      const result = migrateLegacyDiscordConfig({
+        enabled: false,
+        autoSync: true,
+        botToken: 'token',
+      });
+
+      expect(result.serverConfigs).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import {
+  MAX_SNAPSHOTS,
+  MAX_SNAPSHOT_STORAGE,
+  createSnapshot,
+  diffSnapshotWithCurrent,
+  ensureDailySnapshot,
+  loadSnapshots,
+  restoreSnapshot,
+} from '@/utils/snapshotStorage';
+import {
+  addCharacter,
+  clearStorage,
+  createLocation,
+  deleteCharacter,
+  loadCharacters,
+  loadLocations,
+  updateCharacter,
+} from '@/utils/characterStorage';
+import { loadProgression, recordXp } from '@/utils/progressionLedger';
+import { adjustHealth, loadLiveStates } from '@/utils/liveStateStorage';
+import { addInventoryItem, loadInventory } from '@/utils/inventoryStorage';
+import { DEFAULT_RULES_PACK } from '@/models/gameData';
+import { SafeAsyncStorageJSONParser } from '@/utils/safeAsyncStorageJSONParser';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
+import { makeCharacter } from '../helpers/fixtures';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `uuid-${++mockUuidCounter}`),
+}));
+
+describe('snapshotStorage', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let store: Map<string, unknown>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse(mockDate));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockUuidCounter = 0;
+
+    // In-memory storage so data and snapshots persist between calls
+    store = mockMemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createSnapshot', () => {
+    it('should record the reason and entity counts', async () => {
+      await addCharacter(makeCharacter({ name: 'Alice' }));
+      await createLocation({ name: 'Harbor', description: 'Docks' });
+
+      const snapshot = await createSnapshot('import');
+
+      expect(snapshot).toEqual({
+        id: expect.any(String),
+        reason: 'import',
+        createdAt: mockDate,
+        counts: { characters: 1, factions: 0, locations: 1, events: 0 },
+        size: expect.any(Number),
+      });
+      expect(await loadSnapshots()).toEqual([snapshot]);
+    });
+
+    it('should keep only the most recent snapshots', async () => {
+      const first = await createSnapshot('manual');
+      expect(first).not.toBeNull();
+      if (!first) return;
+      for (let i = 0; i < MAX_SNAPSHOTS; i++) {
+        await createSnapshot('manual');
+      }
+
+      const snapshots = await loadSnapshots();
+
+      expect(snapshots).toHaveLength(MAX_SNAPSHOTS);
+      expect(snapshots.some(s => s.id === first.id)).toBe(false);
+      expect(store.has(`gameCharacterManager_snapshot_${first.id}`)).toBe(
+        false
+      );
+    });
+
+    it('should drop the oldest snapshots over the size budget', async () => {
+      const image = `data:image/png;base64,${'A'.repeat(
+        MAX_SNAPSHOT_STORAGE / 3
+      )}`;
+      await addCharacter({
+        ...makeCharacter({ name: 'Alice' }),
+        imageUris: [image],
+      });
+
+      const first = await createSnapshot('manual');
+      expect(first).not.toBeNull();
+      if (!first) return;
+      await createSnapshot('manual');
+      await createSnapshot('manual');
+      const snapshots = await loadSnapshots();
+
+      expect(snapshots).toHaveLength(2);
+      expect(snapshots.some(s => s.id === first.id)).toBe(false);
+      expect(store.has(`gameCharacterManager_snapshot_${first.id}`)).toBe(
+        false
+      );
+    });
+
+    it('should return null instead of throwing on failure', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockRejectedValue(
+        new Error('Storage full')
+      );
+
+      expect(await createSnapshot('clear')).toBeNull();
+    });
+  });
+
+  describe('ensureDailySnapshot', () => {
+    it('should take at most one daily snapshot per day', async () => {
+      expect(await ensureDailySnapshot()).not.toBeNull();
+      expect(await ensureDailySnapshot()).toBeNull();
+
+      jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(Date.parse(mockDate) + DAY_MS + 1);
+
+      expect((await ensureDailySnapshot())?.reason).toBe('daily');
+    });
+  });
+
+  describe('restoreSnapshot', () => {
+    it('should replace the current data and snapshot it first', async () => {
+      const alice = await addCharacter(makeCharacter({ name: 'Alice' }));
+      const snapshot = await createSnapshot('manual');
+      expect(snapshot).not.toBeNull();
+      if (!snapshot) return;
+
+      await addCharacter(makeCharacter({ name: 'Bob' }));
+      await clearStorage();
+      await createLocation({ name: 'Harbor', description: 'Docks' });
+
+      const result = await restoreSnapshot(snapshot.id);
+
+      expect(result).toBe(true);
+      expect(await loadCharacters()).toEqual([alice]);
+      expect(await loadLocations()).toEqual([]);
+      expect((await loadSnapshots())[0].reason).toBe('restore');
+    });
+
+    it('should restore the inventory, progression and live state', async () => {
+      const alice = await addCharacter(makeCharacter({ name: 'Alice' }));
+      const xp = await recordXp(alice.id, 5, '2050-01-01');
+      const snapshot = await createSnapshot('manual');
+      expect(snapshot).not.toBeNull();
+      if (!snapshot) return;
+
+      await recordXp(alice.id, 3, '2050-02-01');
+      await adjustHealth(alice, -1, DEFAULT_RULES_PACK);
+      await addInventoryItem({
+        name: 'Caps',
+        quantity: 10,
+        owner: { type: 'character', id: alice.id, name: 'Alice' },
+        date: '2050-02-01',
+      });
+
+      await restoreSnapshot(snapshot.id);
+
+      expect(await loadProgression(alice.id)).toEqual([xp]);
+      expect(await loadInventory()).toEqual([]);
+      const [state] = await loadLiveStates([alice], DEFAULT_RULES_PACK);
+      expect(state.health).toBe(state.maxHealth);
+    });
+
+    it('should fail for unknown snapshots', async () => {
+      expect(await restoreSnapshot('missing')).toBe(false);
+    });
+
+    it('should not touch the data if the current state cannot be snapshotted', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await addCharacter(makeCharacter({ name: 'Alice' }));
+      const snapshot = await createSnapshot('manual');
+      expect(snapshot).not.toBeNull();
+      if (!snapshot) return;
+      await addCharacter(makeCharacter({ name: 'Bob' }));
+      (SafeAsyncStorageJSONParser.setItem as jest.Mock).mockRejectedValue(
+        new Error('Storage full')
+      );
+
+      expect(await restoreSnapshot(snapshot.id)).toBe(false);
+      expect((await loadCharacters()).map(c => c.name)).toEqual([
+        'Alice',
+        'Bob',
+      ]);
+    });
+  });
+
+  describe('diffSnapshotWithCurrent', () => {
+    it('should list entities added, removed and changed since', async () => {
+      const alice = await addCharacter(makeCharacter({ name: 'Alice' }));
+      const bob = await addCharacter(makeCharacter({ name: 'Bob' }));
+      const snapshot = await createSnapshot('manual');
+      expect(snapshot).not.toBeNull();
+      if (!snapshot) return;
+
+      await updateCharacter(alice.id, { notes: 'Moved away' });
+      await deleteCharacter(bob.id);
+      await addCharacter(makeCharacter({ name: 'Carol' }));
+
+      const changes = await diffSnapshotWithCurrent(snapshot.id);
+
+      expect(changes?.map(c => [c.entityName, !!c.before, !!c.after])).toEqual([
+        ['Alice', true, true],
+        ['Carol', false, true],
+        ['Bob', true, false],
+      ]);
+    });
+
+    it('should return null for unknown snapshots', async () => {
+      expect(await diffSnapshotWithCurrent('missing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  evolveCharacter,
+  getEvolutionErrors,
+  getEvolutionOptions,
+} from '@/utils/speciesEvolution';
+import { addCharacter, loadCharacters } from '@/utils/characterStorage';
+import { installCyberware } from '@/utils/cyberwareCatalog';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
+import { GameCharacter } from '@/models/types';
+import { DEFAULT_RULES_PACK } from '@/models/gameData';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `uuid-${++mockUuidCounter}`),
+}));
+
+describe('speciesEvolution', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+  const [plating, booster] = DEFAULT_RULES_PACK.cyberware ?? [];
+
+  const createCharacter = (
+    overrides: Partial<GameCharacter> = {}
+  ): Promise<GameCharacter> =>
+    addCharacter({
+      name: 'Alice',
+      species: 'Human',
+      perkIds: [],
+      distinctionIds: [],
+      factions: [],
+      relationships: [],
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockUuidCounter = 0;
+
+    mockMemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getEvolutionErrors', () => {
+    it('should list every unmet prerequisite', async () => {
+      const character = await createCharacter({
+        cyberware: [
+          installCyberware(plating),
+          { ...installCyberware(booster), removedDate: '2050-01-01' },
+        ],
+      });
+
+      expect(
+        getEvolutionErrors(character, 'Cyborg', 'Human', DEFAULT_RULES_PACK)
+      ).toEqual([
+        'Evolving into Cyborg requires the Chrome Prone perk.',
+        'Evolving into Cyborg requires 2 installed implants, but 1 is installed.',
+      ]);
+    });
+
+    it('should only let characters evolve from the listed species', async () => {
+      const character = await createCharacter();
+
+      expect(
+        getEvolutionErrors(character, 'Mutoid', 'Human', DEFAULT_RULES_PACK)
+      ).toEqual(['Mutoid characters must evolve from Mutant.']);
+      // New characters can't start out as a prestige species
+      expect(
+        getEvolutionErrors(character, 'Mutoid', undefined, DEFAULT_RULES_PACK)
+      ).toEqual(['Mutoid characters must evolve from Mutant.']);
+      expect(
+        getEvolutionErrors(character, 'Nomad', undefined, DEFAULT_RULES_PACK)
+      ).toEqual([]);
+    });
+  });
+
+  it('should list the species a character can evolve into', async () => {
+    const character = await createCharacter({
+      species: 'Mutant',
+      perkIds: ['charisma_17'],
+    });
+
+    expect(getEvolutionOptions(character, DEFAULT_RULES_PACK)).toEqual([
+      { species: 'Mutoid', errors: [] },
+      { species: 'Perfect Mutant', errors: [] },
+      {
+        species: 'Rad-Titan',
+        errors: ['Evolving into Rad-Titan requires the Rad Sponge perk.'],
+      },
+      {
+        species: 'Tech-Mutant',
+        errors: [
+          'Evolving into Tech-Mutant requires 1 installed implants, but 0 are installed.',
+        ],
+      },
+    ]);
+  });
+
+  describe('evolveCharacter', () => {
+    it('should record the previous species and the date', async () => {
+      const character = await createCharacter({ species: 'Mutant' });
+
+      const result = await evolveCharacter(
+        character,
+        'Mutoid',
+        '2050-03-01',
+        DEFAULT_RULES_PACK
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.character).toMatchObject({
+        species: 'Mutoid',
+        speciesHistory: [{ from: 'Mutant', to: 'Mutoid', date: '2050-03-01' }],
+      });
+      expect((await loadCharacters())[0].species).toBe('Mutoid');
+    });
+
+    it('should refuse evolutions that break the rules', async () => {
+      const character = await createCharacter({
+        species: 'Mutant',
+        speciesHistory: [{ from: 'Human', to: 'Mutant', date: '2050-02-01' }],
+      });
+
+      const result = await evolveCharacter(
+        character,
+        'Rad-Titan',
+        '2050-01-01',
+        DEFAULT_RULES_PACK
+      );
+
+      expect(result).toEqual({
+        character: null,
+        errors: [
+          'Evolving into Rad-Titan requires the Rad Sponge perk.',
+          'Alice only became Mutant on 2050-02-01.',
+        ],
+      });
+      expect((await loadCharacters())[0].species).toBe('Mutant');
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  addToTrash,
+  emptyTrash,
+  getTrashRetentionDays,
+  loadTrashItems,
+  purgeTrashItem,
+  setTrashRetentionDays,
+} from '@/utils/trashStorage';
+import {
+  addCharacter,
+  addEvent,
+  createFaction,
+  createLocation,
+  deleteCharacter,
+  deleteEvent,
+  deleteFactionCompletely,
+  deleteLocationCompletely,
+  loadCharacters,
+  loadEvents,
+  loadFactions,
+  loadLocations,
+  restoreFromTrash,
+  updateCharacter,
+} from '@/utils/characterStorage';
+import { addInventoryItem, loadInventory } from '@/utils/inventoryStorage';
+import { loadProgression, recordXp } from '@/utils/progressionLedger';
+import { adjustHealth, exportLiveStateDataset } from '@/utils/liveStateStorage';
+import { DEFAULT_RULES_PACK } from '@/models/gameData';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
+import { makeCharacter } from '../helpers/fixtures';
+import { GameLocation, RelationshipStanding } from '@/models/types';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `uuid-${++mockUuidCounter}`),
+}));
+
+describe('trashStorage', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const location: GameLocation = {
+    id: 'loc-1',
+    name: 'Harbor',
+    description: 'Docks',
+    createdAt: mockDate,
+    updatedAt: mockDate,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse(mockDate));
+    mockUuidCounter = 0;
+
+    // In-memory storage so deletes and the trash persist between calls
+    mockMemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('retention', () => {
+    it('should default to the built-in retention period', async () => {
+      expect(await getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+
+    it('should reject invalid retention periods', async () => {
+      expect(await setTrashRetentionDays(0)).toBe(false);
+      expect(await setTrashRetentionDays(2.5)).toBe(false);
+      expect(await setTrashRetentionDays(7)).toBe(true);
+
+      expect(await getTrashRetentionDays()).toBe(7);
+    });
+
+    it('should purge items older than the retention period', async () => {
+      await setTrashRetentionDays(7);
+      await addToTrash('location', location);
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse(mockDate) + DAY_MS);
+      expect(await loadTrashItems()).toHaveLength(1);
+
+      jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(Date.parse(mockDate) + 8 * DAY_MS);
+      expect(await loadTrashItems()).toEqual([]);
+    });
+  });
+
+  describe('addToTrash', () => {
+    it('should list items newest first', async () => {
+      await addToTrash('location', location);
+      await addToTrash('location', { ...location, id: 'loc-2', name: 'Tower' });
+
+      const items = await loadTrashItems();
+
+      expect(items.map(item => item.entityName)).toEqual(['Tower', 'Harbor']);
+      expect(items[1]).toEqual({
+        id: 'uuid-1',
+        entityType: 'location',
+        entityId: 'loc-1',
+        entityName: 'Harbor',
+        entity: location,
+        cascadedChanges: [],
+        deletedAt: mockDate,
+      });
+    });
+  });
+
+  describe('purgeTrashItem', () => {
+    it('should permanently remove a single item', async () => {
+      const item = await addToTrash('location', location);
+
+      expect(await purgeTrashItem(item.id)).toBe(true);
+      expect(await purgeTrashItem(item.id)).toBe(false);
+      expect(await loadTrashItems()).toEqual([]);
+    });
+
+    it('should empty the whole trash', async () => {
+      await addToTrash('location', location);
+      await emptyTrash();
+
+      expect(await loadTrashItems()).toEqual([]);
+    });
+  });
+
+  describe('restoreFromTrash', () => {
+    it('should trash and restore a deleted character', async () => {
+      const character = await addCharacter(makeCharacter());
+      await deleteCharacter(character.id);
+
+      const [item] = await loadTrashItems();
+      expect(item.entityId).toBe(character.id);
+
+      const result = await restoreFromTrash(item.id);
+
+      expect(result).toEqual({ success: true, charactersUpdated: 0 });
+      expect(await loadCharacters()).toEqual([character]);
+      expect(await loadTrashItems()).toEqual([]);
+    });
+
+    it('should trash and restore what a deleted character owns', async () => {
+      const character = await addCharacter(makeCharacter());
+      await addInventoryItem({
+        name: 'Rope',
+        quantity: 1,
+        owner: { type: 'character', id: character.id, name: character.name },
+        date: '2025-01-01',
+      });
+      await recordXp(character.id, 5, '2025-01-01');
+      await adjustHealth(character, -1, DEFAULT_RULES_PACK);
+
+      await deleteCharacter(character.id);
+
+      expect(await loadInventory()).toEqual([]);
+      expect(await loadProgression(character.id)).toEqual([]);
+      expect((await exportLiveStateDataset()).states).toEqual([]);
+      const [item] = await loadTrashItems();
+      expect(item.ownedRecords?.inventory.map(i => i.name)).toEqual(['Rope']);
+
+      await restoreFromTrash(item.id);
+
+      expect((await loadInventory()).map(i => i.name)).toEqual(['Rope']);
+      expect((await loadProgression(character.id)).map(e => e.xp)).toEqual([5]);
+      expect(
+        (await exportLiveStateDataset()).states.map(s => s.characterId)
+      ).toEqual([character.id]);
+    });
+
+    it('should restore a deleted event', async () => {
+      const event = await addEvent({
+        title: 'Heist',
+        date: '2025-01-01',
+        factionNames: [],
+        characterIds: [],
+      });
+      await deleteEvent(event.id);
+
+      const [item] = await loadTrashItems();
+      await restoreFromTrash(item.id);
+
+      expect(await loadEvents()).toEqual([event]);
+    });
+
+    it('should reinstate faction memberships removed by the delete', async () => {
+      await createFaction({ name: 'Guild', description: '' });
+      const [faction] = await loadFactions();
+      const member = await addCharacter(
+        makeCharacter({
+          factions: [
+            {
+              name: 'Guild',
+              factionId: faction.id,
+              standing: RelationshipStanding.Ally,
+            },
+          ],
+        })
+      );
+
+      await deleteFactionCompletely('Guild');
+      expect((await loadCharacters())[0].factions).toEqual([]);
+
+      // Edits made after the delete are kept
+      await updateCharacter(member.id, { notes: 'Left town' });
+
+      const [item] = await loadTrashItems();
+      expect(item.cascadedChanges).toHaveLength(1);
+
+      const result = await restoreFromTrash(item.id);
+
+      expect(result).toEqual({ success: true, charactersUpdated: 1 });
+      expect(await loadFactions()).toEqual([faction]);
+      const [restored] = await loadCharacters();
+      expect(restored.factions).toEqual(member.factions);
+      expect(restored.notes).toBe('Left town');
+    });
+
+    it('should reinstate relationships other factions had with it', async () => {
+      await createFaction({ name: 'Guild', description: '' });
+      await createFaction({
+        name: 'Watch',
+        description: '',
+        relationships: [
+          {
+            factionName: 'Guild',
+            relationshipType: RelationshipStanding.Enemy,
+          },
+        ],
+      });
+      const [, watch] = await loadFactions();
+      expect(watch.relationships).toHaveLength(1);
+
+      await deleteFactionCompletely('Guild');
+      expect((await loadFactions())[0].relationships).toEqual([]);
+
+      const [item] = await loadTrashItems();
+      await restoreFromTrash(item.id);
+
+      const restoredWatch = (await loadFactions()).find(
+        f => f.name === 'Watch'
+      );
+      expect(restoredWatch?.relationships).toEqual(watch.relationships);
+    });
+
+    it('should put its cells back under it', async () => {
+      await createFaction({ name: 'Guild', description: '' });
+      const [guild] = await loadFactions();
+      await createFaction({
+        name: 'Cell',
+        description: '',
+        parentFactionId: guild.id,
+      });
+
+      await deleteFactionCompletely('Guild');
+      expect((await loadFactions())[0].parentFactionId).toBeUndefined();
+
+      const [item] = await loadTrashItems();
+      await restoreFromTrash(item.id);
+
+      const cell = (await loadFactions()).find(f => f.name === 'Cell');
+      expect(cell?.parentFactionId).toBe(guild.id);
+    });
+
+    it('should reinstate character locations removed by the delete', async () => {
+      const created = await createLocation({
+        name: 'Harbor',
+        description: 'Docks',
+      });
+      expect(created).not.toBeNull();
+      if (!created) return;
+      const resident = await addCharacter(
+        makeCharacter({ locationId: created.id })
+      );
+      const mover = await addCharacter(
+        makeCharacter({ name: 'Bob', locationId: created.id })
+      );
+
+      await deleteLocationCompletely(created.id);
+      // Bob has moved somewhere else since
+      await updateCharacter(mover.id, { locationId: 'loc-other' });
+
+      const [item] = await loadTrashItems();
+      const result = await restoreFromTrash(item.id);
+
+      expect(result).toEqual({ success: true, charactersUpdated: 1 });
+      expect(await loadLocations()).toEqual([created]);
+      const characters = await loadCharacters();
+      expect(characters.find(c => c.id === resident.id)?.locationId).toBe(
+        created.id
+      );
+      expect(characters.find(c => c.id === mover.id)?.locationId).toBe(
+        'loc-other'
+      );
+    });
+
+    it('should not restore a faction whose name was reused', async () => {
+      await createFaction({ name: 'Guild', description: '' });
+      await deleteFactionCompletely('Guild');
+      await createFaction({ name: 'Guild', description: 'New guild' });
+
+      const [item] = await loadTrashItems();
+      const result = await restoreFromTrash(item.id);
+
+      expect(result.success).toBe(false);
+      expect(await loadTrashItems()).toHaveLength(1);
+    });
+
+    it('should fail for unknown items', async () => {
+      expect(await restoreFromTrash('missing')).toEqual({
+        success: false,
+        charactersUpdated: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { redoLastChange, undoLastChange } from '@/utils/undoRedo';
+import {
+  addCharacter,
+  createLocation,
+  deleteCharacter,
+  fixRelationshipIssues,
+  loadCharacters,
+  loadLocations,
+  updateLocation,
+} from '@/utils/characterStorage';
+import { getEntityHistory, getUndoRedoState } from '@/utils/changeJournal';
+import { findReciprocityIssues } from '@/utils/relationshipReciprocity';
+import { mockMemoryStorage } from '../helpers/memoryStorage';
+import { RelationshipStanding } from '@/models/types';
+
+jest.mock('@/utils/safeAsyncStorageJSONParser');
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `uuid-${++mockUuidCounter}`),
+}));
+
+describe('undoRedo', () => {
+  const mockDate = '2025-01-01T00:00:00.000Z';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue(mockDate);
+    mockUuidCounter = 0;
+
+    // In-memory storage so edits and the journal persist between calls
+    mockMemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return null when there is nothing to undo or redo', async () => {
+    expect(await undoLastChange()).toBeNull();
+    expect(await redoLastChange()).toBeNull();
+  });
+
+  it('should undo and redo an update', async () => {
+    const location = await createLocation({
+      name: 'Harbor',
+      description: 'Docks',
+    });
+    expect(location).not.toBeNull();
+    if (!location) return;
+    await updateLocation(location.id, { description: 'Market' });
+
+    const undone = await undoLastChange();
+
+    expect(undone?.description).toBe('Updated location "Harbor"');
+    expect((await loadLocations())[0].description).toBe('Docks');
+
+    await redoLastChange();
+
+    expect((await loadLocations())[0].description).toBe('Market');
+  });
+
+  it('should keep edits made to other fields since the change', async () => {
+    const location = await createLocation({
+      name: 'Harbor',
+      description: 'Docks',
+    });
+    expect(location).not.toBeNull();
+    if (!location) return;
+    await updateLocation(location.id, { description: 'Market' });
+    await updateLocation(location.id, { name: 'Port' });
+    await updateLocation(location.id, { mapCoordinates: { x: 0.5, y: 0.5 } });
+
+    // Undo the map position, then the rename
+    await undoLastChange();
+    await undoLastChange();
+
+    expect((await loadLocations())[0]).toMatchObject({
+      name: 'Harbor',
+      description: 'Market',
+    });
+    expect((await loadLocations())[0].mapCoordinates).toBeUndefined();
+  });
+
+  it('should restore a deleted entity', async () => {
+    const character = await addCharacter({
+      name: 'Alice',
+      species: 'Human',
+      perkIds: [],
+      distinctionIds: [],
+      factions: [],
+      relationships: [],
+    });
+    await deleteCharacter(character.id);
+    expect(await loadCharacters()).toHaveLength(0);
+
+    await undoLastChange();
+
+    expect(await loadCharacters()).toEqual([character]);
+  });
+
+  it('should remove a created entity and log the undo', async () => {
+    const location = await createLocation({
+      name: 'Harbor',
+      description: 'Docks',
+    });
+    expect(location).not.toBeNull();
+    if (!location) return;
+
+    await undoLastChange();
+
+    expect(await loadLocations()).toEqual([]);
+    const history = await getEntityHistory('location', location.id);
+    expect(history.map(entry => entry.description)).toEqual([
+      'Undo: Created location "Harbor"',
+      'Created location "Harbor"',
+    ]);
+    expect((await getUndoRedoState()).redo?.description).toBe(
+      'Created location "Harbor"'
+    );
+  });
+
+  it('should revert a bulk relationship fix with a single undo', async () => {
+    const alice = await addCharacter({
+      name: 'Alice',
+      species: 'Human',
+      perkIds: [],
+      distinctionIds: [],
+      factions: [],
+      relationships: [],
+    });
+    await addCharacter({
+      name: 'Bob',
+      species: 'Human',
+      perkIds: [],
+      distinctionIds: [],
+      factions: [],
+      relationships: [
+        {
+          characterId: alice.id,
+          characterName: 'Alice',
+          relationshipType: RelationshipStanding.Friend,
+        },
+        {
+          characterId: 'missing',
+          characterName: 'Carol',
+          relationshipType: RelationshipStanding.Enemy,
+        },
+      ],
+    });
+
+    const fixed = await fixRelationshipIssues(
+      findReciprocityIssues(await loadCharacters())
+    );
+
+    expect(fixed).toBe(2);
+    expect(findReciprocityIssues(await loadCharacters())).toEqual([]);
+
+    const undone = await undoLastChange();
+
+    expect(undone?.description).toBe('Fixed 2 relationship issues');
+    expect(findReciprocityIssues(await loadCharacters())).toHaveLength(2);
+  });
+});